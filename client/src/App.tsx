@@ -20,8 +20,18 @@ import Inventory from "@/pages/inventory";
 import UsersPage from "@/pages/users";
 import AccountingPage from "@/pages/accounting";
 import SupplierBalancesPage from "@/pages/supplier-balances";
+import ReceivingDiscrepanciesPage from "@/pages/receiving-discrepancies";
+import SupplierCreditNotesPage from "@/pages/supplier-credit-notes";
+import SupplierAdvancesPage from "@/pages/supplier-advances";
+import PaymentAccountsPage from "@/pages/payment-accounts";
 import MovementReportPage from "@/pages/movement-report";
 import PaymentMethodsReportPage from "@/pages/payment-methods-report";
+import JournalExportPage from "@/pages/journal-export";
+import AccountingPeriodsPage from "@/pages/accounting-periods";
+import AuditLogsPage from "@/pages/audit-logs";
+import ShipmentTimelinePage from "@/pages/shipment-timeline";
+import SettingsPage from "@/pages/settings";
+import WarehousesPage from "@/pages/warehouses";
 import { Skeleton } from "@/components/ui/skeleton";
 
 function AuthenticatedRouter() {
@@ -32,16 +42,26 @@ function AuthenticatedRouter() {
       <Route path="/shipments/new" component={ShipmentWizard} />
       <Route path="/shipments/:id" component={ShipmentWizard} />
       <Route path="/shipments/:id/edit" component={ShipmentWizard} />
+      <Route path="/shipments/:id/timeline" component={ShipmentTimelinePage} />
       <Route path="/suppliers" component={Suppliers} />
       <Route path="/product-types" component={ProductTypes} />
       <Route path="/exchange-rates" component={ExchangeRates} />
       <Route path="/payments" component={Payments} />
       <Route path="/inventory" component={Inventory} />
+      <Route path="/warehouses" component={WarehousesPage} />
       <Route path="/users" component={UsersPage} />
       <Route path="/accounting" component={AccountingPage} />
       <Route path="/supplier-balances" component={SupplierBalancesPage} />
+      <Route path="/receiving-discrepancies" component={ReceivingDiscrepanciesPage} />
+      <Route path="/supplier-credit-notes" component={SupplierCreditNotesPage} />
+      <Route path="/supplier-advances" component={SupplierAdvancesPage} />
+      <Route path="/payment-accounts" component={PaymentAccountsPage} />
       <Route path="/movement-report" component={MovementReportPage} />
       <Route path="/payment-methods-report" component={PaymentMethodsReportPage} />
+      <Route path="/journal-export" component={JournalExportPage} />
+      <Route path="/accounting-periods" component={AccountingPeriodsPage} />
+      <Route path="/audit-logs" component={AuditLogsPage} />
+      <Route path="/settings" component={SettingsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -11,6 +11,15 @@ import {
   FileSpreadsheet,
   Banknote,
   Tag,
+  History,
+  Settings,
+  Warehouse,
+  PackageX,
+  FileMinus,
+  BookOpen,
+  CalendarCheck,
+  HandCoins,
+  Landmark,
 } from "lucide-react";
 import {
   Sidebar,
@@ -73,6 +82,12 @@ const menuItems = [
     icon: Package,
     tooltip: "متابعة الأصناف المستلمة وتكلفتها في المخزون",
   },
+  {
+    title: "المخازن",
+    url: "/warehouses",
+    icon: Warehouse,
+    tooltip: "مواقع التخزين والتحويلات بين المخازن",
+  },
   {
     title: "سداد الشحنات",
     url: "/payments",
@@ -94,6 +109,30 @@ const accountingItems = [
     icon: Users,
     tooltip: "الفلوس اللي عليك وليك لكل مورد",
   },
+  {
+    title: "فروقات الاستلام",
+    url: "/receiving-discrepancies",
+    icon: PackageX,
+    tooltip: "القطع الناقصة والتالفة ومطالبات الموردين",
+  },
+  {
+    title: "الإشعارات الدائنة",
+    url: "/supplier-credit-notes",
+    icon: FileMinus,
+    tooltip: "تعويضات الموردين اللي بتقلل رصيدهم بعد الاعتماد",
+  },
+  {
+    title: "الدفعات المقدمة",
+    url: "/supplier-advances",
+    icon: HandCoins,
+    tooltip: "عربون للمورد قبل الشحنة وتسويته على الشحنات بعدين",
+  },
+  {
+    title: "الخزن والحسابات",
+    url: "/payment-accounts",
+    icon: Landmark,
+    tooltip: "الخزن والبنوك والمحافظ ورصيد كل واحدة والتحويلات بينها",
+  },
   {
     title: "كشف حركة الحساب",
     url: "/movement-report",
@@ -106,6 +145,24 @@ const accountingItems = [
     icon: Banknote,
     tooltip: "تحليل المدفوعات حسب وسيلة الدفع",
   },
+  {
+    title: "تصدير القيود",
+    url: "/journal-export",
+    icon: BookOpen,
+    tooltip: "دليل الحسابات وتصدير القيود للبرنامج المحاسبي",
+  },
+  {
+    title: "الفترات المحاسبية",
+    url: "/accounting-periods",
+    icon: CalendarCheck,
+    tooltip: "إغلاق الشهور المنتهية لمنع تعديل حركاتها",
+  },
+  {
+    title: "سجل التغييرات",
+    url: "/audit-logs",
+    icon: History,
+    tooltip: "من قام بكل تعديل على الشحنات والمدفوعات ومتى",
+  },
 ];
 
 const adminItems = [
@@ -115,6 +172,12 @@ const adminItems = [
     icon: Shield,
     tooltip: "إدارة حسابات المستخدمين والصلاحيات",
   },
+  {
+    title: "الإعدادات",
+    url: "/settings",
+    icon: Settings,
+    tooltip: "طريقة تكلفة المخزون وإعدادات النظام",
+  },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,126 @@
+import { Badge } from "@/components/ui/badge";
+import type { AuditLog } from "@shared/schema";
+
+export type AuditLogEntry = AuditLog & { userName: string | null };
+
+type FieldChange = { from: unknown; to: unknown };
+
+export const auditActionLabels: Record<string, string> = {
+  CREATE: "إنشاء",
+  UPDATE: "تعديل",
+  DELETE: "حذف",
+  STATUS_CHANGE: "تغيير الحالة",
+  VOID: "إلغاء",
+};
+
+export const auditEntityLabels: Record<string, string> = {
+  SHIPMENT: "شحنة",
+  PAYMENT: "دفعة",
+  EXCHANGE_RATE: "سعر صرف",
+  USER: "مستخدم",
+  INVENTORY: "حركة مخزون",
+  SETTING: "إعداد",
+  WAREHOUSE: "مخزن",
+  CREDIT_NOTE: "إشعار دائن",
+  ACCOUNTING_PERIOD: "فترة محاسبية",
+  SUPPLIER_ADVANCE: "دفعة مقدمة لمورد",
+  PAYMENT_ACCOUNT: "خزنة / حساب",
+  PAYMENT_ACCOUNT_TRANSFER: "تحويل بين الحسابات",
+};
+
+export const auditActionColors: Record<string, string> = {
+  CREATE: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  UPDATE: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  DELETE: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  STATUS_CHANGE: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  VOID: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+};
+
+const fieldLabels: Record<string, string> = {
+  shipmentCode: "رقم الشحنة",
+  shipmentName: "اسم الشحنة",
+  purchaseDate: "تاريخ الشراء",
+  status: "الحالة",
+  invoiceCustomsDate: "تاريخ فاتورة الجمرك",
+  purchaseCostRmb: "تكلفة البضاعة (RMB)",
+  purchaseCostEgp: "تكلفة البضاعة (ج.م)",
+  purchaseRmbToEgpRate: "سعر صرف الشراء RMB→EGP",
+  commissionCostRmb: "العمولة (RMB)",
+  commissionCostEgp: "العمولة (ج.م)",
+  shippingCostRmb: "الشحن (RMB)",
+  shippingCostEgp: "الشحن (ج.م)",
+  customsCostEgp: "الجمرك (ج.م)",
+  takhreegCostEgp: "التخريج (ج.م)",
+  finalTotalCostEgp: "إجمالي التكلفة (ج.م)",
+  totalPaidEgp: "إجمالي المدفوع (ج.م)",
+  balanceEgp: "الرصيد (ج.م)",
+  partialDiscountRmb: "الخصم (RMB)",
+  discountNotes: "ملاحظات الخصم",
+  lastPaymentDate: "تاريخ آخر دفعة",
+  firstName: "الاسم الأول",
+  lastName: "اسم العائلة",
+  role: "الدور",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatAuditTimestamp(value: string | Date) {
+  return new Date(value).toLocaleString("ar-EG");
+}
+
+export function AuditActionBadge({ action }: { action: string }) {
+  return (
+    <Badge variant="outline" className={auditActionColors[action] || ""}>
+      {auditActionLabels[action] || action}
+    </Badge>
+  );
+}
+
+export function AuditChanges({ details }: { details: unknown }) {
+  const record = (details ?? {}) as Record<string, unknown>;
+  const changes = record.changes as Record<string, FieldChange> | undefined;
+
+  if (changes && Object.keys(changes).length > 0) {
+    return (
+      <div className="space-y-1 text-sm">
+        {Object.entries(changes).map(([field, change]) => (
+          <div key={field} className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{fieldLabels[field] || field}:</span>
+            <span className="line-through text-muted-foreground">{formatValue(change.from)}</span>
+            <span>←</span>
+            <span className="font-medium text-primary">{formatValue(change.to)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (record.from !== undefined || record.to !== undefined) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">{formatValue(record.from)}</span>
+        <span>←</span>
+        <span className="font-medium">{formatValue(record.to)}</span>
+      </div>
+    );
+  }
+
+  const summary = Object.entries(record).filter(([key]) => key !== "changes");
+  if (summary.length === 0) {
+    return <span className="text-muted-foreground text-sm">—</span>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm text-muted-foreground">
+      {summary.map(([key, value]) => (
+        <div key={key}>
+          {key}: {formatValue(value)}
+        </div>
+      ))}
+    </div>
+  );
+}
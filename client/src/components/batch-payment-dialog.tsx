@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Layers } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaymentAccountSelect } from "@/components/payment-account-select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Shipment } from "@shared/schema";
+
+type Option = { value: string; label: string };
+
+type AllocationMethod = "oldest_first" | "proportional" | "manual";
+
+type AllocationLine = {
+  shipmentId: number;
+  shipmentCode: string;
+  amountOriginal: number;
+  amountEgp: number;
+  remainingAllowedEgp: number;
+};
+
+const ALLOCATION_METHODS: Array<{ value: AllocationMethod; label: string }> = [
+  { value: "oldest_first", label: "الأقدم أولاً" },
+  { value: "proportional", label: "بالتناسب مع المتبقي" },
+  { value: "manual", label: "يدوي" },
+];
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat("ar-EG", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+export function BatchPaymentDialog({
+  shipments,
+  costComponents,
+  paymentMethods,
+}: {
+  shipments: Shipment[];
+  costComponents: Option[];
+  paymentMethods: Option[];
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [manualAmounts, setManualAmounts] = useState<Record<number, string>>({});
+  const [allocationMethod, setAllocationMethod] = useState<AllocationMethod>("oldest_first");
+  const [amountOriginal, setAmountOriginal] = useState("");
+  const [paymentCurrency, setPaymentCurrency] = useState("EGP");
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().slice(0, 10));
+  const [costComponent, setCostComponent] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("");
+  const [paymentAccountId, setPaymentAccountId] = useState("");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<AllocationLine[] | null>(null);
+
+  const reset = () => {
+    setSelectedIds([]);
+    setManualAmounts({});
+    setAllocationMethod("oldest_first");
+    setAmountOriginal("");
+    setExchangeRate("");
+    setReferenceNumber("");
+    setNote("");
+    setPreview(null);
+  };
+
+  // Any edit invalidates the preview the user was looking at
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const toggleShipment = (shipmentId: number, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, shipmentId] : ids.filter((id) => id !== shipmentId)));
+    setPreview(null);
+  };
+
+  const manualTotal = selectedIds.reduce((sum, id) => sum + (parseFloat(manualAmounts[id] ?? "") || 0), 0);
+
+  const payload = () => ({
+    allocationMethod,
+    amountOriginal: allocationMethod === "manual" ? manualTotal.toFixed(2) : amountOriginal,
+    paymentCurrency,
+    exchangeRateToEgp: paymentCurrency === "RMB" ? exchangeRate : null,
+    paymentDate,
+    costComponent,
+    paymentMethod,
+    paymentAccountId: paymentAccountId || null,
+    referenceNumber,
+    note,
+    ...(allocationMethod === "manual"
+      ? { allocations: selectedIds.map((shipmentId) => ({ shipmentId, amountOriginal: manualAmounts[shipmentId] ?? "" })) }
+      : { shipmentIds: selectedIds }),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/payments/batch/preview", payload());
+      return (await res.json()) as { lines: AllocationLine[] };
+    },
+    onSuccess: ({ lines }) => setPreview(lines),
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/payments/batch", payload()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-accounts"] });
+      toast({ title: "تم تسجيل الدفعة المجمعة" });
+      reset();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canPreview = selectedIds.length > 0 && !!costComponent && !!paymentMethod &&
+    (allocationMethod === "manual" ? manualTotal > 0 : parseFloat(amountOriginal) > 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-batch-payment">
+          <Layers className="w-4 h-4 ml-2" />
+          دفعة مجمعة
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>دفعة مجمعة على عدة شحنات</DialogTitle>
+          <DialogDescription>تحويل واحد يوزَّع على الشحنات المختارة دون تجاوز المتبقي على أي منها</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>الشحنات *</Label>
+            <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+              {shipments.map((shipment) => {
+                const checked = selectedIds.includes(shipment.id);
+                return (
+                  <div key={shipment.id} className="flex items-center gap-3 p-2">
+                    <Checkbox
+                      checked={checked}
+                      onCheckedChange={(value) => toggleShipment(shipment.id, value === true)}
+                      data-testid={`checkbox-batch-shipment-${shipment.id}`}
+                    />
+                    <span className="flex-1 text-sm">
+                      {shipment.shipmentCode} - {shipment.shipmentName}
+                    </span>
+                    {allocationMethod === "manual" && checked && (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        className="w-32"
+                        value={manualAmounts[shipment.id] ?? ""}
+                        onChange={(e) => edit(setManualAmounts)({ ...manualAmounts, [shipment.id]: e.target.value })}
+                        data-testid={`input-batch-amount-${shipment.id}`}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>طريقة التوزيع *</Label>
+              <Select value={allocationMethod} onValueChange={(v) => edit(setAllocationMethod)(v as AllocationMethod)}>
+                <SelectTrigger data-testid="select-allocation-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALLOCATION_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>المبلغ الإجمالي *</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={allocationMethod === "manual" ? manualTotal.toFixed(2) : amountOriginal}
+                onChange={(e) => edit(setAmountOriginal)(e.target.value)}
+                disabled={allocationMethod === "manual"}
+                data-testid="input-batch-total"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>عملة الدفع *</Label>
+              <Select value={paymentCurrency} onValueChange={edit(setPaymentCurrency)}>
+                <SelectTrigger data-testid="select-batch-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="EGP">جنيه مصري (ج.م)</SelectItem>
+                  <SelectItem value="RMB">رممبي صيني (¥)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {paymentCurrency === "RMB" && (
+              <div className="space-y-2">
+                <Label>سعر الصرف</Label>
+                <Input
+                  type="number"
+                  step="0.0001"
+                  placeholder="سعر يوم الدفع"
+                  value={exchangeRate}
+                  onChange={(e) => edit(setExchangeRate)(e.target.value)}
+                  data-testid="input-batch-rate"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>تاريخ الدفع *</Label>
+              <Input
+                type="date"
+                value={paymentDate}
+                onChange={(e) => edit(setPaymentDate)(e.target.value)}
+                data-testid="input-batch-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>تحت حساب أي جزء؟ *</Label>
+              <Select value={costComponent} onValueChange={edit(setCostComponent)}>
+                <SelectTrigger data-testid="select-batch-component">
+                  <SelectValue placeholder="اختر البند" />
+                </SelectTrigger>
+                <SelectContent>
+                  {costComponents.map((component) => (
+                    <SelectItem key={component.value} value={component.value}>
+                      {component.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>الخزنة / الحساب</Label>
+              <PaymentAccountSelect
+                value={paymentAccountId}
+                paymentCurrency={paymentCurrency}
+                onChange={(value, account) => {
+                  setPaymentAccountId(value);
+                  setPaymentMethod(account ? account.paymentMethod : "");
+                }}
+                testId="select-batch-account"
+              />
+            </div>
+            {!paymentAccountId && (
+              <div className="space-y-2">
+                <Label>طريقة الدفع *</Label>
+                <Select value={paymentMethod} onValueChange={edit(setPaymentMethod)}>
+                  <SelectTrigger data-testid="select-batch-method">
+                    <SelectValue placeholder="اختر طريقة الدفع" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethods.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>الرقم المرجعي</Label>
+              <Input
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                data-testid="input-batch-reference"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>ملاحظات</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} data-testid="input-batch-note" />
+          </div>
+
+          {preview && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">الشحنة</TableHead>
+                  <TableHead className="text-right">المتبقي المسموح (ج.م)</TableHead>
+                  <TableHead className="text-right">المبلغ</TableHead>
+                  <TableHead className="text-right">بالجنيه</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map((line) => (
+                  <TableRow key={line.shipmentId} data-testid={`row-batch-preview-${line.shipmentId}`}>
+                    <TableCell className="font-medium">{line.shipmentCode}</TableCell>
+                    <TableCell>{formatAmount(line.remainingAllowedEgp)}</TableCell>
+                    <TableCell>{formatAmount(line.amountOriginal)}</TableCell>
+                    <TableCell>{formatAmount(line.amountEgp)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={!canPreview || previewMutation.isPending}
+              data-testid="button-batch-preview"
+            >
+              {previewMutation.isPending ? "جاري الحساب..." : "معاينة التوزيع"}
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!preview || createMutation.isPending}
+              data-testid="button-batch-submit"
+            >
+              {createMutation.isPending ? "جاري الحفظ..." : "تسجيل الدفعة"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ShipmentItem } from "@shared/schema";
+
+type ImportField =
+  | "productName"
+  | "cartonsCtn"
+  | "piecesPerCartonPcs"
+  | "purchasePricePerPiecePriRmb"
+  | "supplier"
+  | "productType";
+
+type ImportMapping = Partial<Record<ImportField, number>>;
+
+type NameMatch = {
+  input: string;
+  id: number | null;
+  name: string | null;
+  score: number;
+  exact: boolean;
+};
+
+type ImportPreviewRow = {
+  rowNumber: number;
+  item: Partial<ShipmentItem>;
+  errors: string[];
+  warnings: string[];
+  supplierMatch: NameMatch | null;
+  productTypeMatch: NameMatch | null;
+};
+
+type ImportPreview = {
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportPreviewRow[];
+  validCount: number;
+  invalidCount: number;
+};
+
+const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean }[] = [
+  { value: "productName", label: "اسم الصنف", required: true },
+  { value: "cartonsCtn", label: "عدد الكراتين", required: true },
+  { value: "piecesPerCartonPcs", label: "عدد القطع في الكرتونة", required: true },
+  { value: "purchasePricePerPiecePriRmb", label: "سعر القطعة (RMB)", required: true },
+  { value: "supplier", label: "المورد", required: false },
+  { value: "productType", label: "نوع المنتج", required: false },
+];
+
+const UNMAPPED = "none";
+
+async function requestPreview(file: File, mapping?: ImportMapping): Promise<ImportPreview> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) {
+    formData.append("mapping", JSON.stringify(mapping));
+  }
+
+  const response = await fetch("/api/shipments/import-items/preview", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || "تعذر قراءة الملف");
+  }
+
+  return response.json();
+}
+
+export function ItemImportDialog({
+  onImport,
+}: {
+  onImport: (items: Partial<ShipmentItem>[]) => void;
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const loadPreview = async (selectedFile: File, mapping?: ImportMapping) => {
+    setIsLoading(true);
+    try {
+      setPreview(await requestPreview(selectedFile, mapping));
+    } catch (error) {
+      setPreview(null);
+      toast({
+        title: error instanceof Error ? error.message : "تعذر قراءة الملف",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (selectedFile: File | undefined) => {
+    if (!selectedFile) return;
+    setFile(selectedFile);
+    loadPreview(selectedFile);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!file || !preview) return;
+    const mapping: ImportMapping = { ...preview.mapping };
+    if (value === UNMAPPED) {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    loadPreview(file, mapping);
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    const validItems = preview.rows.filter((row) => row.errors.length === 0).map((row) => row.item);
+    onImport(validItems);
+    toast({ title: `تمت إضافة ${validItems.length} بند من الملف` });
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-import-items">
+          <FileSpreadsheet className="w-4 h-4 ml-2" />
+          استيراد من ملف
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>استيراد الأصناف من Excel / CSV</DialogTitle>
+          <DialogDescription>
+            ارفع قائمة التعبئة من المورد، راجع نتيجة التحقق لكل صف ثم أضف الصفوف الصالحة إلى الشحنة.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="itemImportFile">الملف</Label>
+            <Input
+              id="itemImportFile"
+              type="file"
+              accept=".xlsx,.csv"
+              disabled={isLoading}
+              onChange={(e) => {
+                handleFileChange(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+              data-testid="input-import-file"
+            />
+            {file && (
+              <p className="text-xs text-muted-foreground">
+                <Upload className="w-3 h-3 inline ml-1" />
+                {file.name}
+              </p>
+            )}
+          </div>
+
+          {preview && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field.value} className="space-y-1">
+                    <Label className="text-xs">
+                      {field.label} {field.required && "*"}
+                    </Label>
+                    <Select
+                      value={
+                        preview.mapping[field.value] !== undefined
+                          ? String(preview.mapping[field.value])
+                          : UNMAPPED
+                      }
+                      onValueChange={(value) => handleMappingChange(field.value, value)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger data-testid={`select-import-column-${field.value}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>غير محدد</SelectItem>
+                        {preview.columns.map((column, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {column || `عمود ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                  صفوف صالحة: {preview.validCount}
+                </Badge>
+                {preview.invalidCount > 0 && (
+                  <Badge variant="destructive">صفوف بها أخطاء: {preview.invalidCount}</Badge>
+                )}
+              </div>
+
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الصف</TableHead>
+                      <TableHead className="text-right">اسم الصنف</TableHead>
+                      <TableHead className="text-right">الكراتين</TableHead>
+                      <TableHead className="text-right">قطع/كرتونة</TableHead>
+                      <TableHead className="text-right">سعر القطعة</TableHead>
+                      <TableHead className="text-right">المورد</TableHead>
+                      <TableHead className="text-right">نوع المنتج</TableHead>
+                      <TableHead className="text-right">الملاحظات</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow
+                        key={row.rowNumber}
+                        className={row.errors.length > 0 ? "bg-red-50 dark:bg-red-900/10" : undefined}
+                        data-testid={`row-import-${row.rowNumber}`}
+                      >
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.item.productName}</TableCell>
+                        <TableCell>{row.item.cartonsCtn}</TableCell>
+                        <TableCell>{row.item.piecesPerCartonPcs}</TableCell>
+                        <TableCell>{row.item.purchasePricePerPiecePriRmb}</TableCell>
+                        <TableCell>{row.supplierMatch?.name ?? row.supplierMatch?.input ?? "-"}</TableCell>
+                        <TableCell>{row.productTypeMatch?.name ?? row.productTypeMatch?.input ?? "-"}</TableCell>
+                        <TableCell className="text-xs space-y-1">
+                          {row.errors.map((message, idx) => (
+                            <p key={`e-${idx}`} className="text-destructive">{message}</p>
+                          ))}
+                          {row.warnings.map((message, idx) => (
+                            <p key={`w-${idx}`} className="text-amber-600">{message}</p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || preview.validCount === 0 || isLoading}
+            data-testid="button-confirm-import"
+          >
+            إضافة {preview?.validCount ?? 0} بند
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
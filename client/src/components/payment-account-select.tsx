@@ -0,0 +1,84 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PaymentAccount } from "@shared/schema";
+
+export type PaymentAccountWithBalance = PaymentAccount & { balance: string };
+
+export const PAYMENT_ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  cash: "خزنة نقدية",
+  bank: "حساب بنكي",
+  wallet: "محفظة إلكترونية",
+};
+
+const NO_ACCOUNT = "none";
+
+const formatAmount = (value: string) =>
+  new Intl.NumberFormat("ar-EG", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(parseFloat(value) || 0);
+
+// Mirrors the server rule: an EGP account can fund RMB payments, an RMB account only RMB ones
+const canFund = (account: PaymentAccount, paymentCurrency: string) =>
+  account.isActive && (account.currency === paymentCurrency || account.currency === "EGP");
+
+/**
+ * Picks the cash box, bank account or wallet a payment leaves from. Choosing one
+ * hands back the account so the form can take its payment method; an empty value
+ * means the payment is recorded against a method label only.
+ */
+export function PaymentAccountSelect({
+  value,
+  paymentCurrency,
+  onChange,
+  testId = "select-payment-account",
+}: {
+  value: string;
+  paymentCurrency: string;
+  onChange: (value: string, account?: PaymentAccountWithBalance) => void;
+  testId?: string;
+}) {
+  const { data: accounts } = useQuery<PaymentAccountWithBalance[]>({
+    queryKey: ["/api/accounting/payment-accounts"],
+  });
+
+  const options = (accounts ?? []).filter((account) => canFund(account, paymentCurrency));
+  const selected = options.find((account) => account.id.toString() === value);
+
+  // Switching currency can leave the chosen account unable to pay
+  useEffect(() => {
+    if (value && accounts && !selected) onChange("");
+  }, [value, accounts, selected, onChange]);
+
+  return (
+    <div className="space-y-1">
+      <Select
+        value={value || NO_ACCOUNT}
+        onValueChange={(next) =>
+          next === NO_ACCOUNT ? onChange("") : onChange(next, options.find((account) => account.id.toString() === next))
+        }
+      >
+        <SelectTrigger data-testid={testId}>
+          <SelectValue placeholder="اختر الخزنة أو الحساب" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ACCOUNT}>بدون حساب</SelectItem>
+          {options.map((account) => (
+            <SelectItem key={account.id} value={account.id.toString()}>
+              {account.name} ({formatAmount(account.balance)} {account.currency === "RMB" ? "¥" : "ج.م"})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {PAYMENT_ACCOUNT_TYPE_LABELS[selected.accountType] ?? selected.accountType} - طريقة الدفع: {selected.paymentMethod}
+        </p>
+      )}
+    </div>
+  );
+}
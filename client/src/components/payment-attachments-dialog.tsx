@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, FileText, Image as ImageIcon, Paperclip, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { PaymentAttachment } from "@shared/schema";
+
+export const PAYMENT_ATTACHMENT_ACCEPT = ".pdf,.jpg,.jpeg,.png,application/pdf,image/jpeg,image/png";
+
+const attachmentUrl = (attachment: PaymentAttachment, download = false) =>
+  `/api/payments/${attachment.paymentId}/attachments/${attachment.id}${download ? "?download=1" : ""}`;
+
+function formatSize(bytes: number) {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+export async function uploadPaymentAttachments(paymentId: number, files: File[]): Promise<PaymentAttachment[]> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+
+  const response = await fetch(`/api/payments/${paymentId}/attachments`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message || body?.message || "تعذر رفع المرفقات");
+  }
+  return response.json();
+}
+
+function AttachmentPreview({ attachment }: { attachment: PaymentAttachment }) {
+  if (attachment.mimeType === "application/pdf") {
+    return (
+      <iframe
+        src={attachmentUrl(attachment)}
+        title={attachment.originalName}
+        className="w-full h-[60vh] rounded-md border"
+      />
+    );
+  }
+  return (
+    <img
+      src={attachmentUrl(attachment)}
+      alt={attachment.originalName}
+      className="max-h-[60vh] mx-auto rounded-md border object-contain"
+    />
+  );
+}
+
+export function PaymentAttachmentsDialog({ paymentId, canUpload }: { paymentId: number; canUpload: boolean }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+
+  const { data: attachments, isLoading } = useQuery<PaymentAttachment[]>({
+    queryKey: ["/api/payments", paymentId, "attachments"],
+    enabled: open,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => uploadPaymentAttachments(paymentId, files),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payments", paymentId, "attachments"] });
+      toast({ title: "تم رفع المرفقات" });
+      setFiles([]);
+      if (created[0]) setSelectedId(created[0].id);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const selected = attachments?.find((attachment) => attachment.id === selectedId) ?? attachments?.[0];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-attachments-${paymentId}`}>
+          <Paperclip className="w-4 h-4 ml-1" />
+          المرفقات
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>مرفقات الدفعة #{paymentId}</DialogTitle>
+          <DialogDescription>إثباتات الدفع (PDF أو JPG أو PNG)</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : attachments && attachments.length > 0 ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {attachments.map((attachment) => (
+                <Button
+                  key={attachment.id}
+                  size="sm"
+                  variant={selected?.id === attachment.id ? "default" : "outline"}
+                  onClick={() => setSelectedId(attachment.id)}
+                  data-testid={`button-attachment-${attachment.id}`}
+                >
+                  {attachment.mimeType === "application/pdf" ? (
+                    <FileText className="w-4 h-4 ml-1" />
+                  ) : (
+                    <ImageIcon className="w-4 h-4 ml-1" />
+                  )}
+                  <span className="max-w-[12rem] truncate">{attachment.originalName}</span>
+                  <span className="text-xs opacity-70 mr-1">({formatSize(attachment.sizeBytes)})</span>
+                </Button>
+              ))}
+            </div>
+            {selected && (
+              <div className="space-y-2">
+                <AttachmentPreview attachment={selected} />
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={attachmentUrl(selected, true)}>
+                    <Download className="w-4 h-4 ml-1" />
+                    تنزيل
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground text-center py-6">لا توجد مرفقات لهذه الدفعة</div>
+        )}
+
+        {canUpload && (
+          <div className="flex items-center gap-2 border-t pt-4">
+            <Input
+              type="file"
+              multiple
+              accept={PAYMENT_ATTACHMENT_ACCEPT}
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              data-testid={`input-attachments-${paymentId}`}
+            />
+            <Button
+              onClick={() => uploadMutation.mutate()}
+              disabled={files.length === 0 || uploadMutation.isPending}
+              data-testid={`button-upload-attachments-${paymentId}`}
+            >
+              <Upload className="w-4 h-4 ml-1" />
+              {uploadMutation.isPending ? "جاري الرفع..." : "رفع"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+type ListParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * One page of a server-paginated list endpoint. Empty and "all" filter values
+ * are left out of the request, and the current page stays on screen while the
+ * next one loads.
+ */
+export function usePaginatedList<T>(endpoint: string, params: ListParams) {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "" || value === "all" || value === false) continue;
+    searchParams.append(key, String(value));
+  }
+  const queryString = searchParams.toString();
+
+  return useQuery<Paginated<T>>({
+    queryKey: [endpoint, "page", queryString],
+    queryFn: async () => {
+      const response = await fetch(`${endpoint}?${queryString}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+}
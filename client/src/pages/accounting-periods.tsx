@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarCheck, Lock, LockOpen } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { AccountingPeriod } from "@shared/schema";
+
+const CLOSED_STATUS = "مغلقة";
+const MONTHS_SHOWN = 12;
+
+// The last twelve months, newest first, whether or not they were ever closed
+function recentMonths(): string[] {
+  const now = new Date();
+  return Array.from({ length: MONTHS_SHOWN }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  });
+}
+
+function formatMonth(periodMonth: string) {
+  const [year, month] = periodMonth.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString("ar-EG", { year: "numeric", month: "long" });
+}
+
+function formatDateTime(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString("ar-EG") : "-";
+}
+
+export default function AccountingPeriodsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canClose = user?.role === "مدير" || user?.role === "محاسب";
+  const canReopen = user?.role === "مدير";
+
+  const [periodToClose, setPeriodToClose] = useState<string | null>(null);
+  const [periodToReopen, setPeriodToReopen] = useState<string | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
+
+  const { data: periods, isLoading } = useQuery<AccountingPeriod[]>({
+    queryKey: ["/api/accounting/periods"],
+  });
+
+  const periodByMonth = new Map((periods ?? []).map((period) => [period.periodMonth, period]));
+  const months = Array.from(new Set([...recentMonths(), ...Array.from(periodByMonth.keys())])).sort().reverse();
+
+  const closeMutation = useMutation({
+    mutationFn: async (periodMonth: string) => apiRequest("POST", `/api/accounting/periods/${periodMonth}/close`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/periods"] });
+      toast({ title: "تم إغلاق الفترة" });
+      setPeriodToClose(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async ({ periodMonth, reason }: { periodMonth: string; reason: string }) =>
+      apiRequest("POST", `/api/accounting/periods/${periodMonth}/reopen`, { reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/periods"] });
+      toast({ title: "تم إعادة فتح الفترة" });
+      setPeriodToReopen(null);
+      setReopenReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div>
+        <h1 className="text-3xl font-semibold">الفترات المحاسبية</h1>
+        <p className="text-muted-foreground mt-1">
+          إغلاق الشهر يمنع تسجيل الدفعات وتعديل تكاليف الشحنات وأسعار الصرف بتاريخ داخله
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarCheck className="w-5 h-5" />
+            الشهور
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">الشهر</TableHead>
+                  <TableHead className="text-right">الحالة</TableHead>
+                  <TableHead className="text-right">تاريخ الإغلاق</TableHead>
+                  <TableHead className="text-right">آخر إعادة فتح</TableHead>
+                  <TableHead className="text-right">إجراء</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {months.map((periodMonth) => {
+                  const period = periodByMonth.get(periodMonth);
+                  const isClosed = period?.status === CLOSED_STATUS;
+                  return (
+                    <TableRow key={periodMonth} data-testid={`row-period-${periodMonth}`}>
+                      <TableCell className="font-medium">{formatMonth(periodMonth)}</TableCell>
+                      <TableCell>
+                        <Badge variant={isClosed ? "destructive" : "outline"}>{isClosed ? "مغلقة" : "مفتوحة"}</Badge>
+                      </TableCell>
+                      <TableCell>{isClosed ? formatDateTime(period?.closedAt ?? null) : "-"}</TableCell>
+                      <TableCell>{formatDateTime(period?.reopenedAt ?? null)}</TableCell>
+                      <TableCell>
+                        {isClosed ? (
+                          canReopen && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPeriodToReopen(periodMonth)}
+                              data-testid={`button-reopen-${periodMonth}`}
+                            >
+                              <LockOpen className="w-4 h-4 ml-1" />
+                              إعادة فتح
+                            </Button>
+                          )
+                        ) : (
+                          canClose && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPeriodToClose(periodMonth)}
+                              data-testid={`button-close-${periodMonth}`}
+                            >
+                              <Lock className="w-4 h-4 ml-1" />
+                              إغلاق
+                            </Button>
+                          )
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <p className="text-xs text-muted-foreground mt-4">
+            إعادة فتح فترة مغلقة متاحة للمدير فقط، وتُسجل في سجل التغييرات.
+          </p>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!periodToClose} onOpenChange={(open) => !open && setPeriodToClose(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>إغلاق فترة {periodToClose && formatMonth(periodToClose)}</AlertDialogTitle>
+            <AlertDialogDescription>
+              بعد الإغلاق لن يمكن تسجيل دفعات أو تعديل تكاليف شحنات أو إضافة أسعار صرف بتاريخ داخل هذا الشهر.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel>إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={closeMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (periodToClose) closeMutation.mutate(periodToClose);
+              }}
+              data-testid="button-confirm-close-period"
+            >
+              إغلاق الفترة
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!periodToReopen}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPeriodToReopen(null);
+            setReopenReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>إعادة فتح فترة {periodToReopen && formatMonth(periodToReopen)}</AlertDialogTitle>
+            <AlertDialogDescription>
+              الحركات بتاريخ داخل هذا الشهر ستصبح قابلة للتعديل مرة أخرى. اكتب سبب إعادة الفتح للمتابعة.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={reopenReason}
+            onChange={(e) => setReopenReason(e.target.value)}
+            placeholder="سبب إعادة الفتح"
+            data-testid="input-reopen-reason"
+          />
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel>إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!reopenReason.trim() || reopenMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (periodToReopen) reopenMutation.mutate({ periodMonth: periodToReopen, reason: reopenReason.trim() });
+              }}
+              data-testid="button-confirm-reopen-period"
+            >
+              إعادة الفتح
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
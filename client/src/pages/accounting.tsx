@@ -9,6 +9,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
@@ -67,6 +68,23 @@ interface AccountingDashboard {
   totalBalanceTakhreegEgp: string;
 }
 
+interface FxShipmentResult {
+  shipmentId: number;
+  shipmentCode: string;
+  shipmentName: string;
+  realizedEgp: number;
+  unrealizedEgp: number | null;
+  openRmb: number;
+}
+
+interface FxGainLossReport {
+  currentRate: number | null;
+  currentRateDate: string | null;
+  totals: { realizedEgp: number; unrealizedEgp: number | null; openRmb: number };
+  byMonth: { month: string; realizedEgp: number }[];
+  shipments: FxShipmentResult[];
+}
+
 function formatCurrency(value: string | number, currency: string = "EGP") {
   const num = typeof value === "string" ? parseFloat(value) : value;
   const formatted = new Intl.NumberFormat("ar-EG", {
@@ -76,6 +94,11 @@ function formatCurrency(value: string | number, currency: string = "EGP") {
   return `${formatted} ${currency === "RMB" ? "رممبي" : "جنيه"}`;
 }
 
+function gainLossClass(value: number | null) {
+  if (value === null || Math.abs(value) < 0.005) return "";
+  return value > 0 ? "text-green-600" : "text-red-600";
+}
+
 function formatNumber(value: number) {
   return new Intl.NumberFormat("ar-EG").format(value || 0);
 }
@@ -110,6 +133,24 @@ export default function AccountingPage() {
     },
   });
 
+  // Realized FX follows the payment dates in the period; unrealized uses today's rate
+  const fxParams = new URLSearchParams();
+  if (dateFrom) fxParams.append("dateFrom", dateFrom);
+  if (dateTo) fxParams.append("dateTo", dateTo);
+  if (shipmentCode) fxParams.append("shipmentCode", shipmentCode);
+  if (includeArchived) fxParams.append("includeArchived", "true");
+
+  const { data: fxReport, isLoading: fxLoading } = useQuery<FxGainLossReport>({
+    queryKey: ["/api/accounting/fx-gain-loss", dateFrom, dateTo, shipmentCode, includeArchived],
+    queryFn: async () => {
+      const response = await fetch(`/api/accounting/fx-gain-loss?${fxParams.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+  });
+
   const { data: suppliers } = useQuery<Supplier[]>({
     queryKey: ["/api/suppliers"],
   });
@@ -547,6 +588,111 @@ export default function AccountingPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            أرباح وخسائر فروق العملة
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="w-4 h-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                المحققة: الفرق بين سعر الصرف عند الدفع وسعر الصرف المسجل للتكلفة.
+                غير المحققة: إعادة تقييم الأرصدة المفتوحة بالرممبي بسعر اليوم.
+                القيمة الموجبة ربح والسالبة خسارة.
+              </TooltipContent>
+            </Tooltip>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {fxLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="bg-muted/50 p-3 rounded-md">
+                  <div className="text-sm text-muted-foreground">فروق عملة محققة</div>
+                  <div
+                    className={`text-xl font-bold ${gainLossClass(fxReport?.totals.realizedEgp ?? 0)}`}
+                    data-testid="text-fx-realized"
+                  >
+                    {formatCurrency(fxReport?.totals.realizedEgp ?? 0)}
+                  </div>
+                </div>
+                <div className="bg-muted/50 p-3 rounded-md">
+                  <div className="text-sm text-muted-foreground">فروق عملة غير محققة</div>
+                  <div
+                    className={`text-xl font-bold ${gainLossClass(fxReport?.totals.unrealizedEgp ?? null)}`}
+                    data-testid="text-fx-unrealized"
+                  >
+                    {fxReport?.totals.unrealizedEgp === null
+                      ? "لا يوجد سعر صرف حالي"
+                      : formatCurrency(fxReport?.totals.unrealizedEgp ?? 0)}
+                  </div>
+                </div>
+                <div className="bg-muted/50 p-3 rounded-md">
+                  <div className="text-sm text-muted-foreground">الرصيد المفتوح بالرممبي</div>
+                  <div className="text-xl font-bold" data-testid="text-fx-open-rmb">
+                    {formatCurrency(fxReport?.totals.openRmb ?? 0, "RMB")}
+                  </div>
+                  {fxReport?.currentRate && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      سعر اليوم: {fxReport.currentRate} ({fxReport.currentRateDate})
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {fxReport && fxReport.byMonth.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-sm">
+                  {fxReport.byMonth.map((entry) => (
+                    <div key={entry.month} className="bg-muted/50 px-3 py-1 rounded-md">
+                      <span className="text-muted-foreground">{entry.month}: </span>
+                      <span className={gainLossClass(entry.realizedEgp)}>
+                        {formatCurrency(entry.realizedEgp)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {fxReport && fxReport.shipments.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الشحنة</TableHead>
+                      <TableHead className="text-right">محققة</TableHead>
+                      <TableHead className="text-right">غير محققة</TableHead>
+                      <TableHead className="text-right">الرصيد المفتوح (RMB)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fxReport.shipments.map((row) => (
+                      <TableRow key={row.shipmentId} data-testid={`row-fx-${row.shipmentId}`}>
+                        <TableCell>
+                          <div className="font-medium">{row.shipmentCode}</div>
+                          <div className="text-xs text-muted-foreground">{row.shipmentName}</div>
+                        </TableCell>
+                        <TableCell className={gainLossClass(row.realizedEgp)}>
+                          {formatCurrency(row.realizedEgp)}
+                        </TableCell>
+                        <TableCell className={gainLossClass(row.unrealizedEgp)}>
+                          {row.unrealizedEgp === null ? "-" : formatCurrency(row.unrealizedEgp)}
+                        </TableCell>
+                        <TableCell>{formatCurrency(row.openRmb, "RMB")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">لا توجد فروق عملة للفترة المحددة</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
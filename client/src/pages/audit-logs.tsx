@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History, Filter } from "lucide-react";
+import type { User } from "@shared/schema";
+import {
+  AuditActionBadge,
+  AuditChanges,
+  auditActionLabels,
+  auditEntityLabels,
+  formatAuditTimestamp,
+  type AuditLogEntry,
+} from "@/components/audit-changes";
+
+export default function AuditLogsPage() {
+  const [entityType, setEntityType] = useState<string>("all");
+  const [entityId, setEntityId] = useState<string>("");
+  const [userId, setUserId] = useState<string>("all");
+  const [actionType, setActionType] = useState<string>("all");
+  const [dateFrom, setDateFrom] = useState<string>("");
+  const [dateTo, setDateTo] = useState<string>("");
+
+  const queryParams = new URLSearchParams();
+  if (entityType !== "all") queryParams.append("entityType", entityType);
+  if (entityId) queryParams.append("entityId", entityId);
+  if (userId !== "all") queryParams.append("userId", userId);
+  if (actionType !== "all") queryParams.append("actionType", actionType);
+  if (dateFrom) queryParams.append("dateFrom", dateFrom);
+  if (dateTo) queryParams.append("dateTo", dateTo);
+
+  const { data: logs, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/audit-logs", entityType, entityId, userId, actionType, dateFrom, dateTo],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit-logs?${queryParams.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+  });
+
+  const { data: users } = useQuery<Omit<User, "password">[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const clearFilters = () => {
+    setEntityType("all");
+    setEntityId("");
+    setUserId("all");
+    setActionType("all");
+    setDateFrom("");
+    setDateTo("");
+  };
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div className="flex items-center gap-3">
+        <History className="w-8 h-8 text-primary" />
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">سجل التغييرات</h1>
+          <p className="text-muted-foreground text-sm">من قام بكل تعديل ومتى، مع القيم قبل وبعد التعديل</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Filter className="w-5 h-5" />
+            الفلاتر
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>نوع السجل</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger data-testid="select-entity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">الكل</SelectItem>
+                  {Object.entries(auditEntityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>رقم السجل</Label>
+              <Input
+                value={entityId}
+                onChange={(e) => setEntityId(e.target.value)}
+                placeholder="مثال: 12"
+                data-testid="input-entity-id"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>المستخدم</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger data-testid="select-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">الكل</SelectItem>
+                  {users?.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.firstName || u.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>نوع الإجراء</Label>
+              <Select value={actionType} onValueChange={setActionType}>
+                <SelectTrigger data-testid="select-action-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">الكل</SelectItem>
+                  {Object.entries(auditActionLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>من تاريخ</Label>
+              <Input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                data-testid="input-date-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>إلى تاريخ</Label>
+              <Input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                data-testid="input-date-to"
+              />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={clearFilters} data-testid="button-clear-filters">
+                مسح الفلاتر
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            السجلات
+            {logs && (
+              <Badge variant="secondary" className="mr-2">
+                {logs.length}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 8 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">التاريخ والوقت</TableHead>
+                    <TableHead className="text-right">المستخدم</TableHead>
+                    <TableHead className="text-right">الإجراء</TableHead>
+                    <TableHead className="text-right">السجل</TableHead>
+                    <TableHead className="text-right">التفاصيل</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs?.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        لا توجد سجلات
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    logs?.map((log) => (
+                      <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatAuditTimestamp(log.timestamp)}
+                        </TableCell>
+                        <TableCell>{log.userName || "—"}</TableCell>
+                        <TableCell>
+                          <AuditActionBadge action={log.actionType} />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {log.entityType === "SHIPMENT" ? (
+                            <Link
+                              href={`/shipments/${log.entityId}/timeline`}
+                              className="text-primary hover:underline"
+                            >
+                              {auditEntityLabels[log.entityType]} #{log.entityId}
+                            </Link>
+                          ) : (
+                            <span>
+                              {auditEntityLabels[log.entityType] || log.entityType} #{log.entityId}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <AuditChanges details={log.details} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   DollarSign,
@@ -47,6 +47,16 @@ const CURRENCIES = [
   { code: "USD", name: "دولار أمريكي", symbol: "$" },
 ];
 
+type RefreshResult = {
+  provider: string;
+  rates: ExchangeRate[];
+  duplicates: unknown[];
+  rejected: {
+    rate: { rateDate: string; fromCurrency: string; toCurrency: string; rateValue: number };
+    reason: string;
+  }[];
+};
+
 export default function ExchangeRates() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [fromCurrency, setFromCurrency] = useState("RMB");
@@ -71,12 +81,24 @@ export default function ExchangeRates() {
     },
   });
 
+  // The server also syncs rates on a schedule; this pulls from the provider right away
   const manualRefresh = useMutation({
     mutationFn: async () => {
-      await apiRequest("POST", "/api/exchange-rates/refresh", {});
+      const res = await apiRequest("POST", "/api/exchange-rates/refresh", {});
+      return (await res.json()) as RefreshResult;
     },
-    onSuccess: () => {
-      toast({ title: "تم تحديث أسعار الصرف يدويًا" });
+    onSuccess: (result) => {
+      toast({
+        title: result.rates.length > 0 ? "تم تحديث أسعار الصرف" : "لا توجد أسعار جديدة",
+        description: `${result.provider}: ${result.rates.length} جديد، ${result.duplicates.length} مكرر`,
+      });
+      if (result.rejected.length > 0) {
+        toast({
+          title: `تم رفض ${result.rejected.length} سعر`,
+          description: result.rejected.map((r) => `${r.rate.fromCurrency}/${r.rate.toCurrency} ${r.rate.rateDate}: ${r.reason}`).join("، "),
+          variant: "destructive",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
     },
     onError: () => {
@@ -84,13 +106,6 @@ export default function ExchangeRates() {
     },
   });
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      manualRefresh.mutate();
-    }, 60 * 60 * 1000); // تحديث كل ساعة
-    return () => clearInterval(interval);
-  }, []);
-
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
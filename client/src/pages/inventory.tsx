@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   Package,
   Search,
@@ -10,16 +10,32 @@ import {
   Download,
   ChevronLeft,
   ChevronRight,
+  PackageMinus,
+  Warehouse as WarehouseIcon,
+  Truck,
 } from "lucide-react";
 import { useState } from "react";
 
 const ITEMS_PER_PAGE = 25;
+const EXPORT_PAGE_SIZE = 200;
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePaginatedList, type Paginated } from "@/hooks/usePaginatedList";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
 import {
   Table,
   TableBody,
@@ -28,20 +44,79 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { InventoryMovement, ShipmentItem, Shipment, ShipmentShippingDetails } from "@shared/schema";
+import type {
+  InventoryMovement,
+  ShipmentItem,
+  ShipmentItemLandedCost,
+  Shipment,
+  ShipmentShippingDetails,
+  Warehouse,
+} from "@shared/schema";
 
 interface InventoryStats {
   totalPieces: number;
   totalCostEgp: string;
   totalItems: number;
   avgUnitCostEgp: string;
+  inTransitPieces: number;
+  byWarehouse: Array<{
+    warehouseId: number | null;
+    warehouseName: string;
+    totalPieces: number;
+    totalCostEgp: string;
+    totalItems: number;
+  }>;
+}
+
+interface StockLine {
+  key: string;
+  productId: number | null;
+  shipmentItemId: number | null;
+  productName: string;
+  productType: string | null;
+  piecesIn: number;
+  piecesOut: number;
+  onHand: number;
+  valueEgp: number;
+  avgUnitCostEgp: number;
+  lastMovementDate: string | null;
 }
 
+interface InventoryValuation {
+  method: "weighted_average" | "fifo";
+  totals: { quantity: number; valueEgp: number; cogsEgp: number };
+  lines: Array<{
+    key: string;
+    productName: string;
+    quantity: number;
+    valueEgp: number;
+    cogsEgp: number;
+    layers: Array<{
+      id: number;
+      layerDate: string;
+      shipmentCode: string | null;
+      originalQuantity: number;
+      remainingQuantity: number;
+      unitCostEgp: number;
+      effectiveUnitCostEgp: number;
+      valueEgp: number;
+    }>;
+  }>;
+}
+
+const COSTING_METHOD_LABELS: Record<InventoryValuation["method"], string> = {
+  weighted_average: "المتوسط المرجح المتحرك",
+  fifo: "الوارد أولاً يصرف أولاً (FIFO)",
+};
+
+const OUTBOUND_MOVEMENT_TYPES = ["بيع", "مرتجع للمورد", "تالف", "عينة"];
+const TRANSFER_OUT_MOVEMENT_TYPE = "تحويل صادر";
+
 interface ExtendedInventoryMovement extends InventoryMovement {
   shipmentItem?: ShipmentItem;
   shipment?: Shipment;
   shippingDetails?: ShipmentShippingDetails;
-  totalShipmentPieces?: number;
+  landedCost?: ShipmentItemLandedCost | null;
 }
 
 export default function Inventory() {
@@ -50,62 +125,99 @@ export default function Inventory() {
   const [dateTo, setDateTo] = useState("");
   const [shipmentCodeFilter, setShipmentCodeFilter] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
+  const [stockToIssue, setStockToIssue] = useState<StockLine | null>(null);
+  const [issueType, setIssueType] = useState(OUTBOUND_MOVEMENT_TYPES[0]);
+  const [issueQuantity, setIssueQuantity] = useState("");
+  const [issueReason, setIssueReason] = useState("");
+  const [issueWarehouseId, setIssueWarehouseId] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canIssueStock = user?.role === "مدير" || user?.role === "مسؤول مخزون";
 
   const { data: stats, isLoading: loadingStats } = useQuery<InventoryStats>({
     queryKey: ["/api/inventory/stats"],
   });
 
-  const { data: movements, isLoading: loadingMovements } = useQuery<
-    ExtendedInventoryMovement[]
-  >({
-    queryKey: ["/api/inventory"],
+  const movementFilters = {
+    search: search.trim(),
+    shipmentCode: shipmentCodeFilter.trim(),
+    dateFrom,
+    dateTo,
+  };
+
+  const { data: movementsPage, isLoading: loadingMovements } = usePaginatedList<ExtendedInventoryMovement>(
+    "/api/inventory",
+    { ...movementFilters, page: currentPage, pageSize: ITEMS_PER_PAGE },
+  );
+
+  const { data: stock, isLoading: loadingStock } = useQuery<StockLine[]>({
+    queryKey: ["/api/inventory/stock"],
   });
 
-  // Calculate cost per piece based on the formulas
-  const calculateCostPerPiece = (movement: ExtendedInventoryMovement) => {
-    const item = movement.shipmentItem;
-    const shipment = movement.shipment;
-    const shippingDetails = movement.shippingDetails;
-    const totalShipmentPieces = movement.totalShipmentPieces || 0;
+  const { data: valuation, isLoading: loadingValuation } = useQuery<InventoryValuation>({
+    queryKey: ["/api/inventory/valuation"],
+  });
 
-    if (!item || !shipment) {
-      return { purchasePriceRmb: 0, shippingShareRmb: 0, commissionShareRmb: 0, clearanceShareEgp: 0, customsPerPieceEgp: 0, finalCostEgp: 0, exchangeRate: 0 };
-    }
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+  const activeWarehouses = (warehouses ?? []).filter((warehouse) => warehouse.isActive);
+
+  const issueMutation = useMutation({
+    mutationFn: async (data: {
+      productId: number | null;
+      shipmentItemId: number | null;
+      movementType: string;
+      quantity: number;
+      reason: string;
+      warehouseId: number | null;
+    }) => apiRequest("POST", "/api/inventory/movements", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/valuation"] });
+      toast({ title: "تم تسجيل حركة الصرف" });
+      setStockToIssue(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openIssueDialog = (line: StockLine) => {
+    setStockToIssue(line);
+    setIssueType(OUTBOUND_MOVEMENT_TYPES[0]);
+    setIssueQuantity("");
+    setIssueReason("");
+    setIssueWarehouseId("");
+  };
+
+  // Outbound movements by product carry no shipment item, so their name comes from the stock lines
+  const productNames = new Map(
+    (stock ?? []).filter((line) => line.productId).map((line) => [line.productId, line.productName]),
+  );
+  const movementProductName = (m: ExtendedInventoryMovement) =>
+    m.shipmentItem?.productName || (m.productId ? productNames.get(m.productId) : undefined) || "-";
+  const isOutbound = (m: ExtendedInventoryMovement) => OUTBOUND_MOVEMENT_TYPES.includes(m.movementType);
+  const movementPieces = (m: ExtendedInventoryMovement) =>
+    isOutbound(m) || m.movementType === TRANSFER_OUT_MOVEMENT_TYPE ? -(m.totalPiecesOut || 0) : m.totalPiecesIn || 0;
+
+  // Per-piece breakdown of the landed cost computed and stored by the server
+  const calculateCostPerPiece = (movement: ExtendedInventoryMovement) => {
+    const landedCost = movement.landedCost;
+    const pieces = landedCost?.pieces || movement.totalPiecesIn || 0;
+    const perPiece = (value: string | null | undefined) =>
+      pieces > 0 ? parseFloat(value || "0") / pieces : 0;
 
-    // Exchange rate from shipment
-    const exchangeRate = parseFloat(shipment.purchaseRmbToEgpRate?.toString() || "0");
-    
-    // Purchase price per piece in RMB
-    const purchasePriceRmb = parseFloat(item.purchasePricePerPiecePriRmb?.toString() || "0");
-    
-    // Shipping share per piece = Total shipping cost RMB / Total pieces in shipment
-    const totalShippingCostRmb = parseFloat(shippingDetails?.totalShippingCostRmb?.toString() || "0");
-    const shippingShareRmb = totalShipmentPieces > 0 ? totalShippingCostRmb / totalShipmentPieces : 0;
-    
-    // Commission share per piece = Total commission cost RMB / Total pieces in shipment
-    const commissionValueRmb = parseFloat(shippingDetails?.commissionValueRmb?.toString() || "0");
-    const commissionShareRmb = totalShipmentPieces > 0 ? commissionValueRmb / totalShipmentPieces : 0;
-    
-    // Clearance (Takhreeg) share per piece = Total Takhreeg Cost / Total pieces for item
-    const totalTakhreegCost = parseFloat(item.totalTakhreegCostEgp?.toString() || "0");
-    const itemPieces = item.totalPiecesCou || 0;
-    const clearanceShareEgp = itemPieces > 0 ? totalTakhreegCost / itemPieces : 0;
-    
-    // Customs per piece = Total Customs Cost / Total pieces for item
-    const totalCustomsCost = parseFloat(item.totalCustomsCostEgp?.toString() || "0");
-    const customsPerPieceEgp = itemPieces > 0 ? totalCustomsCost / itemPieces : 0;
-    
-    // Final formula: (Purchase price in RMB + Shipping share in RMB + Commission share in RMB) × Exchange rate + Customs + Clearance share in EGP
-    const finalCostEgp = ((purchasePriceRmb + shippingShareRmb + commissionShareRmb) * exchangeRate) + customsPerPieceEgp + clearanceShareEgp;
-    
     return {
-      purchasePriceRmb,
-      shippingShareRmb,
-      commissionShareRmb,
-      clearanceShareEgp,
-      customsPerPieceEgp,
-      finalCostEgp,
-      exchangeRate,
+      purchaseEgp: perPiece(landedCost?.purchaseCostEgp),
+      shippingShareEgp: perPiece(landedCost?.shippingShareEgp),
+      commissionShareEgp: perPiece(landedCost?.commissionShareEgp),
+      customsShareEgp: perPiece(landedCost?.customsShareEgp),
+      takhreegShareEgp: perPiece(landedCost?.takhreegShareEgp),
+      finalCostEgp: parseFloat(landedCost?.unitLandedCostEgp || movement.unitCostEgp || "0"),
+      exchangeRate: parseFloat(movement.shipment?.purchaseRmbToEgpRate?.toString() || "0"),
     };
   };
 
@@ -122,41 +234,9 @@ export default function Inventory() {
     return new Date(date).toLocaleDateString("ar-EG");
   };
 
-  const filteredMovements = movements?.filter((m) => {
-    const matchesSearch =
-      !search ||
-      m.shipmentItem?.productName?.toLowerCase().includes(search.toLowerCase()) ||
-      m.shipment?.shipmentCode?.toLowerCase().includes(search.toLowerCase());
-
-    const matchesShipmentCode =
-      !shipmentCodeFilter ||
-      m.shipment?.shipmentCode?.toLowerCase().includes(shipmentCodeFilter.toLowerCase());
-
-    // Date range filter
-    let matchesDateRange = true;
-    if (dateFrom || dateTo) {
-      const movementDate = m.movementDate ? new Date(m.movementDate) : null;
-      if (movementDate) {
-        if (dateFrom) {
-          const fromDate = new Date(dateFrom);
-          if (movementDate < fromDate) matchesDateRange = false;
-        }
-        if (dateTo) {
-          const toDate = new Date(dateTo);
-          toDate.setHours(23, 59, 59, 999);
-          if (movementDate > toDate) matchesDateRange = false;
-        }
-      }
-    }
-
-    return matchesSearch && matchesShipmentCode && matchesDateRange;
-  });
-
-  // Pagination
-  const totalPages = Math.ceil((filteredMovements?.length || 0) / ITEMS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-  const endIndex = startIndex + ITEMS_PER_PAGE;
-  const paginatedMovements = filteredMovements?.slice(startIndex, endIndex);
+  const paginatedMovements = movementsPage?.items;
+  const totalMovements = movementsPage?.total ?? 0;
+  const totalPages = movementsPage?.totalPages ?? 1;
 
   // Reset to page 1 when filters change
   const handleFilterChange = () => {
@@ -164,11 +244,29 @@ export default function Inventory() {
   };
 
   // CSV Export function
-  const exportToCSV = () => {
-    if (!filteredMovements || filteredMovements.length === 0) return;
+  // The table only holds one page, so the export walks every page of the current filters
+  const exportToCSV = async () => {
+    if (totalMovements === 0) return;
+
+    const exported: ExtendedInventoryMovement[] = [];
+    for (let page = 1; ; page++) {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(EXPORT_PAGE_SIZE) });
+      for (const [key, value] of Object.entries(movementFilters)) {
+        if (value) params.append(key, value);
+      }
+      const response = await fetch(`/api/inventory?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        toast({ title: "تعذر تصدير حركات المخزون", variant: "destructive" });
+        return;
+      }
+      const result: Paginated<ExtendedInventoryMovement> = await response.json();
+      exported.push(...result.items);
+      if (page >= result.totalPages) break;
+    }
 
     const headers = [
       "التاريخ",
+      "نوع الحركة",
       "رقم الشحنة",
       "المنتج",
       "عدد القطع",
@@ -179,12 +277,13 @@ export default function Inventory() {
 
     const csvContent = [
       headers.join(","),
-      ...filteredMovements.map((m) =>
+      ...exported.map((m) =>
         [
           m.movementDate ? new Date(m.movementDate).toLocaleDateString("ar-EG") : "-",
+          m.movementType,
           m.shipment?.shipmentCode || "-",
-          m.shipmentItem?.productName || "-",
-          m.totalPiecesIn || 0,
+          movementProductName(m),
+          movementPieces(m),
           m.unitCostRmb || "-",
           m.unitCostEgp || 0,
           m.totalCostEgp || 0,
@@ -209,7 +308,7 @@ export default function Inventory() {
       <div>
         <h1 className="text-3xl font-semibold">المخزون</h1>
         <p className="text-muted-foreground mt-1">
-          متابعة الأصناف المستلمة وتكلفتها في المخزون
+          الرصيد المتاح من كل صنف وحركات الاستلام والصرف
         </p>
       </div>
       {/* Stats Cards */}
@@ -222,17 +321,17 @@ export default function Inventory() {
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <StatCard
-            title="إجمالي الأصناف"
+            title="الأصناف المتاحة"
             value={stats?.totalItems?.toString() || "0"}
             icon={Package}
           />
           <StatCard
-            title="إجمالي القطع"
+            title="القطع المتاحة"
             value={new Intl.NumberFormat("ar-EG").format(stats?.totalPieces || 0)}
             icon={Ship}
           />
           <StatCard
-            title="إجمالي التكلفة"
+            title="قيمة المخزون"
             value={`${formatCurrency(stats?.totalCostEgp || 0)} ج.م`}
             icon={DollarSign}
           />
@@ -243,6 +342,193 @@ export default function Inventory() {
           />
         </div>
       )}
+      {/* Stock per warehouse */}
+      {!loadingStats && (stats?.byWarehouse?.length || stats?.inTransitPieces) ? (
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <WarehouseIcon className="w-5 h-5" />
+              الرصيد حسب المخزن
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {stats.byWarehouse.map((entry) => (
+                <div
+                  key={entry.warehouseId ?? "none"}
+                  className="rounded-md border p-3 space-y-1"
+                  data-testid={`warehouse-stock-${entry.warehouseId ?? "none"}`}
+                >
+                  <div className="font-medium">{entry.warehouseName}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {new Intl.NumberFormat("ar-EG").format(entry.totalPieces)} قطعة · {entry.totalItems} صنف
+                  </div>
+                  <div className="text-sm font-mono">{formatCurrency(entry.totalCostEgp)} ج.م</div>
+                </div>
+              ))}
+              {stats.inTransitPieces > 0 && (
+                <div className="rounded-md border border-dashed p-3 space-y-1" data-testid="warehouse-stock-in-transit">
+                  <div className="font-medium flex items-center gap-1">
+                    <Truck className="w-4 h-4" />
+                    في الطريق بين المخازن
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {new Intl.NumberFormat("ar-EG").format(stats.inTransitPieces)} قطعة
+                  </div>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+      {/* Stock on hand */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Package className="w-5 h-5" />
+            الرصيد المتاح
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingStock ? (
+            <TableSkeleton />
+          ) : stock && stock.some((line) => line.onHand > 0) ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">الصنف</TableHead>
+                    <TableHead className="text-right">الوارد</TableHead>
+                    <TableHead className="text-right">المنصرف</TableHead>
+                    <TableHead className="text-right">المتاح</TableHead>
+                    <TableHead className="text-right">متوسط التكلفة (ج.م)</TableHead>
+                    <TableHead className="text-right">القيمة (ج.م)</TableHead>
+                    {canIssueStock && <TableHead className="text-right">إجراءات</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stock
+                    .filter((line) => line.onHand > 0)
+                    .map((line) => (
+                      <TableRow key={line.key} data-testid={`row-stock-${line.key}`}>
+                        <TableCell>
+                          <div className="font-medium">{line.productName}</div>
+                          {line.productType && (
+                            <div className="text-xs text-muted-foreground">{line.productType}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{new Intl.NumberFormat("ar-EG").format(line.piecesIn)}</TableCell>
+                        <TableCell>{new Intl.NumberFormat("ar-EG").format(line.piecesOut)}</TableCell>
+                        <TableCell className="font-bold">
+                          {new Intl.NumberFormat("ar-EG").format(line.onHand)}
+                        </TableCell>
+                        <TableCell>{formatCurrency(line.avgUnitCostEgp)}</TableCell>
+                        <TableCell>{formatCurrency(line.valueEgp)}</TableCell>
+                        {canIssueStock && (
+                          <TableCell>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openIssueDialog(line)}
+                              data-testid={`button-issue-${line.key}`}
+                            >
+                              <PackageMinus className="w-4 h-4 ml-2" />
+                              صرف
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">لا يوجد رصيد متاح في المخزون</p>
+          )}
+        </CardContent>
+      </Card>
+      {/* Valuation by cost layer */}
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <DollarSign className="w-5 h-5" />
+            تقييم المخزون حسب طبقات التكلفة
+          </CardTitle>
+          {valuation && (
+            <Badge variant="secondary" data-testid="badge-costing-method">
+              {COSTING_METHOD_LABELS[valuation.method]}
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loadingValuation ? (
+            <TableSkeleton />
+          ) : valuation && valuation.lines.some((line) => line.quantity > 0 || line.cogsEgp !== 0) ? (
+            <>
+              <div className="flex flex-wrap gap-6 text-sm">
+                <span>
+                  قيمة الرصيد:{" "}
+                  <span className="font-bold" data-testid="text-valuation-total">
+                    {formatCurrency(valuation.totals.valueEgp)} ج.م
+                  </span>
+                </span>
+                <span>
+                  تكلفة المنصرف:{" "}
+                  <span className="font-bold" data-testid="text-valuation-cogs">
+                    {formatCurrency(valuation.totals.cogsEgp)} ج.م
+                  </span>
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الصنف / الطبقة</TableHead>
+                      <TableHead className="text-right">الكمية الأصلية</TableHead>
+                      <TableHead className="text-right">الكمية المتبقية</TableHead>
+                      <TableHead className="text-right">تكلفة الاستلام (ج.م)</TableHead>
+                      <TableHead className="text-right">تكلفة التقييم (ج.م)</TableHead>
+                      <TableHead className="text-right">القيمة (ج.م)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {valuation.lines
+                      .filter((line) => line.quantity > 0 || line.cogsEgp !== 0)
+                      .flatMap((line) => [
+                        <TableRow key={line.key} className="bg-muted/40">
+                          <TableCell className="font-medium">{line.productName}</TableCell>
+                          <TableCell />
+                          <TableCell className="font-bold">
+                            {new Intl.NumberFormat("ar-EG").format(line.quantity)}
+                          </TableCell>
+                          <TableCell colSpan={2} className="text-xs text-muted-foreground">
+                            تكلفة المنصرف: {formatCurrency(line.cogsEgp)} ج.م
+                          </TableCell>
+                          <TableCell className="font-bold">{formatCurrency(line.valueEgp)}</TableCell>
+                        </TableRow>,
+                        ...line.layers.map((layer) => (
+                          <TableRow key={`${line.key}-${layer.id}`} data-testid={`row-layer-${layer.id}`}>
+                            <TableCell className="pr-8 text-sm text-muted-foreground">
+                              {formatDate(layer.layerDate)}
+                              {layer.shipmentCode && ` — ${layer.shipmentCode}`}
+                            </TableCell>
+                            <TableCell>{new Intl.NumberFormat("ar-EG").format(layer.originalQuantity)}</TableCell>
+                            <TableCell>{new Intl.NumberFormat("ar-EG").format(layer.remainingQuantity)}</TableCell>
+                            <TableCell>{formatCurrency(layer.unitCostEgp)}</TableCell>
+                            <TableCell>{formatCurrency(layer.effectiveUnitCostEgp)}</TableCell>
+                            <TableCell>{formatCurrency(layer.valueEgp)}</TableCell>
+                          </TableRow>
+                        )),
+                      ])}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">لا توجد طبقات تكلفة مفتوحة</p>
+          )}
+        </CardContent>
+      </Card>
       {/* Filters */}
       <Card>
         <CardContent className="p-4">
@@ -325,9 +611,9 @@ export default function Inventory() {
           <CardTitle className="text-lg flex items-center gap-2">
             <Package className="w-5 h-5" />
             حركات المخزون
-            {filteredMovements && (
+            {movementsPage && (
               <Badge variant="secondary" className="mr-2">
-                {filteredMovements.length}
+                {totalMovements}
               </Badge>
             )}
           </CardTitle>
@@ -335,7 +621,7 @@ export default function Inventory() {
             variant="outline"
             size="sm"
             onClick={exportToCSV}
-            disabled={!filteredMovements || filteredMovements.length === 0}
+            disabled={totalMovements === 0}
             data-testid="button-export-csv"
           >
             <Download className="w-4 h-4 ml-2" />
@@ -345,19 +631,20 @@ export default function Inventory() {
         <CardContent>
           {loadingMovements ? (
             <TableSkeleton />
-          ) : filteredMovements && filteredMovements.length > 0 ? (
+          ) : paginatedMovements && paginatedMovements.length > 0 ? (
             <div className="space-y-4">
               <div className="overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
                       <TableHead className="text-right">التاريخ</TableHead>
+                      <TableHead className="text-right">نوع الحركة</TableHead>
                       <TableHead className="text-right">الشحنة</TableHead>
                       <TableHead className="text-right">المنتج</TableHead>
                       <TableHead className="text-right">عدد القطع</TableHead>
-                      <TableHead className="text-right">الشراء (RMB)</TableHead>
-                      <TableHead className="text-right">الشحن (RMB)</TableHead>
-                      <TableHead className="text-right">العمولة (RMB)</TableHead>
+                      <TableHead className="text-right">الشراء (ج.م)</TableHead>
+                      <TableHead className="text-right">الشحن (ج.م)</TableHead>
+                      <TableHead className="text-right">العمولة (ج.م)</TableHead>
                       <TableHead className="text-right">الجمرك (ج.م)</TableHead>
                       <TableHead className="text-right">التخريج (ج.م)</TableHead>
                       <TableHead className="text-right">تكلفة القطعة (ج.م)</TableHead>
@@ -377,36 +664,42 @@ export default function Inventory() {
                               {formatDate(movement.movementDate)}
                             </div>
                           </TableCell>
+                          <TableCell>
+                            <Badge variant={isOutbound(movement) ? "destructive" : "secondary"}>
+                              {movement.movementType}
+                            </Badge>
+                            {movement.reason && (
+                              <div className="text-xs text-muted-foreground mt-1">{movement.reason}</div>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Badge variant="outline">
                               {movement.shipment?.shipmentCode || "-"}
                             </Badge>
                           </TableCell>
                           <TableCell className="font-medium">
-                            {movement.shipmentItem?.productName || "-"}
+                            {movementProductName(movement)}
                           </TableCell>
                           <TableCell>
-                            {new Intl.NumberFormat("ar-EG").format(
-                              movement.totalPiecesIn || 0
-                            )}
+                            {new Intl.NumberFormat("ar-EG").format(movementPieces(movement))}
                           </TableCell>
                           <TableCell>
                             <div className="flex flex-col gap-1">
-                              <span>¥ {formatCurrency(costs.purchasePriceRmb || 0)}</span>
+                              <span>{formatCurrency(costs.purchaseEgp)} ج.م</span>
                               <span className="text-xs text-muted-foreground">السعر: {formatCurrency(costs.exchangeRate)}</span>
                             </div>
                           </TableCell>
                           <TableCell>
-                            ¥ {formatCurrency(costs.shippingShareRmb)}
+                            {formatCurrency(costs.shippingShareEgp)} ج.م
                           </TableCell>
                           <TableCell>
-                            ¥ {formatCurrency(costs.commissionShareRmb)}
+                            {formatCurrency(costs.commissionShareEgp)} ج.م
                           </TableCell>
                           <TableCell>
-                            {formatCurrency(costs.customsPerPieceEgp)} ج.م
+                            {formatCurrency(costs.customsShareEgp)} ج.م
                           </TableCell>
                           <TableCell>
-                            {formatCurrency(costs.clearanceShareEgp)} ج.م
+                            {formatCurrency(costs.takhreegShareEgp)} ج.م
                           </TableCell>
                           <TableCell className="font-bold text-primary">
                             {formatCurrency(costs.finalCostEgp)} ج.م
@@ -477,6 +770,121 @@ export default function Inventory() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog
+        open={!!stockToIssue}
+        onOpenChange={(open) => {
+          if (!open) setStockToIssue(null);
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <PackageMinus className="w-5 h-5" />
+              صرف من المخزون
+            </DialogTitle>
+          </DialogHeader>
+          {stockToIssue && (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const quantity = parseInt(issueQuantity);
+                if (!quantity || quantity <= 0 || quantity > stockToIssue.onHand) {
+                  toast({ title: `الكمية يجب أن تكون بين 1 و ${stockToIssue.onHand}`, variant: "destructive" });
+                  return;
+                }
+                if (!issueReason.trim()) {
+                  toast({ title: "يجب كتابة سبب الصرف", variant: "destructive" });
+                  return;
+                }
+                if (activeWarehouses.length > 0 && !issueWarehouseId) {
+                  toast({ title: "اختر المخزن الذي سيتم الصرف منه", variant: "destructive" });
+                  return;
+                }
+                issueMutation.mutate({
+                  productId: stockToIssue.productId,
+                  shipmentItemId: stockToIssue.shipmentItemId,
+                  movementType: issueType,
+                  quantity,
+                  reason: issueReason.trim(),
+                  warehouseId: issueWarehouseId ? parseInt(issueWarehouseId) : null,
+                });
+              }}
+            >
+              <p className="text-sm text-muted-foreground">
+                {stockToIssue.productName} — المتاح:{" "}
+                <span className="font-semibold text-foreground">
+                  {new Intl.NumberFormat("ar-EG").format(stockToIssue.onHand)}
+                </span>{" "}
+                قطعة
+              </p>
+              {activeWarehouses.length > 0 && (
+                <div className="space-y-2">
+                  <Label>المخزن *</Label>
+                  <Select value={issueWarehouseId} onValueChange={setIssueWarehouseId}>
+                    <SelectTrigger data-testid="select-issue-warehouse">
+                      <SelectValue placeholder="اختر المخزن" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeWarehouses.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>نوع الحركة *</Label>
+                <Select value={issueType} onValueChange={setIssueType}>
+                  <SelectTrigger data-testid="select-issue-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTBOUND_MOVEMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueQuantity">الكمية *</Label>
+                <Input
+                  id="issueQuantity"
+                  type="number"
+                  min={1}
+                  max={stockToIssue.onHand}
+                  value={issueQuantity}
+                  onChange={(e) => setIssueQuantity(e.target.value)}
+                  data-testid="input-issue-quantity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueReason">السبب *</Label>
+                <Textarea
+                  id="issueReason"
+                  value={issueReason}
+                  onChange={(e) => setIssueReason(e.target.value)}
+                  placeholder="مثال: فاتورة بيع رقم 1024"
+                  data-testid="input-issue-reason"
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setStockToIssue(null)}>
+                  إلغاء
+                </Button>
+                <Button type="submit" disabled={issueMutation.isPending} data-testid="button-confirm-issue">
+                  {issueMutation.isPending ? "جاري الحفظ..." : "تسجيل الصرف"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
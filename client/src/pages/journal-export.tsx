@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BookOpen, Download, Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Supplier } from "@shared/schema";
+
+interface ChartOfAccountsLine {
+  mappingType: "cost_component" | "payment_method" | "supplier_payable";
+  sourceKey: string;
+  accountCode: string;
+  accountName: string;
+  isDefault: boolean;
+}
+
+const MAPPING_TYPE_LABELS: Record<ChartOfAccountsLine["mappingType"], string> = {
+  cost_component: "بند تكلفة",
+  payment_method: "طريقة دفع",
+  supplier_payable: "حساب مورد",
+};
+
+const lineKey = (line: Pick<ChartOfAccountsLine, "mappingType" | "sourceKey">) =>
+  `${line.mappingType}:${line.sourceKey}`;
+
+const firstOfMonth = () => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth(), 1).toISOString().split("T")[0];
+};
+
+export default function JournalExportPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = user?.role === "مدير" || user?.role === "محاسب";
+
+  const [lines, setLines] = useState<ChartOfAccountsLine[]>([]);
+  const [newSupplierId, setNewSupplierId] = useState("");
+  const [dateFrom, setDateFrom] = useState(firstOfMonth);
+  const [dateTo, setDateTo] = useState(() => new Date().toISOString().split("T")[0]);
+  const [downloading, setDownloading] = useState<"csv" | "json" | null>(null);
+
+  const { data: chart, isLoading } = useQuery<ChartOfAccountsLine[]>({
+    queryKey: ["/api/accounting/chart-of-accounts"],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  useEffect(() => {
+    if (chart) setLines(chart);
+  }, [chart]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (mappings: ChartOfAccountsLine[]) =>
+      apiRequest("PUT", "/api/accounting/chart-of-accounts", {
+        mappings: mappings.map(({ isDefault, ...mapping }) => mapping),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/chart-of-accounts"] });
+      toast({ title: "تم حفظ دليل الحسابات" });
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const supplierName = (sourceKey: string) =>
+    suppliers?.find((supplier) => String(supplier.id) === sourceKey)?.name ?? `مورد رقم ${sourceKey}`;
+
+  const sourceLabel = (line: ChartOfAccountsLine) => {
+    if (line.mappingType !== "supplier_payable") return line.sourceKey;
+    return line.sourceKey === "default" ? "كل الموردين (افتراضي)" : supplierName(line.sourceKey);
+  };
+
+  const updateLine = (key: string, field: "accountCode" | "accountName", value: string) => {
+    setLines((current) => current.map((line) => (lineKey(line) === key ? { ...line, [field]: value } : line)));
+  };
+
+  const addSupplierAccount = () => {
+    if (!newSupplierId || lines.some((line) => lineKey(line) === `supplier_payable:${newSupplierId}`)) return;
+    setLines((current) => [
+      ...current,
+      {
+        mappingType: "supplier_payable",
+        sourceKey: newSupplierId,
+        accountCode: "",
+        accountName: supplierName(newSupplierId),
+        isDefault: false,
+      },
+    ]);
+    setNewSupplierId("");
+  };
+
+  const downloadJournal = async (format: "csv" | "json") => {
+    setDownloading(format);
+    try {
+      const params = new URLSearchParams({ dateFrom, dateTo, format });
+      const response = await fetch(`/api/accounting/journal-export?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message || body?.message || "تعذر تصدير القيود");
+      }
+
+      const blob =
+        format === "csv"
+          ? await response.blob()
+          : new Blob([JSON.stringify(await response.json(), null, 2)], { type: "application/json" });
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = `journal_${dateFrom}_${dateTo}.${format}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div>
+        <h1 className="text-3xl font-semibold">تصدير القيود المحاسبية</h1>
+        <p className="text-muted-foreground mt-1">
+          ربط بنود التكلفة وطرق الدفع والموردين بدليل حسابات البرنامج المحاسبي وتصدير قيود الفترة
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Download className="w-5 h-5" />
+            تصدير قيود فترة
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label>من تاريخ</Label>
+              <Input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                data-testid="input-journal-date-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>إلى تاريخ</Label>
+              <Input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                data-testid="input-journal-date-to"
+              />
+            </div>
+            <Button
+              onClick={() => downloadJournal("csv")}
+              disabled={!canEdit || downloading !== null}
+              data-testid="button-export-journal-csv"
+            >
+              <Download className="w-4 h-4 ml-2" />
+              {downloading === "csv" ? "جاري التصدير..." : "تصدير CSV"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadJournal("json")}
+              disabled={!canEdit || downloading !== null}
+              data-testid="button-export-journal-json"
+            >
+              <Download className="w-4 h-4 ml-2" />
+              {downloading === "json" ? "جاري التصدير..." : "تصدير JSON"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            كل حركة في كشف الحركة تتحول إلى قيد متوازن من طرفين بتاريخ الحركة نفسها.
+            {!canEdit && " التصدير متاح للمدير والمحاسب فقط."}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            دليل الحسابات
+          </CardTitle>
+          {canEdit && (
+            <Button
+              onClick={() => saveMutation.mutate(lines)}
+              disabled={saveMutation.isPending || isLoading}
+              data-testid="button-save-chart-of-accounts"
+            >
+              <Save className="w-4 h-4 ml-2" />
+              {saveMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">النوع</TableHead>
+                  <TableHead className="text-right">البند</TableHead>
+                  <TableHead className="text-right">رمز الحساب</TableHead>
+                  <TableHead className="text-right">اسم الحساب</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={lineKey(line)} data-testid={`row-account-${lineKey(line)}`}>
+                    <TableCell>
+                      <Badge variant="outline">{MAPPING_TYPE_LABELS[line.mappingType]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {sourceLabel(line)}
+                      {line.isDefault && <span className="text-xs text-muted-foreground mr-2">(افتراضي)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={line.accountCode}
+                        onChange={(e) => updateLine(lineKey(line), "accountCode", e.target.value)}
+                        disabled={!canEdit}
+                        className="w-28"
+                        dir="ltr"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={line.accountName}
+                        onChange={(e) => updateLine(lineKey(line), "accountName", e.target.value)}
+                        disabled={!canEdit}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit && (
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>حساب خاص لمورد</Label>
+                <Select value={newSupplierId} onValueChange={setNewSupplierId}>
+                  <SelectTrigger className="w-56" data-testid="select-supplier-account">
+                    <SelectValue placeholder="اختر المورد" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={String(supplier.id)}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={addSupplierAccount} disabled={!newSupplierId}>
+                إضافة
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
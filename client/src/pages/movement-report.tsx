@@ -41,11 +41,12 @@ interface MovementReportData {
     originalCurrency?: string;
     amountOriginal?: string;
     amountEgp: string;
-    direction: 'cost' | 'payment';
+    direction: 'cost' | 'payment' | 'credit';
     userName?: string;
   }>;
   totalCostEgp: string;
   totalPaidEgp: string;
+  totalCreditEgp: string;
   netMovement: string;
 }
 
@@ -70,8 +71,16 @@ const movementTypes = [
   { value: "جمرك", label: "جمرك" },
   { value: "تخريج", label: "تخريج" },
   { value: "دفعة", label: "دفعة" },
+  { value: "دفعة مقدمة", label: "دفعة مقدمة" },
+  { value: "إشعار دائن", label: "إشعار دائن" },
 ];
 
+const directionLabels: Record<string, string> = {
+  cost: "تكلفة",
+  payment: "مدفوع",
+  credit: "إشعار دائن",
+};
+
 const costComponents = [
   { value: "all", label: "الكل" },
   { value: "تكلفة البضاعة", label: "تكلفة البضاعة" },
@@ -162,7 +171,7 @@ export default function MovementReportPage() {
       m.originalCurrency || "",
       m.amountOriginal || "",
       m.amountEgp,
-      m.direction === 'cost' ? 'تكلفة' : 'مدفوع'
+      directionLabels[m.direction]
     ]);
     
     const csvContent = [headers, ...rows].map(row => row.join(",")).join("\n");
@@ -355,7 +364,7 @@ export default function MovementReportPage() {
         </CardContent>
       </Card>
 
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card className="bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -382,6 +391,19 @@ export default function MovementReportPage() {
             </div>
           </CardContent>
         </Card>
+        <Card className="bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-900">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <TrendingDown className="w-4 h-4 text-blue-600" />
+              إشعارات دائنة
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold text-blue-600" data-testid="text-total-credit">
+              {formatCurrency(report?.totalCreditEgp || "0")} جنيه
+            </div>
+          </CardContent>
+        </Card>
         <Card className="bg-amber-50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-900">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -448,12 +470,18 @@ export default function MovementReportPage() {
                         )}
                       </TableCell>
                       <TableCell>{m.paymentMethod || "-"}</TableCell>
-                      <TableCell className={m.direction === 'cost' ? 'text-red-600' : 'text-green-600'}>
+                      <TableCell
+                        className={
+                          m.direction === 'cost' ? 'text-red-600' : m.direction === 'credit' ? 'text-blue-600' : 'text-green-600'
+                        }
+                      >
                         {formatCurrency(m.amountEgp)} جنيه
                       </TableCell>
                       <TableCell>
-                        <Badge variant={m.direction === 'cost' ? 'destructive' : 'default'}>
-                          {m.direction === 'cost' ? 'تكلفة' : 'مدفوع'}
+                        <Badge
+                          variant={m.direction === 'cost' ? 'destructive' : m.direction === 'credit' ? 'secondary' : 'default'}
+                        >
+                          {directionLabels[m.direction]}
                         </Badge>
                       </TableCell>
                     </TableRow>
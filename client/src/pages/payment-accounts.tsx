@@ -0,0 +1,687 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeftRight, CheckCircle2, FileText, Landmark, Pencil, Plus, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PAYMENT_ACCOUNT_TYPE_LABELS, type PaymentAccountWithBalance } from "@/components/payment-account-select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { PaymentAccount } from "@shared/schema";
+
+interface AccountStatement {
+  account: PaymentAccount;
+  openingBalance: number;
+  totalIn: number;
+  totalOut: number;
+  closingBalance: number;
+  movements: Array<{
+    date: string;
+    kind: "payment" | "payment_reversal" | "advance" | "transfer_in" | "transfer_out" | "top_up";
+    description: string;
+    referenceNumber: string | null;
+    amount: number;
+    runningBalance: number;
+  }>;
+  reconciliation: {
+    bookBalance: number;
+    bankBalance: number;
+    difference: number;
+    reconciled: boolean;
+  } | null;
+}
+
+// Suggestions only: an account may carry any method label
+const PAYMENT_METHOD_SUGGESTIONS = ["نقدي", "فودافون كاش", "إنستاباي", "تحويل بنكي", "أخرى"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function formatCurrency(value: string | number) {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  return new Intl.NumberFormat("ar-EG", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(num || 0);
+}
+
+function formatDate(date: string | Date | null) {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("ar-EG");
+}
+
+const currencyLabel = (currency: string) => (currency === "RMB" ? "¥" : "ج.م");
+
+const invalidateAccounts = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-accounts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-account-transfers"] });
+};
+
+type AccountForm = {
+  name: string;
+  accountType: string;
+  currency: string;
+  paymentMethod: string;
+  openingBalance: string;
+  openingBalanceDate: string;
+  bankName: string;
+  accountNumber: string;
+  isActive: boolean;
+};
+
+const emptyAccountForm = (): AccountForm => ({
+  name: "",
+  accountType: "cash",
+  currency: "EGP",
+  paymentMethod: "نقدي",
+  openingBalance: "0",
+  openingBalanceDate: today(),
+  bankName: "",
+  accountNumber: "",
+  isActive: true,
+});
+
+export default function PaymentAccountsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = user?.role === "مدير" || user?.role === "محاسب";
+
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<PaymentAccount | null>(null);
+  const [accountForm, setAccountForm] = useState<AccountForm>(emptyAccountForm);
+
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [isTopUp, setIsTopUp] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [transferDate, setTransferDate] = useState(today);
+  const [amountFrom, setAmountFrom] = useState("");
+  const [amountTo, setAmountTo] = useState("");
+  const [transferReference, setTransferReference] = useState("");
+  const [transferNote, setTransferNote] = useState("");
+
+  const [statementAccountId, setStatementAccountId] = useState<number | null>(null);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [bankBalanceInput, setBankBalanceInput] = useState("");
+  const [bankBalance, setBankBalance] = useState("");
+
+  const { data: accounts, isLoading } = useQuery<PaymentAccountWithBalance[]>({
+    queryKey: ["/api/accounting/payment-accounts"],
+  });
+
+  const statementParams = new URLSearchParams();
+  if (dateFrom) statementParams.append("dateFrom", dateFrom);
+  if (dateTo) statementParams.append("dateTo", dateTo);
+  if (bankBalance) statementParams.append("bankBalance", bankBalance);
+
+  const { data: statement, isLoading: statementLoading } = useQuery<AccountStatement>({
+    queryKey: ["/api/accounting/payment-accounts", statementAccountId, "statement", dateFrom, dateTo, bankBalance],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/accounting/payment-accounts/${statementAccountId}/statement?${statementParams.toString()}`,
+        { credentials: "include" },
+      );
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+    enabled: !!statementAccountId,
+  });
+
+  const activeAccounts = (accounts ?? []).filter((account) => account.isActive);
+  const fromAccount = activeAccounts.find((account) => account.id.toString() === fromAccountId);
+  const toAccount = activeAccounts.find((account) => account.id.toString() === toAccountId);
+  const crossCurrency = !isTopUp && !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  const openCreateDialog = () => {
+    setEditingAccount(null);
+    setAccountForm(emptyAccountForm());
+    setAccountDialogOpen(true);
+  };
+
+  const openEditDialog = (account: PaymentAccount) => {
+    setEditingAccount(account);
+    setAccountForm({
+      name: account.name,
+      accountType: account.accountType,
+      currency: account.currency,
+      paymentMethod: account.paymentMethod,
+      openingBalance: account.openingBalance,
+      openingBalanceDate: account.openingBalanceDate,
+      bankName: account.bankName ?? "",
+      accountNumber: account.accountNumber ?? "",
+      isActive: account.isActive,
+    });
+    setAccountDialogOpen(true);
+  };
+
+  const openTransferDialog = (topUp: boolean) => {
+    setIsTopUp(topUp);
+    setFromAccountId("");
+    setToAccountId("");
+    setTransferDate(today());
+    setAmountFrom("");
+    setAmountTo("");
+    setTransferReference("");
+    setTransferNote("");
+    setTransferOpen(true);
+  };
+
+  const openStatement = (accountId: number) => {
+    setStatementAccountId(accountId);
+    setBankBalanceInput("");
+    setBankBalance("");
+  };
+
+  const saveAccountMutation = useMutation({
+    mutationFn: async () => {
+      if (editingAccount) {
+        const { currency, ...changes } = accountForm;
+        return apiRequest("PATCH", `/api/accounting/payment-accounts/${editingAccount.id}`, changes);
+      }
+      return apiRequest("POST", "/api/accounting/payment-accounts", accountForm);
+    },
+    onSuccess: () => {
+      toast({ title: editingAccount ? "تم تحديث الحساب" : "تم إضافة الحساب" });
+      invalidateAccounts();
+      setAccountDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/accounting/payment-account-transfers", {
+        transferDate,
+        fromAccountId: isTopUp ? null : fromAccountId,
+        toAccountId,
+        amountFrom: crossCurrency ? amountFrom : null,
+        amountTo,
+        referenceNumber: transferReference,
+        note: transferNote,
+      }),
+    onSuccess: () => {
+      toast({ title: isTopUp ? "تم تسجيل التغذية" : "تم تسجيل التحويل" });
+      invalidateAccounts();
+      setTransferOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateForm = (patch: Partial<AccountForm>) => setAccountForm((form) => ({ ...form, ...patch }));
+
+  const canTransfer =
+    !!toAccountId &&
+    parseFloat(amountTo) > 0 &&
+    (isTopUp || (!!fromAccountId && fromAccountId !== toAccountId)) &&
+    (!crossCurrency || parseFloat(amountFrom) > 0);
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">الخزن والحسابات</h1>
+          <p className="text-muted-foreground mt-1">
+            الخزن النقدية والحسابات البنكية والمحافظ التي تُدفع منها الشحنات، ورصيد كل منها
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => openTransferDialog(true)} data-testid="button-top-up">
+              <Plus className="w-4 h-4 ml-2" />
+              تغذية حساب
+            </Button>
+            <Button variant="outline" onClick={() => openTransferDialog(false)} data-testid="button-transfer">
+              <ArrowLeftRight className="w-4 h-4 ml-2" />
+              تحويل بين الحسابات
+            </Button>
+            <Button onClick={openCreateDialog} data-testid="button-add-account">
+              <Plus className="w-4 h-4 ml-2" />
+              حساب جديد
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            الحسابات
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">الاسم</TableHead>
+                  <TableHead className="text-right">النوع</TableHead>
+                  <TableHead className="text-right">طريقة الدفع</TableHead>
+                  <TableHead className="text-right">الرصيد الافتتاحي</TableHead>
+                  <TableHead className="text-right">الرصيد الحالي</TableHead>
+                  <TableHead className="text-right">الحالة</TableHead>
+                  <TableHead className="text-right">إجراءات</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      لا توجد حسابات بعد
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  accounts?.map((account) => (
+                    <TableRow key={account.id} data-testid={`row-account-${account.id}`}>
+                      <TableCell className="font-medium">
+                        {account.name}
+                        {account.bankName && (
+                          <div className="text-xs text-muted-foreground">
+                            {account.bankName} {account.accountNumber}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{PAYMENT_ACCOUNT_TYPE_LABELS[account.accountType] ?? account.accountType}</TableCell>
+                      <TableCell>{account.paymentMethod}</TableCell>
+                      <TableCell>
+                        {formatCurrency(account.openingBalance)} {currencyLabel(account.currency)}
+                      </TableCell>
+                      <TableCell className={parseFloat(account.balance) < 0 ? "text-red-600 font-medium" : "font-medium"}>
+                        {formatCurrency(account.balance)} {currencyLabel(account.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={account.isActive ? "default" : "secondary"}>
+                          {account.isActive ? "نشط" : "موقوف"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openStatement(account.id)}
+                            data-testid={`button-account-statement-${account.id}`}
+                          >
+                            <FileText className="w-4 h-4 ml-1" />
+                            كشف الحساب
+                          </Button>
+                          {canManage && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditDialog(account)}
+                              data-testid={`button-edit-account-${account.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "تعديل الحساب" : "إضافة خزنة أو حساب"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>الاسم *</Label>
+              <Input
+                value={accountForm.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="مثال: خزنة المكتب"
+                data-testid="input-account-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>النوع *</Label>
+                <Select value={accountForm.accountType} onValueChange={(value) => updateForm({ accountType: value })}>
+                  <SelectTrigger data-testid="select-account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>العملة *</Label>
+                <Select
+                  value={accountForm.currency}
+                  onValueChange={(value) => updateForm({ currency: value })}
+                  disabled={!!editingAccount}
+                >
+                  <SelectTrigger data-testid="select-account-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="EGP">جنيه مصري (ج.م)</SelectItem>
+                    <SelectItem value="RMB">رممبي صيني (¥)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>طريقة الدفع *</Label>
+                <Input
+                  list="payment-method-suggestions"
+                  value={accountForm.paymentMethod}
+                  onChange={(e) => updateForm({ paymentMethod: e.target.value })}
+                  data-testid="input-account-method"
+                />
+                <datalist id="payment-method-suggestions">
+                  {PAYMENT_METHOD_SUGGESTIONS.map((method) => (
+                    <option key={method} value={method} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="space-y-2">
+                <Label>الرصيد الافتتاحي</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={accountForm.openingBalance}
+                  onChange={(e) => updateForm({ openingBalance: e.target.value })}
+                  data-testid="input-account-opening"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>تاريخ الرصيد الافتتاحي *</Label>
+                <Input
+                  type="date"
+                  value={accountForm.openingBalanceDate}
+                  onChange={(e) => updateForm({ openingBalanceDate: e.target.value })}
+                  data-testid="input-account-opening-date"
+                />
+              </div>
+              {accountForm.accountType === "bank" && (
+                <>
+                  <div className="space-y-2">
+                    <Label>البنك</Label>
+                    <Input
+                      value={accountForm.bankName}
+                      onChange={(e) => updateForm({ bankName: e.target.value })}
+                      data-testid="input-account-bank"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>رقم الحساب</Label>
+                    <Input
+                      value={accountForm.accountNumber}
+                      onChange={(e) => updateForm({ accountNumber: e.target.value })}
+                      data-testid="input-account-number"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            {editingAccount && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="account-active"
+                  checked={accountForm.isActive}
+                  onCheckedChange={(checked) => updateForm({ isActive: checked })}
+                  data-testid="switch-account-active"
+                />
+                <Label htmlFor="account-active">نشط (الحساب الموقوف لا تُسجل عليه حركات جديدة)</Label>
+              </div>
+            )}
+            <Button
+              className="w-full"
+              onClick={() => saveAccountMutation.mutate()}
+              disabled={!accountForm.name.trim() || !accountForm.paymentMethod.trim() || saveAccountMutation.isPending}
+              data-testid="button-save-account"
+            >
+              {saveAccountMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={transferOpen} onOpenChange={setTransferOpen}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>{isTopUp ? "تغذية حساب" : "تحويل بين الحسابات"}</DialogTitle>
+            <DialogDescription>
+              {isTopUp
+                ? "فلوس داخلة للحساب من خارج الحسابات المسجلة، مثل إيداع من صاحب الشركة"
+                : "نقل فلوس من حساب لآخر؛ بين عملتين يُسجل المبلغ الخارج والداخل كما نفذه البنك"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {!isTopUp && (
+                <div className="space-y-2">
+                  <Label>من حساب *</Label>
+                  <Select value={fromAccountId} onValueChange={setFromAccountId}>
+                    <SelectTrigger data-testid="select-transfer-from">
+                      <SelectValue placeholder="اختر الحساب" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name} ({currencyLabel(account.currency)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>إلى حساب *</Label>
+                <Select value={toAccountId} onValueChange={setToAccountId}>
+                  <SelectTrigger data-testid="select-transfer-to">
+                    <SelectValue placeholder="اختر الحساب" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts
+                      .filter((account) => account.id.toString() !== fromAccountId)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name} ({currencyLabel(account.currency)})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>التاريخ *</Label>
+                <Input
+                  type="date"
+                  value={transferDate}
+                  onChange={(e) => setTransferDate(e.target.value)}
+                  data-testid="input-transfer-date"
+                />
+              </div>
+              {crossCurrency && (
+                <div className="space-y-2">
+                  <Label>المبلغ الخارج ({currencyLabel(fromAccount!.currency)}) *</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={amountFrom}
+                    onChange={(e) => setAmountFrom(e.target.value)}
+                    data-testid="input-transfer-amount-from"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>
+                  {crossCurrency ? "المبلغ الداخل" : "المبلغ"}
+                  {toAccount ? ` (${currencyLabel(toAccount.currency)})` : ""} *
+                </Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={amountTo}
+                  onChange={(e) => setAmountTo(e.target.value)}
+                  data-testid="input-transfer-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>الرقم المرجعي</Label>
+                <Input
+                  value={transferReference}
+                  onChange={(e) => setTransferReference(e.target.value)}
+                  data-testid="input-transfer-reference"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>ملاحظات</Label>
+              <Textarea value={transferNote} onChange={(e) => setTransferNote(e.target.value)} data-testid="input-transfer-note" />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => transferMutation.mutate()}
+              disabled={!canTransfer || transferMutation.isPending}
+              data-testid="button-save-transfer"
+            >
+              {transferMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!statementAccountId} onOpenChange={(open) => !open && setStatementAccountId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh]" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              كشف حساب: {statement?.account?.name}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>من تاريخ</Label>
+              <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} data-testid="input-statement-from" />
+            </div>
+            <div className="space-y-2">
+              <Label>إلى تاريخ</Label>
+              <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} data-testid="input-statement-to" />
+            </div>
+            <div className="space-y-2">
+              <Label>رصيد كشف البنك</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={bankBalanceInput}
+                onChange={(e) => setBankBalanceInput(e.target.value)}
+                data-testid="input-bank-balance"
+              />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={() => setBankBalance(bankBalanceInput)} data-testid="button-reconcile">
+                مطابقة
+              </Button>
+            </div>
+          </div>
+          <ScrollArea className="max-h-[55vh]">
+            {statementLoading || !statement ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <div className="space-y-4">
+                {statement.reconciliation && (
+                  <div
+                    className={`flex items-center gap-2 rounded-md p-3 ${
+                      statement.reconciliation.reconciled ? "bg-green-50 text-green-700" : "bg-amber-50 text-amber-700"
+                    }`}
+                    data-testid="text-reconciliation"
+                  >
+                    {statement.reconciliation.reconciled ? (
+                      <>
+                        <CheckCircle2 className="w-5 h-5" />
+                        الرصيد مطابق لكشف البنك
+                      </>
+                    ) : (
+                      <>
+                        <XCircle className="w-5 h-5" />
+                        فرق {formatCurrency(statement.reconciliation.difference)} {currencyLabel(statement.account.currency)} بين
+                        كشف البنك ({formatCurrency(statement.reconciliation.bankBalance)}) والدفاتر (
+                        {formatCurrency(statement.reconciliation.bookBalance)})
+                      </>
+                    )}
+                  </div>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">التاريخ</TableHead>
+                      <TableHead className="text-right">البيان</TableHead>
+                      <TableHead className="text-right">المرجع</TableHead>
+                      <TableHead className="text-right">وارد</TableHead>
+                      <TableHead className="text-right">منصرف</TableHead>
+                      <TableHead className="text-right">الرصيد</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>-</TableCell>
+                      <TableCell className="font-medium">رصيد أول المدة</TableCell>
+                      <TableCell>-</TableCell>
+                      <TableCell>-</TableCell>
+                      <TableCell>-</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(statement.openingBalance)}</TableCell>
+                    </TableRow>
+                    {statement.movements.map((movement, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{formatDate(movement.date)}</TableCell>
+                        <TableCell>{movement.description}</TableCell>
+                        <TableCell>{movement.referenceNumber || "-"}</TableCell>
+                        <TableCell className="text-green-600">
+                          {movement.amount > 0 ? formatCurrency(movement.amount) : "-"}
+                        </TableCell>
+                        <TableCell className="text-red-600">
+                          {movement.amount < 0 ? formatCurrency(-movement.amount) : "-"}
+                        </TableCell>
+                        <TableCell className="font-medium">{formatCurrency(movement.runningBalance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell />
+                      <TableCell className="font-semibold">الإجمالي / رصيد آخر المدة</TableCell>
+                      <TableCell />
+                      <TableCell className="text-green-600 font-semibold">{formatCurrency(statement.totalIn)}</TableCell>
+                      <TableCell className="text-red-600 font-semibold">{formatCurrency(statement.totalOut)}</TableCell>
+                      <TableCell className="font-semibold">
+                        {formatCurrency(statement.closingBalance)} {currencyLabel(statement.account.currency)}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
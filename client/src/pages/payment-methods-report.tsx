@@ -27,6 +27,9 @@ import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTo
 
 interface PaymentMethodData {
   paymentMethod: string;
+  // Set when the row groups payments made from one managed cash box, bank account or wallet
+  paymentAccountId: number | null;
+  accountName: string | null;
   paymentCount: number;
   totalAmountEgp: string;
 }
@@ -82,9 +85,10 @@ export default function PaymentMethodsReportPage() {
   const exportToCSV = () => {
     if (!report) return;
     
-    const headers = ["طريقة الدفع", "عدد الدفعات", "إجمالي المبلغ"];
+    const headers = ["طريقة الدفع", "الحساب", "عدد الدفعات", "إجمالي المبلغ"];
     const rows = report.map(r => [
       r.paymentMethod,
+      r.accountName ?? "",
       r.paymentCount.toString(),
       r.totalAmountEgp
     ]);
@@ -98,7 +102,7 @@ export default function PaymentMethodsReportPage() {
   };
 
   const chartData = report?.map(r => ({
-    name: r.paymentMethod,
+    name: r.accountName ?? r.paymentMethod,
     value: parseFloat(r.totalAmountEgp),
     color: methodColors[r.paymentMethod] || "hsl(var(--chart-1))",
   })) || [];
@@ -251,11 +255,14 @@ export default function PaymentMethodsReportPage() {
                     ? ((parseFloat(r.totalAmountEgp) / totalAmount) * 100).toFixed(1)
                     : "0";
                   return (
-                    <TableRow key={r.paymentMethod} data-testid={`row-method-${r.paymentMethod}`}>
+                    <TableRow
+                      key={r.paymentAccountId ?? r.paymentMethod}
+                      data-testid={`row-method-${r.paymentAccountId ?? r.paymentMethod}`}
+                    >
                       <TableCell className="font-medium">
                         <div className="flex items-center gap-2">
                           <Icon className="w-5 h-5 text-muted-foreground" />
-                          {r.paymentMethod}
+                          {r.accountName ? `${r.accountName} (${r.paymentMethod})` : r.paymentMethod}
                         </div>
                       </TableCell>
                       <TableCell>{r.paymentCount} دفعة</TableCell>
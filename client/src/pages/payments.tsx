@@ -16,6 +16,8 @@ import {
   ChevronDown,
   ChevronUp,
   Receipt,
+  Undo2,
+  Printer,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,6 +26,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  PAYMENT_ATTACHMENT_ACCEPT,
+  PaymentAttachmentsDialog,
+  uploadPaymentAttachments,
+} from "@/components/payment-attachments-dialog";
+import { BatchPaymentDialog } from "@/components/batch-payment-dialog";
+import { PaymentAccountSelect } from "@/components/payment-account-select";
+import { useAuth } from "@/hooks/useAuth";
 import {
   Table,
   TableBody,
@@ -50,7 +61,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
 import { shipmentStatusColors } from "@/lib/colorMaps";
-import type { Shipment, ShipmentPayment, InsertShipmentPayment } from "@shared/schema";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import type { ExchangeRate, Shipment, ShipmentPayment, InsertShipmentPayment } from "@shared/schema";
 import { deriveAmountEgp, validateRemainingAllowance } from "./paymentValidation";
 
 const PAYMENT_METHODS = [
@@ -70,6 +82,8 @@ const COST_COMPONENTS = [
 ];
 
 const ITEMS_PER_PAGE = 25;
+// The server caps a page at 200 rows
+const MAX_PAYMENTS_PER_SHIPMENT = 200;
 
 interface PaymentsStats {
   totalCostEgp: string;
@@ -129,6 +143,18 @@ interface InvoiceSummary {
   computedAt: string;
 }
 
+interface SupplierAllocation {
+  shipmentId: number;
+  basis: string;
+  suppliers: Array<{
+    supplierId: number | null;
+    supplierName: string | null;
+    totalCostEgp: string;
+    totalPaidEgp: string;
+    balanceEgp: string;
+  }>;
+}
+
 export default function Payments() {
   const [search, setSearch] = useState("");
   const [dateFrom, setDateFrom] = useState("");
@@ -137,49 +163,111 @@ export default function Payments() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedShipmentId, setSelectedShipmentId] = useState<number | null>(null);
   const [paymentCurrency, setPaymentCurrency] = useState("EGP");
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().split("T")[0]);
   const [paymentMethod, setPaymentMethod] = useState("");
+  const [paymentAccountId, setPaymentAccountId] = useState("");
   const [costComponent, setCostComponent] = useState("");
+  const [paymentSupplierId, setPaymentSupplierId] = useState("all");
   const [expandedShipments, setExpandedShipments] = useState<Set<number>>(new Set());
   const [showInvoiceSummary, setShowInvoiceSummary] = useState(false);
   const [clientValidationError, setClientValidationError] = useState<string | null>(null);
   const [currentPageShipments, setCurrentPageShipments] = useState(1);
   const [currentPagePayments, setCurrentPagePayments] = useState(1);
+  const [paymentToReverse, setPaymentToReverse] = useState<ShipmentPayment | null>(null);
+  const [reverseReason, setReverseReason] = useState("");
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+  const [allowComponentOverpay, setAllowComponentOverpay] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canManagePayments = user?.role === "مدير" || user?.role === "محاسب";
+  const isAdmin = user?.role === "مدير";
 
   const { data: stats, isLoading: loadingStats } = useQuery<PaymentsStats>({
     queryKey: ["/api/payments/stats"],
   });
 
-  const { data: shipments, isLoading: loadingShipments } = useQuery<Shipment[]>({
+  const { data: shipments } = useQuery<Shipment[]>({
     queryKey: ["/api/shipments"],
   });
 
   const activeShipments = shipments?.filter((s) => s.status !== "مؤرشفة");
 
-  const { data: payments, isLoading: loadingPayments } = useQuery<
-    (ShipmentPayment & { shipment?: Shipment })[]
-  >({
-    queryKey: ["/api/payments"],
+  const { data: shipmentsPage, isLoading: loadingShipmentsPage } = usePaginatedList<Shipment>("/api/shipments", {
+    page: currentPageShipments,
+    pageSize: ITEMS_PER_PAGE,
+    view: "active",
+    search: search.trim(),
+    status: statusFilter,
+    dateFrom,
+    dateTo,
   });
 
+  const { data: paymentsPage, isLoading: loadingPayments } = usePaginatedList<
+    ShipmentPayment & { shipment?: Shipment }
+  >("/api/payments", {
+    page: currentPagePayments,
+    pageSize: ITEMS_PER_PAGE,
+    search: search.trim(),
+    shipmentStatus: statusFilter,
+    dateFrom,
+    dateTo,
+  });
+
+  useEffect(() => {
+    setCurrentPageShipments(1);
+    setCurrentPagePayments(1);
+  }, [search, statusFilter, dateFrom, dateTo]);
+
   const { data: invoiceSummary, isLoading: loadingInvoiceSummary, isError: invoiceSummaryError } = useQuery<InvoiceSummary>({
     queryKey: ["/api/shipments", selectedShipmentId, "invoice-summary"],
     enabled: !!selectedShipmentId,
   });
 
+  // Backdated RMB payments default to the rate in effect on the payment date
+  const { data: effectiveRmbRate, isError: effectiveRateMissing } = useQuery<ExchangeRate>({
+    queryKey: ["/api/exchange-rates/effective", "RMB", "EGP", paymentDate],
+    enabled: paymentCurrency === "RMB" && !!paymentDate,
+    retry: false,
+  });
+
+  const { data: supplierAllocation } = useQuery<SupplierAllocation>({
+    queryKey: ["/api/shipments", selectedShipmentId, "supplier-allocation"],
+    enabled: !!selectedShipmentId,
+  });
+
+  const shipmentSuppliers = supplierAllocation?.suppliers.filter((s) => s.supplierId !== null) ?? [];
+
+  useEffect(() => {
+    setPaymentSupplierId("all");
+  }, [selectedShipmentId]);
+
   useEffect(() => {
     setClientValidationError(null);
   }, [selectedShipmentId, paymentCurrency, invoiceSummary?.paymentAllowance?.remainingAllowedEgp]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: InsertShipmentPayment) => {
-      return apiRequest("POST", "/api/payments", data);
+    // Proofs are uploaded once the payment exists; a failed upload keeps the payment and says so
+    mutationFn: async (data: InsertShipmentPayment & { allowComponentOverpay?: boolean }) => {
+      const response = await apiRequest("POST", "/api/payments", data);
+      if (attachmentFiles.length === 0) return { attachmentError: null };
+
+      const { payment } = await response.json();
+      try {
+        await uploadPaymentAttachments(payment.id, attachmentFiles);
+        return { attachmentError: null };
+      } catch (error) {
+        return { attachmentError: getErrorMessage(error) };
+      }
     },
-    onSuccess: (_response, variables) => {
+    onSuccess: ({ attachmentError }, variables) => {
       toast({ title: "تم تسجيل الدفعة بنجاح" });
+      if (attachmentError) {
+        toast({ title: `لم يتم رفع المرفقات: ${attachmentError}`, variant: "destructive" });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payments/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-accounts"] });
       if (variables?.shipmentId) {
         queryClient.invalidateQueries({
           queryKey: ["/api/shipments", variables.shipmentId, "invoice-summary"],
@@ -193,13 +281,41 @@ export default function Payments() {
     },
   });
 
+  const reverseMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      return apiRequest("POST", `/api/payments/${id}/reverse`, { reason });
+    },
+    onSuccess: () => {
+      toast({ title: "تم إلغاء الدفعة وتسجيل قيد عكسي" });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-accounts"] });
+      setPaymentToReverse(null);
+      setReverseReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openReverseDialog = (payment: ShipmentPayment) => {
+    setReverseReason("");
+    setPaymentToReverse(payment);
+  };
+
   const resetForm = () => {
     setSelectedShipmentId(null);
     setPaymentCurrency("EGP");
+    setPaymentDate(new Date().toISOString().split("T")[0]);
     setPaymentMethod("");
+    setPaymentAccountId("");
     setCostComponent("");
+    setPaymentSupplierId("all");
     setShowInvoiceSummary(false);
     setClientValidationError(null);
+    setAttachmentFiles([]);
+    setAllowComponentOverpay(false);
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -272,6 +388,8 @@ export default function Payments() {
 
     const data: InsertShipmentPayment = {
       shipmentId: selectedShipmentId,
+      supplierId: paymentSupplierId !== "all" ? parseInt(paymentSupplierId) : null,
+      paymentAccountId: paymentAccountId ? parseInt(paymentAccountId) : null,
       paymentDate: new Date(formData.get("paymentDate") as string),
       paymentCurrency,
       amountOriginal,
@@ -287,7 +405,7 @@ export default function Payments() {
       note: (formData.get("note") as string) || null,
     };
 
-    createMutation.mutate(data);
+    createMutation.mutate(allowComponentOverpay ? { ...data, allowComponentOverpay } : data);
   };
 
   const formatCurrency = (value: string | number | null) => {
@@ -324,57 +442,10 @@ export default function Payments() {
     setCurrentPagePayments(1);
   };
 
-  const filteredShipments = activeShipments?.filter((s) => {
-    if (search && !s.shipmentName.toLowerCase().includes(search.toLowerCase()) && 
-        !s.shipmentCode.toLowerCase().includes(search.toLowerCase())) {
-      return false;
-    }
-    if (statusFilter && statusFilter !== "all" && s.status !== statusFilter) {
-      return false;
-    }
-    if (dateFrom) {
-      const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-      if (!purchaseDate || purchaseDate < new Date(dateFrom)) return false;
-    }
-    if (dateTo) {
-      const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-      if (!purchaseDate || purchaseDate > new Date(dateTo)) return false;
-    }
-    return true;
-  });
-
-  // Pagination for shipments
-  const totalPagesShipments = Math.ceil((filteredShipments?.length || 0) / ITEMS_PER_PAGE);
-  const startIndexShipments = (currentPageShipments - 1) * ITEMS_PER_PAGE;
-  const endIndexShipments = startIndexShipments + ITEMS_PER_PAGE;
-  const paginatedShipments = filteredShipments?.slice(startIndexShipments, endIndexShipments);
-
-  const filteredPayments = payments?.filter((p) => {
-    const shipment = shipments?.find(s => s.id === p.shipmentId);
-    if (search && shipment && 
-        !shipment.shipmentName.toLowerCase().includes(search.toLowerCase()) && 
-        !shipment.shipmentCode.toLowerCase().includes(search.toLowerCase())) {
-      return false;
-    }
-    if (statusFilter && statusFilter !== "all" && shipment && shipment.status !== statusFilter) {
-      return false;
-    }
-    if (dateFrom) {
-      const paymentDate = p.paymentDate ? new Date(p.paymentDate) : null;
-      if (!paymentDate || paymentDate < new Date(dateFrom)) return false;
-    }
-    if (dateTo) {
-      const paymentDate = p.paymentDate ? new Date(p.paymentDate) : null;
-      if (!paymentDate || paymentDate > new Date(dateTo)) return false;
-    }
-    return true;
-  });
-
-  // Pagination for payments ledger
-  const totalPagesPayments = Math.ceil((filteredPayments?.length || 0) / ITEMS_PER_PAGE);
-  const startIndexPayments = (currentPagePayments - 1) * ITEMS_PER_PAGE;
-  const endIndexPayments = startIndexPayments + ITEMS_PER_PAGE;
-  const paginatedPayments = filteredPayments?.slice(startIndexPayments, endIndexPayments);
+  const paginatedShipments = shipmentsPage?.items;
+  const totalPagesShipments = shipmentsPage?.totalPages ?? 1;
+  const paginatedPayments = paymentsPage?.items;
+  const totalPagesPayments = paymentsPage?.totalPages ?? 1;
 
   return (
     <div className="p-6 space-y-6">
@@ -386,279 +457,358 @@ export default function Payments() {
             متابعة إجمالي ما تم دفعه وما هو متبقي على جميع الشحنات
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-payment">
-              <Plus className="w-4 h-4 ml-2" />
-              إضافة دفعة جديدة
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-lg">
-            <DialogHeader>
-              <DialogTitle>تسجيل دفعة جديدة</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label>اختر الشحنة *</Label>
-                <div className="flex gap-2">
-                  <Select
-                    value={selectedShipmentId?.toString() || ""}
-                    onValueChange={(v) => setSelectedShipmentId(parseInt(v))}
-                  >
-                    <SelectTrigger data-testid="select-shipment" className="flex-1">
-                      <SelectValue placeholder="اختر الشحنة" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {activeShipments?.map((s) => (
-                        <SelectItem key={s.id} value={s.id.toString()}>
-                          {s.shipmentCode} - {s.shipmentName}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="icon"
-                    disabled={!selectedShipmentId}
-                    onClick={() => setShowInvoiceSummary(true)}
-                    data-testid="button-invoice-summary"
-                    title="ملخص الفاتورة"
-                  >
-                    <Receipt className="w-4 h-4" />
-                  </Button>
+        <div className="flex flex-wrap gap-2">
+          {canManagePayments && (
+            <BatchPaymentDialog
+              shipments={activeShipments ?? []}
+              costComponents={COST_COMPONENTS}
+              paymentMethods={PAYMENT_METHODS}
+            />
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-payment">
+                <Plus className="w-4 h-4 ml-2" />
+                إضافة دفعة جديدة
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>تسجيل دفعة جديدة</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>اختر الشحنة *</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={selectedShipmentId?.toString() || ""}
+                      onValueChange={(v) => setSelectedShipmentId(parseInt(v))}
+                    >
+                      <SelectTrigger data-testid="select-shipment" className="flex-1">
+                        <SelectValue placeholder="اختر الشحنة" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeShipments?.map((s) => (
+                          <SelectItem key={s.id} value={s.id.toString()}>
+                            {s.shipmentCode} - {s.shipmentName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      disabled={!selectedShipmentId}
+                      onClick={() => setShowInvoiceSummary(true)}
+                      data-testid="button-invoice-summary"
+                      title="ملخص الفاتورة"
+                    >
+                      <Receipt className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="paymentDate">تاريخ الدفع *</Label>
-                  <Input
-                    id="paymentDate"
-                    name="paymentDate"
-                    type="date"
-                    defaultValue={new Date().toISOString().split("T")[0]}
-                    required
-                    data-testid="input-payment-date"
-                  />
+                {shipmentSuppliers.length > 1 && (
+                  <div className="space-y-2">
+                    <Label>المورد</Label>
+                    <Select value={paymentSupplierId} onValueChange={setPaymentSupplierId}>
+                      <SelectTrigger data-testid="select-payment-supplier">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">كل موردي الشحنة (توزيع تلقائي)</SelectItem>
+                        {shipmentSuppliers.map((s) => (
+                          <SelectItem key={s.supplierId} value={String(s.supplierId)}>
+                            {s.supplierName || `مورد #${s.supplierId}`} — المتبقي {formatCurrency(s.balanceEgp)} ج.م
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentDate">تاريخ الدفع *</Label>
+                    <Input
+                      id="paymentDate"
+                      name="paymentDate"
+                      type="date"
+                      value={paymentDate}
+                      onChange={(e) => setPaymentDate(e.target.value)}
+                      required
+                      data-testid="input-payment-date"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>عملة الدفع *</Label>
+                    <Select value={paymentCurrency} onValueChange={setPaymentCurrency}>
+                      <SelectTrigger data-testid="select-currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="EGP">جنيه مصري (ج.م)</SelectItem>
+                        <SelectItem value="RMB">رممبي صيني (¥)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+
                 <div className="space-y-2">
-                  <Label>عملة الدفع *</Label>
-                  <Select value={paymentCurrency} onValueChange={setPaymentCurrency}>
-                    <SelectTrigger data-testid="select-currency">
-                      <SelectValue />
+                  <Label>تحت حساب أي جزء؟ *</Label>
+                  <Select value={costComponent} onValueChange={setCostComponent}>
+                    <SelectTrigger data-testid="select-cost-component">
+                      <SelectValue placeholder="اختر البند" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="EGP">جنيه مصري (ج.م)</SelectItem>
-                      <SelectItem value="RMB">رممبي صيني (¥)</SelectItem>
+                      {COST_COMPONENTS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {costComponent && stats && (
+                    <div className="mt-2 p-2 bg-muted/50 rounded text-sm">
+                      {costComponent === "تكلفة البضاعة" && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
+                          <span className="font-semibold">{formatCurrency(stats.totalPaidPurchaseRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "تكلفة البضاعة" && (
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-muted-foreground">المتبقي</span>
+                          <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalancePurchaseRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "الشحن" && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
+                          <span className="font-semibold">{formatCurrency(stats.totalPaidShippingRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "الشحن" && (
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-muted-foreground">المتبقي</span>
+                          <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceShippingRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "العمولة" && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
+                          <span className="font-semibold">{formatCurrency(stats.totalPaidCommissionRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "العمولة" && (
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-muted-foreground">المتبقي</span>
+                          <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceCommissionRmb)} ¥</span>
+                        </div>
+                      )}
+                      {costComponent === "الجمرك" && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
+                          <span className="font-semibold">{formatCurrency(stats.totalPaidCustomsEgp)} ج.م</span>
+                        </div>
+                      )}
+                      {costComponent === "الجمرك" && (
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-muted-foreground">المتبقي</span>
+                          <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceCustomsEgp)} ج.م</span>
+                        </div>
+                      )}
+                      {costComponent === "التخريج" && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
+                          <span className="font-semibold">{formatCurrency(stats.totalPaidTakhreegEgp)} ج.م</span>
+                        </div>
+                      )}
+                      {costComponent === "التخريج" && (
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-muted-foreground">المتبقي</span>
+                          <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceTakhreegEgp)} ج.م</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {isAdmin && costComponent && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <Checkbox
+                        id="allowComponentOverpay"
+                        checked={allowComponentOverpay}
+                        onCheckedChange={(value) => setAllowComponentOverpay(value === true)}
+                        data-testid="checkbox-allow-component-overpay"
+                      />
+                      <Label htmlFor="allowComponentOverpay" className="text-sm font-normal">
+                        السماح بتجاوز المتبقي على هذا البند (يُسجل في سجل التغييرات)
+                      </Label>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label>تحت حساب أي جزء؟ *</Label>
-                <Select value={costComponent} onValueChange={setCostComponent}>
-                  <SelectTrigger data-testid="select-cost-component">
-                    <SelectValue placeholder="اختر البند" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {COST_COMPONENTS.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {costComponent && stats && (
-                  <div className="mt-2 p-2 bg-muted/50 rounded text-sm">
-                    {costComponent === "تكلفة البضاعة" && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
-                        <span className="font-semibold">{formatCurrency(stats.totalPaidPurchaseRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "تكلفة البضاعة" && (
-                      <div className="flex items-center justify-between mt-1">
-                        <span className="text-muted-foreground">المتبقي</span>
-                        <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalancePurchaseRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "الشحن" && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
-                        <span className="font-semibold">{formatCurrency(stats.totalPaidShippingRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "الشحن" && (
-                      <div className="flex items-center justify-between mt-1">
-                        <span className="text-muted-foreground">المتبقي</span>
-                        <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceShippingRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "العمولة" && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
-                        <span className="font-semibold">{formatCurrency(stats.totalPaidCommissionRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "العمولة" && (
-                      <div className="flex items-center justify-between mt-1">
-                        <span className="text-muted-foreground">المتبقي</span>
-                        <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceCommissionRmb)} ¥</span>
-                      </div>
-                    )}
-                    {costComponent === "الجمرك" && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
-                        <span className="font-semibold">{formatCurrency(stats.totalPaidCustomsEgp)} ج.م</span>
-                      </div>
-                    )}
-                    {costComponent === "الجمرك" && (
-                      <div className="flex items-center justify-between mt-1">
-                        <span className="text-muted-foreground">المتبقي</span>
-                        <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceCustomsEgp)} ج.م</span>
-                      </div>
-                    )}
-                    {costComponent === "التخريج" && (
-                      <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">إجمالي المدفوع في هذا البند</span>
-                        <span className="font-semibold">{formatCurrency(stats.totalPaidTakhreegEgp)} ج.م</span>
-                      </div>
-                    )}
-                    {costComponent === "التخريج" && (
-                      <div className="flex items-center justify-between mt-1">
-                        <span className="text-muted-foreground">المتبقي</span>
-                        <span className="font-semibold text-amber-600">{formatCurrency(stats.totalBalanceTakhreegEgp)} ج.م</span>
-                      </div>
-                    )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="amountOriginal">المبلغ *</Label>
+                    <Input
+                      id="amountOriginal"
+                      name="amountOriginal"
+                      type="number"
+                      step="0.01"
+                      required
+                      placeholder="0.00"
+                      data-testid="input-amount"
+                    />
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>المتبقي المسموح (ج.م)</span>
+                      {loadingInvoiceSummary ? (
+                        <Skeleton className="h-4 w-24" />
+                      ) : invoiceSummary?.paymentAllowance ? (
+                        <span
+                          className="font-semibold text-foreground"
+                          data-testid="remaining-allowed-value"
+                          data-allowed-value={invoiceSummary.paymentAllowance.remainingAllowedEgp}
+                        >
+                          {formatCurrency(invoiceSummary.paymentAllowance.remainingAllowedEgp)} ج.م
+                        </span>
+                      ) : (
+                        <span data-testid="remaining-allowed-value">-</span>
+                      )}
+                    </div>
                   </div>
-                )}
-              </div>
+                  {paymentCurrency === "RMB" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="exchangeRateToEgp">سعر الصرف (RMB→EGP) *</Label>
+                      <Input
+                        key={`${paymentDate}-${effectiveRmbRate?.rateValue ?? ""}`}
+                        id="exchangeRateToEgp"
+                        name="exchangeRateToEgp"
+                        type="number"
+                        step="0.0001"
+                        required
+                        defaultValue={effectiveRmbRate?.rateValue ?? ""}
+                        placeholder="7.00"
+                        data-testid="input-exchange-rate"
+                      />
+                      {effectiveRmbRate ? (
+                        <p className="text-xs text-muted-foreground">
+                          سعر يوم {effectiveRmbRate.rateDate}
+                        </p>
+                      ) : effectiveRateMissing ? (
+                        <p className="text-xs text-amber-600" data-testid="text-rate-missing">
+                          لا يوجد سعر صرف مسجل لتاريخ الدفع، أدخل السعر يدويًا
+                        </p>
+                      ) : null}
+                    </div>
+                  )}
+                </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="amountOriginal">المبلغ *</Label>
-                  <Input
-                    id="amountOriginal"
-                    name="amountOriginal"
-                    type="number"
-                    step="0.01"
-                    required
-                    placeholder="0.00"
-                    data-testid="input-amount"
+                  <Label>الخزنة / الحساب</Label>
+                  <PaymentAccountSelect
+                    value={paymentAccountId}
+                    paymentCurrency={paymentCurrency}
+                    onChange={(value, account) => {
+                      setPaymentAccountId(value);
+                      setPaymentMethod(account ? account.paymentMethod : "");
+                    }}
                   />
-                  <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span>المتبقي المسموح (ج.م)</span>
-                    {loadingInvoiceSummary ? (
-                      <Skeleton className="h-4 w-24" />
-                    ) : invoiceSummary?.paymentAllowance ? (
-                      <span
-                        className="font-semibold text-foreground"
-                        data-testid="remaining-allowed-value"
-                        data-allowed-value={invoiceSummary.paymentAllowance.remainingAllowedEgp}
-                      >
-                        {formatCurrency(invoiceSummary.paymentAllowance.remainingAllowedEgp)} ج.م
-                      </span>
-                    ) : (
-                      <span data-testid="remaining-allowed-value">-</span>
-                    )}
-                  </div>
                 </div>
-                {paymentCurrency === "RMB" && (
+
+                {!paymentAccountId && (
                   <div className="space-y-2">
-                    <Label htmlFor="exchangeRateToEgp">سعر الصرف (RMB→EGP) *</Label>
+                    <Label>طريقة الدفع *</Label>
+                    <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                      <SelectTrigger data-testid="select-payment-method">
+                        <SelectValue placeholder="اختر طريقة الدفع" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((m) => (
+                          <SelectItem key={m.value} value={m.value}>
+                            {m.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {paymentMethod === "نقدي" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="cashReceiverName">اسم مستلم الكاش *</Label>
                     <Input
-                      id="exchangeRateToEgp"
-                      name="exchangeRateToEgp"
-                      type="number"
-                      step="0.0001"
+                      id="cashReceiverName"
+                      name="cashReceiverName"
                       required
-                      placeholder="7.00"
-                      data-testid="input-exchange-rate"
+                      data-testid="input-cash-receiver"
                     />
                   </div>
                 )}
-              </div>
 
-              <div className="space-y-2">
-                <Label>طريقة الدفع *</Label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <SelectTrigger data-testid="select-payment-method">
-                    <SelectValue placeholder="اختر طريقة الدفع" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {PAYMENT_METHODS.map((m) => (
-                      <SelectItem key={m.value} value={m.value}>
-                        {m.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                {paymentMethod && paymentMethod !== "نقدي" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="referenceNumber">الرقم المرجعي</Label>
+                    <Input
+                      id="referenceNumber"
+                      name="referenceNumber"
+                      data-testid="input-reference"
+                    />
+                  </div>
+                )}
 
-              {paymentMethod === "نقدي" && (
                 <div className="space-y-2">
-                  <Label htmlFor="cashReceiverName">اسم مستلم الكاش *</Label>
-                  <Input
-                    id="cashReceiverName"
-                    name="cashReceiverName"
-                    required
-                    data-testid="input-cash-receiver"
+                  <Label htmlFor="note">ملاحظات</Label>
+                  <Textarea
+                    id="note"
+                    name="note"
+                    rows={2}
+                    data-testid="input-note"
                   />
                 </div>
-              )}
 
-              {paymentMethod && paymentMethod !== "نقدي" && (
                 <div className="space-y-2">
-                  <Label htmlFor="referenceNumber">الرقم المرجعي</Label>
+                  <Label htmlFor="attachments">إثبات الدفع (PDF أو صورة)</Label>
                   <Input
-                    id="referenceNumber"
-                    name="referenceNumber"
-                    data-testid="input-reference"
+                    id="attachments"
+                    type="file"
+                    multiple
+                    accept={PAYMENT_ATTACHMENT_ACCEPT}
+                    onChange={(e) => setAttachmentFiles(Array.from(e.target.files ?? []))}
+                    data-testid="input-payment-attachments"
                   />
                 </div>
-              )}
 
-              <div className="space-y-2">
-                <Label htmlFor="note">ملاحظات</Label>
-                <Textarea
-                  id="note"
-                  name="note"
-                  rows={2}
-                  data-testid="input-note"
-                />
-              </div>
+                {clientValidationError && (
+                  <div className="text-sm text-destructive" data-testid="validation-error">
+                    {clientValidationError}
+                  </div>
+                )}
 
-              {clientValidationError && (
-                <div className="text-sm text-destructive" data-testid="validation-error">
-                  {clientValidationError}
+                <div className="flex gap-2 pt-4">
+                  <Button
+                    type="submit"
+                    className="flex-1"
+                    disabled={createMutation.isPending}
+                    data-testid="button-save-payment"
+                  >
+                    {createMutation.isPending ? "جاري الحفظ..." : "حفظ الدفعة"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setIsDialogOpen(false);
+                      resetForm();
+                    }}
+                  >
+                    إلغاء
+                  </Button>
                 </div>
-              )}
-
-              <div className="flex gap-2 pt-4">
-                <Button
-                  type="submit"
-                  className="flex-1"
-                  disabled={createMutation.isPending}
-                  data-testid="button-save-payment"
-                >
-                  {createMutation.isPending ? "جاري الحفظ..." : "حفظ الدفعة"}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => {
-                    setIsDialogOpen(false);
-                    resetForm();
-                  }}
-                >
-                  إلغاء
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -765,9 +915,9 @@ export default function Payments() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {loadingShipments ? (
+              {loadingShipmentsPage ? (
                 <TableSkeleton />
-              ) : filteredShipments && filteredShipments.length > 0 ? (
+              ) : paginatedShipments && paginatedShipments.length > 0 ? (
                 <>
                   <div className="overflow-x-auto">
                     <Table>
@@ -786,7 +936,6 @@ export default function Payments() {
                       <TableBody>
                         {paginatedShipments?.map((shipment) => {
                           const isExpanded = expandedShipments.has(shipment.id);
-                          const shipmentPayments = payments?.filter((p) => p.shipmentId === shipment.id) || [];
                           return (
                             <Fragment key={shipment.id}>
                               <TableRow
@@ -840,6 +989,18 @@ export default function Payments() {
                                       <Receipt className="w-4 h-4 ml-1" />
                                       ملخص
                                     </Button>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      asChild
+                                      onClick={(e) => e.stopPropagation()}
+                                      data-testid={`button-cost-sheet-${shipment.id}`}
+                                    >
+                                      <a href={`/api/shipments/${shipment.id}/cost-sheet.pdf`} target="_blank" rel="noreferrer">
+                                        <FileText className="w-4 h-4 ml-1" />
+                                        PDF
+                                      </a>
+                                    </Button>
                                     <Button
                                       variant="outline"
                                       size="sm"
@@ -859,45 +1020,11 @@ export default function Payments() {
                               {isExpanded && (
                                 <TableRow key={`${shipment.id}-details`}>
                                   <TableCell colSpan={8} className="bg-muted/30 p-4">
-                                    {shipmentPayments.length > 0 ? (
-                                      <div className="grid gap-2">
-                                        {shipmentPayments.map((payment) => (
-                                          <div
-                                            key={payment.id}
-                                            className="p-3 border rounded-md bg-background flex flex-wrap gap-3 justify-between"
-                                          >
-                                            <div className="space-y-1">
-                                              <div className="text-sm text-muted-foreground">
-                                                {new Date(payment.paymentDate).toLocaleString("ar-EG")}
-                                              </div>
-                                              <div className="font-semibold">
-                                                {payment.paymentCurrency === "RMB" ? "¥" : "ج.م"}
-                                                {" "}
-                                                {formatCurrency(payment.amountOriginal)}
-                                                <span className="text-sm text-muted-foreground mr-2">
-                                                  ({payment.amountEgp} ج.م)
-                                                </span>
-                                              </div>
-                                              <div className="text-sm">طريقة الدفع: {payment.paymentMethod}</div>
-                                            </div>
-                                            <div className="text-sm space-y-1 text-right">
-                                              <div>تحت حساب: {payment.costComponent}</div>
-                                              {payment.cashReceiverName && (
-                                                <div>المستلم: {payment.cashReceiverName}</div>
-                                              )}
-                                              {payment.referenceNumber && (
-                                                <div>المرجع: {payment.referenceNumber}</div>
-                                              )}
-                                              {payment.note && <div>ملاحظة: {payment.note}</div>}
-                                            </div>
-                                          </div>
-                                        ))}
-                                      </div>
-                                    ) : (
-                                      <div className="text-sm text-muted-foreground text-center py-2">
-                                        لا توجد مدفوعات بعد لهذه الشحنة
-                                      </div>
-                                    )}
+                                    <ShipmentPaymentsPanel
+                                      shipmentId={shipment.id}
+                                      onReverse={openReverseDialog}
+                                      canUploadAttachments={canManagePayments}
+                                    />
                                   </TableCell>
                                 </TableRow>
                               )}
@@ -1038,7 +1165,7 @@ export default function Payments() {
             <CardContent>
               {loadingPayments ? (
                 <TableSkeleton />
-              ) : filteredPayments && filteredPayments.length > 0 ? (
+              ) : paginatedPayments && paginatedPayments.length > 0 ? (
                 <div className="space-y-4">
                   <div className="overflow-x-auto">
                     <Table>
@@ -1052,6 +1179,7 @@ export default function Payments() {
                           <TableHead className="text-right">طريقة الدفع</TableHead>
                           <TableHead className="text-right">المستلم/المرجع</TableHead>
                           <TableHead className="text-right">ملاحظات</TableHead>
+                          <TableHead className="text-right">إجراءات</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -1059,11 +1187,13 @@ export default function Payments() {
                         <TableRow
                           key={payment.id}
                           data-testid={`row-ledger-${payment.id}`}
+                          className={payment.voidedAt ? "text-muted-foreground" : ""}
                         >
                           <TableCell>
                             <div className="flex items-center gap-2">
                               <Calendar className="w-4 h-4 text-muted-foreground" />
                               {formatDate(payment.paymentDate)}
+                              <PaymentVoidBadge payment={payment} />
                             </div>
                           </TableCell>
                           <TableCell>
@@ -1071,12 +1201,12 @@ export default function Payments() {
                           </TableCell>
                           <TableCell>{payment.costComponent}</TableCell>
                           <TableCell>
-                            <span className="font-mono">
+                            <span className={`font-mono ${payment.voidedAt ? "line-through" : ""}`}>
                               {payment.paymentCurrency === "RMB" ? "¥" : "ج.م"}{" "}
                               {formatCurrency(payment.amountOriginal)}
                             </span>
                           </TableCell>
-                          <TableCell className="font-bold">
+                          <TableCell className={`font-bold ${payment.voidedAt ? "line-through" : ""}`}>
                             {formatCurrency(payment.amountEgp)} ج.م
                           </TableCell>
                           <TableCell>
@@ -1096,6 +1226,31 @@ export default function Payments() {
                             <div className="line-clamp-2 break-words">
                               {payment.note || "-"}
                             </div>
+                            {payment.voidReason && (
+                              <div className="text-xs text-destructive line-clamp-2 break-words">
+                                سبب الإلغاء: {payment.voidReason}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <PaymentAttachmentsDialog paymentId={payment.id} canUpload={canManagePayments} />
+                            <Button size="sm" variant="ghost" asChild data-testid={`button-receipt-ledger-${payment.id}`}>
+                              <a href={`/api/payments/${payment.id}/receipt.pdf`} target="_blank" rel="noreferrer">
+                                <Printer className="w-4 h-4 ml-1" />
+                                إيصال
+                              </a>
+                            </Button>
+                            {canReversePayment(payment) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => openReverseDialog(payment)}
+                                data-testid={`button-reverse-ledger-${payment.id}`}
+                              >
+                                <Undo2 className="w-4 h-4 ml-1" />
+                                إلغاء
+                              </Button>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -1312,10 +1467,190 @@ export default function Payments() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog
+        open={!!paymentToReverse}
+        onOpenChange={(open) => {
+          if (!open) setPaymentToReverse(null);
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Undo2 className="w-5 h-5" />
+              إلغاء الدفعة
+            </DialogTitle>
+          </DialogHeader>
+          {paymentToReverse && (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!reverseReason.trim()) {
+                  toast({ title: "يجب كتابة سبب إلغاء الدفعة", variant: "destructive" });
+                  return;
+                }
+                reverseMutation.mutate({ id: paymentToReverse.id, reason: reverseReason.trim() });
+              }}
+            >
+              <p className="text-sm text-muted-foreground">
+                سيتم تسجيل قيد عكسي بمبلغ{" "}
+                <span className="font-semibold text-foreground">
+                  {formatCurrency(paymentToReverse.amountEgp)} ج.م
+                </span>{" "}
+                مع الإبقاء على الدفعة الأصلية في السجل كدفعة ملغاة.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="reverseReason">سبب الإلغاء *</Label>
+                <Textarea
+                  id="reverseReason"
+                  value={reverseReason}
+                  onChange={(e) => setReverseReason(e.target.value)}
+                  placeholder="مثال: تم تسجيل المبلغ على الشحنة الخطأ"
+                  data-testid="input-reverse-reason"
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setPaymentToReverse(null)}>
+                  تراجع
+                </Button>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={reverseMutation.isPending}
+                  data-testid="button-confirm-reverse"
+                >
+                  {reverseMutation.isPending ? "جاري الإلغاء..." : "تأكيد الإلغاء"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
+function ShipmentPaymentsPanel({
+  shipmentId,
+  onReverse,
+  canUploadAttachments,
+}: {
+  shipmentId: number;
+  onReverse: (payment: ShipmentPayment) => void;
+  canUploadAttachments: boolean;
+}) {
+  const { data, isLoading } = usePaginatedList<ShipmentPayment>("/api/payments", {
+    shipmentId,
+    pageSize: MAX_PAYMENTS_PER_SHIPMENT,
+    sortBy: "paymentDate",
+  });
+  const shipmentPayments = data?.items ?? [];
+
+  const formatCurrency = (value: string | number | null) =>
+    new Intl.NumberFormat("ar-EG", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format((typeof value === "string" ? parseFloat(value) : value) || 0);
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (shipmentPayments.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground text-center py-2">
+        لا توجد مدفوعات بعد لهذه الشحنة
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-2">
+      {shipmentPayments.map((payment) => (
+        <div
+          key={payment.id}
+          className="p-3 border rounded-md bg-background flex flex-wrap gap-3 justify-between"
+        >
+          <div className="space-y-1">
+            <div className="text-sm text-muted-foreground flex items-center gap-2">
+              {new Date(payment.paymentDate).toLocaleString("ar-EG")}
+              <PaymentVoidBadge payment={payment} />
+            </div>
+            <div className={`font-semibold ${payment.voidedAt ? "line-through text-muted-foreground" : ""}`}>
+              {payment.paymentCurrency === "RMB" ? "¥" : "ج.م"}
+              {" "}
+              {formatCurrency(payment.amountOriginal)}
+              <span className="text-sm text-muted-foreground mr-2">
+                ({payment.amountEgp} ج.م)
+              </span>
+            </div>
+            <div className="text-sm">طريقة الدفع: {payment.paymentMethod}</div>
+          </div>
+          <div className="text-sm space-y-1 text-right">
+            <div>تحت حساب: {payment.costComponent}</div>
+            {payment.cashReceiverName && (
+              <div>المستلم: {payment.cashReceiverName}</div>
+            )}
+            {payment.referenceNumber && (
+              <div>المرجع: {payment.referenceNumber}</div>
+            )}
+            {payment.note && <div>ملاحظة: {payment.note}</div>}
+            {payment.voidReason && (
+              <div className="text-destructive">سبب الإلغاء: {payment.voidReason}</div>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              asChild
+              data-testid={`button-receipt-${payment.id}`}
+            >
+              <a href={`/api/payments/${payment.id}/receipt.pdf`} target="_blank" rel="noreferrer">
+                <Printer className="w-4 h-4 ml-1" />
+                إيصال
+              </a>
+            </Button>
+            <PaymentAttachmentsDialog paymentId={payment.id} canUpload={canUploadAttachments} />
+            {canReversePayment(payment) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onReverse(payment)}
+                data-testid={`button-reverse-payment-${payment.id}`}
+              >
+                <Undo2 className="w-4 h-4 ml-1" />
+                إلغاء الدفعة
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function canReversePayment(payment: ShipmentPayment) {
+  return !payment.voidedAt && !payment.reversalOfPaymentId;
+}
+
+function PaymentVoidBadge({ payment }: { payment: ShipmentPayment }) {
+  if (payment.voidedAt) {
+    return (
+      <Badge variant="outline" className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+        ملغاة
+      </Badge>
+    );
+  }
+  if (payment.reversalOfPaymentId) {
+    return (
+      <Badge variant="outline" className="bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400">
+        قيد عكسي #{payment.reversalOfPaymentId}
+      </Badge>
+    );
+  }
+  return null;
+}
+
 function StatCard({
   title,
   value,
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Filter, PackageX, FileWarning } from "lucide-react";
+import type { Supplier, SupplierClaim } from "@shared/schema";
+
+interface DiscrepancyLine {
+  id: number;
+  shipmentItemId: number;
+  shipmentCode: string;
+  productName: string;
+  orderedPieces: number;
+  receivedPieces: number;
+  shortPieces: number;
+  damagedPieces: number;
+  notes: string | null;
+  claimId: number | null;
+  receivedAt: string;
+  valueRmb: number;
+  valueEgp: number;
+}
+
+interface SupplierDiscrepancy {
+  supplierId: number | null;
+  supplierName: string;
+  orderedPieces: number;
+  receivedPieces: number;
+  shortPieces: number;
+  damagedPieces: number;
+  valueRmb: number;
+  valueEgp: number;
+  lines: DiscrepancyLine[];
+}
+
+interface DiscrepancyReport {
+  totals: Omit<SupplierDiscrepancy, "supplierId" | "supplierName" | "lines">;
+  suppliers: SupplierDiscrepancy[];
+}
+
+interface SupplierClaimRow extends SupplierClaim {
+  supplierName: string;
+  shipmentCode: string;
+}
+
+function formatCurrency(value: string | number) {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  return new Intl.NumberFormat("ar-EG", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(num || 0);
+}
+
+function formatDate(date: string | Date | null) {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("ar-EG");
+}
+
+const formatPieces = (value: number) => new Intl.NumberFormat("ar-EG").format(value);
+
+export default function ReceivingDiscrepanciesPage() {
+  const [dateFrom, setDateFrom] = useState<string>("");
+  const [dateTo, setDateTo] = useState<string>("");
+  const [supplierId, setSupplierId] = useState<string>("");
+
+  const queryParams = new URLSearchParams();
+  if (dateFrom) queryParams.append("dateFrom", dateFrom);
+  if (dateTo) queryParams.append("dateTo", dateTo);
+  if (supplierId && supplierId !== "all") queryParams.append("supplierId", supplierId);
+
+  const { data: report, isLoading } = useQuery<DiscrepancyReport>({
+    queryKey: ["/api/accounting/receiving-discrepancies", dateFrom, dateTo, supplierId],
+    queryFn: async () => {
+      const response = await fetch(`/api/accounting/receiving-discrepancies?${queryParams.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+  });
+
+  const claimParams = new URLSearchParams();
+  if (supplierId && supplierId !== "all") claimParams.append("supplierId", supplierId);
+
+  const { data: claims, isLoading: loadingClaims } = useQuery<SupplierClaimRow[]>({
+    queryKey: ["/api/accounting/supplier-claims", supplierId],
+    queryFn: async () => {
+      const response = await fetch(`/api/accounting/supplier-claims?${claimParams.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const clearFilters = () => {
+    setDateFrom("");
+    setDateTo("");
+    setSupplierId("");
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">فروقات الاستلام</h1>
+        <p className="text-muted-foreground mt-1">القطع الناقصة والتالفة عند استلام الشحنات لكل مورد</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Filter className="w-5 h-5" />
+            الفلاتر
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>من تاريخ</Label>
+              <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>إلى تاريخ</Label>
+              <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>المورد</Label>
+              <Select value={supplierId || "all"} onValueChange={setSupplierId}>
+                <SelectTrigger data-testid="select-discrepancy-supplier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">جميع الموردين</SelectItem>
+                  {suppliers?.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={clearFilters}>
+              مسح الفلاتر
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">قطع ناقصة</p>
+              <p className="text-2xl font-bold">{formatPieces(report?.totals.shortPieces ?? 0)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">قطع تالفة</p>
+              <p className="text-2xl font-bold">{formatPieces(report?.totals.damagedPieces ?? 0)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">قيمة الفروقات (RMB)</p>
+              <p className="text-2xl font-bold">¥ {formatCurrency(report?.totals.valueRmb ?? 0)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">قيمة الفروقات (ج.م)</p>
+              <p className="text-2xl font-bold">{formatCurrency(report?.totals.valueEgp ?? 0)} ج.م</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Per supplier */}
+      {!isLoading && report?.suppliers.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <PackageX className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">لا توجد فروقات استلام</p>
+          </CardContent>
+        </Card>
+      )}
+      {report?.suppliers.map((supplier) => (
+        <Card key={supplier.supplierId ?? "none"} data-testid={`discrepancy-supplier-${supplier.supplierId ?? "none"}`}>
+          <CardHeader className="pb-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-lg">{supplier.supplierName}</CardTitle>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">
+                  مستلم {formatPieces(supplier.receivedPieces)} من {formatPieces(supplier.orderedPieces)}
+                </Badge>
+                <Badge variant="destructive">
+                  {formatCurrency(supplier.valueEgp)} ج.م / ¥ {formatCurrency(supplier.valueRmb)}
+                </Badge>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">تاريخ الاستلام</TableHead>
+                    <TableHead className="text-right">الشحنة</TableHead>
+                    <TableHead className="text-right">الصنف</TableHead>
+                    <TableHead className="text-right">المطلوب</TableHead>
+                    <TableHead className="text-right">المستلم</TableHead>
+                    <TableHead className="text-right">الناقص</TableHead>
+                    <TableHead className="text-right">التالف</TableHead>
+                    <TableHead className="text-right">القيمة (ج.م)</TableHead>
+                    <TableHead className="text-right">ملاحظات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {supplier.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{formatDate(line.receivedAt)}</TableCell>
+                      <TableCell className="font-mono">{line.shipmentCode}</TableCell>
+                      <TableCell>{line.productName}</TableCell>
+                      <TableCell className="font-mono">{formatPieces(line.orderedPieces)}</TableCell>
+                      <TableCell className="font-mono">{formatPieces(line.receivedPieces)}</TableCell>
+                      <TableCell className="font-mono text-destructive">{formatPieces(line.shortPieces)}</TableCell>
+                      <TableCell className="font-mono text-destructive">{formatPieces(line.damagedPieces)}</TableCell>
+                      <TableCell className="font-mono">{formatCurrency(line.valueEgp)}</TableCell>
+                      <TableCell>
+                        {line.notes || "-"}
+                        {line.claimId && (
+                          <Badge variant="outline" className="mr-2">
+                            مطالبة #{line.claimId}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Claims */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <FileWarning className="w-5 h-5" />
+            مطالبات الموردين
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingClaims ? (
+            <Skeleton className="h-24 w-full" />
+          ) : claims && claims.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">رقم المطالبة</TableHead>
+                    <TableHead className="text-right">التاريخ</TableHead>
+                    <TableHead className="text-right">المورد</TableHead>
+                    <TableHead className="text-right">الشحنة</TableHead>
+                    <TableHead className="text-right">القطع</TableHead>
+                    <TableHead className="text-right">المبلغ (RMB)</TableHead>
+                    <TableHead className="text-right">المبلغ (ج.م)</TableHead>
+                    <TableHead className="text-right">الحالة</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {claims.map((claim) => (
+                    <TableRow key={claim.id} data-testid={`row-claim-${claim.id}`}>
+                      <TableCell className="font-mono">#{claim.id}</TableCell>
+                      <TableCell>{formatDate(claim.createdAt)}</TableCell>
+                      <TableCell>{claim.supplierName}</TableCell>
+                      <TableCell className="font-mono">{claim.shipmentCode}</TableCell>
+                      <TableCell className="font-mono">{formatPieces(claim.pieces)}</TableCell>
+                      <TableCell className="font-mono">¥ {formatCurrency(claim.amountRmb)}</TableCell>
+                      <TableCell className="font-mono">{formatCurrency(claim.amountEgp)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{claim.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">لا توجد مطالبات</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
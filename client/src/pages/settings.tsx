@@ -0,0 +1,98 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Boxes } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface AppSettings {
+  inventoryCostingMethod: "weighted_average" | "fifo";
+}
+
+const COSTING_METHODS: { value: AppSettings["inventoryCostingMethod"]; label: string; description: string }[] = [
+  {
+    value: "weighted_average",
+    label: "المتوسط المرجح المتحرك",
+    description: "كل قطعة تُصرف بمتوسط تكلفة الرصيد الحالي من جميع الشحنات.",
+  },
+  {
+    value: "fifo",
+    label: "الوارد أولاً يصرف أولاً (FIFO)",
+    description: "القطع تُصرف من أقدم شحنة أولاً وبتكلفة تلك الشحنة.",
+  },
+];
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "مدير";
+
+  const { data: settings, isLoading } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<AppSettings>) => apiRequest("PATCH", "/api/settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/valuation"] });
+      toast({ title: "تم حفظ الإعدادات" });
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">الإعدادات</h1>
+        <p className="text-muted-foreground mt-1">إعدادات النظام العامة</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Boxes className="w-5 h-5" />
+            طريقة تكلفة المخزون
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <RadioGroup
+              value={settings?.inventoryCostingMethod}
+              onValueChange={(value) =>
+                updateMutation.mutate({ inventoryCostingMethod: value as AppSettings["inventoryCostingMethod"] })
+              }
+              disabled={!isAdmin || updateMutation.isPending}
+              className="space-y-3"
+            >
+              {COSTING_METHODS.map((method) => (
+                <div key={method.value} className="flex items-start gap-3">
+                  <RadioGroupItem
+                    value={method.value}
+                    id={`costing-${method.value}`}
+                    data-testid={`radio-costing-${method.value}`}
+                  />
+                  <Label htmlFor={`costing-${method.value}`} className="space-y-1 cursor-pointer">
+                    <div className="font-medium">{method.label}</div>
+                    <div className="text-sm text-muted-foreground font-normal">{method.description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+          <p className="text-xs text-muted-foreground">
+            تنطبق الطريقة على حركات الصرف الجديدة فقط؛ تكلفة الحركات المسجلة سابقاً لا تتغير.
+            {!isAdmin && " تغيير هذا الإعداد متاح للمدير فقط."}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
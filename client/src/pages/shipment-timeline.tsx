@@ -0,0 +1,154 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Clock, History } from "lucide-react";
+import { shipmentStatusColors } from "@/lib/colorMaps";
+import type { Shipment } from "@shared/schema";
+import {
+  AuditActionBadge,
+  AuditChanges,
+  auditEntityLabels,
+  formatAuditTimestamp,
+  type AuditLogEntry,
+} from "@/components/audit-changes";
+
+type StatusHistoryResponse = {
+  status: string;
+  history: {
+    id: number;
+    toStatus: string;
+    changedAt: string;
+    changedByName: string | null;
+    overrideReason: string | null;
+  }[];
+  stages: { status: string; enteredAt: string; leftAt: string | null; durationMs: number }[];
+};
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours < 1) return "أقل من ساعة";
+  if (hours < 24) return `${hours} ساعة`;
+  return `${Math.floor(hours / 24)} يوم ${hours % 24 ? `و ${hours % 24} ساعة` : ""}`.trim();
+}
+
+export default function ShipmentTimelinePage() {
+  const params = useParams<{ id: string }>();
+  const shipmentId = params.id;
+
+  const { data: shipment } = useQuery<Shipment>({
+    queryKey: ["/api/shipments", shipmentId],
+  });
+
+  const { data: logs, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/shipments", shipmentId, "audit-logs"],
+  });
+
+  const { data: statusHistory } = useQuery<StatusHistoryResponse>({
+    queryKey: ["/api/shipments", shipmentId, "status-history"],
+  });
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <History className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">
+              سجل الشحنة {shipment ? shipment.shipmentCode : ""}
+            </h1>
+            <p className="text-muted-foreground text-sm">
+              {shipment?.shipmentName || "جميع التعديلات والدفعات على الشحنة بالترتيب الزمني"}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/shipments">
+            <ArrowRight className="w-4 h-4 ml-2" />
+            العودة للشحنات
+          </Link>
+        </Button>
+      </div>
+
+      {statusHistory && statusHistory.stages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              مراحل الشحنة
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {statusHistory.stages.map((stage, idx) => {
+                const entry = statusHistory.history[idx];
+                return (
+                  <li
+                    key={entry?.id ?? idx}
+                    className="flex flex-wrap items-center gap-3"
+                    data-testid={`status-stage-${idx}`}
+                  >
+                    <Badge variant="outline" className={shipmentStatusColors[stage.status] || ""}>
+                      {stage.status}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {formatAuditTimestamp(stage.enteredAt)} — {entry?.changedByName || "—"}
+                    </span>
+                    <span className="text-sm font-medium">
+                      {stage.leftAt ? "" : "حتى الآن: "}
+                      {formatDuration(stage.durationMs)}
+                    </span>
+                    {entry?.overrideReason && (
+                      <span className="text-sm text-amber-600">تجاوز: {entry.overrideReason}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            الخط الزمني
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : logs && logs.length > 0 ? (
+            <ol className="relative border-r border-border pr-6 space-y-6">
+              {logs.map((log) => (
+                <li key={log.id} className="relative" data-testid={`timeline-entry-${log.id}`}>
+                  <span className="absolute -right-[31px] top-1.5 w-3 h-3 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <AuditActionBadge action={log.actionType} />
+                    <span className="font-medium">
+                      {auditEntityLabels[log.entityType] || log.entityType}
+                      {log.entityType !== "SHIPMENT" && ` #${log.entityId}`}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {formatAuditTimestamp(log.timestamp)} — {log.userName || "—"}
+                    </span>
+                  </div>
+                  <AuditChanges details={log.details} />
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-center text-muted-foreground py-8">لا توجد سجلات لهذه الشحنة</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import {
   ChevronLeft,
   ChevronRight,
   RefreshCw,
+  PackageCheck,
+  PackageX,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,8 +27,10 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ItemImportDialog } from "@/components/item-import-dialog";
 import {
   Select,
   SelectContent,
@@ -41,6 +45,8 @@ import type {
   Supplier,
   ProductType,
   ExchangeRate,
+  Warehouse,
+  ShipmentItemReceipt,
 } from "@shared/schema";
 
 const STEPS = [
@@ -52,6 +58,20 @@ const STEPS = [
 
 const ITEMS_PER_PAGE = 10;
 
+// Statuses after which the goods are already in stock and no receiving warehouse is asked for
+const RECEIVED_STATUSES = ["مستلمة بنجاح", "مؤرشفة"];
+
+// Counts typed at receiving; an empty received count means the item arrived in full
+type ReceivingCount = { receivedPieces: string; damagedPieces: string; notes: string };
+const EMPTY_RECEIVING_COUNT: ReceivingCount = { receivedPieces: "", damagedPieces: "", notes: "" };
+
+const COST_ALLOCATION_BASES = [
+  { value: "purchase_value", label: "حسب قيمة البضاعة" },
+  { value: "pieces", label: "حسب عدد القطع" },
+  { value: "cartons", label: "حسب عدد الكراتين" },
+  { value: "cbm", label: "حسب الحجم المصرح (CBM)" },
+];
+
 export default function ShipmentWizard() {
   const { id } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
@@ -68,6 +88,7 @@ export default function ShipmentWizard() {
     purchaseRmbToEgpRate: "",
     partialDiscountRmb: "0",
     discountNotes: "",
+    costAllocationBasis: "purchase_value",
   });
 
   const [items, setItems] = useState<Partial<ShipmentItem>[]>([
@@ -79,12 +100,14 @@ export default function ShipmentWizard() {
     shippingAreaSqm: "0",
     shippingCostPerSqmUsdOriginal: "0",
     shippingDate: new Date().toISOString().split("T")[0],
-    rmbToEgpRate: "7.0",
-    usdToRmbRate: "7.2",
+    // Filled from the rates in effect on the shipping date; left blank, the server looks them up
+    rmbToEgpRate: "",
+    usdToRmbRate: "",
     ratesUpdatedAt: "",
   });
 
-  const [purchaseRateInitialized, setPurchaseRateInitialized] = useState(false);
+  // Purchase date the purchase rate was last filled in for
+  const [purchaseRateDate, setPurchaseRateDate] = useState<string | null>(null);
   const [currentItemsPage, setCurrentItemsPage] = useState(1);
   const newItemRef = useRef<HTMLDivElement>(null);
 
@@ -104,8 +127,26 @@ export default function ShipmentWizard() {
     enabled: !isNew,
   });
 
-  const { data: exchangeRates } = useQuery<ExchangeRate[]>({
-    queryKey: ["/api/exchange-rates"],
+  // Rates in effect on the purchase and shipping dates, so backdated shipments get historical rates
+  const {
+    data: purchaseDateRate,
+    isError: purchaseDateRateMissing,
+  } = useQuery<ExchangeRate>({
+    queryKey: ["/api/exchange-rates/effective", "RMB", "EGP", shipmentData.purchaseDate],
+    enabled: isNew && !!shipmentData.purchaseDate,
+    retry: false,
+  });
+
+  const shippingRatesDate = shippingData.shippingDate || new Date().toISOString().split("T")[0];
+  const { data: shippingRmbRate } = useQuery<ExchangeRate>({
+    queryKey: ["/api/exchange-rates/effective", "RMB", "EGP", shippingRatesDate],
+    enabled: currentStep === 2,
+    retry: false,
+  });
+  const { data: shippingUsdToRmbRate } = useQuery<ExchangeRate>({
+    queryKey: ["/api/exchange-rates/effective", "USD", "RMB", shippingRatesDate],
+    enabled: currentStep === 2,
+    retry: false,
   });
 
   const { data: suppliers } = useQuery<Supplier[]>({
@@ -116,6 +157,20 @@ export default function ShipmentWizard() {
     queryKey: ["/api/product-types"],
   });
 
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+  const activeWarehouses = (warehouses ?? []).filter((warehouse) => warehouse.isActive);
+  const [receivingWarehouseId, setReceivingWarehouseId] = useState("");
+  const [receivingCounts, setReceivingCounts] = useState<Record<number, ReceivingCount>>({});
+  const [raiseClaim, setRaiseClaim] = useState(false);
+  const awaitingReceipt = !RECEIVED_STATUSES.includes(existingShipment?.status ?? "");
+
+  const { data: receipts } = useQuery<ShipmentItemReceipt[]>({
+    queryKey: ["/api/shipments", id, "receipts"],
+    enabled: !isNew && !awaitingReceipt,
+  });
+
   // Load existing data
   useEffect(() => {
     if (existingShipment) {
@@ -128,6 +183,7 @@ export default function ShipmentWizard() {
           existingShipment.purchaseRmbToEgpRate?.toString() || shipmentData.purchaseRmbToEgpRate,
         partialDiscountRmb: existingShipment.partialDiscountRmb?.toString() || "0",
         discountNotes: existingShipment.discountNotes || "",
+        costAllocationBasis: existingShipment.costAllocationBasis || "purchase_value",
       });
     }
   }, [existingShipment]);
@@ -146,45 +202,43 @@ export default function ShipmentWizard() {
         shippingCostPerSqmUsdOriginal:
           existingShipping.shippingCostPerSqmUsdOriginal?.toString() || "0",
         shippingDate: existingShipping.shippingDate?.toString() || "",
-        rmbToEgpRate: existingShipping.rmbToEgpRateAtShipping?.toString() || "7.0",
-        usdToRmbRate: existingShipping.usdToRmbRateAtShipping?.toString() || "7.2",
+        rmbToEgpRate: existingShipping.rmbToEgpRateAtShipping?.toString() || "",
+        usdToRmbRate: existingShipping.usdToRmbRateAtShipping?.toString() || "",
         ratesUpdatedAt: existingShipping.ratesUpdatedAt?.toString() || "",
       });
     }
   }, [existingShipping]);
 
-  const latestRmbRate = exchangeRates?.find(
-    (rate) => rate.fromCurrency === "RMB" && rate.toCurrency === "EGP",
-  );
-  const latestUsdToRmbRate = exchangeRates?.find(
-    (rate) => rate.fromCurrency === "USD" && rate.toCurrency === "RMB",
-  );
-
   useEffect(() => {
-    if (isNew && latestRmbRate && !purchaseRateInitialized) {
+    if (!isNew || purchaseRateDate === shipmentData.purchaseDate) return;
+    if (purchaseDateRate) {
       setShipmentData((prev) => ({
         ...prev,
-        purchaseRmbToEgpRate: latestRmbRate.rateValue?.toString() || prev.purchaseRmbToEgpRate,
+        purchaseRmbToEgpRate: purchaseDateRate.rateValue?.toString() || prev.purchaseRmbToEgpRate,
       }));
-      setPurchaseRateInitialized(true);
+      setPurchaseRateDate(shipmentData.purchaseDate);
+    } else if (purchaseDateRateMissing) {
+      // No rate on that date: leave it empty so it is entered by hand instead of reusing another day's rate
+      setShipmentData((prev) => ({ ...prev, purchaseRmbToEgpRate: "" }));
+      setPurchaseRateDate(shipmentData.purchaseDate);
     }
-  }, [isNew, latestRmbRate, purchaseRateInitialized]);
+  }, [isNew, purchaseDateRate, purchaseDateRateMissing, purchaseRateDate, shipmentData.purchaseDate]);
 
   useEffect(() => {
     if (
       currentStep === 2 &&
       !existingShipping &&
       !shippingData.ratesUpdatedAt &&
-      (latestRmbRate || latestUsdToRmbRate)
+      (shippingRmbRate || shippingUsdToRmbRate)
     ) {
       setShippingData((prev) => ({
         ...prev,
-        rmbToEgpRate: latestRmbRate?.rateValue?.toString() || prev.rmbToEgpRate,
-        usdToRmbRate: latestUsdToRmbRate?.rateValue?.toString() || prev.usdToRmbRate,
+        rmbToEgpRate: shippingRmbRate?.rateValue?.toString() || prev.rmbToEgpRate,
+        usdToRmbRate: shippingUsdToRmbRate?.rateValue?.toString() || prev.usdToRmbRate,
         ratesUpdatedAt: new Date().toISOString(),
       }));
     }
-  }, [currentStep, existingShipping, latestRmbRate, latestUsdToRmbRate, shippingData.ratesUpdatedAt]);
+  }, [currentStep, existingShipping, shippingRmbRate, shippingUsdToRmbRate, shippingData.ratesUpdatedAt]);
 
   const refreshRatesMutation = useMutation({
     mutationFn: async () => {
@@ -251,6 +305,9 @@ export default function ShipmentWizard() {
       if (validationError) {
         throw new Error(validationError);
       }
+      if (data.step === 4 && awaitingReceipt && activeWarehouses.length > 0 && !receivingWarehouseId) {
+        throw new Error("اختر المخزن الذي سيتم استلام البضاعة فيه");
+      }
 
       if (isNew && data.step === 1) {
         // Create new shipment
@@ -266,6 +323,20 @@ export default function ShipmentWizard() {
           shipmentData,
           items,
           shippingData,
+          warehouseId: receivingWarehouseId ? parseInt(receivingWarehouseId) : null,
+          receiving: awaitingReceipt
+            ? {
+                // Items are re-saved with this request, so lines refer to them by position
+                lines: Object.entries(receivingCounts).map(([index, count]) => ({
+                  itemIndex: Number(index),
+                  receivedPieces:
+                    count.receivedPieces === "" ? items[Number(index)]?.totalPiecesCou || 0 : Number(count.receivedPieces),
+                  damagedPieces: count.damagedPieces === "" ? 0 : Number(count.damagedPieces),
+                  notes: count.notes,
+                })),
+                raiseClaim,
+              }
+            : undefined,
         });
         return undefined;
       }
@@ -280,6 +351,10 @@ export default function ShipmentWizard() {
         queryClient.invalidateQueries({ queryKey: ["/api/shipments", shipmentIdStr, "shipping"] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      if (variables.step === 4) {
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/accounting/receiving-discrepancies"] });
+      }
       if (isNew && result?.id) {
         navigate(`/shipments/${result.id}/edit`);
       } else if (variables.step === 4) {
@@ -352,6 +427,15 @@ export default function ShipmentWizard() {
     }, 100);
   };
 
+  const importItems = (imported: Partial<ShipmentItem>[]) => {
+    if (imported.length === 0) return;
+    // Replace untouched blank rows (e.g. the one a new shipment starts with)
+    const keptItems = items.filter((item) => item.productName?.trim() || (item.cartonsCtn || 0) > 0);
+    const newItems = [...keptItems, ...imported.map((item) => ({ ...createEmptyItem(), ...item }))];
+    setItems(newItems);
+    setCurrentItemsPage(Math.floor(keptItems.length / ITEMS_PER_PAGE) + 1);
+  };
+
   const removeItem = (index: number) => {
     if (items.length > 1) {
       setItems(items.filter((_, i) => i !== index));
@@ -362,7 +446,7 @@ export default function ShipmentWizard() {
     }
   };
 
-  const updateItem = (index: number, field: string, value: string | number) => {
+  const updateItem = (index: number, field: string, value: string | number | null) => {
     const newItems = [...items];
     (newItems[index] as Record<string, unknown>)[field] = value;
 
@@ -393,9 +477,9 @@ export default function ShipmentWizard() {
     parseFloat(shippingData.shippingAreaSqm) *
     parseFloat(shippingData.shippingCostPerSqmUsdOriginal);
 
-  const shippingCostRmb = shippingCostUsd * parseFloat(shippingData.usdToRmbRate);
+  const shippingCostRmb = shippingCostUsd * parseFloat(shippingData.usdToRmbRate || "0");
   const purchaseRate = parseFloat(shipmentData.purchaseRmbToEgpRate || "0");
-  const shippingRmbToEgp = parseFloat(shippingData.rmbToEgpRate);
+  const shippingRmbToEgp = parseFloat(shippingData.rmbToEgpRate || "0");
   const purchaseCostEgp = totalPurchaseCostRmb * purchaseRate;
   const partialDiscountRmb = parseFloat(shipmentData.partialDiscountRmb || "0");
   const partialDiscountEgp = partialDiscountRmb * purchaseRate;
@@ -484,6 +568,7 @@ export default function ShipmentWizard() {
               items={items}
               updateItem={updateItem}
               addItem={addItem}
+              importItems={importItems}
               removeItem={removeItem}
               suppliers={suppliers || []}
               productTypes={productTypes}
@@ -525,6 +610,26 @@ export default function ShipmentWizard() {
             />
           )}
 
+          {currentStep === 4 && !isNew && (
+            <Step4Receiving
+              items={items}
+              awaitingReceipt={awaitingReceipt}
+              receipts={receipts ?? []}
+              warehouses={activeWarehouses}
+              receivingWarehouseId={receivingWarehouseId}
+              setReceivingWarehouseId={setReceivingWarehouseId}
+              receivingCounts={receivingCounts}
+              setReceivingCount={(index, field, value) =>
+                setReceivingCounts((counts) => ({
+                  ...counts,
+                  [index]: { ...(counts[index] ?? EMPTY_RECEIVING_COUNT), [field]: value },
+                }))
+              }
+              raiseClaim={raiseClaim}
+              setRaiseClaim={setRaiseClaim}
+            />
+          )}
+
           {currentStep === 4 && (
             <Step4Summary
               shipmentData={shipmentData}
@@ -657,6 +762,7 @@ function Step1Import({
   items,
   updateItem,
   addItem,
+  importItems,
   removeItem,
   suppliers,
   productTypes,
@@ -680,6 +786,7 @@ function Step1Import({
     purchaseRmbToEgpRate: string;
     partialDiscountRmb: string;
     discountNotes: string;
+    costAllocationBasis: string;
   };
   setShipmentData: (data: {
     shipmentCode: string;
@@ -689,10 +796,12 @@ function Step1Import({
     purchaseRmbToEgpRate: string;
     partialDiscountRmb: string;
     discountNotes: string;
+    costAllocationBasis: string;
   }) => void;
   items: Partial<ShipmentItem>[];
-  updateItem: (index: number, field: string, value: string | number) => void;
+  updateItem: (index: number, field: string, value: string | number | null) => void;
   addItem: () => void;
+  importItems: (items: Partial<ShipmentItem>[]) => void;
   removeItem: (index: number) => void;
   suppliers: Supplier[];
   productTypes: ProductType[] | undefined;
@@ -743,6 +852,7 @@ function Step1Import({
                 <RefreshCw className={`w-4 h-4 ml-2 ${isRefreshing ? "animate-spin" : ""}`} />
                 {isRefreshing ? "جاري التحديث..." : "تحديث سعر الصرف"}
               </Button>
+              <ItemImportDialog onImport={importItems} />
               <Button size="sm" onClick={addItem} data-testid="button-add-item">
                 <Plus className="w-4 h-4 ml-2" />
                 إضافة بند
@@ -805,7 +915,7 @@ function Step1Import({
               />
             </div>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 pt-4 border-t">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 pt-4 border-t">
             <div className="space-y-2">
               <Label htmlFor="partialDiscountRmb">خصم جزئي (رممبي)</Label>
               <Input
@@ -838,6 +948,29 @@ function Step1Import({
                 data-testid="input-discount-notes"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="costAllocationBasis">أساس توزيع التكاليف المشتركة</Label>
+              <Select
+                value={shipmentData.costAllocationBasis}
+                onValueChange={(value) =>
+                  setShipmentData({
+                    ...shipmentData,
+                    costAllocationBasis: value,
+                  })
+                }
+              >
+                <SelectTrigger id="costAllocationBasis" data-testid="select-cost-allocation-basis">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COST_ALLOCATION_BASES.map((basis) => (
+                    <SelectItem key={basis.value} value={basis.value}>
+                      {basis.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -930,7 +1063,7 @@ function Step1Import({
                     />
                   </div>
                 </div>
-                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
                   <div className="space-y-2">
                     <Label>بلد المنشأ</Label>
                     <Input
@@ -980,6 +1113,17 @@ function Step1Import({
                       min="0"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label>الحجم المصرح (CBM)</Label>
+                    <Input
+                      type="number"
+                      step="0.001"
+                      value={item.declaredCbm || ""}
+                      onChange={(e) => updateItem(actualIndex, "declaredCbm", e.target.value || null)}
+                      min="0"
+                      placeholder="0.000"
+                    />
+                  </div>
                 </div>
                 {/* Image Upload Section */}
                 <div className="flex items-center gap-4 pt-2 border-t">
@@ -1308,7 +1452,7 @@ function Step3Customs({
   totalTakhreegCostEgp,
 }: {
   items: Partial<ShipmentItem>[];
-  updateItem: (index: number, field: string, value: string | number) => void;
+  updateItem: (index: number, field: string, value: string | number | null) => void;
   totalCustomsCostEgp: number;
   totalTakhreegCostEgp: number;
 }) {
@@ -1431,6 +1575,180 @@ function Step3Customs({
   );
 }
 
+// Step 4: Receiving - actual quantities counted, and where they are stored
+function Step4Receiving({
+  items,
+  awaitingReceipt,
+  receipts,
+  warehouses,
+  receivingWarehouseId,
+  setReceivingWarehouseId,
+  receivingCounts,
+  setReceivingCount,
+  raiseClaim,
+  setRaiseClaim,
+}: {
+  items: Partial<ShipmentItem>[];
+  awaitingReceipt: boolean;
+  receipts: ShipmentItemReceipt[];
+  warehouses: Warehouse[];
+  receivingWarehouseId: string;
+  setReceivingWarehouseId: (id: string) => void;
+  receivingCounts: Record<number, ReceivingCount>;
+  setReceivingCount: (index: number, field: keyof ReceivingCount, value: string) => void;
+  raiseClaim: boolean;
+  setRaiseClaim: (value: boolean) => void;
+}) {
+  if (!awaitingReceipt) {
+    const discrepancies = receipts.filter((receipt) => receipt.shortPieces > 0 || receipt.damagedPieces > 0);
+    if (discrepancies.length === 0) return null;
+    const itemNames = new Map(items.map((item) => [item.id, item.productName]));
+
+    return (
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <PackageX className="w-5 h-5" />
+            فروقات الاستلام
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-right p-2">الصنف</th>
+                  <th className="text-right p-2">المطلوب</th>
+                  <th className="text-right p-2">المستلم</th>
+                  <th className="text-right p-2">الناقص</th>
+                  <th className="text-right p-2">التالف</th>
+                  <th className="text-right p-2">ملاحظات</th>
+                </tr>
+              </thead>
+              <tbody>
+                {discrepancies.map((receipt) => (
+                  <tr key={receipt.id} className="border-b" data-testid={`row-receipt-${receipt.shipmentItemId}`}>
+                    <td className="p-2">{itemNames.get(receipt.shipmentItemId) ?? "-"}</td>
+                    <td className="p-2 font-mono">{receipt.orderedPieces}</td>
+                    <td className="p-2 font-mono">{receipt.receivedPieces}</td>
+                    <td className="p-2 font-mono text-destructive">{receipt.shortPieces}</td>
+                    <td className="p-2 font-mono text-destructive">{receipt.damagedPieces}</td>
+                    <td className="p-2">{receipt.notes || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <PackageCheck className="w-5 h-5" />
+          الاستلام الفعلي
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {warehouses.length > 0 && (
+          <div className="space-y-2">
+            <Label>مخزن الاستلام *</Label>
+            <Select value={receivingWarehouseId} onValueChange={setReceivingWarehouseId}>
+              <SelectTrigger data-testid="select-receiving-warehouse">
+                <SelectValue placeholder="اختر المخزن الذي ستدخله البضاعة" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground">
+          يدخل المخزون ما تم استلامه سليماً فقط. اترك الكمية المستلمة فارغة إذا وصل البند كاملاً؛ الفرق غير
+          المستلم وغير التالف يُسجل كنقص.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="text-right p-2">الصنف</th>
+                <th className="text-right p-2">المطلوب</th>
+                <th className="text-right p-2">المستلم سليماً</th>
+                <th className="text-right p-2">التالف</th>
+                <th className="text-right p-2">الناقص</th>
+                <th className="text-right p-2">ملاحظات</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => {
+                const ordered = item.totalPiecesCou || 0;
+                const count = receivingCounts[index];
+                const received = count?.receivedPieces ? Number(count.receivedPieces) : ordered;
+                const damaged = count?.damagedPieces ? Number(count.damagedPieces) : 0;
+                const short = ordered - received - damaged;
+                return (
+                  <tr key={index} className="border-b">
+                    <td className="p-2">{item.productName || "-"}</td>
+                    <td className="p-2 font-mono">{ordered}</td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={ordered}
+                        placeholder={ordered.toString()}
+                        value={count?.receivedPieces ?? ""}
+                        onChange={(e) => setReceivingCount(index, "receivedPieces", e.target.value)}
+                        className="w-24"
+                        data-testid={`input-received-${index}`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={ordered}
+                        placeholder="0"
+                        value={count?.damagedPieces ?? ""}
+                        onChange={(e) => setReceivingCount(index, "damagedPieces", e.target.value)}
+                        className="w-24"
+                        data-testid={`input-damaged-${index}`}
+                      />
+                    </td>
+                    <td className={`p-2 font-mono ${short !== 0 ? "text-destructive" : ""}`}>{short}</td>
+                    <td className="p-2">
+                      <Input
+                        value={count?.notes ?? ""}
+                        onChange={(e) => setReceivingCount(index, "notes", e.target.value)}
+                        data-testid={`input-receiving-notes-${index}`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="raiseClaim"
+            checked={raiseClaim}
+            onCheckedChange={(checked) => setRaiseClaim(checked === true)}
+            data-testid="checkbox-raise-claim"
+          />
+          <Label htmlFor="raiseClaim">فتح مطالبة للمورد بقيمة الناقص والتالف</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Step 4: Summary
 function Step4Summary({
   shipmentData,
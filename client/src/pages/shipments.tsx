@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import {
   Ship,
@@ -13,10 +13,15 @@ import {
   Calendar,
   Archive,
   ArchiveRestore,
+  History,
+  FileText,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -52,10 +57,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
 import { paymentStatusColors, shipmentStatusColors } from "@/lib/colorMaps";
 import type { Shipment } from "@shared/schema";
 
+const ITEMS_PER_PAGE = 25;
+
 export default function Shipments() {
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -65,20 +74,35 @@ export default function Shipments() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [shipmentToDelete, setShipmentToDelete] = useState<Shipment | null>(null);
   const [viewArchived, setViewArchived] = useState(false);
+  const [overrideShipment, setOverrideShipment] = useState<Shipment | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  const { data: shipments, isLoading } = useQuery<Shipment[]>({
-    queryKey: ["/api/shipments"],
+  // Filtering, sorting and paging all happen on the server
+  const { data: shipmentsPage, isLoading } = usePaginatedList<Shipment>("/api/shipments", {
+    page: currentPage,
+    pageSize: ITEMS_PER_PAGE,
+    view: viewArchived ? "archived" : "active",
+    search: search.trim(),
+    status: statusFilter,
+    paymentStatus: paymentStatusFilter,
+    dateFrom,
+    dateTo,
   });
-
-  const activeShipments = shipments?.filter((shipment) => shipment.status !== "مؤرشفة");
-  const archivedShipments = shipments?.filter((shipment) => shipment.status === "مؤرشفة");
+  const shipments = shipmentsPage?.items;
+  const totalPages = shipmentsPage?.totalPages ?? 1;
 
   useEffect(() => {
     setStatusFilter("all");
     setPaymentStatusFilter("all");
   }, [viewArchived]);
 
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [viewArchived, search, statusFilter, paymentStatusFilter, dateFrom, dateTo]);
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       return apiRequest("DELETE", `/api/shipments/${id}`);
@@ -96,18 +120,43 @@ export default function Shipments() {
   });
 
   const statusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      return apiRequest("PATCH", `/api/shipments/${id}` , {
-        shipmentData: { status },
+    mutationFn: async ({
+      shipment,
+      overrideReason,
+    }: {
+      shipment: Shipment;
+      overrideReason?: string;
+    }) => {
+      let status = "مؤرشفة";
+      if (shipment.status === "مؤرشفة") {
+        // A shipment leaves the archive back to the stage it was archived from
+        const res = await apiRequest("GET", `/api/shipments/${shipment.id}/status-history`);
+        const { statusBeforeArchive } = await res.json();
+        status = statusBeforeArchive ?? "جديدة";
+      }
+      return apiRequest("POST", `/api/shipments/${shipment.id}/status`, {
+        status,
+        overrideReason,
       });
     },
     onSuccess: () => {
       toast({ title: viewArchived ? "تم إلغاء الأرشفة" : "تمت أرشفة الشحنة" });
       queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setOverrideShipment(null);
+      setOverrideReason("");
     },
-    onError: () => {
-      toast({ title: "تعذر تحديث حالة الشحنة", variant: "destructive" });
+    onError: (error: any, { shipment }) => {
+      // The admin can still archive a shipment with an open balance by giving a reason
+      if (error?.details?.overridable && user?.role === "مدير" && !overrideShipment) {
+        setOverrideShipment(shipment);
+        return;
+      }
+      toast({
+        title: "تعذر تحديث حالة الشحنة",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
     },
   });
 
@@ -135,40 +184,6 @@ export default function Shipments() {
     return new Date(date).toLocaleDateString("ar-EG");
   };
 
-  const baseShipments = viewArchived ? archivedShipments : activeShipments;
-
-  const filteredShipments = baseShipments?.filter((shipment) => {
-    const matchesSearch =
-      !search ||
-      shipment.shipmentName.toLowerCase().includes(search.toLowerCase()) ||
-      shipment.shipmentCode.toLowerCase().includes(search.toLowerCase());
-    const matchesStatus =
-      statusFilter === "all" || shipment.status === statusFilter;
-
-    const paymentStatus = getPaymentStatus(shipment);
-    const matchesPaymentStatus =
-      paymentStatusFilter === "all" || paymentStatus === paymentStatusFilter;
-    
-    // Date range filter
-    let matchesDateRange = true;
-    if (dateFrom || dateTo) {
-      const purchaseDate = shipment.purchaseDate ? new Date(shipment.purchaseDate) : null;
-      if (purchaseDate) {
-        if (dateFrom) {
-          const fromDate = new Date(dateFrom);
-          if (purchaseDate < fromDate) matchesDateRange = false;
-        }
-        if (dateTo) {
-          const toDate = new Date(dateTo);
-          toDate.setHours(23, 59, 59, 999);
-          if (purchaseDate > toDate) matchesDateRange = false;
-        }
-      }
-    }
-    
-    return matchesSearch && matchesStatus && matchesPaymentStatus && matchesDateRange;
-  });
-
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -296,9 +311,9 @@ export default function Shipments() {
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
             <Ship className="w-5 h-5" />
             قائمة الشحنات
-            {filteredShipments && (
+            {shipmentsPage && (
               <Badge variant="secondary" className="mr-2">
-                {filteredShipments.length}
+                {shipmentsPage.total}
               </Badge>
             )}
           </CardTitle>
@@ -306,7 +321,7 @@ export default function Shipments() {
         <CardContent>
           {isLoading ? (
             <TableSkeleton />
-          ) : filteredShipments && filteredShipments.length > 0 ? (
+          ) : shipments && shipments.length > 0 ? (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
@@ -323,7 +338,7 @@ export default function Shipments() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredShipments.map((shipment) => (
+                  {shipments.map((shipment) => (
                     <TableRow
                       key={shipment.id}
                       className="hover-elevate"
@@ -373,12 +388,26 @@ export default function Shipments() {
                               تعديل
                             </Link>
                           </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link href={`/shipments/${shipment.id}/timeline`}>
+                              <History className="w-4 h-4 ml-2" />
+                              سجل التغييرات
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <a
+                              href={`/api/shipments/${shipment.id}/cost-sheet.pdf`}
+                              target="_blank"
+                              rel="noreferrer"
+                              data-testid={`link-cost-sheet-${shipment.id}`}
+                            >
+                              <FileText className="w-4 h-4 ml-2" />
+                              كشف التكلفة (PDF)
+                            </a>
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() =>
-                              statusMutation.mutate({
-                                id: shipment.id,
-                                status: shipment.status === "مؤرشفة" ? "جديدة" : "مؤرشفة",
-                              })
+                              statusMutation.mutate({ shipment })
                             }
                           >
                             {shipment.status === "مؤرشفة" ? (
@@ -402,6 +431,60 @@ export default function Shipments() {
                   ))}
                 </TableBody>
               </Table>
+
+              {/* Pagination Controls */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-center gap-2 pt-4 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                    disabled={currentPage === 1}
+                    data-testid="button-prev-page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                    السابق
+                  </Button>
+                  <div className="flex items-center gap-1">
+                    {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => {
+                      let pageNum: number;
+                      if (totalPages <= 5) {
+                        pageNum = i + 1;
+                      } else if (currentPage <= 3) {
+                        pageNum = i + 1;
+                      } else if (currentPage >= totalPages - 2) {
+                        pageNum = totalPages - 4 + i;
+                      } else {
+                        pageNum = currentPage - 2 + i;
+                      }
+                      return (
+                        <Button
+                          key={pageNum}
+                          variant={currentPage === pageNum ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setCurrentPage(pageNum)}
+                          data-testid={`button-page-${pageNum}`}
+                        >
+                          {pageNum}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                    disabled={currentPage === totalPages}
+                    data-testid="button-next-page"
+                  >
+                    التالي
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm text-muted-foreground mr-4">
+                    صفحة {currentPage} من {totalPages}
+                  </span>
+                </div>
+              )}
             </div>
           ) : (
             <EmptyState />
@@ -431,6 +514,46 @@ export default function Shipments() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Archive Override Dialog */}
+      <AlertDialog
+        open={!!overrideShipment}
+        onOpenChange={(open) => {
+          if (!open) {
+            setOverrideShipment(null);
+            setOverrideReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>أرشفة شحنة عليها رصيد مستحق</AlertDialogTitle>
+            <AlertDialogDescription>
+              الشحنة "{overrideShipment?.shipmentName}" لم يتم سدادها بالكامل. اكتب سبب الأرشفة للمتابعة.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="سبب الأرشفة"
+            data-testid="input-archive-override-reason"
+          />
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel>إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!overrideReason.trim() || statusMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (overrideShipment) {
+                  statusMutation.mutate({ shipment: overrideShipment, overrideReason });
+                }
+              }}
+            >
+              {statusMutation.isPending ? "جاري الأرشفة..." : "أرشفة"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { HandCoins, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaymentAccountSelect } from "@/components/payment-account-select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Shipment, Supplier, SupplierAdvance } from "@shared/schema";
+
+interface AdvanceRow extends SupplierAdvance {
+  supplierName: string;
+  appliedOriginal: number;
+  appliedEgp: number;
+  remainingOriginal: number;
+  remainingEgp: number;
+}
+
+const PAYMENT_METHODS = ["نقدي", "فودافون كاش", "إنستاباي", "تحويل بنكي", "أخرى"];
+const COST_COMPONENTS = ["تكلفة البضاعة", "الشحن", "العمولة", "الجمرك", "التخريج"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function formatCurrency(value: string | number) {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  return new Intl.NumberFormat("ar-EG", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(num || 0);
+}
+
+function formatDate(date: string | Date | null) {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("ar-EG");
+}
+
+const currencyLabel = (currency: string) => (currency === "RMB" ? "¥" : "ج.م");
+
+// Advances move supplier balances and statements both when paid and when applied
+const invalidateAdvances = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-advances"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-balances"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-statement"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/payment-accounts"] });
+};
+
+export default function SupplierAdvancesPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canRecord = user?.role === "مدير" || user?.role === "محاسب";
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [advanceDate, setAdvanceDate] = useState(today);
+  const [paymentCurrency, setPaymentCurrency] = useState("RMB");
+  const [amountOriginal, setAmountOriginal] = useState("");
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("");
+  const [paymentAccountId, setPaymentAccountId] = useState("");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [note, setNote] = useState("");
+
+  const [advanceToApply, setAdvanceToApply] = useState<AdvanceRow | null>(null);
+  const [applicationDate, setApplicationDate] = useState(today);
+  const [costComponent, setCostComponent] = useState("تكلفة البضاعة");
+  const [applications, setApplications] = useState<Array<{ shipmentId: string; amountOriginal: string }>>([]);
+
+  const { data: advances, isLoading } = useQuery<AdvanceRow[]>({
+    queryKey: ["/api/accounting/supplier-advances"],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: shipments } = useQuery<Shipment[]>({
+    queryKey: ["/api/shipments"],
+    enabled: !!advanceToApply,
+  });
+
+  const activeShipments = (shipments ?? []).filter((shipment) => shipment.status !== "مؤرشفة");
+
+  const resetCreateForm = () => {
+    setSupplierId("");
+    setAdvanceDate(today());
+    setPaymentCurrency("RMB");
+    setAmountOriginal("");
+    setExchangeRate("");
+    setPaymentMethod("");
+    setPaymentAccountId("");
+    setReferenceNumber("");
+    setNote("");
+  };
+
+  const openApplyDialog = (advance: AdvanceRow) => {
+    setAdvanceToApply(advance);
+    setApplicationDate(today());
+    setCostComponent("تكلفة البضاعة");
+    setApplications([{ shipmentId: "", amountOriginal: advance.remainingOriginal.toFixed(2) }]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/accounting/supplier-advances", {
+        supplierId,
+        advanceDate,
+        paymentCurrency,
+        amountOriginal,
+        exchangeRateToEgp: paymentCurrency === "RMB" ? exchangeRate : null,
+        paymentMethod,
+        paymentAccountId: paymentAccountId || null,
+        referenceNumber,
+        note,
+      }),
+    onSuccess: () => {
+      toast({ title: "تم تسجيل الدفعة المقدمة" });
+      invalidateAdvances();
+      setIsCreateOpen(false);
+      resetCreateForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/accounting/supplier-advances/${advanceToApply!.id}/apply`, {
+        applicationDate,
+        costComponent,
+        applications,
+      }),
+    onSuccess: () => {
+      toast({ title: "تم تسوية الدفعة المقدمة على الشحنات" });
+      invalidateAdvances();
+      setAdvanceToApply(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const applyingTotal = applications.reduce((sum, application) => sum + (parseFloat(application.amountOriginal) || 0), 0);
+  const canApply =
+    applications.length > 0 &&
+    applications.every((application) => application.shipmentId && parseFloat(application.amountOriginal) > 0) &&
+    !!advanceToApply &&
+    applyingTotal <= advanceToApply.remainingOriginal + 0.0001;
+
+  const updateApplication = (index: number, patch: Partial<{ shipmentId: string; amountOriginal: string }>) =>
+    setApplications((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  return (
+    <div className="p-6 space-y-6" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">الدفعات المقدمة للموردين</h1>
+          <p className="text-muted-foreground mt-1">
+            عربون يُدفع قبل وجود الشحنة، يبقى رصيداً للمورد حتى تتم تسويته على شحنة أو أكثر
+          </p>
+        </div>
+        {canRecord && (
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-add-advance">
+            <Plus className="w-4 h-4 ml-2" />
+            دفعة مقدمة جديدة
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <HandCoins className="w-5 h-5" />
+            الدفعات المقدمة
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">التاريخ</TableHead>
+                  <TableHead className="text-right">المورد</TableHead>
+                  <TableHead className="text-right">المبلغ</TableHead>
+                  <TableHead className="text-right">بالجنيه</TableHead>
+                  <TableHead className="text-right">تمت تسويته</TableHead>
+                  <TableHead className="text-right">المتبقي</TableHead>
+                  <TableHead className="text-right">إجراء</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {advances?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      لا توجد دفعات مقدمة
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  advances?.map((advance) => (
+                    <TableRow key={advance.id} data-testid={`row-advance-${advance.id}`}>
+                      <TableCell>{formatDate(advance.advanceDate)}</TableCell>
+                      <TableCell className="font-medium">{advance.supplierName}</TableCell>
+                      <TableCell>
+                        {formatCurrency(advance.amountOriginal)} {currencyLabel(advance.paymentCurrency)}
+                      </TableCell>
+                      <TableCell>{formatCurrency(advance.amountEgp)} ج.م</TableCell>
+                      <TableCell>{formatCurrency(advance.appliedEgp)} ج.م</TableCell>
+                      <TableCell>
+                        {advance.remainingOriginal > 0 ? (
+                          <Badge variant="outline">
+                            {formatCurrency(advance.remainingOriginal)} {currencyLabel(advance.paymentCurrency)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">تمت التسوية</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canRecord && advance.remainingOriginal > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openApplyDialog(advance)}
+                            data-testid={`button-apply-advance-${advance.id}`}
+                          >
+                            تسوية على شحنة
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={isCreateOpen}
+        onOpenChange={(open) => {
+          setIsCreateOpen(open);
+          if (!open) resetCreateForm();
+        }}
+      >
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>تسجيل دفعة مقدمة</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>المورد *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger data-testid="select-advance-supplier">
+                  <SelectValue placeholder="اختر المورد" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers?.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>التاريخ *</Label>
+                <Input
+                  type="date"
+                  value={advanceDate}
+                  onChange={(e) => setAdvanceDate(e.target.value)}
+                  data-testid="input-advance-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>العملة *</Label>
+                <Select value={paymentCurrency} onValueChange={setPaymentCurrency}>
+                  <SelectTrigger data-testid="select-advance-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="RMB">رممبي صيني (¥)</SelectItem>
+                    <SelectItem value="EGP">جنيه مصري (ج.م)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>المبلغ *</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={amountOriginal}
+                  onChange={(e) => setAmountOriginal(e.target.value)}
+                  data-testid="input-advance-amount"
+                />
+              </div>
+              {paymentCurrency === "RMB" && (
+                <div className="space-y-2">
+                  <Label>سعر الصرف</Label>
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    placeholder="سعر يوم الدفع"
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value)}
+                    data-testid="input-advance-rate"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>الخزنة / الحساب</Label>
+                <PaymentAccountSelect
+                  value={paymentAccountId}
+                  paymentCurrency={paymentCurrency}
+                  onChange={(value, account) => {
+                    setPaymentAccountId(value);
+                    setPaymentMethod(account ? account.paymentMethod : "");
+                  }}
+                  testId="select-advance-account"
+                />
+              </div>
+              {!paymentAccountId && (
+                <div className="space-y-2">
+                  <Label>طريقة الدفع *</Label>
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger data-testid="select-advance-method">
+                      <SelectValue placeholder="اختر طريقة الدفع" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>الرقم المرجعي</Label>
+                <Input
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                  data-testid="input-advance-reference"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>ملاحظات</Label>
+              <Textarea value={note} onChange={(e) => setNote(e.target.value)} data-testid="input-advance-note" />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={!supplierId || !(parseFloat(amountOriginal) > 0) || !paymentMethod || createMutation.isPending}
+              data-testid="button-save-advance"
+            >
+              {createMutation.isPending ? "جاري الحفظ..." : "حفظ الدفعة المقدمة"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!advanceToApply} onOpenChange={(open) => !open && setAdvanceToApply(null)}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>تسوية دفعة مقدمة - {advanceToApply?.supplierName}</DialogTitle>
+            <DialogDescription>
+              المتبقي {advanceToApply && formatCurrency(advanceToApply.remainingOriginal)}{" "}
+              {advanceToApply && currencyLabel(advanceToApply.paymentCurrency)}، وكل تسوية تُسجل كدفعة على الشحنة
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>تاريخ التسوية *</Label>
+                <Input
+                  type="date"
+                  value={applicationDate}
+                  onChange={(e) => setApplicationDate(e.target.value)}
+                  data-testid="input-application-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>تحت حساب أي جزء؟ *</Label>
+                <Select value={costComponent} onValueChange={setCostComponent}>
+                  <SelectTrigger data-testid="select-application-component">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COST_COMPONENTS.map((component) => (
+                      <SelectItem key={component} value={component}>
+                        {component}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {applications.map((application, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>الشحنة</Label>
+                  <Select
+                    value={application.shipmentId}
+                    onValueChange={(value) => updateApplication(index, { shipmentId: value })}
+                  >
+                    <SelectTrigger data-testid={`select-application-shipment-${index}`}>
+                      <SelectValue placeholder="اختر الشحنة" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeShipments.map((shipment) => (
+                        <SelectItem key={shipment.id} value={shipment.id.toString()}>
+                          {shipment.shipmentCode} - {shipment.shipmentName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-32 space-y-2">
+                  <Label>المبلغ</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={application.amountOriginal}
+                    onChange={(e) => updateApplication(index, { amountOriginal: e.target.value })}
+                    data-testid={`input-application-amount-${index}`}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={applications.length === 1}
+                  onClick={() => setApplications((rows) => rows.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-application-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setApplications((rows) => [...rows, { shipmentId: "", amountOriginal: "" }])}
+              data-testid="button-add-application"
+            >
+              <Plus className="w-4 h-4 ml-1" />
+              شحنة أخرى
+            </Button>
+
+            <Button
+              className="w-full"
+              onClick={() => applyMutation.mutate()}
+              disabled={!canApply || applyMutation.isPending}
+              data-testid="button-confirm-apply-advance"
+            >
+              {applyMutation.isPending ? "جاري التسوية..." : "تسوية"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
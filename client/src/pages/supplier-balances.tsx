@@ -32,6 +32,8 @@ interface SupplierBalance {
   supplierName: string;
   totalCostEgp: string;
   totalPaidEgp: string;
+  totalCreditEgp: string;
+  totalAdvanceEgp: string;
   balanceEgp: string;
   balanceStatus: 'owing' | 'settled' | 'credit';
 }
@@ -40,11 +42,13 @@ interface SupplierStatement {
   supplier: Supplier;
   movements: Array<{
     date: Date | string;
-    type: 'shipment' | 'payment';
+    type: 'shipment' | 'payment' | 'credit' | 'advance' | 'advance_applied';
     description: string;
     shipmentCode?: string;
     costEgp?: string;
     paidEgp?: string;
+    creditEgp?: string;
+    appliedEgp?: string;
     runningBalance: string;
   }>;
 }
@@ -241,6 +245,8 @@ export default function SupplierBalancesPage() {
                 <TableHead className="text-right">اسم المورد</TableHead>
                 <TableHead className="text-right">إجمالي تكلفة الشحنات</TableHead>
                 <TableHead className="text-right">إجمالي المدفوع</TableHead>
+                <TableHead className="text-right">إشعارات دائنة</TableHead>
+                <TableHead className="text-right">دفعات مقدمة</TableHead>
                 <TableHead className="text-right">الرصيد الحالي</TableHead>
                 <TableHead className="text-right">إجراءات</TableHead>
               </TableRow>
@@ -248,7 +254,7 @@ export default function SupplierBalancesPage() {
             <TableBody>
               {balances?.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     لا توجد بيانات
                   </TableCell>
                 </TableRow>
@@ -260,6 +266,12 @@ export default function SupplierBalancesPage() {
                     <TableCell className="text-green-600">
                       {formatCurrency(balance.totalPaidEgp)} جنيه
                     </TableCell>
+                    <TableCell className="text-blue-600">
+                      {formatCurrency(balance.totalCreditEgp)} جنيه
+                    </TableCell>
+                    <TableCell className="text-amber-600">
+                      {formatCurrency(balance.totalAdvanceEgp)} جنيه
+                    </TableCell>
                     <TableCell>
                       {getBalanceStatusBadge(balance.balanceStatus, balance.balanceEgp)}
                     </TableCell>
@@ -306,13 +318,14 @@ export default function SupplierBalancesPage() {
                     <TableHead className="text-right">رقم الشحنة</TableHead>
                     <TableHead className="text-right">تكلفة</TableHead>
                     <TableHead className="text-right">مدفوع</TableHead>
+                    <TableHead className="text-right">إشعار دائن</TableHead>
                     <TableHead className="text-right">الرصيد</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {statement?.movements?.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
                         لا توجد حركات
                       </TableCell>
                     </TableRow>
@@ -321,7 +334,7 @@ export default function SupplierBalancesPage() {
                       <TableRow key={idx}>
                         <TableCell>{formatDate(m.date)}</TableCell>
                         <TableCell>
-                          <Badge variant={m.type === 'shipment' ? 'secondary' : 'default'}>
+                          <Badge variant={m.type === 'shipment' ? 'secondary' : m.type === 'credit' ? 'outline' : 'default'}>
                             {m.description}
                           </Badge>
                         </TableCell>
@@ -330,7 +343,17 @@ export default function SupplierBalancesPage() {
                           {m.costEgp ? `${formatCurrency(m.costEgp)} جنيه` : "-"}
                         </TableCell>
                         <TableCell className="text-green-600">
-                          {m.paidEgp ? `${formatCurrency(m.paidEgp)} جنيه` : "-"}
+                          {m.paidEgp ? (
+                            `${formatCurrency(m.paidEgp)} جنيه`
+                          ) : m.appliedEgp ? (
+                            // Already counted when the advance was paid, shown for reference only
+                            <span className="text-muted-foreground">({formatCurrency(m.appliedEgp)} جنيه)</span>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-blue-600">
+                          {m.creditEgp ? `${formatCurrency(m.creditEgp)} جنيه` : "-"}
                         </TableCell>
                         <TableCell className="font-medium">
                           {formatCurrency(m.runningBalance)} جنيه
@@ -0,0 +1,461 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, FileMinus, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Shipment, ShipmentItem, Supplier, SupplierClaim, SupplierCreditNote } from "@shared/schema";
+
+interface CreditNoteRow extends SupplierCreditNote {
+  supplierName: string;
+  shipmentCode: string;
+  productName: string | null;
+}
+
+interface ClaimRow extends SupplierClaim {
+  supplierName: string;
+  shipmentCode: string;
+}
+
+const CREDIT_NOTE_PENDING_STATUS = "بانتظار الاعتماد";
+const CREDIT_NOTE_APPROVED_STATUS = "معتمد";
+
+const statusFilters = [
+  { value: "all", label: "الكل" },
+  { value: "بانتظار الاعتماد", label: "بانتظار الاعتماد" },
+  { value: "معتمد", label: "معتمد" },
+  { value: "مرفوض", label: "مرفوض" },
+];
+
+function formatCurrency(value: string | number) {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  return new Intl.NumberFormat("ar-EG", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(num || 0);
+}
+
+function formatDate(date: string | Date | null) {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("ar-EG");
+}
+
+const statusVariant = (status: string) =>
+  status === CREDIT_NOTE_APPROVED_STATUS ? "default" : status === CREDIT_NOTE_PENDING_STATUS ? "secondary" : "destructive";
+
+// Approved notes move supplier balances, the statement and the movement report
+const invalidateCreditNotes = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-credit-notes"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-claims"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-balances"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/supplier-statement"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/accounting/movement-report"] });
+};
+
+export default function SupplierCreditNotesPage() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [shipmentId, setShipmentId] = useState("");
+  const [shipmentItemId, setShipmentItemId] = useState("none");
+  const [claimId, setClaimId] = useState("none");
+  const [creditDate, setCreditDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [amountRmb, setAmountRmb] = useState("");
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [amountEgp, setAmountEgp] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canCreate = user?.role === "مدير" || user?.role === "محاسب";
+  const canApprove = user?.role === "مدير";
+
+  const { data: notes, isLoading } = useQuery<CreditNoteRow[]>({
+    queryKey: ["/api/accounting/supplier-credit-notes", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.append("status", statusFilter);
+      const response = await fetch(`/api/accounting/supplier-credit-notes?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: shipments } = useQuery<Shipment[]>({
+    queryKey: ["/api/shipments"],
+  });
+
+  const { data: items } = useQuery<ShipmentItem[]>({
+    queryKey: ["/api/shipments", shipmentId, "items"],
+    enabled: !!shipmentId,
+  });
+
+  const { data: claims } = useQuery<ClaimRow[]>({
+    queryKey: ["/api/accounting/supplier-claims", supplierId, shipmentId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ supplierId, shipmentId });
+      const response = await fetch(`/api/accounting/supplier-claims?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch");
+      return response.json();
+    },
+    enabled: !!supplierId && !!shipmentId,
+  });
+
+  const supplierItems = (items ?? []).filter((item) => !item.supplierId || item.supplierId.toString() === supplierId);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) =>
+      apiRequest("POST", "/api/accounting/supplier-credit-notes", data),
+    onSuccess: () => {
+      toast({ title: "تم تسجيل الإشعار وبانتظار الاعتماد" });
+      invalidateCreditNotes();
+      setIsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }) =>
+      apiRequest("POST", `/api/accounting/supplier-credit-notes/${id}/${approve ? "approve" : "reject"}`),
+    onSuccess: (_data, { approve }) => {
+      toast({ title: approve ? "تم اعتماد الإشعار" : "تم رفض الإشعار" });
+      invalidateCreditNotes();
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openDialog = () => {
+    setSupplierId("");
+    setShipmentId("");
+    setShipmentItemId("none");
+    setClaimId("none");
+    setCreditDate(new Date().toISOString().slice(0, 10));
+    setAmountRmb("");
+    setExchangeRate("");
+    setAmountEgp("");
+    setReason("");
+    setIsDialogOpen(true);
+  };
+
+  const submitCreditNote = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!supplierId || !shipmentId) {
+      toast({ title: "اختر المورد والشحنة", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      supplierId: parseInt(supplierId),
+      shipmentId: parseInt(shipmentId),
+      shipmentItemId: shipmentItemId !== "none" ? parseInt(shipmentItemId) : null,
+      claimId: claimId !== "none" ? parseInt(claimId) : null,
+      creditDate,
+      amountRmb,
+      exchangeRate,
+      amountEgp,
+      reason,
+    });
+  };
+
+  const rmbValue = parseFloat(amountRmb) || 0;
+  const rateValue = parseFloat(exchangeRate) || 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">إشعارات الموردين الدائنة</h1>
+          <p className="text-muted-foreground mt-1">تعويضات متفق عليها مع الموردين تُخصم من أرصدتهم بعد الاعتماد</p>
+        </div>
+        {canCreate && (
+          <Button onClick={openDialog} data-testid="button-add-credit-note">
+            <Plus className="w-4 h-4 ml-2" />
+            إشعار جديد
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FileMinus className="w-5 h-5" />
+              الإشعارات
+            </CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48" data-testid="select-credit-note-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusFilters.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : notes && notes.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">التاريخ</TableHead>
+                    <TableHead className="text-right">المورد</TableHead>
+                    <TableHead className="text-right">الشحنة</TableHead>
+                    <TableHead className="text-right">الصنف</TableHead>
+                    <TableHead className="text-right">المبلغ (RMB)</TableHead>
+                    <TableHead className="text-right">المبلغ (ج.م)</TableHead>
+                    <TableHead className="text-right">السبب</TableHead>
+                    <TableHead className="text-right">الحالة</TableHead>
+                    {canApprove && <TableHead className="text-right">إجراءات</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notes.map((note) => (
+                    <TableRow key={note.id} data-testid={`row-credit-note-${note.id}`}>
+                      <TableCell>{formatDate(note.creditDate)}</TableCell>
+                      <TableCell>{note.supplierName}</TableCell>
+                      <TableCell className="font-mono">{note.shipmentCode}</TableCell>
+                      <TableCell>{note.productName || "-"}</TableCell>
+                      <TableCell className="font-mono">
+                        {parseFloat(note.amountRmb) > 0 ? `¥ ${formatCurrency(note.amountRmb)}` : "-"}
+                      </TableCell>
+                      <TableCell className="font-mono">{formatCurrency(note.amountEgp)}</TableCell>
+                      <TableCell>
+                        {note.reason || "-"}
+                        {note.claimId && (
+                          <Badge variant="outline" className="mr-2">
+                            مطالبة #{note.claimId}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(note.status)}>{note.status}</Badge>
+                      </TableCell>
+                      {canApprove && (
+                        <TableCell>
+                          {note.status === CREDIT_NOTE_PENDING_STATUS && (
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={decideMutation.isPending}
+                                onClick={() => decideMutation.mutate({ id: note.id, approve: true })}
+                                data-testid={`button-approve-credit-note-${note.id}`}
+                              >
+                                <Check className="w-4 h-4 ml-1" />
+                                اعتماد
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={decideMutation.isPending}
+                                onClick={() => decideMutation.mutate({ id: note.id, approve: false })}
+                                data-testid={`button-reject-credit-note-${note.id}`}
+                              >
+                                <X className="w-4 h-4 ml-1" />
+                                رفض
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">لا توجد إشعارات</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New credit note */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileMinus className="w-5 h-5" />
+              إشعار دائن جديد
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submitCreditNote} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>المورد *</Label>
+                <Select
+                  value={supplierId}
+                  onValueChange={(value) => {
+                    setSupplierId(value);
+                    setShipmentItemId("none");
+                    setClaimId("none");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-credit-supplier">
+                    <SelectValue placeholder="اختر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>الشحنة *</Label>
+                <Select
+                  value={shipmentId}
+                  onValueChange={(value) => {
+                    setShipmentId(value);
+                    setShipmentItemId("none");
+                    setClaimId("none");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-credit-shipment">
+                    <SelectValue placeholder="اختر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shipments?.map((shipment) => (
+                      <SelectItem key={shipment.id} value={shipment.id.toString()}>
+                        {shipment.shipmentCode} - {shipment.shipmentName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>الصنف</Label>
+                <Select value={shipmentItemId} onValueChange={setShipmentItemId} disabled={!shipmentId}>
+                  <SelectTrigger data-testid="select-credit-item">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">الشحنة كلها</SelectItem>
+                    {supplierItems.map((item) => (
+                      <SelectItem key={item.id} value={item.id.toString()}>
+                        {item.productName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>المطالبة</Label>
+                <Select value={claimId} onValueChange={setClaimId} disabled={!claims?.length}>
+                  <SelectTrigger data-testid="select-credit-claim">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">بدون مطالبة</SelectItem>
+                    {claims?.map((claim) => (
+                      <SelectItem key={claim.id} value={claim.id.toString()}>
+                        #{claim.id} - ¥ {formatCurrency(claim.amountRmb)} ({claim.status})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditDate">تاريخ الإشعار *</Label>
+              <Input
+                id="creditDate"
+                type="date"
+                value={creditDate}
+                onChange={(e) => setCreditDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="amountRmb">المبلغ (RMB)</Label>
+                <Input
+                  id="amountRmb"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amountRmb}
+                  onChange={(e) => setAmountRmb(e.target.value)}
+                  data-testid="input-credit-amount-rmb"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exchangeRate">سعر الصرف</Label>
+                <Input
+                  id="exchangeRate"
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={exchangeRate}
+                  onChange={(e) => setExchangeRate(e.target.value)}
+                  disabled={rmbValue <= 0}
+                  data-testid="input-credit-rate"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amountEgp">المبلغ (ج.م)</Label>
+                <Input
+                  id="amountEgp"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={rmbValue > 0 ? (rmbValue * rateValue).toFixed(2) : amountEgp}
+                  onChange={(e) => setAmountEgp(e.target.value)}
+                  disabled={rmbValue > 0}
+                  data-testid="input-credit-amount-egp"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reason">السبب</Label>
+              <Textarea id="reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={createMutation.isPending}
+                data-testid="button-save-credit-note"
+              >
+                {createMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+              </Button>
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setIsDialogOpen(false)}>
+                إلغاء
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeftRight, Edit, PackageCheck, Plus, Warehouse as WarehouseIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { InsertWarehouse, InventoryTransfer, Warehouse } from "@shared/schema";
+
+interface TransferRow extends InventoryTransfer {
+  productName: string;
+  fromWarehouseName: string;
+  toWarehouseName: string;
+}
+
+interface StockLine {
+  key: string;
+  productId: number | null;
+  shipmentItemId: number | null;
+  productName: string;
+  onHand: number;
+}
+
+const TRANSFER_IN_TRANSIT_STATUS = "في الطريق";
+
+const invalidateInventory = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/inventory/transfers"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/inventory/stats"] });
+};
+
+export default function WarehousesPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [transferStockKey, setTransferStockKey] = useState("");
+  const [transferFrom, setTransferFrom] = useState("");
+  const [transferTo, setTransferTo] = useState("");
+  const [transferQuantity, setTransferQuantity] = useState("");
+  const [transferNote, setTransferNote] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = user?.role === "مدير" || user?.role === "مسؤول مخزون";
+
+  const { data: warehouses, isLoading } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: transfers, isLoading: loadingTransfers } = useQuery<TransferRow[]>({
+    queryKey: ["/api/inventory/transfers"],
+  });
+
+  const { data: stock } = useQuery<StockLine[]>({
+    queryKey: ["/api/inventory/stock"],
+  });
+
+  const activeWarehouses = (warehouses ?? []).filter((warehouse) => warehouse.isActive);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertWarehouse) =>
+      editingWarehouse
+        ? apiRequest("PATCH", `/api/warehouses/${editingWarehouse.id}`, data)
+        : apiRequest("POST", "/api/warehouses", data),
+    onSuccess: () => {
+      toast({ title: editingWarehouse ? "تم تحديث المخزن بنجاح" : "تم إضافة المخزن بنجاح" });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stats"] });
+      setIsDialogOpen(false);
+      setEditingWarehouse(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (data: {
+      productId: number | null;
+      shipmentItemId: number | null;
+      fromWarehouseId: number;
+      toWarehouseId: number;
+      quantity: number;
+      note: string;
+    }) => apiRequest("POST", "/api/inventory/transfers", data),
+    onSuccess: () => {
+      toast({ title: "تم إرسال التحويل" });
+      invalidateInventory();
+      setIsTransferOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("POST", `/api/inventory/transfers/${id}/receive`),
+    onSuccess: () => {
+      toast({ title: "تم استلام التحويل" });
+      invalidateInventory();
+    },
+    onError: (error: Error) => {
+      toast({ title: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    saveMutation.mutate({
+      name: formData.get("name") as string,
+      location: (formData.get("location") as string) || null,
+      isActive: formData.get("isActive") === "on",
+    });
+  };
+
+  const openWarehouseDialog = (warehouse: Warehouse | null) => {
+    setEditingWarehouse(warehouse);
+    setIsDialogOpen(true);
+  };
+
+  const openTransferDialog = () => {
+    setTransferStockKey("");
+    setTransferFrom("");
+    setTransferTo("");
+    setTransferQuantity("");
+    setTransferNote("");
+    setIsTransferOpen(true);
+  };
+
+  const submitTransfer = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const line = stock?.find((entry) => entry.key === transferStockKey);
+    const quantity = parseInt(transferQuantity);
+    if (!line || !transferFrom || !transferTo) {
+      toast({ title: "اختر الصنف والمخزنين", variant: "destructive" });
+      return;
+    }
+    if (transferFrom === transferTo) {
+      toast({ title: "لا يمكن التحويل إلى نفس المخزن", variant: "destructive" });
+      return;
+    }
+    if (!quantity || quantity <= 0) {
+      toast({ title: "الكمية يجب أن تكون أكبر من صفر", variant: "destructive" });
+      return;
+    }
+    transferMutation.mutate({
+      productId: line.productId,
+      shipmentItemId: line.shipmentItemId,
+      fromWarehouseId: parseInt(transferFrom),
+      toWarehouseId: parseInt(transferTo),
+      quantity,
+      note: transferNote.trim(),
+    });
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return "-";
+    return new Date(date).toLocaleDateString("ar-EG");
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">المخازن</h1>
+          <p className="text-muted-foreground mt-1">مواقع التخزين والتحويلات بين المخازن</p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={openTransferDialog}
+              disabled={activeWarehouses.length < 2}
+              data-testid="button-new-transfer"
+            >
+              <ArrowLeftRight className="w-4 h-4 ml-2" />
+              تحويل بين المخازن
+            </Button>
+            <Button onClick={() => openWarehouseDialog(null)} data-testid="button-add-warehouse">
+              <Plus className="w-4 h-4 ml-2" />
+              إضافة مخزن
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Warehouses */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-32" />)
+        ) : warehouses && warehouses.length > 0 ? (
+          warehouses.map((warehouse) => (
+            <Card key={warehouse.id} data-testid={`warehouse-card-${warehouse.id}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg">{warehouse.name}</CardTitle>
+                  <Badge variant={warehouse.isActive ? "default" : "secondary"} className="whitespace-nowrap">
+                    {warehouse.isActive ? "نشط" : "غير نشط"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {warehouse.location && <p className="text-sm text-muted-foreground">{warehouse.location}</p>}
+                {canManage && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => openWarehouseDialog(warehouse)}
+                    data-testid={`button-edit-warehouse-${warehouse.id}`}
+                  >
+                    <Edit className="w-3 h-3 ml-1" />
+                    تعديل
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <Card className="col-span-full">
+            <CardContent className="p-8 text-center">
+              <WarehouseIcon className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">لا توجد مخازن</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Transfers */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            التحويلات بين المخازن
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingTransfers ? (
+            <Skeleton className="h-24 w-full" />
+          ) : transfers && transfers.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">تاريخ الإرسال</TableHead>
+                    <TableHead className="text-right">الصنف</TableHead>
+                    <TableHead className="text-right">من</TableHead>
+                    <TableHead className="text-right">إلى</TableHead>
+                    <TableHead className="text-right">الكمية</TableHead>
+                    <TableHead className="text-right">الحالة</TableHead>
+                    <TableHead className="text-right">تاريخ الاستلام</TableHead>
+                    {canManage && <TableHead className="text-right">إجراءات</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map((transfer) => {
+                    const inTransit = transfer.status === TRANSFER_IN_TRANSIT_STATUS;
+                    return (
+                      <TableRow key={transfer.id} data-testid={`row-transfer-${transfer.id}`}>
+                        <TableCell>{formatDate(transfer.sentAt)}</TableCell>
+                        <TableCell className="font-medium">{transfer.productName}</TableCell>
+                        <TableCell>{transfer.fromWarehouseName}</TableCell>
+                        <TableCell>{transfer.toWarehouseName}</TableCell>
+                        <TableCell className="font-mono">
+                          {new Intl.NumberFormat("ar-EG").format(transfer.quantity)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={inTransit ? "outline" : "secondary"}>{transfer.status}</Badge>
+                        </TableCell>
+                        <TableCell>{formatDate(transfer.receivedAt)}</TableCell>
+                        {canManage && (
+                          <TableCell>
+                            {inTransit && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => receiveMutation.mutate(transfer.id)}
+                                disabled={receiveMutation.isPending}
+                                data-testid={`button-receive-transfer-${transfer.id}`}
+                              >
+                                <PackageCheck className="w-3 h-3 ml-1" />
+                                استلام
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">لا توجد تحويلات بعد</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / edit warehouse */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingWarehouse ? "تعديل المخزن" : "إضافة مخزن جديد"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">اسم المخزن *</Label>
+              <Input
+                id="name"
+                name="name"
+                defaultValue={editingWarehouse?.name || ""}
+                required
+                data-testid="input-warehouse-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location">العنوان</Label>
+              <Textarea
+                id="location"
+                name="location"
+                defaultValue={editingWarehouse?.location || ""}
+                rows={2}
+                data-testid="input-warehouse-location"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="isActive" name="isActive" defaultChecked={editingWarehouse?.isActive ?? true} />
+              <Label htmlFor="isActive">نشط</Label>
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={saveMutation.isPending}
+                data-testid="button-save-warehouse"
+              >
+                {saveMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+              </Button>
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setIsDialogOpen(false)}>
+                إلغاء
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* New transfer */}
+      <Dialog open={isTransferOpen} onOpenChange={setIsTransferOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="w-5 h-5" />
+              تحويل بين المخازن
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submitTransfer} className="space-y-4">
+            <div className="space-y-2">
+              <Label>الصنف *</Label>
+              <Select value={transferStockKey} onValueChange={setTransferStockKey}>
+                <SelectTrigger data-testid="select-transfer-product">
+                  <SelectValue placeholder="اختر الصنف" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(stock ?? [])
+                    .filter((line) => line.onHand > 0)
+                    .map((line) => (
+                      <SelectItem key={line.key} value={line.key}>
+                        {line.productName} ({new Intl.NumberFormat("ar-EG").format(line.onHand)})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>من مخزن *</Label>
+                <Select value={transferFrom} onValueChange={setTransferFrom}>
+                  <SelectTrigger data-testid="select-transfer-from">
+                    <SelectValue placeholder="اختر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(warehouses ?? []).map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>إلى مخزن *</Label>
+                <Select value={transferTo} onValueChange={setTransferTo}>
+                  <SelectTrigger data-testid="select-transfer-to">
+                    <SelectValue placeholder="اختر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferQuantity">الكمية *</Label>
+              <Input
+                id="transferQuantity"
+                type="number"
+                min={1}
+                value={transferQuantity}
+                onChange={(e) => setTransferQuantity(e.target.value)}
+                data-testid="input-transfer-quantity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferNote">ملاحظات</Label>
+              <Textarea
+                id="transferNote"
+                value={transferNote}
+                onChange={(e) => setTransferNote(e.target.value)}
+                data-testid="input-transfer-note"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setIsTransferOpen(false)}>
+                إلغاء
+              </Button>
+              <Button type="submit" disabled={transferMutation.isPending} data-testid="button-confirm-transfer">
+                {transferMutation.isPending ? "جاري الحفظ..." : "إرسال التحويل"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
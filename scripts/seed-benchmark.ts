@@ -0,0 +1,237 @@
+/**
+ * Benchmark Seed Script
+ * Loads 10k shipments with items, payments and receipts, then times the list
+ * and accounting queries that used to issue one query per row.
+ * Every endpoint is expected to answer in under a second.
+ *
+ * Usage: npx tsx scripts/seed-benchmark.ts [--keep]
+ */
+
+import { db, pool } from "../server/db";
+import { storage } from "../server/storage";
+import { suppliers, shipments, shipmentItems, shipmentPayments, inventoryMovements } from "../shared/schema";
+import { inArray, like } from "drizzle-orm";
+import { DEFAULT_PAGE_SIZE } from "../server/services/listQuery";
+
+const SHIPMENT_COUNT = 10_000;
+const SUPPLIER_COUNT = 50;
+const ITEMS_PER_SHIPMENT = 3;
+const PAYMENTS_PER_SHIPMENT = 2;
+const BATCH_SIZE = 500;
+const BUDGET_MS = 1000;
+const CODE_PREFIX = "BENCH-";
+
+const COST_COMPONENTS = ["تكلفة البضاعة", "الشحن", "العمولة", "الجمرك", "التخريج"];
+const PAYMENT_METHODS = ["نقدي", "فودافون كاش", "إنستاباي", "تحويل بنكي"];
+const STATUSES = ["جديدة", "في انتظار الشحن", "جاهزة للاستلام", "مستلمة بنجاح"];
+
+// Same deterministic generator as seed-test-data.ts so runs are comparable
+class SeededRandom {
+  private seed: number;
+  constructor(seed: number) { this.seed = seed; }
+  next(): number {
+    this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
+    return this.seed / 0x7fffffff;
+  }
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+  pick<T>(arr: T[]): T {
+    return arr[this.int(0, arr.length - 1)];
+  }
+}
+
+const rng = new SeededRandom(20240);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+async function clearBenchmarkData() {
+  console.log("Clearing previous benchmark data...");
+  const benchShipments = await db
+    .select({ id: shipments.id })
+    .from(shipments)
+    .where(like(shipments.shipmentCode, `${CODE_PREFIX}%`));
+  const ids = benchShipments.map((s) => s.id);
+
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const batch = ids.slice(i, i + BATCH_SIZE);
+    await db.delete(inventoryMovements).where(inArray(inventoryMovements.shipmentId, batch));
+    await db.delete(shipmentPayments).where(inArray(shipmentPayments.shipmentId, batch));
+    await db.delete(shipmentItems).where(inArray(shipmentItems.shipmentId, batch));
+    await db.delete(shipments).where(inArray(shipments.id, batch));
+  }
+  await db.delete(suppliers).where(like(suppliers.name, `${CODE_PREFIX}%`));
+  console.log(`Removed ${ids.length} benchmark shipments.`);
+}
+
+async function seedSuppliers(): Promise<number[]> {
+  const created = await db
+    .insert(suppliers)
+    .values(
+      Array.from({ length: SUPPLIER_COUNT }, (_, i) => ({
+        name: `${CODE_PREFIX}مورد ${i + 1}`,
+        country: "الصين",
+        isActive: true,
+      })),
+    )
+    .returning({ id: suppliers.id });
+  return created.map((s) => s.id);
+}
+
+async function seedShipmentBatch(start: number, count: number, supplierIds: number[]) {
+  const rows = Array.from({ length: count }, (_, offset) => {
+    const n = start + offset;
+    const rate = 6.8 + rng.next() * 0.4;
+    const purchaseRmb = rng.int(500, 50000);
+    const purchaseEgp = purchaseRmb * rate;
+    const commissionEgp = purchaseEgp * 0.03;
+    const shippingEgp = rng.int(100, 5000) * rate;
+    const customsEgp = rng.int(200, 3000);
+    const takhreegEgp = rng.int(100, 1500);
+    const total = purchaseEgp + commissionEgp + shippingEgp + customsEgp + takhreegEgp;
+    const paid = total * rng.next();
+    return {
+      shipmentCode: `${CODE_PREFIX}${String(n + 1).padStart(5, "0")}`,
+      shipmentName: `شحنة اختبار الأداء ${n + 1}`,
+      purchaseDate: daysAgo(rng.int(1, 720)).toISOString().split("T")[0],
+      status: rng.pick(STATUSES),
+      purchaseCostRmb: purchaseRmb.toFixed(2),
+      purchaseCostEgp: purchaseEgp.toFixed(2),
+      purchaseRmbToEgpRate: rate.toFixed(4),
+      commissionCostRmb: (purchaseRmb * 0.03).toFixed(2),
+      commissionCostEgp: commissionEgp.toFixed(2),
+      shippingCostEgp: shippingEgp.toFixed(2),
+      customsCostEgp: customsEgp.toFixed(2),
+      takhreegCostEgp: takhreegEgp.toFixed(2),
+      finalTotalCostEgp: total.toFixed(2),
+      totalPaidEgp: paid.toFixed(2),
+      balanceEgp: (total - paid).toFixed(2),
+    };
+  });
+
+  const created = await db.insert(shipments).values(rows).returning();
+
+  const items = await db
+    .insert(shipmentItems)
+    .values(
+      created.flatMap((shipment) =>
+        Array.from({ length: ITEMS_PER_SHIPMENT }, (_, i) => {
+          const cartons = rng.int(5, 50);
+          const piecesPerCarton = rng.int(6, 24);
+          const price = rng.int(5, 80);
+          return {
+            shipmentId: shipment.id,
+            supplierId: rng.pick(supplierIds),
+            productName: `صنف ${i + 1} - ${shipment.shipmentCode}`,
+            cartonsCtn: cartons,
+            piecesPerCartonPcs: piecesPerCarton,
+            totalPiecesCou: cartons * piecesPerCarton,
+            purchasePricePerPiecePriRmb: price.toFixed(4),
+            totalPurchaseCostRmb: (cartons * piecesPerCarton * price).toFixed(2),
+          };
+        }),
+      ),
+    )
+    .returning();
+
+  await db.insert(shipmentPayments).values(
+    created.flatMap((shipment) =>
+      Array.from({ length: PAYMENTS_PER_SHIPMENT }, () => {
+        const amount = (parseFloat(shipment.totalPaidEgp || "0") / PAYMENTS_PER_SHIPMENT).toFixed(2);
+        return {
+          shipmentId: shipment.id,
+          paymentDate: daysAgo(rng.int(0, 700)),
+          paymentCurrency: "EGP",
+          amountOriginal: amount,
+          amountEgp: amount,
+          costComponent: rng.pick(COST_COMPONENTS),
+          paymentMethod: rng.pick(PAYMENT_METHODS),
+        };
+      }),
+    ),
+  );
+
+  const shipmentById = new Map(created.map((shipment) => [shipment.id, shipment]));
+  await db.insert(inventoryMovements).values(
+    items.map((item) => {
+      const unitCost = parseFloat(item.purchasePricePerPiecePriRmb || "0") * 7;
+      return {
+        shipmentId: item.shipmentId,
+        shipmentItemId: item.id,
+        totalPiecesIn: item.totalPiecesCou,
+        unitCostRmb: item.purchasePricePerPiecePriRmb,
+        unitCostEgp: unitCost.toFixed(4),
+        totalCostEgp: (unitCost * item.totalPiecesCou).toFixed(2),
+        movementDate: shipmentById.get(item.shipmentId)!.purchaseDate,
+      };
+    }),
+  );
+}
+
+async function seedShipments(supplierIds: number[]) {
+  console.log(`Seeding ${SHIPMENT_COUNT} shipments...`);
+  for (let start = 0; start < SHIPMENT_COUNT; start += BATCH_SIZE) {
+    await seedShipmentBatch(start, Math.min(BATCH_SIZE, SHIPMENT_COUNT - start), supplierIds);
+    console.log(`  ${Math.min(start + BATCH_SIZE, SHIPMENT_COUNT)}/${SHIPMENT_COUNT}`);
+  }
+}
+
+async function timed(label: string, run: () => Promise<unknown>) {
+  // Warm the connection pool and query plans before measuring
+  await run();
+  const startedAt = performance.now();
+  await run();
+  const elapsed = performance.now() - startedAt;
+  const ok = elapsed < BUDGET_MS;
+  console.log(`  ${ok ? "PASS" : "FAIL"}  ${elapsed.toFixed(0).padStart(6)} ms  ${label}`);
+  return ok;
+}
+
+async function runBenchmarks() {
+  console.log(`\nTiming queries (budget ${BUDGET_MS} ms each):`);
+  const page = { page: 1, pageSize: DEFAULT_PAGE_SIZE, offset: 0 };
+
+  const results = [
+    await timed("GET /api/shipments?page=1", () =>
+      storage.listShipments({ view: "active" }, { ...page, sortBy: "createdAt", sortDir: "desc" }),
+    ),
+    await timed("GET /api/shipments?page=1&search=BENCH-09", () =>
+      storage.listShipments({ view: "all", search: `${CODE_PREFIX}09` }, { ...page, sortBy: "createdAt", sortDir: "desc" }),
+    ),
+    await timed("GET /api/payments?page=1", () =>
+      storage.listPayments({}, { ...page, sortBy: "paymentDate", sortDir: "desc" }),
+    ),
+    await timed("GET /api/inventory?page=1", () =>
+      storage.listInventoryMovements({}, { ...page, sortBy: "movementDate", sortDir: "desc" }),
+    ),
+    await timed("GET /api/accounting/dashboard", () => storage.getAccountingDashboard()),
+    await timed("GET /api/accounting/supplier-balances", () => storage.getSupplierBalances()),
+    await timed("GET /api/accounting/movement-report", () => storage.getMovementReport()),
+  ];
+
+  return results.every(Boolean);
+}
+
+async function main() {
+  const keep = process.argv.includes("--keep");
+  let passed = false;
+  try {
+    await clearBenchmarkData();
+    const supplierIds = await seedSuppliers();
+    await seedShipments(supplierIds);
+    passed = await runBenchmarks();
+    if (!keep) await clearBenchmarkData();
+  } catch (error) {
+    console.error("Benchmark failed:", error);
+  } finally {
+    await pool.end();
+  }
+  console.log(passed ? "\nAll queries within budget." : "\nSome queries exceeded the budget.");
+  process.exit(passed ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import { assertPeriodsOpen, parsePeriodMonth, periodMonthOf } from "../services/accountingPeriods";
+
+describe("periodMonthOf", () => {
+  it("reads the month from date strings and Date objects", () => {
+    assert.equal(periodMonthOf("2025-11-30"), "2025-11");
+    assert.equal(periodMonthOf(new Date("2025-12-01T09:30:00Z")), "2025-12");
+    assert.equal(periodMonthOf(undefined), null);
+    assert.equal(periodMonthOf("not a date"), null);
+  });
+
+  it("only accepts YYYY-MM as a period", () => {
+    assert.equal(parsePeriodMonth("2025-12"), "2025-12");
+    assert.throws(() => parsePeriodMonth("2025-13"), (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.code, "PERIOD_INVALID");
+      return true;
+    });
+  });
+});
+
+describe("assertPeriodsOpen", () => {
+  it("refuses any date inside a closed month and names it", () => {
+    assert.doesNotThrow(() => assertPeriodsOpen(["2025-12-05", null], ["2025-11"]));
+
+    assert.throws(
+      () => assertPeriodsOpen(["2025-12-05", "2025-11-28"], ["2025-11"]),
+      (error: unknown) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.code, "PERIOD_LOCKED");
+        assert.equal(error.status, 409);
+        assert.deepEqual(error.details, { period: "2025-11", date: "2025-11-28" });
+        return true;
+      },
+    );
+  });
+});
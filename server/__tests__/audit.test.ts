@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { logAuditEvent, type AuditEvent } from "../audit";
+import { diffRecords, logAuditEvent, parseAuditLogPeriod, type AuditEvent } from "../audit";
+import { ApiError } from "../errors";
 
 type CapturedAudit = AuditEvent & { id?: number };
 
@@ -52,3 +53,48 @@ test("logAuditEvent swallows storage errors", async () => {
     );
   });
 });
+
+test("diffRecords reports only changed columns with before/after values", () => {
+  const before = {
+    id: 7,
+    status: "جديدة",
+    purchaseRmbToEgpRate: "7.1500",
+    lastPaymentDate: null,
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+  };
+  const after = {
+    id: 7,
+    status: "جديدة",
+    purchaseRmbToEgpRate: "7.2000",
+    lastPaymentDate: new Date("2024-02-01T10:00:00Z"),
+    updatedAt: new Date("2024-02-01T10:00:00Z"),
+  };
+
+  assert.deepEqual(diffRecords(before, after), {
+    purchaseRmbToEgpRate: { from: "7.1500", to: "7.2000" },
+    lastPaymentDate: { from: null, to: "2024-02-01T10:00:00.000Z" },
+  });
+});
+
+test("diffRecords honours excluded fields and missing before records", () => {
+  const changes = diffRecords(undefined, { role: "محاسب", password: "hash" }, { exclude: ["password"] });
+
+  assert.deepEqual(changes, { role: { from: null, to: "محاسب" } });
+});
+
+test("parseAuditLogPeriod accepts open or inclusive ranges and refuses bad dates", () => {
+  assert.deepEqual(parseAuditLogPeriod({}), { dateFrom: undefined, dateTo: undefined });
+  assert.deepEqual(parseAuditLogPeriod({ dateFrom: "2025-06-01", dateTo: "2025-06-01" }), {
+    dateFrom: "2025-06-01",
+    dateTo: "2025-06-01",
+  });
+
+  const refuses = (query: Record<string, unknown>, field: string) =>
+    assert.throws(
+      () => parseAuditLogPeriod(query),
+      (error: unknown) => error instanceof ApiError && error.status === 400 && error.details?.field === field,
+    );
+  refuses({ dateFrom: "01/06/2025" }, "dateFrom");
+  refuses({ dateTo: ["2025-06-01", "2025-06-02"] }, "dateTo");
+  refuses({ dateFrom: "2025-06-10", dateTo: "2025-06-01" }, "dateTo");
+});
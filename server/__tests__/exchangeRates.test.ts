@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { ExchangeRate } from "@shared/schema";
+import { ApiError } from "../errors";
+import { rateLookupWindow, resolveRateValue, toRateDate } from "../services/exchangeRates";
+
+// Minimal stand-in for a drizzle query chain that resolves to `rows`
+const executorReturning = (rows: Partial<ExchangeRate>[]) => {
+  const chain: any = {
+    select: () => chain,
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: async () => rows,
+  };
+  return chain;
+};
+
+describe("rateLookupWindow", () => {
+  it("looks back the tolerance window from the given day", () => {
+    assert.deepEqual(rateLookupWindow("2024-03-02", 7), { from: "2024-02-24", to: "2024-03-02" });
+    assert.deepEqual(rateLookupWindow(new Date("2024-01-10T15:30:00Z"), 0), {
+      from: "2024-01-10",
+      to: "2024-01-10",
+    });
+  });
+
+  it("rejects invalid dates", () => {
+    assert.throws(() => toRateDate("not-a-date"), (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.code, "EXCHANGE_RATE_DATE_INVALID");
+      return true;
+    });
+  });
+});
+
+describe("resolveRateValue", () => {
+  it("returns the stored rate for the date", async () => {
+    const value = await resolveRateValue(executorReturning([{ rateValue: "6.850000" }]), "RMB", "EGP", "2024-03-02");
+    assert.equal(value, 6.85);
+  });
+
+  it("raises an explicit error instead of a default rate", async () => {
+    await assert.rejects(resolveRateValue(executorReturning([]), "RMB", "EGP", "2024-03-02"), (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.code, "EXCHANGE_RATE_NOT_FOUND");
+      assert.equal(error.details?.date, "2024-03-02");
+      return true;
+    });
+  });
+
+  it("does not need a rate to convert a currency to itself", async () => {
+    assert.equal(await resolveRateValue(executorReturning([]), "EGP", "EGP", "2024-03-02"), 1);
+  });
+});
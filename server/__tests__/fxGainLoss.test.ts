@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Shipment, ShipmentPayment } from "@shared/schema";
+import { buildFxGainLossReport, calculateShipmentFx } from "../services/fxGainLoss";
+
+const shipment = (overrides: Partial<Shipment> = {}) =>
+  ({
+    id: 1,
+    shipmentCode: "SH-1",
+    shipmentName: "شحنة",
+    purchaseCostRmb: "1000",
+    purchaseRmbToEgpRate: "7",
+    shippingCostRmb: "200",
+    commissionCostRmb: "0",
+    ...overrides,
+  }) as Shipment;
+
+let nextPaymentId = 1;
+const payment = (overrides: Partial<ShipmentPayment>) =>
+  ({
+    id: nextPaymentId++,
+    shipmentId: 1,
+    paymentDate: new Date("2024-03-10T00:00:00Z"),
+    paymentCurrency: "RMB",
+    costComponent: "تكلفة البضاعة",
+    amountOriginal: "0",
+    exchangeRateToEgp: "0",
+    amountEgp: "0",
+    ...overrides,
+  }) as ShipmentPayment;
+
+describe("calculateShipmentFx", () => {
+  it("compares each RMB payment with the rate its component was booked at", () => {
+    const result = calculateShipmentFx(
+      {
+        shipment: shipment(),
+        shippingDetails: { rmbToEgpRateAtShipping: "7.2" },
+        payments: [
+          payment({ amountOriginal: "400", exchangeRateToEgp: "7.5", amountEgp: "3000" }),
+          payment({ costComponent: "الشحن", amountOriginal: "200", exchangeRateToEgp: "7", amountEgp: "1400" }),
+        ],
+      },
+      { currentRate: null },
+    );
+
+    // Goods paid above the booked 7 → loss; shipping paid below the booked 7.2 → gain
+    assert.deepEqual(
+      result.realized.map((entry) => [entry.costComponent, entry.gainLossEgp]),
+      [
+        ["تكلفة البضاعة", -200],
+        ["الشحن", 40],
+      ],
+    );
+    assert.equal(result.realizedEgp, -160);
+  });
+
+  it("nets a voided payment against its reversal", () => {
+    const result = calculateShipmentFx(
+      {
+        shipment: shipment(),
+        payments: [
+          payment({ amountOriginal: "400", exchangeRateToEgp: "7.5", amountEgp: "3000" }),
+          payment({ amountOriginal: "-400", exchangeRateToEgp: "7.5", amountEgp: "-3000" }),
+        ],
+      },
+      { currentRate: 8 },
+    );
+
+    assert.equal(result.realizedEgp, 0);
+    assert.equal(result.unrealized[0].openRmb, 1000);
+  });
+
+  it("revalues open RMB balances at the current rate, counting EGP payments at the booked rate", () => {
+    const result = calculateShipmentFx(
+      {
+        shipment: shipment({ shippingCostRmb: "0" }),
+        payments: [
+          payment({ paymentCurrency: "EGP", amountOriginal: "700", exchangeRateToEgp: "1", amountEgp: "700" }),
+          payment({ amountOriginal: "500", exchangeRateToEgp: "7", amountEgp: "3500" }),
+        ],
+      },
+      { currentRate: 7.5 },
+    );
+
+    assert.deepEqual(
+      result.unrealized.map((entry) => [entry.costComponent, entry.openRmb, entry.gainLossEgp]),
+      [["تكلفة البضاعة", 400, -200]],
+    );
+    assert.equal(result.realizedEgp, 0);
+  });
+
+  it("leaves unrealized gain/loss unknown without a current rate", () => {
+    const result = calculateShipmentFx({ shipment: shipment(), payments: [] }, { currentRate: null });
+    assert.equal(result.unrealizedEgp, null);
+    assert.equal(result.openRmb, 1200);
+  });
+});
+
+describe("buildFxGainLossReport", () => {
+  it("limits realized entries to the period and groups them by month", () => {
+    const report = buildFxGainLossReport(
+      [
+        {
+          shipment: shipment({ shippingCostRmb: "0" }),
+          payments: [
+            payment({ amountOriginal: "100", exchangeRateToEgp: "6.5", paymentDate: new Date("2024-02-20T00:00:00Z") }),
+            payment({ amountOriginal: "100", exchangeRateToEgp: "7.5", paymentDate: new Date("2024-03-05T00:00:00Z") }),
+            payment({ amountOriginal: "100", exchangeRateToEgp: "6", paymentDate: new Date("2024-04-01T00:00:00Z") }),
+          ],
+        },
+        { shipment: shipment({ id: 2, purchaseCostRmb: "0", shippingCostRmb: "0" }), payments: [] },
+      ],
+      { currentRate: 7, period: { dateFrom: "2024-02-01", dateTo: "2024-03-31" } },
+    );
+
+    assert.deepEqual(report.byMonth, [
+      { month: "2024-02", realizedEgp: 50 },
+      { month: "2024-03", realizedEgp: -50 },
+    ]);
+    assert.equal(report.totals.realizedEgp, 0);
+    assert.equal(report.totals.unrealizedEgp, 0);
+    assert.equal(report.totals.openRmb, 700);
+    // Shipments with nothing billed in RMB are left out
+    assert.deepEqual(report.shipments.map((row) => row.shipmentId), [1]);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { InventoryCostLayer } from "@shared/schema";
+import { ApiError } from "../errors";
+import {
+  consumeCostLayers,
+  reconcileLayerQuantities,
+  valueCostLayers,
+} from "../services/inventoryCosting";
+
+const layer = (id: number, layerDate: string, remainingQuantity: number, unitCostEgp: string) =>
+  ({ id, layerDate, remainingQuantity, originalQuantity: remainingQuantity, unitCostEgp }) as InventoryCostLayer;
+
+// Two receipts of the same product from different shipments
+const layers = [layer(2, "2024-02-01", 100, "14.0000"), layer(1, "2024-01-01", 100, "10.0000")];
+
+describe("consumeCostLayers", () => {
+  it("charges FIFO issues at the cost of the oldest layers", () => {
+    const result = consumeCostLayers(layers, 150, "fifo");
+
+    assert.deepEqual(
+      result.consumptions.map((entry) => [entry.layerId, entry.quantity, entry.totalCostEgp]),
+      [
+        [1, 100, 1000],
+        [2, 50, 700],
+      ],
+    );
+    assert.equal(result.totalCostEgp, 1700);
+    assert.equal(result.unitCostEgp, 11.3333);
+  });
+
+  it("charges weighted-average issues at the moving average of the ledger", () => {
+    const first = consumeCostLayers(layers, 100, "weighted_average", { quantity: 200, valueEgp: 2400 });
+    assert.equal(first.totalCostEgp, 1200);
+    assert.deepEqual(first.consumptions.map((entry) => entry.layerId), [1]);
+
+    // The oldest layer is gone, but the remaining pieces keep the 12.00 average
+    const second = consumeCostLayers([layer(2, "2024-02-01", 100, "14.0000")], 100, "weighted_average", {
+      quantity: 100,
+      valueEgp: 1200,
+    });
+    assert.equal(second.totalCostEgp, 1200);
+  });
+
+  it("takes the whole remaining value when the last pieces are issued", () => {
+    const result = consumeCostLayers([layer(1, "2024-01-01", 3, "3.3333")], 3, "weighted_average", {
+      quantity: 3,
+      valueEgp: 10,
+    });
+    assert.equal(result.totalCostEgp, 10);
+  });
+
+  it("refuses to issue more than the layers hold", () => {
+    assert.throws(
+      () => consumeCostLayers(layers, 201, "fifo"),
+      (error: unknown) => error instanceof ApiError && error.code === "INVENTORY_INSUFFICIENT_STOCK",
+    );
+  });
+});
+
+describe("valueCostLayers", () => {
+  it("values each open layer under the selected method", () => {
+    const fifo = valueCostLayers(layers, "fifo");
+    assert.deepEqual(fifo.layers.map((entry) => [entry.id, entry.valueEgp]), [
+      [1, 1000],
+      [2, 1400],
+    ]);
+
+    const average = valueCostLayers(layers, "weighted_average", { quantity: 200, valueEgp: 2300 });
+    assert.deepEqual(average.layers.map((entry) => [entry.id, entry.effectiveUnitCostEgp, entry.valueEgp]), [
+      [1, 11.5, 1150],
+      [2, 11.5, 1150],
+    ]);
+    assert.equal(average.valueEgp, 2300);
+  });
+});
+
+describe("reconcileLayerQuantities", () => {
+  it("drains the oldest layers down to the quantity on hand", () => {
+    assert.deepEqual(
+      reconcileLayerQuantities(layers, 80).map((entry) => [entry.id, entry.remainingQuantity]),
+      [
+        [1, 0],
+        [2, 80],
+      ],
+    );
+    assert.deepEqual(reconcileLayerQuantities(layers, 200), []);
+  });
+});
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { InventoryMovement } from "@shared/schema";
+import { ApiError } from "../errors";
+import {
+  calculateStockOnHand,
+  calculateWarehouseStock,
+  parseOutboundMovement,
+  parseTransfer,
+} from "../services/inventoryStock";
+
+const movement = (overrides: Partial<InventoryMovement>) =>
+  ({
+    productId: 1,
+    shipmentItemId: 10,
+    movementType: "استلام",
+    totalPiecesIn: 0,
+    totalPiecesOut: 0,
+    totalCostEgp: "0",
+    movementDate: "2024-03-01",
+    warehouseId: null,
+    ...overrides,
+  }) as InventoryMovement;
+
+const rejectsWith = (fn: () => unknown, code: string, status: number) =>
+  assert.throws(fn, (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.code, code);
+    assert.equal(error.status, status);
+    return true;
+  });
+
+describe("calculateStockOnHand", () => {
+  it("nets outbound movements against receipts per product", () => {
+    const [line] = calculateStockOnHand([
+      movement({ totalPiecesIn: 100, totalCostEgp: "1000" }),
+      movement({ shipmentItemId: 11, totalPiecesIn: 100, totalCostEgp: "1400", movementDate: "2024-03-05" }),
+      movement({ movementType: "بيع", shipmentItemId: null, totalPiecesOut: 50, totalCostEgp: "600", movementDate: "2024-03-09" }),
+    ]);
+
+    assert.equal(line.key, "product:1");
+    assert.equal(line.piecesIn, 200);
+    assert.equal(line.piecesOut, 50);
+    assert.equal(line.onHand, 150);
+    assert.equal(line.valueEgp, 1800);
+    assert.equal(line.avgUnitCostEgp, 12);
+    assert.equal(line.lastMovementDate, "2024-03-09");
+  });
+
+  it("tracks items received without a product on their own", () => {
+    const lines = calculateStockOnHand([
+      movement({ productId: null, shipmentItemId: 10, totalPiecesIn: 5, totalCostEgp: "50" }),
+      movement({ productId: null, shipmentItemId: 11, totalPiecesIn: 3, totalCostEgp: "30" }),
+    ]);
+    assert.deepEqual(lines.map((line) => [line.key, line.onHand]), [
+      ["item:10", 5],
+      ["item:11", 3],
+    ]);
+  });
+});
+
+describe("calculateWarehouseStock", () => {
+  // 100 pieces received in warehouse 1, 40 sent to warehouse 2 and still in transit
+  const ledger = [
+    movement({ warehouseId: 1, totalPiecesIn: 100, totalCostEgp: "1000" }),
+    movement({ warehouseId: 1, movementType: "تحويل صادر", totalPiecesOut: 40, totalCostEgp: "400" }),
+  ];
+
+  it("takes sent transfers out of the source before they are received", () => {
+    assert.deepEqual(
+      calculateWarehouseStock(ledger).map((line) => [line.warehouseId, line.onHand, line.valueEgp]),
+      [[1, 60, 600]],
+    );
+    // The company still owns the pieces in transit
+    assert.equal(calculateStockOnHand(ledger)[0].onHand, 100);
+  });
+
+  it("adds received transfers to the destination", () => {
+    const received = [
+      ...ledger,
+      movement({ warehouseId: 2, movementType: "تحويل وارد", totalPiecesIn: 40, totalCostEgp: "400" }),
+      movement({ warehouseId: 2, movementType: "بيع", totalPiecesOut: 10, totalCostEgp: "100" }),
+    ];
+    assert.deepEqual(
+      calculateWarehouseStock(received).map((line) => [line.warehouseId, line.onHand, line.valueEgp]),
+      [
+        [1, 60, 600],
+        [2, 30, 300],
+      ],
+    );
+    assert.equal(calculateStockOnHand(received)[0].onHand, 90);
+  });
+});
+
+describe("parseTransfer", () => {
+  it("requires two different warehouses and a whole quantity", () => {
+    rejectsWith(
+      () => parseTransfer({ productId: 1, fromWarehouseId: 1, toWarehouseId: 1, quantity: 5 }),
+      "TRANSFER_INVALID",
+      400,
+    );
+    rejectsWith(
+      () => parseTransfer({ productId: 1, fromWarehouseId: 1, toWarehouseId: 2, quantity: 0 }),
+      "TRANSFER_INVALID",
+      400,
+    );
+
+    assert.deepEqual(parseTransfer({ productId: "3", fromWarehouseId: "1", toWarehouseId: 2, quantity: "5" }), {
+      productId: 3,
+      shipmentItemId: null,
+      fromWarehouseId: 1,
+      toWarehouseId: 2,
+      quantity: 5,
+      note: null,
+    });
+  });
+});
+
+describe("parseOutboundMovement", () => {
+  it("requires a known type, a whole quantity and a reason", () => {
+    rejectsWith(
+      () => parseOutboundMovement({ productId: 1, movementType: "استلام", quantity: 1, reason: "x" }),
+      "INVENTORY_MOVEMENT_INVALID",
+      400,
+    );
+    rejectsWith(
+      () => parseOutboundMovement({ productId: 1, movementType: "بيع", quantity: 1.5, reason: "x" }),
+      "INVENTORY_MOVEMENT_INVALID",
+      400,
+    );
+    rejectsWith(
+      () => parseOutboundMovement({ productId: 1, movementType: "تالف", quantity: 2, reason: "  " }),
+      "INVENTORY_REASON_REQUIRED",
+      400,
+    );
+
+    assert.deepEqual(
+      parseOutboundMovement({
+        productId: "4",
+        shipmentItemId: 9,
+        movementType: "مرتجع للمورد",
+        quantity: "2",
+        reason: " كسر ",
+        movementDate: "2024-03-10",
+      }),
+      {
+        productId: 4,
+        shipmentItemId: null,
+        movementType: "مرتجع للمورد",
+        quantity: 2,
+        reason: "كسر",
+        movementDate: "2024-03-10",
+        warehouseId: null,
+      },
+    );
+  });
+});
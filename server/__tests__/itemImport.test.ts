@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import ExcelJS from "exceljs";
+
+import type { ProductType, Supplier } from "@shared/schema";
+import {
+  buildItemImportPreview,
+  detectColumnMapping,
+  matchByName,
+  parseColumnMapping,
+  readImportSheet,
+} from "../services/itemImport";
+
+const suppliers = [
+  { id: 1, name: "Guangzhou Textile Co." },
+  { id: 2, name: "مصنع الأمل" },
+] as Supplier[];
+
+const productTypes = [{ id: 5, name: "ملابس" }] as ProductType[];
+
+describe("readImportSheet", () => {
+  it("reads CSV and XLSX files and keeps the spreadsheet row numbers", async () => {
+    const csv = Buffer.from("Product,CTN,PCS/CTN,Price\nShirt,10,12,3.5\n,,,\nJacket,2,6,20\n");
+    const fromCsv = await readImportSheet(csv);
+    assert.deepEqual(fromCsv.columns, ["Product", "CTN", "PCS/CTN", "Price"]);
+    assert.deepEqual(fromCsv.rows.map((row) => row.rowNumber), [2, 4]);
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet("Sheet1").addRows([["اسم الصنف", "عدد الكراتين"], ["قميص", 4]]);
+    const fromXlsx = await readImportSheet(Buffer.from(await workbook.xlsx.writeBuffer()));
+    assert.deepEqual(fromXlsx.rows[0].cells, ["قميص", "4"]);
+  });
+
+  it("keeps CSV values as written and drops a byte order mark", async () => {
+    const csv = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("المنتج,السعر\n007,2024-01-05\n")]);
+    const sheet = await readImportSheet(csv);
+    assert.deepEqual(sheet.columns, ["المنتج", "السعر"]);
+    assert.deepEqual(sheet.rows[0].cells, ["007", "2024-01-05"]);
+  });
+});
+
+describe("detectColumnMapping", () => {
+  it("recognises common English and Arabic headers", () => {
+    assert.deepEqual(
+      detectColumnMapping(["Product Name", "CTN", "PCS/CTN", "Unit Price", "المورد", "النوع"]),
+      {
+        productName: 0,
+        cartonsCtn: 1,
+        piecesPerCartonPcs: 2,
+        purchasePricePerPiecePriRmb: 3,
+        supplier: 4,
+        productType: 5,
+      },
+    );
+  });
+
+  it("ignores client mappings that point outside the sheet", () => {
+    assert.deepEqual(
+      parseColumnMapping(JSON.stringify({ productName: 1, cartonsCtn: 9 }), ["a", "b"]),
+      { productName: 1 },
+    );
+  });
+});
+
+describe("matchByName", () => {
+  it("tolerates spelling differences but refuses weak matches", () => {
+    assert.equal(matchByName("guangzhou textile co", suppliers).id, 1);
+    assert.equal(matchByName("مصنع الامل", suppliers).exact, true);
+    assert.equal(matchByName("Shenzhen Toys", suppliers).id, null);
+  });
+});
+
+describe("buildItemImportPreview", () => {
+  it("reports row-level errors and computes totals for valid rows", () => {
+    const preview = buildItemImportPreview(
+      {
+        columns: ["Product", "CTN", "PCS/CTN", "Price", "Supplier", "Type"],
+        rows: [
+          { rowNumber: 2, cells: ["Shirt", "10", "12", "3.5", "Guangzhou Textile", "ملابس"] },
+          { rowNumber: 3, cells: ["", "2.5", "6", "abc", "Unknown Vendor", ""] },
+        ],
+      },
+      { productName: 0, cartonsCtn: 1, piecesPerCartonPcs: 2, purchasePricePerPiecePriRmb: 3, supplier: 4, productType: 5 },
+      suppliers,
+      productTypes,
+    );
+
+    assert.equal(preview.validCount, 1);
+    assert.equal(preview.invalidCount, 1);
+
+    const [valid, invalid] = preview.rows;
+    assert.deepEqual(valid.errors, []);
+    assert.equal(valid.item.totalPiecesCou, 120);
+    assert.equal(valid.item.totalPurchaseCostRmb, "420.00");
+    assert.equal(valid.item.supplierId, 1);
+    assert.equal(valid.item.productTypeId, 5);
+    assert.equal(valid.warnings.length, 1);
+
+    assert.equal(invalid.rowNumber, 3);
+    assert.equal(invalid.errors.length, 4);
+  });
+});
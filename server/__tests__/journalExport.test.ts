@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { AccountMapping } from "@shared/schema";
+import { ApiError } from "../errors";
+import {
+  buildJournalEntries,
+  journalToCsv,
+  parseAccountMappings,
+  resolveChartOfAccounts,
+  type JournalSourceMovement,
+} from "../services/journalExport";
+
+const saved = (mapping: Partial<AccountMapping>) =>
+  ({ id: 1, updatedByUserId: null, updatedAt: new Date(), ...mapping }) as AccountMapping;
+
+const period = { dateFrom: "2025-12-01", dateTo: "2025-12-31" };
+
+const movements: JournalSourceMovement[] = [
+  {
+    date: "2025-12-02",
+    shipmentCode: "SH-1",
+    supplierId: 7,
+    supplierName: "مورد",
+    movementType: "تكلفة بضاعة",
+    amountEgp: "8000",
+    direction: "cost",
+  },
+  {
+    date: new Date("2025-12-05T10:00:00Z"),
+    shipmentCode: "SH-1",
+    supplierId: 7,
+    movementType: "دفعة",
+    costComponent: "تكلفة البضاعة",
+    paymentMethod: "نقدي",
+    amountEgp: "3000",
+    direction: "payment",
+  },
+  {
+    date: "2025-12-06",
+    shipmentCode: "SH-1",
+    supplierId: 7,
+    movementType: "دفعة",
+    costComponent: "تكلفة البضاعة",
+    paymentMethod: "شيك",
+    amountEgp: "-500",
+    direction: "payment",
+  },
+  {
+    date: "2025-11-30",
+    shipmentCode: "SH-0",
+    movementType: "تكلفة شحن",
+    amountEgp: "1200",
+    direction: "cost",
+  },
+];
+
+describe("resolveChartOfAccounts", () => {
+  it("lays saved mappings over the defaults and appends supplier accounts", () => {
+    const chart = resolveChartOfAccounts([
+      saved({ mappingType: "payment_method", sourceKey: "نقدي", accountCode: "1001", accountName: "خزينة" }),
+      saved({ mappingType: "supplier_payable", sourceKey: "7", accountCode: "2107", accountName: "مورد 7" }),
+    ]);
+
+    const cash = chart.find((line) => line.mappingType === "payment_method" && line.sourceKey === "نقدي");
+    assert.deepEqual(cash && [cash.accountCode, cash.isDefault], ["1001", false]);
+    assert.equal(chart.find((line) => line.sourceKey === "الشحن")?.isDefault, true);
+    assert.equal(chart[chart.length - 1].accountCode, "2107");
+  });
+});
+
+describe("parseAccountMappings", () => {
+  it("rejects unknown types, bad supplier keys and empty accounts by position", () => {
+    const attempt = (row: object) => {
+      try {
+        parseAccountMappings({ mappings: [row] });
+        return null;
+      } catch (error) {
+        assert.ok(error instanceof ApiError);
+        return error.details;
+      }
+    };
+
+    assert.deepEqual(attempt({ mappingType: "bank", sourceKey: "x", accountCode: "1", accountName: "x" }), {
+      index: 0,
+      field: "mappingType",
+    });
+    assert.deepEqual(attempt({ mappingType: "supplier_payable", sourceKey: "abc", accountCode: "1", accountName: "x" }), {
+      index: 0,
+      field: "sourceKey",
+    });
+    assert.deepEqual(attempt({ mappingType: "cost_component", sourceKey: "الجمرك", accountCode: " ", accountName: "x" }), {
+      index: 0,
+      field: "accountCode",
+    });
+    assert.equal(
+      attempt({ mappingType: "supplier_payable", sourceKey: "default", accountCode: "2101", accountName: "الموردون" }),
+      null,
+    );
+  });
+});
+
+describe("buildJournalEntries", () => {
+  const chart = resolveChartOfAccounts([
+    saved({ mappingType: "supplier_payable", sourceKey: "7", accountCode: "2107", accountName: "مورد 7" }),
+  ]);
+  const journal = buildJournalEntries(movements, chart, period, new Date("2026-01-01T00:00:00Z"));
+
+  it("emits one balanced entry per movement inside the period", () => {
+    assert.equal(journal.entries.length, 3);
+    for (const entry of journal.entries) {
+      const debit = entry.lines.reduce((sum, line) => sum + parseFloat(line.debitEgp), 0);
+      const credit = entry.lines.reduce((sum, line) => sum + parseFloat(line.creditEgp), 0);
+      assert.equal(debit, credit);
+    }
+    assert.deepEqual(journal.totals, { debitEgp: "11500.00", creditEgp: "11500.00" });
+  });
+
+  it("posts to the mapped accounts and swaps sides for reversals", () => {
+    const accounts = journal.entries.map((entry) => entry.lines.map((line) => line.accountCode));
+    assert.deepEqual(accounts, [
+      ["5101", "2107"],
+      ["2107", "1101"],
+      // Unmapped payment methods fall back to "أخرى"
+      ["1109", "2107"],
+    ]);
+    assert.equal(journal.entries[2].lines[0].debitEgp, "500.00");
+  });
+
+  it("books an advance as a payment to the supplier on its own date", () => {
+    const advance = buildJournalEntries(
+      [
+        {
+          date: "2025-12-03",
+          shipmentCode: "دفعة مقدمة رقم 4",
+          supplierId: 7,
+          movementType: "دفعة مقدمة",
+          paymentMethod: "نقدي",
+          amountEgp: "2000",
+          direction: "payment",
+        },
+      ],
+      chart,
+      period,
+    );
+
+    assert.deepEqual(advance.entries[0].lines.map((line) => line.accountCode), ["2107", "1101"]);
+    assert.equal(advance.entries[0].date, "2025-12-03");
+    assert.equal(advance.entries[0].description, "دفعة مقدمة رقم 4 (نقدي)");
+  });
+
+  it("writes one CSV row per journal line", () => {
+    const rows = journalToCsv(journal).replace("\uFEFF", "").split("\n");
+    assert.equal(rows.length, 1 + 6);
+    assert.equal(rows[1], "1,2025-12-02,SH-1,تكلفة البضاعة - SH-1 - مورد,5101,تكلفة البضاعة المستوردة,8000.00,0.00");
+  });
+
+  it("neutralises formula-like cells and quotes carriage returns", () => {
+    const line = journal.entries[0].lines[0];
+    const csv = journalToCsv({
+      ...journal,
+      entries: [
+        {
+          ...journal.entries[0],
+          description: '=HYPERLINK("http://x")',
+          lines: [{ ...line, accountName: "@SUM(A1)" }, { ...line, accountName: "سطر\rثاني" }],
+        },
+      ],
+    });
+    const [, first, second] = csv.replace("\uFEFF", "").split("\n");
+    assert.ok(first.includes(`"'=HYPERLINK(""http://x"")"`));
+    assert.ok(first.includes(",'@SUM(A1),"));
+    assert.ok(second.includes('"سطر\rثاني"'));
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Shipment, ShipmentItem } from "@shared/schema";
+import { calculateLandedCosts } from "../services/landedCost";
+
+const baseShipment = {
+  id: 3,
+  purchaseCostEgp: "7000",
+  commissionCostEgp: "300",
+  shippingCostEgp: "1000",
+  customsCostEgp: "0",
+  takhreegCostEgp: "0",
+  costAllocationBasis: "pieces",
+} as Shipment;
+
+const buildItem = (overrides: Partial<ShipmentItem>): ShipmentItem =>
+  ({
+    id: 1,
+    shipmentId: baseShipment.id,
+    supplierId: null,
+    productName: "Item",
+    cartonsCtn: 0,
+    totalPiecesCou: 0,
+    totalPurchaseCostRmb: "0",
+    totalCustomsCostEgp: null,
+    totalTakhreegCostEgp: null,
+    declaredCbm: null,
+    ...overrides,
+  }) as ShipmentItem;
+
+describe("calculateLandedCosts", () => {
+  const items = [
+    buildItem({ id: 1, totalPiecesCou: 300, cartonsCtn: 1, totalPurchaseCostRmb: "800", declaredCbm: "1" }),
+    buildItem({ id: 2, totalPiecesCou: 100, cartonsCtn: 3, totalPurchaseCostRmb: "200", declaredCbm: "4" }),
+  ];
+
+  it("spreads shared costs by the shipment basis and keeps goods cost by value", () => {
+    const [first, second] = calculateLandedCosts(baseShipment, items);
+
+    assert.equal(first.purchaseCostEgp, 5600);
+    assert.equal(second.purchaseCostEgp, 1400);
+    assert.equal(first.shippingShareEgp, 750);
+    assert.equal(second.shippingShareEgp, 250);
+    assert.equal(first.totalLandedCostEgp, 5600 + 750 + 225);
+    assert.equal(first.unitLandedCostEgp, 21.9167);
+  });
+
+  it("supports cartons and declared CBM as allocation bases", () => {
+    const byCartons = calculateLandedCosts(baseShipment, items, "cartons");
+    assert.equal(byCartons[0].shippingShareEgp, 250);
+
+    const byCbm = calculateLandedCosts(baseShipment, items, "cbm");
+    assert.equal(byCbm[0].shippingShareEgp, 200);
+    assert.equal(byCbm[1].shippingShareEgp, 800);
+  });
+
+  it("uses per-item customs amounts when they were entered", () => {
+    const lines = calculateLandedCosts(
+      { ...baseShipment, customsCostEgp: "500" },
+      [
+        { ...items[0], totalCustomsCostEgp: "100" },
+        { ...items[1], totalCustomsCostEgp: "400" },
+      ],
+    );
+
+    assert.deepEqual(lines.map((line) => line.customsShareEgp), [100, 400]);
+  });
+});
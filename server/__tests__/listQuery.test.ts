@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import {
+  MAX_PAGE_SIZE,
+  SHIPMENT_SORT_FIELDS,
+  containsPattern,
+  isPaginatedQuery,
+  parseListQuery,
+  readChoiceFilter,
+  readDateFilter,
+  readIdFilter,
+  readTextFilter,
+  toPage,
+} from "../services/listQuery";
+
+describe("parseListQuery", () => {
+  it("defaults to the first page sorted newest first", () => {
+    assert.deepEqual(parseListQuery({}, SHIPMENT_SORT_FIELDS, "createdAt"), {
+      page: 1,
+      pageSize: 25,
+      offset: 0,
+      sortBy: "createdAt",
+      sortDir: "desc",
+    });
+  });
+
+  it("clamps paging and reads the sort", () => {
+    const query = parseListQuery(
+      { page: "3", pageSize: "5000", sortBy: "shipmentCode", sortDir: "asc" },
+      SHIPMENT_SORT_FIELDS,
+      "createdAt",
+    );
+    assert.equal(query.pageSize, MAX_PAGE_SIZE);
+    assert.equal(query.offset, 2 * MAX_PAGE_SIZE);
+    assert.equal(query.sortBy, "shipmentCode");
+    assert.equal(query.sortDir, "asc");
+  });
+
+  it("rejects sorting on a column that is not offered", () => {
+    assert.throws(
+      () => parseListQuery({ sortBy: "passwordHash" }, SHIPMENT_SORT_FIELDS, "createdAt"),
+      (error: unknown) => error instanceof ApiError && error.code === "LIST_QUERY_INVALID" && error.status === 400,
+    );
+  });
+
+  it("rejects malformed paging and sort direction instead of falling back", () => {
+    for (const [query, field] of [
+      [{ page: "-2" }, "page"],
+      [{ pageSize: "abc" }, "pageSize"],
+      [{ sortDir: "up" }, "sortDir"],
+      [{ sortBy: ["createdAt", "shipmentCode"] }, "sortBy"],
+    ] as const) {
+      assert.throws(
+        () => parseListQuery(query, SHIPMENT_SORT_FIELDS, "createdAt"),
+        (error: unknown) => error instanceof ApiError && error.status === 400 && error.details?.field === field,
+      );
+    }
+  });
+});
+
+describe("list helpers", () => {
+  it("only paginates when the caller asks for a page", () => {
+    assert.equal(isPaginatedQuery({}), false);
+    assert.equal(isPaginatedQuery({ search: "SH" }), false);
+    assert.equal(isPaginatedQuery({ pageSize: "10" }), true);
+  });
+
+  it("reports at least one page and escapes search wildcards", () => {
+    assert.deepEqual(toPage([], 0, { page: 1, pageSize: 25 }), {
+      items: [],
+      total: 0,
+      page: 1,
+      pageSize: 25,
+      totalPages: 1,
+    });
+    assert.equal(toPage([], 51, { page: 1, pageSize: 25 }).totalPages, 3);
+    assert.equal(containsPattern("50%_off"), "%50\\%\\_off%");
+  });
+});
+
+describe("list filters", () => {
+  const rejects = (fn: () => unknown, field: string) =>
+    assert.throws(
+      fn,
+      (error: unknown) =>
+        error instanceof ApiError && error.code === "LIST_QUERY_INVALID" && error.details?.field === field,
+    );
+
+  it("reads ids and text, treating blanks as no filter", () => {
+    assert.equal(readIdFilter({ supplierId: "12" }, "supplierId"), 12);
+    assert.equal(readIdFilter({ supplierId: "" }, "supplierId"), undefined);
+    assert.equal(readTextFilter({ status: "جديدة" }, "status"), "جديدة");
+    assert.equal(readTextFilter({}, "status"), undefined);
+  });
+
+  it("rejects ids that are not positive integers and repeated parameters", () => {
+    rejects(() => readIdFilter({ supplierId: "abc" }, "supplierId"), "supplierId");
+    rejects(() => readIdFilter({ supplierId: "0" }, "supplierId"), "supplierId");
+    rejects(() => readIdFilter({ supplierId: ["1", "2"] }, "supplierId"), "supplierId");
+    rejects(() => readTextFilter({ search: ["a", "b"] }, "search"), "search");
+  });
+
+  it("accepts only real YYYY-MM-DD dates and offered choices", () => {
+    assert.equal(readDateFilter({ dateFrom: "2024-02-29" }, "dateFrom"), "2024-02-29");
+    rejects(() => readDateFilter({ dateFrom: "abc" }, "dateFrom"), "dateFrom");
+    rejects(() => readDateFilter({ dateFrom: "2024-02-30" }, "dateFrom"), "dateFrom");
+    rejects(() => readDateFilter({ dateTo: "2024-3-1" }, "dateTo"), "dateTo");
+
+    assert.equal(readChoiceFilter({ view: "archived" }, "view", ["active", "archived"]), "archived");
+    rejects(() => readChoiceFilter({ view: "deleted" }, "view", ["active", "archived"]), "view");
+  });
+});
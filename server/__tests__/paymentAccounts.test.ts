@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import {
+  amountInAccountCurrency,
+  assertAccountAcceptsPayment,
+  buildAccountStatement,
+  parseAccountTransfer,
+  parsePaymentAccount,
+  reconcileAccount,
+  resolveTransferAmountFrom,
+  type AccountMovement,
+} from "../services/paymentAccounts";
+
+const movement = (date: string, amount: number, kind: AccountMovement["kind"] = "payment"): AccountMovement => ({
+  date: new Date(date),
+  kind,
+  description: kind,
+  referenceNumber: null,
+  amount,
+});
+
+describe("buildAccountStatement", () => {
+  it("runs the balance from the opening balance in date order", () => {
+    const statement = buildAccountStatement({ openingBalance: "1000.00" }, [
+      movement("2025-06-10", -300),
+      movement("2025-06-01", 500, "top_up"),
+      movement("2025-06-12", 300, "payment_reversal"),
+    ]);
+
+    assert.deepEqual(
+      statement.movements.map((line) => [line.kind, line.runningBalance]),
+      [["top_up", 1500], ["payment", 1200], ["payment_reversal", 1500]],
+    );
+    assert.equal(statement.totalIn, 800);
+    assert.equal(statement.totalOut, 300);
+    assert.equal(statement.closingBalance, 1500);
+  });
+
+  it("folds movements before the range into the opening balance and keeps the whole last day", () => {
+    const statement = buildAccountStatement(
+      { openingBalance: "1000.00" },
+      [movement("2025-05-20", -200), movement("2025-06-30T18:00:00Z", -100), movement("2025-07-01", -50)],
+      { dateFrom: "2025-06-01", dateTo: "2025-06-30" },
+    );
+
+    assert.equal(statement.openingBalance, 800);
+    assert.equal(statement.movements.length, 1);
+    assert.equal(statement.closingBalance, 700);
+  });
+
+  it("reports the difference against the bank's closing balance", () => {
+    assert.deepEqual(reconcileAccount(700, 650.5), { bookBalance: 700, bankBalance: 650.5, difference: -49.5, reconciled: false });
+    assert.equal(reconcileAccount(700, 700).reconciled, true);
+  });
+});
+
+describe("account currency", () => {
+  const account = { id: 1, currency: "RMB", isActive: true } as any;
+
+  it("lets an EGP account fund RMB payments at their EGP value only", () => {
+    assert.doesNotThrow(() => assertAccountAcceptsPayment({ ...account, currency: "EGP" }, "RMB"));
+    assert.throws(
+      () => assertAccountAcceptsPayment(account, "EGP"),
+      (error: unknown) => error instanceof ApiError && error.code === "PAYMENT_ACCOUNT_CURRENCY_MISMATCH",
+    );
+    assert.throws(
+      () => assertAccountAcceptsPayment({ ...account, isActive: false }, "RMB"),
+      (error: unknown) => error instanceof ApiError && error.code === "PAYMENT_ACCOUNT_INACTIVE",
+    );
+
+    const payment = { paymentCurrency: "RMB", amountOriginal: "100.00", amountEgp: "700.00" };
+    assert.equal(amountInAccountCurrency(account, payment), 100);
+    assert.equal(amountInAccountCurrency({ currency: "EGP" }, payment), 700);
+  });
+
+  it("needs the debited amount when a transfer crosses currencies", () => {
+    const transfer = parseAccountTransfer({ transferDate: "2025-06-01", fromAccountId: "2", toAccountId: 1, amountTo: "1000" });
+
+    assert.equal(resolveTransferAmountFrom(transfer, { currency: "RMB" }, { currency: "RMB" }), 1000);
+    assert.equal(resolveTransferAmountFrom({ ...transfer, fromAccountId: null }, null, { currency: "RMB" }), null);
+    assert.throws(
+      () => resolveTransferAmountFrom(transfer, { currency: "EGP" }, { currency: "RMB" }),
+      (error: unknown) => error instanceof ApiError && error.details?.reason === "currency_differs",
+    );
+    assert.equal(resolveTransferAmountFrom({ ...transfer, amountFrom: 7000 }, { currency: "EGP" }, { currency: "RMB" }), 7000);
+  });
+});
+
+describe("parsePaymentAccount", () => {
+  it("refuses a transfer to the same account and a currency change on edit", () => {
+    assert.throws(
+      () => parseAccountTransfer({ transferDate: "2025-06-01", fromAccountId: 3, toAccountId: 3, amountTo: 10 }),
+      (error: unknown) => error instanceof ApiError && error.details?.reason === "same_account",
+    );
+    assert.throws(
+      () => parsePaymentAccount({ currency: "EGP" }, { partial: true }),
+      (error: unknown) => error instanceof ApiError && error.details?.field === "currency",
+    );
+    assert.deepEqual(parsePaymentAccount({ isActive: false }, { partial: true }), { isActive: false });
+  });
+});
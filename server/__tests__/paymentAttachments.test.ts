@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import {
+  PAYMENT_ATTACHMENTS_DIR,
+  PAYMENT_ATTACHMENT_MAX_BYTES,
+  acceptAttachment,
+  attachmentDisposition,
+  attachmentPath,
+} from "../services/paymentAttachments";
+
+const upload = (originalname: string, bytes: number[], size = bytes.length) => ({
+  originalname,
+  buffer: Buffer.from(bytes),
+  size,
+});
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a];
+
+const rejectedField = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.code, "ATTACHMENT_INVALID");
+    return error.details?.field;
+  }
+  assert.fail("expected the attachment to be rejected");
+};
+
+describe("acceptAttachment", () => {
+  it("accepts PDF and images and stores the detected type", () => {
+    const pdf = acceptAttachment(upload("إيصال تحويل.PDF", PDF));
+    assert.equal(pdf.mimeType, "application/pdf");
+    assert.equal(pdf.extension, ".pdf");
+    assert.equal(pdf.originalName, "إيصال تحويل.PDF");
+
+    assert.equal(acceptAttachment(upload("transfer.png", PNG)).mimeType, "image/png");
+  });
+
+  it("rejects other types, empty or oversized files, and content that does not match the name", () => {
+    assert.equal(rejectedField(() => acceptAttachment(upload("setup.exe", PDF))), "type");
+    assert.equal(rejectedField(() => acceptAttachment(upload("proof.pdf", [], 0))), "size");
+    assert.equal(
+      rejectedField(() => acceptAttachment(upload("proof.pdf", PDF, PAYMENT_ATTACHMENT_MAX_BYTES + 1))),
+      "size",
+    );
+    assert.equal(rejectedField(() => acceptAttachment(upload("proof.jpg", PNG))), "content");
+  });
+});
+
+describe("attachment files", () => {
+  it("keeps stored names inside the attachments folder", () => {
+    assert.equal(attachmentPath("a1b2.pdf"), path.join(PAYMENT_ATTACHMENTS_DIR, "a1b2.pdf"));
+    assert.throws(() => attachmentPath("../../.env"), ApiError);
+  });
+
+  it("previews inline unless a download is requested", () => {
+    assert.equal(attachmentDisposition("إيصال.pdf", false), `inline; filename*=UTF-8''${encodeURIComponent("إيصال.pdf")}`);
+    assert.ok(attachmentDisposition("a.png", true).startsWith("attachment;"));
+  });
+});
@@ -2,7 +2,12 @@ import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 
 import type { Shipment, ShipmentItem, ShipmentPayment } from "@shared/schema";
-import { calculatePaymentSnapshot } from "../services/paymentCalculations";
+import { ApiError } from "../errors";
+import {
+  calculateComponentAllowance,
+  calculatePaymentSnapshot,
+  componentCostsEgp,
+} from "../services/paymentCalculations";
 
 const baseShipment: Shipment = {
   id: 99,
@@ -159,4 +164,45 @@ describe("calculatePaymentSnapshot", () => {
     assert.equal(snapshot.remainingAllowed, 780);
     assert.ok(snapshot.recoveredTotals);
   });
+
+  it("refuses to recover RMB costs without an exchange rate", async () => {
+    await assert.rejects(
+      calculatePaymentSnapshot({
+        shipment: baseShipment,
+        payments: [],
+        loadRecoveryData: async () => ({
+          items: [{ totalPurchaseCostRmb: "100", cartonsCtn: 1 } as ShipmentItem],
+          rmbToEgpRate: undefined,
+        }),
+      }),
+      (error: unknown) => error instanceof ApiError && error.code === "EXCHANGE_RATE_NOT_FOUND",
+    );
+  });
+});
+
+describe("calculateComponentAllowance", () => {
+  it("caps each component by its own cost, netting reversals", () => {
+    const shipment: Shipment = {
+      ...baseShipment,
+      customsCostEgp: "500",
+      commissionCostRmb: "100",
+      purchaseRmbToEgpRate: "7",
+    };
+    const payments = [
+      createPayment({ costComponent: "الجمرك", amountEgp: "400.00" }),
+      createPayment({ costComponent: "الجمرك", amountEgp: "300.00" }),
+      createPayment({ costComponent: "الجمرك", amountEgp: "-300.00" }),
+      createPayment({ costComponent: "العمولة", amountEgp: "700.00" }),
+    ];
+    const costs = componentCostsEgp(shipment);
+
+    assert.deepEqual(calculateComponentAllowance("الجمرك", costs, payments), {
+      component: "الجمرك",
+      componentCost: 500,
+      alreadyPaid: 400,
+      remainingAllowed: 100,
+    });
+    assert.equal(calculateComponentAllowance("العمولة", costs, payments)?.remainingAllowed, 0);
+    assert.equal(calculateComponentAllowance("أخرى", costs, payments), null);
+  });
 });
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+
+import { ApiError } from "../errors";
+import { createRemittanceHandler } from "../routes";
+import { allocateRemittance, parseRemittance, type RemittanceCandidate } from "../services/paymentRemittance";
+
+const candidates: RemittanceCandidate[] = [
+  { shipmentId: 3, purchaseDate: "2025-03-01", remainingAllowedEgp: 600 },
+  { shipmentId: 1, purchaseDate: "2025-05-01", remainingAllowedEgp: 300 },
+  { shipmentId: 2, purchaseDate: "2025-01-15", remainingAllowedEgp: 100 },
+];
+
+const rejectedWith = (code: string, run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.code, code);
+    return error.details;
+  }
+  assert.fail(`expected ${code}`);
+};
+
+describe("allocateRemittance", () => {
+  it("fills the oldest shipments first and leaves out those that get nothing", () => {
+    const shares = allocateRemittance({
+      amountOriginal: 400,
+      exchangeRateToEgp: 1,
+      allocationMethod: "oldest_first",
+      candidates,
+    });
+    assert.deepEqual(shares, [
+      { shipmentId: 3, amountOriginal: 300, amountEgp: 300 },
+      { shipmentId: 2, amountOriginal: 100, amountEgp: 100 },
+    ]);
+  });
+
+  it("splits proportionally to the remaining allowance and keeps every cent", () => {
+    const shares = allocateRemittance({
+      amountOriginal: 100,
+      exchangeRateToEgp: 1,
+      allocationMethod: "proportional",
+      candidates,
+    });
+    assert.deepEqual(shares.map((share) => share.amountOriginal), [60, 30, 10]);
+
+    const uneven = allocateRemittance({
+      amountOriginal: 10,
+      exchangeRateToEgp: 1,
+      allocationMethod: "proportional",
+      candidates: candidates.map((candidate) => ({ ...candidate, remainingAllowedEgp: 100 })),
+    });
+    const totalCents = uneven.reduce((sum, share) => sum + Math.round(share.amountOriginal * 100), 0);
+    assert.equal(totalCents, 1000);
+  });
+
+  it("caps RMB shares so their EGP value stays inside the allowance", () => {
+    const shares = allocateRemittance({
+      amountOriginal: 14.28,
+      exchangeRateToEgp: 7,
+      allocationMethod: "oldest_first",
+      candidates: [{ shipmentId: 1, purchaseDate: "2025-01-01", remainingAllowedEgp: 100 }],
+    });
+    assert.deepEqual(shares, [{ shipmentId: 1, amountOriginal: 14.28, amountEgp: 99.96 }]);
+
+    const details = rejectedWith("REMITTANCE_EXCEEDS_ALLOWANCE", () =>
+      allocateRemittance({
+        amountOriginal: 14.29,
+        exchangeRateToEgp: 7,
+        allocationMethod: "proportional",
+        candidates: [{ shipmentId: 1, purchaseDate: "2025-01-01", remainingAllowedEgp: 100 }],
+      }),
+    );
+    assert.equal(details?.available, 14.28);
+  });
+
+  it("checks manual amounts against the total and each shipment's allowance", () => {
+    const manual = (allocations: Array<{ shipmentId: number; amountOriginal: number }>, amountOriginal = 150) =>
+      allocateRemittance({ amountOriginal, exchangeRateToEgp: 1, allocationMethod: "manual", candidates, allocations });
+
+    assert.deepEqual(
+      manual([{ shipmentId: 1, amountOriginal: 50 }, { shipmentId: 2, amountOriginal: 100 }]).map((share) => share.shipmentId),
+      [1, 2],
+    );
+    assert.equal(rejectedWith("REMITTANCE_INVALID", () => manual([{ shipmentId: 1, amountOriginal: 50 }]))?.reason, "sum");
+    assert.equal(
+      rejectedWith("REMITTANCE_EXCEEDS_ALLOWANCE", () =>
+        manual([{ shipmentId: 1, amountOriginal: 40 }, { shipmentId: 2, amountOriginal: 110 }]),
+      )?.shipmentId,
+      2,
+    );
+  });
+});
+
+describe("parseRemittance", () => {
+  const body = {
+    shipmentIds: ["4", 5],
+    amountOriginal: "250",
+    paymentCurrency: "EGP",
+    allocationMethod: "oldest_first",
+    paymentDate: "2025-06-01",
+    costComponent: "تكلفة البضاعة",
+    paymentMethod: "تحويل بنكي",
+  };
+
+  it("normalizes a valid body", () => {
+    const input = parseRemittance(body);
+    assert.deepEqual(input.shipmentIds, [4, 5]);
+    assert.equal(input.amountOriginal, 250);
+    assert.equal(input.exchangeRateToEgp, null);
+  });
+
+  it("names the field that is wrong", () => {
+    assert.equal(rejectedWith("REMITTANCE_INVALID", () => parseRemittance({ ...body, shipmentIds: [4, 4] }))?.field, "shipmentIds");
+    assert.equal(rejectedWith("REMITTANCE_INVALID", () => parseRemittance({ ...body, amountOriginal: "0" }))?.field, "amountOriginal");
+    assert.equal(
+      rejectedWith("REMITTANCE_INVALID", () => parseRemittance({ ...body, allocationMethod: "manual" }))?.field,
+      "allocations",
+    );
+  });
+});
+
+describe("createRemittanceHandler", () => {
+  const createResponse = () =>
+    ({
+      statusCode: 200,
+      body: undefined as any,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(payload: unknown) {
+        this.body = payload;
+        return this;
+      },
+    }) as any;
+
+  it("uses the rate in effect on the payment date and audits every child payment", async () => {
+    const payments = [
+      { id: 11, shipmentId: 4, amountEgp: "700.00", paymentCurrency: "RMB", paymentMethod: "نقدي" },
+      { id: 12, shipmentId: 5, amountEgp: "350.00", paymentCurrency: "RMB", paymentMethod: "نقدي" },
+    ];
+    const storageMock = {
+      getRateForDate: mock.fn(async () => ({ rateValue: "7.0000" })),
+      createRemittance: mock.fn(async () => ({ id: 9, allocationMethod: "proportional", payments })),
+    };
+    const auditLogger = mock.fn();
+    const handler = createRemittanceHandler({ storage: storageMock as any, logAuditEvent: auditLogger as any });
+
+    const res = createResponse();
+    await handler(
+      {
+        body: { shipmentIds: [4, 5], amountOriginal: 150, paymentCurrency: "RMB", allocationMethod: "proportional", paymentDate: "2025-06-01", costComponent: "الشحن", paymentMethod: "نقدي" },
+        user: { id: "actor-1" },
+      } as any,
+      res,
+      () => {},
+    );
+
+    assert.equal(res.statusCode, 200);
+    assert.equal((storageMock.createRemittance.mock.calls[0].arguments as any[])[0].exchangeRateToEgp, 7);
+    assert.equal(auditLogger.mock.calls.length, 2);
+    assert.equal((auditLogger.mock.calls[1].arguments as any[])[0].details.remittanceId, 9);
+  });
+});
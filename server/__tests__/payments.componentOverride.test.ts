@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import test, { mock } from "node:test";
+
+import { createPaymentHandler } from "../routes";
+
+function createResponse() {
+  return {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  } as any;
+}
+
+const body = {
+  shipmentId: 42,
+  paymentDate: "2025-06-01",
+  paymentCurrency: "EGP",
+  amountOriginal: "800",
+  costComponent: "الجمرك",
+  paymentMethod: "نقدي",
+  allowComponentOverpay: true,
+};
+
+test("POST /api/payments refuses the component override from non-admins", async () => {
+  const storageMock = { createPayment: mock.fn(), getRateForDate: mock.fn() };
+  const auditLogger = mock.fn();
+  const handler = createPaymentHandler({ storage: storageMock as any, logAuditEvent: auditLogger as any });
+
+  const res = createResponse();
+  await handler({ body, user: { id: "actor-1", role: "محاسب" } } as any, res, () => {});
+
+  assert.equal(res.statusCode, 403);
+  assert.equal(res.body?.error?.code, "PERMISSION_DENIED");
+  assert.equal(storageMock.createPayment.mock.calls.length, 0);
+});
+
+test("POST /api/payments audits an admin's component overpayment", async () => {
+  const componentOverpay = {
+    shipmentId: 42,
+    component: "الجمرك",
+    componentCost: 500,
+    alreadyPaid: 0,
+    remainingAllowed: 500,
+    attempted: 800,
+  };
+  const storageMock = {
+    createPayment: mock.fn(async () => ({ id: 5, shipmentId: 42, supplierId: null, componentOverpay })),
+    getRateForDate: mock.fn(),
+  };
+  const auditLogger = mock.fn();
+  const handler = createPaymentHandler({ storage: storageMock as any, logAuditEvent: auditLogger as any });
+
+  const res = createResponse();
+  await handler({ body, user: { id: "admin-1", role: "مدير" } } as any, res, () => {});
+
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual((storageMock.createPayment.mock.calls[0].arguments as any[])[1], { allowComponentOverpay: true });
+  assert.deepEqual((auditLogger.mock.calls[0].arguments as any[])[0].details.componentOverpay, componentOverpay);
+  assert.equal(res.body.payment.componentOverpay, undefined);
+  assert.deepEqual(res.body.componentOverpay, componentOverpay);
+});
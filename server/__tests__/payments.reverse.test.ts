@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import test, { mock } from "node:test";
+
+import { ApiError } from "../errors";
+import { reversePaymentHandler } from "../routes";
+
+const actor = { id: "actor-1", username: "tester", role: "محاسب" };
+
+function createResponse() {
+  return {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  } as any;
+}
+
+test("POST /api/payments/:id/reverse requires a reason", async () => {
+  const storageMock = { reversePayment: mock.fn() };
+  const auditLogger = mock.fn();
+  const handler = reversePaymentHandler({
+    storage: storageMock as any,
+    logAuditEvent: auditLogger as any,
+  });
+
+  const res = createResponse();
+  await handler({ params: { id: "7" }, body: { reason: "   " }, user: actor } as any, res, () => {});
+
+  assert.equal(res.statusCode, 400);
+  assert.equal(res.body?.error?.code, "PAYMENT_REASON_REQUIRED");
+  assert.equal(storageMock.reversePayment.mock.calls.length, 0);
+  assert.equal(auditLogger.mock.calls.length, 0);
+});
+
+test("POST /api/payments/:id/reverse voids the payment and writes an audit log entry", async () => {
+  const original = { id: 7, shipmentId: 42, amountEgp: "150.00", voidedAt: new Date() };
+  const reversal = { id: 8, shipmentId: 42, amountEgp: "-150.00", reversalOfPaymentId: 7 };
+  const storageMock = {
+    reversePayment: mock.fn(async () => ({ original, reversal, shipment: { id: 42 } })),
+  };
+  const auditLogger = mock.fn();
+  const handler = reversePaymentHandler({
+    storage: storageMock as any,
+    logAuditEvent: auditLogger as any,
+  });
+
+  const res = createResponse();
+  await handler(
+    { params: { id: "7" }, body: { reason: "دفعة مكررة" }, user: actor } as any,
+    res,
+    () => {},
+  );
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.body?.reversal?.id, 8);
+
+  const { arguments: [paymentId, options] } = storageMock.reversePayment.mock.calls[0] as any;
+  assert.equal(paymentId, 7);
+  assert.deepEqual(options, { reason: "دفعة مكررة", userId: actor.id });
+
+  const { arguments: [auditEvent] } = auditLogger.mock.calls[0] as any;
+  assert.equal(auditEvent.entityType, "PAYMENT");
+  assert.equal(auditEvent.actionType, "VOID");
+  assert.deepEqual(auditEvent.details, {
+    shipmentId: 42,
+    reversalPaymentId: 8,
+    amount: "150.00",
+    reason: "دفعة مكررة",
+  });
+});
+
+test("POST /api/payments/:id/reverse surfaces storage errors", async () => {
+  const storageMock = {
+    reversePayment: mock.fn(async () => {
+      throw new ApiError("PAYMENT_ALREADY_VOIDED", undefined, 409, { paymentId: 7 });
+    }),
+  };
+  const auditLogger = mock.fn();
+  const handler = reversePaymentHandler({
+    storage: storageMock as any,
+    logAuditEvent: auditLogger as any,
+  });
+
+  const res = createResponse();
+  await handler({ params: { id: "7" }, body: { reason: "خطأ" }, user: actor } as any, res, () => {});
+
+  assert.equal(res.statusCode, 409);
+  assert.equal(res.body?.error?.code, "PAYMENT_ALREADY_VOIDED");
+  assert.equal(auditLogger.mock.calls.length, 0);
+});
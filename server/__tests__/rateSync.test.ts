@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it } from "node:test";
+
+import type { ExchangeRate, InsertExchangeRate } from "@shared/schema";
+import { ApiError } from "../errors";
+import { rateLookupWindow } from "../services/exchangeRates";
+import {
+  createCsvRateProvider,
+  createMockRateProvider,
+  crossRates,
+  parseRateCsv,
+  parseRateFeed,
+} from "../services/rateProviders";
+import { syncExchangeRates, type RateSyncStorage } from "../services/rateSync";
+
+const createRateStorage = (initial: Omit<ExchangeRate, "id" | "createdAt">[] = []) => {
+  const rates: ExchangeRate[] = initial.map((rate, idx) => ({ ...rate, id: idx + 1, createdAt: null }));
+  const forPair = (from: string, to: string) =>
+    rates
+      .filter((rate) => rate.fromCurrency === from && rate.toCurrency === to)
+      .sort((a, b) => b.rateDate.localeCompare(a.rateDate));
+
+  const storage: RateSyncStorage = {
+    // Newest rate on or before the date, within the tolerance window, as storage looks it up
+    async getRateForDate(from, to, date, options) {
+      const { from: earliest, to: latest } = rateLookupWindow(date, options?.toleranceDays);
+      return forPair(from, to).find((rate) => rate.rateDate <= latest && rate.rateDate >= earliest);
+    },
+    async createExchangeRate(data: InsertExchangeRate) {
+      const rate = { ...data, id: rates.length + 1, createdAt: null, source: data.source ?? null } as ExchangeRate;
+      rates.push(rate);
+      return rate;
+    },
+  };
+  return { storage, rates };
+};
+
+describe("rate feed parsing", () => {
+  it("derives tracked pairs from an ECB-style XML feed", () => {
+    const xml = `<?xml version="1.0"?>
+      <gesmes:Envelope><Cube><Cube time="2024-03-01">
+        <Cube currency="USD" rate="1.0800"/>
+        <Cube currency="CNY" rate="7.7760"/>
+        <Cube currency="EGP" rate="54.432"/>
+      </Cube></Cube></gesmes:Envelope>`;
+
+    const rates = crossRates(parseRateFeed(xml));
+    assert.deepEqual(
+      rates.map((rate) => [rate.rateDate, rate.fromCurrency, rate.toCurrency, rate.rateValue.toFixed(4)]),
+      [
+        ["2024-03-01", "RMB", "EGP", "7.0000"],
+        ["2024-03-01", "USD", "RMB", "7.2000"],
+      ],
+    );
+  });
+
+  it("reads JSON feeds and skips pairs the feed cannot price", () => {
+    const snapshot = parseRateFeed(JSON.stringify({ date: "2024-03-01", base: "EGP", rates: { CNY: 0.142857 } }));
+    assert.deepEqual(
+      crossRates(snapshot).map((rate) => `${rate.fromCurrency}/${rate.toCurrency}`),
+      ["RMB/EGP"],
+    );
+  });
+
+  it("parses dropped CSV files and keeps bad values for reporting", () => {
+    const rates = parseRateCsv("rate_date,from_currency,to_currency,rate_value\n2024-03-01,cny,EGP,6.9\n2024-03-02,RMB,EGP,abc\n");
+    assert.equal(rates[0].fromCurrency, "RMB");
+    assert.equal(rates[0].rateValue, 6.9);
+    assert.ok(Number.isNaN(rates[1].rateValue));
+    assert.throws(() => parseRateCsv("date,rate\n2024-03-01,6.9"));
+  });
+});
+
+describe("syncExchangeRates", () => {
+  it("skips rates already stored for the same day and pair", async () => {
+    const { storage, rates } = createRateStorage([
+      { rateDate: "2024-03-01", fromCurrency: "RMB", toCurrency: "EGP", rateValue: "7.000000", source: "يدوي" },
+    ]);
+    const provider = createMockRateProvider([
+      { rateDate: "2024-03-01", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.01 },
+      { rateDate: "2024-03-02", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.05 },
+      { rateDate: "2024-03-02", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.05 },
+    ]);
+
+    const result = await syncExchangeRates({ provider, storage });
+
+    assert.equal(result.inserted.length, 1);
+    assert.equal(result.inserted[0].rateValue, "7.050000");
+    assert.equal(result.inserted[0].source, provider.name);
+    assert.equal(result.duplicates.length, 2);
+    assert.equal(rates.length, 2);
+
+    const again = await syncExchangeRates({ provider, storage });
+    assert.equal(again.inserted.length, 0);
+  });
+
+  it("rejects rates outside the sanity bounds or with invalid values", async () => {
+    const { storage } = createRateStorage([
+      { rateDate: "2024-03-01", fromCurrency: "RMB", toCurrency: "EGP", rateValue: "7.000000", source: null },
+    ]);
+    const result = await syncExchangeRates({
+      storage,
+      maxChangePercent: 5,
+      provider: createMockRateProvider([
+        { rateDate: "2024-03-02", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.3 },
+        { rateDate: "2024-03-03", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 8.4 },
+        { rateDate: "2024-03-04", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 0 },
+        { rateDate: "03/2024", fromCurrency: "USD", toCurrency: "RMB", rateValue: 7.2 },
+      ]),
+    });
+
+    assert.deepEqual(result.inserted.map((rate) => rate.rateDate), ["2024-03-02"]);
+    assert.equal(result.rejected.length, 3);
+    // The jump is measured from the rate accepted the day before, not the older stored one
+    const jump = result.rejected.find((entry) => entry.rate.rateDate === "2024-03-03");
+    assert.equal(jump?.previousRate, 7.3);
+  });
+
+  it("bounds the change against the previous day, not a newer stored rate", async () => {
+    const { storage } = createRateStorage([
+      { rateDate: "2024-03-01", fromCurrency: "RMB", toCurrency: "EGP", rateValue: "7.000000", source: null },
+      { rateDate: "2024-03-20", fromCurrency: "RMB", toCurrency: "EGP", rateValue: "9.000000", source: null },
+    ]);
+    const result = await syncExchangeRates({
+      storage,
+      maxChangePercent: 5,
+      provider: createMockRateProvider([{ rateDate: "2024-03-02", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.1 }]),
+    });
+
+    assert.deepEqual(result.inserted.map((rate) => rate.rateDate), ["2024-03-02"]);
+    assert.equal(result.rejected.length, 0);
+  });
+
+  it("rejects a rate dated in a closed month and keeps going", async () => {
+    const { storage, rates } = createRateStorage();
+    const createExchangeRate = storage.createExchangeRate;
+    storage.createExchangeRate = async (data) => {
+      if (data.rateDate.startsWith("2024-02")) throw new ApiError("PERIOD_LOCKED", undefined, 409);
+      return createExchangeRate(data);
+    };
+    let committed = false;
+    const provider = {
+      ...createMockRateProvider([
+        { rateDate: "2024-02-29", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7 },
+        { rateDate: "2024-03-01", fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7.01 },
+      ]),
+      commit: async () => {
+        committed = true;
+      },
+    };
+
+    const result = await syncExchangeRates({ provider, storage });
+
+    assert.deepEqual(result.inserted.map((rate) => rate.rateDate), ["2024-03-01"]);
+    assert.equal(result.rejected.length, 1);
+    assert.equal(result.rejected[0].rate.rateDate, "2024-02-29");
+    assert.ok(result.rejected[0].reason);
+    assert.equal(rates.length, 1);
+    assert.ok(committed);
+  });
+
+  it("moves dropped CSV files aside only after their rates are stored", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "rates-"));
+    try {
+      fs.writeFileSync(
+        path.join(directory, "march.csv"),
+        "rate_date,from_currency,to_currency,rate_value\n2024-03-01,RMB,EGP,7\n",
+      );
+
+      const { storage } = createRateStorage();
+      const result = await syncExchangeRates({ provider: createCsvRateProvider({ directory }), storage });
+
+      assert.equal(result.inserted.length, 1);
+      assert.ok(fs.existsSync(path.join(directory, "processed", "march.csv")));
+      assert.ok(!fs.existsSync(path.join(directory, "march.csv")));
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Shipment, ShipmentPayment } from "@shared/schema";
+import { toVisualRuns } from "../services/pdfText";
+import {
+  renderPaymentReceipt,
+  renderShipmentCostSheet,
+  resolveItemImagePath,
+} from "../services/shipmentDocuments";
+
+const shipment = {
+  id: 3,
+  shipmentCode: "SH-3",
+  shipmentName: "شحنة ملابس",
+  purchaseDate: "2024-01-10",
+  status: "جديدة",
+  costAllocationBasis: "pieces",
+  purchaseCostRmb: "1000",
+  purchaseCostEgp: "7000",
+  finalTotalCostEgp: "8000",
+  totalPaidEgp: "500",
+  balanceEgp: "7500",
+} as Shipment;
+
+const payment = {
+  id: 11,
+  shipmentId: shipment.id,
+  paymentDate: new Date("2024-02-01"),
+  paymentCurrency: "RMB",
+  amountOriginal: "100",
+  exchangeRateToEgp: "7.0000",
+  amountEgp: "700",
+  costComponent: "تكلفة البضاعة",
+  paymentMethod: "تحويل بنكي",
+  voidedAt: new Date("2024-02-02"),
+  voidReason: "دفعة مكررة",
+} as ShipmentPayment;
+
+describe("toVisualRuns", () => {
+  it("keeps numbers and codes left-to-right inside Arabic lines", () => {
+    assert.deepEqual(toVisualRuns("رقم الشحنة: SH-3"), [
+      { text: "SH-3", rtl: false },
+      { text: "رقم الشحنة: ", rtl: true },
+    ]);
+    assert.deepEqual(toVisualRuns("المبلغ -150.00 ج.م"), [
+      { text: " ج.م", rtl: true },
+      { text: "-150.00", rtl: false },
+      { text: "المبلغ ", rtl: true },
+    ]);
+  });
+
+  it("mirrors brackets in right-to-left runs", () => {
+    assert.deepEqual(toVisualRuns("الشحن (RMB)"), [
+      { text: "(", rtl: true },
+      { text: "RMB", rtl: false },
+      { text: "الشحن )", rtl: true },
+    ]);
+  });
+
+  it("leaves Latin-only text untouched", () => {
+    assert.deepEqual(toVisualRuns("Guangzhou Textile Co."), [
+      { text: "Guangzhou Textile Co.", rtl: false },
+    ]);
+  });
+});
+
+describe("shipment documents", () => {
+  it("renders a cost sheet and a receipt as PDF files", async () => {
+    const sheet = await renderShipmentCostSheet({
+      shipment,
+      items: [],
+      shippingDetails: null,
+      payments: [payment],
+      supplierNames: new Map(),
+      generatedAt: new Date("2024-03-01"),
+    });
+    const receipt = await renderPaymentReceipt({
+      payment,
+      shipment,
+      supplierName: null,
+      generatedAt: new Date("2024-03-01"),
+    });
+
+    assert.equal(sheet.subarray(0, 5).toString(), "%PDF-");
+    assert.equal(receipt.subarray(0, 5).toString(), "%PDF-");
+  });
+
+  it("only embeds images stored in the item upload folder", () => {
+    assert.equal(resolveItemImagePath("/uploads/items/../../etc/passwd"), null);
+    assert.equal(resolveItemImagePath("https://example.com/item.png"), null);
+    assert.equal(resolveItemImagePath("/uploads/items/missing.png"), null);
+  });
+});
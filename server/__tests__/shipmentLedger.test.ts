@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Shipment, ShipmentPayment } from "@shared/schema";
+import {
+  LEDGER_OPENING_DESCRIPTION,
+  LEDGER_PAYMENT_ENTRY,
+  LEDGER_REVERSAL_ENTRY,
+  compareWithLedger,
+  costAdjustmentEntries,
+  openingLedgerEntries,
+  paymentEntry,
+  reconcileShipmentLedgers,
+  summarizeLedger,
+} from "../services/shipmentLedger";
+
+const shipment = {
+  id: 4,
+  shipmentCode: "SH-4",
+  purchaseCostEgp: "7000",
+  commissionCostEgp: "300",
+  shippingCostEgp: "0",
+  customsCostEgp: "600",
+  takhreegCostEgp: "100",
+  finalTotalCostEgp: "8000",
+  totalPaidEgp: "2500",
+  balanceEgp: "5500",
+} as Shipment;
+
+const payment = {
+  id: 11,
+  shipmentId: 4,
+  amountEgp: "2500",
+  costComponent: "تكلفة البضاعة",
+  reversalOfPaymentId: null,
+  createdByUserId: "u1",
+} as ShipmentPayment;
+
+const asLines = (entries: ReturnType<typeof costAdjustmentEntries>) =>
+  entries.map((entry) => ({
+    entryType: entry.entryType,
+    account: entry.account,
+    debitEgp: entry.debitEgp ?? "0",
+    creditEgp: entry.creditEgp ?? "0",
+  }));
+
+describe("costAdjustmentEntries", () => {
+  it("books every non-zero cost account the first time", () => {
+    const entries = costAdjustmentEntries(shipment, []);
+    assert.deepEqual(
+      entries.map((entry) => [entry.account, entry.debitEgp, entry.creditEgp]),
+      [
+        ["تكلفة البضاعة", "7000.00", "0"],
+        ["العمولة", "300.00", "0"],
+        ["الجمرك", "600.00", "0"],
+        ["التخريج", "100.00", "0"],
+      ],
+    );
+  });
+
+  it("posts only the difference when a cost changes, and nothing when it did not", () => {
+    const booked = asLines(costAdjustmentEntries(shipment, []));
+    assert.equal(costAdjustmentEntries(shipment, booked).length, 0);
+
+    const lowered = costAdjustmentEntries({ ...shipment, customsCostEgp: "450" }, booked);
+    assert.equal(lowered.length, 1);
+    assert.equal(lowered[0].account, "الجمرك");
+    assert.equal(lowered[0].creditEgp, "150.00");
+    assert.equal(lowered[0].debitEgp, "0");
+  });
+});
+
+describe("ledger totals", () => {
+  it("credits payments, debits reversals and derives the balance", () => {
+    const reversal = paymentEntry({ ...payment, id: 12, amountEgp: "-1000", reversalOfPaymentId: 11 });
+    assert.equal(reversal.entryType, LEDGER_REVERSAL_ENTRY);
+    assert.equal(reversal.debitEgp, "1000.00");
+    assert.equal(paymentEntry(payment).entryType, LEDGER_PAYMENT_ENTRY);
+
+    const totals = summarizeLedger([
+      ...asLines(costAdjustmentEntries(shipment, [])),
+      ...asLines([paymentEntry(payment), reversal]),
+    ]);
+    assert.deepEqual(totals, { costEgp: 8000, paidEgp: 1500, balanceEgp: 6500 });
+  });
+
+  it("opens a pre-ledger shipment at its cached totals", () => {
+    const entries = openingLedgerEntries(shipment, [payment]);
+    assert.ok(
+      entries
+        .filter((entry) => entry.paymentId === undefined)
+        .every((entry) => entry.description === LEDGER_OPENING_DESCRIPTION),
+    );
+    assert.deepEqual(compareWithLedger(shipment, summarizeLedger(asLines(entries))), []);
+  });
+
+  it("flags cached totals that drifted from the ledger", async () => {
+    const totals = { costEgp: 8000, paidEgp: 2500, balanceEgp: 5500 };
+    assert.deepEqual(compareWithLedger(shipment, totals), []);
+
+    const drifted = { ...shipment, id: 5, shipmentCode: "SH-5", totalPaidEgp: "3000" };
+    const result = await reconcileShipmentLedgers({
+      getAllShipments: async () => [shipment, drifted],
+      getLedgerTotals: async () => [
+        { shipmentId: 4, ...totals },
+        { shipmentId: 5, ...totals },
+      ],
+    });
+
+    assert.equal(result.shipmentsChecked, 2);
+    assert.deepEqual(result.flagged, [
+      {
+        shipmentId: 5,
+        shipmentCode: "SH-5",
+        mismatches: [{ field: "totalPaidEgp", cachedEgp: 3000, ledgerEgp: 2500 }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { ShipmentItem } from "@shared/schema";
+import { ApiError } from "../errors";
+import {
+  buildDiscrepancyReport,
+  draftSupplierClaims,
+  parseReceiving,
+  type DiscrepancyReceipt,
+} from "../services/shipmentReceiving";
+
+const item = (id: number, supplierId: number | null, totalPiecesCou: number, price: string) =>
+  ({ id, supplierId, totalPiecesCou, purchasePricePerPiecePriRmb: price }) as ShipmentItem;
+
+const items = [item(1, 7, 100, "2.5000"), item(2, 7, 50, "4.0000"), item(3, null, 10, "1.0000")];
+
+describe("parseReceiving", () => {
+  it("books unmentioned items in full and derives the short pieces", () => {
+    const { lines, raiseClaim } = parseReceiving(
+      {
+        lines: [
+          { shipmentItemId: 1, receivedPieces: 90, damagedPieces: 4, notes: " كرتونة ناقصة " },
+          { itemIndex: 2, receivedPieces: "8" },
+        ],
+        raiseClaim: true,
+      },
+      items,
+    );
+
+    assert.equal(raiseClaim, true);
+    assert.deepEqual(
+      lines.map((line) => [line.shipmentItemId, line.receivedPieces, line.shortPieces, line.damagedPieces, line.notes]),
+      [
+        [1, 90, 6, 4, "كرتونة ناقصة"],
+        [2, 50, 0, 0, null],
+        [3, 8, 2, 0, null],
+      ],
+    );
+  });
+
+  it("rejects counts above the ordered quantity and unknown items", () => {
+    for (const line of [
+      { shipmentItemId: 2, receivedPieces: 45, damagedPieces: 6 },
+      { shipmentItemId: 99, receivedPieces: 1 },
+      { shipmentItemId: 1, receivedPieces: -1 },
+    ]) {
+      assert.throws(
+        () => parseReceiving({ lines: [line] }, items),
+        (error: unknown) => error instanceof ApiError && error.code === "RECEIVING_INVALID" && error.status === 400,
+      );
+    }
+  });
+});
+
+describe("draftSupplierClaims", () => {
+  it("claims short and damaged pieces per supplier at the purchase price", () => {
+    const { lines } = parseReceiving(
+      {
+        lines: [
+          { shipmentItemId: 1, receivedPieces: 90, damagedPieces: 4 },
+          { shipmentItemId: 2, receivedPieces: 48 },
+          { shipmentItemId: 3, receivedPieces: 0 },
+        ],
+      },
+      items,
+    );
+
+    // Item 3 has no supplier to claim from
+    assert.deepEqual(draftSupplierClaims(lines, items), [
+      { supplierId: 7, shipmentItemIds: [1, 2], pieces: 12, amountRmb: 33 },
+    ]);
+  });
+});
+
+describe("buildDiscrepancyReport", () => {
+  const receipt = (overrides: Partial<DiscrepancyReceipt>) =>
+    ({
+      supplierId: 7,
+      supplierName: "مورد أ",
+      shipmentCode: "SH-1",
+      productName: "حذاء",
+      orderedPieces: 100,
+      receivedPieces: 100,
+      shortPieces: 0,
+      damagedPieces: 0,
+      unitPriceRmb: "2.5000",
+      unitCostEgp: "20.0000",
+      ...overrides,
+    }) as DiscrepancyReceipt;
+
+  it("lists only discrepant lines but totals everything the supplier shipped", () => {
+    const report = buildDiscrepancyReport([
+      receipt({ shipmentItemId: 1, receivedPieces: 94, shortPieces: 6 }),
+      receipt({ shipmentItemId: 2 }),
+      receipt({ shipmentItemId: 3, supplierId: 8, supplierName: "مورد ب" }),
+    ]);
+
+    assert.equal(report.suppliers.length, 1);
+    const [supplier] = report.suppliers;
+    assert.equal(supplier.orderedPieces, 200);
+    assert.equal(supplier.shortPieces, 6);
+    assert.deepEqual(supplier.lines.map((line) => [line.shipmentItemId, line.valueRmb, line.valueEgp]), [[1, 15, 120]]);
+    assert.equal(report.totals.valueEgp, 120);
+  });
+});
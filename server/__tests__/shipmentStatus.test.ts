@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { ShipmentStatusHistory } from "@shared/schema";
+import { ApiError } from "../errors";
+import {
+  assertStatusTransition,
+  buildStatusStages,
+  findStatusBeforeArchive,
+  hasCustomsData,
+  statusPathForWizardStep,
+  type StatusGuardContext,
+} from "../services/shipmentStatus";
+
+const context = (overrides: Partial<StatusGuardContext> = {}): StatusGuardContext => ({
+  shipment: { status: "جديدة", balanceEgp: "0" },
+  itemCount: 2,
+  hasShippingDetails: true,
+  hasCustomsDetails: true,
+  statusBeforeArchive: null,
+  hasReceipts: false,
+  ...overrides,
+});
+
+const historyEntry = (id: number, fromStatus: string | null, toStatus: string, changedAt: string) =>
+  ({ id, shipmentId: 1, fromStatus, toStatus, changedAt: new Date(changedAt) }) as ShipmentStatusHistory;
+
+const rejectsWith = (fn: () => unknown, code: string, status: number) =>
+  assert.throws(fn, (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.code, code);
+    assert.equal(error.status, status);
+    return true;
+  });
+
+describe("assertStatusTransition", () => {
+  it("rejects skipping stages and unknown statuses", () => {
+    rejectsWith(
+      () => assertStatusTransition(context(), { to: "مستلمة بنجاح", role: "مدير" }),
+      "SHIPMENT_TRANSITION_NOT_ALLOWED",
+      409,
+    );
+    rejectsWith(
+      () => assertStatusTransition(context(), { to: "ملغاة", role: "مدير" }),
+      "SHIPMENT_STATUS_INVALID",
+      400,
+    );
+  });
+
+  it("limits inventory staff to the receiving stages", () => {
+    rejectsWith(
+      () => assertStatusTransition(context(), { to: "في انتظار الشحن", role: "مسؤول مخزون" }),
+      "PERMISSION_DENIED",
+      403,
+    );
+    assert.deepEqual(
+      assertStatusTransition(
+        context({ shipment: { status: "جاهزة للاستلام", balanceEgp: "0" } }),
+        { to: "مستلمة بنجاح", role: "مسؤول مخزون" },
+      ),
+      { overrideReason: null },
+    );
+  });
+
+  it("requires customs details before receiving", () => {
+    rejectsWith(
+      () =>
+        assertStatusTransition(
+          context({ shipment: { status: "جاهزة للاستلام", balanceEgp: "0" }, hasCustomsDetails: false }),
+          { to: "مستلمة بنجاح", role: "مدير", overrideReason: "عاجل" },
+        ),
+      "SHIPMENT_TRANSITION_BLOCKED",
+      409,
+    );
+  });
+
+  it("does not count an empty customs row as customs details", () => {
+    const empty = { totalCustomsCostEgp: "0.00", totalTakhreegCostEgp: "0.00", customsInvoiceDate: null };
+
+    assert.equal(hasCustomsData(undefined), false);
+    assert.equal(hasCustomsData(empty), false);
+    assert.equal(hasCustomsData({ ...empty, totalTakhreegCostEgp: "120.00" }), true);
+    assert.equal(hasCustomsData({ ...empty, customsInvoiceDate: "2025-06-01" }), true);
+  });
+
+  it("lets only an admin with a reason archive a shipment with a balance", () => {
+    const withBalance = context({ shipment: { status: "مستلمة بنجاح", balanceEgp: "150.00" } });
+
+    rejectsWith(
+      () => assertStatusTransition(withBalance, { to: "مؤرشفة", role: "مدير" }),
+      "SHIPMENT_TRANSITION_BLOCKED",
+      409,
+    );
+    rejectsWith(
+      () => assertStatusTransition(withBalance, { to: "مؤرشفة", role: "محاسب", overrideReason: "تسوية" }),
+      "SHIPMENT_TRANSITION_BLOCKED",
+      409,
+    );
+    assert.deepEqual(
+      assertStatusTransition(withBalance, { to: "مؤرشفة", role: "مدير", overrideReason: " تسوية مع المورد " }),
+      { overrideReason: "تسوية مع المورد" },
+    );
+  });
+
+  it("restores archived shipments only to the stage they were archived from", () => {
+    const archived = context({
+      shipment: { status: "مؤرشفة", balanceEgp: "0" },
+      statusBeforeArchive: "جاهزة للاستلام",
+    });
+
+    rejectsWith(
+      () => assertStatusTransition(archived, { to: "جديدة", role: "مدير" }),
+      "SHIPMENT_TRANSITION_BLOCKED",
+      409,
+    );
+    assert.deepEqual(
+      assertStatusTransition(archived, { to: "جاهزة للاستلام", role: "محاسب" }),
+      { overrideReason: null },
+    );
+  });
+
+  it("keeps a received shipment from being restored to an earlier stage", () => {
+    const archived = context({ shipment: { status: "مؤرشفة", balanceEgp: "0" }, hasReceipts: true });
+
+    rejectsWith(
+      () => assertStatusTransition(archived, { to: "جاهزة للاستلام", role: "مدير" }),
+      "SHIPMENT_TRANSITION_BLOCKED",
+      409,
+    );
+    assert.deepEqual(assertStatusTransition(archived, { to: "مستلمة بنجاح", role: "مدير" }), { overrideReason: null });
+  });
+});
+
+describe("statusPathForWizardStep", () => {
+  it("walks forward through every stage and never moves back", () => {
+    assert.deepEqual(statusPathForWizardStep("جديدة", 4), [
+      "في انتظار الشحن",
+      "جاهزة للاستلام",
+      "مستلمة بنجاح",
+    ]);
+    assert.deepEqual(statusPathForWizardStep("مستلمة بنجاح", 2), []);
+    assert.deepEqual(statusPathForWizardStep("مؤرشفة", 4), []);
+    assert.deepEqual(statusPathForWizardStep("جديدة", undefined), []);
+  });
+});
+
+describe("status history", () => {
+  const history = [
+    historyEntry(1, null, "جديدة", "2024-01-01T00:00:00Z"),
+    historyEntry(2, "جديدة", "في انتظار الشحن", "2024-01-03T00:00:00Z"),
+    historyEntry(3, "في انتظار الشحن", "مؤرشفة", "2024-01-04T12:00:00Z"),
+  ];
+
+  it("measures the time spent in each stage", () => {
+    const stages = buildStatusStages(history, new Date("2024-01-05T00:00:00Z"));
+
+    assert.deepEqual(
+      stages.map((stage) => [stage.status, stage.durationMs / 3_600_000]),
+      [
+        ["جديدة", 48],
+        ["في انتظار الشحن", 36],
+        ["مؤرشفة", 12],
+      ],
+    );
+    assert.equal(stages[2].leftAt, null);
+  });
+
+  it("finds the status a shipment had before it was archived", () => {
+    assert.equal(findStatusBeforeArchive(history), "في انتظار الشحن");
+    assert.equal(findStatusBeforeArchive(history.slice(0, 2)), null);
+  });
+});
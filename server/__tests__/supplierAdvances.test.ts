@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import {
+  assertApplicationFits,
+  parseAdvanceApplication,
+  parseSupplierAdvance,
+  summarizeAdvance,
+} from "../services/supplierAdvances";
+
+const advance = { amountOriginal: "1000.00", amountEgp: "7000.00" };
+
+describe("summarizeAdvance", () => {
+  it("nets applications and their reversals against the advance", () => {
+    const balance = summarizeAdvance(advance, [
+      { amountOriginal: "300.00", amountEgp: "2100.00" },
+      { amountOriginal: "200.00", amountEgp: "1400.00" },
+      { amountOriginal: "-200.00", amountEgp: "-1400.00" },
+    ]);
+    assert.deepEqual(balance, { appliedOriginal: 300, appliedEgp: 2100, remainingOriginal: 700, remainingEgp: 4900 });
+  });
+
+  it("refuses applications that add up to more than is left", () => {
+    const application = parseAdvanceApplication({
+      applicationDate: "2025-07-01",
+      costComponent: "تكلفة البضاعة",
+      applications: [{ shipmentId: 4, amountOriginal: "500" }, { shipmentId: 5, amountOriginal: "250" }],
+    });
+    const balance = summarizeAdvance(advance, [{ amountOriginal: "300.00", amountEgp: "2100.00" }]);
+
+    assert.throws(
+      () => assertApplicationFits(9, balance, application),
+      (error: unknown) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.code, "SUPPLIER_ADVANCE_EXCEEDED");
+        assert.deepEqual(error.details, { advanceId: 9, requested: 750, remaining: 700 });
+        return true;
+      },
+    );
+  });
+});
+
+describe("parseSupplierAdvance", () => {
+  it("leaves an RMB rate empty so the payment-date rate can be used", () => {
+    const input = parseSupplierAdvance({
+      supplierId: "3",
+      advanceDate: "2025-06-10",
+      paymentCurrency: "RMB",
+      amountOriginal: "1000",
+      paymentMethod: "تحويل بنكي",
+    });
+    assert.equal(input.supplierId, 3);
+    assert.equal(input.exchangeRateToEgp, null);
+  });
+
+  it("names the field that is wrong", () => {
+    assert.throws(
+      () => parseSupplierAdvance({ supplierId: 3, advanceDate: "2025-06-10", paymentCurrency: "USD", amountOriginal: 5, paymentMethod: "نقدي" }),
+      (error: unknown) => error instanceof ApiError && error.code === "SUPPLIER_ADVANCE_INVALID" && error.details?.field === "paymentCurrency",
+    );
+    assert.throws(
+      () => parseAdvanceApplication({ applicationDate: "2025-07-01", costComponent: "الشحن", applications: [{ shipmentId: 4, amountOriginal: 1 }, { shipmentId: 4, amountOriginal: 2 }] }),
+      (error: unknown) => error instanceof ApiError && error.details?.reason === "duplicate",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Shipment, ShipmentItem } from "@shared/schema";
+import { calculateLandedCosts, splitByWeights } from "../services/landedCost";
+import {
+  allocatePaymentToSuppliers,
+  allocateShipmentCostsBySupplier,
+  allocationsFromLandedCostSums,
+  type LandedCostSums,
+} from "../services/supplierAllocation";
+
+const baseShipment = {
+  id: 7,
+  shipmentCode: "SH-7",
+  shipmentName: "Multi Supplier",
+  purchaseCostRmb: "1000",
+  purchaseCostEgp: "7000",
+  commissionCostEgp: "300",
+  shippingCostEgp: "900",
+  customsCostEgp: "600",
+  takhreegCostEgp: "0",
+  costAllocationBasis: "purchase_value",
+} as Shipment;
+
+const buildItem = (overrides: Partial<ShipmentItem>): ShipmentItem =>
+  ({
+    id: 1,
+    shipmentId: baseShipment.id,
+    supplierId: null,
+    productName: "Item",
+    cartonsCtn: 0,
+    piecesPerCartonPcs: 0,
+    totalPiecesCou: 0,
+    totalPurchaseCostRmb: "0",
+    ...overrides,
+  }) as ShipmentItem;
+
+const items = [
+  buildItem({ id: 1, supplierId: 1, totalPurchaseCostRmb: "600", cartonsCtn: 1, totalPiecesCou: 100 }),
+  buildItem({ id: 2, supplierId: 2, totalPurchaseCostRmb: "300", cartonsCtn: 1, totalPiecesCou: 100 }),
+  buildItem({ id: 3, supplierId: 1, totalPurchaseCostRmb: "100", cartonsCtn: 1, totalPiecesCou: 100 }),
+];
+
+describe("allocateShipmentCostsBySupplier", () => {
+  it("charges each supplier only its own goods and a share of common costs", () => {
+    const allocations = allocateShipmentCostsBySupplier(baseShipment, items);
+
+    assert.equal(allocations.length, 2);
+    const [first, second] = allocations;
+    assert.equal(first.supplierId, 1);
+    assert.equal(first.purchaseCostEgp, 4900);
+    assert.equal(first.shippingCostEgp, 630);
+    assert.equal(second.purchaseCostEgp, 2100);
+    assert.equal(second.shippingCostEgp, 270);
+    assert.equal(
+      first.totalCostEgp + second.totalCostEgp,
+      7000 + 300 + 900 + 600,
+    );
+  });
+
+  it("splits common costs by cartons when configured, keeping goods by value", () => {
+    const allocations = allocateShipmentCostsBySupplier(
+      { ...baseShipment, costAllocationBasis: "cartons" },
+      items,
+    );
+
+    assert.equal(allocations[0].purchaseCostEgp, 4900);
+    assert.equal(allocations[0].shippingCostEgp, 600);
+    assert.equal(allocations[1].shippingCostEgp, 300);
+  });
+});
+
+describe("allocatePaymentToSuppliers", () => {
+  const allocations = allocateShipmentCostsBySupplier(baseShipment, items);
+
+  it("assigns supplier-targeted payments to that supplier only", () => {
+    const shares = allocatePaymentToSuppliers(
+      { amountOriginal: "500", amountEgp: "500", costComponent: "الشحن", supplierId: 2 },
+      allocations,
+    );
+
+    assert.deepEqual(shares, [{ supplierId: 2, amountOriginal: 500, amountEgp: 500 }]);
+  });
+
+  it("spreads untargeted payments by each supplier's share of the paid component", () => {
+    const shares = allocatePaymentToSuppliers(
+      { amountOriginal: "100", amountEgp: "100", costComponent: "الشحن", supplierId: null },
+      allocations,
+    );
+
+    assert.deepEqual(
+      shares.map((s) => [s.supplierId, s.amountEgp]),
+      [[1, 70], [2, 30]],
+    );
+  });
+});
+
+describe("allocationsFromLandedCostSums", () => {
+  it("matches the item allocation when built from stored landed-cost lines", () => {
+    // What the GROUP BY over stored lines and their items returns
+    const sums: LandedCostSums[] = [];
+    calculateLandedCosts(baseShipment, items).forEach((line, idx) => {
+      const supplierId = items[idx].supplierId;
+      let row = sums.find((sum) => sum.supplierId === supplierId);
+      if (!row) {
+        row = { shipmentId: baseShipment.id, supplierId, purchaseCostEgp: 0, commissionCostEgp: 0, shippingCostEgp: 0, customsCostEgp: 0, takhreegCostEgp: 0, totalCostEgp: 0 };
+        sums.push(row);
+      }
+      row.purchaseCostEgp = String(Number(row.purchaseCostEgp) + line.purchaseCostEgp);
+      row.commissionCostEgp = String(Number(row.commissionCostEgp) + line.commissionShareEgp);
+      row.shippingCostEgp = String(Number(row.shippingCostEgp) + line.shippingShareEgp);
+      row.customsCostEgp = String(Number(row.customsCostEgp) + line.customsShareEgp);
+      row.takhreegCostEgp = String(Number(row.takhreegCostEgp) + line.takhreegShareEgp);
+      row.totalCostEgp = String(Number(row.totalCostEgp) + line.totalLandedCostEgp);
+    });
+
+    const byShipment = allocationsFromLandedCostSums([baseShipment], sums);
+    assert.deepEqual(byShipment.get(baseShipment.id), allocateShipmentCostsBySupplier(baseShipment, items));
+  });
+
+  it("allocates a shipment with no stored lines from its items", () => {
+    const byShipment = allocationsFromLandedCostSums([baseShipment], [], new Map([[baseShipment.id, items]]));
+    assert.deepEqual(byShipment.get(baseShipment.id), allocateShipmentCostsBySupplier(baseShipment, items));
+  });
+});
+
+describe("splitByWeights", () => {
+  it("never loses cents to rounding", () => {
+    const parts = splitByWeights(100, [1, 1, 1]);
+    assert.equal(parts.reduce((sum, p) => sum + p, 0), 100);
+    assert.deepEqual(parts, [33.33, 33.33, 33.34]);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ApiError } from "../errors";
+import {
+  CREDIT_NOTE_APPROVED_STATUS,
+  CREDIT_NOTE_PENDING_STATUS,
+  CREDIT_NOTE_REJECTED_STATUS,
+  parseCreditNote,
+  sumApprovedCredits,
+} from "../services/supplierCredits";
+
+const isInvalid = (field: string) => (error: unknown) =>
+  error instanceof ApiError && error.code === "CREDIT_NOTE_INVALID" && error.details?.field === field;
+
+describe("parseCreditNote", () => {
+  it("converts an RMB credit at the rate given with it", () => {
+    const note = parseCreditNote({
+      supplierId: "7",
+      shipmentId: 3,
+      claimId: 5,
+      creditDate: "2026-03-01",
+      amountRmb: "120",
+      exchangeRate: "7.25",
+      amountEgp: "1",
+      reason: "  تعويض نقص  ",
+    });
+
+    assert.deepEqual(note, {
+      supplierId: 7,
+      shipmentId: 3,
+      shipmentItemId: null,
+      claimId: 5,
+      creditDate: "2026-03-01",
+      amountRmb: "120.00",
+      exchangeRate: "7.2500",
+      amountEgp: "870.00",
+      reason: "تعويض نقص",
+    });
+  });
+
+  it("takes an EGP-only credit as agreed", () => {
+    const note = parseCreditNote({ supplierId: 7, shipmentId: 3, creditDate: "2026-03-01", amountEgp: 450.5 });
+    assert.equal(note.amountRmb, "0.00");
+    assert.equal(note.exchangeRate, null);
+    assert.equal(note.amountEgp, "450.50");
+  });
+
+  it("rejects missing references, bad dates and empty amounts", () => {
+    const base = { supplierId: 7, shipmentId: 3, creditDate: "2026-03-01", amountEgp: 10 };
+    assert.throws(() => parseCreditNote({ ...base, supplierId: undefined }), isInvalid("supplierId"));
+    assert.throws(() => parseCreditNote({ ...base, creditDate: "01/03/2026" }), isInvalid("creditDate"));
+    assert.throws(() => parseCreditNote({ ...base, amountRmb: 50 }), isInvalid("exchangeRate"));
+    assert.throws(() => parseCreditNote({ ...base, amountEgp: 0 }), isInvalid("amountEgp"));
+    assert.throws(() => parseCreditNote({ ...base, amountEgp: -5 }), isInvalid("amountEgp"));
+  });
+});
+
+describe("sumApprovedCredits", () => {
+  it("totals approved notes per supplier and ignores the rest", () => {
+    const totals = sumApprovedCredits([
+      { supplierId: 7, status: CREDIT_NOTE_APPROVED_STATUS, amountEgp: "100.10" },
+      { supplierId: 7, status: CREDIT_NOTE_APPROVED_STATUS, amountEgp: "50.20" },
+      { supplierId: 7, status: CREDIT_NOTE_PENDING_STATUS, amountEgp: "999" },
+      { supplierId: 8, status: CREDIT_NOTE_REJECTED_STATUS, amountEgp: "40" },
+    ]);
+
+    assert.deepEqual(Array.from(totals.entries()), [[7, 150.3]]);
+  });
+});
@@ -1,10 +1,11 @@
 import { storage, type IStorage } from "./storage";
 import type { InsertAuditLog } from "@shared/schema";
+import { ApiError } from "./errors";
 
-export type AuditActionType = "CREATE" | "UPDATE" | "DELETE" | "STATUS_CHANGE";
-export type AuditEntityType = "SHIPMENT" | "PAYMENT" | "EXCHANGE_RATE" | "USER";
+export type AuditActionType = "CREATE" | "UPDATE" | "DELETE" | "STATUS_CHANGE" | "VOID";
+export type AuditEntityType = "SHIPMENT" | "PAYMENT" | "EXCHANGE_RATE" | "USER" | "INVENTORY" | "SETTING" | "WAREHOUSE" | "CREDIT_NOTE" | "ACCOUNTING_PERIOD" | "SUPPLIER_ADVANCE" | "PAYMENT_ACCOUNT" | "PAYMENT_ACCOUNT_TRANSFER";
 
-interface AuditEvent {
+export interface AuditEvent {
   userId?: string | null;
   entityType: AuditEntityType;
   entityId: string | number;
@@ -12,6 +13,62 @@ interface AuditEvent {
   details?: unknown;
 }
 
+const isDateOnly = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+
+/** Optional YYYY-MM-DD bounds for reading the log, both inclusive. */
+export function parseAuditLogPeriod(query: Record<string, unknown>): { dateFrom?: string; dateTo?: string } {
+  const { dateFrom, dateTo } = query;
+  if (dateFrom !== undefined && !isDateOnly(dateFrom)) {
+    throw new ApiError("AUDIT_LOG_PERIOD_INVALID", undefined, 400, { field: "dateFrom" });
+  }
+  if (dateTo !== undefined && (!isDateOnly(dateTo) || (dateFrom !== undefined && dateTo < dateFrom))) {
+    throw new ApiError("AUDIT_LOG_PERIOD_INVALID", undefined, 400, { field: "dateTo" });
+  }
+  return { dateFrom, dateTo };
+}
+
+export type FieldChange = { from: unknown; to: unknown };
+export type FieldChanges = Record<string, FieldChange>;
+
+// Bookkeeping columns that change on every write and carry no business meaning
+const IGNORED_DIFF_FIELDS = ["createdAt", "updatedAt"];
+
+function normalizeDiffValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Builds a field-level before/after diff of two records.
+ * Only columns present in `after` are compared, so partial updates do not
+ * report untouched columns as removed.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  options?: { exclude?: string[] },
+): FieldChanges {
+  const changes: FieldChanges = {};
+  if (!after) return changes;
+
+  const excluded = new Set([...IGNORED_DIFF_FIELDS, ...(options?.exclude ?? [])]);
+
+  for (const field of Object.keys(after)) {
+    if (excluded.has(field)) continue;
+
+    const from = normalizeDiffValue(before?.[field]);
+    const to = normalizeDiffValue(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
 function serializeDetails(details: unknown) {
   if (details === undefined) return null;
   try {
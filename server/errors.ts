@@ -3,15 +3,59 @@ export type ErrorCode =
   | "PERMISSION_DENIED"
   | "SHIPMENT_NOT_FOUND"
   | "SHIPMENT_LOCKED"
+  | "SHIPMENT_STATUS_INVALID"
+  | "SHIPMENT_TRANSITION_NOT_ALLOWED"
+  | "SHIPMENT_TRANSITION_BLOCKED"
   | "PAYMENT_DATE_INVALID"
   | "PAYMENT_PAYLOAD_INVALID"
   | "PAYMENT_RATE_MISSING"
   | "PAYMENT_CURRENCY_UNSUPPORTED"
   | "PAYMENT_OVERPAY"
+  | "PAYMENT_COMPONENT_OVERPAY"
   | "PAYMENT_TOTAL_MISSING"
   | "CONFLICT_RETRY"
   | "PAYMENT_DB_ERROR"
   | "PAYMENT_FETCH_FAILED"
+  | "PAYMENT_NOT_FOUND"
+  | "PAYMENT_ALREADY_VOIDED"
+  | "PAYMENT_REVERSAL_INVALID"
+  | "PAYMENT_REASON_REQUIRED"
+  | "PAYMENT_SUPPLIER_INVALID"
+  | "EXCHANGE_RATE_NOT_FOUND"
+  | "EXCHANGE_RATE_DATE_INVALID"
+  | "INVENTORY_MOVEMENT_INVALID"
+  | "INVENTORY_REASON_REQUIRED"
+  | "INVENTORY_INSUFFICIENT_STOCK"
+  | "SETTING_INVALID"
+  | "WAREHOUSE_NOT_FOUND"
+  | "WAREHOUSE_REQUIRED"
+  | "TRANSFER_INVALID"
+  | "TRANSFER_NOT_FOUND"
+  | "TRANSFER_ALREADY_RECEIVED"
+  | "RECEIVING_INVALID"
+  | "CREDIT_NOTE_INVALID"
+  | "CREDIT_NOTE_NOT_FOUND"
+  | "CREDIT_NOTE_ALREADY_DECIDED"
+  | "LIST_QUERY_INVALID"
+  | "ACCOUNT_MAPPING_INVALID"
+  | "ACCOUNT_MAPPING_MISSING"
+  | "JOURNAL_PERIOD_INVALID"
+  | "PERIOD_INVALID"
+  | "PERIOD_LOCKED"
+  | "ATTACHMENT_INVALID"
+  | "ATTACHMENT_NOT_FOUND"
+  | "REMITTANCE_INVALID"
+  | "REMITTANCE_EXCEEDS_ALLOWANCE"
+  | "REMITTANCE_NOT_FOUND"
+  | "SUPPLIER_ADVANCE_INVALID"
+  | "SUPPLIER_ADVANCE_NOT_FOUND"
+  | "SUPPLIER_ADVANCE_EXCEEDED"
+  | "PAYMENT_ACCOUNT_INVALID"
+  | "PAYMENT_ACCOUNT_NOT_FOUND"
+  | "PAYMENT_ACCOUNT_INACTIVE"
+  | "PAYMENT_ACCOUNT_CURRENCY_MISMATCH"
+  | "AUDIT_LOG_PERIOD_INVALID"
+  | "SHIPMENT_HAS_LEDGER"
   | "UNKNOWN_ERROR";
 
 export interface ApiErrorShape {
@@ -28,15 +72,59 @@ const defaultMessages: Record<ErrorCode, string> = {
   PERMISSION_DENIED: "لا تملك صلاحية لإتمام هذه العملية.",
   SHIPMENT_NOT_FOUND: "الشحنة غير موجودة. تأكد من اختيار شحنة صحيحة.",
   SHIPMENT_LOCKED: "لا يمكن إضافة دفعات على شحنة مغلقة أو مؤرشفة.",
+  SHIPMENT_STATUS_INVALID: "حالة الشحنة غير معروفة.",
+  SHIPMENT_TRANSITION_NOT_ALLOWED: "لا يمكن نقل الشحنة إلى هذه الحالة من حالتها الحالية.",
+  SHIPMENT_TRANSITION_BLOCKED: "لا يمكن تغيير حالة الشحنة قبل استكمال البيانات المطلوبة.",
   PAYMENT_DATE_INVALID: "تاريخ الدفع غير صالح. الرجاء اختيار تاريخ بصيغة YYYY-MM-DD.",
   PAYMENT_PAYLOAD_INVALID: "بيانات الدفعة غير مكتملة أو غير صحيحة. راجع الحقول المطلوبة.",
   PAYMENT_RATE_MISSING: "يلزم سعر صرف صحيح لدفعات RMB. أدخل سعر RMB→EGP لليوم.",
   PAYMENT_CURRENCY_UNSUPPORTED: "عملة الدفع غير مدعومة. استخدم EGP أو RMB فقط.",
   PAYMENT_OVERPAY: "لا يمكن دفع مبلغ أكبر من المتبقي على الشحنة. راجع الرصيد قبل الدفع.",
+  PAYMENT_COMPONENT_OVERPAY: "المبلغ أكبر من المتبقي على هذا البند من تكلفة الشحنة.",
   PAYMENT_TOTAL_MISSING: "لا يمكن تسجيل دفعة قبل حساب إجمالي تكلفة الشحنة. راجع بيانات التكلفة للشحنة.",
   CONFLICT_RETRY: "حدث تعارض بسبب عملية أخرى على نفس الشحنة. أعد المحاولة بعد لحظات.",
   PAYMENT_DB_ERROR: "تعذر حفظ الدفعة بسبب خطأ في قاعدة البيانات.",
   PAYMENT_FETCH_FAILED: "تعذر جلب بيانات المدفوعات حالياً.",
+  PAYMENT_NOT_FOUND: "الدفعة غير موجودة.",
+  PAYMENT_ALREADY_VOIDED: "تم إلغاء هذه الدفعة مسبقاً.",
+  PAYMENT_REVERSAL_INVALID: "لا يمكن إلغاء قيد عكسي. قم بتسجيل دفعة جديدة بدلاً من ذلك.",
+  PAYMENT_REASON_REQUIRED: "يجب كتابة سبب إلغاء الدفعة.",
+  PAYMENT_SUPPLIER_INVALID: "المورد المحدد ليس من موردي هذه الشحنة.",
+  EXCHANGE_RATE_NOT_FOUND: "لا يوجد سعر صرف مسجل لهذا التاريخ. أضف سعر الصرف من صفحة أسعار الصرف ثم أعد المحاولة.",
+  EXCHANGE_RATE_DATE_INVALID: "تاريخ سعر الصرف غير صالح.",
+  INVENTORY_MOVEMENT_INVALID: "بيانات حركة المخزون غير مكتملة أو غير صحيحة.",
+  INVENTORY_REASON_REQUIRED: "يجب كتابة سبب حركة الصرف من المخزون.",
+  INVENTORY_INSUFFICIENT_STOCK: "الكمية المطلوبة أكبر من الرصيد المتاح في المخزون.",
+  SETTING_INVALID: "قيمة الإعداد غير صالحة.",
+  WAREHOUSE_NOT_FOUND: "المخزن غير موجود أو غير نشط.",
+  WAREHOUSE_REQUIRED: "يجب اختيار المخزن الذي سيتم الاستلام فيه.",
+  TRANSFER_INVALID: "بيانات التحويل غير صالحة.",
+  TRANSFER_NOT_FOUND: "التحويل غير موجود.",
+  TRANSFER_ALREADY_RECEIVED: "تم استلام هذا التحويل مسبقاً.",
+  RECEIVING_INVALID: "كميات الاستلام غير صحيحة. راجع المستلم والتالف لكل بند.",
+  CREDIT_NOTE_INVALID: "بيانات الإشعار الدائن غير صحيحة.",
+  CREDIT_NOTE_NOT_FOUND: "الإشعار الدائن غير موجود.",
+  CREDIT_NOTE_ALREADY_DECIDED: "تم اعتماد أو رفض هذا الإشعار مسبقاً.",
+  LIST_QUERY_INVALID: "معايير الترتيب أو التصفح غير صحيحة.",
+  ACCOUNT_MAPPING_INVALID: "بيانات ربط الحسابات غير صحيحة. تأكد من رمز واسم كل حساب.",
+  ACCOUNT_MAPPING_MISSING: "لا يوجد حساب مرتبط بأحد بنود الحركة. راجع دليل الحسابات.",
+  JOURNAL_PERIOD_INVALID: "حدد فترة صحيحة لتصدير القيود.",
+  PERIOD_INVALID: "الفترة المحاسبية غير صحيحة. استخدم صيغة YYYY-MM.",
+  PERIOD_LOCKED: "الفترة المحاسبية لهذا التاريخ مغلقة. لا يمكن تسجيل أو تعديل حركات بتاريخ داخلها.",
+  ATTACHMENT_INVALID: "المرفق غير مقبول. الملفات المسموحة PDF أو JPG أو PNG بحد أقصى 10 ميجابايت.",
+  ATTACHMENT_NOT_FOUND: "المرفق غير موجود.",
+  REMITTANCE_INVALID: "بيانات الدفعة المجمعة غير صحيحة. راجع الشحنات والمبالغ.",
+  REMITTANCE_EXCEEDS_ALLOWANCE: "المبلغ أكبر من المتبقي المسموح بدفعه على الشحنات المختارة.",
+  REMITTANCE_NOT_FOUND: "الدفعة المجمعة غير موجودة.",
+  SUPPLIER_ADVANCE_INVALID: "بيانات الدفعة المقدمة غير صحيحة. راجع الحقول المطلوبة.",
+  SUPPLIER_ADVANCE_NOT_FOUND: "الدفعة المقدمة غير موجودة.",
+  SUPPLIER_ADVANCE_EXCEEDED: "المبلغ أكبر من المتبقي من الدفعة المقدمة.",
+  PAYMENT_ACCOUNT_INVALID: "بيانات الحساب أو التحويل غير صحيحة. راجع الحقول المطلوبة.",
+  PAYMENT_ACCOUNT_NOT_FOUND: "الخزنة أو الحساب غير موجود.",
+  PAYMENT_ACCOUNT_INACTIVE: "الخزنة أو الحساب موقوف ولا يمكن تسجيل حركات عليه.",
+  PAYMENT_ACCOUNT_CURRENCY_MISMATCH: "عملة الدفعة لا تناسب عملة الحساب. حساب اليوان لا يدفع إلا باليوان.",
+  AUDIT_LOG_PERIOD_INVALID: "فترة سجل التغييرات غير صحيحة. استخدم صيغة YYYY-MM-DD وتاريخ بداية لا يتجاوز النهاية.",
+  SHIPMENT_HAS_LEDGER: "لا يمكن حذف شحنة لها قيود في دفتر الشحنة. يمكن أرشفتها بدلاً من ذلك.",
   UNKNOWN_ERROR: "حدث خطأ غير متوقع أثناء حفظ الدفعة.",
 };
 
@@ -1,20 +1,81 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, RequestHandler, Response } from "express";
 import type { Server } from "http";
 import { storage, type IStorage } from "./storage";
 import { setupAuth, isAuthenticated, requireRole } from "./auth";
 import { normalizePaymentAmounts } from "./services/currency";
-import { logAuditEvent } from "./audit";
+import { diffRecords, logAuditEvent, parseAuditLogPeriod } from "./audit";
 import { getPaymentsWithShipments } from "./payments";
-import { createShipmentWithItems, updateShipmentWithItems } from "./shipmentService";
+import { changeShipmentStatus, createShipmentWithItems, updateShipmentWithItems } from "./shipmentService";
 import { ApiError, formatError, success } from "./errors";
 import type { User } from "@shared/schema";
 import {
   insertSupplierSchema,
+  insertWarehouseSchema,
   insertProductTypeSchema,
   insertExchangeRateSchema,
   insertShipmentPaymentSchema,
 } from "@shared/schema";
 import { calculatePaymentSnapshot, parseAmountOrZero } from "./services/paymentCalculations";
+import { allocatePaymentToSuppliers } from "./services/supplierAllocation";
+import { renderPaymentReceipt, renderShipmentCostSheet } from "./services/shipmentDocuments";
+import { EXCHANGE_RATE_TOLERANCE_DAYS } from "./services/exchangeRates";
+import { configuredRateProvider, type ExchangeRateProvider } from "./services/rateProviders";
+import { startExchangeRateSync, syncExchangeRates, type RateSyncResult } from "./services/rateSync";
+import { parseOutboundMovement, parseTransfer } from "./services/inventoryStock";
+import { INVENTORY_COSTING_METHODS, isInventoryCostingMethod } from "./services/inventoryCosting";
+import { CREDIT_NOTE_PENDING_STATUS, parseCreditNote } from "./services/supplierCredits";
+import {
+  buildJournalEntries,
+  journalToCsv,
+  parseAccountMappings,
+  parseJournalPeriod,
+  resolveChartOfAccounts,
+} from "./services/journalExport";
+import { PERIOD_CLOSED_STATUS, PERIOD_OPEN_STATUS, parsePeriodMonth } from "./services/accountingPeriods";
+import { parseRemittance } from "./services/paymentRemittance";
+import { parseAdvanceApplication, parseSupplierAdvance } from "./services/supplierAdvances";
+import { parseAccountTransfer, parsePaymentAccount } from "./services/paymentAccounts";
+import {
+  PAYMENT_ATTACHMENT_MAX_BYTES,
+  PAYMENT_ATTACHMENT_MAX_FILES,
+  acceptAttachment,
+  attachmentDisposition,
+  attachmentPath,
+  removeAttachmentFiles,
+  writeAttachmentFiles,
+} from "./services/paymentAttachments";
+import {
+  compareWithLedger,
+  reconcileShipmentLedgers,
+  startLedgerReconciliation,
+  summarizeLedger,
+} from "./services/shipmentLedger";
+import {
+  INVENTORY_SORT_FIELDS,
+  PAYMENT_SORT_FIELDS,
+  SHIPMENT_SORT_FIELDS,
+  SHIPMENT_VIEWS,
+  isPaginatedQuery,
+  parseListQuery,
+  readChoiceFilter,
+  readDateFilter,
+  readIdFilter,
+  readTextFilter,
+} from "./services/listQuery";
+import {
+  RECEIVED_STATUS,
+  SHIPMENT_STATUS_TRANSITIONS,
+  buildStatusStages,
+  findStatusBeforeArchive,
+  isShipmentStatus,
+} from "./services/shipmentStatus";
+import {
+  ITEM_IMPORT_MAX_ROWS,
+  buildItemImportPreview,
+  detectColumnMapping,
+  parseColumnMapping,
+  readImportSheet,
+} from "./services/itemImport";
 import bcrypt from "bcryptjs";
 import multer from "multer";
 import path from "path";
@@ -51,9 +112,46 @@ const uploadItemImage = multer({
   },
 });
 
+// Packing lists are parsed in memory and never stored; only the previewed rows are returned
+const uploadItemSheet = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = /\.(xlsx|csv)$/;
+    if (allowedTypes.test(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only XLSX or CSV files are allowed"));
+    }
+  },
+});
+
+// Payment proofs are checked by content before anything is written to disk
+const uploadPaymentAttachments = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: PAYMENT_ATTACHMENT_MAX_BYTES, files: PAYMENT_ATTACHMENT_MAX_FILES },
+});
+
+// Multer rejects oversized or excess files before the route runs; answer those in the API error format
+const receivePaymentAttachments: RequestHandler = (req, res, next) =>
+  uploadPaymentAttachments.array("files", PAYMENT_ATTACHMENT_MAX_FILES)(req, res, (error?: unknown) => {
+    if (!error) return next();
+    const reason = error instanceof multer.MulterError ? error.code : "UPLOAD_FAILED";
+    const { status, body } = formatError(new ApiError("ATTACHMENT_INVALID", undefined, 400, { reason }));
+    res.status(status).json(body);
+  });
+
+function sendPdf(res: Response, pdf: Buffer, filename: string) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(filename)}`);
+  res.setHeader("Content-Length", pdf.length);
+  res.send(pdf);
+}
+
 type RouteDependencies = {
   storage?: IStorage;
   auditLogger?: typeof logAuditEvent;
+  rateProvider?: ExchangeRateProvider;
   auth?: {
     setupAuth: (app: Express) => Promise<void>;
     isAuthenticated: RequestHandler;
@@ -62,16 +160,22 @@ type RouteDependencies = {
 };
 
 type CreatePaymentHandlerDeps = {
-  storage: Pick<IStorage, "createPayment">;
+  storage: Pick<IStorage, "createPayment" | "getRateForDate">;
   logAuditEvent: (event: Parameters<typeof logAuditEvent>[0]) => void;
 };
 
 export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHandler {
   return async (req, res) => {
     try {
-      const { shipmentId, paymentDate, paymentCurrency, amountOriginal, exchangeRateToEgp, costComponent, paymentMethod, cashReceiverName, referenceNumber, notes } = req.body;
+      const { shipmentId, supplierId, paymentAccountId, paymentDate, paymentCurrency, amountOriginal, exchangeRateToEgp, costComponent, paymentMethod, cashReceiverName, referenceNumber, notes } = req.body;
       const actorId = (req.user as any)?.id;
 
+      // Paying a cost component past its cost is an admin decision
+      const allowComponentOverpay = req.body.allowComponentOverpay === true;
+      if (allowComponentOverpay && (req.user as any)?.role !== "مدير") {
+        throw new ApiError("PERMISSION_DENIED", undefined, 403, { field: "allowComponentOverpay" });
+      }
+
       // Validate payment date
       const parsedDate = new Date(paymentDate);
       if (isNaN(parsedDate.getTime())) {
@@ -96,9 +200,22 @@ export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHan
         });
       }
 
+      // RMB payments without a rate are valued at the rate in effect on the payment date
+      let rmbRate = exchangeRateToEgp;
+      if (paymentCurrency === "RMB" && (rmbRate === undefined || rmbRate === null || rmbRate === "")) {
+        const effectiveRate = await deps.storage.getRateForDate("RMB", "EGP", parsedDate);
+        if (!effectiveRate) {
+          throw new ApiError("EXCHANGE_RATE_NOT_FOUND", undefined, 400, {
+            field: "exchangeRateToEgp",
+            date: parsedDate.toISOString().slice(0, 10),
+          });
+        }
+        rmbRate = effectiveRate.rateValue;
+      }
+
       // Validate exchange rate for RMB payments
       if (paymentCurrency === "RMB") {
-        const rate = parseFloat(exchangeRateToEgp);
+        const rate = parseFloat(rmbRate);
         if (isNaN(rate)) {
           return res.status(400).json({
             error: {
@@ -123,11 +240,13 @@ export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHan
       const normalizedAmounts = normalizePaymentAmounts({
         paymentCurrency,
         amountOriginal: originalAmount,
-        exchangeRateToEgp: paymentCurrency === "RMB" ? parseFloat(exchangeRateToEgp) : null,
+        exchangeRateToEgp: paymentCurrency === "RMB" ? parseFloat(rmbRate) : null,
       });
 
       const payment = await deps.storage.createPayment({
         shipmentId,
+        supplierId: supplierId ? parseInt(supplierId) : null,
+        paymentAccountId: paymentAccountId ? parseInt(paymentAccountId) : null,
         paymentDate: parsedDate,
         paymentCurrency,
         amountOriginal: amountOriginal.toString(),
@@ -139,7 +258,8 @@ export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHan
         referenceNumber: referenceNumber || null,
         note: notes || null,
         createdByUserId: actorId,
-      });
+      }, { allowComponentOverpay });
+      const { componentOverpay, ...recorded } = payment;
 
       deps.logAuditEvent({
         userId: actorId,
@@ -150,11 +270,135 @@ export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHan
           shipmentId,
           amount: normalizedAmounts.amountEgp.toString(),
           currency: paymentCurrency,
-          method: paymentMethod,
+          method: payment.paymentMethod ?? paymentMethod,
+          ...(payment.supplierId ? { supplierId: payment.supplierId } : {}),
+          ...(payment.paymentAccountId ? { paymentAccountId: payment.paymentAccountId } : {}),
+          ...(componentOverpay ? { componentOverpay } : {}),
+        },
+      });
+
+      res.json({ ok: true, payment: recorded, ...(componentOverpay ? { componentOverpay } : {}) });
+    } catch (error) {
+      const { status, body } = formatError(error, {
+        code: "PAYMENT_FETCH_FAILED",
+        status: 500,
+      });
+      res.status(status).json(body);
+    }
+  };
+}
+
+// Same fallback as a single payment: RMB without a rate uses the rate in effect on the given date
+async function withEffectiveRmbRate<T extends { paymentCurrency: string; exchangeRateToEgp: number | null }>(
+  storage: Pick<IStorage, "getRateForDate">,
+  input: T,
+  date: Date,
+): Promise<T> {
+  if (input.paymentCurrency !== "RMB" || input.exchangeRateToEgp !== null) return input;
+
+  const effectiveRate = await storage.getRateForDate("RMB", "EGP", date);
+  if (!effectiveRate) {
+    throw new ApiError("EXCHANGE_RATE_NOT_FOUND", undefined, 400, {
+      field: "exchangeRateToEgp",
+      date: date.toISOString().slice(0, 10),
+    });
+  }
+  return { ...input, exchangeRateToEgp: parseFloat(effectiveRate.rateValue) };
+}
+
+type CreateRemittanceHandlerDeps = {
+  storage: Pick<IStorage, "createRemittance" | "getRateForDate">;
+  logAuditEvent: (event: Parameters<typeof logAuditEvent>[0]) => void;
+};
+
+export function createRemittanceHandler(deps: CreateRemittanceHandlerDeps): RequestHandler {
+  return async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const parsed = parseRemittance(req.body);
+      const input = await withEffectiveRmbRate(deps.storage, parsed, parsed.paymentDate);
+      const remittance = await deps.storage.createRemittance(input, actorId);
+
+      // Each child payment is audited like a single payment so shipment histories stay complete
+      for (const payment of remittance.payments) {
+        deps.logAuditEvent({
+          userId: actorId,
+          entityType: "PAYMENT",
+          entityId: payment.id,
+          actionType: "CREATE",
+          details: {
+            shipmentId: payment.shipmentId,
+            amount: payment.amountEgp,
+            currency: payment.paymentCurrency,
+            method: payment.paymentMethod,
+            remittanceId: remittance.id,
+            allocationMethod: remittance.allocationMethod,
+          },
+        });
+      }
+
+      res.json({ ok: true, remittance });
+    } catch (error) {
+      const { status, body } = formatError(error, {
+        code: "UNKNOWN_ERROR",
+        status: 500,
+      });
+      res.status(status).json(body);
+    }
+  };
+}
+
+type ReversePaymentHandlerDeps = {
+  storage: Pick<IStorage, "reversePayment">;
+  logAuditEvent: (event: Parameters<typeof logAuditEvent>[0]) => void;
+};
+
+export function reversePaymentHandler(deps: ReversePaymentHandlerDeps): RequestHandler {
+  return async (req, res) => {
+    try {
+      const paymentId = parseInt(req.params.id);
+      const actorId = (req.user as any)?.id;
+
+      if (isNaN(paymentId)) {
+        return res.status(404).json({
+          error: {
+            code: "PAYMENT_NOT_FOUND",
+            message: "الدفعة غير موجودة.",
+            details: { paymentId: req.params.id },
+          },
+        });
+      }
+
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({
+          error: {
+            code: "PAYMENT_REASON_REQUIRED",
+            message: "يجب كتابة سبب إلغاء الدفعة.",
+            details: { field: "reason" },
+          },
+        });
+      }
+
+      const { original, reversal, shipment } = await deps.storage.reversePayment(paymentId, {
+        reason,
+        userId: actorId,
+      });
+
+      deps.logAuditEvent({
+        userId: actorId,
+        entityType: "PAYMENT",
+        entityId: original.id,
+        actionType: "VOID",
+        details: {
+          shipmentId: original.shipmentId,
+          reversalPaymentId: reversal.id,
+          amount: original.amountEgp,
+          reason,
         },
       });
 
-      res.json({ ok: true, payment });
+      res.json({ ok: true, payment: original, reversal, shipment });
     } catch (error) {
       const { status, body } = formatError(error, {
         code: "PAYMENT_FETCH_FAILED",
@@ -165,6 +409,88 @@ export function createPaymentHandler(deps: CreatePaymentHandlerDeps): RequestHan
   };
 }
 
+type ChangeShipmentStatusHandlerDeps = {
+  changeShipmentStatus: typeof changeShipmentStatus;
+  logAuditEvent: (event: Parameters<typeof logAuditEvent>[0]) => void;
+};
+
+export function changeShipmentStatusHandler(deps: ChangeShipmentStatusHandlerDeps): RequestHandler {
+  return async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const user = req.user as any;
+
+      if (isNaN(shipmentId)) {
+        throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: req.params.id });
+      }
+
+      const { shipment, previousStatus, overrideReason } = await deps.changeShipmentStatus(
+        shipmentId,
+        {
+          status: req.body?.status,
+          overrideReason: typeof req.body?.overrideReason === "string" ? req.body.overrideReason : null,
+          warehouseId: req.body?.warehouseId,
+          receiving: req.body?.receiving,
+        },
+        { userId: user?.id, role: user?.role },
+      );
+
+      deps.logAuditEvent({
+        userId: user?.id,
+        entityType: "SHIPMENT",
+        entityId: shipmentId,
+        actionType: "STATUS_CHANGE",
+        details: {
+          from: previousStatus,
+          to: shipment.status,
+          ...(overrideReason ? { overrideReason } : {}),
+        },
+      });
+
+      res.json(shipment);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  };
+}
+
+type CreateInventoryMovementHandlerDeps = {
+  storage: Pick<IStorage, "createOutboundMovement">;
+  logAuditEvent: (event: Parameters<typeof logAuditEvent>[0]) => void;
+};
+
+export function createInventoryMovementHandler(deps: CreateInventoryMovementHandlerDeps): RequestHandler {
+  return async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const input = parseOutboundMovement(req.body);
+      const movement = await deps.storage.createOutboundMovement(input, actorId);
+
+      deps.logAuditEvent({
+        userId: actorId,
+        entityType: "INVENTORY",
+        entityId: movement.id,
+        actionType: "CREATE",
+        details: {
+          movementType: movement.movementType,
+          productId: movement.productId,
+          shipmentItemId: movement.shipmentItemId,
+          warehouseId: movement.warehouseId,
+          quantity: movement.totalPiecesOut,
+          totalCostEgp: movement.totalCostEgp,
+          reason: movement.reason,
+        },
+      });
+
+      res.status(201).json(movement);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express,
@@ -173,6 +499,30 @@ export async function registerRoutes(
   const routeStorage: IStorage = deps.storage ?? storage;
   const auth = deps.auth ?? { setupAuth, isAuthenticated, requireRole };
   const auditLogger = deps.auditLogger ?? ((event: Parameters<typeof logAuditEvent>[0]) => logAuditEvent(event, routeStorage));
+  const rateProvider = deps.rateProvider ?? configuredRateProvider();
+
+  const logSyncedRates = (result: RateSyncResult, userId?: string | null) => {
+    result.inserted.forEach((rate) => {
+      auditLogger({
+        userId,
+        entityType: "EXCHANGE_RATE",
+        entityId: rate.id,
+        actionType: "CREATE",
+        details: { from: rate.fromCurrency, to: rate.toCurrency, source: result.provider },
+      });
+    });
+  };
+
+  if (process.env.NODE_ENV !== "test") {
+    // Shipments from before the stored breakdown existed would otherwise show an empty landed cost
+    const backfilled = await routeStorage.backfillShipmentLandedCosts();
+    if (backfilled > 0) console.log(`[LANDED COST] Stored the breakdown for ${backfilled} shipment(s)`);
+    // Shipments from before the ledger get opening entries first, or the job would flag every one of them
+    const opened = await routeStorage.openShipmentLedgers();
+    if (opened > 0) console.log(`[LEDGER] Posted opening entries for ${opened} shipment(s)`);
+    startExchangeRateSync(routeStorage, { provider: rateProvider, onResult: (result) => logSyncedRates(result) });
+    startLedgerReconciliation(routeStorage);
+  }
   // Setup authentication
   await auth.setupAuth(app);
 
@@ -309,9 +659,29 @@ export async function registerRoutes(
   // Shipments
   app.get("/api/shipments", isAuthenticated, async (req, res) => {
     try {
-      const shipments = await routeStorage.getAllShipments();
-      res.json(shipments);
+      if (!isPaginatedQuery(req.query)) {
+        return res.json(await routeStorage.getAllShipments());
+      }
+
+      const query = parseListQuery(req.query, SHIPMENT_SORT_FIELDS, "createdAt");
+      const page = await routeStorage.listShipments(
+        {
+          view: readChoiceFilter(req.query, "view", SHIPMENT_VIEWS),
+          status: readTextFilter(req.query, "status"),
+          paymentStatus: readTextFilter(req.query, "paymentStatus"),
+          dateFrom: readDateFilter(req.query, "dateFrom"),
+          dateTo: readDateFilter(req.query, "dateTo"),
+          supplierId: readIdFilter(req.query, "supplierId"),
+          search: readTextFilter(req.query, "search")?.trim() || undefined,
+        },
+        query,
+      );
+      res.json(page);
     } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(500).json({ message: "Error fetching shipments" });
     }
   });
@@ -328,6 +698,49 @@ export async function registerRoutes(
     }
   });
 
+  // Bulk item import: parses a packing list and returns a row-level report; the
+  // wizard adds the accepted rows to the shipment, which is saved as usual
+  app.post(
+    "/api/shipments/import-items/preview",
+    requireRole(["مدير", "محاسب"]),
+    uploadItemSheet.single("file"),
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "لم يتم رفع ملف" });
+        }
+
+        let sheet;
+        try {
+          sheet = await readImportSheet(req.file.buffer);
+        } catch {
+          return res.status(400).json({ message: "تعذر قراءة الملف. تأكد أنه ملف Excel أو CSV صالح" });
+        }
+
+        if (sheet.columns.length === 0 || sheet.rows.length === 0) {
+          return res.status(400).json({ message: "الملف لا يحتوي على بيانات" });
+        }
+        if (sheet.rows.length > ITEM_IMPORT_MAX_ROWS) {
+          return res.status(400).json({
+            message: `الحد الأقصى للاستيراد ${ITEM_IMPORT_MAX_ROWS} صف في الملف الواحد`,
+          });
+        }
+
+        const mapping =
+          parseColumnMapping(req.body?.mapping, sheet.columns) ?? detectColumnMapping(sheet.columns);
+        const [allSuppliers, allProductTypes] = await Promise.all([
+          routeStorage.getAllSuppliers(),
+          routeStorage.getAllProductTypes(),
+        ]);
+
+        res.json(buildItemImportPreview(sheet, mapping, allSuppliers, allProductTypes));
+      } catch (error) {
+        console.error("Error previewing item import:", error);
+        res.status(500).json({ message: "خطأ في قراءة ملف الأصناف" });
+      }
+    },
+  );
+
   app.post("/api/shipments", requireRole(["مدير", "محاسب"]), async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
@@ -344,6 +757,10 @@ export async function registerRoutes(
       res.json(shipment);
     } catch (error) {
       console.error("Error creating shipment:", error);
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(400).json({ message: (error as Error)?.message || "تعذر إنشاء الشحنة" });
     }
   });
@@ -356,14 +773,21 @@ export async function registerRoutes(
       const existingShipment = await routeStorage.getShipment(shipmentId);
       const previousStatus = existingShipment?.status;
       
-      const updatedShipment = await updateShipmentWithItems(shipmentId, req.body);
+      const updatedShipment = await updateShipmentWithItems(shipmentId, req.body, {
+        userId,
+        role: (req.user as any)?.role,
+      });
       
       logAuditEvent({
         userId,
         entityType: "SHIPMENT",
         entityId: shipmentId,
         actionType: "UPDATE",
-        details: { step: req.body.step, status: updatedShipment?.status },
+        details: {
+          step: req.body.step,
+          status: updatedShipment?.status,
+          changes: diffRecords(existingShipment, updatedShipment),
+        },
       });
       
       if (updatedShipment && updatedShipment.status !== previousStatus) {
@@ -379,12 +803,103 @@ export async function registerRoutes(
       res.json(updatedShipment);
     } catch (error) {
       console.error("Error updating shipment:", error);
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       const message = (error as Error)?.message || "حدث خطأ أثناء حفظ بيانات الشحنة";
       const status = message === "الشحنة غير موجودة" ? 404 : 400;
       res.status(status).json({ message });
     }
   });
 
+  app.post(
+    "/api/shipments/:id/status",
+    requireRole(["مدير", "محاسب", "مسؤول مخزون"]),
+    changeShipmentStatusHandler({ changeShipmentStatus, logAuditEvent: auditLogger }),
+  );
+
+  // Status history with the time spent in each stage
+  app.get("/api/shipments/:id/status-history", isAuthenticated, async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const shipment = await routeStorage.getShipment(shipmentId);
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+
+      const [history, receipts] = await Promise.all([
+        routeStorage.getShipmentStatusHistory(shipmentId),
+        routeStorage.getShipmentReceipts(shipmentId),
+      ]);
+      res.json({
+        status: shipment.status,
+        history,
+        stages: buildStatusStages(history),
+        allowedTransitions: isShipmentStatus(shipment.status)
+          ? SHIPMENT_STATUS_TRANSITIONS[shipment.status]
+          : [],
+        // A received shipment archived before the history existed can only go back to received
+        statusBeforeArchive: findStatusBeforeArchive(history) ?? (receipts.length > 0 ? RECEIVED_STATUS : null),
+      });
+    } catch (error) {
+      console.error("Error fetching shipment status history:", error);
+      res.status(500).json({ message: "خطأ في جلب سجل حالات الشحنة" });
+    }
+  });
+
+  app.get("/api/shipments/:id/ledger", isAuthenticated, async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const shipment = await routeStorage.getShipment(shipmentId);
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+
+      const entries = await routeStorage.getShipmentLedger(shipmentId);
+      const totals = summarizeLedger(entries);
+      res.json({ entries, totals, mismatches: compareWithLedger(shipment, totals) });
+    } catch (error) {
+      console.error("Error fetching shipment ledger:", error);
+      res.status(500).json({ message: "خطأ في جلب دفتر قيود الشحنة" });
+    }
+  });
+
+  // Rebuilds the landed cost breakdown, posts whatever the ledger is missing and rewrites the cached totals from it
+  app.post("/api/shipments/:id/ledger/resync", requireRole(["مدير"]), async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const userId = (req.user as any)?.id;
+      const before = await routeStorage.getShipment(shipmentId);
+      const shipment = await routeStorage.resyncShipmentLedger(shipmentId, userId);
+
+      auditLogger({
+        userId,
+        entityType: "SHIPMENT",
+        entityId: shipmentId,
+        actionType: "UPDATE",
+        details: {
+          ledgerResync: true,
+          before: before && {
+            finalTotalCostEgp: before.finalTotalCostEgp,
+            totalPaidEgp: before.totalPaidEgp,
+            balanceEgp: before.balanceEgp,
+          },
+          after: {
+            finalTotalCostEgp: shipment.finalTotalCostEgp,
+            totalPaidEgp: shipment.totalPaidEgp,
+            balanceEgp: shipment.balanceEgp,
+          },
+        },
+      });
+
+      res.json(shipment);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
   app.delete("/api/shipments/:id", requireRole(["مدير", "محاسب"]), async (req, res) => {
     try {
       const shipmentId = parseInt(req.params.id);
@@ -401,6 +916,10 @@ export async function registerRoutes(
       
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(500).json({ message: "Error deleting shipment" });
     }
   });
@@ -415,6 +934,14 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/shipments/:id/receipts", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getShipmentReceipts(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching shipment receipts" });
+    }
+  });
+
   // Shipment Shipping Details
   app.get("/api/shipments/:id/shipping", isAuthenticated, async (req, res) => {
     try {
@@ -425,36 +952,148 @@ export async function registerRoutes(
     }
   });
 
+  // Shipment timeline - audit events for the shipment and its payments
+  app.get("/api/shipments/:id/audit-logs", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      // A malformed id must not fall through to the unfiltered log
+      const shipmentId = Number(req.params.id);
+      if (!Number.isInteger(shipmentId) || shipmentId <= 0) {
+        throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: req.params.id });
+      }
+      const logs = await routeStorage.getAuditLogs({ shipmentId });
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
+      console.error("Error fetching shipment audit logs:", error);
+      res.status(500).json({ message: "خطأ في جلب سجل تغييرات الشحنة" });
+    }
+  });
+
   // Invoice Summary - breakdown by currency
-  app.get("/api/shipments/:id/invoice-summary", isAuthenticated, async (req, res) => {
+  app.get("/api/shipments/:id/landed-cost", isAuthenticated, async (req, res) => {
     try {
       const shipmentId = parseInt(req.params.id);
       const shipment = await routeStorage.getShipment(shipmentId);
-      
+
       if (!shipment) {
         return res.status(404).json({ message: "الشحنة غير موجودة" });
       }
-      
-      const payments = await routeStorage.getShipmentPayments(shipmentId);
-      const paymentAllowance = await routeStorage.getPaymentAllowance(shipmentId, { shipment });
-      
-      const paymentSnapshot = await calculatePaymentSnapshot({
-        shipment,
-        payments,
-        loadRecoveryData: async () => {
-          const items = await routeStorage.getShipmentItems(shipmentId);
-          const rate = await routeStorage.getLatestRate("RMB", "EGP");
 
-          return {
-            items,
-            rmbToEgpRate: rate ? parseAmountOrZero(rate.rateValue) : undefined,
-          };
+      // Read-only: the breakdown is rebuilt by the writes that change it and by the ledger resync
+      const [items, lines] = await Promise.all([
+        routeStorage.getShipmentItems(shipmentId),
+        routeStorage.getShipmentLandedCosts(shipmentId),
+      ]);
+
+      const itemMap = new Map(items.map((item) => [item.id, item]));
+      const sum = (field: keyof typeof lines[number]) =>
+        lines.reduce((total, line) => total + parseAmountOrZero(line[field]), 0).toFixed(2);
+
+      res.json({
+        shipmentId,
+        shipmentCode: shipment.shipmentCode,
+        basis: shipment.costAllocationBasis,
+        items: lines.map((line) => ({
+          ...line,
+          productName: itemMap.get(line.shipmentItemId)?.productName ?? null,
+          supplierId: itemMap.get(line.shipmentItemId)?.supplierId ?? null,
+        })),
+        totals: {
+          pieces: lines.reduce((total, line) => total + line.pieces, 0),
+          purchaseCostEgp: sum("purchaseCostEgp"),
+          commissionShareEgp: sum("commissionShareEgp"),
+          shippingShareEgp: sum("shippingShareEgp"),
+          customsShareEgp: sum("customsShareEgp"),
+          takhreegShareEgp: sum("takhreegShareEgp"),
+          totalLandedCostEgp: sum("totalLandedCostEgp"),
         },
       });
+    } catch (error) {
+      console.error("Error fetching landed cost:", error);
+      res.status(500).json({ message: "خطأ في حساب تكلفة الوصول" });
+    }
+  });
+
+  app.get("/api/shipments/:id/supplier-allocation", isAuthenticated, async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const shipment = await routeStorage.getShipment(shipmentId);
+
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+
+      const [allocations, payments, allSuppliers] = await Promise.all([
+        routeStorage.getSupplierAllocations(shipment),
+        routeStorage.getShipmentPayments(shipmentId),
+        routeStorage.getAllSuppliers(),
+      ]);
+      const supplierNames = new Map(allSuppliers.map((s) => [s.id, s.name]));
+
+      const paidBySupplier = new Map<number | null, number>();
+      for (const payment of payments) {
+        for (const share of allocatePaymentToSuppliers(payment, allocations)) {
+          paidBySupplier.set(share.supplierId, (paidBySupplier.get(share.supplierId) ?? 0) + share.amountEgp);
+        }
+      }
+
+      res.json({
+        shipmentId,
+        basis: shipment.costAllocationBasis,
+        suppliers: allocations.map((allocation) => {
+          const paid = paidBySupplier.get(allocation.supplierId) ?? 0;
+          return {
+            supplierId: allocation.supplierId,
+            supplierName: allocation.supplierId ? supplierNames.get(allocation.supplierId) ?? null : null,
+            purchaseCostEgp: allocation.purchaseCostEgp.toFixed(2),
+            commissionCostEgp: allocation.commissionCostEgp.toFixed(2),
+            shippingCostEgp: allocation.shippingCostEgp.toFixed(2),
+            customsCostEgp: allocation.customsCostEgp.toFixed(2),
+            takhreegCostEgp: allocation.takhreegCostEgp.toFixed(2),
+            totalCostEgp: allocation.totalCostEgp.toFixed(2),
+            totalPaidEgp: paid.toFixed(2),
+            balanceEgp: (allocation.totalCostEgp - paid).toFixed(2),
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Error fetching supplier allocation:", error);
+      res.status(500).json({ message: "خطأ في توزيع تكلفة الشحنة على الموردين" });
+    }
+  });
+
+  app.get("/api/shipments/:id/invoice-summary", isAuthenticated, async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const shipment = await routeStorage.getShipment(shipmentId);
+      
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+      
+      const payments = await routeStorage.getShipmentPayments(shipmentId);
+      const paymentAllowance = await routeStorage.getPaymentAllowance(shipmentId, { shipment });
+      
+      const paymentSnapshot = await calculatePaymentSnapshot({
+        shipment,
+        payments,
+        loadRecoveryData: async () => {
+          const items = await routeStorage.getShipmentItems(shipmentId);
+          const rate = await routeStorage.getRateForDate("RMB", "EGP", shipment.purchaseDate);
+
+          return {
+            items,
+            rmbToEgpRate: rate ? parseAmountOrZero(rate.rateValue) : undefined,
+          };
+        },
+      });
+
+      const paidRmb = paymentSnapshot.paidByCurrency.RMB?.original ?? 0;
+      const paidEgp = paymentSnapshot.paidByCurrency.EGP?.original ?? 0;
 
-      const paidRmb = paymentSnapshot.paidByCurrency.RMB?.original ?? 0;
-      const paidEgp = paymentSnapshot.paidByCurrency.EGP?.original ?? 0;
-
       // RMB costs breakdown
       const goodsTotalRmb = parseAmountOrZero(shipment.purchaseCostRmb || "0");
       const shippingTotalRmb = parseAmountOrZero(
@@ -517,10 +1156,53 @@ export async function registerRoutes(
       });
     } catch (error) {
       console.error("Error fetching invoice summary:", error);
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(500).json({ message: "خطأ في جلب ملخص الفاتورة" });
     }
   });
 
+  app.get("/api/shipments/:id/cost-sheet.pdf", isAuthenticated, async (req, res) => {
+    try {
+      const shipmentId = parseInt(req.params.id);
+      const shipment = await routeStorage.getShipment(shipmentId);
+
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+
+      const items = await routeStorage.getShipmentItems(shipmentId);
+      const [landedCosts, shippingDetails, payments, allSuppliers] = await Promise.all([
+        routeStorage.getShipmentLandedCosts(shipmentId),
+        routeStorage.getShippingDetails(shipmentId),
+        routeStorage.getShipmentPayments(shipmentId),
+        routeStorage.getAllSuppliers(),
+      ]);
+      const supplierNames = new Map(allSuppliers.map((s) => [s.id, s.name]));
+      const landedByItem = new Map(landedCosts.map((line) => [line.shipmentItemId, line]));
+
+      const pdf = await renderShipmentCostSheet({
+        shipment,
+        items: items.map((item) => ({
+          ...item,
+          supplierName: item.supplierId ? supplierNames.get(item.supplierId) ?? null : null,
+          landedCost: landedByItem.get(item.id) ?? null,
+        })),
+        shippingDetails: shippingDetails ?? null,
+        payments,
+        supplierNames,
+        generatedAt: new Date(),
+      });
+
+      sendPdf(res, pdf, `cost-sheet-${shipment.shipmentCode}.pdf`);
+    } catch (error) {
+      console.error("Error generating cost sheet:", error);
+      res.status(500).json({ message: "خطأ في إنشاء كشف التكلفة" });
+    }
+  });
+
   // Exchange Rates
   app.get("/api/exchange-rates", isAuthenticated, async (req, res) => {
     try {
@@ -531,6 +1213,26 @@ export async function registerRoutes(
     }
   });
 
+  // Rate in effect on a given date, used to value backdated payments and shipments
+  app.get("/api/exchange-rates/effective/:from/:to/:date", isAuthenticated, async (req, res) => {
+    try {
+      const { from, to, date } = req.params;
+      const rate = await routeStorage.getRateForDate(from, to, date);
+      if (!rate) {
+        throw new ApiError("EXCHANGE_RATE_NOT_FOUND", undefined, 404, {
+          from,
+          to,
+          date,
+          toleranceDays: EXCHANGE_RATE_TOLERANCE_DAYS,
+        });
+      }
+      res.json(rate);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
   app.post("/api/exchange-rates", requireRole(["مدير", "محاسب"]), async (req, res) => {
     try {
       const data = insertExchangeRateSchema.parse(req.body);
@@ -547,50 +1249,28 @@ export async function registerRoutes(
       
       res.json(rate);
     } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(400).json({ message: "Invalid data" });
     }
   });
 
-  // Manual/automatic refresh - simulate external update
+  // Manual refresh - pulls from the configured provider, same as the background job
   app.post("/api/exchange-rates/refresh", requireRole(["مدير", "محاسب"]), async (req, res) => {
     try {
-      const today = new Date();
-      const todayStr = today.toISOString().split("T")[0];
-      const latestRmb = await routeStorage.getLatestRate("RMB", "EGP");
-      const latestUsd = await routeStorage.getLatestRate("USD", "RMB");
       const userId = (req.user as any)?.id;
-
-      const refreshed = await Promise.all([
-        routeStorage.createExchangeRate({
-          rateDate: todayStr,
-          fromCurrency: "RMB",
-          toCurrency: "EGP",
-          rateValue: latestRmb?.rateValue || "7.0000",
-          source: "تحديث تلقائي",
-        }),
-        routeStorage.createExchangeRate({
-          rateDate: todayStr,
-          fromCurrency: "USD",
-          toCurrency: "RMB",
-          rateValue: latestUsd?.rateValue || "7.2000",
-          source: "تحديث تلقائي",
-        }),
-      ]);
-
-      refreshed.forEach((rate) => {
-        logAuditEvent({
-          userId,
-          entityType: "EXCHANGE_RATE",
-          entityId: rate.id,
-          actionType: "CREATE",
-          details: { from: rate.fromCurrency, to: rate.toCurrency },
-        });
-      });
+      const result = await syncExchangeRates({ provider: rateProvider, storage: routeStorage });
+      logSyncedRates(result, userId);
 
       res.json({
-        message: "تم تحديث الأسعار",
-        lastUpdated: today,
-        rates: refreshed,
+        message: result.inserted.length > 0 ? "تم تحديث الأسعار" : "لا توجد أسعار جديدة",
+        lastUpdated: new Date(),
+        provider: result.provider,
+        rates: result.inserted,
+        duplicates: result.duplicates,
+        rejected: result.rejected,
       });
     } catch (error) {
       console.error("Error refreshing exchange rates", error);
@@ -601,8 +1281,25 @@ export async function registerRoutes(
   // Payments
   app.get("/api/payments", isAuthenticated, async (req, res) => {
     try {
-      const paymentsWithShipments = await getPaymentsWithShipments(routeStorage);
-      res.json(paymentsWithShipments);
+      if (!isPaginatedQuery(req.query)) {
+        return res.json(await getPaymentsWithShipments(routeStorage));
+      }
+
+      const query = parseListQuery(req.query, PAYMENT_SORT_FIELDS, "paymentDate");
+      const page = await routeStorage.listPayments(
+        {
+          shipmentId: readIdFilter(req.query, "shipmentId"),
+          supplierId: readIdFilter(req.query, "supplierId"),
+          shipmentStatus: readTextFilter(req.query, "shipmentStatus"),
+          costComponent: readTextFilter(req.query, "costComponent"),
+          paymentMethod: readTextFilter(req.query, "paymentMethod"),
+          dateFrom: readDateFilter(req.query, "dateFrom"),
+          dateTo: readDateFilter(req.query, "dateTo"),
+          search: readTextFilter(req.query, "search")?.trim() || undefined,
+        },
+        query,
+      );
+      res.json(page);
     } catch (error) {
       const { status, body } = formatError(error, {
         code: "PAYMENT_FETCH_FAILED",
@@ -625,42 +1322,215 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/payments/:id/receipt.pdf", isAuthenticated, async (req, res) => {
+    try {
+      const payment = await routeStorage.getPayment(parseInt(req.params.id));
+      if (!payment) {
+        return res.status(404).json({ message: "الدفعة غير موجودة" });
+      }
+
+      const shipment = await routeStorage.getShipment(payment.shipmentId);
+      if (!shipment) {
+        return res.status(404).json({ message: "الشحنة غير موجودة" });
+      }
+
+      const supplier = payment.supplierId ? await routeStorage.getSupplier(payment.supplierId) : undefined;
+      const pdf = await renderPaymentReceipt({
+        payment,
+        shipment,
+        supplierName: supplier?.name ?? null,
+        generatedAt: new Date(),
+      });
+
+      sendPdf(res, pdf, `receipt-${payment.id}.pdf`);
+    } catch (error) {
+      console.error("Error generating payment receipt:", error);
+      res.status(500).json({ message: "خطأ في إنشاء إيصال الدفع" });
+    }
+  });
+
   app.post(
     "/api/payments",
     requireRole(["مدير", "محاسب"]),
     createPaymentHandler({ storage: routeStorage, logAuditEvent: auditLogger }),
   );
 
+  app.post(
+    "/api/payments/batch",
+    requireRole(["مدير", "محاسب"]),
+    createRemittanceHandler({ storage: routeStorage, logAuditEvent: auditLogger }),
+  );
+
+  app.post("/api/payments/batch/preview", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const parsed = parseRemittance(req.body);
+      const input = await withEffectiveRmbRate(routeStorage, parsed, parsed.paymentDate);
+      res.json({ exchangeRateToEgp: input.exchangeRateToEgp, lines: await routeStorage.previewRemittance(input) });
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.get("/api/remittances/:id", isAuthenticated, async (req, res) => {
+    try {
+      const remittanceId = parseInt(req.params.id);
+      const remittance = Number.isNaN(remittanceId) ? undefined : await routeStorage.getRemittance(remittanceId);
+      if (!remittance) {
+        throw new ApiError("REMITTANCE_NOT_FOUND", undefined, 404, { remittanceId: req.params.id });
+      }
+      res.json(remittance);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post(
+    "/api/payments/:id/reverse",
+    requireRole(["مدير", "محاسب"]),
+    reversePaymentHandler({ storage: routeStorage, logAuditEvent: auditLogger }),
+  );
+
+  // Payment attachments are never served statically; every download goes through the session check
+  app.get("/api/payments/:id/attachments", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getPaymentAttachments(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching payment attachments:", error);
+      res.status(500).json({ message: "Error fetching payment attachments" });
+    }
+  });
+
+  app.post(
+    "/api/payments/:id/attachments",
+    requireRole(["مدير", "محاسب"]),
+    receivePaymentAttachments,
+    async (req, res) => {
+      let storedNames: string[] = [];
+      try {
+        const paymentId = parseInt(req.params.id);
+        const actorId = (req.user as any)?.id;
+        const payment = await routeStorage.getPayment(paymentId);
+        if (!payment) {
+          throw new ApiError("PAYMENT_NOT_FOUND", undefined, 404, { paymentId });
+        }
+
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (files.length === 0) {
+          throw new ApiError("ATTACHMENT_INVALID", "لم يتم رفع أي ملف.", 400, { field: "files" });
+        }
+        const accepted = files.map((file, index) => acceptAttachment(file, index));
+
+        storedNames = await writeAttachmentFiles(accepted);
+        const attachments = await routeStorage.createPaymentAttachments(
+          accepted.map((file, index) => ({
+            paymentId,
+            originalName: file.originalName,
+            storedName: storedNames[index],
+            mimeType: file.mimeType,
+            sizeBytes: file.sizeBytes,
+            uploadedByUserId: actorId ?? null,
+          })),
+        );
+
+        auditLogger({
+          userId: actorId,
+          entityType: "PAYMENT",
+          entityId: paymentId,
+          actionType: "UPDATE",
+          details: { attachmentsAdded: attachments.map((attachment) => attachment.originalName) },
+        });
+
+        res.status(201).json(attachments);
+      } catch (error) {
+        // Files written before a failed insert would otherwise be orphaned
+        await removeAttachmentFiles(storedNames).catch(() => undefined);
+        const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+        res.status(status).json(body);
+      }
+    },
+  );
+
+  app.get("/api/payments/:id/attachments/:attachmentId", isAuthenticated, async (req, res) => {
+    try {
+      const paymentId = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
+      const attachment = await routeStorage.getPaymentAttachment(paymentId, attachmentId);
+      if (!attachment) {
+        throw new ApiError("ATTACHMENT_NOT_FOUND", undefined, 404, { paymentId, attachmentId });
+      }
+
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Disposition", attachmentDisposition(attachment.originalName, req.query.download === "1"));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+      res.sendFile(attachmentPath(attachment.storedName), (error) => {
+        if (error && !res.headersSent) {
+          const { status, body } = formatError(
+            new ApiError("ATTACHMENT_NOT_FOUND", undefined, 404, { paymentId, attachmentId }),
+          );
+          res.status(status).json(body);
+        }
+      });
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
   // Inventory
   app.get("/api/inventory", isAuthenticated, async (req, res) => {
     try {
-      const movements = await routeStorage.getAllInventoryMovements();
-      // Include shipment, shipping details and item info for cost calculations
-      const movementsWithDetails = await Promise.all(
-        movements.map(async (movement) => {
-          const shipment = movement.shipmentId
-            ? await routeStorage.getShipment(movement.shipmentId)
-            : null;
-          const shippingDetails = movement.shipmentId
-            ? await routeStorage.getShippingDetails(movement.shipmentId)
-            : null;
-          const shipmentItems = movement.shipmentId
-            ? await routeStorage.getShipmentItems(movement.shipmentId)
-            : [];
-          const shipmentItem = shipmentItems.find(
-            (item) => item.id === movement.shipmentItemId
-          );
-          // Calculate total pieces in shipment for cost distribution
-          const totalShipmentPieces = shipmentItems.reduce((sum, item) => sum + (item.totalPiecesCou || 0), 0);
-          return { ...movement, shipment, shipmentItem, shippingDetails, totalShipmentPieces };
-        })
+      if (!isPaginatedQuery(req.query)) {
+        // Shipment, shipping details, item and landed cost come back joined for the cost breakdown
+        return res.json(await routeStorage.getAllInventoryMovementsWithDetails());
+      }
+
+      const query = parseListQuery(req.query, INVENTORY_SORT_FIELDS, "movementDate");
+      const page = await routeStorage.listInventoryMovements(
+        {
+          movementType: readTextFilter(req.query, "movementType"),
+          warehouseId: readIdFilter(req.query, "warehouseId"),
+          shipmentCode: readTextFilter(req.query, "shipmentCode")?.trim() || undefined,
+          dateFrom: readDateFilter(req.query, "dateFrom"),
+          dateTo: readDateFilter(req.query, "dateTo"),
+          search: readTextFilter(req.query, "search")?.trim() || undefined,
+        },
+        query,
       );
-      res.json(movementsWithDetails);
+      res.json(page);
     } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
       res.status(500).json({ message: "Error fetching inventory" });
     }
   });
 
+  app.get("/api/inventory/stock", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getStockOnHand());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching stock on hand" });
+    }
+  });
+
+  app.get("/api/inventory/valuation", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getInventoryValuation());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching inventory valuation" });
+    }
+  });
+
+  app.post(
+    "/api/inventory/movements",
+    requireRole(["مدير", "مسؤول مخزون"]),
+    createInventoryMovementHandler({ storage: routeStorage, logAuditEvent: auditLogger }),
+  );
+
   app.get("/api/inventory/stats", isAuthenticated, async (req, res) => {
     try {
       const stats = await routeStorage.getInventoryStats();
@@ -670,6 +1540,151 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/inventory/transfers", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getInventoryTransfers());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching inventory transfers" });
+    }
+  });
+
+  app.post("/api/inventory/transfers", requireRole(["مدير", "مسؤول مخزون"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const transfer = await routeStorage.createInventoryTransfer(parseTransfer(req.body), actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "INVENTORY",
+        entityId: transfer.outMovementId ?? transfer.id,
+        actionType: "CREATE",
+        details: {
+          transferId: transfer.id,
+          productId: transfer.productId,
+          shipmentItemId: transfer.shipmentItemId,
+          fromWarehouseId: transfer.fromWarehouseId,
+          toWarehouseId: transfer.toWarehouseId,
+          quantity: transfer.quantity,
+        },
+      });
+
+      res.status(201).json(transfer);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post("/api/inventory/transfers/:id/receive", requireRole(["مدير", "مسؤول مخزون"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const transfer = await routeStorage.receiveInventoryTransfer(parseInt(req.params.id), actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "INVENTORY",
+        entityId: transfer.inMovementId ?? transfer.id,
+        actionType: "UPDATE",
+        details: {
+          transferId: transfer.id,
+          changes: { status: { from: "في الطريق", to: transfer.status } },
+        },
+      });
+
+      res.json(transfer);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  // Warehouses
+  app.get("/api/warehouses", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getAllWarehouses());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching warehouses" });
+    }
+  });
+
+  app.post("/api/warehouses", requireRole(["مدير", "مسؤول مخزون"]), async (req, res) => {
+    try {
+      const data = insertWarehouseSchema.parse(req.body);
+      const warehouse = await routeStorage.createWarehouse(data);
+      auditLogger({
+        userId: (req.user as any)?.id,
+        entityType: "WAREHOUSE",
+        entityId: warehouse.id,
+        actionType: "CREATE",
+        details: { name: warehouse.name, location: warehouse.location },
+      });
+      res.json(warehouse);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid data" });
+    }
+  });
+
+  app.patch("/api/warehouses/:id", requireRole(["مدير", "مسؤول مخزون"]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await routeStorage.getWarehouse(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+      const data = insertWarehouseSchema.partial().parse(req.body);
+      const warehouse = await routeStorage.updateWarehouse(id, data);
+      auditLogger({
+        userId: (req.user as any)?.id,
+        entityType: "WAREHOUSE",
+        entityId: id,
+        actionType: "UPDATE",
+        details: { changes: diffRecords(existing, warehouse) },
+      });
+      res.json(warehouse);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid data" });
+    }
+  });
+
+  // Settings
+  app.get("/api/settings", isAuthenticated, async (req, res) => {
+    try {
+      res.json({ inventoryCostingMethod: await routeStorage.getInventoryCostingMethod() });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching settings" });
+    }
+  });
+
+  app.patch("/api/settings", requireRole(["مدير"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const { inventoryCostingMethod } = req.body ?? {};
+      if (!isInventoryCostingMethod(inventoryCostingMethod)) {
+        throw new ApiError("SETTING_INVALID", undefined, 400, {
+          field: "inventoryCostingMethod",
+          allowed: INVENTORY_COSTING_METHODS,
+        });
+      }
+
+      const previous = await routeStorage.getInventoryCostingMethod();
+      const saved = await routeStorage.setInventoryCostingMethod(inventoryCostingMethod, actorId);
+      if (previous !== saved) {
+        auditLogger({
+          userId: actorId,
+          entityType: "SETTING",
+          entityId: "inventoryCostingMethod",
+          actionType: "UPDATE",
+          details: { changes: { inventoryCostingMethod: { from: previous, to: saved } } },
+        });
+      }
+
+      res.json({ inventoryCostingMethod: saved });
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
   // Users
   app.get("/api/users", isAuthenticated, async (req, res) => {
     try {
@@ -748,6 +1763,7 @@ export async function registerRoutes(
       if (lastName !== undefined) updateData.lastName = lastName;
       if (role !== undefined && currentUser.role === "مدير") updateData.role = role;
 
+      const existingUser = await routeStorage.getUser(id);
       const user = await routeStorage.updateUser(id, updateData);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
@@ -760,7 +1776,10 @@ export async function registerRoutes(
         entityType: "USER",
         entityId: user.id,
         actionType: "UPDATE",
-        details: { updatedFields: Object.keys(updateData) },
+        details: {
+          updatedFields: Object.keys(updateData),
+          changes: diffRecords(existingUser, user, { exclude: ["password"] }),
+        },
       });
       
       res.json(userWithoutPassword);
@@ -772,6 +1791,7 @@ export async function registerRoutes(
   app.patch("/api/users/:id/role", requireRole(["مدير"]), async (req, res) => {
     try {
       const { role } = req.body;
+      const existingUser = await routeStorage.getUser(req.params.id);
       const user = await routeStorage.updateUserRole(req.params.id, role);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
@@ -783,7 +1803,10 @@ export async function registerRoutes(
         entityType: "USER",
         entityId: user.id,
         actionType: "UPDATE",
-        details: { role: user.role },
+        details: {
+          role: user.role,
+          changes: diffRecords(existingUser, user, { exclude: ["password"] }),
+        },
       });
       
       res.json(userWithoutPassword);
@@ -825,6 +1848,29 @@ export async function registerRoutes(
     }
   });
 
+  // Audit Logs
+  app.get("/api/audit-logs", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const filters = {
+        entityType: req.query.entityType as string | undefined,
+        entityId: req.query.entityId as string | undefined,
+        userId: req.query.userId as string | undefined,
+        actionType: req.query.actionType as string | undefined,
+        ...parseAuditLogPeriod(req.query),
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 500, 2000) : undefined,
+      };
+      const logs = await routeStorage.getAuditLogs(filters);
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        const { status, body } = formatError(error);
+        return res.status(status).json(body);
+      }
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "خطأ في جلب سجل التغييرات" });
+    }
+  });
+
   // Accounting Routes
   app.get("/api/accounting/dashboard", isAuthenticated, async (req, res) => {
     try {
@@ -845,6 +1891,21 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/accounting/fx-gain-loss", isAuthenticated, async (req, res) => {
+    try {
+      const report = await routeStorage.getFxGainLossReport({
+        dateFrom: req.query.dateFrom as string | undefined,
+        dateTo: req.query.dateTo as string | undefined,
+        shipmentCode: req.query.shipmentCode as string | undefined,
+        includeArchived: req.query.includeArchived === "true",
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching FX gain/loss report:", error);
+      res.status(500).json({ message: "Error fetching FX gain/loss report" });
+    }
+  });
+
   app.get("/api/accounting/supplier-balances", isAuthenticated, async (req, res) => {
     try {
       const filters = {
@@ -898,6 +1959,435 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/accounting/receiving-discrepancies", isAuthenticated, async (req, res) => {
+    try {
+      const filters = {
+        dateFrom: req.query.dateFrom as string | undefined,
+        dateTo: req.query.dateTo as string | undefined,
+        supplierId: req.query.supplierId ? parseInt(req.query.supplierId as string) : undefined,
+        shipmentId: req.query.shipmentId ? parseInt(req.query.shipmentId as string) : undefined,
+      };
+      res.json(await routeStorage.getReceivingDiscrepancies(filters));
+    } catch (error) {
+      console.error("Error fetching receiving discrepancies:", error);
+      res.status(500).json({ message: "Error fetching receiving discrepancies" });
+    }
+  });
+
+  app.get("/api/accounting/supplier-claims", isAuthenticated, async (req, res) => {
+    try {
+      const filters = {
+        supplierId: req.query.supplierId ? parseInt(req.query.supplierId as string) : undefined,
+        shipmentId: req.query.shipmentId ? parseInt(req.query.shipmentId as string) : undefined,
+      };
+      res.json(await routeStorage.getSupplierClaims(filters));
+    } catch (error) {
+      console.error("Error fetching supplier claims:", error);
+      res.status(500).json({ message: "Error fetching supplier claims" });
+    }
+  });
+
+  app.get("/api/accounting/ledger-reconciliation", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      res.json(await reconcileShipmentLedgers(routeStorage));
+    } catch (error) {
+      console.error("Error reconciling shipment ledgers:", error);
+      res.status(500).json({ message: "Error reconciling shipment ledgers" });
+    }
+  });
+
+  // Accounting periods: closing a month freezes everything dated inside it
+  app.get("/api/accounting/periods", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getAccountingPeriods());
+    } catch (error) {
+      console.error("Error fetching accounting periods:", error);
+      res.status(500).json({ message: "Error fetching accounting periods" });
+    }
+  });
+
+  app.post("/api/accounting/periods/:month/close", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const periodMonth = parsePeriodMonth(req.params.month);
+      const previous = await routeStorage.getAccountingPeriod(periodMonth);
+      const period = await routeStorage.closeAccountingPeriod(periodMonth, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "ACCOUNTING_PERIOD",
+        entityId: periodMonth,
+        actionType: "STATUS_CHANGE",
+        details: { from: previous?.status ?? PERIOD_OPEN_STATUS, to: PERIOD_CLOSED_STATUS },
+      });
+
+      res.json(period);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post("/api/accounting/periods/:month/reopen", requireRole(["مدير"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const periodMonth = parsePeriodMonth(req.params.month);
+      const period = await routeStorage.reopenAccountingPeriod(periodMonth, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "ACCOUNTING_PERIOD",
+        entityId: periodMonth,
+        actionType: "STATUS_CHANGE",
+        details: {
+          from: PERIOD_CLOSED_STATUS,
+          to: PERIOD_OPEN_STATUS,
+          reason: typeof req.body?.reason === "string" ? req.body.reason.trim() || null : null,
+        },
+      });
+
+      res.json(period);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  // Chart of accounts and journal export for the external accounting system
+  app.get("/api/accounting/chart-of-accounts", isAuthenticated, async (req, res) => {
+    try {
+      res.json(resolveChartOfAccounts(await routeStorage.getAccountMappings()));
+    } catch (error) {
+      console.error("Error fetching chart of accounts:", error);
+      res.status(500).json({ message: "Error fetching chart of accounts" });
+    }
+  });
+
+  app.put("/api/accounting/chart-of-accounts", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const mappings = parseAccountMappings(req.body);
+      const saved = await routeStorage.saveAccountMappings(mappings, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "SETTING",
+        entityId: "chartOfAccounts",
+        actionType: "UPDATE",
+        details: { mappings },
+      });
+
+      res.json(resolveChartOfAccounts(saved));
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.get("/api/accounting/journal-export", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const period = parseJournalPeriod(req.query);
+      // Each movement is placed in the period by its own date, so the report is read unfiltered
+      const [report, mappings] = await Promise.all([
+        routeStorage.getMovementReport({ includeArchived: true }),
+        routeStorage.getAccountMappings(),
+      ]);
+      const journal = buildJournalEntries(report.movements, resolveChartOfAccounts(mappings), period);
+
+      if (req.query.format === "csv") {
+        const filename = `journal_${period.dateFrom}_${period.dateTo}.csv`;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        return res.send(journalToCsv(journal));
+      }
+      res.json(journal);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  // Supplier credit notes are entered by accounting and only count once a manager approves them
+  app.get("/api/accounting/supplier-credit-notes", isAuthenticated, async (req, res) => {
+    try {
+      const filters = {
+        supplierId: req.query.supplierId ? parseInt(req.query.supplierId as string) : undefined,
+        shipmentId: req.query.shipmentId ? parseInt(req.query.shipmentId as string) : undefined,
+        status: req.query.status as string | undefined,
+      };
+      res.json(await routeStorage.getSupplierCreditNotes(filters));
+    } catch (error) {
+      console.error("Error fetching supplier credit notes:", error);
+      res.status(500).json({ message: "Error fetching supplier credit notes" });
+    }
+  });
+
+  app.post("/api/accounting/supplier-credit-notes", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const note = await routeStorage.createSupplierCreditNote(parseCreditNote(req.body), actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "CREDIT_NOTE",
+        entityId: note.id,
+        actionType: "CREATE",
+        details: {
+          supplierId: note.supplierId,
+          shipmentId: note.shipmentId,
+          shipmentItemId: note.shipmentItemId,
+          claimId: note.claimId,
+          amountRmb: note.amountRmb,
+          amountEgp: note.amountEgp,
+        },
+      });
+
+      res.status(201).json(note);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post("/api/accounting/supplier-credit-notes/:id/approve", requireRole(["مدير"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const note = await routeStorage.decideSupplierCreditNote(parseInt(req.params.id), true, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "CREDIT_NOTE",
+        entityId: note.id,
+        actionType: "STATUS_CHANGE",
+        details: { changes: { status: { from: CREDIT_NOTE_PENDING_STATUS, to: note.status } } },
+      });
+
+      res.json(note);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post("/api/accounting/supplier-credit-notes/:id/reject", requireRole(["مدير"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const note = await routeStorage.decideSupplierCreditNote(parseInt(req.params.id), false, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "CREDIT_NOTE",
+        entityId: note.id,
+        actionType: "STATUS_CHANGE",
+        details: { changes: { status: { from: CREDIT_NOTE_PENDING_STATUS, to: note.status } } },
+      });
+
+      res.json(note);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  // Supplier advances sit as credit on the supplier until applied to shipments
+  app.get("/api/accounting/supplier-advances", isAuthenticated, async (req, res) => {
+    try {
+      const supplierId = req.query.supplierId ? parseInt(req.query.supplierId as string) : undefined;
+      res.json(await routeStorage.getSupplierAdvances({ supplierId }));
+    } catch (error) {
+      console.error("Error fetching supplier advances:", error);
+      res.status(500).json({ message: "Error fetching supplier advances" });
+    }
+  });
+
+  app.post("/api/accounting/supplier-advances", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const parsed = parseSupplierAdvance(req.body);
+      const input = await withEffectiveRmbRate(routeStorage, parsed, parsed.advanceDate);
+      const advance = await routeStorage.createSupplierAdvance(input, actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "SUPPLIER_ADVANCE",
+        entityId: advance.id,
+        actionType: "CREATE",
+        details: {
+          supplierId: advance.supplierId,
+          amount: advance.amountEgp,
+          currency: advance.paymentCurrency,
+          method: advance.paymentMethod,
+          ...(advance.paymentAccountId ? { paymentAccountId: advance.paymentAccountId } : {}),
+        },
+      });
+
+      res.status(201).json(advance);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.post("/api/accounting/supplier-advances/:id/apply", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const { advance, payments } = await routeStorage.applySupplierAdvance(
+        parseInt(req.params.id),
+        parseAdvanceApplication(req.body),
+        actorId,
+      );
+
+      auditLogger({
+        userId: actorId,
+        entityType: "SUPPLIER_ADVANCE",
+        entityId: advance.id,
+        actionType: "UPDATE",
+        details: {
+          paymentIds: payments.map((payment) => payment.id),
+          applied: payments.map((payment) => ({ shipmentId: payment.shipmentId, amount: payment.amountEgp })),
+          remainingEgp: advance.remainingEgp,
+        },
+      });
+      for (const payment of payments) {
+        auditLogger({
+          userId: actorId,
+          entityType: "PAYMENT",
+          entityId: payment.id,
+          actionType: "CREATE",
+          details: {
+            shipmentId: payment.shipmentId,
+            amount: payment.amountEgp,
+            currency: payment.paymentCurrency,
+            supplierId: payment.supplierId,
+            supplierAdvanceId: advance.id,
+          },
+        });
+      }
+
+      res.json({ advance, payments });
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  // Cash boxes, bank accounts and wallets payments are made from
+  app.get("/api/accounting/payment-accounts", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await routeStorage.getPaymentAccounts());
+    } catch (error) {
+      console.error("Error fetching payment accounts:", error);
+      res.status(500).json({ message: "Error fetching payment accounts" });
+    }
+  });
+
+  app.post("/api/accounting/payment-accounts", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const account = await routeStorage.createPaymentAccount(parsePaymentAccount(req.body));
+
+      auditLogger({
+        userId: actorId,
+        entityType: "PAYMENT_ACCOUNT",
+        entityId: account.id,
+        actionType: "CREATE",
+        details: {
+          name: account.name,
+          accountType: account.accountType,
+          currency: account.currency,
+          openingBalance: account.openingBalance,
+        },
+      });
+
+      res.status(201).json(account);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.patch("/api/accounting/payment-accounts/:id", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await routeStorage.getPaymentAccount(id);
+      if (!existing) {
+        throw new ApiError("PAYMENT_ACCOUNT_NOT_FOUND", undefined, 404, { paymentAccountId: id });
+      }
+      const account = await routeStorage.updatePaymentAccount(id, parsePaymentAccount(req.body, { partial: true }));
+
+      auditLogger({
+        userId: (req.user as any)?.id,
+        entityType: "PAYMENT_ACCOUNT",
+        entityId: id,
+        actionType: "UPDATE",
+        details: { changes: diffRecords(existing, account) },
+      });
+
+      res.json(account);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.get("/api/accounting/payment-accounts/:id/statement", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const bankBalance = req.query.bankBalance ? parseFloat(req.query.bankBalance as string) : undefined;
+      if (bankBalance !== undefined && !Number.isFinite(bankBalance)) {
+        throw new ApiError("PAYMENT_ACCOUNT_INVALID", undefined, 400, { field: "bankBalance" });
+      }
+      const statement = await routeStorage.getPaymentAccountStatement(id, {
+        dateFrom: req.query.dateFrom as string | undefined,
+        dateTo: req.query.dateTo as string | undefined,
+        bankBalance,
+      });
+      if (!statement) {
+        throw new ApiError("PAYMENT_ACCOUNT_NOT_FOUND", undefined, 404, { paymentAccountId: id });
+      }
+      res.json(statement);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
+  app.get("/api/accounting/payment-account-transfers", isAuthenticated, async (req, res) => {
+    try {
+      const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
+      res.json(await routeStorage.getPaymentAccountTransfers({ accountId }));
+    } catch (error) {
+      console.error("Error fetching payment account transfers:", error);
+      res.status(500).json({ message: "Error fetching payment account transfers" });
+    }
+  });
+
+  app.post("/api/accounting/payment-account-transfers", requireRole(["مدير", "محاسب"]), async (req, res) => {
+    try {
+      const actorId = (req.user as any)?.id;
+      const transfer = await routeStorage.createPaymentAccountTransfer(parseAccountTransfer(req.body), actorId);
+
+      auditLogger({
+        userId: actorId,
+        entityType: "PAYMENT_ACCOUNT_TRANSFER",
+        entityId: transfer.id,
+        actionType: "CREATE",
+        details: {
+          kind: transfer.fromAccountId ? "transfer" : "top_up",
+          fromAccountId: transfer.fromAccountId,
+          toAccountId: transfer.toAccountId,
+          amountFrom: transfer.amountFrom,
+          amountTo: transfer.amountTo,
+        },
+      });
+
+      res.status(201).json(transfer);
+    } catch (error) {
+      const { status, body } = formatError(error, { code: "UNKNOWN_ERROR", status: 500 });
+      res.status(status).json(body);
+    }
+  });
+
   app.get("/api/accounting/payment-methods-report", isAuthenticated, async (req, res) => {
     try {
       const filters = {
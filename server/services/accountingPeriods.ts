@@ -0,0 +1,43 @@
+import { ApiError } from "../errors";
+
+export const PERIOD_OPEN_STATUS = "مفتوحة";
+export const PERIOD_CLOSED_STATUS = "مغلقة";
+
+const PERIOD_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** The YYYY-MM month a date falls in, or null when there is no usable date. */
+export function periodMonthOf(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === "string" && /^\d{4}-\d{2}/.test(value)) return value.slice(0, 7);
+
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 7);
+}
+
+export function parsePeriodMonth(value: unknown): string {
+  if (typeof value !== "string" || !PERIOD_MONTH_PATTERN.test(value)) {
+    throw new ApiError("PERIOD_INVALID", undefined, 400, { period: value ?? null });
+  }
+  return value;
+}
+
+/**
+ * Refuses the change when any of its dates falls in a closed month. Both the
+ * old and new date of an edit are passed, so nothing can be moved into or out
+ * of a closed month either.
+ */
+export function assertPeriodsOpen(
+  dates: Array<Date | string | null | undefined>,
+  closedMonths: Iterable<string>,
+): void {
+  const closed = new Set(Array.from(closedMonths));
+  for (const date of dates) {
+    const period = periodMonthOf(date);
+    if (period && closed.has(period)) {
+      throw new ApiError("PERIOD_LOCKED", undefined, 409, {
+        period,
+        date: date instanceof Date ? date.toISOString() : date,
+      });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { exchangeRates, type ExchangeRate } from "@shared/schema";
+import { ApiError } from "../errors";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many days back a rate may be used for. A payment dated Saturday can use
+ * Thursday's rate, but a shipment is never valued at a rate from months ago.
+ */
+export const EXCHANGE_RATE_TOLERANCE_DAYS = (() => {
+  const configured = parseInt(process.env.EXCHANGE_RATE_TOLERANCE_DAYS ?? "", 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : 7;
+})();
+
+export type RateLookupOptions = {
+  toleranceDays?: number;
+};
+
+export function toRateDate(value: Date | string): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new ApiError("EXCHANGE_RATE_DATE_INVALID", undefined, 400, { date: String(value) });
+  }
+  return parsed.toISOString().slice(0, 10);
+}
+
+// Oldest and newest rate dates (inclusive) that may be used for `date`
+export function rateLookupWindow(
+  date: Date | string,
+  toleranceDays = EXCHANGE_RATE_TOLERANCE_DAYS,
+): { from: string; to: string } {
+  const to = toRateDate(date);
+  const from = new Date(new Date(to).getTime() - toleranceDays * DAY_MS).toISOString().slice(0, 10);
+  return { from, to };
+}
+
+// Newest rate inside the lookup window for `date`; a later rate is never used for an earlier day
+export async function findRateForDate(
+  executor: any,
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date | string,
+  { toleranceDays = EXCHANGE_RATE_TOLERANCE_DAYS }: RateLookupOptions = {},
+): Promise<ExchangeRate | undefined> {
+  const window = rateLookupWindow(date, toleranceDays);
+  const [rate] = await executor
+    .select()
+    .from(exchangeRates)
+    .where(
+      and(
+        eq(exchangeRates.fromCurrency, fromCurrency),
+        eq(exchangeRates.toCurrency, toCurrency),
+        lte(exchangeRates.rateDate, window.to),
+        gte(exchangeRates.rateDate, window.from),
+      ),
+    )
+    .orderBy(desc(exchangeRates.rateDate), desc(exchangeRates.id))
+    .limit(1);
+  return rate;
+}
+
+/**
+ * Returns the numeric rate in effect on `date`, or throws EXCHANGE_RATE_NOT_FOUND
+ * so callers never value money at a made-up default.
+ */
+export async function resolveRateValue(
+  executor: any,
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date | string,
+  options: RateLookupOptions = {},
+): Promise<number> {
+  if (fromCurrency === toCurrency) return 1;
+
+  const rate = await findRateForDate(executor, fromCurrency, toCurrency, date, options);
+  const value = rate ? parseAmountOrZero(rate.rateValue) : 0;
+  if (value <= 0) {
+    throw new ApiError("EXCHANGE_RATE_NOT_FOUND", undefined, 400, {
+      from: fromCurrency,
+      to: toCurrency,
+      date: toRateDate(date),
+      toleranceDays: options.toleranceDays ?? EXCHANGE_RATE_TOLERANCE_DAYS,
+    });
+  }
+  return value;
+}
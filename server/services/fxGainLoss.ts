@@ -0,0 +1,197 @@
+import type { Shipment, ShipmentPayment, ShipmentShippingDetails } from "@shared/schema";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+// Cost components billed in RMB, with the shipment cost column each one is booked in
+const RMB_COMPONENTS = {
+  "تكلفة البضاعة": "purchaseCostRmb",
+  "الشحن": "shippingCostRmb",
+  "العمولة": "commissionCostRmb",
+} as const;
+
+type RmbComponent = keyof typeof RMB_COMPONENTS;
+
+const isRmbComponent = (value: string): value is RmbComponent => value in RMB_COMPONENTS;
+
+export type FxShipmentInput = {
+  shipment: Shipment;
+  shippingDetails?: Pick<ShipmentShippingDetails, "rmbToEgpRateAtShipping"> | null;
+  payments: ShipmentPayment[];
+};
+
+export type FxPeriod = {
+  dateFrom?: string;
+  dateTo?: string;
+};
+
+export type RealizedFxEntry = {
+  paymentId: number;
+  paymentDate: Date;
+  costComponent: RmbComponent;
+  amountRmb: number;
+  bookedRate: number;
+  paymentRate: number;
+  gainLossEgp: number;
+};
+
+export type UnrealizedFxEntry = {
+  costComponent: RmbComponent;
+  openRmb: number;
+  bookedRate: number;
+  gainLossEgp: number | null;
+};
+
+export type ShipmentFxResult = {
+  shipmentId: number;
+  shipmentCode: string;
+  shipmentName: string;
+  realizedEgp: number;
+  unrealizedEgp: number | null;
+  openRmb: number;
+  realized: RealizedFxEntry[];
+  unrealized: UnrealizedFxEntry[];
+};
+
+/**
+ * Rate a component was booked at: goods at the purchase rate, shipping and
+ * commission at the rate locked in on the shipping step.
+ */
+export function bookedRateFor(
+  component: RmbComponent,
+  shipment: Pick<Shipment, "purchaseRmbToEgpRate">,
+  shippingDetails?: FxShipmentInput["shippingDetails"],
+): number {
+  const purchaseRate = parseAmountOrZero(shipment.purchaseRmbToEgpRate);
+  if (component === "تكلفة البضاعة") return purchaseRate;
+  return parseAmountOrZero(shippingDetails?.rmbToEgpRateAtShipping) || purchaseRate;
+}
+
+const inPeriod = (date: Date, period: FxPeriod) => {
+  const day = new Date(date).toISOString().slice(0, 10);
+  return (!period.dateFrom || day >= period.dateFrom) && (!period.dateTo || day <= period.dateTo);
+};
+
+/**
+ * Computes the FX result of one shipment. Realized gain/loss compares each RMB
+ * payment's rate with the booked rate (paying at a lower rate is a gain);
+ * reversal entries carry negative amounts, so a voided payment nets to zero.
+ * Unrealized gain/loss revalues what is still owed in RMB at `currentRate`,
+ * and is null when no current rate is known.
+ */
+export function calculateShipmentFx(
+  input: FxShipmentInput,
+  options: { currentRate: number | null; period?: FxPeriod },
+): ShipmentFxResult {
+  const { shipment, shippingDetails, payments } = input;
+  const period = options.period ?? {};
+
+  const realized: RealizedFxEntry[] = [];
+  const paidRmbByComponent = new Map<RmbComponent, number>();
+
+  for (const payment of payments) {
+    if (!isRmbComponent(payment.costComponent)) continue;
+    const bookedRate = bookedRateFor(payment.costComponent, shipment, shippingDetails);
+
+    const amountRmb =
+      payment.paymentCurrency === "RMB"
+        ? parseAmountOrZero(payment.amountOriginal)
+        : bookedRate > 0
+          ? parseAmountOrZero(payment.amountEgp) / bookedRate
+          : 0;
+    paidRmbByComponent.set(
+      payment.costComponent,
+      (paidRmbByComponent.get(payment.costComponent) ?? 0) + amountRmb,
+    );
+
+    const paymentRate = parseAmountOrZero(payment.exchangeRateToEgp);
+    if (payment.paymentCurrency !== "RMB" || bookedRate <= 0 || paymentRate <= 0) continue;
+    if (!inPeriod(payment.paymentDate, period)) continue;
+
+    realized.push({
+      paymentId: payment.id,
+      paymentDate: payment.paymentDate,
+      costComponent: payment.costComponent,
+      amountRmb,
+      bookedRate,
+      paymentRate,
+      gainLossEgp: roundAmount(amountRmb * (bookedRate - paymentRate)),
+    });
+  }
+
+  const unrealized: UnrealizedFxEntry[] = [];
+  for (const [component, costField] of Object.entries(RMB_COMPONENTS) as [RmbComponent, keyof Shipment][]) {
+    const bookedRate = bookedRateFor(component, shipment, shippingDetails);
+    const openRmb = roundAmount(
+      Math.max(0, parseAmountOrZero(shipment[costField]) - (paidRmbByComponent.get(component) ?? 0)),
+    );
+    if (openRmb <= 0 || bookedRate <= 0) continue;
+
+    unrealized.push({
+      costComponent: component,
+      openRmb,
+      bookedRate,
+      gainLossEgp: options.currentRate ? roundAmount(openRmb * (bookedRate - options.currentRate)) : null,
+    });
+  }
+
+  const realizedEgp = roundAmount(realized.reduce((sum, entry) => sum + entry.gainLossEgp, 0));
+  const unrealizedEgp = unrealized.some((entry) => entry.gainLossEgp === null)
+    ? null
+    : roundAmount(unrealized.reduce((sum, entry) => sum + (entry.gainLossEgp ?? 0), 0));
+
+  return {
+    shipmentId: shipment.id,
+    shipmentCode: shipment.shipmentCode,
+    shipmentName: shipment.shipmentName,
+    realizedEgp,
+    unrealizedEgp,
+    openRmb: roundAmount(unrealized.reduce((sum, entry) => sum + entry.openRmb, 0)),
+    realized,
+    unrealized,
+  };
+}
+
+export type FxGainLossReport = {
+  period: FxPeriod;
+  currentRate: number | null;
+  currentRateDate: string | null;
+  totals: { realizedEgp: number; unrealizedEgp: number | null; openRmb: number };
+  // Realized gain/loss grouped by the month the payment was made (YYYY-MM)
+  byMonth: { month: string; realizedEgp: number }[];
+  shipments: ShipmentFxResult[];
+};
+
+export function buildFxGainLossReport(
+  inputs: FxShipmentInput[],
+  options: { currentRate: number | null; currentRateDate?: string | null; period?: FxPeriod },
+): FxGainLossReport {
+  const period = options.period ?? {};
+  const shipments = inputs
+    .map((input) => calculateShipmentFx(input, { currentRate: options.currentRate, period }))
+    .filter((result) => result.realized.length > 0 || result.unrealized.length > 0);
+
+  const months = new Map<string, number>();
+  for (const entry of shipments.flatMap((result) => result.realized)) {
+    const month = new Date(entry.paymentDate).toISOString().slice(0, 7);
+    months.set(month, (months.get(month) ?? 0) + entry.gainLossEgp);
+  }
+
+  const unrealizedKnown = shipments.every((result) => result.unrealizedEgp !== null);
+
+  return {
+    period,
+    currentRate: options.currentRate,
+    currentRateDate: options.currentRateDate ?? null,
+    totals: {
+      realizedEgp: roundAmount(shipments.reduce((sum, result) => sum + result.realizedEgp, 0)),
+      unrealizedEgp: unrealizedKnown
+        ? roundAmount(shipments.reduce((sum, result) => sum + (result.unrealizedEgp ?? 0), 0))
+        : null,
+      openRmb: roundAmount(shipments.reduce((sum, result) => sum + result.openRmb, 0)),
+    },
+    byMonth: Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, realizedEgp]) => ({ month, realizedEgp: roundAmount(realizedEgp) })),
+    shipments,
+  };
+}
@@ -0,0 +1,148 @@
+import type { InventoryCostLayer } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+export const INVENTORY_COSTING_METHODS = ["weighted_average", "fifo"] as const;
+export type InventoryCostingMethod = (typeof INVENTORY_COSTING_METHODS)[number];
+
+export const INVENTORY_COSTING_SETTING_KEY = "inventory_costing_method";
+export const DEFAULT_INVENTORY_COSTING_METHOD: InventoryCostingMethod = "weighted_average";
+
+export const isInventoryCostingMethod = (value: unknown): value is InventoryCostingMethod =>
+  typeof value === "string" && (INVENTORY_COSTING_METHODS as readonly string[]).includes(value);
+
+type LayerBalance = Pick<InventoryCostLayer, "id" | "layerDate" | "remainingQuantity" | "unitCostEgp">;
+
+// Stock always leaves oldest layer first; the costing method only decides the price it leaves at
+export function orderLayers<T extends LayerBalance>(layers: T[]): T[] {
+  return [...layers].sort((a, b) => a.layerDate.localeCompare(b.layerDate) || a.id - b.id);
+}
+
+export function layerTotals(layers: LayerBalance[]): { quantity: number; valueEgp: number; unitCostEgp: number } {
+  const quantity = layers.reduce((sum, layer) => sum + layer.remainingQuantity, 0);
+  const valueEgp = layers.reduce(
+    (sum, layer) => sum + layer.remainingQuantity * parseAmountOrZero(layer.unitCostEgp),
+    0,
+  );
+  return {
+    quantity,
+    valueEgp: roundAmount(valueEgp),
+    unitCostEgp: quantity > 0 ? roundAmount(valueEgp / quantity, 4) : 0,
+  };
+}
+
+export type LayerConsumption = {
+  layerId: number;
+  quantity: number;
+  unitCostEgp: number;
+  totalCostEgp: number;
+};
+
+// Quantity and value of the whole stock of a product, as booked in the movement ledger
+export type StockPool = { quantity: number; valueEgp: number };
+
+/**
+ * Cost basis of the open layers under `method`. FIFO uses the layers' own
+ * receipt costs. Weighted average uses the ledger pool, because issues at the
+ * average leave the remaining layers' receipt costs out of date.
+ */
+function costBasis(open: LayerBalance[], method: InventoryCostingMethod, pool?: StockPool) {
+  const totals = layerTotals(open);
+  if (method === "fifo" || !pool || pool.quantity <= 0) return totals;
+  return {
+    quantity: totals.quantity,
+    valueEgp: roundAmount(pool.valueEgp),
+    unitCostEgp: roundAmount(pool.valueEgp / pool.quantity, 4),
+  };
+}
+
+/**
+ * Takes `quantity` pieces out of the layers, oldest first, and prices them.
+ * FIFO charges each piece at the cost of the layer it came from; weighted
+ * average charges every piece at the current moving average. The returned
+ * total is the cost of goods issued (COGS).
+ */
+export function consumeCostLayers(
+  layers: LayerBalance[],
+  quantity: number,
+  method: InventoryCostingMethod,
+  pool?: StockPool,
+): { consumptions: LayerConsumption[]; totalCostEgp: number; unitCostEgp: number } {
+  const open = orderLayers(layers.filter((layer) => layer.remainingQuantity > 0));
+  const basis = costBasis(open, method, pool);
+  if (quantity > basis.quantity) {
+    throw new ApiError("INVENTORY_INSUFFICIENT_STOCK", undefined, 409, {
+      requested: quantity,
+      available: basis.quantity,
+    });
+  }
+
+  const consumptions: LayerConsumption[] = [];
+  let left = quantity;
+  for (const layer of open) {
+    if (left === 0) break;
+    const taken = Math.min(layer.remainingQuantity, left);
+    const unitCostEgp = method === "fifo" ? parseAmountOrZero(layer.unitCostEgp) : basis.unitCostEgp;
+    consumptions.push({
+      layerId: layer.id,
+      quantity: taken,
+      unitCostEgp,
+      totalCostEgp: roundAmount(taken * unitCostEgp),
+    });
+    left -= taken;
+  }
+
+  let totalCostEgp = roundAmount(consumptions.reduce((sum, entry) => sum + entry.totalCostEgp, 0));
+  // Issuing everything that is left takes the whole remaining value, so no rounding residue stays behind
+  if (quantity === basis.quantity && quantity > 0 && totalCostEgp !== basis.valueEgp) {
+    const last = consumptions[consumptions.length - 1];
+    last.totalCostEgp = roundAmount(last.totalCostEgp + basis.valueEgp - totalCostEgp);
+    totalCostEgp = basis.valueEgp;
+  }
+
+  return {
+    consumptions,
+    totalCostEgp,
+    unitCostEgp: quantity > 0 ? roundAmount(totalCostEgp / quantity, 4) : 0,
+  };
+}
+
+/**
+ * Values each open layer under the selected method. Under weighted average
+ * every remaining piece carries the same average cost, whatever layer it is in.
+ */
+export function valueCostLayers<T extends LayerBalance>(
+  layers: T[],
+  method: InventoryCostingMethod,
+  pool?: StockPool,
+): { layers: Array<T & { valueEgp: number; effectiveUnitCostEgp: number }>; quantity: number; valueEgp: number } {
+  const open = orderLayers(layers.filter((layer) => layer.remainingQuantity > 0));
+  const basis = costBasis(open, method, pool);
+
+  const valued = open.map((layer) => {
+    const effectiveUnitCostEgp = method === "fifo" ? parseAmountOrZero(layer.unitCostEgp) : basis.unitCostEgp;
+    return { ...layer, effectiveUnitCostEgp, valueEgp: roundAmount(layer.remainingQuantity * effectiveUnitCostEgp) };
+  });
+
+  return { layers: valued, quantity: basis.quantity, valueEgp: basis.valueEgp };
+}
+
+/**
+ * Outbound movements recorded before cost layers existed never drew the
+ * layers down. Drains the oldest layers until they hold exactly `onHand`
+ * pieces and returns the layers whose remaining quantity changed.
+ */
+export function reconcileLayerQuantities<T extends LayerBalance>(layers: T[], onHand: number): T[] {
+  let excess = layerTotals(layers).quantity - Math.max(0, onHand);
+  const changed: T[] = [];
+
+  for (const layer of orderLayers(layers)) {
+    if (excess <= 0) break;
+    const drained = Math.min(layer.remainingQuantity, excess);
+    if (drained === 0) continue;
+    changed.push({ ...layer, remainingQuantity: layer.remainingQuantity - drained });
+    excess -= drained;
+  }
+  return changed;
+}
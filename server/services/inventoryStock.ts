@@ -0,0 +1,253 @@
+import type { InventoryMovement } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+// Written by the receiving step of the shipment wizard
+export const RECEIPT_MOVEMENT_TYPE = "استلام";
+
+// بيع, مرتجع للمورد, تالف, عينة
+export const OUTBOUND_MOVEMENT_TYPES = ["بيع", "مرتجع للمورد", "تالف", "عينة"] as const;
+export type OutboundMovementType = (typeof OUTBOUND_MOVEMENT_TYPES)[number];
+
+export const isOutboundMovementType = (value: unknown): value is OutboundMovementType =>
+  typeof value === "string" && (OUTBOUND_MOVEMENT_TYPES as readonly string[]).includes(value);
+
+// The two legs of an inter-warehouse transfer; between them the pieces are in transit
+export const TRANSFER_OUT_MOVEMENT_TYPE = "تحويل صادر";
+export const TRANSFER_IN_MOVEMENT_TYPE = "تحويل وارد";
+
+export const isTransferMovementType = (value: unknown): boolean =>
+  value === TRANSFER_OUT_MOVEMENT_TYPE || value === TRANSFER_IN_MOVEMENT_TYPE;
+
+// في الطريق, مستلم
+export const TRANSFER_IN_TRANSIT_STATUS = "في الطريق";
+export const TRANSFER_RECEIVED_STATUS = "مستلم";
+
+type StockMovement = Pick<
+  InventoryMovement,
+  "productId" | "shipmentItemId" | "movementType" | "totalPiecesIn" | "totalPiecesOut" | "totalCostEgp" | "movementDate"
+>;
+
+type WarehouseStockMovement = StockMovement & Pick<InventoryMovement, "warehouseId">;
+
+/**
+ * Stock is tracked per product. Items received without a linked product are
+ * tracked on their own, keyed by the shipment item they arrived as.
+ */
+export function stockKeyFor(movement: Pick<InventoryMovement, "productId" | "shipmentItemId">): string {
+  return movement.productId ? `product:${movement.productId}` : `item:${movement.shipmentItemId}`;
+}
+
+export type StockLine = {
+  key: string;
+  productId: number | null;
+  shipmentItemId: number | null;
+  piecesIn: number;
+  piecesOut: number;
+  onHand: number;
+  valueEgp: number;
+  avgUnitCostEgp: number;
+  lastMovementDate: string | null;
+};
+
+/**
+ * Quantity and value on hand per stock key. Outbound movements carry the
+ * cost they were issued at, so the remaining value is receipts minus issues.
+ * Transfers only move stock between warehouses and leave the totals alone;
+ * pieces in transit are still owned.
+ */
+export function calculateStockOnHand(movements: StockMovement[]): StockLine[] {
+  const lines = new Map<string, StockLine>();
+
+  for (const movement of movements) {
+    if (isTransferMovementType(movement.movementType)) continue;
+    const key = stockKeyFor(movement);
+    const line = lines.get(key) ?? {
+      key,
+      productId: movement.productId ?? null,
+      shipmentItemId: movement.productId ? null : movement.shipmentItemId ?? null,
+      piecesIn: 0,
+      piecesOut: 0,
+      onHand: 0,
+      valueEgp: 0,
+      avgUnitCostEgp: 0,
+      lastMovementDate: null,
+    };
+
+    const cost = parseAmountOrZero(movement.totalCostEgp);
+    if (isOutboundMovementType(movement.movementType)) {
+      line.piecesOut += movement.totalPiecesOut || 0;
+      line.valueEgp -= cost;
+    } else {
+      line.piecesIn += movement.totalPiecesIn || 0;
+      line.valueEgp += cost;
+    }
+    if (!line.lastMovementDate || movement.movementDate > line.lastMovementDate) {
+      line.lastMovementDate = movement.movementDate;
+    }
+    lines.set(key, line);
+  }
+
+  return Array.from(lines.values()).map((line) => {
+    const onHand = line.piecesIn - line.piecesOut;
+    const valueEgp = onHand > 0 ? roundAmount(line.valueEgp) : 0;
+    return {
+      ...line,
+      onHand,
+      valueEgp,
+      avgUnitCostEgp: onHand > 0 ? roundAmount(valueEgp / onHand, 4) : 0,
+    };
+  });
+}
+
+export type WarehouseStockLine = {
+  warehouseId: number | null;
+  key: string;
+  productId: number | null;
+  shipmentItemId: number | null;
+  onHand: number;
+  valueEgp: number;
+};
+
+/**
+ * Quantity and value per warehouse and stock key. Movements recorded before
+ * warehouses existed have no warehouse and are grouped under `null`. A sent
+ * transfer leaves its source straight away and reaches the destination only
+ * when it is received.
+ */
+export function calculateWarehouseStock(movements: WarehouseStockMovement[]): WarehouseStockLine[] {
+  const lines = new Map<string, WarehouseStockLine>();
+
+  for (const movement of movements) {
+    const key = stockKeyFor(movement);
+    const warehouseId = movement.warehouseId ?? null;
+    const bucket = `${warehouseId ?? "none"}|${key}`;
+    const line = lines.get(bucket) ?? {
+      warehouseId,
+      key,
+      productId: movement.productId ?? null,
+      shipmentItemId: movement.productId ? null : movement.shipmentItemId ?? null,
+      onHand: 0,
+      valueEgp: 0,
+    };
+
+    const cost = parseAmountOrZero(movement.totalCostEgp);
+    if (isOutboundMovementType(movement.movementType) || movement.movementType === TRANSFER_OUT_MOVEMENT_TYPE) {
+      line.onHand -= movement.totalPiecesOut || 0;
+      line.valueEgp -= cost;
+    } else {
+      line.onHand += movement.totalPiecesIn || 0;
+      line.valueEgp += cost;
+    }
+    lines.set(bucket, line);
+  }
+
+  return Array.from(lines.values()).map((line) => ({
+    ...line,
+    valueEgp: line.onHand > 0 ? roundAmount(line.valueEgp) : 0,
+  }));
+}
+
+export type OutboundMovementInput = {
+  productId: number | null;
+  shipmentItemId: number | null;
+  movementType: OutboundMovementType;
+  quantity: number;
+  reason: string;
+  movementDate: string;
+  warehouseId: number | null;
+};
+
+const invalid = (field: string, message: string) =>
+  new ApiError("INVENTORY_MOVEMENT_INVALID", message, 400, { field });
+
+const toId = (value: unknown): number | null => {
+  const id = parseInt(String(value ?? ""));
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+export function parseOutboundMovement(body: any): OutboundMovementInput {
+  const productId = toId(body?.productId);
+  const shipmentItemId = toId(body?.shipmentItemId);
+  if (productId === null && shipmentItemId === null) {
+    throw invalid("productId", "اختر الصنف المراد صرفه من المخزون.");
+  }
+
+  if (!isOutboundMovementType(body?.movementType)) {
+    throw invalid("movementType", `نوع الحركة يجب أن يكون أحد: ${OUTBOUND_MOVEMENT_TYPES.join("، ")}.`);
+  }
+
+  const quantity = Number(body?.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw invalid("quantity", "الكمية يجب أن تكون عدداً صحيحاً أكبر من صفر.");
+  }
+
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (!reason) {
+    throw new ApiError("INVENTORY_REASON_REQUIRED", undefined, 400, { field: "reason" });
+  }
+
+  const movementDate = body?.movementDate ? new Date(body.movementDate) : new Date();
+  if (isNaN(movementDate.getTime())) {
+    throw invalid("movementDate", "تاريخ الحركة غير صالح.");
+  }
+
+  return {
+    productId,
+    shipmentItemId: productId ? null : shipmentItemId,
+    movementType: body.movementType,
+    quantity,
+    reason,
+    movementDate: movementDate.toISOString().slice(0, 10),
+    warehouseId: toId(body?.warehouseId),
+  };
+}
+
+export type TransferInput = {
+  productId: number | null;
+  shipmentItemId: number | null;
+  fromWarehouseId: number;
+  toWarehouseId: number;
+  quantity: number;
+  note: string | null;
+};
+
+const invalidTransfer = (field: string, message: string) =>
+  new ApiError("TRANSFER_INVALID", message, 400, { field });
+
+export function parseTransfer(body: any): TransferInput {
+  const productId = toId(body?.productId);
+  const shipmentItemId = toId(body?.shipmentItemId);
+  if (productId === null && shipmentItemId === null) {
+    throw invalidTransfer("productId", "اختر الصنف المراد تحويله.");
+  }
+
+  const fromWarehouseId = toId(body?.fromWarehouseId);
+  const toWarehouseId = toId(body?.toWarehouseId);
+  if (fromWarehouseId === null) {
+    throw invalidTransfer("fromWarehouseId", "اختر المخزن المحوَّل منه.");
+  }
+  if (toWarehouseId === null) {
+    throw invalidTransfer("toWarehouseId", "اختر المخزن المحوَّل إليه.");
+  }
+  if (fromWarehouseId === toWarehouseId) {
+    throw invalidTransfer("toWarehouseId", "لا يمكن التحويل إلى نفس المخزن.");
+  }
+
+  const quantity = Number(body?.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw invalidTransfer("quantity", "الكمية يجب أن تكون عدداً صحيحاً أكبر من صفر.");
+  }
+
+  const note = typeof body?.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+  return {
+    productId,
+    shipmentItemId: productId ? null : shipmentItemId,
+    fromWarehouseId,
+    toWarehouseId,
+    quantity,
+    note,
+  };
+}
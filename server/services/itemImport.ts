@@ -0,0 +1,343 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import { insertShipmentItemSchema, type ProductType, type Supplier } from "@shared/schema";
+import { roundAmount } from "./currency";
+
+export const ITEM_IMPORT_FIELDS = [
+  "productName",
+  "cartonsCtn",
+  "piecesPerCartonPcs",
+  "purchasePricePerPiecePriRmb",
+  "supplier",
+  "productType",
+] as const;
+export type ItemImportField = (typeof ITEM_IMPORT_FIELDS)[number];
+
+// Maps an import field to the index of the spreadsheet column it is read from
+export type ItemImportMapping = Partial<Record<ItemImportField, number>>;
+
+export type ImportSheetRow = {
+  // 1-based row number as shown in the spreadsheet
+  rowNumber: number;
+  cells: string[];
+};
+
+export type ImportSheet = {
+  columns: string[];
+  rows: ImportSheetRow[];
+};
+
+export type NameMatch = {
+  input: string;
+  id: number | null;
+  name: string | null;
+  score: number;
+  exact: boolean;
+};
+
+export type ImportedItem = {
+  productName: string;
+  cartonsCtn: number;
+  piecesPerCartonPcs: number;
+  totalPiecesCou: number;
+  purchasePricePerPiecePriRmb: string;
+  totalPurchaseCostRmb: string;
+  supplierId: number | null;
+  productTypeId: number | null;
+};
+
+export type ImportPreviewRow = {
+  rowNumber: number;
+  item: ImportedItem;
+  errors: string[];
+  warnings: string[];
+  supplierMatch: NameMatch | null;
+  productTypeMatch: NameMatch | null;
+};
+
+export type ImportPreview = {
+  columns: string[];
+  mapping: ItemImportMapping;
+  rows: ImportPreviewRow[];
+  validCount: number;
+  invalidCount: number;
+};
+
+export const ITEM_IMPORT_MAX_ROWS = 1000;
+// Names scoring below this are reported as unmatched rather than guessed
+export const NAME_MATCH_THRESHOLD = 0.75;
+
+const fieldLabels: Record<ItemImportField, string> = {
+  productName: "اسم الصنف",
+  cartonsCtn: "عدد الكراتين",
+  piecesPerCartonPcs: "عدد القطع في الكرتونة",
+  purchasePricePerPiecePriRmb: "سعر القطعة (RMB)",
+  supplier: "المورد",
+  productType: "نوع المنتج",
+};
+
+const headerAliases: Record<ItemImportField, string[]> = {
+  productName: ["productname", "product", "item", "itemname", "description", "name", "اسم الصنف", "الصنف", "اسم المنتج", "المنتج", "البيان"],
+  cartonsCtn: ["cartonsctn", "cartons", "ctn", "ctns", "carton", "عدد الكراتين", "الكراتين", "كراتين", "كرتونة"],
+  piecesPerCartonPcs: ["piecespercartonpcs", "piecespercarton", "pcsctn", "pcspercarton", "pcs", "qtyperctn", "عدد القطع في الكرتونة", "قطع الكرتونة", "عدد القطع"],
+  purchasePricePerPiecePriRmb: ["purchasepriceperpiecepririmb", "priceperpiece", "unitprice", "price", "pricermb", "pri", "rmb", "سعر القطعة", "سعر الشراء", "السعر"],
+  supplier: ["supplier", "suppliername", "vendor", "factory", "المورد", "اسم المورد", "المصنع"],
+  productType: ["producttype", "type", "category", "نوع المنتج", "النوع", "الفئة"],
+};
+
+const arabicIndicDigits = /[\u0660-\u0669]/g;
+
+/**
+ * Folds the spelling differences that make the same name look different:
+ * case, punctuation, Arabic alef/yaa/taa-marbuta variants and diacritics.
+ */
+export function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0640]/g, "")
+    .replace(/[أإآ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/[^a-z0-9\u0621-\u064A\u0660-\u0669]+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Finds the closest existing record by name. Returns an unmatched result (id
+ * null) when nothing reaches the threshold so the row can be fixed by hand.
+ */
+export function matchByName(
+  input: string,
+  candidates: Array<{ id: number; name: string }>,
+): NameMatch {
+  let best: NameMatch = { input, id: null, name: null, score: 0, exact: false };
+
+  for (const candidate of candidates) {
+    const score = nameSimilarity(input, candidate.name);
+    if (score > best.score) {
+      best = { input, id: candidate.id, name: candidate.name, score: roundAmount(score), exact: score === 1 };
+    }
+  }
+
+  return best.score >= NAME_MATCH_THRESHOLD ? best : { ...best, id: null, name: null };
+}
+
+// XLSX files are zip archives; anything else is read as CSV
+const isZip = (buffer: Buffer) => buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Reads the first sheet of an XLSX or CSV file. The first non-empty row is
+ * treated as the header; fully empty rows are dropped. CSV values are kept as
+ * written rather than converted to numbers or dates.
+ */
+export async function readImportSheet(buffer: Buffer): Promise<ImportSheet> {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+  if (isZip(buffer)) {
+    await workbook.xlsx.load(buffer);
+    sheet = workbook.worksheets[0];
+  } else {
+    const text = buffer.subarray(0, 3).equals(UTF8_BOM) ? buffer.subarray(3) : buffer;
+    sheet = await workbook.csv.read(Readable.from([text]), { map: (value: unknown) => value });
+  }
+  if (!sheet) return { columns: [], rows: [] };
+
+  const rows: ImportSheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells = Array.from({ length: sheet.columnCount }, (_, idx) => row.getCell(idx + 1).text.trim());
+    if (cells.some((cell) => cell !== "")) rows.push({ rowNumber, cells });
+  });
+
+  const [header, ...dataRows] = rows;
+  return { columns: header?.cells ?? [], rows: dataRows };
+}
+
+export function detectColumnMapping(columns: string[]): ItemImportMapping {
+  const mapping: ItemImportMapping = {};
+  const normalizedColumns = columns.map((column) => normalizeName(column).replace(/\s+/g, ""));
+
+  for (const field of ITEM_IMPORT_FIELDS) {
+    const aliases = headerAliases[field].map((alias) => normalizeName(alias).replace(/\s+/g, ""));
+    const index = normalizedColumns.findIndex(
+      (column, idx) => aliases.includes(column) && !Object.values(mapping).includes(idx),
+    );
+    if (index !== -1) mapping[field] = index;
+  }
+
+  return mapping;
+}
+
+function parseNumberCell(value: string): number | null {
+  const cleaned = value
+    .replace(arabicIndicDigits, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/٫/g, ".")
+    .replace(/[,\s٬]/g, "");
+  if (cleaned === "") return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+const importedItemSchema = insertShipmentItemSchema.omit({ shipmentId: true });
+
+function buildPreviewRow(
+  { rowNumber, cells }: ImportSheetRow,
+  mapping: ItemImportMapping,
+  suppliers: Supplier[],
+  productTypes: ProductType[],
+): ImportPreviewRow {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const cell = (field: ItemImportField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (cells[index] ?? "").trim();
+  };
+
+  const readInteger = (field: ItemImportField) => {
+    const value = parseNumberCell(cell(field));
+    if (value === null) {
+      errors.push(`${fieldLabels[field]} مطلوب`);
+      return 0;
+    }
+    if (Number.isNaN(value) || value < 0 || !Number.isInteger(value)) {
+      errors.push(`${fieldLabels[field]} يجب أن يكون عدداً صحيحاً موجباً`);
+      return 0;
+    }
+    return value;
+  };
+
+  const productName = cell("productName");
+  if (!productName) errors.push(`${fieldLabels.productName} مطلوب`);
+
+  const cartonsCtn = readInteger("cartonsCtn");
+  const piecesPerCartonPcs = readInteger("piecesPerCartonPcs");
+
+  let price = parseNumberCell(cell("purchasePricePerPiecePriRmb"));
+  if (price === null) {
+    errors.push(`${fieldLabels.purchasePricePerPiecePriRmb} مطلوب`);
+    price = 0;
+  } else if (Number.isNaN(price) || price < 0) {
+    errors.push(`${fieldLabels.purchasePricePerPiecePriRmb} يجب أن يكون رقماً موجباً`);
+    price = 0;
+  }
+
+  let supplierMatch: NameMatch | null = null;
+  const supplierName = cell("supplier");
+  if (supplierName) {
+    supplierMatch = matchByName(supplierName, suppliers);
+    if (supplierMatch.id === null) {
+      errors.push(`لم يتم العثور على المورد "${supplierName}"`);
+    } else if (!supplierMatch.exact) {
+      warnings.push(`تمت مطابقة المورد "${supplierName}" مع "${supplierMatch.name}"`);
+    }
+  }
+
+  let productTypeMatch: NameMatch | null = null;
+  const productTypeName = cell("productType");
+  if (productTypeName) {
+    productTypeMatch = matchByName(productTypeName, productTypes);
+    if (productTypeMatch.id === null) {
+      warnings.push(`لم يتم العثور على نوع المنتج "${productTypeName}" وسيُترك فارغاً`);
+    } else if (!productTypeMatch.exact) {
+      warnings.push(`تمت مطابقة نوع المنتج "${productTypeName}" مع "${productTypeMatch.name}"`);
+    }
+  }
+
+  const totalPiecesCou = cartonsCtn * piecesPerCartonPcs;
+  const item: ImportedItem = {
+    productName,
+    cartonsCtn,
+    piecesPerCartonPcs,
+    totalPiecesCou,
+    purchasePricePerPiecePriRmb: price.toFixed(4),
+    totalPurchaseCostRmb: (totalPiecesCou * price).toFixed(2),
+    supplierId: supplierMatch?.id ?? null,
+    productTypeId: productTypeMatch?.id ?? null,
+  };
+
+  if (errors.length === 0) {
+    const parsed = importedItemSchema.safeParse(item);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push(`${issue.path.join(".")}: ${issue.message}`);
+      }
+    }
+  }
+
+  return { rowNumber, item, errors, warnings, supplierMatch, productTypeMatch };
+}
+
+/**
+ * Builds the row-level validation report shown before imported items are
+ * added to a shipment. Nothing is written here; the wizard saves the accepted
+ * rows together with the rest of the shipment.
+ */
+export function buildItemImportPreview(
+  sheet: ImportSheet,
+  mapping: ItemImportMapping,
+  suppliers: Supplier[],
+  productTypes: ProductType[],
+): ImportPreview {
+  const rows = sheet.rows.map((row) => buildPreviewRow(row, mapping, suppliers, productTypes));
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+  return {
+    columns: sheet.columns,
+    mapping,
+    rows,
+    validCount,
+    invalidCount: rows.length - validCount,
+  };
+}
+
+/**
+ * Accepts a client-supplied mapping (field -> column index) and drops entries
+ * that do not point at an existing column.
+ */
+export function parseColumnMapping(value: unknown, columns: string[]): ItemImportMapping | null {
+  if (value === undefined || value === null || value === "") return null;
+
+  let raw: unknown = value;
+  if (typeof value === "string") {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const mapping: ItemImportMapping = {};
+  for (const field of ITEM_IMPORT_FIELDS) {
+    const index = Number((raw as Record<string, unknown>)[field]);
+    if (Number.isInteger(index) && index >= 0 && index < columns.length) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
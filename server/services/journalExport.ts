@@ -0,0 +1,278 @@
+import type { AccountMapping } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+import { ADVANCE_MOVEMENT_TYPE } from "./supplierAdvances";
+import { CREDIT_NOTE_MOVEMENT_TYPE } from "./supplierCredits";
+
+export const ACCOUNT_MAPPING_TYPES = ["cost_component", "payment_method", "supplier_payable"] as const;
+export type AccountMappingType = (typeof ACCOUNT_MAPPING_TYPES)[number];
+
+// The supplier_payable key used for every supplier without an account of its own
+export const DEFAULT_PAYABLE_KEY = "default";
+// Payment methods outside the chart post to this method's account
+const FALLBACK_PAYMENT_METHOD = "أخرى";
+// Credit notes reduce the goods cost they were raised against
+const CREDIT_NOTE_COST_COMPONENT = "تكلفة البضاعة";
+
+export type AccountMappingInput = {
+  mappingType: AccountMappingType;
+  sourceKey: string;
+  accountCode: string;
+  accountName: string;
+};
+
+export type ChartOfAccountsLine = AccountMappingInput & { isDefault: boolean };
+
+export const DEFAULT_CHART_OF_ACCOUNTS: AccountMappingInput[] = [
+  { mappingType: "cost_component", sourceKey: "تكلفة البضاعة", accountCode: "5101", accountName: "تكلفة البضاعة المستوردة" },
+  { mappingType: "cost_component", sourceKey: "الشحن", accountCode: "5102", accountName: "مصروفات الشحن" },
+  { mappingType: "cost_component", sourceKey: "العمولة", accountCode: "5103", accountName: "عمولات الشراء" },
+  { mappingType: "cost_component", sourceKey: "الجمرك", accountCode: "5104", accountName: "الرسوم الجمركية" },
+  { mappingType: "cost_component", sourceKey: "التخريج", accountCode: "5105", accountName: "مصروفات التخليص" },
+  { mappingType: "payment_method", sourceKey: "نقدي", accountCode: "1101", accountName: "الصندوق" },
+  { mappingType: "payment_method", sourceKey: "فودافون كاش", accountCode: "1102", accountName: "محفظة فودافون كاش" },
+  { mappingType: "payment_method", sourceKey: "إنستاباي", accountCode: "1103", accountName: "حساب إنستاباي" },
+  { mappingType: "payment_method", sourceKey: "تحويل بنكي", accountCode: "1104", accountName: "البنك" },
+  { mappingType: "payment_method", sourceKey: FALLBACK_PAYMENT_METHOD, accountCode: "1109", accountName: "نقدية أخرى" },
+  { mappingType: "supplier_payable", sourceKey: DEFAULT_PAYABLE_KEY, accountCode: "2101", accountName: "الموردون" },
+];
+
+// The movement report labels cost rows differently from the payment cost components
+const COST_MOVEMENT_COMPONENTS: Record<string, string> = {
+  "تكلفة بضاعة": "تكلفة البضاعة",
+  "تكلفة شحن": "الشحن",
+  "عمولة": "العمولة",
+  "جمرك": "الجمرك",
+  "تخريج": "التخريج",
+};
+
+const mappingKey = (mappingType: string, sourceKey: string) => `${mappingType}:${sourceKey}`;
+
+/** The built-in chart with any saved mappings laid over it; saved supplier accounts are appended. */
+export function resolveChartOfAccounts(saved: AccountMapping[]): ChartOfAccountsLine[] {
+  const savedByKey = new Map(saved.map((row) => [mappingKey(row.mappingType, row.sourceKey), row]));
+  const lines: ChartOfAccountsLine[] = DEFAULT_CHART_OF_ACCOUNTS.map((line) => {
+    const override = savedByKey.get(mappingKey(line.mappingType, line.sourceKey));
+    savedByKey.delete(mappingKey(line.mappingType, line.sourceKey));
+    return override
+      ? { ...line, accountCode: override.accountCode, accountName: override.accountName, isDefault: false }
+      : { ...line, isDefault: true };
+  });
+
+  for (const row of Array.from(savedByKey.values())) {
+    lines.push({
+      mappingType: row.mappingType as AccountMappingType,
+      sourceKey: row.sourceKey,
+      accountCode: row.accountCode,
+      accountName: row.accountName,
+      isDefault: false,
+    });
+  }
+  return lines;
+}
+
+const invalidMapping = (index: number, field: string) =>
+  new ApiError("ACCOUNT_MAPPING_INVALID", undefined, 400, { index, field });
+
+const isAccountMappingType = (value: unknown): value is AccountMappingType =>
+  typeof value === "string" && (ACCOUNT_MAPPING_TYPES as readonly string[]).includes(value);
+
+/** Reads the mappings to save. Supplier accounts are keyed by supplier id or the shared default key. */
+export function parseAccountMappings(body: any): AccountMappingInput[] {
+  const rows = Array.isArray(body?.mappings) ? body.mappings : null;
+  if (!rows) throw invalidMapping(-1, "mappings");
+
+  return rows.map((row: any, index: number) => {
+    if (!isAccountMappingType(row?.mappingType)) throw invalidMapping(index, "mappingType");
+
+    const sourceKey = typeof row.sourceKey === "string" ? row.sourceKey.trim() : String(row.sourceKey ?? "");
+    const supplierKeyValid =
+      row.mappingType !== "supplier_payable" || sourceKey === DEFAULT_PAYABLE_KEY || /^[1-9]\d*$/.test(sourceKey);
+    if (!sourceKey || !supplierKeyValid) throw invalidMapping(index, "sourceKey");
+
+    const accountCode = typeof row.accountCode === "string" ? row.accountCode.trim() : "";
+    if (!accountCode) throw invalidMapping(index, "accountCode");
+    const accountName = typeof row.accountName === "string" ? row.accountName.trim() : "";
+    if (!accountName) throw invalidMapping(index, "accountName");
+
+    return { mappingType: row.mappingType, sourceKey, accountCode, accountName };
+  });
+}
+
+/** Period bounds as YYYY-MM-DD, both inclusive. */
+export function parseJournalPeriod(query: Record<string, unknown>): { dateFrom: string; dateTo: string } {
+  const isDate = (value: unknown): value is string =>
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+
+  if (!isDate(query.dateFrom)) {
+    throw new ApiError("JOURNAL_PERIOD_INVALID", undefined, 400, { field: "dateFrom" });
+  }
+  if (!isDate(query.dateTo) || query.dateTo < query.dateFrom) {
+    throw new ApiError("JOURNAL_PERIOD_INVALID", undefined, 400, { field: "dateTo" });
+  }
+  return { dateFrom: query.dateFrom, dateTo: query.dateTo };
+}
+
+// The fields of a movement report row the journal needs
+export type JournalSourceMovement = {
+  date: Date | string;
+  shipmentCode: string;
+  supplierId?: number;
+  supplierName?: string;
+  movementType: string;
+  costComponent?: string;
+  paymentMethod?: string;
+  amountEgp: string;
+  direction: "cost" | "payment" | "credit";
+};
+
+export type JournalLine = {
+  accountCode: string;
+  accountName: string;
+  debitEgp: string;
+  creditEgp: string;
+};
+
+export type JournalEntry = {
+  entryNumber: number;
+  date: string;
+  reference: string;
+  description: string;
+  movementType: string;
+  supplierId: number | null;
+  lines: JournalLine[];
+};
+
+/**
+ * The JSON export. Every entry balances on its own, and `totals` restates the
+ * sum of all debits and credits so an importer can check nothing was dropped.
+ * Amounts are EGP strings with two decimals.
+ */
+export type JournalExport = {
+  period: { dateFrom: string; dateTo: string };
+  currency: "EGP";
+  generatedAt: string;
+  entries: JournalEntry[];
+  totals: { debitEgp: string; creditEgp: string };
+};
+
+const toDateString = (value: Date | string) =>
+  (value instanceof Date ? value : new Date(value)).toISOString().split("T")[0];
+
+/**
+ * One balanced entry per movement dated inside the period: a cost is owed to
+ * the supplier, a payment or advance settles the supplier from the method's account, and
+ * a credit note takes goods cost back off the supplier. Negative amounts
+ * (payment reversals) swap the two sides.
+ */
+export function buildJournalEntries(
+  movements: JournalSourceMovement[],
+  chart: ChartOfAccountsLine[],
+  period: { dateFrom: string; dateTo: string },
+  generatedAt: Date = new Date(),
+): JournalExport {
+  const accounts = new Map(chart.map((line) => [mappingKey(line.mappingType, line.sourceKey), line]));
+  const account = (mappingType: AccountMappingType, sourceKey: string) => {
+    const line = accounts.get(mappingKey(mappingType, sourceKey));
+    if (!line) {
+      throw new ApiError("ACCOUNT_MAPPING_MISSING", undefined, 422, { mappingType, sourceKey });
+    }
+    return line;
+  };
+  const payableFor = (supplierId?: number) =>
+    (supplierId && accounts.get(mappingKey("supplier_payable", String(supplierId)))) ||
+    account("supplier_payable", DEFAULT_PAYABLE_KEY);
+
+  const entries: JournalEntry[] = [];
+  let totalEgp = 0;
+
+  for (const movement of movements) {
+    const date = toDateString(movement.date);
+    if (date < period.dateFrom || date > period.dateTo) continue;
+
+    const amount = roundAmount(parseAmountOrZero(movement.amountEgp));
+    if (amount === 0) continue;
+
+    const payable = payableFor(movement.supplierId);
+    let debit: ChartOfAccountsLine;
+    let credit: ChartOfAccountsLine;
+    let description: string;
+
+    if (movement.direction === "cost") {
+      const component = COST_MOVEMENT_COMPONENTS[movement.movementType] ?? movement.movementType;
+      debit = account("cost_component", component);
+      credit = payable;
+      description = `${component} - ${movement.shipmentCode}`;
+    } else if (movement.direction === "payment") {
+      const method = movement.paymentMethod ?? FALLBACK_PAYMENT_METHOD;
+      debit = payable;
+      credit =
+        accounts.get(mappingKey("payment_method", method)) ?? account("payment_method", FALLBACK_PAYMENT_METHOD);
+      // An advance settles no shipment yet; its reference names the advance itself
+      description =
+        movement.movementType === ADVANCE_MOVEMENT_TYPE
+          ? `${movement.shipmentCode} (${method})`
+          : `سداد ${movement.costComponent ?? ""} - ${movement.shipmentCode} (${method})`;
+    } else {
+      debit = payable;
+      credit = account("cost_component", CREDIT_NOTE_COST_COMPONENT);
+      description = `${CREDIT_NOTE_MOVEMENT_TYPE} - ${movement.shipmentCode}`;
+    }
+
+    if (amount < 0) [debit, credit] = [credit, debit];
+    const value = Math.abs(amount).toFixed(2);
+    totalEgp += Math.abs(amount);
+
+    entries.push({
+      entryNumber: entries.length + 1,
+      date,
+      reference: movement.shipmentCode,
+      description: movement.supplierName ? `${description} - ${movement.supplierName}` : description,
+      movementType: movement.movementType,
+      supplierId: movement.supplierId ?? null,
+      lines: [
+        { accountCode: debit.accountCode, accountName: debit.accountName, debitEgp: value, creditEgp: "0.00" },
+        { accountCode: credit.accountCode, accountName: credit.accountName, debitEgp: "0.00", creditEgp: value },
+      ],
+    });
+  }
+
+  const total = roundAmount(totalEgp).toFixed(2);
+  return {
+    period,
+    currency: "EGP",
+    generatedAt: generatedAt.toISOString(),
+    entries,
+    totals: { debitEgp: total, creditEgp: total },
+  };
+}
+
+// Descriptions and account names are typed by users; a leading quote stops spreadsheets running them as formulas
+const csvCell = (value: string | number) => {
+  const raw = String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per journal line, with a byte-order mark so spreadsheet apps read the Arabic correctly. */
+export function journalToCsv(journal: JournalExport): string {
+  const headers = ["رقم القيد", "التاريخ", "المرجع", "البيان", "رمز الحساب", "اسم الحساب", "مدين", "دائن"];
+  const rows = journal.entries.flatMap((entry) =>
+    entry.lines.map((line) =>
+      [
+        entry.entryNumber,
+        entry.date,
+        entry.reference,
+        entry.description,
+        line.accountCode,
+        line.accountName,
+        line.debitEgp,
+        line.creditEgp,
+      ]
+        .map(csvCell)
+        .join(","),
+    ),
+  );
+  return "\uFEFF" + [headers.join(","), ...rows].join("\n");
+}
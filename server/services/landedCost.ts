@@ -0,0 +1,110 @@
+import type { Shipment, ShipmentItem } from "@shared/schema";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+export const COST_ALLOCATION_BASES = ["purchase_value", "pieces", "cartons", "cbm"] as const;
+export type CostAllocationBasis = (typeof COST_ALLOCATION_BASES)[number];
+export const DEFAULT_COST_ALLOCATION_BASIS: CostAllocationBasis = "purchase_value";
+
+export type LandedCostLine = {
+  shipmentItemId: number;
+  pieces: number;
+  purchaseCostEgp: number;
+  commissionShareEgp: number;
+  shippingShareEgp: number;
+  customsShareEgp: number;
+  takhreegShareEgp: number;
+  totalLandedCostEgp: number;
+  unitLandedCostEgp: number;
+};
+
+export function isCostAllocationBasis(value: unknown): value is CostAllocationBasis {
+  return typeof value === "string" && (COST_ALLOCATION_BASES as readonly string[]).includes(value);
+}
+
+/**
+ * Splits an amount across weights so the rounded parts always add back up to
+ * the original amount; the last non-zero bucket absorbs the rounding remainder.
+ * Falls back to an even split when every weight is zero.
+ */
+export function splitByWeights(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  const effective = totalWeight > 0 ? weights.map((w) => Math.max(0, w)) : weights.map(() => 1);
+  const effectiveTotal = totalWeight > 0 ? totalWeight : weights.length;
+
+  let lastIndex = -1;
+  effective.forEach((w, idx) => {
+    if (w > 0) lastIndex = idx;
+  });
+
+  const parts = effective.map((w) => roundAmount((amount * w) / effectiveTotal));
+  const allocated = parts.reduce((sum, part, idx) => (idx === lastIndex ? sum : sum + part), 0);
+  parts[lastIndex] = roundAmount(amount - allocated);
+
+  return parts;
+}
+
+export function costBasisWeight(item: ShipmentItem, basis: CostAllocationBasis): number {
+  if (basis === "pieces") return item.totalPiecesCou || 0;
+  if (basis === "cartons") return item.cartonsCtn || 0;
+  if (basis === "cbm") return parseAmountOrZero(item.declaredCbm);
+  return parseAmountOrZero(item.totalPurchaseCostRmb);
+}
+
+export function resolveCostAllocationBasis(shipment: Pick<Shipment, "costAllocationBasis">): CostAllocationBasis {
+  return isCostAllocationBasis(shipment.costAllocationBasis)
+    ? shipment.costAllocationBasis
+    : DEFAULT_COST_ALLOCATION_BASIS;
+}
+
+// Prefer per-item declared amounts (e.g. customs per carton) over the generic basis when they exist
+function weightsOrBasis(declared: number[], basisWeights: number[]): number[] {
+  return declared.some((w) => w > 0) ? declared : basisWeights;
+}
+
+/**
+ * Spreads a shipment's EGP costs over its items to get a landed cost per piece.
+ * Goods cost follows each item's RMB value; commission and shipping follow the
+ * shipment's allocation basis; customs and takhreeg follow the per-item amounts
+ * entered on the items and fall back to the basis when none were entered.
+ */
+export function calculateLandedCosts(
+  shipment: Shipment,
+  items: ShipmentItem[],
+  basisOverride?: CostAllocationBasis,
+): LandedCostLine[] {
+  if (items.length === 0) return [];
+
+  const basis = basisOverride ?? resolveCostAllocationBasis(shipment);
+  const basisWeights = items.map((item) => costBasisWeight(item, basis));
+  const purchaseWeights = items.map((item) => parseAmountOrZero(item.totalPurchaseCostRmb));
+  const customsWeights = items.map((item) => parseAmountOrZero(item.totalCustomsCostEgp));
+  const takhreegWeights = items.map((item) => parseAmountOrZero(item.totalTakhreegCostEgp));
+
+  const split = (value: unknown, weights: number[]) => splitByWeights(parseAmountOrZero(value), weights);
+
+  const purchase = split(shipment.purchaseCostEgp, weightsOrBasis(purchaseWeights, basisWeights));
+  const commission = split(shipment.commissionCostEgp, basisWeights);
+  const shipping = split(shipment.shippingCostEgp, basisWeights);
+  const customs = split(shipment.customsCostEgp, weightsOrBasis(customsWeights, basisWeights));
+  const takhreeg = split(shipment.takhreegCostEgp, weightsOrBasis(takhreegWeights, basisWeights));
+
+  return items.map((item, idx) => {
+    const pieces = item.totalPiecesCou || 0;
+    const total = roundAmount(purchase[idx] + commission[idx] + shipping[idx] + customs[idx] + takhreeg[idx]);
+
+    return {
+      shipmentItemId: item.id,
+      pieces,
+      purchaseCostEgp: purchase[idx],
+      commissionShareEgp: commission[idx],
+      shippingShareEgp: shipping[idx],
+      customsShareEgp: customs[idx],
+      takhreegShareEgp: takhreeg[idx],
+      totalLandedCostEgp: total,
+      unitLandedCostEgp: pieces > 0 ? roundAmount(total / pieces, 4) : 0,
+    };
+  });
+}
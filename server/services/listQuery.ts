@@ -0,0 +1,123 @@
+import { ApiError } from "../errors";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+export const SHIPMENT_SORT_FIELDS = [
+  "purchaseDate",
+  "createdAt",
+  "shipmentCode",
+  "shipmentName",
+  "finalTotalCostEgp",
+  "balanceEgp",
+] as const;
+export type ShipmentSortField = (typeof SHIPMENT_SORT_FIELDS)[number];
+
+export const SHIPMENT_VIEWS = ["active", "archived", "all"] as const;
+
+export const PAYMENT_SORT_FIELDS = ["paymentDate", "amountEgp", "createdAt"] as const;
+export type PaymentSortField = (typeof PAYMENT_SORT_FIELDS)[number];
+
+export const INVENTORY_SORT_FIELDS = ["movementDate", "totalPiecesIn", "totalCostEgp"] as const;
+export type InventorySortField = (typeof INVENTORY_SORT_FIELDS)[number];
+
+export type SortDirection = "asc" | "desc";
+
+export type ListQuery<TSort extends string> = {
+  page: number;
+  pageSize: number;
+  offset: number;
+  sortBy: TSort;
+  sortDir: SortDirection;
+};
+
+export type Paginated<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+/**
+ * List endpoints stay backwards compatible: callers that pass neither `page`
+ * nor `pageSize` still get the whole table as a plain array.
+ */
+export const isPaginatedQuery = (query: Record<string, unknown>) =>
+  query.page !== undefined || query.pageSize !== undefined;
+
+const invalidFilter = (field: string, details?: Record<string, unknown>) =>
+  new ApiError("LIST_QUERY_INVALID", undefined, 400, { field, ...details });
+
+const SORT_DIRECTIONS = ["asc", "desc"] as const;
+
+/**
+ * Reads `page`, `pageSize`, `sortBy` and `sortDir`. A page size above the
+ * maximum is clamped; anything malformed or not offered is a caller bug and
+ * is rejected.
+ */
+export function parseListQuery<TSort extends string>(
+  query: Record<string, unknown>,
+  sortFields: readonly TSort[],
+  defaultSort: TSort,
+): ListQuery<TSort> {
+  const page = readIdFilter(query, "page") ?? 1;
+  const pageSize = Math.min(readIdFilter(query, "pageSize") ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const sortBy = readChoiceFilter(query, "sortBy", sortFields) ?? defaultSort;
+  const sortDir: SortDirection = readChoiceFilter(query, "sortDir", SORT_DIRECTIONS) ?? "desc";
+
+  return { page, pageSize, offset: (page - 1) * pageSize, sortBy, sortDir };
+}
+
+/** An optional text filter. A repeated parameter arrives as an array and is rejected. */
+export function readTextFilter(query: Record<string, unknown>, field: string): string | undefined {
+  const value = query[field];
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") throw invalidFilter(field);
+  return value;
+}
+
+/** An optional id filter; anything but a positive integer is rejected rather than ignored. */
+export function readIdFilter(query: Record<string, unknown>, field: string): number | undefined {
+  const value = readTextFilter(query, field);
+  if (value === undefined) return undefined;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw invalidFilter(field);
+  return id;
+}
+
+/** An optional YYYY-MM-DD filter; it reaches SQL as a date, so it must be a real day. */
+export function readDateFilter(query: Record<string, unknown>, field: string): string | undefined {
+  const value = readTextFilter(query, field);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw invalidFilter(field);
+  }
+  return value;
+}
+
+/** An optional filter limited to a fixed set of values. */
+export function readChoiceFilter<T extends string>(
+  query: Record<string, unknown>,
+  field: string,
+  allowed: readonly T[],
+): T | undefined {
+  const value = readTextFilter(query, field);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw invalidFilter(field, { allowed });
+  return value as T;
+}
+
+export function toPage<T>(items: T[], total: number, query: Pick<ListQuery<string>, "page" | "pageSize">): Paginated<T> {
+  return {
+    items,
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+  };
+}
+
+/** `%term%` for ILIKE, with the user's own wildcards taken literally. */
+export const containsPattern = (term: string) => `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
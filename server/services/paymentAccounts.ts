@@ -0,0 +1,273 @@
+import type { PaymentAccount } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+export const PAYMENT_ACCOUNT_TYPES = ["cash", "bank", "wallet"] as const;
+
+export type PaymentAccountType = (typeof PAYMENT_ACCOUNT_TYPES)[number];
+
+export type PaymentAccountInput = {
+  name: string;
+  accountType: PaymentAccountType;
+  currency: "RMB" | "EGP";
+  paymentMethod: string;
+  openingBalance: number;
+  openingBalanceDate: string; // YYYY-MM-DD
+  bankName: string | null;
+  accountNumber: string | null;
+  isActive: boolean;
+};
+
+// Currency is fixed once an account exists: its history is kept in that currency
+export type PaymentAccountUpdate = Partial<Omit<PaymentAccountInput, "currency">>;
+
+export type AccountTransferInput = {
+  transferDate: Date;
+  // null for a top-up, where the money comes from outside the tracked accounts
+  fromAccountId: number | null;
+  toAccountId: number;
+  // In the source account's currency; required only when the two currencies differ
+  amountFrom: number | null;
+  amountTo: number;
+  referenceNumber: string | null;
+  note: string | null;
+};
+
+export type AccountMovementKind = "payment" | "payment_reversal" | "advance" | "transfer_in" | "transfer_out" | "top_up";
+
+export type AccountMovement = {
+  date: Date;
+  kind: AccountMovementKind;
+  description: string;
+  referenceNumber: string | null;
+  // Signed, in the account's currency: money in is positive
+  amount: number;
+};
+
+export type AccountStatementLine = AccountMovement & { runningBalance: number };
+
+export type AccountStatement = {
+  openingBalance: number;
+  totalIn: number;
+  totalOut: number;
+  closingBalance: number;
+  movements: AccountStatementLine[];
+};
+
+export type AccountReconciliation = {
+  bookBalance: number;
+  bankBalance: number;
+  // Positive when the bank shows more than the books
+  difference: number;
+  reconciled: boolean;
+};
+
+const invalid = (field: string, extra: Record<string, unknown> = {}) =>
+  new ApiError("PAYMENT_ACCOUNT_INVALID", undefined, 400, { field, ...extra });
+
+const toPositiveNumber = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === "";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates an account body. With `partial` only the fields present are checked and
+ * returned, for edits; the currency cannot be edited.
+ */
+export function parsePaymentAccount(body: any, options: { partial: true }): PaymentAccountUpdate;
+export function parsePaymentAccount(body: any, options?: { partial?: false }): PaymentAccountInput;
+export function parsePaymentAccount(body: any, options?: { partial?: boolean }): PaymentAccountInput | PaymentAccountUpdate {
+  const partial = options?.partial === true;
+  const has = (field: string) => !partial || body?.[field] !== undefined;
+  const result: Record<string, unknown> = {};
+
+  if (has("name")) {
+    const name = optionalText(body?.name);
+    if (!name) throw invalid("name");
+    result.name = name;
+  }
+
+  if (has("accountType")) {
+    if (!PAYMENT_ACCOUNT_TYPES.includes(body?.accountType)) throw invalid("accountType");
+    result.accountType = body.accountType;
+  }
+
+  if (partial) {
+    if (body?.currency !== undefined) throw invalid("currency", { reason: "immutable" });
+  } else {
+    if (body?.currency !== "RMB" && body?.currency !== "EGP") throw invalid("currency");
+    result.currency = body.currency;
+  }
+
+  if (has("paymentMethod")) {
+    const paymentMethod = optionalText(body?.paymentMethod);
+    if (!paymentMethod) throw invalid("paymentMethod");
+    result.paymentMethod = paymentMethod;
+  }
+
+  if (has("openingBalance")) {
+    const openingBalance = isBlank(body?.openingBalance) ? 0 : Number(body.openingBalance);
+    if (!Number.isFinite(openingBalance)) throw invalid("openingBalance");
+    result.openingBalance = roundAmount(openingBalance);
+  }
+
+  if (has("openingBalanceDate")) {
+    const openingBalanceDate = body?.openingBalanceDate;
+    if (typeof openingBalanceDate !== "string" || !DATE_ONLY.test(openingBalanceDate) || isNaN(new Date(openingBalanceDate).getTime())) {
+      throw invalid("openingBalanceDate");
+    }
+    result.openingBalanceDate = openingBalanceDate;
+  }
+
+  if (has("bankName")) result.bankName = optionalText(body?.bankName);
+  if (has("accountNumber")) result.accountNumber = optionalText(body?.accountNumber);
+
+  if (partial) {
+    if (body?.isActive !== undefined) {
+      if (typeof body.isActive !== "boolean") throw invalid("isActive");
+      result.isActive = body.isActive;
+    }
+  } else {
+    result.isActive = body?.isActive !== false;
+  }
+
+  return result as PaymentAccountInput | PaymentAccountUpdate;
+}
+
+export function parseAccountTransfer(body: any): AccountTransferInput {
+  const transferDate = new Date(body?.transferDate);
+  if (!body?.transferDate || isNaN(transferDate.getTime())) throw invalid("transferDate");
+
+  const toAccountId = toId(body?.toAccountId);
+  if (toAccountId === null) throw invalid("toAccountId");
+
+  let fromAccountId: number | null = null;
+  if (!isBlank(body?.fromAccountId)) {
+    fromAccountId = toId(body.fromAccountId);
+    if (fromAccountId === null) throw invalid("fromAccountId");
+    if (fromAccountId === toAccountId) throw invalid("toAccountId", { reason: "same_account" });
+  }
+
+  const amountTo = toPositiveNumber(body?.amountTo);
+  if (amountTo === null) throw invalid("amountTo");
+
+  let amountFrom: number | null = null;
+  if (fromAccountId !== null && !isBlank(body?.amountFrom)) {
+    amountFrom = toPositiveNumber(body.amountFrom);
+    if (amountFrom === null) throw invalid("amountFrom");
+  }
+
+  return {
+    transferDate,
+    fromAccountId,
+    toAccountId,
+    amountFrom: amountFrom === null ? null : roundAmount(amountFrom),
+    amountTo: roundAmount(amountTo),
+    referenceNumber: optionalText(body?.referenceNumber),
+    note: optionalText(body?.note),
+  };
+}
+
+/**
+ * How much leaves the source account. Same-currency transfers move one amount; across
+ * currencies the amount debited has to be given, since the rate is whatever the bank applied.
+ */
+export function resolveTransferAmountFrom(
+  input: AccountTransferInput,
+  from: Pick<PaymentAccount, "currency"> | null,
+  to: Pick<PaymentAccount, "currency">,
+): number | null {
+  if (!from) return null;
+  if (from.currency === to.currency) {
+    if (input.amountFrom !== null && Math.abs(input.amountFrom - input.amountTo) > 0.0001) {
+      throw invalid("amountFrom", { reason: "same_currency_mismatch" });
+    }
+    return input.amountTo;
+  }
+  if (input.amountFrom === null) throw invalid("amountFrom", { reason: "currency_differs" });
+  return input.amountFrom;
+}
+
+/** Throws unless money in `paymentCurrency` can be paid out of the account. */
+export function assertAccountAcceptsPayment(account: PaymentAccount, paymentCurrency: string) {
+  if (!account.isActive) {
+    throw new ApiError("PAYMENT_ACCOUNT_INACTIVE", undefined, 409, { paymentAccountId: account.id });
+  }
+  // An EGP account can fund an RMB payment at its EGP value; an RMB account holds nothing else
+  if (account.currency !== paymentCurrency && account.currency !== "EGP") {
+    throw new ApiError("PAYMENT_ACCOUNT_CURRENCY_MISMATCH", undefined, 400, {
+      paymentAccountId: account.id,
+      accountCurrency: account.currency,
+      paymentCurrency,
+    });
+  }
+}
+
+/** The amount a payment or advance took out of the account, in the account's currency. */
+export function amountInAccountCurrency(
+  account: Pick<PaymentAccount, "currency">,
+  payment: { paymentCurrency: string; amountOriginal: string | number | null; amountEgp: string | number | null },
+): number {
+  const amount = payment.paymentCurrency === account.currency ? payment.amountOriginal : payment.amountEgp;
+  return roundAmount(parseAmountOrZero(amount as any));
+}
+
+/**
+ * Orders an account's movements and runs the balance through them. With a date range,
+ * everything before `dateFrom` is folded into the opening balance.
+ */
+export function buildAccountStatement(
+  account: Pick<PaymentAccount, "openingBalance">,
+  movements: AccountMovement[],
+  filters?: { dateFrom?: string; dateTo?: string },
+): AccountStatement {
+  const from = filters?.dateFrom ? new Date(filters.dateFrom) : null;
+  // dateTo is inclusive of the whole day
+  const to = filters?.dateTo ? new Date(new Date(filters.dateTo).getTime() + 24 * 60 * 60 * 1000) : null;
+
+  const sorted = [...movements].sort((a, b) => a.date.getTime() - b.date.getTime());
+  let openingBalance = parseAmountOrZero(account.openingBalance);
+  for (const movement of sorted) {
+    if (from && movement.date < from) openingBalance += movement.amount;
+  }
+  openingBalance = roundAmount(openingBalance);
+
+  let runningBalance = openingBalance;
+  let totalIn = 0;
+  let totalOut = 0;
+  const lines: AccountStatementLine[] = [];
+  for (const movement of sorted) {
+    if ((from && movement.date < from) || (to && movement.date >= to)) continue;
+    runningBalance = roundAmount(runningBalance + movement.amount);
+    if (movement.amount >= 0) totalIn += movement.amount;
+    else totalOut -= movement.amount;
+    lines.push({ ...movement, runningBalance });
+  }
+
+  return {
+    openingBalance,
+    totalIn: roundAmount(totalIn),
+    totalOut: roundAmount(totalOut),
+    closingBalance: runningBalance,
+    movements: lines,
+  };
+}
+
+/** Compares the books with the closing balance on the bank's own statement. */
+export function reconcileAccount(bookBalance: number, bankBalance: number): AccountReconciliation {
+  const difference = roundAmount(bankBalance - bookBalance);
+  return { bookBalance, bankBalance, difference, reconciled: Math.abs(difference) < 0.005 };
+}
@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { ApiError } from "../errors";
+
+export const PAYMENT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const PAYMENT_ATTACHMENT_MAX_FILES = 5;
+
+// Outside the public /uploads mount, so files are only reachable through the authenticated route
+export const PAYMENT_ATTACHMENTS_DIR = path.resolve(
+  process.env.PAYMENT_ATTACHMENTS_DIR || path.join("private", "payment-attachments"),
+);
+
+// Each accepted type, the extensions it may arrive with and the bytes its content starts with
+const ATTACHMENT_TYPES = [
+  { mimeType: "application/pdf", extensions: [".pdf"], signature: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  { mimeType: "image/jpeg", extensions: [".jpg", ".jpeg"], signature: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/png", extensions: [".png"], signature: [0x89, 0x50, 0x4e, 0x47] },
+] as const;
+
+export type UploadedAttachment = {
+  originalname: string;
+  buffer: Buffer;
+  size: number;
+};
+
+export type AcceptedAttachment = {
+  originalName: string;
+  mimeType: string;
+  extension: string;
+  buffer: Buffer;
+  sizeBytes: number;
+};
+
+/**
+ * Checks the file by its content, not just its name: a renamed executable
+ * claiming to be a PDF is refused. The type stored is the detected one.
+ */
+export function acceptAttachment(file: UploadedAttachment, index = 0): AcceptedAttachment {
+  const extension = path.extname(file.originalname).toLowerCase();
+  const type = ATTACHMENT_TYPES.find((candidate) => (candidate.extensions as readonly string[]).includes(extension));
+
+  if (!type) {
+    throw new ApiError("ATTACHMENT_INVALID", undefined, 400, { index, field: "type", name: file.originalname });
+  }
+  if (file.size === 0 || file.size > PAYMENT_ATTACHMENT_MAX_BYTES) {
+    throw new ApiError("ATTACHMENT_INVALID", undefined, 400, { index, field: "size", name: file.originalname });
+  }
+  if (!type.signature.every((byte, offset) => file.buffer[offset] === byte)) {
+    throw new ApiError("ATTACHMENT_INVALID", undefined, 400, { index, field: "content", name: file.originalname });
+  }
+
+  return {
+    originalName: path.basename(file.originalname).slice(0, 255),
+    mimeType: type.mimeType,
+    extension,
+    buffer: file.buffer,
+    sizeBytes: file.size,
+  };
+}
+
+/** Resolves a stored name to its file, refusing anything that would step outside the attachments folder. */
+export function attachmentPath(storedName: string): string {
+  if (storedName !== path.basename(storedName)) {
+    throw new ApiError("ATTACHMENT_NOT_FOUND", undefined, 404, { storedName });
+  }
+  return path.join(PAYMENT_ATTACHMENTS_DIR, storedName);
+}
+
+/** Writes the files under random names and returns those names in the same order. */
+export async function writeAttachmentFiles(files: AcceptedAttachment[]): Promise<string[]> {
+  await fs.promises.mkdir(PAYMENT_ATTACHMENTS_DIR, { recursive: true });
+  const storedNames: string[] = [];
+  try {
+    for (const file of files) {
+      const storedName = `${randomUUID()}${file.extension}`;
+      await fs.promises.writeFile(attachmentPath(storedName), file.buffer, { flag: "wx" });
+      storedNames.push(storedName);
+    }
+  } catch (error) {
+    await removeAttachmentFiles(storedNames);
+    throw error;
+  }
+  return storedNames;
+}
+
+export async function removeAttachmentFiles(storedNames: string[]): Promise<void> {
+  await Promise.all(storedNames.map((storedName) => fs.promises.rm(attachmentPath(storedName), { force: true })));
+}
+
+/** Previews open in the browser; `download` forces a save dialog instead. */
+export function attachmentDisposition(originalName: string, download: boolean): string {
+  return `${download ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(originalName)}`;
+}
@@ -1,4 +1,5 @@
 import type { Shipment, ShipmentItem, ShipmentPayment } from "@shared/schema";
+import { ApiError } from "../errors";
 import { roundAmount } from "./currency";
 
 export type PaidByCurrency = Record<
@@ -61,10 +62,12 @@ const computeRecoveredTotals = (
     );
   }, 0);
 
-  const effectiveRate =
-    rmbToEgpRate && rmbToEgpRate > 0 ? rmbToEgpRate : 7.15;
+  const hasRate = !!rmbToEgpRate && rmbToEgpRate > 0;
+  if (totalPurchaseCostRmb > 0 && !hasRate) {
+    throw new ApiError("EXCHANGE_RATE_NOT_FOUND", undefined, 400, { from: "RMB", to: "EGP" });
+  }
 
-  const purchaseCostEgp = totalPurchaseCostRmb * effectiveRate;
+  const purchaseCostEgp = hasRate ? totalPurchaseCostRmb * rmbToEgpRate : 0;
   const finalTotalCostEgp =
     purchaseCostEgp + totalCustomsCostEgp + totalTakhreegCostEgp;
 
@@ -143,3 +146,64 @@ export async function calculatePaymentSnapshot(options: {
     recoveredTotals,
   };
 }
+
+// The shipment cost each payment component is settled against
+export const PAYMENT_COMPONENT_COST_FIELDS = {
+  "تكلفة البضاعة": "purchaseCostEgp",
+  "العمولة": "commissionCostEgp",
+  "الشحن": "shippingCostEgp",
+  "الجمرك": "customsCostEgp",
+  "التخريج": "takhreegCostEgp",
+} as const;
+
+export type ComponentCostField = (typeof PAYMENT_COMPONENT_COST_FIELDS)[keyof typeof PAYMENT_COMPONENT_COST_FIELDS];
+
+export type ComponentAllowance = {
+  component: string;
+  componentCost: number;
+  alreadyPaid: number;
+  remainingAllowed: number;
+};
+
+/** EGP cost per component, valuing RMB-only entries at the shipment's purchase rate. */
+export function componentCostsEgp(shipment: Shipment): Record<ComponentCostField, number> {
+  const rate = parseAmountOrZero(shipment.purchaseRmbToEgpRate);
+  const egpOrRmb = (egp: string | null, rmb: string | null) =>
+    parseAmountOrZero(egp) || (rate > 0 ? parseAmountOrZero(rmb) * rate : 0);
+
+  return {
+    purchaseCostEgp: egpOrRmb(shipment.purchaseCostEgp, shipment.purchaseCostRmb),
+    commissionCostEgp: egpOrRmb(shipment.commissionCostEgp, shipment.commissionCostRmb),
+    shippingCostEgp: egpOrRmb(shipment.shippingCostEgp, shipment.shippingCostRmb),
+    customsCostEgp: parseAmountOrZero(shipment.customsCostEgp),
+    takhreegCostEgp: parseAmountOrZero(shipment.takhreegCostEgp),
+  };
+}
+
+/**
+ * What may still be paid against one cost component. Reversals are negative
+ * rows, so netting every payment of the component gives what is really paid.
+ * Components outside the known cost fields are not capped and return null.
+ */
+export function calculateComponentAllowance(
+  component: string,
+  costs: Record<ComponentCostField, number>,
+  payments: Array<Pick<ShipmentPayment, "costComponent" | "amountEgp">>,
+): ComponentAllowance | null {
+  const field = PAYMENT_COMPONENT_COST_FIELDS[component as keyof typeof PAYMENT_COMPONENT_COST_FIELDS];
+  if (!field) return null;
+
+  const componentCost = roundAmount(costs[field]);
+  const alreadyPaid = roundAmount(
+    payments
+      .filter((payment) => payment.costComponent === component)
+      .reduce((sum, payment) => sum + parseAmountOrZero(payment.amountEgp), 0),
+  );
+
+  return {
+    component,
+    componentCost,
+    alreadyPaid,
+    remainingAllowed: roundAmount(Math.max(0, componentCost - alreadyPaid)),
+  };
+}
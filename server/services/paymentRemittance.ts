@@ -0,0 +1,219 @@
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+
+export const REMITTANCE_ALLOCATION_METHODS = ["manual", "oldest_first", "proportional"] as const;
+
+export type RemittanceAllocationMethod = (typeof REMITTANCE_ALLOCATION_METHODS)[number];
+
+export type RemittanceInput = {
+  shipmentIds: number[];
+  paymentDate: Date;
+  paymentCurrency: "RMB" | "EGP";
+  amountOriginal: number;
+  // null for RMB means "use the rate in effect on the payment date"
+  exchangeRateToEgp: number | null;
+  allocationMethod: RemittanceAllocationMethod;
+  // Only for manual allocation, in the payment currency
+  allocations?: Array<{ shipmentId: number; amountOriginal: number }>;
+  costComponent: string;
+  paymentMethod: string;
+  // The cash box, bank account or wallet the whole transfer left from
+  paymentAccountId: number | null;
+  cashReceiverName: string | null;
+  referenceNumber: string | null;
+  note: string | null;
+};
+
+export type RemittanceCandidate = {
+  shipmentId: number;
+  purchaseDate: Date | string | null;
+  remainingAllowedEgp: number;
+};
+
+export type RemittanceShare = {
+  shipmentId: number;
+  amountOriginal: number;
+  amountEgp: number;
+};
+
+const invalid = (field: string, extra: Record<string, unknown> = {}) =>
+  new ApiError("REMITTANCE_INVALID", undefined, 400, { field, ...extra });
+
+const toPositiveNumber = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toId = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/** Validates a batch payment request body; every problem is reported as REMITTANCE_INVALID with its field. */
+export function parseRemittance(body: any): RemittanceInput {
+  const allocationMethod = body?.allocationMethod;
+  if (!REMITTANCE_ALLOCATION_METHODS.includes(allocationMethod)) {
+    throw invalid("allocationMethod");
+  }
+
+  const paymentCurrency = body?.paymentCurrency;
+  if (paymentCurrency !== "RMB" && paymentCurrency !== "EGP") {
+    throw invalid("paymentCurrency");
+  }
+
+  const amountOriginal = toPositiveNumber(body?.amountOriginal);
+  if (amountOriginal === null) throw invalid("amountOriginal");
+
+  const paymentDate = new Date(body?.paymentDate);
+  if (!body?.paymentDate || isNaN(paymentDate.getTime())) throw invalid("paymentDate");
+
+  let exchangeRateToEgp: number | null = null;
+  if (paymentCurrency === "RMB" && body?.exchangeRateToEgp !== undefined && body?.exchangeRateToEgp !== null && body?.exchangeRateToEgp !== "") {
+    exchangeRateToEgp = toPositiveNumber(body.exchangeRateToEgp);
+    if (exchangeRateToEgp === null) throw invalid("exchangeRateToEgp");
+  }
+
+  let allocations: RemittanceInput["allocations"];
+  let shipmentIds: number[];
+  if (allocationMethod === "manual") {
+    if (!Array.isArray(body?.allocations) || body.allocations.length === 0) throw invalid("allocations");
+    allocations = body.allocations.map((allocation: any, index: number) => {
+      const shipmentId = toId(allocation?.shipmentId);
+      const amount = toPositiveNumber(allocation?.amountOriginal);
+      if (shipmentId === null || amount === null) throw invalid("allocations", { index });
+      return { shipmentId, amountOriginal: amount };
+    });
+    shipmentIds = allocations!.map((allocation) => allocation.shipmentId);
+  } else {
+    if (!Array.isArray(body?.shipmentIds) || body.shipmentIds.length === 0) throw invalid("shipmentIds");
+    shipmentIds = body.shipmentIds.map((value: unknown, index: number) => {
+      const shipmentId = toId(value);
+      if (shipmentId === null) throw invalid("shipmentIds", { index });
+      return shipmentId;
+    });
+  }
+  if (new Set(shipmentIds).size !== shipmentIds.length) throw invalid("shipmentIds", { reason: "duplicate" });
+
+  const costComponent = optionalText(body?.costComponent);
+  if (!costComponent) throw invalid("costComponent");
+  const paymentMethod = optionalText(body?.paymentMethod);
+  if (!paymentMethod) throw invalid("paymentMethod");
+
+  let paymentAccountId: number | null = null;
+  if (body?.paymentAccountId !== undefined && body?.paymentAccountId !== null && body?.paymentAccountId !== "") {
+    paymentAccountId = toId(body.paymentAccountId);
+    if (paymentAccountId === null) throw invalid("paymentAccountId");
+  }
+
+  return {
+    shipmentIds,
+    paymentDate,
+    paymentCurrency,
+    amountOriginal: roundAmount(amountOriginal),
+    exchangeRateToEgp,
+    allocationMethod,
+    allocations,
+    costComponent,
+    paymentMethod,
+    paymentAccountId,
+    cashReceiverName: optionalText(body?.cashReceiverName),
+    referenceNumber: optionalText(body?.referenceNumber),
+    note: optionalText(body?.note),
+  };
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// The most that can be sent to a shipment in the payment currency without its EGP value passing the allowance
+const capCents = (remainingAllowedEgp: number, rate: number) =>
+  Math.max(0, Math.floor((remainingAllowedEgp * 100) / rate + 1e-6));
+
+const purchaseTime = (candidate: RemittanceCandidate) => {
+  const time = candidate.purchaseDate ? new Date(candidate.purchaseDate).getTime() : NaN;
+  return Number.isNaN(time) ? Number.MAX_SAFE_INTEGER : time;
+};
+
+/**
+ * Splits a remittance across shipments in the payment currency, working in whole
+ * cents so the shares always add back to the total. No shipment receives more
+ * than its remaining allowance; shipments that receive nothing are left out.
+ */
+export function allocateRemittance(input: {
+  amountOriginal: number;
+  exchangeRateToEgp: number;
+  allocationMethod: RemittanceAllocationMethod;
+  candidates: RemittanceCandidate[];
+  allocations?: Array<{ shipmentId: number; amountOriginal: number }>;
+}): RemittanceShare[] {
+  const rate = input.exchangeRateToEgp;
+  const totalCents = toCents(input.amountOriginal);
+  const caps = new Map(input.candidates.map((candidate) => [candidate.shipmentId, capCents(candidate.remainingAllowedEgp, rate)]));
+  const availableCents = Array.from(caps.values()).reduce((sum, cap) => sum + cap, 0);
+  const sharesInCents = new Map<number, number>();
+
+  if (input.allocationMethod === "manual") {
+    const allocations = input.allocations ?? [];
+    const allocatedCents = allocations.reduce((sum, allocation) => sum + toCents(allocation.amountOriginal), 0);
+    if (allocatedCents !== totalCents) {
+      throw invalid("allocations", { reason: "sum", allocated: allocatedCents / 100, total: totalCents / 100 });
+    }
+    for (const allocation of allocations) {
+      const cents = toCents(allocation.amountOriginal);
+      const cap = caps.get(allocation.shipmentId) ?? 0;
+      if (cents > cap) {
+        throw new ApiError("REMITTANCE_EXCEEDS_ALLOWANCE", undefined, 409, {
+          shipmentId: allocation.shipmentId,
+          attempted: cents / 100,
+          available: cap / 100,
+        });
+      }
+      sharesInCents.set(allocation.shipmentId, cents);
+    }
+  } else {
+    if (totalCents > availableCents) {
+      throw new ApiError("REMITTANCE_EXCEEDS_ALLOWANCE", undefined, 409, {
+        attempted: totalCents / 100,
+        available: availableCents / 100,
+      });
+    }
+
+    if (input.allocationMethod === "oldest_first") {
+      const ordered = [...input.candidates].sort(
+        (a, b) => purchaseTime(a) - purchaseTime(b) || a.shipmentId - b.shipmentId,
+      );
+      let left = totalCents;
+      for (const candidate of ordered) {
+        if (left === 0) break;
+        const cents = Math.min(left, caps.get(candidate.shipmentId) ?? 0);
+        sharesInCents.set(candidate.shipmentId, cents);
+        left -= cents;
+      }
+    } else {
+      // Proportional to each remaining allowance; leftover cents go to the largest fractions
+      const exact = input.candidates.map((candidate) => {
+        const share = availableCents > 0 ? (totalCents * (caps.get(candidate.shipmentId) ?? 0)) / availableCents : 0;
+        return { shipmentId: candidate.shipmentId, cents: Math.floor(share), fraction: share - Math.floor(share) };
+      });
+      let left = totalCents - exact.reduce((sum, share) => sum + share.cents, 0);
+      const byFraction = [...exact].sort((a, b) => b.fraction - a.fraction || a.shipmentId - b.shipmentId);
+      for (const share of byFraction) {
+        if (left === 0) break;
+        if (share.cents < (caps.get(share.shipmentId) ?? 0)) {
+          share.cents += 1;
+          left -= 1;
+        }
+      }
+      exact.forEach((share) => sharesInCents.set(share.shipmentId, share.cents));
+    }
+  }
+
+  return input.candidates
+    .filter((candidate) => (sharesInCents.get(candidate.shipmentId) ?? 0) > 0)
+    .map((candidate) => {
+      const amountOriginal = sharesInCents.get(candidate.shipmentId)! / 100;
+      return { shipmentId: candidate.shipmentId, amountOriginal, amountEgp: roundAmount(amountOriginal * rate) };
+    });
+}
@@ -0,0 +1,117 @@
+import path from "path";
+import type PDFKit from "pdfkit";
+
+export const PDF_FONTS = {
+  regular: path.resolve(process.cwd(), "server/assets/fonts/Cairo-Regular.ttf"),
+  bold: path.resolve(process.cwd(), "server/assets/fonts/Cairo-Bold.ttf"),
+};
+
+export type TextRun = { text: string; rtl: boolean };
+
+type CharClass = "R" | "L" | "N";
+
+const ARABIC_LETTER = /[\u0600-\u065F\u066E-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
+// Latin letters and both digit sets read left-to-right inside Arabic text
+const LTR_CHAR = /[A-Za-z0-9\u0660-\u0669\u00C0-\u024F]/;
+const DIGIT = /[0-9\u0660-\u0669]/;
+const MIRRORED: Record<string, string> = { "(": ")", ")": "(", "[": "]", "]": "[", "{": "}", "}": "{", "<": ">", ">": "<" };
+
+const mirror = (text: string) => Array.from(text).map((char) => MIRRORED[char] ?? char).join("");
+
+function classify(chars: string[]): { classes: CharClass[]; base: "R" | "L" } {
+  const classes = chars.map<CharClass>((char) =>
+    ARABIC_LETTER.test(char) ? "R" : LTR_CHAR.test(char) ? "L" : "N",
+  );
+
+  // A sign directly in front of a number belongs to it ("-150.00")
+  chars.forEach((char, idx) => {
+    if ((char === "-" || char === "+") && DIGIT.test(chars[idx + 1] ?? "")) classes[idx] = "L";
+  });
+
+  // The first strong character decides the line direction; Arabic when there is none
+  const base = classes.find((c) => c !== "N") === "L" ? "L" : "R";
+  const other = base === "L" ? "R" : "L";
+
+  // Neutrals switch to the other direction only when surrounded by it on both sides
+  const resolved = classes.map((cls, idx) => {
+    if (cls !== "N") return cls;
+    const before = classes.slice(0, idx).reverse().find((c) => c !== "N") ?? base;
+    const after = classes.slice(idx + 1).find((c) => c !== "N") ?? base;
+    return before === other && after === other ? other : base;
+  });
+
+  return { classes: resolved, base };
+}
+
+/**
+ * Splits a line of mixed Arabic/Latin text into directional runs in visual
+ * (left-to-right) order. Arabic runs stay in logical order because the font
+ * layout engine shapes and reverses them, but it does not mirror brackets, so
+ * that is done here; runs made only of punctuation are reversed here too.
+ */
+export function toVisualRuns(text: string): TextRun[] {
+  const chars = Array.from(text);
+  const { classes, base } = classify(chars);
+  const runs: TextRun[] = [];
+
+  chars.forEach((char, idx) => {
+    const rtl = classes[idx] === "R";
+    const last = runs[runs.length - 1];
+    if (last && last.rtl === rtl) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, rtl });
+    }
+  });
+
+  const visual = base === "R" ? runs.reverse() : runs;
+  return visual.map((run) => {
+    if (!run.rtl) return run;
+    const mirrored = mirror(run.text);
+    return {
+      text: ARABIC_LETTER.test(run.text) ? mirrored : Array.from(mirrored).reverse().join(""),
+      rtl: true,
+    };
+  });
+}
+
+export type DrawTextOptions = {
+  width: number;
+  align?: "right" | "left" | "center";
+  bold?: boolean;
+  size?: number;
+  color?: string;
+};
+
+function runsWidth(doc: PDFKit.PDFDocument, runs: TextRun[]): number {
+  return runs.reduce((sum, run) => sum + doc.widthOfString(run.text), 0);
+}
+
+/**
+ * Draws a single line of mixed Arabic/Latin text inside a box. Text that does
+ * not fit is cut and marked with an ellipsis instead of wrapping.
+ */
+export function drawText(
+  doc: PDFKit.PDFDocument,
+  value: string | number | null | undefined,
+  x: number,
+  y: number,
+  { width, align = "right", bold = false, size = 9, color = "#111827" }: DrawTextOptions,
+): void {
+  doc.font(bold ? PDF_FONTS.bold : PDF_FONTS.regular).fontSize(size).fillColor(color);
+
+  let text = String(value ?? "").replace(/\s+/g, " ").trim();
+  let runs = toVisualRuns(text);
+  while (text.length > 1 && runsWidth(doc, runs) > width) {
+    text = text.slice(0, -2).trimEnd() + "…";
+    runs = toVisualRuns(text);
+  }
+
+  const total = runsWidth(doc, runs);
+  let cursor = align === "left" ? x : align === "center" ? x + (width - total) / 2 : x + width - total;
+
+  for (const run of runs) {
+    doc.text(run.text, cursor, y, { lineBreak: false });
+    cursor += doc.widthOfString(run.text);
+  }
+}
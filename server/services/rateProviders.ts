@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+
+/** A single rate as reported by a provider, before it is validated and stored. */
+export type FetchedRate = {
+  rateDate: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rateValue: number;
+};
+
+export interface ExchangeRateProvider {
+  // Stored as the `source` of every rate the provider supplies
+  name: string;
+  fetchRates(): Promise<FetchedRate[]>;
+  // Called once the fetched rates are stored, e.g. to archive consumed files
+  commit?(): Promise<void>;
+}
+
+// Currency pairs the system values shipments and payments in
+export const TRACKED_RATE_PAIRS: ReadonlyArray<readonly [string, string]> = [
+  ["RMB", "EGP"],
+  ["USD", "RMB"],
+];
+
+// Feeds use ISO codes; the rest of the system calls the yuan RMB
+const CURRENCY_ALIASES: Record<string, string> = { CNY: "RMB" };
+
+const normalizeCurrency = (code: string) => {
+  const upper = code.trim().toUpperCase();
+  return CURRENCY_ALIASES[upper] ?? upper;
+};
+
+/** Rates published against one base currency: 1 base = quotes[currency]. */
+export type RateFeedSnapshot = {
+  rateDate: string;
+  base: string;
+  quotes: Record<string, number>;
+};
+
+function parseXmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([\w:-]+)\s*=\s*["']([^"']*)["']/g))) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+  return attributes;
+}
+
+/**
+ * Parses a central-bank style feed. Accepts JSON shaped like
+ * `{ "date": "2024-03-01", "base": "EUR", "rates": { "USD": 1.08 } }` and
+ * ECB-style XML (`<Cube time="…"><Cube currency="USD" rate="1.08"/></Cube>`).
+ */
+export function parseRateFeed(body: string, defaultBase = "EUR"): RateFeedSnapshot {
+  const text = body.trim();
+
+  if (text.startsWith("{")) {
+    const json = JSON.parse(text);
+    const quotes: Record<string, number> = {};
+    for (const [currency, value] of Object.entries(json.rates ?? {})) {
+      quotes[normalizeCurrency(currency)] = Number(value);
+    }
+    return {
+      rateDate: String(json.date ?? ""),
+      base: normalizeCurrency(String(json.base ?? defaultBase)),
+      quotes,
+    };
+  }
+
+  let rateDate = "";
+  const quotes: Record<string, number> = {};
+  for (const tag of text.match(/<[^!?/][^>]*>/g) ?? []) {
+    const attributes = parseXmlAttributes(tag);
+    if (attributes.time) rateDate = attributes.time;
+    if (attributes.currency && attributes.rate !== undefined) {
+      quotes[normalizeCurrency(attributes.currency)] = Number(attributes.rate);
+    }
+  }
+  return { rateDate, base: normalizeCurrency(defaultBase), quotes };
+}
+
+/**
+ * Derives the tracked pairs from a snapshot through the base currency, e.g.
+ * RMB→EGP = (EGP per base) / (RMB per base). Pairs the feed cannot price are
+ * left out.
+ */
+export function crossRates(
+  snapshot: RateFeedSnapshot,
+  pairs: ReadonlyArray<readonly [string, string]> = TRACKED_RATE_PAIRS,
+): FetchedRate[] {
+  const perBase = (currency: string) => (currency === snapshot.base ? 1 : snapshot.quotes[currency]);
+
+  return pairs.flatMap(([fromCurrency, toCurrency]) => {
+    const from = perBase(fromCurrency);
+    const to = perBase(toCurrency);
+    if (from === undefined || to === undefined) return [];
+    return [{ rateDate: snapshot.rateDate, fromCurrency, toCurrency, rateValue: to / from }];
+  });
+}
+
+/** Parses a dropped CSV with the columns `rate_date,from_currency,to_currency,rate_value`. */
+export function parseRateCsv(text: string): FetchedRate[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim() !== "");
+  const [header, ...rows] = lines.map((line) => line.split(/[,;]/).map((cell) => cell.trim()));
+  if (!header) return [];
+
+  const column = (name: string) => header.findIndex((cell) => cell.toLowerCase() === name);
+  const columns = {
+    rateDate: column("rate_date"),
+    fromCurrency: column("from_currency"),
+    toCurrency: column("to_currency"),
+    rateValue: column("rate_value"),
+  };
+  if (Object.values(columns).some((idx) => idx === -1)) {
+    throw new Error("ملف أسعار الصرف يجب أن يحتوي على الأعمدة rate_date,from_currency,to_currency,rate_value");
+  }
+
+  return rows.map((cells) => ({
+    rateDate: cells[columns.rateDate] ?? "",
+    fromCurrency: normalizeCurrency(cells[columns.fromCurrency] ?? ""),
+    toCurrency: normalizeCurrency(cells[columns.toCurrency] ?? ""),
+    // Invalid numbers are kept as NaN so the sync reports the row instead of dropping it
+    rateValue: Number(cells[columns.rateValue]),
+  }));
+}
+
+export function createFeedRateProvider(options: {
+  url: string;
+  base?: string;
+  fetchImpl?: typeof fetch;
+}): ExchangeRateProvider {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    name: "نشرة أسعار البنك",
+    async fetchRates() {
+      const res = await fetchImpl(options.url);
+      if (!res.ok) {
+        throw new Error(`تعذر قراءة نشرة الأسعار (${res.status})`);
+      }
+      return crossRates(parseRateFeed(await res.text(), options.base));
+    },
+  };
+}
+
+/**
+ * Reads every CSV dropped into `directory`. Files are moved to `processed/`
+ * only after their rates are stored, so a failed sync picks them up again.
+ */
+export function createCsvRateProvider(options: { directory: string }): ExchangeRateProvider {
+  let pendingFiles: string[] = [];
+
+  return {
+    name: "ملف أسعار الصرف",
+    async fetchRates() {
+      if (!fs.existsSync(options.directory)) return [];
+
+      pendingFiles = fs
+        .readdirSync(options.directory)
+        .filter((file) => file.toLowerCase().endsWith(".csv"))
+        .sort();
+
+      return pendingFiles.flatMap((file) =>
+        parseRateCsv(fs.readFileSync(path.join(options.directory, file), "utf8")),
+      );
+    },
+    async commit() {
+      const processedDir = path.join(options.directory, "processed");
+      fs.mkdirSync(processedDir, { recursive: true });
+      for (const file of pendingFiles) {
+        fs.renameSync(path.join(options.directory, file), path.join(processedDir, file));
+      }
+      pendingFiles = [];
+    },
+  };
+}
+
+/** Returns the same rates on every call; used in tests and local development. */
+export function createMockRateProvider(rates: FetchedRate[]): ExchangeRateProvider {
+  return {
+    name: "مزود تجريبي",
+    async fetchRates() {
+      return rates.map((rate) => ({ ...rate }));
+    },
+  };
+}
+
+/**
+ * Builds the provider selected by EXCHANGE_RATE_PROVIDER ("feed", "csv" or
+ * "mock"). The CSV drop folder is the default because it needs no network.
+ */
+export function configuredRateProvider(env: NodeJS.ProcessEnv = process.env): ExchangeRateProvider {
+  const kind = env.EXCHANGE_RATE_PROVIDER ?? "csv";
+
+  if (kind === "feed") {
+    if (!env.EXCHANGE_RATE_FEED_URL) {
+      throw new Error("EXCHANGE_RATE_FEED_URL is required for the feed exchange-rate provider");
+    }
+    return createFeedRateProvider({ url: env.EXCHANGE_RATE_FEED_URL, base: env.EXCHANGE_RATE_FEED_BASE });
+  }
+
+  if (kind === "mock") {
+    const today = new Date().toISOString().slice(0, 10);
+    return createMockRateProvider([
+      { rateDate: today, fromCurrency: "RMB", toCurrency: "EGP", rateValue: 7 },
+      { rateDate: today, fromCurrency: "USD", toCurrency: "RMB", rateValue: 7.2 },
+    ]);
+  }
+
+  if (kind === "csv") {
+    return createCsvRateProvider({
+      directory: path.resolve(process.cwd(), env.EXCHANGE_RATE_CSV_DIR ?? "uploads/exchange-rates"),
+    });
+  }
+
+  throw new Error(`Unknown EXCHANGE_RATE_PROVIDER "${kind}"`);
+}
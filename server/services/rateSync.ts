@@ -0,0 +1,160 @@
+import type { ExchangeRate } from "@shared/schema";
+import { ApiError } from "../errors";
+import type { IStorage } from "../storage";
+import { toRateDate } from "./exchangeRates";
+import { parseAmountOrZero } from "./paymentCalculations";
+import { configuredRateProvider, type ExchangeRateProvider, type FetchedRate } from "./rateProviders";
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const configured = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+};
+
+// A fetched rate that moved more than this from the previous one is held back for review
+export const EXCHANGE_RATE_MAX_CHANGE_PERCENT = numberFromEnv("EXCHANGE_RATE_MAX_CHANGE_PERCENT", 10);
+
+// 0 turns the background job off
+export const EXCHANGE_RATE_SYNC_INTERVAL_MINUTES = numberFromEnv("EXCHANGE_RATE_SYNC_INTERVAL_MINUTES", 360);
+
+export type RateSyncStorage = Pick<IStorage, "getRateForDate" | "createExchangeRate">;
+
+export type RejectedRate = {
+  rate: FetchedRate;
+  reason: string;
+  previousRate?: number;
+};
+
+export type RateSyncResult = {
+  provider: string;
+  inserted: ExchangeRate[];
+  duplicates: FetchedRate[];
+  rejected: RejectedRate[];
+};
+
+const pairKey = (rate: Pick<FetchedRate, "fromCurrency" | "toCurrency">) =>
+  `${rate.fromCurrency}/${rate.toCurrency}`;
+
+/**
+ * Pulls rates from a provider and stores the new ones. A rate is skipped when
+ * one already exists for its date and currency pair, and rejected when its
+ * value is invalid, jumps more than `maxChangePercent` from the day before, or
+ * storage refuses it.
+ */
+export async function syncExchangeRates(deps: {
+  provider: ExchangeRateProvider;
+  storage: RateSyncStorage;
+  maxChangePercent?: number;
+}): Promise<RateSyncResult> {
+  const { provider, storage, maxChangePercent = EXCHANGE_RATE_MAX_CHANGE_PERCENT } = deps;
+  const result: RateSyncResult = { provider: provider.name, inserted: [], duplicates: [], rejected: [] };
+
+  const fetched = await provider.fetchRates();
+  // Oldest first, so each day is checked against the day stored before it
+  const ordered = [...fetched].sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+  const lastAccepted = new Map<string, number>();
+  const seen = new Set<string>();
+
+  for (const rate of ordered) {
+    let rateDate: string;
+    try {
+      rateDate = toRateDate(rate.rateDate);
+    } catch {
+      result.rejected.push({ rate, reason: "تاريخ السعر غير صالح" });
+      continue;
+    }
+
+    if (!rate.fromCurrency || !rate.toCurrency || !Number.isFinite(rate.rateValue) || rate.rateValue <= 0) {
+      result.rejected.push({ rate, reason: "قيمة السعر أو العملة غير صالحة" });
+      continue;
+    }
+
+    const key = `${pairKey(rate)}@${rateDate}`;
+    const existing = await storage.getRateForDate(rate.fromCurrency, rate.toCurrency, rateDate, {
+      toleranceDays: 0,
+    });
+    if (seen.has(key) || existing) {
+      result.duplicates.push(rate);
+      continue;
+    }
+    seen.add(key);
+
+    // Measured against the rate in effect the day before, never a newer one stored for a later day
+    const previousDay = new Date(new Date(rateDate).getTime() - 24 * 60 * 60 * 1000);
+    const previousRate =
+      lastAccepted.get(pairKey(rate)) ??
+      parseAmountOrZero((await storage.getRateForDate(rate.fromCurrency, rate.toCurrency, previousDay))?.rateValue);
+    if (previousRate > 0) {
+      const changePercent = (Math.abs(rate.rateValue - previousRate) / previousRate) * 100;
+      if (changePercent > maxChangePercent) {
+        result.rejected.push({
+          rate,
+          previousRate,
+          reason: `تغير السعر بنسبة ${changePercent.toFixed(1)}% وهو أكبر من الحد المسموح ${maxChangePercent}%`,
+        });
+        continue;
+      }
+    }
+
+    let stored: ExchangeRate;
+    try {
+      stored = await storage.createExchangeRate({
+        rateDate,
+        fromCurrency: rate.fromCurrency,
+        toCurrency: rate.toCurrency,
+        rateValue: rate.rateValue.toFixed(6),
+        source: provider.name,
+      });
+    } catch (error) {
+      // A refused rate (e.g. one dated in a closed month) must not stop the rest of the run
+      if (!(error instanceof ApiError)) throw error;
+      result.rejected.push({ rate, reason: error.message });
+      continue;
+    }
+    result.inserted.push(stored);
+    lastAccepted.set(pairKey(rate), rate.rateValue);
+  }
+
+  await provider.commit?.();
+  return result;
+}
+
+/**
+ * Runs the sync on a timer. Runs never overlap, and the timer does not keep
+ * the process alive on its own. Returns a function that stops the job.
+ */
+export function startExchangeRateSync(
+  storage: RateSyncStorage,
+  options: {
+    intervalMinutes?: number;
+    provider?: ExchangeRateProvider;
+    onResult?: (result: RateSyncResult) => void;
+  } = {},
+): () => void {
+  const intervalMinutes = options.intervalMinutes ?? EXCHANGE_RATE_SYNC_INTERVAL_MINUTES;
+  if (intervalMinutes <= 0) return () => {};
+
+  const provider = options.provider ?? configuredRateProvider();
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await syncExchangeRates({ provider, storage });
+      if (result.rejected.length > 0) {
+        console.warn(`[EXCHANGE RATES] ${result.rejected.length} rate(s) rejected from ${provider.name}`, result.rejected);
+      }
+      options.onResult?.(result);
+    } catch (error) {
+      console.error("[EXCHANGE RATES] Scheduled sync failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import type {
+  Shipment,
+  ShipmentItem,
+  ShipmentItemLandedCost,
+  ShipmentPayment,
+  ShipmentShippingDetails,
+} from "@shared/schema";
+import { parseAmountOrZero } from "./paymentCalculations";
+import { drawText } from "./pdfText";
+
+export type CostSheetItem = ShipmentItem & {
+  supplierName: string | null;
+  landedCost: ShipmentItemLandedCost | null;
+};
+
+export type CostSheetData = {
+  shipment: Shipment;
+  items: CostSheetItem[];
+  shippingDetails: ShipmentShippingDetails | null;
+  payments: ShipmentPayment[];
+  supplierNames: Map<number, string>;
+  generatedAt: Date;
+};
+
+export type PaymentReceiptData = {
+  payment: ShipmentPayment;
+  shipment: Shipment;
+  supplierName: string | null;
+  generatedAt: Date;
+};
+
+type Doc = PDFKit.PDFDocument;
+
+type Column<T> = {
+  header: string;
+  width: number;
+  value?: (row: T) => string | number | null | undefined;
+  image?: (row: T) => string | null;
+  align?: "right" | "left" | "center";
+};
+
+const PAGE_MARGIN = 36;
+const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2;
+const RIGHT_EDGE = PAGE_MARGIN + CONTENT_WIDTH;
+const PAGE_BOTTOM = 841.89 - PAGE_MARGIN - 20;
+const BORDER_COLOR = "#d1d5db";
+const HEADER_FILL = "#f3f4f6";
+const MUTED_COLOR = "#6b7280";
+
+const allocationBasisLabels: Record<string, string> = {
+  purchase_value: "حسب قيمة البضاعة",
+  pieces: "حسب عدد القطع",
+  cartons: "حسب عدد الكراتين",
+  cbm: "حسب الحجم المصرح (CBM)",
+};
+
+const ITEM_IMAGE_DIR = path.resolve(process.cwd(), "uploads/items");
+const PDF_IMAGE_TYPES = [".jpg", ".jpeg", ".png"];
+
+export function formatAmount(value: unknown, digits = 2): string {
+  return parseAmountOrZero(value).toLocaleString("en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+}
+
+function formatDate(value: Date | string | null | undefined): string {
+  if (!value) return "-";
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().split("T")[0];
+}
+
+/**
+ * Maps an item's image URL to a file in uploads/items. Only JPEG/PNG files
+ * that exist are returned; anything else (other formats, paths outside the
+ * upload folder) is skipped so a bad image never breaks the document.
+ */
+export function resolveItemImagePath(imageUrl: string | null | undefined): string | null {
+  if (!imageUrl || !imageUrl.startsWith("/uploads/items/")) return null;
+
+  const filePath = path.join(ITEM_IMAGE_DIR, path.basename(imageUrl));
+  if (!PDF_IMAGE_TYPES.includes(path.extname(filePath).toLowerCase())) return null;
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+function paymentStatusLabel(payment: ShipmentPayment): string {
+  if (payment.reversalOfPaymentId) return `قيد عكسي للدفعة ${payment.reversalOfPaymentId}`;
+  if (payment.voidedAt) return "ملغاة";
+  return "سارية";
+}
+
+function createDocument(title: string): Doc {
+  return new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: title, Producer: "Shipment Management" },
+  });
+}
+
+function toBuffer(doc: Doc): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+}
+
+function drawPageNumbers(doc: Doc, generatedAt: Date) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // The footer sits inside the bottom margin; without this pdfkit would start a new page
+    doc.page.margins.bottom = 0;
+    const y = 841.89 - PAGE_MARGIN - 10;
+    drawText(doc, `صفحة ${i + 1} من ${range.count}`, PAGE_MARGIN, y, {
+      width: CONTENT_WIDTH,
+      size: 8,
+      color: MUTED_COLOR,
+    });
+    drawText(doc, `تاريخ الإصدار ${formatDate(generatedAt)}`, PAGE_MARGIN, y, {
+      width: CONTENT_WIDTH,
+      align: "left",
+      size: 8,
+      color: MUTED_COLOR,
+    });
+  }
+}
+
+function drawTitle(doc: Doc, title: string, subtitle: string): number {
+  drawText(doc, title, PAGE_MARGIN, PAGE_MARGIN, { width: CONTENT_WIDTH, bold: true, size: 18 });
+  drawText(doc, subtitle, PAGE_MARGIN, PAGE_MARGIN + 28, {
+    width: CONTENT_WIDTH,
+    size: 10,
+    color: MUTED_COLOR,
+  });
+  const y = PAGE_MARGIN + 50;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(RIGHT_EDGE, y).lineWidth(1).strokeColor("#111827").stroke();
+  return y + 12;
+}
+
+function drawSectionTitle(doc: Doc, title: string, y: number): number {
+  if (y + 40 > PAGE_BOTTOM) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  drawText(doc, title, PAGE_MARGIN, y, { width: CONTENT_WIDTH, bold: true, size: 12 });
+  return y + 22;
+}
+
+// Label/value pairs in two columns, read right to left
+function drawFields(doc: Doc, fields: Array<[string, string]>, y: number): number {
+  const columnWidth = CONTENT_WIDTH / 2;
+  const rowHeight = 18;
+
+  fields.forEach(([label, value], idx) => {
+    const column = idx % 2;
+    const rowY = y + Math.floor(idx / 2) * rowHeight;
+    const x = RIGHT_EDGE - (column + 1) * columnWidth;
+    drawText(doc, label, x + columnWidth - 110, rowY, { width: 110, color: MUTED_COLOR });
+    drawText(doc, value, x, rowY, { width: columnWidth - 120, bold: true });
+  });
+
+  return y + Math.ceil(fields.length / 2) * rowHeight + 8;
+}
+
+function drawTable<T>(
+  doc: Doc,
+  columns: Column<T>[],
+  rows: T[],
+  y: number,
+  options: { rowHeight?: number; emptyText?: string; rowFill?: (row: T) => string | null } = {},
+): number {
+  const rowHeight = options.rowHeight ?? 20;
+  // Headers may hold a second line (e.g. the currency) separated by "\n"
+  const headerLines = Math.max(...columns.map((col) => col.header.split("\n").length));
+  const headerHeight = 10 + headerLines * 11;
+  const scale = CONTENT_WIDTH / columns.reduce((sum, col) => sum + col.width, 0);
+  const widths = columns.map((col) => col.width * scale);
+
+  const drawRowFrame = (rowY: number, height: number, fill: string | null) => {
+    if (fill) doc.rect(PAGE_MARGIN, rowY, CONTENT_WIDTH, height).fill(fill);
+    doc.rect(PAGE_MARGIN, rowY, CONTENT_WIDTH, height).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+  };
+
+  const drawHeader = (rowY: number) => {
+    drawRowFrame(rowY, headerHeight, HEADER_FILL);
+    let x = RIGHT_EDGE;
+    columns.forEach((col, idx) => {
+      x -= widths[idx];
+      col.header.split("\n").forEach((line, lineIdx) => {
+        drawText(doc, line, x + 3, rowY + 3 + lineIdx * 11, { width: widths[idx] - 6, bold: true, size: 8, align: "center" });
+      });
+    });
+    return rowY + headerHeight;
+  };
+
+  y = drawHeader(y);
+
+  if (rows.length === 0) {
+    drawRowFrame(y, rowHeight, null);
+    drawText(doc, options.emptyText ?? "لا توجد بيانات", PAGE_MARGIN, y + 4, {
+      width: CONTENT_WIDTH,
+      align: "center",
+      color: MUTED_COLOR,
+    });
+    return y + rowHeight + 12;
+  }
+
+  for (const row of rows) {
+    if (y + rowHeight > PAGE_BOTTOM) {
+      doc.addPage();
+      y = drawHeader(PAGE_MARGIN);
+    }
+
+    drawRowFrame(y, rowHeight, options.rowFill?.(row) ?? null);
+    let x = RIGHT_EDGE;
+    columns.forEach((col, idx) => {
+      x -= widths[idx];
+      const imagePath = col.image?.(row);
+      if (imagePath) {
+        try {
+          doc.image(imagePath, x + 2, y + 2, { fit: [widths[idx] - 4, rowHeight - 4], align: "center", valign: "center" });
+        } catch {
+          console.warn("Skipping unreadable item image:", imagePath);
+        }
+      } else if (col.value) {
+        drawText(doc, col.value(row), x + 3, y + (rowHeight - 12) / 2, {
+          width: widths[idx] - 6,
+          size: 8,
+          align: col.align ?? "right",
+        });
+      }
+    });
+    y += rowHeight;
+  }
+
+  return y + 12;
+}
+
+function drawTotalsBox(doc: Doc, lines: Array<[string, string]>, y: number): number {
+  const width = CONTENT_WIDTH / 2;
+  const x = PAGE_MARGIN;
+  const height = lines.length * 18 + 8;
+
+  if (y + height > PAGE_BOTTOM) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+
+  doc.rect(x, y, width, height).lineWidth(0.5).fillAndStroke(HEADER_FILL, BORDER_COLOR);
+  lines.forEach(([label, value], idx) => {
+    const rowY = y + 6 + idx * 18;
+    drawText(doc, label, x + width / 2, rowY, { width: width / 2 - 8, bold: true });
+    drawText(doc, value, x + 8, rowY, { width: width / 2 - 8, align: "left", bold: true });
+  });
+
+  return y + height + 12;
+}
+
+/**
+ * Full cost sheet for a shipment: header data, the exchange rates the costs
+ * were converted with, cost components, items with their landed cost and
+ * images, and every payment with the resulting balance.
+ */
+export function renderShipmentCostSheet(data: CostSheetData): Promise<Buffer> {
+  const { shipment, items, shippingDetails, payments, supplierNames, generatedAt } = data;
+  const doc = createDocument(`كشف تكلفة الشحنة ${shipment.shipmentCode}`);
+  const output = toBuffer(doc);
+
+  let y = drawTitle(doc, "كشف تكلفة الشحنة", `${shipment.shipmentCode} - ${shipment.shipmentName}`);
+
+  y = drawFields(
+    doc,
+    [
+      ["رقم الشحنة", shipment.shipmentCode],
+      ["اسم الشحنة", shipment.shipmentName],
+      ["تاريخ الشراء", formatDate(shipment.purchaseDate)],
+      ["الحالة", shipment.status],
+      ["أساس توزيع التكاليف", allocationBasisLabels[shipment.costAllocationBasis] ?? shipment.costAllocationBasis],
+      ["تاريخ آخر دفعة", formatDate(shipment.lastPaymentDate)],
+    ],
+    y,
+  );
+
+  y = drawSectionTitle(doc, "أسعار الصرف المستخدمة", y);
+  y = drawFields(
+    doc,
+    [
+      ["سعر صرف الشراء (RMB/EGP)", formatAmount(shipment.purchaseRmbToEgpRate, 4)],
+      ["سعر صرف الشحن (RMB/EGP)", shippingDetails?.rmbToEgpRateAtShipping ? formatAmount(shippingDetails.rmbToEgpRateAtShipping, 4) : "-"],
+      ["سعر صرف الشحن (USD/RMB)", shippingDetails?.usdToRmbRateAtShipping ? formatAmount(shippingDetails.usdToRmbRateAtShipping, 4) : "-"],
+      ["مصدر الأسعار", shippingDetails?.sourceOfRates || "-"],
+    ],
+    y,
+  );
+
+  y = drawSectionTitle(doc, "ملخص التكاليف", y);
+  const costRows: Array<[string, unknown, unknown]> = [
+    ["تكلفة البضاعة", shipment.purchaseCostRmb, shipment.purchaseCostEgp],
+    ["العمولة", shipment.commissionCostRmb, shipment.commissionCostEgp],
+    ["الشحن", shipment.shippingCostRmb, shipment.shippingCostEgp],
+    ["الجمرك", null, shipment.customsCostEgp],
+    ["التخريج", null, shipment.takhreegCostEgp],
+  ];
+  if (parseAmountOrZero(shipment.partialDiscountRmb) > 0) {
+    costRows.push(["الخصم الجزئي", `-${shipment.partialDiscountRmb}`, null]);
+  }
+  y = drawTable<[string, unknown, unknown]>(
+    doc,
+    [
+      { header: "البند", width: 3, value: (row) => row[0] },
+      { header: "المبلغ (RMB)", width: 2, value: (row) => (row[1] === null ? "-" : formatAmount(row[1])), align: "left" },
+      { header: "المبلغ (ج.م)", width: 2, value: (row) => (row[2] === null ? "-" : formatAmount(row[2])), align: "left" },
+    ],
+    costRows,
+    y,
+  );
+  y = drawTotalsBox(
+    doc,
+    [
+      ["إجمالي التكلفة (ج.م)", formatAmount(shipment.finalTotalCostEgp)],
+      ["إجمالي المدفوع (ج.م)", formatAmount(shipment.totalPaidEgp)],
+      ["الرصيد المتبقي (ج.م)", formatAmount(shipment.balanceEgp)],
+    ],
+    y,
+  );
+
+  y = drawSectionTitle(doc, `الأصناف (${items.length})`, y);
+  y = drawTable<CostSheetItem>(
+    doc,
+    [
+      { header: "صورة", width: 1.3, image: (item) => resolveItemImagePath(item.imageUrl) },
+      { header: "الصنف", width: 3, value: (item) => item.productName },
+      { header: "المورد", width: 2.2, value: (item) => item.supplierName ?? "-" },
+      { header: "كراتين", width: 1, value: (item) => item.cartonsCtn, align: "center" },
+      { header: "قطع", width: 1.2, value: (item) => item.totalPiecesCou, align: "center" },
+      { header: "سعر القطعة\nRMB", width: 1.6, value: (item) => formatAmount(item.purchasePricePerPiecePriRmb, 4), align: "left" },
+      { header: "الإجمالي\nRMB", width: 1.8, value: (item) => formatAmount(item.totalPurchaseCostRmb), align: "left" },
+      { header: "تكلفة القطعة\nج.م", width: 1.8, value: (item) => (item.landedCost ? formatAmount(item.landedCost.unitLandedCostEgp, 4) : "-"), align: "left" },
+      { header: "التكلفة الكلية\nج.م", width: 2, value: (item) => (item.landedCost ? formatAmount(item.landedCost.totalLandedCostEgp) : "-"), align: "left" },
+    ],
+    items,
+    y,
+    { rowHeight: 40, emptyText: "لا توجد أصناف" },
+  );
+
+  y = drawSectionTitle(doc, `المدفوعات (${payments.length})`, y);
+  drawTable<ShipmentPayment>(
+    doc,
+    [
+      { header: "رقم", width: 0.8, value: (p) => p.id, align: "center" },
+      { header: "التاريخ", width: 1.6, value: (p) => formatDate(p.paymentDate), align: "center" },
+      { header: "البند", width: 1.6, value: (p) => p.costComponent },
+      { header: "المورد", width: 2, value: (p) => (p.supplierId ? supplierNames.get(p.supplierId) ?? "-" : "-") },
+      { header: "المبلغ", width: 2, value: (p) => `${formatAmount(p.amountOriginal)} ${p.paymentCurrency}`, align: "left" },
+      { header: "سعر الصرف", width: 1.3, value: (p) => (p.exchangeRateToEgp ? formatAmount(p.exchangeRateToEgp, 4) : "-"), align: "left" },
+      { header: "المعادل ج.م", width: 1.8, value: (p) => formatAmount(p.amountEgp), align: "left" },
+      { header: "طريقة الدفع", width: 1.6, value: (p) => p.paymentMethod },
+      { header: "الحالة", width: 1.8, value: (p) => paymentStatusLabel(p) },
+    ],
+    payments,
+    y,
+    {
+      emptyText: "لا توجد مدفوعات",
+      rowFill: (p) => (p.voidedAt || p.reversalOfPaymentId ? "#fef2f2" : null),
+    },
+  );
+
+  drawPageNumbers(doc, generatedAt);
+  doc.end();
+  return output;
+}
+
+/**
+ * One-page receipt for a single payment row. Voided payments and reversal
+ * entries are printed with their status so an archived copy is never mistaken
+ * for a live payment.
+ */
+export function renderPaymentReceipt(data: PaymentReceiptData): Promise<Buffer> {
+  const { payment, shipment, supplierName, generatedAt } = data;
+  const doc = createDocument(`إيصال دفع رقم ${payment.id}`);
+  const output = toBuffer(doc);
+
+  let y = drawTitle(doc, "إيصال دفع", `إيصال رقم ${payment.id} - الشحنة ${shipment.shipmentCode}`);
+
+  const status = paymentStatusLabel(payment);
+  if (payment.voidedAt || payment.reversalOfPaymentId) {
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 28).fill("#fef2f2");
+    drawText(doc, payment.voidReason ? `${status}: ${payment.voidReason}` : status, PAGE_MARGIN + 8, y + 7, {
+      width: CONTENT_WIDTH - 16,
+      bold: true,
+      color: "#b91c1c",
+    });
+    y += 40;
+  }
+
+  y = drawFields(
+    doc,
+    [
+      ["رقم الإيصال", String(payment.id)],
+      ["تاريخ الدفع", formatDate(payment.paymentDate)],
+      ["رقم الشحنة", shipment.shipmentCode],
+      ["اسم الشحنة", shipment.shipmentName],
+      ["المورد", supplierName ?? "-"],
+      ["البند", payment.costComponent],
+      ["طريقة الدفع", payment.paymentMethod],
+      ["المستلم", payment.cashReceiverName || "-"],
+      ["الرقم المرجعي", payment.referenceNumber || "-"],
+      ["الحالة", status],
+    ],
+    y,
+  );
+
+  y = drawSectionTitle(doc, "المبلغ", y);
+  y = drawTotalsBox(
+    doc,
+    [
+      ["المبلغ المدفوع", `${formatAmount(payment.amountOriginal)} ${payment.paymentCurrency}`],
+      ["سعر الصرف", payment.exchangeRateToEgp ? formatAmount(payment.exchangeRateToEgp, 4) : "-"],
+      ["المعادل (ج.م)", formatAmount(payment.amountEgp)],
+    ],
+    y,
+  );
+
+  if (payment.note) {
+    y = drawSectionTitle(doc, "ملاحظات", y);
+    drawText(doc, payment.note, PAGE_MARGIN, y, { width: CONTENT_WIDTH });
+    y += 24;
+  }
+
+  y = drawSectionTitle(doc, "موقف الشحنة", y);
+  y = drawFields(
+    doc,
+    [
+      ["إجمالي التكلفة (ج.م)", formatAmount(shipment.finalTotalCostEgp)],
+      ["إجمالي المدفوع (ج.م)", formatAmount(shipment.totalPaidEgp)],
+      ["الرصيد المتبقي (ج.م)", formatAmount(shipment.balanceEgp)],
+    ],
+    y,
+  );
+
+  y += 40;
+  const signatureWidth = CONTENT_WIDTH / 2 - 20;
+  doc.moveTo(RIGHT_EDGE - signatureWidth, y).lineTo(RIGHT_EDGE, y).lineWidth(0.5).strokeColor(MUTED_COLOR).stroke();
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + signatureWidth, y).stroke();
+  drawText(doc, "توقيع المستلم", RIGHT_EDGE - signatureWidth, y + 4, { width: signatureWidth, align: "center", color: MUTED_COLOR });
+  drawText(doc, "توقيع المحاسب", PAGE_MARGIN, y + 4, { width: signatureWidth, align: "center", color: MUTED_COLOR });
+
+  drawPageNumbers(doc, generatedAt);
+  doc.end();
+  return output;
+}
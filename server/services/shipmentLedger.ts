@@ -0,0 +1,207 @@
+import type { InsertShipmentLedgerEntry, Shipment, ShipmentLedgerEntry, ShipmentPayment } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+export const LEDGER_COST_ENTRY = "قيد تكلفة";
+export const LEDGER_PAYMENT_ENTRY = "سداد";
+export const LEDGER_REVERSAL_ENTRY = "عكس سداد";
+export const LEDGER_OPENING_DESCRIPTION = "رصيد افتتاحي";
+
+// Each cost account and the shipment column holding its current amount
+export const LEDGER_COST_ACCOUNTS = [
+  { account: "تكلفة البضاعة", field: "purchaseCostEgp" },
+  { account: "العمولة", field: "commissionCostEgp" },
+  { account: "الشحن", field: "shippingCostEgp" },
+  { account: "الجمرك", field: "customsCostEgp" },
+  { account: "التخريج", field: "takhreegCostEgp" },
+] as const;
+
+// Cached totals are stored to the piastre, so anything under this is rounding
+const LEDGER_TOLERANCE_EGP = 0.01;
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const configured = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+};
+
+// 0 turns the background job off
+export const LEDGER_RECONCILIATION_INTERVAL_MINUTES = numberFromEnv("LEDGER_RECONCILIATION_INTERVAL_MINUTES", 1440);
+
+type LedgerLine = Pick<ShipmentLedgerEntry, "entryType" | "account" | "debitEgp" | "creditEgp">;
+
+export type LedgerTotals = {
+  costEgp: number;
+  paidEgp: number;
+  balanceEgp: number;
+};
+
+const netDebit = (line: LedgerLine) => parseAmountOrZero(line.debitEgp) - parseAmountOrZero(line.creditEgp);
+
+/**
+ * Lines that bring each cost account in line with the shipment's current
+ * costs. Nothing already booked is touched: a lowered cost posts a credit for
+ * the difference, a raised one a debit.
+ */
+export function costAdjustmentEntries(
+  shipment: Shipment,
+  booked: LedgerLine[],
+  userId?: string | null,
+): InsertShipmentLedgerEntry[] {
+  const entries: InsertShipmentLedgerEntry[] = [];
+
+  for (const { account, field } of LEDGER_COST_ACCOUNTS) {
+    const bookedEgp = booked
+      .filter((line) => line.entryType === LEDGER_COST_ENTRY && line.account === account)
+      .reduce((sum, line) => sum + netDebit(line), 0);
+    const delta = roundAmount(parseAmountOrZero(shipment[field]) - bookedEgp);
+    if (Math.abs(delta) < LEDGER_TOLERANCE_EGP) continue;
+
+    entries.push({
+      shipmentId: shipment.id,
+      entryType: LEDGER_COST_ENTRY,
+      account,
+      debitEgp: delta > 0 ? delta.toFixed(2) : "0",
+      creditEgp: delta < 0 ? (-delta).toFixed(2) : "0",
+      description: bookedEgp === 0 ? "تسجيل التكلفة" : "تعديل التكلفة",
+      createdByUserId: userId ?? null,
+    });
+  }
+
+  return entries;
+}
+
+/** A payment settles the shipment; its compensating reversal row puts the amount back. */
+export function paymentEntry(payment: ShipmentPayment, userId?: string | null): InsertShipmentLedgerEntry {
+  const amount = roundAmount(parseAmountOrZero(payment.amountEgp));
+  const isReversal = payment.reversalOfPaymentId !== null || amount < 0;
+
+  return {
+    shipmentId: payment.shipmentId,
+    entryType: isReversal ? LEDGER_REVERSAL_ENTRY : LEDGER_PAYMENT_ENTRY,
+    account: payment.costComponent,
+    debitEgp: isReversal ? Math.abs(amount).toFixed(2) : "0",
+    creditEgp: isReversal ? "0" : amount.toFixed(2),
+    paymentId: payment.id,
+    description: isReversal ? `عكس الدفعة رقم ${payment.reversalOfPaymentId ?? payment.id}` : `دفعة رقم ${payment.id}`,
+    createdByUserId: userId ?? payment.createdByUserId ?? null,
+  };
+}
+
+/**
+ * Opening lines for a shipment recorded before the ledger existed: its current
+ * costs and every payment already on it, so later syncs only post differences.
+ */
+export function openingLedgerEntries(
+  shipment: Shipment,
+  payments: ShipmentPayment[],
+): InsertShipmentLedgerEntry[] {
+  return [
+    ...costAdjustmentEntries(shipment, []).map((entry) => ({ ...entry, description: LEDGER_OPENING_DESCRIPTION })),
+    ...payments.map((payment) => paymentEntry(payment)),
+  ];
+}
+
+/** Totals in the same shape the shipment caches them: the balance never goes below zero. */
+export function summarizeLedger(lines: LedgerLine[]): LedgerTotals {
+  let costEgp = 0;
+  let paidEgp = 0;
+  for (const line of lines) {
+    if (line.entryType === LEDGER_COST_ENTRY) costEgp += netDebit(line);
+    else paidEgp -= netDebit(line);
+  }
+  costEgp = roundAmount(costEgp);
+  paidEgp = roundAmount(paidEgp);
+  return { costEgp, paidEgp, balanceEgp: roundAmount(Math.max(0, costEgp - paidEgp)) };
+}
+
+export type LedgerMismatch = {
+  field: "finalTotalCostEgp" | "totalPaidEgp" | "balanceEgp";
+  cachedEgp: number;
+  ledgerEgp: number;
+};
+
+export function compareWithLedger(shipment: Shipment, totals: LedgerTotals): LedgerMismatch[] {
+  const checks: Array<[LedgerMismatch["field"], number]> = [
+    ["finalTotalCostEgp", totals.costEgp],
+    ["totalPaidEgp", totals.paidEgp],
+    ["balanceEgp", totals.balanceEgp],
+  ];
+
+  return checks
+    .map(([field, ledgerEgp]) => ({ field, cachedEgp: parseAmountOrZero(shipment[field]), ledgerEgp }))
+    .filter((check) => Math.abs(check.cachedEgp - check.ledgerEgp) >= LEDGER_TOLERANCE_EGP);
+}
+
+export type LedgerReconciliationStorage = Pick<IStorage, "getAllShipments" | "getLedgerTotals">;
+
+export type LedgerReconciliationResult = {
+  checkedAt: Date;
+  shipmentsChecked: number;
+  flagged: Array<{
+    shipmentId: number;
+    shipmentCode: string;
+    mismatches: LedgerMismatch[];
+  }>;
+};
+
+/** Flags every shipment whose cached totals disagree with its ledger. Nothing is corrected here. */
+export async function reconcileShipmentLedgers(
+  storage: LedgerReconciliationStorage,
+): Promise<LedgerReconciliationResult> {
+  const [allShipments, ledgerTotals] = await Promise.all([storage.getAllShipments(), storage.getLedgerTotals()]);
+  const totalsByShipment = new Map(ledgerTotals.map((row) => [row.shipmentId, row]));
+  const empty: LedgerTotals = { costEgp: 0, paidEgp: 0, balanceEgp: 0 };
+
+  const flagged: LedgerReconciliationResult["flagged"] = [];
+  for (const shipment of allShipments) {
+    const mismatches = compareWithLedger(shipment, totalsByShipment.get(shipment.id) ?? empty);
+    if (mismatches.length > 0) {
+      flagged.push({ shipmentId: shipment.id, shipmentCode: shipment.shipmentCode, mismatches });
+    }
+  }
+
+  return { checkedAt: new Date(), shipmentsChecked: allShipments.length, flagged };
+}
+
+/**
+ * Runs the reconciliation on a timer. Runs never overlap, and the timer does
+ * not keep the process alive on its own. Returns a function that stops the job.
+ */
+export function startLedgerReconciliation(
+  storage: LedgerReconciliationStorage,
+  options: {
+    intervalMinutes?: number;
+    onResult?: (result: LedgerReconciliationResult) => void;
+  } = {},
+): () => void {
+  const intervalMinutes = options.intervalMinutes ?? LEDGER_RECONCILIATION_INTERVAL_MINUTES;
+  if (intervalMinutes <= 0) return () => {};
+
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await reconcileShipmentLedgers(storage);
+      if (result.flagged.length > 0) {
+        console.warn(
+          `[LEDGER] ${result.flagged.length} shipment(s) disagree with the ledger`,
+          result.flagged.map((entry) => entry.shipmentCode),
+        );
+      }
+      options.onResult?.(result);
+    } catch (error) {
+      console.error("[LEDGER] Scheduled reconciliation failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,206 @@
+import type { ShipmentItem, ShipmentItemReceipt } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+// مفتوحة, مسوّاة - a claim is settled once a credit note raised against it is approved
+export const OPEN_CLAIM_STATUS = "مفتوحة";
+export const SETTLED_CLAIM_STATUS = "مسوّاة";
+
+export type ReceivingLine = {
+  shipmentItemId: number;
+  supplierId: number | null;
+  orderedPieces: number;
+  receivedPieces: number;
+  shortPieces: number;
+  damagedPieces: number;
+  notes: string | null;
+};
+
+export type ReceivingInput = {
+  lines: ReceivingLine[];
+  raiseClaim: boolean;
+};
+
+type ReceivableItem = Pick<ShipmentItem, "id" | "supplierId" | "totalPiecesCou">;
+
+const invalid = (shipmentItemId: number | null, field: string, message: string) =>
+  new ApiError("RECEIVING_INVALID", message, 400, { shipmentItemId, field });
+
+const toCount = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return 0;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+};
+
+/**
+ * Reads the quantities counted at receiving. A line names its item by
+ * `shipmentItemId`, or by `itemIndex` when the same request re-saves the items
+ * and their ids are not known yet. Items the request does not mention arrived
+ * in full. Whatever was neither received nor damaged is short.
+ */
+export function parseReceiving(body: any, items: ReceivableItem[]): ReceivingInput {
+  const requested = Array.isArray(body?.lines) ? body.lines : [];
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const counted = new Map<number, { received: number; damaged: number; notes: string | null }>();
+
+  for (const line of requested) {
+    const shipmentItemId = Number(line?.shipmentItemId);
+    const item =
+      line?.shipmentItemId !== undefined && line?.shipmentItemId !== null
+        ? itemsById.get(shipmentItemId)
+        : items[Number(line?.itemIndex)];
+    if (!item) {
+      const reference = Number.isInteger(shipmentItemId) ? shipmentItemId : null;
+      throw invalid(reference, "shipmentItemId", "البند غير موجود في هذه الشحنة.");
+    }
+
+    const received = toCount(line?.receivedPieces);
+    const damaged = toCount(line?.damagedPieces);
+    if (received === null) {
+      throw invalid(item.id, "receivedPieces", "الكمية المستلمة يجب أن تكون عدداً صحيحاً غير سالب.");
+    }
+    if (damaged === null) {
+      throw invalid(item.id, "damagedPieces", "الكمية التالفة يجب أن تكون عدداً صحيحاً غير سالب.");
+    }
+    if (received + damaged > (item.totalPiecesCou || 0)) {
+      throw invalid(item.id, "receivedPieces", "مجموع المستلم والتالف أكبر من الكمية المطلوبة للبند.");
+    }
+
+    const notes = typeof line?.notes === "string" && line.notes.trim() ? line.notes.trim() : null;
+    counted.set(item.id, { received, damaged, notes });
+  }
+
+  const lines = items.map((item) => {
+    const orderedPieces = item.totalPiecesCou || 0;
+    const count = counted.get(item.id) ?? { received: orderedPieces, damaged: 0, notes: null };
+    return {
+      shipmentItemId: item.id,
+      supplierId: item.supplierId ?? null,
+      orderedPieces,
+      receivedPieces: count.received,
+      shortPieces: orderedPieces - count.received - count.damaged,
+      damagedPieces: count.damaged,
+      notes: count.notes,
+    };
+  });
+
+  return { lines, raiseClaim: body?.raiseClaim === true };
+}
+
+export const hasDiscrepancy = (line: Pick<ReceivingLine, "shortPieces" | "damagedPieces">) =>
+  line.shortPieces > 0 || line.damagedPieces > 0;
+
+export type SupplierClaimDraft = {
+  supplierId: number;
+  shipmentItemIds: number[];
+  pieces: number;
+  amountRmb: number;
+};
+
+/**
+ * One claim per supplier for the pieces it did not deliver in good condition,
+ * priced at the supplier's purchase price. Items without a supplier cannot be
+ * claimed and are left out.
+ */
+export function draftSupplierClaims(
+  lines: ReceivingLine[],
+  items: Pick<ShipmentItem, "id" | "purchasePricePerPiecePriRmb">[],
+): SupplierClaimDraft[] {
+  const prices = new Map(items.map((item) => [item.id, parseAmountOrZero(item.purchasePricePerPiecePriRmb)]));
+  const drafts = new Map<number, SupplierClaimDraft>();
+
+  for (const line of lines) {
+    if (!line.supplierId || !hasDiscrepancy(line)) continue;
+    const pieces = line.shortPieces + line.damagedPieces;
+    const draft = drafts.get(line.supplierId) ?? {
+      supplierId: line.supplierId,
+      shipmentItemIds: [],
+      pieces: 0,
+      amountRmb: 0,
+    };
+    draft.shipmentItemIds.push(line.shipmentItemId);
+    draft.pieces += pieces;
+    draft.amountRmb = roundAmount(draft.amountRmb + pieces * (prices.get(line.shipmentItemId) ?? 0));
+    drafts.set(line.supplierId, draft);
+  }
+
+  return Array.from(drafts.values());
+}
+
+export type DiscrepancyReceipt = ShipmentItemReceipt & {
+  shipmentCode: string;
+  productName: string;
+  supplierName: string | null;
+};
+
+export type SupplierDiscrepancy = {
+  supplierId: number | null;
+  supplierName: string;
+  orderedPieces: number;
+  receivedPieces: number;
+  shortPieces: number;
+  damagedPieces: number;
+  valueRmb: number;
+  valueEgp: number;
+  lines: Array<DiscrepancyReceipt & { valueRmb: number; valueEgp: number }>;
+};
+
+export type DiscrepancyReport = {
+  totals: Omit<SupplierDiscrepancy, "supplierId" | "supplierName" | "lines">;
+  suppliers: SupplierDiscrepancy[];
+};
+
+/**
+ * Groups receipts by supplier. Supplier totals cover everything received so
+ * the discrepancy rate can be read against it; only lines with short or
+ * damaged pieces are listed, and suppliers without any are left out.
+ */
+export function buildDiscrepancyReport(receipts: DiscrepancyReceipt[]): DiscrepancyReport {
+  const bySupplier = new Map<string, SupplierDiscrepancy>();
+
+  for (const receipt of receipts) {
+    const bucket = String(receipt.supplierId ?? "none");
+    const entry = bySupplier.get(bucket) ?? {
+      supplierId: receipt.supplierId ?? null,
+      supplierName: receipt.supplierName ?? "بدون مورد",
+      orderedPieces: 0,
+      receivedPieces: 0,
+      shortPieces: 0,
+      damagedPieces: 0,
+      valueRmb: 0,
+      valueEgp: 0,
+      lines: [],
+    };
+
+    entry.orderedPieces += receipt.orderedPieces;
+    entry.receivedPieces += receipt.receivedPieces;
+    entry.shortPieces += receipt.shortPieces;
+    entry.damagedPieces += receipt.damagedPieces;
+    if (hasDiscrepancy(receipt)) {
+      const pieces = receipt.shortPieces + receipt.damagedPieces;
+      const valueRmb = roundAmount(pieces * parseAmountOrZero(receipt.unitPriceRmb));
+      const valueEgp = roundAmount(pieces * parseAmountOrZero(receipt.unitCostEgp));
+      entry.valueRmb = roundAmount(entry.valueRmb + valueRmb);
+      entry.valueEgp = roundAmount(entry.valueEgp + valueEgp);
+      entry.lines.push({ ...receipt, valueRmb, valueEgp });
+    }
+    bySupplier.set(bucket, entry);
+  }
+
+  const suppliers = Array.from(bySupplier.values())
+    .filter((entry) => entry.lines.length > 0)
+    .sort((a, b) => b.valueEgp - a.valueEgp);
+
+  return {
+    totals: {
+      orderedPieces: suppliers.reduce((sum, entry) => sum + entry.orderedPieces, 0),
+      receivedPieces: suppliers.reduce((sum, entry) => sum + entry.receivedPieces, 0),
+      shortPieces: suppliers.reduce((sum, entry) => sum + entry.shortPieces, 0),
+      damagedPieces: suppliers.reduce((sum, entry) => sum + entry.damagedPieces, 0),
+      valueRmb: roundAmount(suppliers.reduce((sum, entry) => sum + entry.valueRmb, 0)),
+      valueEgp: roundAmount(suppliers.reduce((sum, entry) => sum + entry.valueEgp, 0)),
+    },
+    suppliers,
+  };
+}
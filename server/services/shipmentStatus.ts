@@ -0,0 +1,241 @@
+import type { Shipment, ShipmentCustomsDetails, ShipmentStatusHistory } from "@shared/schema";
+import { ApiError } from "../errors";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+export const SHIPMENT_STATUSES = [
+  "جديدة",
+  "في انتظار الشحن",
+  "جاهزة للاستلام",
+  "مستلمة بنجاح",
+  "مؤرشفة",
+] as const;
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+export const ARCHIVED_STATUS: ShipmentStatus = "مؤرشفة";
+export const RECEIVED_STATUS: ShipmentStatus = "مستلمة بنجاح";
+
+/**
+ * Allowed moves between statuses. A shipment can step back one stage to fix
+ * data, can be archived from any stage, and leaves the archive only to the
+ * stage it was archived from (checked by the restore guard below).
+ */
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  "جديدة": ["في انتظار الشحن", "مؤرشفة"],
+  "في انتظار الشحن": ["جديدة", "جاهزة للاستلام", "مؤرشفة"],
+  "جاهزة للاستلام": ["في انتظار الشحن", "مستلمة بنجاح", "مؤرشفة"],
+  "مستلمة بنجاح": ["مؤرشفة"],
+  "مؤرشفة": ["جديدة", "في انتظار الشحن", "جاهزة للاستلام", "مستلمة بنجاح"],
+};
+
+// Roles allowed to move a shipment into each status
+export const SHIPMENT_STATUS_ROLES: Record<ShipmentStatus, string[]> = {
+  "جديدة": ["مدير", "محاسب"],
+  "في انتظار الشحن": ["مدير", "محاسب"],
+  "جاهزة للاستلام": ["مدير", "محاسب", "مسؤول مخزون"],
+  "مستلمة بنجاح": ["مدير", "محاسب", "مسؤول مخزون"],
+  "مؤرشفة": ["مدير", "محاسب"],
+};
+
+export const STATUS_OVERRIDE_ROLES = ["مدير"];
+
+export type StatusGuardContext = {
+  shipment: Pick<Shipment, "status" | "balanceEgp">;
+  itemCount: number;
+  hasShippingDetails: boolean;
+  hasCustomsDetails: boolean;
+  // Status the shipment had right before it was archived, from the status history
+  statusBeforeArchive: string | null;
+  // Goods were received into stock; receiving again would post them twice
+  hasReceipts: boolean;
+};
+
+type StatusGuard = {
+  code: string;
+  message: string;
+  // Overridable guards can be bypassed by STATUS_OVERRIDE_ROLES with a reason
+  overridable: boolean;
+  applies: (from: ShipmentStatus, to: ShipmentStatus) => boolean;
+  passes: (context: StatusGuardContext, to: ShipmentStatus) => boolean;
+};
+
+const STAGE_ORDER: ShipmentStatus[] = ["جديدة", "في انتظار الشحن", "جاهزة للاستلام", "مستلمة بنجاح"];
+
+const STATUS_GUARDS: StatusGuard[] = [
+  {
+    code: "ITEMS_REQUIRED",
+    message: "لا يمكن تحويل الشحنة للشحن قبل إضافة بنود لها",
+    overridable: false,
+    applies: (from, to) => from !== ARCHIVED_STATUS && to === "في انتظار الشحن",
+    passes: (context) => context.itemCount > 0,
+  },
+  {
+    code: "SHIPPING_DETAILS_REQUIRED",
+    message: "لا يمكن تجهيز الشحنة للاستلام قبل إدخال بيانات الشحن",
+    overridable: false,
+    applies: (from, to) => from !== ARCHIVED_STATUS && to === "جاهزة للاستلام",
+    passes: (context) => context.hasShippingDetails,
+  },
+  {
+    code: "CUSTOMS_DETAILS_REQUIRED",
+    message: "لا يمكن تأكيد استلام الشحنة قبل إدخال بيانات الجمارك والتخريج",
+    overridable: false,
+    applies: (from, to) => from !== ARCHIVED_STATUS && to === "مستلمة بنجاح",
+    passes: (context) => context.hasCustomsDetails,
+  },
+  {
+    code: "BALANCE_OUTSTANDING",
+    message: "لا يمكن أرشفة شحنة عليها رصيد مستحق إلا بموافقة المدير",
+    overridable: true,
+    applies: (_from, to) => to === ARCHIVED_STATUS,
+    passes: (context) => parseAmountOrZero(context.shipment.balanceEgp) === 0,
+  },
+  {
+    code: "RESTORE_PREVIOUS_STATUS",
+    message: "يجب استعادة الشحنة المؤرشفة إلى الحالة التي كانت عليها قبل الأرشفة",
+    overridable: false,
+    applies: (from) => from === ARCHIVED_STATUS,
+    // Shipments archived before the history existed can be restored to any stage
+    passes: (context, to) => context.statusBeforeArchive === null || context.statusBeforeArchive === to,
+  },
+  {
+    code: "RESTORE_RECEIVED",
+    message: "لا يمكن استعادة شحنة تم استلامها إلى مرحلة قبل الاستلام",
+    overridable: false,
+    applies: (from, to) => from === ARCHIVED_STATUS && to !== RECEIVED_STATUS,
+    passes: (context) => !context.hasReceipts,
+  },
+];
+
+/**
+ * Customs details count only once they carry something: a customs or takhreeg
+ * cost, or the customs invoice date.
+ */
+export function hasCustomsData(
+  details: Pick<ShipmentCustomsDetails, "totalCustomsCostEgp" | "totalTakhreegCostEgp" | "customsInvoiceDate"> | null | undefined,
+): boolean {
+  if (!details) return false;
+  return (
+    parseAmountOrZero(details.totalCustomsCostEgp) > 0 ||
+    parseAmountOrZero(details.totalTakhreegCostEgp) > 0 ||
+    !!details.customsInvoiceDate
+  );
+}
+
+export function isShipmentStatus(value: unknown): value is ShipmentStatus {
+  return typeof value === "string" && (SHIPMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isShipmentStatus(from) && isShipmentStatus(to) && SHIPMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Maps a saved wizard step to the stages the shipment has to pass through to
+ * reach the status that step implies, so each stage is checked and recorded.
+ * Steps only move a shipment forward: re-saving an earlier step never pulls it
+ * back, and archived shipments keep their status.
+ */
+export function statusPathForWizardStep(current: string, step: number | undefined): ShipmentStatus[] {
+  const byStep: Record<number, ShipmentStatus> = {
+    1: "في انتظار الشحن",
+    2: "في انتظار الشحن",
+    3: "جاهزة للاستلام",
+    4: "مستلمة بنجاح",
+  };
+  const target = step ? byStep[step] : undefined;
+  if (!target || !isShipmentStatus(current) || current === ARCHIVED_STATUS) return [];
+
+  const from = STAGE_ORDER.indexOf(current);
+  const to = STAGE_ORDER.indexOf(target);
+  return to > from ? STAGE_ORDER.slice(from + 1, to + 1) : [];
+}
+
+export type StatusTransitionRequest = {
+  to: string;
+  role: string | null | undefined;
+  // Reason given by an admin to force an overridable guard
+  overrideReason?: string | null;
+};
+
+/**
+ * Checks a status change against the transition table, the role permissions
+ * and the guards. Returns the override reason that was used, if any, so it can
+ * be stored with the history row; throws ApiError when the change is refused.
+ */
+export function assertStatusTransition(
+  context: StatusGuardContext,
+  request: StatusTransitionRequest,
+): { overrideReason: string | null } {
+  const from = context.shipment.status;
+  const { to } = request;
+
+  if (!isShipmentStatus(to)) {
+    throw new ApiError("SHIPMENT_STATUS_INVALID", undefined, 400, { status: to });
+  }
+
+  if (!isShipmentStatus(from) || !canTransition(from, to)) {
+    throw new ApiError("SHIPMENT_TRANSITION_NOT_ALLOWED", undefined, 409, {
+      from,
+      to,
+      allowed: isShipmentStatus(from) ? SHIPMENT_STATUS_TRANSITIONS[from] : [],
+    });
+  }
+
+  if (!request.role || !SHIPMENT_STATUS_ROLES[to].includes(request.role)) {
+    throw new ApiError("PERMISSION_DENIED", undefined, 403, { from, to, role: request.role ?? null });
+  }
+
+  const overrideReason = request.overrideReason?.trim() || null;
+  const canOverride = !!overrideReason && STATUS_OVERRIDE_ROLES.includes(request.role);
+  let overrideUsed = false;
+
+  for (const guard of STATUS_GUARDS) {
+    if (!guard.applies(from, to) || guard.passes(context, to)) continue;
+
+    if (guard.overridable && canOverride) {
+      overrideUsed = true;
+      continue;
+    }
+
+    throw new ApiError("SHIPMENT_TRANSITION_BLOCKED", guard.message, 409, {
+      from,
+      to,
+      guard: guard.code,
+      overridable: guard.overridable,
+    });
+  }
+
+  return { overrideReason: overrideUsed ? overrideReason : null };
+}
+
+export function findStatusBeforeArchive(history: ShipmentStatusHistory[]): string | null {
+  const archived = [...history]
+    .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime())
+    .find((entry) => entry.toStatus === ARCHIVED_STATUS);
+  return archived?.fromStatus ?? null;
+}
+
+export type StatusStage = {
+  status: string;
+  enteredAt: Date;
+  leftAt: Date | null;
+  durationMs: number;
+};
+
+/**
+ * Turns a shipment's status history into the stages it went through and how
+ * long it stayed in each; the current stage runs until `now`.
+ */
+export function buildStatusStages(history: ShipmentStatusHistory[], now = new Date()): StatusStage[] {
+  const ordered = [...history].sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+
+  return ordered.map((entry, idx) => {
+    const leftAt = ordered[idx + 1]?.changedAt ?? null;
+    return {
+      status: entry.toStatus,
+      enteredAt: entry.changedAt,
+      leftAt,
+      durationMs: (leftAt ?? now).getTime() - entry.changedAt.getTime(),
+    };
+  });
+}
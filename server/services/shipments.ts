@@ -5,9 +5,9 @@ import {
   shipmentItems,
   shipmentShippingDetails,
   shipments,
-  exchangeRates,
 } from "@shared/schema";
-import { and, desc, eq } from "drizzle-orm";
+import { eq } from "drizzle-orm";
+import { resolveRateValue } from "./exchangeRates";
 
 class ShipmentServiceError extends Error {
   status: number;
@@ -24,17 +24,6 @@ function parseNumber(value: string | number | null | undefined): number {
   return Number.isFinite(parsed) ? parsed : 0;
 }
 
-async function getLatestRmbToEgpRate(tx: any): Promise<number> {
-  const [rate] = await tx
-    .select()
-    .from(exchangeRates)
-    .where(and(eq(exchangeRates.fromCurrency, "RMB"), eq(exchangeRates.toCurrency, "EGP")))
-    .orderBy(desc(exchangeRates.rateDate))
-    .limit(1);
-
-  return rate ? parseNumber(rate.rateValue) : 7.15;
-}
-
 export const shipmentService = {
   async createShipment(payload: any, userId?: string) {
     const { items = [], ...shipmentData } = payload || {};
@@ -86,7 +75,7 @@ export const shipmentService = {
         return sum + (item.cartonsCtn || 0) * parseNumber(item.takhreegCostPerCartonEgp);
       }, 0);
 
-      const rmbToEgp = await getLatestRmbToEgpRate(tx);
+      const rmbToEgp = await resolveRateValue(tx, "RMB", "EGP", shipment.purchaseDate);
       const purchaseCostEgp = totalPurchaseCostRmb * rmbToEgp;
       const knownTotalCostEgp = purchaseCostEgp + totalCustomsCostEgp + totalTakhreegCostEgp;
 
@@ -181,7 +170,11 @@ export const shipmentService = {
         }, 0);
 
         // CRITICAL FIX: When items are updated, must recalculate purchaseCostEgp (convert RMB→EGP)
-        const rmbToEgpRate = await getLatestRmbToEgpRate(tx);
+        const [{ purchaseDate }] = await tx
+          .select({ purchaseDate: shipments.purchaseDate })
+          .from(shipments)
+          .where(eq(shipments.id, shipmentId));
+        const rmbToEgpRate = await resolveRateValue(tx, "RMB", "EGP", purchaseDate);
         const purchaseCostEgp = totalPurchaseCostRmb * rmbToEgpRate;
 
         await tx
@@ -0,0 +1,152 @@
+import type { ShipmentPayment, SupplierAdvance } from "@shared/schema";
+import { ApiError } from "../errors";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+// How advances are labelled in the supplier statement, the movement report and the journal
+export const ADVANCE_MOVEMENT_TYPE = "دفعة مقدمة";
+
+export type SupplierAdvanceInput = {
+  supplierId: number;
+  advanceDate: Date;
+  paymentCurrency: "RMB" | "EGP";
+  amountOriginal: number;
+  // null for RMB means "use the rate in effect on the advance date"
+  exchangeRateToEgp: number | null;
+  paymentMethod: string;
+  paymentAccountId: number | null;
+  cashReceiverName: string | null;
+  referenceNumber: string | null;
+  note: string | null;
+};
+
+export type AdvanceApplicationInput = {
+  applicationDate: Date;
+  costComponent: string;
+  // Amounts are in the advance's own currency
+  applications: Array<{ shipmentId: number; amountOriginal: number }>;
+};
+
+export type AdvanceBalance = {
+  appliedOriginal: number;
+  appliedEgp: number;
+  remainingOriginal: number;
+  remainingEgp: number;
+};
+
+const invalid = (field: string, extra: Record<string, unknown> = {}) =>
+  new ApiError("SUPPLIER_ADVANCE_INVALID", undefined, 400, { field, ...extra });
+
+const toPositiveNumber = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export function parseSupplierAdvance(body: any): SupplierAdvanceInput {
+  const supplierId = toId(body?.supplierId);
+  if (supplierId === null) throw invalid("supplierId");
+
+  const advanceDate = toDate(body?.advanceDate);
+  if (!advanceDate) throw invalid("advanceDate");
+
+  const paymentCurrency = body?.paymentCurrency;
+  if (paymentCurrency !== "RMB" && paymentCurrency !== "EGP") throw invalid("paymentCurrency");
+
+  const amountOriginal = toPositiveNumber(body?.amountOriginal);
+  if (amountOriginal === null) throw invalid("amountOriginal");
+
+  let exchangeRateToEgp: number | null = null;
+  if (paymentCurrency === "RMB" && body?.exchangeRateToEgp !== undefined && body?.exchangeRateToEgp !== null && body?.exchangeRateToEgp !== "") {
+    exchangeRateToEgp = toPositiveNumber(body.exchangeRateToEgp);
+    if (exchangeRateToEgp === null) throw invalid("exchangeRateToEgp");
+  }
+
+  const paymentMethod = optionalText(body?.paymentMethod);
+  if (!paymentMethod) throw invalid("paymentMethod");
+
+  let paymentAccountId: number | null = null;
+  if (body?.paymentAccountId !== undefined && body?.paymentAccountId !== null && body?.paymentAccountId !== "") {
+    paymentAccountId = toId(body.paymentAccountId);
+    if (paymentAccountId === null) throw invalid("paymentAccountId");
+  }
+
+  return {
+    supplierId,
+    advanceDate,
+    paymentCurrency,
+    amountOriginal: roundAmount(amountOriginal),
+    exchangeRateToEgp,
+    paymentMethod,
+    paymentAccountId,
+    cashReceiverName: optionalText(body?.cashReceiverName),
+    referenceNumber: optionalText(body?.referenceNumber),
+    note: optionalText(body?.note),
+  };
+}
+
+export function parseAdvanceApplication(body: any): AdvanceApplicationInput {
+  const applicationDate = toDate(body?.applicationDate);
+  if (!applicationDate) throw invalid("applicationDate");
+
+  const costComponent = optionalText(body?.costComponent);
+  if (!costComponent) throw invalid("costComponent");
+
+  if (!Array.isArray(body?.applications) || body.applications.length === 0) throw invalid("applications");
+  const applications = body.applications.map((application: any, index: number) => {
+    const shipmentId = toId(application?.shipmentId);
+    const amountOriginal = toPositiveNumber(application?.amountOriginal);
+    if (shipmentId === null || amountOriginal === null) throw invalid("applications", { index });
+    return { shipmentId, amountOriginal: roundAmount(amountOriginal) };
+  });
+  if (new Set(applications.map((application: { shipmentId: number }) => application.shipmentId)).size !== applications.length) {
+    throw invalid("applications", { reason: "duplicate" });
+  }
+
+  return { applicationDate, costComponent, applications };
+}
+
+/**
+ * What is left of an advance after the shipment payments applied from it.
+ * Reversed applications carry the same advance id with negative amounts, so
+ * they hand their share back automatically.
+ */
+export function summarizeAdvance(
+  advance: Pick<SupplierAdvance, "amountOriginal" | "amountEgp">,
+  applications: Array<Pick<ShipmentPayment, "amountOriginal" | "amountEgp">>,
+): AdvanceBalance {
+  const appliedOriginal = roundAmount(applications.reduce((sum, p) => sum + parseAmountOrZero(p.amountOriginal), 0));
+  const appliedEgp = roundAmount(applications.reduce((sum, p) => sum + parseAmountOrZero(p.amountEgp), 0));
+
+  return {
+    appliedOriginal,
+    appliedEgp,
+    remainingOriginal: roundAmount(Math.max(0, parseAmountOrZero(advance.amountOriginal) - appliedOriginal)),
+    remainingEgp: roundAmount(Math.max(0, parseAmountOrZero(advance.amountEgp) - appliedEgp)),
+  };
+}
+
+/** Throws SUPPLIER_ADVANCE_EXCEEDED when the applications add up to more than is left. */
+export function assertApplicationFits(advanceId: number, balance: AdvanceBalance, input: AdvanceApplicationInput) {
+  const requested = roundAmount(input.applications.reduce((sum, application) => sum + application.amountOriginal, 0));
+  if (requested > balance.remainingOriginal + 0.0001) {
+    throw new ApiError("SUPPLIER_ADVANCE_EXCEEDED", undefined, 409, {
+      advanceId,
+      requested,
+      remaining: balance.remainingOriginal,
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import type { Shipment, ShipmentItem, ShipmentPayment } from "@shared/schema";
+import { roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+import { calculateLandedCosts, splitByWeights, type CostAllocationBasis } from "./landedCost";
+
+export type SupplierCostAllocation = {
+  // null collects items that were entered without a supplier
+  supplierId: number | null;
+  purchaseCostEgp: number;
+  commissionCostEgp: number;
+  shippingCostEgp: number;
+  customsCostEgp: number;
+  takhreegCostEgp: number;
+  totalCostEgp: number;
+};
+
+export type SupplierPaymentShare = {
+  supplierId: number | null;
+  amountOriginal: number;
+  amountEgp: number;
+};
+
+// One shipment/supplier group of stored landed-cost lines, summed in SQL (sums come back as strings)
+export type LandedCostSums = {
+  shipmentId: number;
+  supplierId: number | null;
+  purchaseCostEgp: string | number | null;
+  commissionCostEgp: string | number | null;
+  shippingCostEgp: string | number | null;
+  customsCostEgp: string | number | null;
+  takhreegCostEgp: string | number | null;
+  totalCostEgp: string | number | null;
+};
+
+type CostField = Exclude<keyof SupplierCostAllocation, "supplierId" | "totalCostEgp">;
+
+const componentFields: Record<string, CostField> = {
+  "تكلفة البضاعة": "purchaseCostEgp",
+  "العمولة": "commissionCostEgp",
+  "الشحن": "shippingCostEgp",
+  "الجمرك": "customsCostEgp",
+  "التخريج": "takhreegCostEgp",
+};
+
+/**
+ * Allocates a shipment's EGP cost components to the suppliers of its items by
+ * summing the per-item landed costs, so supplier balances and unit costs always
+ * agree. A shipment without items is carried by a single unassigned bucket.
+ */
+export function allocateShipmentCostsBySupplier(
+  shipment: Shipment,
+  items: ShipmentItem[],
+  basisOverride?: CostAllocationBasis,
+): SupplierCostAllocation[] {
+  if (items.length === 0) {
+    const purchase = parseAmountOrZero(shipment.purchaseCostEgp);
+    const commission = parseAmountOrZero(shipment.commissionCostEgp);
+    const shipping = parseAmountOrZero(shipment.shippingCostEgp);
+    const customs = parseAmountOrZero(shipment.customsCostEgp);
+    const takhreeg = parseAmountOrZero(shipment.takhreegCostEgp);
+
+    return [{
+      supplierId: null,
+      purchaseCostEgp: purchase,
+      commissionCostEgp: commission,
+      shippingCostEgp: shipping,
+      customsCostEgp: customs,
+      takhreegCostEgp: takhreeg,
+      totalCostEgp: roundAmount(purchase + commission + shipping + customs + takhreeg),
+    }];
+  }
+
+  const lines = calculateLandedCosts(shipment, items, basisOverride);
+  const allocations: SupplierCostAllocation[] = [];
+
+  lines.forEach((line, idx) => {
+    const supplierId = items[idx].supplierId ?? null;
+    let allocation = allocations.find((a) => a.supplierId === supplierId);
+    if (!allocation) {
+      allocation = {
+        supplierId,
+        purchaseCostEgp: 0,
+        commissionCostEgp: 0,
+        shippingCostEgp: 0,
+        customsCostEgp: 0,
+        takhreegCostEgp: 0,
+        totalCostEgp: 0,
+      };
+      allocations.push(allocation);
+    }
+    allocation.purchaseCostEgp = roundAmount(allocation.purchaseCostEgp + line.purchaseCostEgp);
+    allocation.commissionCostEgp = roundAmount(allocation.commissionCostEgp + line.commissionShareEgp);
+    allocation.shippingCostEgp = roundAmount(allocation.shippingCostEgp + line.shippingShareEgp);
+    allocation.customsCostEgp = roundAmount(allocation.customsCostEgp + line.customsShareEgp);
+    allocation.takhreegCostEgp = roundAmount(allocation.takhreegCostEgp + line.takhreegShareEgp);
+    allocation.totalCostEgp = roundAmount(allocation.totalCostEgp + line.totalLandedCostEgp);
+  });
+
+  return allocations;
+}
+
+/**
+ * Attributes a payment to suppliers. Supplier-targeted payments belong to that
+ * supplier only; untargeted payments follow each supplier's share of the
+ * component being paid (or of the total when that component has no cost yet).
+ */
+export function allocatePaymentToSuppliers(
+  payment: Pick<ShipmentPayment, "amountOriginal" | "amountEgp" | "costComponent" | "supplierId">,
+  allocations: SupplierCostAllocation[],
+): SupplierPaymentShare[] {
+  const amountOriginal = parseAmountOrZero(payment.amountOriginal);
+  const amountEgp = parseAmountOrZero(payment.amountEgp);
+
+  if (payment.supplierId || allocations.length <= 1) {
+    return [{ supplierId: payment.supplierId ?? allocations[0]?.supplierId ?? null, amountOriginal, amountEgp }];
+  }
+
+  const field = componentFields[payment.costComponent];
+  const componentWeights = field ? allocations.map((a) => a[field]) : [];
+  const weights = componentWeights.some((w) => w > 0)
+    ? componentWeights
+    : allocations.map((a) => a.totalCostEgp);
+
+  const egpParts = splitByWeights(amountEgp, weights);
+  const originalParts = splitByWeights(amountOriginal, weights);
+
+  return allocations.map((a, idx) => ({
+    supplierId: a.supplierId,
+    amountOriginal: originalParts[idx],
+    amountEgp: egpParts[idx],
+  }));
+}
+
+/**
+ * Builds each shipment's supplier allocations from its landed-cost lines summed per
+ * supplier, so reports need not load items. Shipments with no stored lines yet are
+ * allocated from their items, as allocateShipmentCostsBySupplier does.
+ */
+export function allocationsFromLandedCostSums(
+  shipments: Shipment[],
+  sums: LandedCostSums[],
+  itemsWithoutLines: Map<number, ShipmentItem[]> = new Map(),
+): Map<number, SupplierCostAllocation[]> {
+  const byShipment = new Map<number, SupplierCostAllocation[]>();
+  for (const row of sums) {
+    const list = byShipment.get(row.shipmentId) ?? [];
+    list.push({
+      supplierId: row.supplierId,
+      purchaseCostEgp: roundAmount(parseAmountOrZero(row.purchaseCostEgp)),
+      commissionCostEgp: roundAmount(parseAmountOrZero(row.commissionCostEgp)),
+      shippingCostEgp: roundAmount(parseAmountOrZero(row.shippingCostEgp)),
+      customsCostEgp: roundAmount(parseAmountOrZero(row.customsCostEgp)),
+      takhreegCostEgp: roundAmount(parseAmountOrZero(row.takhreegCostEgp)),
+      totalCostEgp: roundAmount(parseAmountOrZero(row.totalCostEgp)),
+    });
+    byShipment.set(row.shipmentId, list);
+  }
+
+  for (const shipment of shipments) {
+    if (!byShipment.has(shipment.id)) {
+      byShipment.set(shipment.id, allocateShipmentCostsBySupplier(shipment, itemsWithoutLines.get(shipment.id) ?? []));
+    }
+  }
+  return byShipment;
+}
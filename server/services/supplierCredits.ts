@@ -0,0 +1,94 @@
+import type { SupplierCreditNote } from "@shared/schema";
+import { ApiError } from "../errors";
+import { convertRmbToEgp, roundAmount } from "./currency";
+import { parseAmountOrZero } from "./paymentCalculations";
+
+// بانتظار الاعتماد, معتمد, مرفوض
+export const CREDIT_NOTE_PENDING_STATUS = "بانتظار الاعتماد";
+export const CREDIT_NOTE_APPROVED_STATUS = "معتمد";
+export const CREDIT_NOTE_REJECTED_STATUS = "مرفوض";
+
+// How approved notes are labelled in the supplier statement and movement report
+export const CREDIT_NOTE_MOVEMENT_TYPE = "إشعار دائن";
+
+export type CreditNoteInput = {
+  supplierId: number;
+  shipmentId: number;
+  shipmentItemId: number | null;
+  claimId: number | null;
+  creditDate: string;
+  amountRmb: string;
+  exchangeRate: string | null;
+  amountEgp: string;
+  reason: string | null;
+};
+
+const invalidCreditNote = (field: string, message: string) =>
+  new ApiError("CREDIT_NOTE_INVALID", message, 400, { field });
+
+const toId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const toAmount = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return 0;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * Reads a new credit note. An RMB credit is converted at the rate given with
+ * it; otherwise the EGP amount is taken as agreed with the supplier.
+ */
+export function parseCreditNote(body: any): CreditNoteInput {
+  const supplierId = toId(body?.supplierId);
+  if (supplierId === null) throw invalidCreditNote("supplierId", "اختر المورد.");
+  const shipmentId = toId(body?.shipmentId);
+  if (shipmentId === null) throw invalidCreditNote("shipmentId", "اختر الشحنة.");
+
+  const creditDate = typeof body?.creditDate === "string" ? body.creditDate.trim() : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(creditDate) || Number.isNaN(new Date(creditDate).getTime())) {
+    throw invalidCreditNote("creditDate", "تاريخ الإشعار غير صحيح.");
+  }
+
+  const amountRmb = toAmount(body?.amountRmb);
+  if (amountRmb === null) throw invalidCreditNote("amountRmb", "المبلغ باليوان يجب أن يكون رقماً غير سالب.");
+
+  let amountEgp: number | null;
+  let exchangeRate: number | null = null;
+  if (amountRmb > 0) {
+    exchangeRate = toAmount(body?.exchangeRate);
+    if (!exchangeRate) throw invalidCreditNote("exchangeRate", "أدخل سعر صرف اليوان للإشعار.");
+    amountEgp = convertRmbToEgp(amountRmb, exchangeRate);
+  } else {
+    amountEgp = toAmount(body?.amountEgp);
+  }
+  if (!amountEgp) throw invalidCreditNote("amountEgp", "قيمة الإشعار يجب أن تكون أكبر من صفر.");
+
+  const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+  return {
+    supplierId,
+    shipmentId,
+    shipmentItemId: toId(body?.shipmentItemId),
+    claimId: toId(body?.claimId),
+    creditDate,
+    amountRmb: roundAmount(amountRmb).toFixed(2),
+    exchangeRate: exchangeRate ? exchangeRate.toFixed(4) : null,
+    amountEgp: amountEgp.toFixed(2),
+    reason,
+  };
+}
+
+/** Approved credit per supplier, in EGP. Pending and rejected notes count for nothing. */
+export function sumApprovedCredits(
+  notes: Pick<SupplierCreditNote, "supplierId" | "status" | "amountEgp">[],
+): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const note of notes) {
+    if (note.status !== CREDIT_NOTE_APPROVED_STATUS) continue;
+    totals.set(note.supplierId, roundAmount((totals.get(note.supplierId) ?? 0) + parseAmountOrZero(note.amountEgp)));
+  }
+  return totals;
+}
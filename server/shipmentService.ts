@@ -1,35 +1,292 @@
-import { and, desc, eq } from "drizzle-orm";
+import { count, eq } from "drizzle-orm";
 import { ZodError } from "zod";
 import {
-  exchangeRates,
   insertShipmentItemSchema,
   insertShipmentSchema,
   inventoryMovements,
+  shipmentCustomsDetails,
   shipmentItems,
   shipments,
   shipmentShippingDetails,
+  shipmentStatusHistory,
+  shipmentItemReceipts,
+  supplierClaims,
+  warehouses,
   type InsertShipmentItem,
   type Shipment,
   type ShipmentItem,
 } from "@shared/schema";
 import { db } from "./db";
+import { ApiError } from "./errors";
+import {
+  addInventoryCostLayer,
+  assertAccountingPeriodsOpen,
+  persistShipmentLandedCosts,
+  syncShipmentLedger,
+} from "./storage";
 import {
   convertRmbToEgp,
   convertUsdToRmb,
   roundAmount,
 } from "./services/currency";
+import { resolveRateValue } from "./services/exchangeRates";
+import { RECEIPT_MOVEMENT_TYPE } from "./services/inventoryStock";
+import { parseAmountOrZero } from "./services/paymentCalculations";
+import {
+  OPEN_CLAIM_STATUS,
+  draftSupplierClaims,
+  hasDiscrepancy,
+  parseReceiving,
+} from "./services/shipmentReceiving";
+import {
+  ARCHIVED_STATUS,
+  RECEIVED_STATUS,
+  assertStatusTransition,
+  findStatusBeforeArchive,
+  hasCustomsData,
+  statusPathForWizardStep,
+  type StatusGuardContext,
+} from "./services/shipmentStatus";
 
 type CreateShipmentPayload = {
   items?: unknown[];
   [key: string]: unknown;
 };
 
+export type StatusActor = {
+  userId?: string | null;
+  role?: string | null;
+};
+
+type ReceivingRequest = {
+  // Warehouse the goods are received into
+  warehouseId?: number | string | null;
+  // Quantities counted at receiving; items left out arrived in full
+  receiving?: unknown;
+};
+
 type UpdateShipmentPayload = {
   step?: number;
   shipmentData?: unknown;
   items?: unknown[];
   shippingData?: any;
-};
+} & ReceivingRequest;
+
+/**
+ * Receipts go to the chosen warehouse. Once any warehouse is active one must
+ * be chosen; before that, goods are received without a location as they
+ * always were.
+ */
+async function resolveReceivingWarehouse(executor: typeof db | any, requested: unknown): Promise<number | null> {
+  const id = parseInt(String(requested ?? ""));
+  if (Number.isInteger(id) && id > 0) {
+    const [warehouse] = await executor.select().from(warehouses).where(eq(warehouses.id, id));
+    if (!warehouse || !warehouse.isActive) {
+      throw new ApiError("WAREHOUSE_NOT_FOUND", undefined, 404, { warehouseId: requested });
+    }
+    return warehouse.id;
+  }
+
+  const [active] = await executor
+    .select({ id: warehouses.id })
+    .from(warehouses)
+    .where(eq(warehouses.isActive, true))
+    .limit(1);
+  if (active) {
+    throw new ApiError("WAREHOUSE_REQUIRED", undefined, 400, { field: "warehouseId" });
+  }
+  return null;
+}
+
+async function loadStatusGuardContext(executor: typeof db | any, shipment: Shipment): Promise<StatusGuardContext> {
+  const [[{ value: itemCount }], [shipping], [customs]] = await Promise.all([
+    executor.select({ value: count() }).from(shipmentItems).where(eq(shipmentItems.shipmentId, shipment.id)),
+    executor
+      .select({ id: shipmentShippingDetails.id })
+      .from(shipmentShippingDetails)
+      .where(eq(shipmentShippingDetails.shipmentId, shipment.id)),
+    executor
+      .select()
+      .from(shipmentCustomsDetails)
+      .where(eq(shipmentCustomsDetails.shipmentId, shipment.id)),
+  ]);
+
+  const isArchived = shipment.status === ARCHIVED_STATUS;
+  const [history, [{ value: receiptCount }]] = await Promise.all([
+    isArchived
+      ? executor.select().from(shipmentStatusHistory).where(eq(shipmentStatusHistory.shipmentId, shipment.id))
+      : [],
+    isArchived
+      ? executor.select({ value: count() }).from(shipmentItemReceipts).where(eq(shipmentItemReceipts.shipmentId, shipment.id))
+      : [{ value: 0 }],
+  ]);
+
+  return {
+    shipment,
+    itemCount: Number(itemCount),
+    hasShippingDetails: !!shipping,
+    hasCustomsDetails: hasCustomsData(customs),
+    statusBeforeArchive: findStatusBeforeArchive(history),
+    hasReceipts: Number(receiptCount) > 0,
+  };
+}
+
+/**
+ * Moves a shipment to another status inside the caller's transaction after
+ * checking the state machine, and records the change in the status history.
+ */
+async function transitionShipmentStatus(
+  tx: typeof db | any,
+  shipment: Shipment,
+  to: string,
+  actor: StatusActor,
+  overrideReason?: string | null,
+): Promise<{ shipment: Shipment; overrideReason: string | null }> {
+  const context = await loadStatusGuardContext(tx, shipment);
+  const transition = assertStatusTransition(context, { to, role: actor.role, overrideReason });
+
+  const [updated] = await tx
+    .update(shipments)
+    .set({ status: to, updatedAt: new Date() })
+    .where(eq(shipments.id, shipment.id))
+    .returning();
+
+  await tx.insert(shipmentStatusHistory).values({
+    shipmentId: shipment.id,
+    fromStatus: shipment.status,
+    toStatus: to,
+    changedByUserId: actor.userId ?? null,
+    overrideReason: transition.overrideReason,
+  });
+
+  return { shipment: updated, overrideReason: transition.overrideReason };
+}
+
+/**
+ * Books the goods of a shipment that has just been received: one receipt per
+ * item, claims against suppliers for what was short or damaged, and the stock
+ * movements and cost layers for what arrived in good condition.
+ */
+async function receiveShipmentGoods(
+  tx: typeof db | any,
+  shipment: Shipment,
+  landedCosts: Awaited<ReturnType<typeof persistShipmentLandedCosts>>,
+  { warehouseId, receiving }: ReceivingRequest,
+  actor: StatusActor,
+): Promise<void> {
+  const shipmentItemsForInventory = await tx
+    .select()
+    .from(shipmentItems)
+    .where(eq(shipmentItems.shipmentId, shipment.id))
+    .orderBy(shipmentItems.id);
+
+  const { lines, raiseClaim } = parseReceiving(receiving, shipmentItemsForInventory);
+  const receivingWarehouseId = await resolveReceivingWarehouse(tx, warehouseId);
+  // The rate stored with the shipment, else the one in effect on its purchase date; never a guess
+  const purchaseRate =
+    parseAmountOrZero(shipment.purchaseRmbToEgpRate) ||
+    (await resolveRateValue(tx, "RMB", "EGP", shipment.purchaseDate));
+  const landedCostByItem = new Map(landedCosts.map((line) => [line.shipmentItemId, line]));
+  const lineByItem = new Map(lines.map((line) => [line.shipmentItemId, line]));
+
+  const claimIdBySupplier = new Map<number, number>();
+  if (raiseClaim) {
+    for (const draft of draftSupplierClaims(lines, shipmentItemsForInventory)) {
+      const [claim] = await tx
+        .insert(supplierClaims)
+        .values({
+          supplierId: draft.supplierId,
+          shipmentId: shipment.id,
+          status: OPEN_CLAIM_STATUS,
+          pieces: draft.pieces,
+          amountRmb: draft.amountRmb.toFixed(2),
+          amountEgp: roundAmount(draft.amountRmb * purchaseRate).toFixed(2),
+          reason: "نقص أو تلف عند الاستلام",
+          createdByUserId: actor.userId ?? null,
+        })
+        .returning();
+      claimIdBySupplier.set(draft.supplierId, claim.id);
+    }
+  }
+
+  for (const item of shipmentItemsForInventory) {
+    // Unit cost comes from the stored landed-cost breakdown so inventory and pricing agree
+    const landedCost = landedCostByItem.get(item.id);
+    const itemTotalCostEgp = parseFloat(landedCost?.totalLandedCostEgp || "0");
+    const unitCostEgp = parseFloat(landedCost?.unitLandedCostEgp || "0");
+    const unitCostRmb = unitCostEgp / purchaseRate;
+    const line = lineByItem.get(item.id)!;
+
+    await tx.insert(shipmentItemReceipts).values({
+      shipmentId: shipment.id,
+      shipmentItemId: item.id,
+      supplierId: line.supplierId,
+      orderedPieces: line.orderedPieces,
+      receivedPieces: line.receivedPieces,
+      shortPieces: line.shortPieces,
+      damagedPieces: line.damagedPieces,
+      unitPriceRmb: item.purchasePricePerPiecePriRmb || "0",
+      unitCostEgp: unitCostEgp.toFixed(4),
+      notes: line.notes,
+      claimId: line.supplierId && hasDiscrepancy(line) ? claimIdBySupplier.get(line.supplierId) ?? null : null,
+      receivedByUserId: actor.userId ?? null,
+    });
+
+    // Only what arrived in good condition enters stock, at the item's unit landed cost
+    if (line.receivedPieces === 0) continue;
+    const receivedCostEgp =
+      line.receivedPieces === line.orderedPieces ? itemTotalCostEgp : unitCostEgp * line.receivedPieces;
+
+    const [movement] = await tx.insert(inventoryMovements).values({
+      shipmentId: shipment.id,
+      shipmentItemId: item.id,
+      productId: item.productId,
+      warehouseId: receivingWarehouseId,
+      movementType: RECEIPT_MOVEMENT_TYPE,
+      totalPiecesIn: line.receivedPieces,
+      unitCostRmb: unitCostRmb.toFixed(4),
+      unitCostEgp: unitCostEgp.toFixed(4),
+      totalCostEgp: receivedCostEgp.toFixed(2),
+      movementDate: new Date().toISOString().split("T")[0],
+      createdByUserId: actor.userId ?? null,
+    }).returning();
+    await addInventoryCostLayer(movement, tx);
+  }
+}
+
+export async function changeShipmentStatus(
+  shipmentId: number,
+  request: { status: string; overrideReason?: string | null } & ReceivingRequest,
+  actor: StatusActor,
+): Promise<{ shipment: Shipment; previousStatus: string; overrideReason: string | null }> {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(shipments)
+      .where(eq(shipments.id, shipmentId))
+      .for("update");
+
+    if (!existing) {
+      throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId });
+    }
+
+    const { shipment, overrideReason } = await transitionShipmentStatus(
+      tx,
+      existing,
+      request.status,
+      actor,
+      request.overrideReason,
+    );
+
+    // Receiving posts stock and claims whichever path confirms it; restoring from the archive does not receive again
+    if (shipment.status === RECEIVED_STATUS && existing.status !== ARCHIVED_STATUS) {
+      const landedCosts = await persistShipmentLandedCosts(shipmentId, tx);
+      await receiveShipmentGoods(tx, shipment, landedCosts, request, actor);
+    }
+
+    return { shipment, previousStatus: existing.status, overrideReason };
+  });
+}
 
 function calculateItemTotals(items: ShipmentItem[]) {
   const purchaseCostRmb = items.reduce(
@@ -65,8 +322,10 @@ export async function createShipmentWithItems(
   const { items = [], ...shipmentData } = payload || {};
 
   try {
+    // New shipments always start at the first stage; later stages are reached through transitions
     const validatedShipment = insertShipmentSchema.parse({
       ...shipmentData,
+      status: "جديدة",
       createdByUserId: userId,
     });
 
@@ -79,6 +338,9 @@ export async function createShipmentWithItems(
     );
 
     const shipment = await db.transaction(async (tx) => {
+      // Costs are booked on the purchase date, which may not fall in a closed month
+      await assertAccountingPeriodsOpen([validatedShipment.purchaseDate], tx);
+
       const [createdShipment] = await tx
         .insert(shipments)
         .values(validatedShipment)
@@ -109,24 +371,13 @@ export async function createShipmentWithItems(
 
       const totals = calculateItemTotals(insertedItems);
 
-      const [latestRmbRate] = await tx
-        .select()
-        .from(exchangeRates)
-        .where(
-          and(eq(exchangeRates.fromCurrency, "RMB"), eq(exchangeRates.toCurrency, "EGP"))
-        )
-        .orderBy(desc(exchangeRates.rateDate))
-        .limit(1);
-
-    const purchaseRate = purchaseRateFromPayload
-      ? purchaseRateFromPayload
-      : latestRmbRate
-        ? parseFloat(latestRmbRate.rateValue)
-        : 7.15;
-    const purchaseCostEgp = convertRmbToEgp(totals.purchaseCostRmb, purchaseRate);
-    const finalTotalCostEgp = roundAmount(
-      purchaseCostEgp + totals.customsCostEgp + totals.takhreegCostEgp,
-    );
+      const purchaseRate =
+        purchaseRateFromPayload ||
+        (await resolveRateValue(tx, "RMB", "EGP", createdShipment.purchaseDate));
+      const purchaseCostEgp = convertRmbToEgp(totals.purchaseCostRmb, purchaseRate);
+      const finalTotalCostEgp = roundAmount(
+        purchaseCostEgp + totals.customsCostEgp + totals.takhreegCostEgp,
+      );
 
       const [updatedShipment] = await tx
         .update(shipments)
@@ -143,11 +394,24 @@ export async function createShipmentWithItems(
         .where(eq(shipments.id, createdShipment.id))
         .returning();
 
-      return updatedShipment;
+      await persistShipmentLandedCosts(createdShipment.id, tx);
+      const ledgerShipment = await syncShipmentLedger(createdShipment.id, tx, userId);
+
+      await tx.insert(shipmentStatusHistory).values({
+        shipmentId: createdShipment.id,
+        fromStatus: null,
+        toStatus: createdShipment.status,
+        changedByUserId: userId ?? null,
+      });
+
+      return ledgerShipment ?? updatedShipment;
     });
 
     return shipment;
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
     if (error instanceof ZodError) {
       throw new Error("بيانات الشحنة أو البنود غير صالحة");
     }
@@ -157,14 +421,17 @@ export async function createShipmentWithItems(
 
 export async function updateShipmentWithItems(
   shipmentId: number,
-  payload: UpdateShipmentPayload
+  payload: UpdateShipmentPayload,
+  actor: StatusActor = {},
 ): Promise<Shipment> {
-  const { step, shipmentData, items, shippingData } = payload || {};
+  const { step, shipmentData, items, shippingData, warehouseId, receiving } = payload || {};
 
   try {
-    const validatedShipmentData = shipmentData
+    const parsedShipmentData = shipmentData
       ? insertShipmentSchema.partial().parse(shipmentData)
       : undefined;
+    // Status is never written as a plain field; it only changes through the state machine below
+    const { status: requestedStatus, ...validatedShipmentData } = parsedShipmentData ?? {};
 
     const parsedItems = items && Array.isArray(items)
       ? (items as unknown[]).map((item) =>
@@ -182,13 +449,28 @@ export async function updateShipmentWithItems(
         throw new Error("الشحنة غير موجودة");
       }
 
+      // Costs are booked on the purchase date, so neither the old nor the new one may sit in a closed month
+      if (Object.keys(validatedShipmentData).length > 0 || parsedItems || shippingData) {
+        await assertAccountingPeriodsOpen([existingShipment.purchaseDate, validatedShipmentData.purchaseDate], tx);
+      }
+
       let currentShipment = existingShipment;
 
-      const purchaseRate = validatedShipmentData?.purchaseRmbToEgpRate
-        ? parseFloat(validatedShipmentData.purchaseRmbToEgpRate)
-        : parseFloat(existingShipment.purchaseRmbToEgpRate || "0") || 7.15;
+      // An explicit rate wins; otherwise keep the stored rate unless the purchase date moved
+      const resolvePurchaseRate = async (): Promise<number> => {
+        const explicitRate = parseFloat(validatedShipmentData.purchaseRmbToEgpRate || "0");
+        if (explicitRate > 0) return explicitRate;
+
+        const storedRate = parseFloat(existingShipment.purchaseRmbToEgpRate || "0");
+        const purchaseDateChanged =
+          !!validatedShipmentData.purchaseDate &&
+          validatedShipmentData.purchaseDate !== existingShipment.purchaseDate;
+        if (storedRate > 0 && !purchaseDateChanged) return storedRate;
+
+        return resolveRateValue(tx, "RMB", "EGP", currentShipment.purchaseDate);
+      };
 
-      if (validatedShipmentData) {
+      if (Object.keys(validatedShipmentData).length > 0) {
         const [updated] = await tx
           .update(shipments)
           .set({ ...validatedShipmentData, updatedAt: new Date() })
@@ -226,6 +508,7 @@ export async function updateShipmentWithItems(
         }
 
         const totals = calculateItemTotals(insertedItems);
+        const purchaseRate = await resolvePurchaseRate();
 
         const [updatedAfterItems] = await tx
           .update(shipments)
@@ -255,13 +538,14 @@ export async function updateShipmentWithItems(
       }
 
       if (shippingData) {
-        const rmbToEgpRaw =
+        // Rates left blank are taken from the rates in effect on the shipping date
+        const ratesDate = shippingData.shippingDate || currentShipment.purchaseDate;
+        const rmbToEgp =
           parseFloat(shippingData.rmbToEgpRate || "0") ||
-          parseFloat(currentShipment.purchaseRmbToEgpRate || "0") ||
-          1;
-        const usdToRmbRaw = parseFloat(shippingData.usdToRmbRate || "0") || 1;
-        const rmbToEgp = rmbToEgpRaw > 0 ? rmbToEgpRaw : 1;
-        const usdToRmb = usdToRmbRaw > 0 ? usdToRmbRaw : 1;
+          (await resolveRateValue(tx, "RMB", "EGP", ratesDate));
+        const usdToRmb =
+          parseFloat(shippingData.usdToRmbRate || "0") ||
+          (await resolveRateValue(tx, "USD", "RMB", ratesDate));
 
         const totalPurchaseCostRmb = parseFloat(currentShipment.purchaseCostRmb || "0");
         const commissionRmb =
@@ -292,8 +576,8 @@ export async function updateShipmentWithItems(
             totalShippingCostRmb: shippingCostRmb.toFixed(2),
             totalShippingCostEgp: shippingCostEgp.toFixed(2),
             shippingDate: parsedShippingDate,
-            rmbToEgpRateAtShipping: shippingData.rmbToEgpRate,
-            usdToRmbRateAtShipping: shippingData.usdToRmbRate,
+            rmbToEgpRateAtShipping: String(rmbToEgp),
+            usdToRmbRateAtShipping: String(usdToRmb),
             sourceOfRates: shippingData.sourceOfRates,
             ratesUpdatedAt: parsedRatesUpdatedAt,
           })
@@ -310,8 +594,8 @@ export async function updateShipmentWithItems(
               totalShippingCostRmb: shippingCostRmb.toFixed(2),
               totalShippingCostEgp: shippingCostEgp.toFixed(2),
               shippingDate: parsedShippingDate,
-              rmbToEgpRateAtShipping: shippingData.rmbToEgpRate,
-              usdToRmbRateAtShipping: shippingData.usdToRmbRate,
+              rmbToEgpRateAtShipping: String(rmbToEgp),
+              usdToRmbRateAtShipping: String(usdToRmb),
               sourceOfRates: shippingData.sourceOfRates,
               ratesUpdatedAt: parsedRatesUpdatedAt,
               updatedAt: new Date(),
@@ -322,7 +606,7 @@ export async function updateShipmentWithItems(
         const [updatedAfterShipping] = await tx
           .update(shipments)
           .set({
-            purchaseCostEgp: convertRmbToEgp(totalPurchaseCostRmb, purchaseRate).toFixed(2),
+            purchaseCostEgp: convertRmbToEgp(totalPurchaseCostRmb, await resolvePurchaseRate()).toFixed(2),
             commissionCostRmb: commissionRmb.toFixed(2),
             commissionCostEgp: commissionEgp.toFixed(2),
             shippingCostRmb: shippingCostRmb.toFixed(2),
@@ -357,72 +641,63 @@ export async function updateShipmentWithItems(
       const totalPaidEgp = parseFloat(shipmentForTotals.totalPaidEgp || "0");
       const balanceEgp = roundAmount(Math.max(0, finalTotalCostEgp - totalPaidEgp));
 
-      let newStatus = shipmentForTotals.status;
-      const previousStatus = shipmentForTotals.status;
-      if (step === 1) {
-        newStatus = "في انتظار الشحن";
-      } else if (step === 2 && shippingData) {
-        newStatus = "في انتظار الشحن";
-      } else if (step === 3) {
-        newStatus = "جاهزة للاستلام";
-      } else if (step === 4) {
-        newStatus = "مستلمة بنجاح";
+      // The customs step records the customs totals that receiving the shipment depends on
+      if (step !== undefined && step >= 3) {
+        const customsValues = {
+          totalCustomsCostEgp: customsCostEgp.toFixed(2),
+          totalTakhreegCostEgp: takhreegCostEgp.toFixed(2),
+          customsInvoiceDate: shipmentForTotals.invoiceCustomsDate,
+        };
+        // A step saved with no customs data yet leaves no row behind for the receiving guard to find
+        if (hasCustomsData(customsValues)) {
+          await tx
+            .insert(shipmentCustomsDetails)
+            .values({ shipmentId, ...customsValues })
+            .onConflictDoUpdate({
+              target: shipmentCustomsDetails.shipmentId,
+              set: { ...customsValues, updatedAt: new Date() },
+            });
+        } else {
+          await tx.delete(shipmentCustomsDetails).where(eq(shipmentCustomsDetails.shipmentId, shipmentId));
+        }
       }
 
       const [finalShipment] = await tx
         .update(shipments)
-          .set({
-            finalTotalCostEgp: finalTotalCostEgp.toFixed(2),
-            balanceEgp: balanceEgp.toFixed(2),
-          status: newStatus,
+        .set({
+          finalTotalCostEgp: finalTotalCostEgp.toFixed(2),
+          balanceEgp: balanceEgp.toFixed(2),
           updatedAt: new Date(),
         })
         .where(eq(shipments.id, shipmentId))
         .returning();
 
-      if (step === 4 && newStatus === "مستلمة بنجاح" && previousStatus !== "مستلمة بنجاح") {
-        const shipmentItemsForInventory = await tx
-          .select()
-          .from(shipmentItems)
-          .where(eq(shipmentItems.shipmentId, shipmentId));
-
-        const purchaseRate = parseFloat(shipmentForTotals.purchaseRmbToEgpRate || "7");
-        const totalCustomsCost = parseFloat(shipmentForTotals.customsCostEgp || "0");
-        const totalTakhreegCost = parseFloat(shipmentForTotals.takhreegCostEgp || "0");
-        const totalShippingCost = parseFloat(shipmentForTotals.shippingCostEgp || "0");
-        const totalCommissionCost = parseFloat(shipmentForTotals.commissionCostEgp || "0");
-        const totalPurchaseCost = parseFloat(shipmentForTotals.purchaseCostEgp || "0");
-
-        const totalPieces = shipmentItemsForInventory.reduce((sum, item) => sum + (item.totalPiecesCou || 0), 0);
-
-        for (const item of shipmentItemsForInventory) {
-          const itemPurchaseCostEgp = parseFloat(item.totalPurchaseCostRmb || "0") * purchaseRate;
-          
-          const pieceRatio = totalPieces > 0 ? (item.totalPiecesCou || 0) / totalPieces : 0;
-          const itemShareOfExtras = pieceRatio * (totalCustomsCost + totalTakhreegCost + totalShippingCost + totalCommissionCost);
-          
-          const itemTotalCostEgp = itemPurchaseCostEgp + itemShareOfExtras;
-          const unitCostEgp = (item.totalPiecesCou || 0) > 0 ? itemTotalCostEgp / (item.totalPiecesCou || 1) : 0;
-          const unitCostRmb = purchaseRate > 0 ? unitCostEgp / purchaseRate : 0;
-
-          await tx.insert(inventoryMovements).values({
-            shipmentId,
-            shipmentItemId: item.id,
-            productId: item.productId,
-            totalPiecesIn: item.totalPiecesCou || 0,
-            unitCostRmb: unitCostRmb.toFixed(4),
-            unitCostEgp: unitCostEgp.toFixed(4),
-            totalCostEgp: itemTotalCostEgp.toFixed(2),
-            movementDate: new Date().toISOString().split("T")[0],
-          });
-        }
+      const landedCosts = await persistShipmentLandedCosts(shipmentId, tx);
+      // Status guards below read the balance, so it is settled from the ledger first
+      const ledgerShipment = await syncShipmentLedger(shipmentId, tx, actor.userId);
+
+      let resultShipment: Shipment = ledgerShipment || finalShipment || shipmentForTotals;
+      const statusPath: string[] = statusPathForWizardStep(resultShipment.status, step);
+      // Outside the wizard, a status sent with the shipment data is a requested transition
+      if (!step && requestedStatus && requestedStatus !== resultShipment.status) {
+        statusPath.push(requestedStatus);
+      }
+      for (const status of statusPath) {
+        ({ shipment: resultShipment } = await transitionShipmentStatus(tx, resultShipment, status, actor));
+      }
+
+      if (statusPath.includes(RECEIVED_STATUS)) {
+        await receiveShipmentGoods(tx, shipmentForTotals, landedCosts, { warehouseId, receiving }, actor);
       }
 
-      return finalShipment || shipmentForTotals;
+      return resultShipment;
     });
 
     return shipment;
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
     if (error instanceof ZodError) {
       throw new Error("بيانات الشحنة أو البنود غير صالحة");
     }
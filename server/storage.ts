@@ -1,4 +1,4 @@
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { eq, desc, asc, and, or, sql, inArray, gte, lte, ilike, exists, notExists, isNull, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
@@ -13,6 +13,24 @@ import {
   shipmentPayments,
   inventoryMovements,
   auditLogs,
+  shipmentItemLandedCosts,
+  shipmentStatusHistory,
+  inventoryCostLayers,
+  inventoryLayerConsumptions,
+  appSettings,
+  warehouses,
+  inventoryTransfers,
+  shipmentItemReceipts,
+  supplierClaims,
+  supplierCreditNotes,
+  shipmentLedgerEntries,
+  paymentAttachments,
+  paymentRemittances,
+  supplierAdvances,
+  paymentAccounts,
+  paymentAccountTransfers,
+  accountMappings,
+  accountingPeriods,
   type User,
   type UpsertUser,
   type Supplier,
@@ -25,6 +43,8 @@ import {
   type InsertShipment,
   type ShipmentItem,
   type InsertShipmentItem,
+  type ShipmentItemLandedCost,
+  type ShipmentStatusHistory,
   type ShipmentShippingDetails,
   type InsertShipmentShippingDetails,
   type ShipmentCustomsDetails,
@@ -33,19 +53,129 @@ import {
   type InsertExchangeRate,
   type ShipmentPayment,
   type InsertShipmentPayment,
+  type ShipmentLedgerEntry,
+  type PaymentAttachment,
+  type InsertPaymentAttachment,
+  type PaymentRemittance,
+  type SupplierAdvance,
+  type PaymentAccount,
+  type PaymentAccountTransfer,
+  type AccountMapping,
+  type AccountingPeriod,
   type InventoryMovement,
   type InsertInventoryMovement,
+  type InventoryCostLayer,
+  type Warehouse,
+  type InsertWarehouse,
+  type InventoryTransfer,
+  type ShipmentItemReceipt,
+  type SupplierClaim,
+  type SupplierCreditNote,
   type AuditLog,
   type InsertAuditLog,
 } from "@shared/schema";
 import { normalizePaymentAmounts, roundAmount } from "./services/currency";
 import {
+  calculateComponentAllowance,
   calculatePaymentSnapshot,
+  componentCostsEgp,
   parseAmountOrZero,
+  type ComponentAllowance,
 } from "./services/paymentCalculations";
+import { calculateLandedCosts } from "./services/landedCost";
+import {
+  allocatePaymentToSuppliers,
+  allocationsFromLandedCostSums,
+  type SupplierCostAllocation,
+} from "./services/supplierAllocation";
+import {
+  allocateRemittance,
+  type RemittanceCandidate,
+  type RemittanceInput,
+  type RemittanceShare,
+} from "./services/paymentRemittance";
+import {
+  ADVANCE_MOVEMENT_TYPE,
+  assertApplicationFits,
+  summarizeAdvance,
+  type AdvanceApplicationInput,
+  type AdvanceBalance,
+  type SupplierAdvanceInput,
+} from "./services/supplierAdvances";
+import {
+  amountInAccountCurrency,
+  assertAccountAcceptsPayment,
+  buildAccountStatement,
+  reconcileAccount,
+  resolveTransferAmountFrom,
+  type AccountMovement,
+  type AccountReconciliation,
+  type AccountStatement,
+  type AccountTransferInput,
+  type PaymentAccountInput,
+  type PaymentAccountUpdate,
+} from "./services/paymentAccounts";
 import { ApiError } from "./errors";
-
-const RMB_TO_EGP_FALLBACK_RATE = 7.15;
+import { findRateForDate, resolveRateValue, type RateLookupOptions } from "./services/exchangeRates";
+import { buildFxGainLossReport, type FxGainLossReport } from "./services/fxGainLoss";
+import {
+  CREDIT_NOTE_APPROVED_STATUS,
+  CREDIT_NOTE_MOVEMENT_TYPE,
+  CREDIT_NOTE_PENDING_STATUS,
+  CREDIT_NOTE_REJECTED_STATUS,
+  sumApprovedCredits,
+  type CreditNoteInput,
+} from "./services/supplierCredits";
+import {
+  TRANSFER_IN_MOVEMENT_TYPE,
+  TRANSFER_IN_TRANSIT_STATUS,
+  TRANSFER_OUT_MOVEMENT_TYPE,
+  TRANSFER_RECEIVED_STATUS,
+  calculateStockOnHand,
+  calculateWarehouseStock,
+  isOutboundMovementType,
+  isTransferMovementType,
+  stockKeyFor,
+  type OutboundMovementInput,
+  type StockLine,
+  type TransferInput,
+} from "./services/inventoryStock";
+import { SETTLED_CLAIM_STATUS, buildDiscrepancyReport, type DiscrepancyReport } from "./services/shipmentReceiving";
+import {
+  containsPattern,
+  toPage,
+  type InventorySortField,
+  type ListQuery,
+  type Paginated,
+  type PaymentSortField,
+  type ShipmentSortField,
+} from "./services/listQuery";
+import type { PaymentWithShipment } from "./payments";
+import { ARCHIVED_STATUS } from "./services/shipmentStatus";
+import {
+  LEDGER_COST_ENTRY,
+  costAdjustmentEntries,
+  openingLedgerEntries,
+  paymentEntry,
+  summarizeLedger,
+  type LedgerTotals,
+} from "./services/shipmentLedger";
+import type { AccountMappingInput } from "./services/journalExport";
+import {
+  PERIOD_CLOSED_STATUS,
+  PERIOD_OPEN_STATUS,
+  assertPeriodsOpen,
+  periodMonthOf,
+} from "./services/accountingPeriods";
+import {
+  DEFAULT_INVENTORY_COSTING_METHOD,
+  INVENTORY_COSTING_SETTING_KEY,
+  consumeCostLayers,
+  isInventoryCostingMethod,
+  reconcileLayerQuantities,
+  valueCostLayers,
+  type InventoryCostingMethod,
+} from "./services/inventoryCosting";
 
 const parseAmount = (value: unknown): number => {
   if (value === null || value === undefined) return 0;
@@ -64,7 +194,7 @@ const computeKnownTotal = (shipment: Shipment): number => {
 };
 
 async function recoverKnownTotalFromItems(
-  shipmentId: number,
+  shipment: Pick<Shipment, "id" | "purchaseDate">,
   executor: typeof db | any,
 ): Promise<{
   recoveredTotal: number;
@@ -76,7 +206,7 @@ async function recoverKnownTotalFromItems(
   const itemsList = await executor
     .select()
     .from(shipmentItems)
-    .where(eq(shipmentItems.shipmentId, shipmentId));
+    .where(eq(shipmentItems.shipmentId, shipment.id));
 
   if (itemsList.length === 0) {
     return {
@@ -101,17 +231,7 @@ async function recoverKnownTotalFromItems(
     return sum + (item.cartonsCtn || 0) * parseAmount(item.takhreegCostPerCartonEgp);
   }, 0);
 
-  const rateResult = await executor
-    .select()
-    .from(exchangeRates)
-    .where(
-      and(eq(exchangeRates.fromCurrency, "RMB"), eq(exchangeRates.toCurrency, "EGP")),
-    )
-    .orderBy(desc(exchangeRates.rateDate))
-    .limit(1);
-
-  const rmbToEgpRate =
-    rateResult.length > 0 ? parseAmount(rateResult[0].rateValue) : RMB_TO_EGP_FALLBACK_RATE;
+  const rmbToEgpRate = await resolveRateValue(executor, "RMB", "EGP", shipment.purchaseDate);
   const purchaseCostEgp = totalPurchaseCostRmb * rmbToEgpRate;
   const recoveredTotal = purchaseCostEgp + totalCustomsCostEgp + totalTakhreegCostEgp;
 
@@ -123,12 +243,667 @@ async function recoverKnownTotalFromItems(
     takhreegCostEgp: totalTakhreegCostEgp,
   };
 }
+/**
+ * Rebuilds the stored per-item landed cost breakdown for a shipment.
+ * Accepts a transaction so callers that change items or costs can refresh it atomically.
+ */
+export async function persistShipmentLandedCosts(
+  shipmentId: number,
+  executor: typeof db | any = db,
+): Promise<ShipmentItemLandedCost[]> {
+  const [shipment] = await executor.select().from(shipments).where(eq(shipments.id, shipmentId));
+  if (!shipment) return [];
+
+  const itemsList: ShipmentItem[] = await executor
+    .select()
+    .from(shipmentItems)
+    .where(eq(shipmentItems.shipmentId, shipmentId));
+
+  await executor
+    .delete(shipmentItemLandedCosts)
+    .where(eq(shipmentItemLandedCosts.shipmentId, shipmentId));
+
+  const lines = calculateLandedCosts(shipment, itemsList);
+  if (lines.length === 0) return [];
+
+  return executor
+    .insert(shipmentItemLandedCosts)
+    .values(
+      lines.map((line) => ({
+        shipmentId,
+        shipmentItemId: line.shipmentItemId,
+        allocationBasis: shipment.costAllocationBasis,
+        pieces: line.pieces,
+        purchaseCostEgp: line.purchaseCostEgp.toFixed(2),
+        commissionShareEgp: line.commissionShareEgp.toFixed(2),
+        shippingShareEgp: line.shippingShareEgp.toFixed(2),
+        customsShareEgp: line.customsShareEgp.toFixed(2),
+        takhreegShareEgp: line.takhreegShareEgp.toFixed(2),
+        totalLandedCostEgp: line.totalLandedCostEgp.toFixed(2),
+        unitLandedCostEgp: line.unitLandedCostEgp.toFixed(4),
+      })),
+    )
+    .returning();
+}
+
+/**
+ * Posts whatever the shipment's ledger is missing — payments not yet journaled and the
+ * difference between its current costs and what is booked — then rewrites the cached
+ * totals from the ledger. Runs inside the caller's transaction; safe to call repeatedly.
+ */
+export async function syncShipmentLedger(
+  shipmentId: number,
+  executor: typeof db | any = db,
+  userId?: string | null,
+): Promise<Shipment | undefined> {
+  const [shipment]: Shipment[] = await executor
+    .select()
+    .from(shipments)
+    .where(eq(shipments.id, shipmentId))
+    .for("update");
+  if (!shipment) return undefined;
+
+  const [booked, payments]: [ShipmentLedgerEntry[], ShipmentPayment[]] = await Promise.all([
+    executor.select().from(shipmentLedgerEntries).where(eq(shipmentLedgerEntries.shipmentId, shipmentId)),
+    executor.select().from(shipmentPayments).where(eq(shipmentPayments.shipmentId, shipmentId)),
+  ]);
+
+  const journaledPaymentIds = new Set(booked.map((line) => line.paymentId).filter((id) => id !== null));
+  const newEntries = [
+    ...payments.filter((payment) => !journaledPaymentIds.has(payment.id)).map((payment) => paymentEntry(payment, userId)),
+    ...costAdjustmentEntries(shipment, booked, userId),
+  ];
+  if (newEntries.length > 0) {
+    await executor.insert(shipmentLedgerEntries).values(newEntries);
+  }
+
+  const totals = summarizeLedger([
+    ...booked,
+    ...newEntries.map((entry) => ({
+      entryType: entry.entryType,
+      account: entry.account,
+      debitEgp: entry.debitEgp ?? "0",
+      creditEgp: entry.creditEgp ?? "0",
+    })),
+  ]);
+
+  const [updated] = await executor
+    .update(shipments)
+    .set({
+      finalTotalCostEgp: totals.costEgp.toFixed(2),
+      totalPaidEgp: totals.paidEgp.toFixed(2),
+      balanceEgp: totals.balanceEgp.toFixed(2),
+    })
+    .where(eq(shipments.id, shipmentId))
+    .returning();
+  return updated;
+}
+
+/** Throws PERIOD_LOCKED when any of the dates falls in a closed month. */
+export async function assertAccountingPeriodsOpen(
+  dates: Array<Date | string | null | undefined>,
+  executor: typeof db | any = db,
+): Promise<void> {
+  const months = Array.from(new Set(dates.map(periodMonthOf).filter((month): month is string => month !== null)));
+  if (months.length === 0) return;
+
+  const closed: Array<{ periodMonth: string }> = await executor
+    .select({ periodMonth: accountingPeriods.periodMonth })
+    .from(accountingPeriods)
+    .where(and(inArray(accountingPeriods.periodMonth, months), eq(accountingPeriods.status, PERIOD_CLOSED_STATUS)));
+  assertPeriodsOpen(dates, closed.map((period) => period.periodMonth));
+}
+
+/**
+ * Loads the account money is being paid from and checks it can fund a payment in
+ * that currency. Payments and advances take their method label from the account.
+ */
+export async function resolvePaymentAccount(
+  executor: typeof db | any,
+  paymentAccountId: number,
+  paymentCurrency: string,
+): Promise<PaymentAccount> {
+  const [account]: PaymentAccount[] = await executor
+    .select()
+    .from(paymentAccounts)
+    .where(eq(paymentAccounts.id, paymentAccountId));
+  if (!account) {
+    throw new ApiError("PAYMENT_ACCOUNT_NOT_FOUND", undefined, 404, { paymentAccountId });
+  }
+  assertAccountAcceptsPayment(account, paymentCurrency);
+  return account;
+}
+
+/**
+ * Records one payment against a shipment inside the caller's transaction: locks the
+ * shipment, checks it against what may still be paid, inserts the row and refreshes
+ * the cached totals and ledger. Batch remittances call it once per shipment.
+ */
+export async function insertShipmentPayment(
+  tx: typeof db | any,
+  data: InsertShipmentPayment,
+  options?: PaymentInsertOptions,
+): Promise<RecordedPayment> {
+  const lockedShipment = await tx.execute(sql<Shipment>`SELECT * FROM shipments WHERE id = ${data.shipmentId} FOR UPDATE`);
+  const rawRow = lockedShipment.rows?.[0] as Record<string, unknown> | undefined;
+
+  if (!rawRow) {
+    throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: data.shipmentId });
+  }
+
+  // Convert snake_case raw SQL result to camelCase Shipment type
+  const shipment: Shipment = {
+    id: rawRow.id as number,
+    shipmentCode: rawRow.shipment_code as string,
+    shipmentName: rawRow.shipment_name as string,
+    purchaseDate: rawRow.purchase_date as string,
+    status: rawRow.status as string,
+    invoiceCustomsDate: rawRow.invoice_customs_date as string | null,
+    createdByUserId: rawRow.created_by_user_id as string | null,
+    purchaseCostRmb: rawRow.purchase_cost_rmb as string | null,
+    purchaseCostEgp: rawRow.purchase_cost_egp as string | null,
+    purchaseRmbToEgpRate: rawRow.purchase_rmb_to_egp_rate as string | null,
+    commissionCostRmb: rawRow.commission_cost_rmb as string | null,
+    commissionCostEgp: rawRow.commission_cost_egp as string | null,
+    shippingCostRmb: rawRow.shipping_cost_rmb as string | null,
+    shippingCostEgp: rawRow.shipping_cost_egp as string | null,
+    customsCostEgp: rawRow.customs_cost_egp as string | null,
+    takhreegCostEgp: rawRow.takhreeg_cost_egp as string | null,
+    finalTotalCostEgp: rawRow.final_total_cost_egp as string | null,
+    totalPaidEgp: rawRow.total_paid_egp as string | null,
+    balanceEgp: rawRow.balance_egp as string | null,
+    partialDiscountRmb: rawRow.partial_discount_rmb as string | null,
+    discountNotes: rawRow.discount_notes as string | null,
+    costAllocationBasis: rawRow.cost_allocation_basis as string,
+    lastPaymentDate: rawRow.last_payment_date as Date | null,
+    createdAt: rawRow.created_at as Date | null,
+    updatedAt: rawRow.updated_at as Date | null,
+  };
+
+  if (shipment.status === "مؤرشفة") {
+    throw new ApiError("SHIPMENT_LOCKED", undefined, 409, { shipmentId: data.shipmentId, status: shipment.status });
+  }
+
+  await assertAccountingPeriodsOpen([data.paymentDate], tx);
+
+  const paymentAccount = data.paymentAccountId
+    ? await resolvePaymentAccount(tx, data.paymentAccountId, data.paymentCurrency)
+    : null;
+
+  if (data.supplierId) {
+    const [supplierItem] = await tx
+      .select({ id: shipmentItems.id })
+      .from(shipmentItems)
+      .where(
+        and(
+          eq(shipmentItems.shipmentId, data.shipmentId),
+          eq(shipmentItems.supplierId, data.supplierId),
+        ),
+      )
+      .limit(1);
+
+    if (!supplierItem) {
+      throw new ApiError("PAYMENT_SUPPLIER_INVALID", undefined, 400, {
+        shipmentId: data.shipmentId,
+        supplierId: data.supplierId,
+      });
+    }
+  }
+
+  const parseAmount = (value: unknown): number => {
+    if (value === null || value === undefined) return 0;
+    const parsed = typeof value === "number" ? value : parseFloat(value as any);
+    return Number.isFinite(parsed) ? parsed : 0;
+  };
+
+  // Compute the "known total" - sum of cost components that are available/entered
+  // Uses RMB values (with stored rate) when EGP amounts are missing to avoid losing information
+  const computeKnownTotals = (s: Shipment) => {
+    const purchaseRate = parseAmount(s.purchaseRmbToEgpRate);
+
+    const purchaseFromRmb = purchaseRate > 0 ? parseAmount(s.purchaseCostRmb) * purchaseRate : 0;
+    const purchase = parseAmount(s.purchaseCostEgp) || purchaseFromRmb;
+
+    const commissionFromRmb = purchaseRate > 0 ? parseAmount(s.commissionCostRmb) * purchaseRate : 0;
+    const commission = parseAmount(s.commissionCostEgp) || commissionFromRmb;
+
+    const shippingFromRmb = purchaseRate > 0 ? parseAmount(s.shippingCostRmb) * purchaseRate : 0;
+    const shipping = parseAmount(s.shippingCostEgp) || shippingFromRmb;
+
+    const customs = parseAmount(s.customsCostEgp);
+    const takhreeg = parseAmount(s.takhreegCostEgp);
+
+    const componentTotal = purchase + commission + shipping + customs + takhreeg;
+    const existingFinal = parseAmount(s.finalTotalCostEgp);
+    const bestKnownTotal = Math.max(componentTotal, existingFinal);
+
+    return {
+      bestKnownTotal,
+      componentTotal,
+      normalizedComponents: {
+        purchaseCostEgp: purchase,
+        commissionCostEgp: commission,
+        shippingCostEgp: shipping,
+        customsCostEgp: customs,
+        takhreegCostEgp: takhreeg,
+      },
+    };
+  };
+
+  const amountOriginal = parseAmountOrZero(data.amountOriginal as any);
+  let exchangeRate = data.exchangeRateToEgp
+    ? parseAmountOrZero(data.exchangeRateToEgp as any)
+    : null;
+
+  // Without an explicit rate, only the rate in effect on the payment date will do
+  if (data.paymentCurrency === "RMB" && !exchangeRate) {
+    const rate = await findRateForDate(tx, "RMB", "EGP", data.paymentDate);
+
+    if (rate?.rateValue && parseAmount(rate.rateValue) > 0) {
+      exchangeRate = parseAmount(rate.rateValue);
+    } else {
+      throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, {
+        shipmentId: data.shipmentId,
+        currency: data.paymentCurrency,
+        paymentDate: data.paymentDate,
+      });
+    }
+  }
+
+  let normalizedAmounts;
+  try {
+    normalizedAmounts = normalizePaymentAmounts({
+      paymentCurrency: data.paymentCurrency,
+      amountOriginal,
+      exchangeRateToEgp: exchangeRate,
+    });
+  } catch (error) {
+    const message = (error as Error)?.message || "";
+
+    if (message.includes("سعر الصرف")) {
+      throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, {
+        shipmentId: data.shipmentId,
+        currency: data.paymentCurrency,
+      });
+    }
+
+    if (message.includes("عملة الدفع")) {
+      throw new ApiError("PAYMENT_CURRENCY_UNSUPPORTED", undefined, 400, {
+        currency: data.paymentCurrency,
+      });
+    }
+
+    throw new ApiError("PAYMENT_PAYLOAD_INVALID", message, 400);
+  }
+
+  const { amountEgp, exchangeRateToEgp } = normalizedAmounts;
+
+  const currentPaid = parseAmount(shipment.totalPaidEgp);
+  const { bestKnownTotal, normalizedComponents: computedComponents } = computeKnownTotals(shipment);
+  let normalizedComponents = { ...computedComponents };
+  let knownTotal = bestKnownTotal;
+
+  const canonicalUpdates: Partial<typeof shipments.$inferInsert> = {};
+
+  // Backfill EGP fields when only RMB values are present so future totals stay consistent
+  if (normalizedComponents.purchaseCostEgp > 0 && parseAmount(shipment.purchaseCostEgp) === 0) {
+    canonicalUpdates.purchaseCostEgp = roundAmount(normalizedComponents.purchaseCostEgp, 2).toFixed(2);
+  }
+
+  if (normalizedComponents.commissionCostEgp > 0 && parseAmount(shipment.commissionCostEgp) === 0) {
+    canonicalUpdates.commissionCostEgp = roundAmount(normalizedComponents.commissionCostEgp, 2).toFixed(2);
+  }
+
+  if (normalizedComponents.shippingCostEgp > 0 && parseAmount(shipment.shippingCostEgp) === 0) {
+    canonicalUpdates.shippingCostEgp = roundAmount(normalizedComponents.shippingCostEgp, 2).toFixed(2);
+  }
+
+  const existingPayments = await tx
+    .select()
+    .from(shipmentPayments)
+    .where(eq(shipmentPayments.shipmentId, data.shipmentId));
+
+  const paymentSnapshot = await calculatePaymentSnapshot({
+    shipment,
+    payments: existingPayments,
+    loadRecoveryData: async () => {
+      const itemsList = await tx
+        .select()
+        .from(shipmentItems)
+        .where(eq(shipmentItems.shipmentId, data.shipmentId));
+
+      return {
+        items: itemsList,
+        rmbToEgpRate: await resolveRateValue(tx, "RMB", "EGP", shipment.purchaseDate),
+      };
+    },
+  });
+
+  if (paymentSnapshot.recoveredTotals) {
+    try {
+      await tx
+        .update(shipments)
+        .set({
+          purchaseCostRmb: paymentSnapshot.recoveredTotals.purchaseCostRmb.toFixed(2),
+          purchaseCostEgp: paymentSnapshot.recoveredTotals.purchaseCostEgp.toFixed(2),
+          customsCostEgp: paymentSnapshot.recoveredTotals.customsCostEgp.toFixed(2),
+          takhreegCostEgp: paymentSnapshot.recoveredTotals.takhreegCostEgp.toFixed(2),
+          finalTotalCostEgp: paymentSnapshot.recoveredTotals.finalTotalCostEgp.toFixed(2),
+          balanceEgp: Math.max(
+            0,
+            paymentSnapshot.recoveredTotals.finalTotalCostEgp -
+              paymentSnapshot.totalPaidEgp,
+          ).toFixed(2),
+        })
+        .where(eq(shipments.id, data.shipmentId));
+    } catch (error) {
+      console.error(
+        `[PAYMENT RECOVERY ERROR] Failed to recover costs for shipment ${data.shipmentId}:`,
+        error,
+      );
+    }
+  }
+
+  // Align final total with the best-known calculated total without overwriting higher-confidence values
+  if (paymentSnapshot.knownTotalCost > 0 && (parseAmount(shipment.finalTotalCostEgp) === 0 || paymentSnapshot.knownTotalCost > parseAmount(shipment.finalTotalCostEgp))) {
+    canonicalUpdates.finalTotalCostEgp = roundAmount(paymentSnapshot.knownTotalCost, 2).toFixed(2);
+  }
+
+  // ONLY block if payment exceeds what's currently known/allowed
+  if (amountEgp > paymentSnapshot.remainingAllowed + 0.0001) {
+    throw new ApiError("PAYMENT_OVERPAY", 
+      `لا يمكن دفع هذا المبلغ - الحد المسموح به هو ${paymentSnapshot.remainingAllowed.toFixed(2)} جنيه`, 409, {
+      shipmentId: data.shipmentId,
+      knownTotal: paymentSnapshot.knownTotalCost,
+      alreadyPaid: paymentSnapshot.totalPaidEgp,
+      remainingAllowed: paymentSnapshot.remainingAllowed,
+      attempted: amountEgp,
+    });
+  }
+
+  // A component can't be paid past its own cost unless an admin deliberately overrides it
+  const componentAllowance = calculateComponentAllowance(
+    data.costComponent,
+    {
+      ...normalizedComponents,
+      ...(paymentSnapshot.recoveredTotals && {
+        purchaseCostEgp: paymentSnapshot.recoveredTotals.purchaseCostEgp,
+        customsCostEgp: paymentSnapshot.recoveredTotals.customsCostEgp,
+        takhreegCostEgp: paymentSnapshot.recoveredTotals.takhreegCostEgp,
+      }),
+    },
+    existingPayments,
+  );
+  let componentOverpay: ComponentOverpay | undefined;
+  if (componentAllowance && amountEgp > componentAllowance.remainingAllowed + 0.0001) {
+    componentOverpay = { shipmentId: data.shipmentId, ...componentAllowance, attempted: amountEgp };
+    if (!options?.allowComponentOverpay) {
+      throw new ApiError(
+        "PAYMENT_COMPONENT_OVERPAY",
+        `لا يمكن دفع هذا المبلغ على بند ${componentAllowance.component} - المتبقي عليه ${componentAllowance.remainingAllowed.toFixed(2)} جنيه`,
+        409,
+        componentOverpay,
+      );
+    }
+  }
+
+  // Ensure paymentDate is a proper Date object
+  const paymentDate = data.paymentDate instanceof Date 
+    ? data.paymentDate 
+    : new Date(data.paymentDate as unknown as string);
+
+  const [payment] = await tx
+    .insert(shipmentPayments)
+    .values({
+      ...data,
+      paymentMethod: paymentAccount?.paymentMethod ?? data.paymentMethod,
+      paymentDate,
+      amountOriginal: roundAmount(amountOriginal, 2).toFixed(2),
+      exchangeRateToEgp: exchangeRateToEgp ? roundAmount(exchangeRateToEgp, 4).toFixed(4) : null,
+      amountEgp: roundAmount(amountEgp, 2).toFixed(2),
+    })
+    .returning();
+
+  if (options?.simulatePostInsertError) {
+    throw new Error("Simulated failure after inserting payment");
+  }
+
+  const [paymentTotals] = await tx
+    .select({
+      totalPaid: sql<string>`COALESCE(SUM(${shipmentPayments.amountEgp}), 0)`,
+      // Reversals and the payments they void are not payments made, as in reversePayment
+      lastPaymentDate: sql<Date | null>`MAX(${shipmentPayments.paymentDate}) FILTER (WHERE ${shipmentPayments.voidedAt} IS NULL AND ${shipmentPayments.reversalOfPaymentId} IS NULL)`,
+    })
+    .from(shipmentPayments)
+    .where(eq(shipmentPayments.shipmentId, data.shipmentId));
+
+  const totalPaidNumber = roundAmount(parseFloat(paymentTotals?.totalPaid || "0"));
+  // Use known total for balance calculation (allows partial payments)
+  const balance = roundAmount(
+    Math.max(0, paymentSnapshot.knownTotalCost - totalPaidNumber),
+  );
+  // Ensure date is a proper Date object (raw SQL may return string)
+  const rawLatestDate = paymentTotals?.lastPaymentDate || data.paymentDate || new Date();
+  const latestPaymentDate = rawLatestDate instanceof Date 
+    ? rawLatestDate 
+    : new Date(rawLatestDate as string);
+
+  const finalTotalForShipment = knownTotal > 0 ? roundAmount(knownTotal, 2).toFixed(2) : undefined;
+  const computedBalance = balance.toFixed(2);
+
+  const shipmentUpdatePayload: Partial<typeof shipments.$inferInsert> = {
+    ...canonicalUpdates,
+    totalPaidEgp: totalPaidNumber.toFixed(2),
+    balanceEgp: computedBalance,
+    lastPaymentDate: latestPaymentDate,
+    updatedAt: new Date(),
+  };
+
+  if (finalTotalForShipment) {
+    shipmentUpdatePayload.finalTotalCostEgp = finalTotalForShipment;
+  }
+
+  // Update shipment with new totals atomically
+  await tx
+    .update(shipments)
+    .set(shipmentUpdatePayload)
+    .where(eq(shipments.id, data.shipmentId));
+
+  // Backfilled or recovered costs change what each item carries
+  if (paymentSnapshot.recoveredTotals || Object.keys(canonicalUpdates).length > 0) {
+    await persistShipmentLandedCosts(data.shipmentId, tx);
+  }
+
+  await syncShipmentLedger(data.shipmentId, tx, data.createdByUserId);
+
+  return componentOverpay ? { ...payment, componentOverpay } : payment;
+}
+
 export class MissingRmbRateError extends Error {
   constructor() {
     super("RMB_RATE_MISSING");
   }
 }
 
+const layerKeyCondition = (target: { productId: number | null; shipmentItemId: number | null }) =>
+  target.productId
+    ? eq(inventoryCostLayers.productId, target.productId)
+    : and(isNull(inventoryCostLayers.productId), eq(inventoryCostLayers.shipmentItemId, target.shipmentItemId!));
+
+/**
+ * Opens the cost layer for a receipt movement. Accepts a transaction so the
+ * receiving step records the movement and its layer atomically.
+ */
+export async function addInventoryCostLayer(
+  movement: InventoryMovement,
+  executor: typeof db | any = db,
+): Promise<InventoryCostLayer | undefined> {
+  const quantity = movement.totalPiecesIn || 0;
+  if (quantity <= 0) return undefined;
+
+  const [layer] = await executor
+    .insert(inventoryCostLayers)
+    .values({
+      productId: movement.productId,
+      shipmentItemId: movement.productId ? null : movement.shipmentItemId,
+      receiptMovementId: movement.id,
+      layerDate: movement.movementDate,
+      originalQuantity: quantity,
+      remainingQuantity: quantity,
+      unitCostEgp: (parseAmount(movement.totalCostEgp) / quantity).toFixed(4),
+    })
+    .onConflictDoNothing({ target: inventoryCostLayers.receiptMovementId })
+    .returning();
+  return layer;
+}
+
+/**
+ * Brings the cost layers in line with the movement ledger: receipts recorded
+ * before layers existed get one, and layers are drained for issues that never
+ * consumed them. Returns the up-to-date layers.
+ */
+async function syncInventoryCostLayers(
+  movements: InventoryMovement[],
+  layers: InventoryCostLayer[],
+  executor: typeof db | any = db,
+): Promise<InventoryCostLayer[]> {
+  const layered = new Set(layers.map((layer) => layer.receiptMovementId));
+  const current = [...layers];
+  for (const movement of movements) {
+    // Transfers move pieces that already have a layer, so only receipts open new ones
+    if (
+      isOutboundMovementType(movement.movementType) ||
+      isTransferMovementType(movement.movementType) ||
+      layered.has(movement.id)
+    ) {
+      continue;
+    }
+    const layer = await addInventoryCostLayer(movement, executor);
+    if (layer) current.push(layer);
+  }
+
+  const onHandByKey = new Map(calculateStockOnHand(movements).map((line) => [line.key, line.onHand]));
+  const layersByKey = new Map<string, InventoryCostLayer[]>();
+  for (const layer of current) {
+    const key = stockKeyFor(layer);
+    layersByKey.set(key, [...(layersByKey.get(key) ?? []), layer]);
+  }
+
+  const updated = new Map<number, InventoryCostLayer>();
+  for (const [key, keyLayers] of Array.from(layersByKey.entries())) {
+    for (const layer of reconcileLayerQuantities(keyLayers, onHandByKey.get(key) ?? 0)) {
+      await executor
+        .update(inventoryCostLayers)
+        .set({ remainingQuantity: layer.remainingQuantity })
+        .where(eq(inventoryCostLayers.id, layer.id));
+      updated.set(layer.id, layer);
+    }
+  }
+
+  return current.map((layer) => updated.get(layer.id) ?? layer);
+}
+
+type StockTarget = { productId: number | null; shipmentItemId: number | null };
+
+/**
+ * Locks the product (or the unlinked item) being moved, so two movements
+ * cannot both take the last pieces, and returns its movement ledger.
+ */
+async function lockStockTarget(
+  executor: typeof db | any,
+  input: StockTarget,
+): Promise<{ target: StockTarget; shipmentId: number | null; movements: InventoryMovement[] }> {
+  const [item] = input.productId
+    ? []
+    : await executor.select().from(shipmentItems).where(eq(shipmentItems.id, input.shipmentItemId!)).for("update");
+  const [product] = input.productId
+    ? await executor.select().from(products).where(eq(products.id, input.productId)).for("update")
+    : [];
+  if (!product && !item) {
+    throw new ApiError("INVENTORY_MOVEMENT_INVALID", "الصنف المحدد غير موجود.", 404, {
+      productId: input.productId,
+      shipmentItemId: input.shipmentItemId,
+    });
+  }
+
+  const movements: InventoryMovement[] = await executor
+    .select()
+    .from(inventoryMovements)
+    .where(
+      input.productId
+        ? eq(inventoryMovements.productId, input.productId)
+        : and(isNull(inventoryMovements.productId), eq(inventoryMovements.shipmentItemId, item.id)),
+    );
+
+  return {
+    target: { productId: input.productId, shipmentItemId: input.productId ? null : item.id },
+    shipmentId: input.productId ? null : item.shipmentId,
+    movements,
+  };
+}
+
+// Pieces of `target` held in one warehouse; `null` is stock recorded before warehouses existed
+function warehouseBalance(movements: InventoryMovement[], target: StockTarget, warehouseId: number | null) {
+  const key = stockKeyFor(target);
+  const line = calculateWarehouseStock(movements).find(
+    (entry) => entry.key === key && entry.warehouseId === warehouseId,
+  );
+  return { onHand: line?.onHand ?? 0, valueEgp: line?.valueEgp ?? 0 };
+}
+
+async function findActiveWarehouse(executor: typeof db | any, id: number): Promise<Warehouse> {
+  const [warehouse] = await executor.select().from(warehouses).where(eq(warehouses.id, id));
+  if (!warehouse || !warehouse.isActive) {
+    throw new ApiError("WAREHOUSE_NOT_FOUND", undefined, 404, { warehouseId: id });
+  }
+  return warehouse;
+}
+
+// The same three payment states the shipment list shows, worked out from the stored totals
+function paymentStatusCondition(paymentStatus?: string): SQL | undefined {
+  const paid = sql`coalesce(${shipments.totalPaidEgp}, 0)`;
+  const balance = sql`coalesce(${shipments.balanceEgp}, coalesce(${shipments.finalTotalCostEgp}, 0) - ${paid})`;
+  if (paymentStatus === "لم يتم دفع أي مبلغ") return sql`${paid} <= 0.0001`;
+  if (paymentStatus === "مسددة بالكامل") return sql`${paid} > 0.0001 and ${balance} <= 0.0001`;
+  if (paymentStatus === "مدفوعة جزئياً") return sql`${paid} > 0.0001 and ${balance} > 0.0001`;
+  return undefined;
+}
+
+// One joined read for the details the inventory page costs each movement with. Shipping details and
+// landed costs are unique per shipment and per item, so every movement stays a single row.
+function selectInventoryMovementsWithDetails() {
+  return db
+    .select({
+      movement: inventoryMovements,
+      shipment: shipments,
+      shipmentItem: shipmentItems,
+      shippingDetails: shipmentShippingDetails,
+      landedCost: shipmentItemLandedCosts,
+    })
+    .from(inventoryMovements)
+    .leftJoin(shipments, eq(inventoryMovements.shipmentId, shipments.id))
+    .leftJoin(products, eq(inventoryMovements.productId, products.id))
+    .leftJoin(shipmentItems, eq(inventoryMovements.shipmentItemId, shipmentItems.id))
+    .leftJoin(shipmentShippingDetails, eq(inventoryMovements.shipmentId, shipmentShippingDetails.shipmentId))
+    .leftJoin(shipmentItemLandedCosts, eq(inventoryMovements.shipmentItemId, shipmentItemLandedCosts.shipmentItemId));
+}
+
+type InventoryMovementDetailRow = Awaited<ReturnType<typeof selectInventoryMovementsWithDetails>>[number];
+
+const toMovementWithDetails = ({ movement, ...details }: InventoryMovementDetailRow): InventoryMovementWithDetails => ({
+  ...movement,
+  ...details,
+});
+
+// Falls back to the default when the setting was never saved or holds an unknown value
+async function readInventoryCostingMethod(executor: typeof db | any = db): Promise<InventoryCostingMethod> {
+  const [setting] = await executor
+    .select()
+    .from(appSettings)
+    .where(eq(appSettings.key, INVENTORY_COSTING_SETTING_KEY));
+  return isInventoryCostingMethod(setting?.value) ? setting.value : DEFAULT_INVENTORY_COSTING_METHOD;
+}
+
 type KnownTotalContext = {
   shipment: Shipment;
   shippingDetails?: ShipmentShippingDetails | null;
@@ -230,6 +1005,141 @@ export const computeShipmentKnownTotal = (context: KnownTotalContext): number =>
   return roundAmount(total);
 };
 
+export type AuditLogFilters = {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  actionType?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  // Matches the shipment itself plus payments whose details reference it
+  shipmentId?: number;
+  limit?: number;
+};
+
+export type AuditLogWithUser = AuditLog & { userName: string | null };
+
+export type ShipmentStatusHistoryWithUser = ShipmentStatusHistory & { changedByName: string | null };
+
+export type StockOnHandLine = StockLine & { productName: string; productType: string | null };
+
+export type InventoryTransferWithNames = InventoryTransfer & {
+  productName: string;
+  fromWarehouseName: string;
+  toWarehouseName: string;
+};
+
+export type SupplierClaimWithNames = SupplierClaim & { supplierName: string; shipmentCode: string };
+
+export type PaymentInsertOptions = {
+  simulatePostInsertError?: boolean;
+  // Admin-only: record the payment even though it exceeds its cost component
+  allowComponentOverpay?: boolean;
+};
+
+export type ComponentOverpay = ComponentAllowance & { shipmentId: number; attempted: number };
+
+// Carries the breach when an override let a component be overpaid, so the caller can audit it
+export type RecordedPayment = ShipmentPayment & { componentOverpay?: ComponentOverpay };
+
+export type RemittanceAllocationLine = RemittanceShare & { shipmentCode: string; remainingAllowedEgp: number };
+
+export type PaymentRemittanceWithPayments = PaymentRemittance & { payments: ShipmentPayment[] };
+
+export type SupplierAdvanceWithBalance = SupplierAdvance & AdvanceBalance & { supplierName: string };
+
+export type PaymentAccountWithBalance = PaymentAccount & { balance: string };
+
+export type PaymentAccountTransferWithNames = PaymentAccountTransfer & {
+  fromAccountName: string | null;
+  toAccountName: string;
+};
+
+export type PaymentAccountStatement = AccountStatement & {
+  account: PaymentAccount;
+  reconciliation: AccountReconciliation | null;
+};
+
+export type ShipmentListFilters = {
+  // Archived shipments are listed apart from the working ones
+  view?: "active" | "archived" | "all";
+  status?: string;
+  paymentStatus?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  supplierId?: number;
+  search?: string;
+};
+
+export type PaymentListFilters = {
+  shipmentId?: number;
+  supplierId?: number;
+  shipmentStatus?: string;
+  costComponent?: string;
+  paymentMethod?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+};
+
+export type InventoryListFilters = {
+  movementType?: string;
+  warehouseId?: number;
+  shipmentCode?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+};
+
+export type InventoryMovementWithDetails = InventoryMovement & {
+  shipment: Shipment | null;
+  shipmentItem: ShipmentItem | null;
+  shippingDetails: ShipmentShippingDetails | null;
+  landedCost: ShipmentItemLandedCost | null;
+};
+
+export type SupplierCreditNoteWithNames = SupplierCreditNote & {
+  supplierName: string;
+  shipmentCode: string;
+  productName: string | null;
+};
+
+export type WarehouseStockSummary = {
+  warehouseId: number | null;
+  warehouseName: string;
+  totalPieces: number;
+  totalCostEgp: string;
+  totalItems: number;
+};
+
+export type InventoryValuationLayer = {
+  id: number;
+  layerDate: string;
+  receiptMovementId: number;
+  shipmentCode: string | null;
+  originalQuantity: number;
+  remainingQuantity: number;
+  unitCostEgp: number;
+  effectiveUnitCostEgp: number;
+  valueEgp: number;
+};
+
+export type InventoryValuation = {
+  method: InventoryCostingMethod;
+  totals: { quantity: number; valueEgp: number; cogsEgp: number };
+  lines: Array<{
+    key: string;
+    productId: number | null;
+    shipmentItemId: number | null;
+    productName: string;
+    quantity: number;
+    valueEgp: number;
+    // Cost of everything issued so far (sales, returns, damages, samples)
+    cogsEgp: number;
+    layers: InventoryValuationLayer[];
+  }>;
+};
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -262,6 +1172,7 @@ export interface IStorage {
 
   // Shipments
   getAllShipments(): Promise<Shipment[]>;
+  listShipments(filters: ShipmentListFilters, query: ListQuery<ShipmentSortField>): Promise<Paginated<Shipment>>;
   getShipment(id: number): Promise<Shipment | undefined>;
   getShipmentsByIds(ids: number[]): Promise<Shipment[]>;
   createShipment(data: InsertShipment): Promise<Shipment>;
@@ -275,6 +1186,19 @@ export interface IStorage {
   deleteShipmentItem(id: number): Promise<boolean>;
   deleteShipmentItems(shipmentId: number): Promise<boolean>;
 
+  // Landed Cost
+  getShipmentLandedCosts(shipmentId: number): Promise<ShipmentItemLandedCost[]>;
+  backfillShipmentLandedCosts(): Promise<number>;
+
+  // Shipment Ledger
+  getShipmentLedger(shipmentId: number): Promise<ShipmentLedgerEntry[]>;
+  getLedgerTotals(): Promise<Array<LedgerTotals & { shipmentId: number }>>;
+  resyncShipmentLedger(shipmentId: number, userId?: string | null): Promise<Shipment>;
+  openShipmentLedgers(): Promise<number>;
+
+  // Status History
+  getShipmentStatusHistory(shipmentId: number): Promise<ShipmentStatusHistoryWithUser[]>;
+
   // Shipping Details
   getShippingDetails(shipmentId: number): Promise<ShipmentShippingDetails | undefined>;
   upsertShippingDetails(data: InsertShipmentShippingDetails): Promise<ShipmentShippingDetails>;
@@ -286,19 +1210,38 @@ export interface IStorage {
   // Exchange Rates
   getAllExchangeRates(): Promise<ExchangeRate[]>;
   getLatestRate(from: string, to: string): Promise<ExchangeRate | undefined>;
+  getRateForDate(
+    from: string,
+    to: string,
+    date: Date | string,
+    options?: RateLookupOptions,
+  ): Promise<ExchangeRate | undefined>;
   createExchangeRate(data: InsertExchangeRate): Promise<ExchangeRate>;
 
   // Payments
   getAllPayments(): Promise<ShipmentPayment[]>;
+  listPayments(filters: PaymentListFilters, query: ListQuery<PaymentSortField>): Promise<Paginated<PaymentWithShipment>>;
   getShipmentPayments(shipmentId: number): Promise<ShipmentPayment[]>;
+  getPayment(id: number): Promise<ShipmentPayment | undefined>;
+  getPaymentAttachments(paymentId: number): Promise<PaymentAttachment[]>;
+  getPaymentAttachment(paymentId: number, attachmentId: number): Promise<PaymentAttachment | undefined>;
+  createPaymentAttachments(attachments: InsertPaymentAttachment[]): Promise<PaymentAttachment[]>;
   createPayment(
     data: InsertShipmentPayment,
-    options?: { simulatePostInsertError?: boolean }
-  ): Promise<ShipmentPayment>;
-  createPayment(data: InsertShipmentPayment): Promise<ShipmentPayment>;
+    options?: PaymentInsertOptions
+  ): Promise<RecordedPayment>;
+  createPayment(data: InsertShipmentPayment): Promise<RecordedPayment>;
+  reversePayment(
+    paymentId: number,
+    options: { reason: string; userId?: string | null },
+  ): Promise<{ original: ShipmentPayment; reversal: ShipmentPayment; shipment: Shipment }>;
+  previewRemittance(input: RemittanceInput): Promise<RemittanceAllocationLine[]>;
+  createRemittance(input: RemittanceInput, userId?: string | null): Promise<PaymentRemittanceWithPayments>;
+  getRemittance(id: number): Promise<PaymentRemittanceWithPayments | undefined>;
   getPaymentAllowance(
     shipmentId: number,
-    options?: { shipment?: Shipment },
+    // Pass the caller's transaction so the recovery read sees what it has locked
+    options?: { shipment?: Shipment; executor?: typeof db | any },
   ): Promise<{
     knownTotal: number;
     alreadyPaid: number;
@@ -308,10 +1251,38 @@ export interface IStorage {
 
   // Inventory
   getAllInventoryMovements(): Promise<InventoryMovement[]>;
+  getAllInventoryMovementsWithDetails(): Promise<InventoryMovementWithDetails[]>;
+  listInventoryMovements(
+    filters: InventoryListFilters,
+    query: ListQuery<InventorySortField>,
+  ): Promise<Paginated<InventoryMovementWithDetails>>;
   createInventoryMovement(data: InsertInventoryMovement): Promise<InventoryMovement>;
+  createOutboundMovement(input: OutboundMovementInput, userId?: string | null): Promise<InventoryMovement>;
+  getStockOnHand(): Promise<StockOnHandLine[]>;
+  getInventoryValuation(): Promise<InventoryValuation>;
+
+  // Warehouses
+  getAllWarehouses(): Promise<Warehouse[]>;
+  getWarehouse(id: number): Promise<Warehouse | undefined>;
+  createWarehouse(data: InsertWarehouse): Promise<Warehouse>;
+  updateWarehouse(id: number, data: Partial<InsertWarehouse>): Promise<Warehouse | undefined>;
+  getInventoryTransfers(): Promise<InventoryTransferWithNames[]>;
+  createInventoryTransfer(input: TransferInput, userId?: string | null): Promise<InventoryTransfer>;
+  receiveInventoryTransfer(id: number, userId?: string | null): Promise<InventoryTransfer>;
+
+  // Settings
+  getInventoryCostingMethod(): Promise<InventoryCostingMethod>;
+  setInventoryCostingMethod(method: InventoryCostingMethod, userId?: string | null): Promise<InventoryCostingMethod>;
+  getAccountMappings(): Promise<AccountMapping[]>;
+  saveAccountMappings(mappings: AccountMappingInput[], userId?: string | null): Promise<AccountMapping[]>;
+  getAccountingPeriods(): Promise<AccountingPeriod[]>;
+  getAccountingPeriod(periodMonth: string): Promise<AccountingPeriod | undefined>;
+  closeAccountingPeriod(periodMonth: string, userId?: string | null): Promise<AccountingPeriod>;
+  reopenAccountingPeriod(periodMonth: string, userId?: string | null): Promise<AccountingPeriod>;
 
   // Audit
   createAuditLog(data: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogWithUser[]>;
 
   // Dashboard Stats
   getDashboardStats(): Promise<{
@@ -338,6 +1309,8 @@ export interface IStorage {
     totalCostEgp: string;
     totalItems: number;
     avgUnitCostEgp: string;
+    inTransitPieces: number;
+    byWarehouse: WarehouseStockSummary[];
   }>;
 
   // Accounting Methods
@@ -364,6 +1337,52 @@ export interface IStorage {
     unsettledShipmentsCount: number;
   }>;
 
+  getShipmentReceipts(shipmentId: number): Promise<ShipmentItemReceipt[]>;
+  getReceivingDiscrepancies(filters?: {
+    dateFrom?: string;
+    dateTo?: string;
+    supplierId?: number;
+    shipmentId?: number;
+  }): Promise<DiscrepancyReport>;
+  getSupplierClaims(filters?: { supplierId?: number; shipmentId?: number }): Promise<SupplierClaimWithNames[]>;
+
+  // Supplier credit notes
+  getSupplierCreditNotes(filters?: {
+    supplierId?: number;
+    shipmentId?: number;
+    status?: string;
+  }): Promise<SupplierCreditNoteWithNames[]>;
+  createSupplierCreditNote(input: CreditNoteInput, userId?: string | null): Promise<SupplierCreditNote>;
+  decideSupplierCreditNote(id: number, approve: boolean, userId?: string | null): Promise<SupplierCreditNote>;
+
+  // Supplier advances
+  getSupplierAdvances(filters?: { supplierId?: number }): Promise<SupplierAdvanceWithBalance[]>;
+  createSupplierAdvance(input: SupplierAdvanceInput, userId?: string | null): Promise<SupplierAdvance>;
+  applySupplierAdvance(
+    advanceId: number,
+    input: AdvanceApplicationInput,
+    userId?: string | null,
+  ): Promise<{ advance: SupplierAdvanceWithBalance; payments: ShipmentPayment[] }>;
+
+  getPaymentAccounts(): Promise<PaymentAccountWithBalance[]>;
+  getPaymentAccount(id: number): Promise<PaymentAccount | undefined>;
+  createPaymentAccount(input: PaymentAccountInput): Promise<PaymentAccount>;
+  updatePaymentAccount(id: number, input: PaymentAccountUpdate): Promise<PaymentAccount | undefined>;
+  getPaymentAccountTransfers(filters?: { accountId?: number }): Promise<PaymentAccountTransferWithNames[]>;
+  createPaymentAccountTransfer(input: AccountTransferInput, userId?: string | null): Promise<PaymentAccountTransfer>;
+  getPaymentAccountStatement(
+    id: number,
+    filters?: { dateFrom?: string; dateTo?: string; bankBalance?: number },
+  ): Promise<PaymentAccountStatement | undefined>;
+
+  getFxGainLossReport(filters?: {
+    dateFrom?: string;
+    dateTo?: string;
+    shipmentCode?: string;
+    includeArchived?: boolean;
+  }): Promise<FxGainLossReport>;
+
+  getSupplierAllocations(shipment: Shipment): Promise<SupplierCostAllocation[]>;
   getSupplierBalances(filters?: {
     dateFrom?: string;
     dateTo?: string;
@@ -374,6 +1393,9 @@ export interface IStorage {
     supplierName: string;
     totalCostEgp: string;
     totalPaidEgp: string;
+    totalCreditEgp: string;
+    // Advances not yet applied to a shipment
+    totalAdvanceEgp: string;
     balanceEgp: string;
     balanceStatus: 'owing' | 'settled' | 'credit';
   }>>;
@@ -385,11 +1407,14 @@ export interface IStorage {
     supplier: Supplier;
     movements: Array<{
       date: Date | string;
-      type: 'shipment' | 'payment';
+      type: 'shipment' | 'payment' | 'credit' | 'advance' | 'advance_applied';
       description: string;
       shipmentCode?: string;
       costEgp?: string;
       paidEgp?: string;
+      creditEgp?: string;
+      // Informational: an advance moved onto a shipment; the balance already dropped when it was paid
+      appliedEgp?: string;
       runningBalance: string;
     }>;
   }>;
@@ -416,11 +1441,12 @@ export interface IStorage {
       originalCurrency?: string;
       amountOriginal?: string;
       amountEgp: string;
-      direction: 'cost' | 'payment';
+      direction: 'cost' | 'payment' | 'credit';
       userName?: string;
     }>;
     totalCostEgp: string;
     totalPaidEgp: string;
+    totalCreditEgp: string;
     netMovement: string;
   }>;
 
@@ -429,6 +1455,8 @@ export interface IStorage {
     dateTo?: string;
   }): Promise<Array<{
     paymentMethod: string;
+    paymentAccountId: number | null;
+    accountName: string | null;
     paymentCount: number;
     totalAmountEgp: string;
   }>>;
@@ -565,6 +1593,55 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(shipments).orderBy(desc(shipments.createdAt));
   }
 
+  async listShipments(filters: ShipmentListFilters, query: ListQuery<ShipmentSortField>): Promise<Paginated<Shipment>> {
+    const conditions: SQL[] = [];
+    if (filters.view === "archived") conditions.push(eq(shipments.status, ARCHIVED_STATUS));
+    else if (filters.view !== "all") conditions.push(sql`${shipments.status} <> ${ARCHIVED_STATUS}`);
+    if (filters.status && filters.status !== "all") conditions.push(eq(shipments.status, filters.status));
+    if (filters.dateFrom) conditions.push(gte(shipments.purchaseDate, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(shipments.purchaseDate, filters.dateTo));
+    if (filters.search) {
+      const pattern = containsPattern(filters.search);
+      conditions.push(or(ilike(shipments.shipmentCode, pattern), ilike(shipments.shipmentName, pattern))!);
+    }
+    if (filters.supplierId) {
+      conditions.push(
+        exists(
+          db
+            .select({ id: shipmentItems.id })
+            .from(shipmentItems)
+            .where(and(eq(shipmentItems.shipmentId, shipments.id), eq(shipmentItems.supplierId, filters.supplierId))),
+        ),
+      );
+    }
+    const paymentStatus = paymentStatusCondition(filters.paymentStatus);
+    if (paymentStatus) conditions.push(paymentStatus);
+
+    const where = conditions.length ? and(...conditions) : undefined;
+    const sortColumns = {
+      purchaseDate: shipments.purchaseDate,
+      createdAt: shipments.createdAt,
+      shipmentCode: shipments.shipmentCode,
+      shipmentName: shipments.shipmentName,
+      finalTotalCostEgp: shipments.finalTotalCostEgp,
+      balanceEgp: shipments.balanceEgp,
+    };
+    const direction = query.sortDir === "asc" ? asc : desc;
+
+    const [items, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(shipments)
+        .where(where)
+        .orderBy(direction(sortColumns[query.sortBy]), direction(shipments.id))
+        .limit(query.pageSize)
+        .offset(query.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(shipments).where(where),
+    ]);
+
+    return toPage(items, count, query);
+  }
+
   async getShipment(id: number): Promise<Shipment | undefined> {
     const [shipment] = await db.select().from(shipments).where(eq(shipments.id, id));
     return shipment;
@@ -581,15 +1658,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateShipment(id: number, data: Partial<InsertShipment>): Promise<Shipment | undefined> {
-    const [shipment] = await db
-      .update(shipments)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(shipments.id, id))
-      .returning();
-    return shipment;
+    return db.transaction(async (tx) => {
+      const [shipment] = await tx
+        .update(shipments)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(shipments.id, id))
+        .returning();
+      // Costs or the allocation basis may have changed, so the stored breakdown follows
+      if (shipment) await persistShipmentLandedCosts(id, tx);
+      return shipment;
+    });
   }
 
   async deleteShipment(id: number): Promise<boolean> {
+    // The ledger is append-only, so a shipment with booked entries stays and can only be archived
+    const [booked] = await db
+      .select({ id: shipmentLedgerEntries.id })
+      .from(shipmentLedgerEntries)
+      .where(eq(shipmentLedgerEntries.shipmentId, id))
+      .limit(1);
+    if (booked) {
+      throw new ApiError("SHIPMENT_HAS_LEDGER", undefined, 409, { shipmentId: id });
+    }
+
     const result = await db.delete(shipments).where(eq(shipments.id, id));
     return (result.rowCount ?? 0) > 0;
   }
@@ -623,22 +1714,147 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
-  // Shipping Details
-  async getShippingDetails(shipmentId: number): Promise<ShipmentShippingDetails | undefined> {
-    const [details] = await db
+  // Landed Cost
+  async getShipmentLandedCosts(shipmentId: number): Promise<ShipmentItemLandedCost[]> {
+    return db
       .select()
-      .from(shipmentShippingDetails)
-      .where(eq(shipmentShippingDetails.shipmentId, shipmentId));
-    return details;
+      .from(shipmentItemLandedCosts)
+      .where(eq(shipmentItemLandedCosts.shipmentId, shipmentId))
+      .orderBy(shipmentItemLandedCosts.shipmentItemId);
   }
 
-  async upsertShippingDetails(data: InsertShipmentShippingDetails): Promise<ShipmentShippingDetails> {
-    // Ensure date fields are properly handled (can be null, string, or Date)
-    const cleanedData = {
-      ...data,
-      shippingDate: data.shippingDate || null,
-    };
-    const [details] = await db
+  // Stores the breakdown for shipments with items that never had one, such as those created before it existed
+  async backfillShipmentLandedCosts(): Promise<number> {
+    const missing = await db
+      .select({ id: shipments.id })
+      .from(shipments)
+      .where(
+        and(
+          exists(db.select({ id: shipmentItems.id }).from(shipmentItems).where(eq(shipmentItems.shipmentId, shipments.id))),
+          notExists(
+            db
+              .select({ id: shipmentItemLandedCosts.id })
+              .from(shipmentItemLandedCosts)
+              .where(eq(shipmentItemLandedCosts.shipmentId, shipments.id)),
+          ),
+        ),
+      );
+
+    for (const { id } of missing) {
+      await db.transaction((tx) => persistShipmentLandedCosts(id, tx));
+    }
+    return missing.length;
+  }
+
+  // Shipment Ledger
+  async getShipmentLedger(shipmentId: number): Promise<ShipmentLedgerEntry[]> {
+    return db
+      .select()
+      .from(shipmentLedgerEntries)
+      .where(eq(shipmentLedgerEntries.shipmentId, shipmentId))
+      .orderBy(shipmentLedgerEntries.createdAt, shipmentLedgerEntries.id);
+  }
+
+  async getLedgerTotals(): Promise<Array<LedgerTotals & { shipmentId: number }>> {
+    const isCost = sql`${shipmentLedgerEntries.entryType} = ${LEDGER_COST_ENTRY}`;
+    const rows = await db
+      .select({
+        shipmentId: shipmentLedgerEntries.shipmentId,
+        costEgp: sql<string>`coalesce(sum(${shipmentLedgerEntries.debitEgp} - ${shipmentLedgerEntries.creditEgp}) filter (where ${isCost}), 0)`,
+        paidEgp: sql<string>`coalesce(sum(${shipmentLedgerEntries.creditEgp} - ${shipmentLedgerEntries.debitEgp}) filter (where not ${isCost}), 0)`,
+      })
+      .from(shipmentLedgerEntries)
+      .groupBy(shipmentLedgerEntries.shipmentId);
+
+    return rows.map((row) => {
+      const costEgp = roundAmount(parseAmount(row.costEgp));
+      const paidEgp = roundAmount(parseAmount(row.paidEgp));
+      return { shipmentId: row.shipmentId, costEgp, paidEgp, balanceEgp: roundAmount(Math.max(0, costEgp - paidEgp)) };
+    });
+  }
+
+  async resyncShipmentLedger(shipmentId: number, userId?: string | null): Promise<Shipment> {
+    const shipment = await db.transaction(async (tx) => {
+      await persistShipmentLandedCosts(shipmentId, tx);
+      return syncShipmentLedger(shipmentId, tx, userId);
+    });
+    if (!shipment) {
+      throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId });
+    }
+    return shipment;
+  }
+
+  // Posts opening entries for shipments that have no ledger yet; cached totals are left for reconciliation to check
+  async openShipmentLedgers(): Promise<number> {
+    const unopened = await db
+      .select({ id: shipments.id })
+      .from(shipments)
+      .where(
+        notExists(
+          db
+            .select({ id: shipmentLedgerEntries.id })
+            .from(shipmentLedgerEntries)
+            .where(eq(shipmentLedgerEntries.shipmentId, shipments.id)),
+        ),
+      );
+
+    let opened = 0;
+    for (const { id } of unopened) {
+      opened += await db.transaction(async (tx) => {
+        const [shipment] = await tx.select().from(shipments).where(eq(shipments.id, id)).for("update");
+        const [booked] = await tx
+          .select({ id: shipmentLedgerEntries.id })
+          .from(shipmentLedgerEntries)
+          .where(eq(shipmentLedgerEntries.shipmentId, id))
+          .limit(1);
+        // A payment or edit may have synced it since the scan
+        if (!shipment || booked) return 0;
+
+        const payments = await tx.select().from(shipmentPayments).where(eq(shipmentPayments.shipmentId, id));
+        const entries = openingLedgerEntries(shipment, payments);
+        if (entries.length === 0) return 0;
+        await tx.insert(shipmentLedgerEntries).values(entries);
+        return 1;
+      });
+    }
+    return opened;
+  }
+
+  // Status History
+  async getShipmentStatusHistory(shipmentId: number): Promise<ShipmentStatusHistoryWithUser[]> {
+    const rows = await db
+      .select({
+        entry: shipmentStatusHistory,
+        firstName: users.firstName,
+        username: users.username,
+      })
+      .from(shipmentStatusHistory)
+      .leftJoin(users, eq(shipmentStatusHistory.changedByUserId, users.id))
+      .where(eq(shipmentStatusHistory.shipmentId, shipmentId))
+      .orderBy(shipmentStatusHistory.changedAt, shipmentStatusHistory.id);
+
+    return rows.map(({ entry, firstName, username }) => ({
+      ...entry,
+      changedByName: firstName || username || null,
+    }));
+  }
+
+  // Shipping Details
+  async getShippingDetails(shipmentId: number): Promise<ShipmentShippingDetails | undefined> {
+    const [details] = await db
+      .select()
+      .from(shipmentShippingDetails)
+      .where(eq(shipmentShippingDetails.shipmentId, shipmentId));
+    return details;
+  }
+
+  async upsertShippingDetails(data: InsertShipmentShippingDetails): Promise<ShipmentShippingDetails> {
+    // Ensure date fields are properly handled (can be null, string, or Date)
+    const cleanedData = {
+      ...data,
+      shippingDate: data.shippingDate || null,
+    };
+    const [details] = await db
       .insert(shipmentShippingDetails)
       .values(cleanedData)
       .onConflictDoUpdate({
@@ -692,7 +1908,17 @@ export class DatabaseStorage implements IStorage {
     return rate;
   }
 
+  async getRateForDate(
+    from: string,
+    to: string,
+    date: Date | string,
+    options?: RateLookupOptions,
+  ): Promise<ExchangeRate | undefined> {
+    return findRateForDate(db, from, to, date, options);
+  }
+
   async createExchangeRate(data: InsertExchangeRate): Promise<ExchangeRate> {
+    await assertAccountingPeriodsOpen([data.rateDate]);
     const [rate] = await db.insert(exchangeRates).values(data).returning();
     return rate;
   }
@@ -702,6 +1928,58 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(shipmentPayments).orderBy(desc(shipmentPayments.paymentDate));
   }
 
+  async listPayments(
+    filters: PaymentListFilters,
+    query: ListQuery<PaymentSortField>,
+  ): Promise<Paginated<PaymentWithShipment>> {
+    const conditions: SQL[] = [];
+    if (filters.shipmentId) conditions.push(eq(shipmentPayments.shipmentId, filters.shipmentId));
+    if (filters.supplierId) conditions.push(eq(shipmentPayments.supplierId, filters.supplierId));
+    if (filters.shipmentStatus && filters.shipmentStatus !== "all") {
+      conditions.push(eq(shipments.status, filters.shipmentStatus));
+    }
+    if (filters.costComponent) conditions.push(eq(shipmentPayments.costComponent, filters.costComponent));
+    if (filters.paymentMethod) conditions.push(eq(shipmentPayments.paymentMethod, filters.paymentMethod));
+    if (filters.dateFrom) conditions.push(gte(shipmentPayments.paymentDate, new Date(filters.dateFrom)));
+    if (filters.dateTo) {
+      conditions.push(sql`${shipmentPayments.paymentDate} < (${filters.dateTo}::date + interval '1 day')`);
+    }
+    if (filters.search) {
+      const pattern = containsPattern(filters.search);
+      conditions.push(or(ilike(shipments.shipmentCode, pattern), ilike(shipments.shipmentName, pattern))!);
+    }
+
+    const where = conditions.length ? and(...conditions) : undefined;
+    const sortColumns = {
+      paymentDate: shipmentPayments.paymentDate,
+      amountEgp: shipmentPayments.amountEgp,
+      createdAt: shipmentPayments.createdAt,
+    };
+    const direction = query.sortDir === "asc" ? asc : desc;
+
+    const [rows, [{ count }]] = await Promise.all([
+      db
+        .select({ payment: shipmentPayments, shipment: shipments })
+        .from(shipmentPayments)
+        .innerJoin(shipments, eq(shipmentPayments.shipmentId, shipments.id))
+        .where(where)
+        .orderBy(direction(sortColumns[query.sortBy]), direction(shipmentPayments.id))
+        .limit(query.pageSize)
+        .offset(query.offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(shipmentPayments)
+        .innerJoin(shipments, eq(shipmentPayments.shipmentId, shipments.id))
+        .where(where),
+    ]);
+
+    return toPage(
+      rows.map((row) => ({ ...row.payment, shipment: row.shipment })),
+      count,
+      query,
+    );
+  }
+
   async getShipmentPayments(shipmentId: number): Promise<ShipmentPayment[]> {
     return db
       .select()
@@ -710,318 +1988,301 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(shipmentPayments.paymentDate));
   }
 
-  async createPayment(
-    data: InsertShipmentPayment,
-    options?: { simulatePostInsertError?: boolean }
-  ): Promise<ShipmentPayment> {
-    return db.transaction(async (tx) => {
-      const lockedShipment = await tx.execute(sql<Shipment>`SELECT * FROM shipments WHERE id = ${data.shipmentId} FOR UPDATE`);
-      const rawRow = lockedShipment.rows?.[0] as Record<string, unknown> | undefined;
-
-      if (!rawRow) {
-        throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: data.shipmentId });
-      }
-
-      // Convert snake_case raw SQL result to camelCase Shipment type
-      const shipment: Shipment = {
-        id: rawRow.id as number,
-        shipmentCode: rawRow.shipment_code as string,
-        shipmentName: rawRow.shipment_name as string,
-        purchaseDate: rawRow.purchase_date as string,
-        status: rawRow.status as string,
-        invoiceCustomsDate: rawRow.invoice_customs_date as string | null,
-        createdByUserId: rawRow.created_by_user_id as string | null,
-        purchaseCostRmb: rawRow.purchase_cost_rmb as string | null,
-        purchaseCostEgp: rawRow.purchase_cost_egp as string | null,
-        purchaseRmbToEgpRate: rawRow.purchase_rmb_to_egp_rate as string | null,
-        commissionCostRmb: rawRow.commission_cost_rmb as string | null,
-        commissionCostEgp: rawRow.commission_cost_egp as string | null,
-        shippingCostRmb: rawRow.shipping_cost_rmb as string | null,
-        shippingCostEgp: rawRow.shipping_cost_egp as string | null,
-        customsCostEgp: rawRow.customs_cost_egp as string | null,
-        takhreegCostEgp: rawRow.takhreeg_cost_egp as string | null,
-        finalTotalCostEgp: rawRow.final_total_cost_egp as string | null,
-        totalPaidEgp: rawRow.total_paid_egp as string | null,
-        balanceEgp: rawRow.balance_egp as string | null,
-        partialDiscountRmb: rawRow.partial_discount_rmb as string | null,
-        discountNotes: rawRow.discount_notes as string | null,
-        lastPaymentDate: rawRow.last_payment_date as Date | null,
-        createdAt: rawRow.created_at as Date | null,
-        updatedAt: rawRow.updated_at as Date | null,
-      };
-
-      if (shipment.status === "مؤرشفة") {
-        throw new ApiError("SHIPMENT_LOCKED", undefined, 409, { shipmentId: data.shipmentId, status: shipment.status });
-      }
-
-      const parseAmount = (value: unknown): number => {
-        if (value === null || value === undefined) return 0;
-        const parsed = typeof value === "number" ? value : parseFloat(value as any);
-        return Number.isFinite(parsed) ? parsed : 0;
-      };
-
-      // Compute the "known total" - sum of cost components that are available/entered
-      // Uses RMB values (with stored rate) when EGP amounts are missing to avoid losing information
-      const computeKnownTotals = (s: Shipment) => {
-        const purchaseRate = parseAmount(s.purchaseRmbToEgpRate);
-
-        const purchaseFromRmb = purchaseRate > 0 ? parseAmount(s.purchaseCostRmb) * purchaseRate : 0;
-        const purchase = parseAmount(s.purchaseCostEgp) || purchaseFromRmb;
-
-        const commissionFromRmb = purchaseRate > 0 ? parseAmount(s.commissionCostRmb) * purchaseRate : 0;
-        const commission = parseAmount(s.commissionCostEgp) || commissionFromRmb;
-
-        const shippingFromRmb = purchaseRate > 0 ? parseAmount(s.shippingCostRmb) * purchaseRate : 0;
-        const shipping = parseAmount(s.shippingCostEgp) || shippingFromRmb;
-
-        const customs = parseAmount(s.customsCostEgp);
-        const takhreeg = parseAmount(s.takhreegCostEgp);
-
-        const componentTotal = purchase + commission + shipping + customs + takhreeg;
-        const existingFinal = parseAmount(s.finalTotalCostEgp);
-        const bestKnownTotal = Math.max(componentTotal, existingFinal);
-
-        return {
-          bestKnownTotal,
-          componentTotal,
-          normalizedComponents: {
-            purchaseCostEgp: purchase,
-            commissionCostEgp: commission,
-            shippingCostEgp: shipping,
-            customsCostEgp: customs,
-            takhreegCostEgp: takhreeg,
-          },
-        };
-      };
+  async getPayment(id: number): Promise<ShipmentPayment | undefined> {
+    const [payment] = await db.select().from(shipmentPayments).where(eq(shipmentPayments.id, id));
+    return payment;
+  }
 
-      const amountOriginal = parseAmountOrZero(data.amountOriginal as any);
-      let exchangeRate = data.exchangeRateToEgp
-        ? parseAmountOrZero(data.exchangeRateToEgp as any)
-        : null;
+  async getPaymentAttachments(paymentId: number): Promise<PaymentAttachment[]> {
+    return db
+      .select()
+      .from(paymentAttachments)
+      .where(eq(paymentAttachments.paymentId, paymentId))
+      .orderBy(asc(paymentAttachments.createdAt), asc(paymentAttachments.id));
+  }
 
-      if (data.paymentCurrency === "RMB" && !exchangeRate) {
-        const [latestRate] = await tx
-          .select()
-          .from(exchangeRates)
-          .where(
-            and(
-              eq(exchangeRates.fromCurrency, "RMB"),
-              eq(exchangeRates.toCurrency, "EGP"),
-            ),
-          )
-          .orderBy(desc(exchangeRates.rateDate))
-          .limit(1);
+  async getPaymentAttachment(paymentId: number, attachmentId: number): Promise<PaymentAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(paymentAttachments)
+      .where(and(eq(paymentAttachments.id, attachmentId), eq(paymentAttachments.paymentId, paymentId)));
+    return attachment;
+  }
 
-        if (latestRate?.rateValue) {
-          exchangeRate = parseAmount(latestRate.rateValue);
-        } else {
-          throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, {
-            shipmentId: data.shipmentId,
-            currency: data.paymentCurrency,
-          });
-        }
-      }
+  async createPaymentAttachments(attachments: InsertPaymentAttachment[]): Promise<PaymentAttachment[]> {
+    if (attachments.length === 0) return [];
+    return db.insert(paymentAttachments).values(attachments).returning();
+  }
 
-      let normalizedAmounts;
-      try {
-        normalizedAmounts = normalizePaymentAmounts({
-          paymentCurrency: data.paymentCurrency,
-          amountOriginal,
-          exchangeRateToEgp: exchangeRate,
-        });
-      } catch (error) {
-        const message = (error as Error)?.message || "";
+  async createPayment(
+    data: InsertShipmentPayment,
+    options?: PaymentInsertOptions
+  ): Promise<RecordedPayment> {
+    return db.transaction((tx) => insertShipmentPayment(tx, data, options));
+  }
 
-        if (message.includes("سعر الصرف")) {
-          throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, {
-            shipmentId: data.shipmentId,
-            currency: data.paymentCurrency,
-          });
-        }
+  async reversePayment(
+    paymentId: number,
+    options: { reason: string; userId?: string | null },
+  ): Promise<{ original: ShipmentPayment; reversal: ShipmentPayment; shipment: Shipment }> {
+    const reason = options.reason?.trim();
+    if (!reason) {
+      throw new ApiError("PAYMENT_REASON_REQUIRED", undefined, 400, { paymentId });
+    }
 
-        if (message.includes("عملة الدفع")) {
-          throw new ApiError("PAYMENT_CURRENCY_UNSUPPORTED", undefined, 400, {
-            currency: data.paymentCurrency,
-          });
-        }
+    return db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ shipmentId: shipmentPayments.shipmentId })
+        .from(shipmentPayments)
+        .where(eq(shipmentPayments.id, paymentId));
 
-        throw new ApiError("PAYMENT_PAYLOAD_INVALID", message, 400);
+      if (!target) {
+        throw new ApiError("PAYMENT_NOT_FOUND", undefined, 404, { paymentId });
       }
 
-      const { amountEgp, exchangeRateToEgp } = normalizedAmounts;
-
-      const currentPaid = parseAmount(shipment.totalPaidEgp);
-      const { bestKnownTotal, normalizedComponents: computedComponents } = computeKnownTotals(shipment);
-      let normalizedComponents = { ...computedComponents };
-      let knownTotal = bestKnownTotal;
-
-      const canonicalUpdates: Partial<typeof shipments.$inferInsert> = {};
-
-      // Backfill EGP fields when only RMB values are present so future totals stay consistent
-      if (normalizedComponents.purchaseCostEgp > 0 && parseAmount(shipment.purchaseCostEgp) === 0) {
-        canonicalUpdates.purchaseCostEgp = roundAmount(normalizedComponents.purchaseCostEgp, 2).toFixed(2);
-      }
+      // Same row lock as createPayment so reversals and new payments on a shipment serialize
+      const [shipment] = await tx
+        .select()
+        .from(shipments)
+        .where(eq(shipments.id, target.shipmentId))
+        .for("update");
 
-      if (normalizedComponents.commissionCostEgp > 0 && parseAmount(shipment.commissionCostEgp) === 0) {
-        canonicalUpdates.commissionCostEgp = roundAmount(normalizedComponents.commissionCostEgp, 2).toFixed(2);
+      if (!shipment) {
+        throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: target.shipmentId });
       }
 
-      if (normalizedComponents.shippingCostEgp > 0 && parseAmount(shipment.shippingCostEgp) === 0) {
-        canonicalUpdates.shippingCostEgp = roundAmount(normalizedComponents.shippingCostEgp, 2).toFixed(2);
+      if (shipment.status === "مؤرشفة") {
+        throw new ApiError("SHIPMENT_LOCKED", undefined, 409, { shipmentId: shipment.id, status: shipment.status });
       }
 
-      const existingPayments = await tx
+      // Re-read under the lock so two concurrent voids cannot both pass the checks below
+      const [original] = await tx
         .select()
         .from(shipmentPayments)
-        .where(eq(shipmentPayments.shipmentId, data.shipmentId));
+        .where(eq(shipmentPayments.id, paymentId));
 
-      const paymentSnapshot = await calculatePaymentSnapshot({
-        shipment,
-        payments: existingPayments,
-        loadRecoveryData: async () => {
-          const itemsList = await tx
-            .select()
-            .from(shipmentItems)
-            .where(eq(shipmentItems.shipmentId, data.shipmentId));
-
-          const rateResult = await tx
-            .select()
-            .from(exchangeRates)
-            .where(
-              and(
-                eq(exchangeRates.fromCurrency, "RMB"),
-                eq(exchangeRates.toCurrency, "EGP"),
-              ),
-            )
-            .orderBy(desc(exchangeRates.rateDate))
-            .limit(1);
-
-          return {
-            items: itemsList,
-            rmbToEgpRate:
-              rateResult.length > 0
-                ? parseAmountOrZero(rateResult[0].rateValue)
-                : 7.15,
-          };
-        },
-      });
-
-      if (paymentSnapshot.recoveredTotals) {
-        try {
-          await tx
-            .update(shipments)
-            .set({
-              purchaseCostRmb: paymentSnapshot.recoveredTotals.purchaseCostRmb.toFixed(2),
-              purchaseCostEgp: paymentSnapshot.recoveredTotals.purchaseCostEgp.toFixed(2),
-              customsCostEgp: paymentSnapshot.recoveredTotals.customsCostEgp.toFixed(2),
-              takhreegCostEgp: paymentSnapshot.recoveredTotals.takhreegCostEgp.toFixed(2),
-              finalTotalCostEgp: paymentSnapshot.recoveredTotals.finalTotalCostEgp.toFixed(2),
-              balanceEgp: Math.max(
-                0,
-                paymentSnapshot.recoveredTotals.finalTotalCostEgp -
-                  paymentSnapshot.totalPaidEgp,
-              ).toFixed(2),
-            })
-            .where(eq(shipments.id, data.shipmentId));
-        } catch (error) {
-          console.error(
-            `[PAYMENT RECOVERY ERROR] Failed to recover costs for shipment ${data.shipmentId}:`,
-            error,
-          );
-        }
+      if (original.reversalOfPaymentId) {
+        throw new ApiError("PAYMENT_REVERSAL_INVALID", undefined, 409, { paymentId });
       }
 
-      // Align final total with the best-known calculated total without overwriting higher-confidence values
-      if (paymentSnapshot.knownTotalCost > 0 && (parseAmount(shipment.finalTotalCostEgp) === 0 || paymentSnapshot.knownTotalCost > parseAmount(shipment.finalTotalCostEgp))) {
-        canonicalUpdates.finalTotalCostEgp = roundAmount(paymentSnapshot.knownTotalCost, 2).toFixed(2);
-      }
-
-      // ONLY block if payment exceeds what's currently known/allowed
-      if (amountEgp > paymentSnapshot.remainingAllowed + 0.0001) {
-        throw new ApiError("PAYMENT_OVERPAY", 
-          `لا يمكن دفع هذا المبلغ - الحد المسموح به هو ${paymentSnapshot.remainingAllowed.toFixed(2)} جنيه`, 409, {
-          shipmentId: data.shipmentId,
-          knownTotal: paymentSnapshot.knownTotalCost,
-          alreadyPaid: paymentSnapshot.totalPaidEgp,
-          remainingAllowed: paymentSnapshot.remainingAllowed,
-          attempted: amountEgp,
+      if (original.voidedAt) {
+        throw new ApiError("PAYMENT_ALREADY_VOIDED", undefined, 409, {
+          paymentId,
+          voidedAt: original.voidedAt,
         });
       }
 
-      // Ensure paymentDate is a proper Date object
-      const paymentDate = data.paymentDate instanceof Date 
-        ? data.paymentDate 
-        : new Date(data.paymentDate as unknown as string);
+      const now = new Date();
 
-      const [payment] = await tx
+      const [reversal] = await tx
         .insert(shipmentPayments)
         .values({
-          ...data,
-          paymentDate,
-          amountOriginal: roundAmount(amountOriginal, 2).toFixed(2),
-          exchangeRateToEgp: exchangeRateToEgp ? roundAmount(exchangeRateToEgp, 4).toFixed(4) : null,
-          amountEgp: roundAmount(amountEgp, 2).toFixed(2),
+          shipmentId: original.shipmentId,
+          supplierId: original.supplierId,
+          // Reversing an applied advance hands the amount back to the advance
+          supplierAdvanceId: original.supplierAdvanceId,
+          paymentDate: now,
+          paymentCurrency: original.paymentCurrency,
+          amountOriginal: (-parseAmount(original.amountOriginal)).toFixed(2),
+          exchangeRateToEgp: original.exchangeRateToEgp,
+          amountEgp: (-parseAmount(original.amountEgp)).toFixed(2),
+          costComponent: original.costComponent,
+          paymentMethod: original.paymentMethod,
+          // Hands the money back to the account it was paid from
+          paymentAccountId: original.paymentAccountId,
+          cashReceiverName: original.cashReceiverName,
+          referenceNumber: original.referenceNumber,
+          note: `عكس الدفعة رقم ${original.id}: ${reason}`,
+          reversalOfPaymentId: original.id,
+          createdByUserId: options.userId ?? null,
         })
         .returning();
 
-      if (options?.simulatePostInsertError) {
-        throw new Error("Simulated failure after inserting payment");
-      }
+      const [voided] = await tx
+        .update(shipmentPayments)
+        .set({
+          voidedAt: now,
+          voidedByUserId: options.userId ?? null,
+          voidReason: reason,
+          updatedAt: now,
+        })
+        .where(eq(shipmentPayments.id, original.id))
+        .returning();
 
       const [paymentTotals] = await tx
         .select({
           totalPaid: sql<string>`COALESCE(SUM(${shipmentPayments.amountEgp}), 0)`,
-          lastPaymentDate: sql<Date>`MAX(${shipmentPayments.paymentDate})`,
+          lastPaymentDate: sql<Date | null>`MAX(${shipmentPayments.paymentDate}) FILTER (WHERE ${shipmentPayments.voidedAt} IS NULL AND ${shipmentPayments.reversalOfPaymentId} IS NULL)`,
         })
         .from(shipmentPayments)
-        .where(eq(shipmentPayments.shipmentId, data.shipmentId));
+        .where(eq(shipmentPayments.shipmentId, original.shipmentId));
+
+      const totalPaid = roundAmount(parseAmount(paymentTotals?.totalPaid));
+      const knownTotal = Math.max(computeKnownTotal(shipment), parseAmount(shipment.finalTotalCostEgp));
+      const balance = roundAmount(Math.max(0, knownTotal - totalPaid));
+      const rawLastPaymentDate = paymentTotals?.lastPaymentDate ?? null;
 
-      const totalPaidNumber = roundAmount(parseFloat(paymentTotals?.totalPaid || "0"));
-      // Use known total for balance calculation (allows partial payments)
-      const balance = roundAmount(
-        Math.max(0, paymentSnapshot.knownTotalCost - totalPaidNumber),
+      const [updatedShipment] = await tx
+        .update(shipments)
+        .set({
+          totalPaidEgp: totalPaid.toFixed(2),
+          balanceEgp: balance.toFixed(2),
+          lastPaymentDate: rawLastPaymentDate ? new Date(rawLastPaymentDate) : null,
+          updatedAt: now,
+        })
+        .where(eq(shipments.id, original.shipmentId))
+        .returning();
+
+      const ledgerShipment = await syncShipmentLedger(original.shipmentId, tx, options.userId);
+
+      return { original: voided, reversal, shipment: ledgerShipment ?? updatedShipment };
+    });
+  }
+
+  /**
+   * Works out each shipment's share of a remittance from its current allowance.
+   * With a transaction the shipments are locked in id order first, so two batches
+   * touching overlapping shipments wait for each other instead of deadlocking.
+   */
+  private async planRemittance(input: RemittanceInput, tx?: typeof db | any): Promise<RemittanceAllocationLine[]> {
+    const rate = input.paymentCurrency === "RMB" ? input.exchangeRateToEgp : 1;
+    if (!rate) {
+      throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, { field: "exchangeRateToEgp" });
+    }
+
+    const query = (tx ?? db)
+      .select()
+      .from(shipments)
+      .where(inArray(shipments.id, input.shipmentIds))
+      .orderBy(asc(shipments.id));
+    const selected: Shipment[] = tx ? await query.for("update") : await query;
+
+    const missing = input.shipmentIds.find((id) => !selected.some((shipment) => shipment.id === id));
+    if (missing !== undefined) {
+      throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: missing });
+    }
+    const archived = selected.find((shipment) => shipment.status === "مؤرشفة");
+    if (archived) {
+      throw new ApiError("SHIPMENT_LOCKED", undefined, 409, { shipmentId: archived.id, status: archived.status });
+    }
+    await assertAccountingPeriodsOpen([input.paymentDate], tx ?? db);
+
+    const existingPayments: ShipmentPayment[] = await (tx ?? db)
+      .select()
+      .from(shipmentPayments)
+      .where(inArray(shipmentPayments.shipmentId, input.shipmentIds));
+
+    // Each share is capped by both the shipment total and the cost component being paid
+    const candidates: RemittanceCandidate[] = [];
+    for (const shipment of selected) {
+      const { remainingAllowed } = await this.getPaymentAllowance(shipment.id, { shipment, executor: tx ?? db });
+      const componentAllowance = calculateComponentAllowance(
+        input.costComponent,
+        componentCostsEgp(shipment),
+        existingPayments.filter((payment) => payment.shipmentId === shipment.id),
       );
-      // Ensure date is a proper Date object (raw SQL may return string)
-      const rawLatestDate = paymentTotals?.lastPaymentDate || data.paymentDate || new Date();
-      const latestPaymentDate = rawLatestDate instanceof Date 
-        ? rawLatestDate 
-        : new Date(rawLatestDate as string);
-
-      const finalTotalForShipment = knownTotal > 0 ? roundAmount(knownTotal, 2).toFixed(2) : undefined;
-      const computedBalance = balance.toFixed(2);
-
-      const shipmentUpdatePayload: Partial<typeof shipments.$inferInsert> = {
-        ...canonicalUpdates,
-        totalPaidEgp: totalPaidNumber.toFixed(2),
-        balanceEgp: computedBalance,
-        lastPaymentDate: latestPaymentDate,
-        updatedAt: new Date(),
-      };
+      candidates.push({
+        shipmentId: shipment.id,
+        purchaseDate: shipment.purchaseDate,
+        remainingAllowedEgp: Math.min(remainingAllowed, componentAllowance?.remainingAllowed ?? remainingAllowed),
+      });
+    }
 
-      if (finalTotalForShipment) {
-        shipmentUpdatePayload.finalTotalCostEgp = finalTotalForShipment;
-      }
+    const shares = allocateRemittance({
+      amountOriginal: input.amountOriginal,
+      exchangeRateToEgp: rate,
+      allocationMethod: input.allocationMethod,
+      candidates,
+      allocations: input.allocations,
+    });
 
-      // Update shipment with new totals atomically
-      await tx
-        .update(shipments)
-        .set(shipmentUpdatePayload)
-        .where(eq(shipments.id, data.shipmentId));
+    return shares.map((share) => ({
+      ...share,
+      shipmentCode: selected.find((shipment) => shipment.id === share.shipmentId)!.shipmentCode,
+      remainingAllowedEgp: candidates.find((candidate) => candidate.shipmentId === share.shipmentId)!.remainingAllowedEgp,
+    }));
+  }
 
-      return payment;
+  async previewRemittance(input: RemittanceInput): Promise<RemittanceAllocationLine[]> {
+    return this.planRemittance(input);
+  }
+
+  async createRemittance(input: RemittanceInput, userId?: string | null): Promise<PaymentRemittanceWithPayments> {
+    return db.transaction(async (tx) => {
+      const lines = await this.planRemittance(input, tx);
+      const rate = input.paymentCurrency === "RMB" ? input.exchangeRateToEgp : null;
+      const paymentAccount = input.paymentAccountId
+        ? await resolvePaymentAccount(tx, input.paymentAccountId, input.paymentCurrency)
+        : null;
+
+      const [remittance] = await tx
+        .insert(paymentRemittances)
+        .values({
+          paymentDate: input.paymentDate,
+          paymentCurrency: input.paymentCurrency,
+          amountOriginal: input.amountOriginal.toFixed(2),
+          exchangeRateToEgp: rate ? roundAmount(rate, 4).toFixed(4) : null,
+          amountEgp: roundAmount(lines.reduce((sum, line) => sum + line.amountEgp, 0)).toFixed(2),
+          allocationMethod: input.allocationMethod,
+          costComponent: input.costComponent,
+          paymentMethod: paymentAccount?.paymentMethod ?? input.paymentMethod,
+          cashReceiverName: input.cashReceiverName,
+          referenceNumber: input.referenceNumber,
+          note: input.note,
+          createdByUserId: userId ?? null,
+        })
+        .returning();
+
+      const payments: ShipmentPayment[] = [];
+      for (const line of lines) {
+        payments.push(
+          await insertShipmentPayment(tx, {
+            shipmentId: line.shipmentId,
+            remittanceId: remittance.id,
+            paymentDate: input.paymentDate,
+            paymentCurrency: input.paymentCurrency,
+            amountOriginal: line.amountOriginal.toFixed(2),
+            exchangeRateToEgp: rate ? rate.toString() : null,
+            amountEgp: line.amountEgp.toFixed(2),
+            costComponent: input.costComponent,
+            paymentMethod: input.paymentMethod,
+            paymentAccountId: input.paymentAccountId,
+            cashReceiverName: input.cashReceiverName,
+            referenceNumber: input.referenceNumber,
+            note: input.note,
+            createdByUserId: userId ?? null,
+          }),
+        );
+      }
+
+      return { ...remittance, payments };
     });
   }
 
+  async getRemittance(id: number): Promise<PaymentRemittanceWithPayments | undefined> {
+    const [remittance] = await db.select().from(paymentRemittances).where(eq(paymentRemittances.id, id));
+    if (!remittance) return undefined;
+
+    const payments = await db
+      .select()
+      .from(shipmentPayments)
+      .where(eq(shipmentPayments.remittanceId, id))
+      .orderBy(asc(shipmentPayments.shipmentId));
+    return { ...remittance, payments };
+  }
+
   async getPaymentAllowance(
     shipmentId: number,
-    options?: { shipment?: Shipment },
+    options?: { shipment?: Shipment; executor?: typeof db | any },
   ): Promise<{
     knownTotal: number;
     alreadyPaid: number;
     remainingAllowed: number;
     recoveredFromItems: boolean;
   }> {
-    const shipment = options?.shipment ?? (await this.getShipment(shipmentId));
+    const executor = options?.executor ?? db;
+    const shipment: Shipment | undefined =
+      options?.shipment ?? (await executor.select().from(shipments).where(eq(shipments.id, shipmentId)))[0];
 
     if (!shipment) {
       throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId });
@@ -1033,7 +2294,7 @@ export class DatabaseStorage implements IStorage {
 
     if (knownTotal === 0) {
       try {
-        const recovery = await recoverKnownTotalFromItems(shipmentId, db);
+        const recovery = await recoverKnownTotalFromItems(shipment, executor);
         if (recovery.recoveredTotal > 0) {
           knownTotal = recovery.recoveredTotal;
           recoveredFromItems = true;
@@ -1053,17 +2314,505 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(inventoryMovements).orderBy(desc(inventoryMovements.movementDate));
   }
 
+  async getAllInventoryMovementsWithDetails(): Promise<InventoryMovementWithDetails[]> {
+    const rows = await selectInventoryMovementsWithDetails().orderBy(desc(inventoryMovements.movementDate));
+    return rows.map(toMovementWithDetails);
+  }
+
+  async listInventoryMovements(
+    filters: InventoryListFilters,
+    query: ListQuery<InventorySortField>,
+  ): Promise<Paginated<InventoryMovementWithDetails>> {
+    const conditions: SQL[] = [];
+    if (filters.movementType && filters.movementType !== "all") {
+      conditions.push(eq(inventoryMovements.movementType, filters.movementType));
+    }
+    if (filters.warehouseId) conditions.push(eq(inventoryMovements.warehouseId, filters.warehouseId));
+    if (filters.dateFrom) conditions.push(gte(inventoryMovements.movementDate, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(inventoryMovements.movementDate, filters.dateTo));
+    if (filters.shipmentCode) conditions.push(ilike(shipments.shipmentCode, containsPattern(filters.shipmentCode)));
+    if (filters.search) {
+      // Same name the page shows: the linked product, else the item it arrived as
+      const pattern = containsPattern(filters.search);
+      conditions.push(
+        or(
+          ilike(sql`coalesce(${products.name}, ${shipmentItems.productName}, '')`, pattern),
+          ilike(shipments.shipmentCode, pattern),
+        )!,
+      );
+    }
+
+    const where = conditions.length ? and(...conditions) : undefined;
+    const sortColumns = {
+      movementDate: inventoryMovements.movementDate,
+      totalPiecesIn: inventoryMovements.totalPiecesIn,
+      totalCostEgp: inventoryMovements.totalCostEgp,
+    };
+    const direction = query.sortDir === "asc" ? asc : desc;
+
+    const [rows, [{ count }]] = await Promise.all([
+      selectInventoryMovementsWithDetails()
+        .where(where)
+        .orderBy(direction(sortColumns[query.sortBy]), direction(inventoryMovements.id))
+        .limit(query.pageSize)
+        .offset(query.offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(inventoryMovements)
+        .leftJoin(shipments, eq(inventoryMovements.shipmentId, shipments.id))
+        .leftJoin(products, eq(inventoryMovements.productId, products.id))
+        .leftJoin(shipmentItems, eq(inventoryMovements.shipmentItemId, shipmentItems.id))
+        .where(where),
+    ]);
+
+    return toPage(rows.map(toMovementWithDetails), count, query);
+  }
+
   async createInventoryMovement(data: InsertInventoryMovement): Promise<InventoryMovement> {
     const [movement] = await db.insert(inventoryMovements).values(data).returning();
     return movement;
   }
 
+  async createOutboundMovement(
+    input: OutboundMovementInput,
+    userId?: string | null,
+  ): Promise<InventoryMovement> {
+    return db.transaction(async (tx) => {
+      const { target, shipmentId, movements } = await lockStockTarget(tx, input);
+      if (input.warehouseId !== null) await findActiveWarehouse(tx, input.warehouseId);
+
+      // Pieces leave a specific warehouse, so it must hold them even if the company total does
+      const available = warehouseBalance(movements, target, input.warehouseId).onHand;
+      if (input.quantity > available) {
+        throw new ApiError("INVENTORY_INSUFFICIENT_STOCK", undefined, 409, {
+          requested: input.quantity,
+          available,
+          warehouseId: input.warehouseId,
+        });
+      }
+
+      const layers = await syncInventoryCostLayers(
+        movements,
+        await tx.select().from(inventoryCostLayers).where(layerKeyCondition(target)),
+        tx,
+      );
+
+      const method = await readInventoryCostingMethod(tx);
+      const pool = calculateStockOnHand(movements).find((line) => line.key === stockKeyFor(target));
+      const { consumptions, unitCostEgp, totalCostEgp } = consumeCostLayers(
+        layers,
+        input.quantity,
+        method,
+        pool ? { quantity: pool.onHand, valueEgp: pool.valueEgp } : undefined,
+      );
+
+      const [movement] = await tx
+        .insert(inventoryMovements)
+        .values({
+          productId: input.productId,
+          shipmentItemId: target.shipmentItemId,
+          shipmentId,
+          warehouseId: input.warehouseId,
+          movementType: input.movementType,
+          totalPiecesIn: 0,
+          totalPiecesOut: input.quantity,
+          reason: input.reason,
+          unitCostEgp: unitCostEgp.toFixed(4),
+          totalCostEgp: totalCostEgp.toFixed(2),
+          movementDate: input.movementDate,
+          createdByUserId: userId ?? null,
+        })
+        .returning();
+
+      const layersById = new Map(layers.map((layer) => [layer.id, layer]));
+      for (const consumption of consumptions) {
+        await tx.insert(inventoryLayerConsumptions).values({
+          movementId: movement.id,
+          layerId: consumption.layerId,
+          costingMethod: method,
+          quantity: consumption.quantity,
+          unitCostEgp: consumption.unitCostEgp.toFixed(4),
+          totalCostEgp: consumption.totalCostEgp.toFixed(2),
+        });
+        await tx
+          .update(inventoryCostLayers)
+          .set({ remainingQuantity: layersById.get(consumption.layerId)!.remainingQuantity - consumption.quantity })
+          .where(eq(inventoryCostLayers.id, consumption.layerId));
+      }
+
+      return movement;
+    });
+  }
+
+  async getInventoryValuation(): Promise<InventoryValuation> {
+    const [movements, storedLayers, method, stock, shipmentCodes] = await Promise.all([
+      this.getAllInventoryMovements(),
+      db.select().from(inventoryCostLayers),
+      readInventoryCostingMethod(),
+      this.getStockOnHand(),
+      db.select({ id: shipments.id, shipmentCode: shipments.shipmentCode }).from(shipments),
+    ]);
+    const layers = await db.transaction((tx) => syncInventoryCostLayers(movements, storedLayers, tx));
+
+    const movementsById = new Map(movements.map((movement) => [movement.id, movement]));
+    const codes = new Map(shipmentCodes.map((row) => [row.id, row.shipmentCode]));
+    const cogsByKey = new Map<string, number>();
+    for (const movement of movements) {
+      if (!isOutboundMovementType(movement.movementType)) continue;
+      const key = stockKeyFor(movement);
+      cogsByKey.set(key, (cogsByKey.get(key) ?? 0) + parseAmount(movement.totalCostEgp));
+    }
+
+    const lines = stock.map((line) => {
+      const valued = valueCostLayers(
+        layers.filter((layer) => stockKeyFor(layer) === line.key),
+        method,
+        { quantity: line.onHand, valueEgp: line.valueEgp },
+      );
+      return {
+        key: line.key,
+        productId: line.productId,
+        shipmentItemId: line.shipmentItemId,
+        productName: line.productName,
+        quantity: valued.quantity,
+        valueEgp: valued.valueEgp,
+        cogsEgp: roundAmount(cogsByKey.get(line.key) ?? 0),
+        layers: valued.layers.map((layer) => {
+          const shipmentId = movementsById.get(layer.receiptMovementId)?.shipmentId;
+          return {
+            id: layer.id,
+            layerDate: layer.layerDate,
+            receiptMovementId: layer.receiptMovementId,
+            shipmentCode: shipmentId ? codes.get(shipmentId) ?? null : null,
+            originalQuantity: layer.originalQuantity,
+            remainingQuantity: layer.remainingQuantity,
+            unitCostEgp: parseAmount(layer.unitCostEgp),
+            effectiveUnitCostEgp: layer.effectiveUnitCostEgp,
+            valueEgp: layer.valueEgp,
+          };
+        }),
+      };
+    });
+
+    return {
+      method,
+      totals: {
+        quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+        valueEgp: roundAmount(lines.reduce((sum, line) => sum + line.valueEgp, 0)),
+        cogsEgp: roundAmount(lines.reduce((sum, line) => sum + line.cogsEgp, 0)),
+      },
+      lines,
+    };
+  }
+
+  // Warehouses
+  async getAllWarehouses(): Promise<Warehouse[]> {
+    return db.select().from(warehouses).orderBy(warehouses.name);
+  }
+
+  async getWarehouse(id: number): Promise<Warehouse | undefined> {
+    const [warehouse] = await db.select().from(warehouses).where(eq(warehouses.id, id));
+    return warehouse;
+  }
+
+  async createWarehouse(data: InsertWarehouse): Promise<Warehouse> {
+    const [warehouse] = await db.insert(warehouses).values(data).returning();
+    return warehouse;
+  }
+
+  async updateWarehouse(id: number, data: Partial<InsertWarehouse>): Promise<Warehouse | undefined> {
+    const [warehouse] = await db
+      .update(warehouses)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(warehouses.id, id))
+      .returning();
+    return warehouse;
+  }
+
+  async getInventoryTransfers(): Promise<InventoryTransferWithNames[]> {
+    const [transfers, allWarehouses, allProducts, items] = await Promise.all([
+      db.select().from(inventoryTransfers).orderBy(desc(inventoryTransfers.sentAt)),
+      this.getAllWarehouses(),
+      this.getAllProducts(),
+      db.select({ id: shipmentItems.id, productName: shipmentItems.productName }).from(shipmentItems),
+    ]);
+    const warehouseNames = new Map(allWarehouses.map((warehouse) => [warehouse.id, warehouse.name]));
+    const productNames = new Map(allProducts.map((product) => [product.id, product.name]));
+    const itemNames = new Map(items.map((item) => [item.id, item.productName]));
+
+    return transfers.map((transfer) => ({
+      ...transfer,
+      productName:
+        (transfer.productId ? productNames.get(transfer.productId) : itemNames.get(transfer.shipmentItemId ?? -1)) ??
+        "-",
+      fromWarehouseName: warehouseNames.get(transfer.fromWarehouseId) ?? "-",
+      toWarehouseName: warehouseNames.get(transfer.toWarehouseId) ?? "-",
+    }));
+  }
+
+  /**
+   * Sends stock from one warehouse to another. The pieces leave the source at
+   * its average cost straight away and stay in transit until received.
+   */
+  async createInventoryTransfer(input: TransferInput, userId?: string | null): Promise<InventoryTransfer> {
+    return db.transaction(async (tx) => {
+      const { target, shipmentId, movements } = await lockStockTarget(tx, input);
+      const [source] = await tx.select().from(warehouses).where(eq(warehouses.id, input.fromWarehouseId));
+      if (!source) {
+        throw new ApiError("WAREHOUSE_NOT_FOUND", undefined, 404, { warehouseId: input.fromWarehouseId });
+      }
+      const destination = await findActiveWarehouse(tx, input.toWarehouseId);
+
+      const balance = warehouseBalance(movements, target, source.id);
+      if (input.quantity > balance.onHand) {
+        throw new ApiError("INVENTORY_INSUFFICIENT_STOCK", undefined, 409, {
+          requested: input.quantity,
+          available: balance.onHand,
+          warehouseId: source.id,
+        });
+      }
+      const totalCostEgp =
+        input.quantity === balance.onHand
+          ? balance.valueEgp
+          : roundAmount((balance.valueEgp / balance.onHand) * input.quantity);
+
+      const [outMovement] = await tx
+        .insert(inventoryMovements)
+        .values({
+          productId: target.productId,
+          shipmentItemId: target.shipmentItemId,
+          shipmentId,
+          warehouseId: source.id,
+          movementType: TRANSFER_OUT_MOVEMENT_TYPE,
+          totalPiecesIn: 0,
+          totalPiecesOut: input.quantity,
+          reason: input.note ?? `تحويل إلى ${destination.name}`,
+          unitCostEgp: (totalCostEgp / input.quantity).toFixed(4),
+          totalCostEgp: totalCostEgp.toFixed(2),
+          movementDate: new Date().toISOString().slice(0, 10),
+          createdByUserId: userId ?? null,
+        })
+        .returning();
+
+      const [transfer] = await tx
+        .insert(inventoryTransfers)
+        .values({
+          productId: target.productId,
+          shipmentItemId: target.shipmentItemId,
+          fromWarehouseId: source.id,
+          toWarehouseId: destination.id,
+          quantity: input.quantity,
+          status: TRANSFER_IN_TRANSIT_STATUS,
+          note: input.note,
+          outMovementId: outMovement.id,
+          createdByUserId: userId ?? null,
+        })
+        .returning();
+      return transfer;
+    });
+  }
+
+  // Books the pieces of an in-transit transfer into the destination at the cost they left the source
+  async receiveInventoryTransfer(id: number, userId?: string | null): Promise<InventoryTransfer> {
+    return db.transaction(async (tx) => {
+      const [transfer] = await tx
+        .select()
+        .from(inventoryTransfers)
+        .where(eq(inventoryTransfers.id, id))
+        .for("update");
+      if (!transfer) {
+        throw new ApiError("TRANSFER_NOT_FOUND", undefined, 404, { transferId: id });
+      }
+      if (transfer.status === TRANSFER_RECEIVED_STATUS) {
+        throw new ApiError("TRANSFER_ALREADY_RECEIVED", undefined, 409, { transferId: id });
+      }
+
+      const [outMovement] = transfer.outMovementId
+        ? await tx.select().from(inventoryMovements).where(eq(inventoryMovements.id, transfer.outMovementId))
+        : [];
+      const [source] = await tx.select().from(warehouses).where(eq(warehouses.id, transfer.fromWarehouseId));
+
+      const [inMovement] = await tx
+        .insert(inventoryMovements)
+        .values({
+          productId: transfer.productId,
+          shipmentItemId: transfer.shipmentItemId,
+          shipmentId: outMovement?.shipmentId ?? null,
+          warehouseId: transfer.toWarehouseId,
+          movementType: TRANSFER_IN_MOVEMENT_TYPE,
+          totalPiecesIn: transfer.quantity,
+          totalPiecesOut: 0,
+          reason: `تحويل من ${source?.name ?? "-"}`,
+          unitCostEgp: outMovement?.unitCostEgp ?? "0",
+          totalCostEgp: outMovement?.totalCostEgp ?? "0",
+          movementDate: new Date().toISOString().slice(0, 10),
+          createdByUserId: userId ?? null,
+        })
+        .returning();
+
+      const [received] = await tx
+        .update(inventoryTransfers)
+        .set({
+          status: TRANSFER_RECEIVED_STATUS,
+          inMovementId: inMovement.id,
+          receivedAt: new Date(),
+          receivedByUserId: userId ?? null,
+        })
+        .where(eq(inventoryTransfers.id, id))
+        .returning();
+      return received;
+    });
+  }
+
+  // Settings
+  async getInventoryCostingMethod(): Promise<InventoryCostingMethod> {
+    return readInventoryCostingMethod();
+  }
+
+  async setInventoryCostingMethod(
+    method: InventoryCostingMethod,
+    userId?: string | null,
+  ): Promise<InventoryCostingMethod> {
+    const values = { value: method, updatedByUserId: userId ?? null, updatedAt: new Date() };
+    await db
+      .insert(appSettings)
+      .values({ key: INVENTORY_COSTING_SETTING_KEY, ...values })
+      .onConflictDoUpdate({ target: appSettings.key, set: values });
+    return method;
+  }
+
+  async getAccountMappings(): Promise<AccountMapping[]> {
+    return db.select().from(accountMappings).orderBy(accountMappings.mappingType, accountMappings.sourceKey);
+  }
+
+  async saveAccountMappings(mappings: AccountMappingInput[], userId?: string | null): Promise<AccountMapping[]> {
+    await db.transaction(async (tx) => {
+      for (const mapping of mappings) {
+        const values = {
+          accountCode: mapping.accountCode,
+          accountName: mapping.accountName,
+          updatedByUserId: userId ?? null,
+          updatedAt: new Date(),
+        };
+        await tx
+          .insert(accountMappings)
+          .values({ mappingType: mapping.mappingType, sourceKey: mapping.sourceKey, ...values })
+          .onConflictDoUpdate({ target: [accountMappings.mappingType, accountMappings.sourceKey], set: values });
+      }
+    });
+    return this.getAccountMappings();
+  }
+
+  async getAccountingPeriods(): Promise<AccountingPeriod[]> {
+    return db.select().from(accountingPeriods).orderBy(desc(accountingPeriods.periodMonth));
+  }
+
+  async getAccountingPeriod(periodMonth: string): Promise<AccountingPeriod | undefined> {
+    const [period] = await db.select().from(accountingPeriods).where(eq(accountingPeriods.periodMonth, periodMonth));
+    return period;
+  }
+
+  async closeAccountingPeriod(periodMonth: string, userId?: string | null): Promise<AccountingPeriod> {
+    const values = {
+      status: PERIOD_CLOSED_STATUS,
+      closedByUserId: userId ?? null,
+      closedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const [period] = await db
+      .insert(accountingPeriods)
+      .values({ periodMonth, ...values })
+      .onConflictDoUpdate({ target: accountingPeriods.periodMonth, set: values })
+      .returning();
+    return period;
+  }
+
+  async reopenAccountingPeriod(periodMonth: string, userId?: string | null): Promise<AccountingPeriod> {
+    const [period] = await db
+      .update(accountingPeriods)
+      .set({
+        status: PERIOD_OPEN_STATUS,
+        reopenedByUserId: userId ?? null,
+        reopenedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(accountingPeriods.periodMonth, periodMonth), eq(accountingPeriods.status, PERIOD_CLOSED_STATUS)))
+      .returning();
+    if (!period) {
+      throw new ApiError("PERIOD_INVALID", "الفترة المحاسبية ليست مغلقة.", 409, { period: periodMonth });
+    }
+    return period;
+  }
+
+  async getStockOnHand(): Promise<StockOnHandLine[]> {
+    const [movements, allProducts, items] = await Promise.all([
+      this.getAllInventoryMovements(),
+      this.getAllProducts(),
+      db.select({ id: shipmentItems.id, productName: shipmentItems.productName }).from(shipmentItems),
+    ]);
+    const productsById = new Map(allProducts.map((product) => [product.id, product]));
+    const itemNames = new Map(items.map((item) => [item.id, item.productName]));
+
+    return calculateStockOnHand(movements)
+      .map((line) => {
+        const product = line.productId ? productsById.get(line.productId) : undefined;
+        return {
+          ...line,
+          productName: product?.name ?? itemNames.get(line.shipmentItemId ?? -1) ?? "-",
+          productType: product?.type ?? null,
+        };
+      })
+      .sort((a, b) => a.productName.localeCompare(b.productName, "ar"));
+  }
+
   // Audit
   async createAuditLog(data: InsertAuditLog): Promise<AuditLog> {
     const [log] = await db.insert(auditLogs).values(data).returning();
     return log;
   }
 
+  async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogWithUser[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters?.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters?.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters?.actionType) conditions.push(eq(auditLogs.actionType, filters.actionType));
+    if (filters?.dateFrom) {
+      conditions.push(gte(auditLogs.timestamp, new Date(filters.dateFrom)));
+    }
+    if (filters?.dateTo) {
+      // Inclusive of the whole "to" day
+      conditions.push(sql`${auditLogs.timestamp} < (${filters.dateTo}::date + interval '1 day')`);
+    }
+    if (filters?.shipmentId) {
+      const shipmentKey = String(filters.shipmentId);
+      conditions.push(
+        or(
+          and(eq(auditLogs.entityType, "SHIPMENT"), eq(auditLogs.entityId, shipmentKey)),
+          sql`${auditLogs.details}->>'shipmentId' = ${shipmentKey}`,
+        )!,
+      );
+    }
+
+    const rows = await db
+      .select({
+        log: auditLogs,
+        firstName: users.firstName,
+        username: users.username,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+      .limit(filters?.limit ?? 500);
+
+    return rows.map(({ log, firstName, username }) => ({
+      ...log,
+      userName: firstName || username || null,
+    }));
+  }
+
   // Dashboard Stats
   async getDashboardStats() {
     const allShipments = await this.getAllShipments();
@@ -1149,25 +2898,52 @@ export class DatabaseStorage implements IStorage {
 
   // Inventory Stats
   async getInventoryStats() {
-    const movements = await this.getAllInventoryMovements();
+    const [movements, allWarehouses, openTransfers] = await Promise.all([
+      this.getAllInventoryMovements(),
+      this.getAllWarehouses(),
+      db
+        .select({ quantity: inventoryTransfers.quantity })
+        .from(inventoryTransfers)
+        .where(eq(inventoryTransfers.status, TRANSFER_IN_TRANSIT_STATUS)),
+    ]);
+
+    // Figures describe stock on hand, net of sales, returns, damages and samples
+    const stock = calculateStockOnHand(movements).filter((line) => line.onHand > 0);
+
+    const totalPieces = stock.reduce((sum, line) => sum + line.onHand, 0);
+    const totalCostEgp = stock.reduce((sum, line) => sum + line.valueEgp, 0);
+    const avgUnitCostEgp = totalPieces > 0 ? totalCostEgp / totalPieces : 0;
 
-    const totalPieces = movements.reduce(
-      (sum, m) => sum + (m.totalPiecesIn || 0),
-      0
+    // Every active warehouse is listed, plus any stock received before warehouses existed
+    const byWarehouse = new Map<number | null, { totalPieces: number; totalCostEgp: number; totalItems: number }>(
+      allWarehouses.filter((warehouse) => warehouse.isActive).map((warehouse) => [
+        warehouse.id,
+        { totalPieces: 0, totalCostEgp: 0, totalItems: 0 },
+      ]),
     );
-
-    const totalCostEgp = movements.reduce(
-      (sum, m) => sum + parseFloat(m.totalCostEgp || "0"),
-      0
-    );
-
-    const avgUnitCostEgp = totalPieces > 0 ? totalCostEgp / totalPieces : 0;
+    for (const line of calculateWarehouseStock(movements)) {
+      if (line.onHand <= 0) continue;
+      const entry = byWarehouse.get(line.warehouseId) ?? { totalPieces: 0, totalCostEgp: 0, totalItems: 0 };
+      entry.totalPieces += line.onHand;
+      entry.totalCostEgp += line.valueEgp;
+      entry.totalItems += 1;
+      byWarehouse.set(line.warehouseId, entry);
+    }
+    const warehouseNames = new Map(allWarehouses.map((warehouse) => [warehouse.id, warehouse.name]));
 
     return {
       totalPieces,
       totalCostEgp: totalCostEgp.toFixed(2),
-      totalItems: movements.length,
+      totalItems: stock.length,
       avgUnitCostEgp: avgUnitCostEgp.toFixed(4),
+      inTransitPieces: openTransfers.reduce((sum, transfer) => sum + transfer.quantity, 0),
+      byWarehouse: Array.from(byWarehouse.entries()).map(([warehouseId, entry]) => ({
+        warehouseId,
+        warehouseName: warehouseId === null ? "غير محدد" : warehouseNames.get(warehouseId) ?? "-",
+        totalPieces: entry.totalPieces,
+        totalCostEgp: entry.totalCostEgp.toFixed(2),
+        totalItems: entry.totalItems,
+      })),
     };
   }
 
@@ -1183,9 +2959,6 @@ export class DatabaseStorage implements IStorage {
   }) {
     const allShipments = await this.getAllShipments();
     const allPayments = await this.getAllPayments();
-    const allItems = await Promise.all(
-      allShipments.map(s => this.getShipmentItems(s.id))
-    );
 
     let filteredShipments = allShipments;
     
@@ -1220,12 +2993,11 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (filters?.supplierId) {
-      const shipmentItemsForFilter = allItems.flat();
-      const shipmentIdsWithSupplier = new Set(
-        shipmentItemsForFilter
-          .filter(item => item.supplierId === filters.supplierId)
-          .map(item => item.shipmentId)
-      );
+      const supplierShipmentRows = await db
+        .selectDistinct({ shipmentId: shipmentItems.shipmentId })
+        .from(shipmentItems)
+        .where(eq(shipmentItems.supplierId, filters.supplierId));
+      const shipmentIdsWithSupplier = new Set(supplierShipmentRows.map(row => row.shipmentId));
       filteredShipments = filteredShipments.filter(s => shipmentIdsWithSupplier.has(s.id));
     }
 
@@ -1328,9 +3100,17 @@ export class DatabaseStorage implements IStorage {
       .reduce((sum, p) => sum + parseFloat(p.amountEgp || "0"), 0);
     const totalBalanceTakhreegEgp = Math.max(0, totalTakhreegEgp - totalPaidTakhreegEgp);
 
-    const filteredItems = allItems.flat().filter(item => filteredShipmentIds.has(item.shipmentId));
-    const totalCartons = filteredItems.reduce((sum, item) => sum + (item.cartonsCtn || 0), 0);
-    const totalPieces = filteredItems.reduce((sum, item) => sum + (item.totalPiecesCou || 0), 0);
+    const itemTotals = await db
+      .select({
+        shipmentId: shipmentItems.shipmentId,
+        cartons: sql<number>`coalesce(sum(${shipmentItems.cartonsCtn}), 0)::int`,
+        pieces: sql<number>`coalesce(sum(${shipmentItems.totalPiecesCou}), 0)::int`,
+      })
+      .from(shipmentItems)
+      .groupBy(shipmentItems.shipmentId);
+    const filteredItemTotals = itemTotals.filter(row => filteredShipmentIds.has(row.shipmentId));
+    const totalCartons = filteredItemTotals.reduce((sum, row) => sum + row.cartons, 0);
+    const totalPieces = filteredItemTotals.reduce((sum, row) => sum + row.pieces, 0);
 
     const totalCostRmb = totalPurchaseRmb + totalShippingRmb + totalCommissionRmb - totalDiscountRmb;
     const totalBalanceRmb = Math.max(0, totalCostRmb - totalPaidRmb);
@@ -1341,46 +3121,465 @@ export class DatabaseStorage implements IStorage {
       return Math.max(0, cost - paid) > 0.0001;
     }).length;
 
-    return {
-      totalPurchaseRmb: totalPurchaseRmb.toFixed(2),
-      totalPurchaseEgp: totalPurchaseEgp.toFixed(2),
-      totalDiscountRmb: totalDiscountRmb.toFixed(2),
-      totalShippingRmb: totalShippingRmb.toFixed(2),
-      totalShippingEgp: totalShippingEgp.toFixed(2),
-      totalCommissionRmb: totalCommissionRmb.toFixed(2),
-      totalCommissionEgp: totalCommissionEgp.toFixed(2),
-      totalCustomsEgp: totalCustomsEgp.toFixed(2),
-      totalTakhreegEgp: totalTakhreegEgp.toFixed(2),
-      totalCostEgp: totalCostEgp.toFixed(2),
-      totalCostRmb: totalCostRmb.toFixed(2),
-      totalPaidEgp: totalPaidEgp.toFixed(2),
-      totalPaidRmb: totalPaidRmb.toFixed(2),
-      totalBalanceEgp: totalBalanceEgp.toFixed(2),
-      totalBalanceRmb: totalBalanceRmb.toFixed(2),
-      totalCartons,
-      totalPieces,
-      unsettledShipmentsCount,
-      shipmentsCount: filteredShipments.length,
-      totalPaidShippingRmb: totalPaidShippingRmb.toFixed(2),
-      totalBalanceShippingRmb: totalBalanceShippingRmb.toFixed(2),
-      totalPaidShippingEgp: totalPaidShippingEgp.toFixed(2),
-      totalBalanceShippingEgp: totalBalanceShippingEgp.toFixed(2),
-      totalPaidCommissionRmb: totalPaidCommissionRmb.toFixed(2),
-      totalBalanceCommissionRmb: totalBalanceCommissionRmb.toFixed(2),
-      totalPaidCommissionEgp: totalPaidCommissionEgp.toFixed(2),
-      totalBalanceCommissionEgp: totalBalanceCommissionEgp.toFixed(2),
-      totalPaidPurchaseRmb: totalPaidPurchaseRmb.toFixed(2),
-      totalBalancePurchaseRmb: totalBalancePurchaseRmb.toFixed(2),
-      totalPaidPurchaseEgp: totalPaidPurchaseEgp.toFixed(2),
-      totalBalancePurchaseEgp: totalBalancePurchaseEgp.toFixed(2),
-      totalPaidCustomsEgp: totalPaidCustomsEgp.toFixed(2),
-      totalBalanceCustomsEgp: totalBalanceCustomsEgp.toFixed(2),
-      totalPaidTakhreegEgp: totalPaidTakhreegEgp.toFixed(2),
-      totalBalanceTakhreegEgp: totalBalanceTakhreegEgp.toFixed(2),
-    };
+    return {
+      totalPurchaseRmb: totalPurchaseRmb.toFixed(2),
+      totalPurchaseEgp: totalPurchaseEgp.toFixed(2),
+      totalDiscountRmb: totalDiscountRmb.toFixed(2),
+      totalShippingRmb: totalShippingRmb.toFixed(2),
+      totalShippingEgp: totalShippingEgp.toFixed(2),
+      totalCommissionRmb: totalCommissionRmb.toFixed(2),
+      totalCommissionEgp: totalCommissionEgp.toFixed(2),
+      totalCustomsEgp: totalCustomsEgp.toFixed(2),
+      totalTakhreegEgp: totalTakhreegEgp.toFixed(2),
+      totalCostEgp: totalCostEgp.toFixed(2),
+      totalCostRmb: totalCostRmb.toFixed(2),
+      totalPaidEgp: totalPaidEgp.toFixed(2),
+      totalPaidRmb: totalPaidRmb.toFixed(2),
+      totalBalanceEgp: totalBalanceEgp.toFixed(2),
+      totalBalanceRmb: totalBalanceRmb.toFixed(2),
+      totalCartons,
+      totalPieces,
+      unsettledShipmentsCount,
+      shipmentsCount: filteredShipments.length,
+      totalPaidShippingRmb: totalPaidShippingRmb.toFixed(2),
+      totalBalanceShippingRmb: totalBalanceShippingRmb.toFixed(2),
+      totalPaidShippingEgp: totalPaidShippingEgp.toFixed(2),
+      totalBalanceShippingEgp: totalBalanceShippingEgp.toFixed(2),
+      totalPaidCommissionRmb: totalPaidCommissionRmb.toFixed(2),
+      totalBalanceCommissionRmb: totalBalanceCommissionRmb.toFixed(2),
+      totalPaidCommissionEgp: totalPaidCommissionEgp.toFixed(2),
+      totalBalanceCommissionEgp: totalBalanceCommissionEgp.toFixed(2),
+      totalPaidPurchaseRmb: totalPaidPurchaseRmb.toFixed(2),
+      totalBalancePurchaseRmb: totalBalancePurchaseRmb.toFixed(2),
+      totalPaidPurchaseEgp: totalPaidPurchaseEgp.toFixed(2),
+      totalBalancePurchaseEgp: totalBalancePurchaseEgp.toFixed(2),
+      totalPaidCustomsEgp: totalPaidCustomsEgp.toFixed(2),
+      totalBalanceCustomsEgp: totalBalanceCustomsEgp.toFixed(2),
+      totalPaidTakhreegEgp: totalPaidTakhreegEgp.toFixed(2),
+      totalBalanceTakhreegEgp: totalBalanceTakhreegEgp.toFixed(2),
+    };
+  }
+
+  // Supplier Balances
+  // Per-supplier cost attribution shared by the supplier balance, statement and movement reports,
+  // summed in SQL from the shipments' stored landed-cost lines
+  private async loadSupplierAllocations(scope: Shipment[]): Promise<Map<number, SupplierCostAllocation[]>> {
+    if (scope.length === 0) return new Map();
+
+    const sums = await db
+      .select({
+        shipmentId: shipmentItemLandedCosts.shipmentId,
+        supplierId: shipmentItems.supplierId,
+        purchaseCostEgp: sql<string>`sum(${shipmentItemLandedCosts.purchaseCostEgp})`,
+        commissionCostEgp: sql<string>`sum(${shipmentItemLandedCosts.commissionShareEgp})`,
+        shippingCostEgp: sql<string>`sum(${shipmentItemLandedCosts.shippingShareEgp})`,
+        customsCostEgp: sql<string>`sum(${shipmentItemLandedCosts.customsShareEgp})`,
+        takhreegCostEgp: sql<string>`sum(${shipmentItemLandedCosts.takhreegShareEgp})`,
+        totalCostEgp: sql<string>`sum(${shipmentItemLandedCosts.totalLandedCostEgp})`,
+      })
+      .from(shipmentItemLandedCosts)
+      .innerJoin(shipmentItems, eq(shipmentItemLandedCosts.shipmentItemId, shipmentItems.id))
+      .where(inArray(shipmentItemLandedCosts.shipmentId, scope.map((shipment) => shipment.id)))
+      .groupBy(shipmentItemLandedCosts.shipmentId, shipmentItems.supplierId)
+      // Suppliers come in the order of their first item, so payment splits round the same way
+      .orderBy(sql`min(${shipmentItems.id})`);
+
+    // Shipments whose breakdown was never stored are allocated from their items instead
+    const withLines = new Set(sums.map((row) => row.shipmentId));
+    const missingIds = scope.map((shipment) => shipment.id).filter((id) => !withLines.has(id));
+    const itemsWithoutLines = new Map<number, ShipmentItem[]>();
+    if (missingIds.length > 0) {
+      const missingItems = await db
+        .select()
+        .from(shipmentItems)
+        .where(inArray(shipmentItems.shipmentId, missingIds))
+        .orderBy(shipmentItems.id);
+      for (const item of missingItems) {
+        itemsWithoutLines.set(item.shipmentId, [...(itemsWithoutLines.get(item.shipmentId) ?? []), item]);
+      }
+    }
+
+    return allocationsFromLandedCostSums(scope, sums, itemsWithoutLines);
+  }
+
+  // One shipment's split by supplier, from the same source the supplier reports use
+  async getSupplierAllocations(shipment: Shipment): Promise<SupplierCostAllocation[]> {
+    return (await this.loadSupplierAllocations([shipment])).get(shipment.id) ?? [];
+  }
+
+  // Payments on the given shipments, with the report's date and payment filters applied in SQL
+  private async loadScopedPayments(
+    shipmentIds: number[],
+    filters?: { dateFrom?: string; dateTo?: string; costComponent?: string; paymentMethod?: string },
+  ): Promise<ShipmentPayment[]> {
+    if (shipmentIds.length === 0) return [];
+
+    const conditions: SQL[] = [inArray(shipmentPayments.shipmentId, shipmentIds)];
+    if (filters?.dateFrom) conditions.push(gte(shipmentPayments.paymentDate, new Date(filters.dateFrom)));
+    if (filters?.dateTo) conditions.push(lte(shipmentPayments.paymentDate, new Date(filters.dateTo)));
+    if (filters?.costComponent) conditions.push(eq(shipmentPayments.costComponent, filters.costComponent));
+    if (filters?.paymentMethod) conditions.push(eq(shipmentPayments.paymentMethod, filters.paymentMethod));
+
+    return db
+      .select()
+      .from(shipmentPayments)
+      .where(and(...conditions))
+      .orderBy(desc(shipmentPayments.paymentDate));
+  }
+
+  // Shipments purchased inside the range, narrowed further by any extra conditions
+  private async getShipmentsByPurchaseDate(
+    filters?: { dateFrom?: string; dateTo?: string },
+    extra: SQL[] = [],
+  ): Promise<Shipment[]> {
+    const conditions = [...extra];
+    if (filters?.dateFrom) conditions.push(gte(shipments.purchaseDate, filters.dateFrom));
+    if (filters?.dateTo) conditions.push(lte(shipments.purchaseDate, filters.dateTo));
+    return db
+      .select()
+      .from(shipments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(shipments.createdAt));
+  }
+
+  // FX gain/loss: the period filters payment dates, open balances are revalued at today's rate
+  async getFxGainLossReport(filters?: {
+    dateFrom?: string;
+    dateTo?: string;
+    shipmentCode?: string;
+    includeArchived?: boolean;
+  }): Promise<FxGainLossReport> {
+    let scopedShipments = await this.getAllShipments();
+    if (!filters?.includeArchived) {
+      scopedShipments = scopedShipments.filter((s) => s.status !== "مؤرشفة");
+    }
+    if (filters?.shipmentCode) {
+      const code = filters.shipmentCode.toLowerCase();
+      scopedShipments = scopedShipments.filter((s) => s.shipmentCode?.toLowerCase().includes(code));
+    }
+
+    const [allPayments, allShippingDetails, currentRate] = await Promise.all([
+      this.getAllPayments(),
+      db.select().from(shipmentShippingDetails),
+      findRateForDate(db, "RMB", "EGP", new Date()),
+    ]);
+
+    const paymentsByShipment = new Map<number, ShipmentPayment[]>();
+    for (const payment of allPayments) {
+      const list = paymentsByShipment.get(payment.shipmentId) ?? [];
+      list.push(payment);
+      paymentsByShipment.set(payment.shipmentId, list);
+    }
+    const shippingByShipment = new Map(allShippingDetails.map((details) => [details.shipmentId, details]));
+
+    const currentRateValue = parseAmountOrZero(currentRate?.rateValue);
+    return buildFxGainLossReport(
+      scopedShipments.map((shipment) => ({
+        shipment,
+        shippingDetails: shippingByShipment.get(shipment.id) ?? null,
+        payments: paymentsByShipment.get(shipment.id) ?? [],
+      })),
+      {
+        currentRate: currentRateValue > 0 ? currentRateValue : null,
+        currentRateDate: currentRate?.rateDate ?? null,
+        period: { dateFrom: filters?.dateFrom, dateTo: filters?.dateTo },
+      },
+    );
+  }
+
+  // Receiving
+  async getShipmentReceipts(shipmentId: number): Promise<ShipmentItemReceipt[]> {
+    return db
+      .select()
+      .from(shipmentItemReceipts)
+      .where(eq(shipmentItemReceipts.shipmentId, shipmentId))
+      .orderBy(shipmentItemReceipts.shipmentItemId);
+  }
+
+  async getReceivingDiscrepancies(filters?: {
+    dateFrom?: string;
+    dateTo?: string;
+    supplierId?: number;
+    shipmentId?: number;
+  }): Promise<DiscrepancyReport> {
+    const conditions: SQL[] = [];
+    if (filters?.supplierId) conditions.push(eq(shipmentItemReceipts.supplierId, filters.supplierId));
+    if (filters?.shipmentId) conditions.push(eq(shipmentItemReceipts.shipmentId, filters.shipmentId));
+    if (filters?.dateFrom) conditions.push(gte(shipmentItemReceipts.receivedAt, new Date(filters.dateFrom)));
+    if (filters?.dateTo) {
+      // Inclusive of the whole "to" day
+      conditions.push(sql`${shipmentItemReceipts.receivedAt} < (${filters.dateTo}::date + interval '1 day')`);
+    }
+
+    const rows = await db
+      .select({
+        receipt: shipmentItemReceipts,
+        shipmentCode: shipments.shipmentCode,
+        productName: shipmentItems.productName,
+        supplierName: suppliers.name,
+      })
+      .from(shipmentItemReceipts)
+      .innerJoin(shipments, eq(shipmentItemReceipts.shipmentId, shipments.id))
+      .innerJoin(shipmentItems, eq(shipmentItemReceipts.shipmentItemId, shipmentItems.id))
+      .leftJoin(suppliers, eq(shipmentItemReceipts.supplierId, suppliers.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(shipmentItemReceipts.receivedAt));
+
+    return buildDiscrepancyReport(
+      rows.map((row) => ({
+        ...row.receipt,
+        shipmentCode: row.shipmentCode,
+        productName: row.productName,
+        supplierName: row.supplierName,
+      })),
+    );
+  }
+
+  async getSupplierClaims(filters?: { supplierId?: number; shipmentId?: number }): Promise<SupplierClaimWithNames[]> {
+    const conditions: SQL[] = [];
+    if (filters?.supplierId) conditions.push(eq(supplierClaims.supplierId, filters.supplierId));
+    if (filters?.shipmentId) conditions.push(eq(supplierClaims.shipmentId, filters.shipmentId));
+
+    const rows = await db
+      .select({ claim: supplierClaims, supplierName: suppliers.name, shipmentCode: shipments.shipmentCode })
+      .from(supplierClaims)
+      .innerJoin(suppliers, eq(supplierClaims.supplierId, suppliers.id))
+      .innerJoin(shipments, eq(supplierClaims.shipmentId, shipments.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(supplierClaims.createdAt));
+
+    return rows.map((row) => ({ ...row.claim, supplierName: row.supplierName, shipmentCode: row.shipmentCode }));
+  }
+
+  // Supplier Credit Notes
+  async getSupplierCreditNotes(filters?: {
+    supplierId?: number;
+    shipmentId?: number;
+    status?: string;
+  }): Promise<SupplierCreditNoteWithNames[]> {
+    const conditions: SQL[] = [];
+    if (filters?.supplierId) conditions.push(eq(supplierCreditNotes.supplierId, filters.supplierId));
+    if (filters?.shipmentId) conditions.push(eq(supplierCreditNotes.shipmentId, filters.shipmentId));
+    if (filters?.status && filters.status !== "all") conditions.push(eq(supplierCreditNotes.status, filters.status));
+
+    const rows = await db
+      .select({
+        note: supplierCreditNotes,
+        supplierName: suppliers.name,
+        shipmentCode: shipments.shipmentCode,
+        productName: shipmentItems.productName,
+      })
+      .from(supplierCreditNotes)
+      .innerJoin(suppliers, eq(supplierCreditNotes.supplierId, suppliers.id))
+      .innerJoin(shipments, eq(supplierCreditNotes.shipmentId, shipments.id))
+      .leftJoin(shipmentItems, eq(supplierCreditNotes.shipmentItemId, shipmentItems.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(supplierCreditNotes.creditDate), desc(supplierCreditNotes.id));
+
+    return rows.map((row) => ({
+      ...row.note,
+      supplierName: row.supplierName,
+      shipmentCode: row.shipmentCode,
+      productName: row.productName,
+    }));
+  }
+
+  async createSupplierCreditNote(input: CreditNoteInput, userId?: string | null): Promise<SupplierCreditNote> {
+    const invalid = (field: string, message: string) =>
+      new ApiError("CREDIT_NOTE_INVALID", message, 400, { field });
+
+    const [shipment] = await db.select().from(shipments).where(eq(shipments.id, input.shipmentId));
+    if (!shipment) {
+      throw new ApiError("SHIPMENT_NOT_FOUND", undefined, 404, { shipmentId: input.shipmentId });
+    }
+    const supplier = await this.getSupplier(input.supplierId);
+    if (!supplier) {
+      throw invalid("supplierId", "المورد غير موجود.");
+    }
+
+    if (input.shipmentItemId) {
+      const [item] = await db.select().from(shipmentItems).where(eq(shipmentItems.id, input.shipmentItemId));
+      if (!item || item.shipmentId !== input.shipmentId) {
+        throw invalid("shipmentItemId", "البند غير موجود في هذه الشحنة.");
+      }
+      if (item.supplierId && item.supplierId !== input.supplierId) {
+        throw invalid("shipmentItemId", "البند تابع لمورد آخر.");
+      }
+    }
+
+    if (input.claimId) {
+      const [claim] = await db.select().from(supplierClaims).where(eq(supplierClaims.id, input.claimId));
+      if (!claim || claim.supplierId !== input.supplierId || claim.shipmentId !== input.shipmentId) {
+        throw invalid("claimId", "المطالبة لا تخص هذا المورد وهذه الشحنة.");
+      }
+    }
+
+    const [note] = await db
+      .insert(supplierCreditNotes)
+      .values({ ...input, createdByUserId: userId ?? null })
+      .returning();
+    return note;
+  }
+
+  async decideSupplierCreditNote(id: number, approve: boolean, userId?: string | null): Promise<SupplierCreditNote> {
+    return db.transaction(async (tx) => {
+      const [note] = await tx
+        .select()
+        .from(supplierCreditNotes)
+        .where(eq(supplierCreditNotes.id, id))
+        .for("update");
+      if (!note) {
+        throw new ApiError("CREDIT_NOTE_NOT_FOUND", undefined, 404, { creditNoteId: id });
+      }
+      if (note.status !== CREDIT_NOTE_PENDING_STATUS) {
+        throw new ApiError("CREDIT_NOTE_ALREADY_DECIDED", undefined, 409, { creditNoteId: id, status: note.status });
+      }
+
+      const [decided] = await tx
+        .update(supplierCreditNotes)
+        .set({
+          status: approve ? CREDIT_NOTE_APPROVED_STATUS : CREDIT_NOTE_REJECTED_STATUS,
+          decidedByUserId: userId ?? null,
+          decidedAt: new Date(),
+        })
+        .where(eq(supplierCreditNotes.id, id))
+        .returning();
+
+      if (approve && note.claimId) {
+        await tx
+          .update(supplierClaims)
+          .set({ status: SETTLED_CLAIM_STATUS })
+          .where(eq(supplierClaims.id, note.claimId));
+      }
+
+      return decided;
+    });
+  }
+
+  async getSupplierAdvances(filters?: { supplierId?: number }): Promise<SupplierAdvanceWithBalance[]> {
+    const rows = await db
+      .select({ advance: supplierAdvances, supplierName: suppliers.name })
+      .from(supplierAdvances)
+      .innerJoin(suppliers, eq(supplierAdvances.supplierId, suppliers.id))
+      .where(filters?.supplierId ? eq(supplierAdvances.supplierId, filters.supplierId) : undefined)
+      .orderBy(desc(supplierAdvances.advanceDate), desc(supplierAdvances.id));
+    if (rows.length === 0) return [];
+
+    const applications = await db
+      .select()
+      .from(shipmentPayments)
+      .where(inArray(shipmentPayments.supplierAdvanceId, rows.map((row) => row.advance.id)));
+
+    return rows.map(({ advance, supplierName }) => ({
+      ...advance,
+      ...summarizeAdvance(advance, applications.filter((payment) => payment.supplierAdvanceId === advance.id)),
+      supplierName,
+    }));
+  }
+
+  async createSupplierAdvance(input: SupplierAdvanceInput, userId?: string | null): Promise<SupplierAdvance> {
+    const supplier = await this.getSupplier(input.supplierId);
+    if (!supplier) {
+      throw new ApiError("SUPPLIER_ADVANCE_INVALID", "المورد غير موجود.", 404, { field: "supplierId" });
+    }
+    // Without an explicit rate, the rate in effect on the advance date, as for payments
+    const rate = input.paymentCurrency === "RMB"
+      ? input.exchangeRateToEgp ||
+        parseAmountOrZero((await findRateForDate(db, "RMB", "EGP", input.advanceDate))?.rateValue)
+      : null;
+    if (input.paymentCurrency === "RMB" && !rate) {
+      throw new ApiError("PAYMENT_RATE_MISSING", undefined, 400, {
+        field: "exchangeRateToEgp",
+        advanceDate: input.advanceDate,
+      });
+    }
+    await assertAccountingPeriodsOpen([input.advanceDate]);
+    const paymentAccount = input.paymentAccountId
+      ? await resolvePaymentAccount(db, input.paymentAccountId, input.paymentCurrency)
+      : null;
+
+    const { amountEgp } = normalizePaymentAmounts({
+      paymentCurrency: input.paymentCurrency,
+      amountOriginal: input.amountOriginal,
+      exchangeRateToEgp: rate,
+    });
+    const [advance] = await db
+      .insert(supplierAdvances)
+      .values({
+        ...input,
+        paymentMethod: paymentAccount?.paymentMethod ?? input.paymentMethod,
+        amountOriginal: input.amountOriginal.toFixed(2),
+        exchangeRateToEgp: rate ? roundAmount(rate, 4).toFixed(4) : null,
+        amountEgp: amountEgp.toFixed(2),
+        createdByUserId: userId ?? null,
+      })
+      .returning();
+    return advance;
+  }
+
+  /**
+   * Turns part of an advance into shipment payments. The advance row is locked
+   * first so two applications can't both spend the same remainder, then the
+   * shipments in id order, matching batch remittances.
+   */
+  async applySupplierAdvance(
+    advanceId: number,
+    input: AdvanceApplicationInput,
+    userId?: string | null,
+  ): Promise<{ advance: SupplierAdvanceWithBalance; payments: ShipmentPayment[] }> {
+    const { supplierId, payments } = await db.transaction(async (tx) => {
+      const [advance] = await tx
+        .select()
+        .from(supplierAdvances)
+        .where(eq(supplierAdvances.id, advanceId))
+        .for("update");
+      if (!advance) {
+        throw new ApiError("SUPPLIER_ADVANCE_NOT_FOUND", undefined, 404, { advanceId });
+      }
+
+      const applied = await tx
+        .select()
+        .from(shipmentPayments)
+        .where(eq(shipmentPayments.supplierAdvanceId, advanceId));
+      assertApplicationFits(advanceId, summarizeAdvance(advance, applied), input);
+
+      const shipmentIds = input.applications.map((application) => application.shipmentId).sort((a, b) => a - b);
+      await tx.select({ id: shipments.id }).from(shipments).where(inArray(shipments.id, shipmentIds)).orderBy(asc(shipments.id)).for("update");
+
+      const created: ShipmentPayment[] = [];
+      for (const application of input.applications) {
+        const payment = await insertShipmentPayment(tx, {
+          shipmentId: application.shipmentId,
+          supplierId: advance.supplierId,
+          supplierAdvanceId: advance.id,
+          paymentDate: input.applicationDate,
+          paymentCurrency: advance.paymentCurrency,
+          amountOriginal: application.amountOriginal.toFixed(2),
+          exchangeRateToEgp: advance.exchangeRateToEgp,
+          amountEgp: "0",
+          costComponent: input.costComponent,
+          paymentMethod: advance.paymentMethod,
+          cashReceiverName: advance.cashReceiverName,
+          referenceNumber: advance.referenceNumber,
+          note: `${ADVANCE_MOVEMENT_TYPE} رقم ${advance.id}`,
+          createdByUserId: userId ?? null,
+        });
+        created.push(payment);
+      }
+      return { supplierId: advance.supplierId, payments: created };
+    });
+
+    const advance = (await this.getSupplierAdvances({ supplierId })).find((row) => row.id === advanceId)!;
+    return { advance, payments };
+  }
+
+  private async getApprovedCreditNotes(): Promise<SupplierCreditNote[]> {
+    return db
+      .select()
+      .from(supplierCreditNotes)
+      .where(eq(supplierCreditNotes.status, CREDIT_NOTE_APPROVED_STATUS));
   }
 
-  // Supplier Balances
   async getSupplierBalances(filters?: {
     dateFrom?: string;
     dateTo?: string;
@@ -1388,17 +3587,77 @@ export class DatabaseStorage implements IStorage {
     balanceType?: 'owing' | 'credit' | 'all';
   }) {
     const allSuppliers = await this.getAllSuppliers();
-    const allShipments = await this.getAllShipments();
-    const allPayments = await this.getAllPayments();
-    const allItems = await Promise.all(
-      allShipments.map(s => this.getShipmentItems(s.id))
+    const periodShipments = await this.getShipmentsByPurchaseDate(filters);
+    const allocationsByShipment = await this.loadSupplierAllocations(periodShipments);
+
+    const periodShipmentIds = new Set(periodShipments.map(s => s.id));
+    const costBySupplier = new Map<number, number>();
+    const paidBySupplier = new Map<number, number>();
+
+    for (const shipment of periodShipments) {
+      for (const allocation of allocationsByShipment.get(shipment.id) ?? []) {
+        if (allocation.supplierId === null) continue;
+        costBySupplier.set(
+          allocation.supplierId,
+          (costBySupplier.get(allocation.supplierId) ?? 0) + allocation.totalCostEgp,
+        );
+      }
+    }
+
+    // Payments are summed per shipment, target supplier and component; splitting a sum splits each payment.
+    // Applied advances settle the shipment but were paid when the advance was, counted below
+    const paymentSums = periodShipmentIds.size === 0 ? [] : await db
+      .select({
+        shipmentId: shipmentPayments.shipmentId,
+        supplierId: shipmentPayments.supplierId,
+        costComponent: shipmentPayments.costComponent,
+        amountEgp: sql<string>`sum(${shipmentPayments.amountEgp})`,
+      })
+      .from(shipmentPayments)
+      .where(and(
+        inArray(shipmentPayments.shipmentId, Array.from(periodShipmentIds)),
+        isNull(shipmentPayments.supplierAdvanceId),
+      ))
+      .groupBy(shipmentPayments.shipmentId, shipmentPayments.supplierId, shipmentPayments.costComponent);
+
+    for (const payment of paymentSums) {
+      const shares = allocatePaymentToSuppliers(
+        { ...payment, amountOriginal: "0" },
+        allocationsByShipment.get(payment.shipmentId) ?? [],
+      );
+      for (const share of shares) {
+        if (share.supplierId === null) continue;
+        paidBySupplier.set(share.supplierId, (paidBySupplier.get(share.supplierId) ?? 0) + share.amountEgp);
+      }
+    }
+
+    // Credit notes follow their shipment into the period, the same way payments do
+    const creditBySupplier = sumApprovedCredits(
+      (await this.getApprovedCreditNotes()).filter((note) => periodShipmentIds.has(note.shipmentId)),
     );
 
+    // The whole advance counts on its own date, as in the supplier statement, however much of it is applied
+    const advanceConditions: SQL[] = [];
+    if (filters?.supplierId) advanceConditions.push(eq(supplierAdvances.supplierId, filters.supplierId));
+    if (filters?.dateFrom) advanceConditions.push(gte(supplierAdvances.advanceDate, new Date(filters.dateFrom)));
+    if (filters?.dateTo) advanceConditions.push(lte(supplierAdvances.advanceDate, new Date(filters.dateTo)));
+    const advanceSums = await db
+      .select({
+        supplierId: supplierAdvances.supplierId,
+        amountEgp: sql<string>`sum(${supplierAdvances.amountEgp})`,
+      })
+      .from(supplierAdvances)
+      .where(and(...advanceConditions))
+      .groupBy(supplierAdvances.supplierId);
+    const advanceBySupplier = new Map(advanceSums.map((row) => [row.supplierId, parseAmountOrZero(row.amountEgp)]));
+
     const result: Array<{
       supplierId: number;
       supplierName: string;
       totalCostEgp: string;
       totalPaidEgp: string;
+      totalCreditEgp: string;
+      totalAdvanceEgp: string;
       balanceEgp: string;
       balanceStatus: 'owing' | 'settled' | 'credit';
     }> = [];
@@ -1406,41 +3665,11 @@ export class DatabaseStorage implements IStorage {
     for (const supplier of allSuppliers) {
       if (filters?.supplierId && supplier.id !== filters.supplierId) continue;
 
-      const supplierShipmentIds = new Set<number>();
-      allItems.forEach((items, idx) => {
-        if (items.some(item => item.supplierId === supplier.id)) {
-          supplierShipmentIds.add(allShipments[idx].id);
-        }
-      });
-
-      let supplierShipments = allShipments.filter(s => supplierShipmentIds.has(s.id));
-
-      if (filters?.dateFrom) {
-        const fromDate = new Date(filters.dateFrom);
-        supplierShipments = supplierShipments.filter(s => {
-          const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-          return purchaseDate && purchaseDate >= fromDate;
-        });
-      }
-
-      if (filters?.dateTo) {
-        const toDate = new Date(filters.dateTo);
-        supplierShipments = supplierShipments.filter(s => {
-          const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-          return purchaseDate && purchaseDate <= toDate;
-        });
-      }
-
-      const supplierShipmentIdsFiltered = new Set(supplierShipments.map(s => s.id));
-      const supplierPayments = allPayments.filter(p => supplierShipmentIdsFiltered.has(p.shipmentId));
-
-      const totalCost = supplierShipments.reduce(
-        (sum, s) => sum + parseFloat(s.finalTotalCostEgp || "0"), 0
-      );
-      const totalPaid = supplierPayments.reduce(
-        (sum, p) => sum + parseFloat(p.amountEgp || "0"), 0
-      );
-      const balance = totalCost - totalPaid;
+      const totalCost = costBySupplier.get(supplier.id) ?? 0;
+      const totalPaid = paidBySupplier.get(supplier.id) ?? 0;
+      const totalCredit = creditBySupplier.get(supplier.id) ?? 0;
+      const totalAdvance = advanceBySupplier.get(supplier.id) ?? 0;
+      const balance = totalCost - totalPaid - totalCredit - totalAdvance;
 
       let balanceStatus: 'owing' | 'settled' | 'credit' = 'settled';
       if (balance > 0.0001) balanceStatus = 'owing';
@@ -1456,6 +3685,8 @@ export class DatabaseStorage implements IStorage {
         supplierName: supplier.name,
         totalCostEgp: totalCost.toFixed(2),
         totalPaidEgp: totalPaid.toFixed(2),
+        totalCreditEgp: totalCredit.toFixed(2),
+        totalAdvanceEgp: totalAdvance.toFixed(2),
         balanceEgp: balance.toFixed(2),
         balanceStatus,
       });
@@ -1474,69 +3705,115 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Supplier not found");
     }
 
-    const allShipments = await this.getAllShipments();
-    const allPayments = await this.getAllPayments();
-    const allItems = await Promise.all(
-      allShipments.map(s => this.getShipmentItems(s.id))
+    // Every shipment carrying the supplier's goods; payments on them count whatever the purchase date
+    const supplierShipmentScope = await db
+      .select()
+      .from(shipments)
+      .where(exists(
+        db
+          .select({ id: shipmentItems.id })
+          .from(shipmentItems)
+          .where(and(eq(shipmentItems.shipmentId, shipments.id), eq(shipmentItems.supplierId, supplierId))),
+      ));
+    const allocationsByShipment = await this.loadSupplierAllocations(supplierShipmentScope);
+    const shipmentMap = new Map(supplierShipmentScope.map(s => [s.id, s]));
+
+    let supplierShipments = supplierShipmentScope.filter(s =>
+      (allocationsByShipment.get(s.id) ?? []).some(a => a.supplierId === supplierId)
     );
-
-    const supplierShipmentIds = new Set<number>();
-    allItems.forEach((items, idx) => {
-      if (items.some(item => item.supplierId === supplierId)) {
-        supplierShipmentIds.add(allShipments[idx].id);
-      }
-    });
-
-    let supplierShipments = allShipments.filter(s => supplierShipmentIds.has(s.id));
-    let supplierPayments = allPayments.filter(p => supplierShipmentIds.has(p.shipmentId));
+    const supplierPayments = await this.loadScopedPayments(supplierShipments.map(s => s.id), filters);
+    let supplierCredits = (await this.getApprovedCreditNotes()).filter(n => n.supplierId === supplierId);
+    let advances = await this.getSupplierAdvances({ supplierId });
 
     if (filters?.dateFrom) {
       const fromDate = new Date(filters.dateFrom);
-      supplierShipments = supplierShipments.filter(s => {
-        const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-        return purchaseDate && purchaseDate >= fromDate;
-      });
-      supplierPayments = supplierPayments.filter(p => new Date(p.paymentDate) >= fromDate);
+      supplierShipments = supplierShipments.filter(s => new Date(s.purchaseDate) >= fromDate);
+      supplierCredits = supplierCredits.filter(n => new Date(n.creditDate) >= fromDate);
+      advances = advances.filter(a => new Date(a.advanceDate) >= fromDate);
     }
 
     if (filters?.dateTo) {
       const toDate = new Date(filters.dateTo);
-      supplierShipments = supplierShipments.filter(s => {
-        const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-        return purchaseDate && purchaseDate <= toDate;
-      });
-      supplierPayments = supplierPayments.filter(p => new Date(p.paymentDate) <= toDate);
+      supplierShipments = supplierShipments.filter(s => new Date(s.purchaseDate) <= toDate);
+      supplierCredits = supplierCredits.filter(n => new Date(n.creditDate) <= toDate);
+      advances = advances.filter(a => new Date(a.advanceDate) <= toDate);
     }
 
     const movements: Array<{
       date: Date | string;
-      type: 'shipment' | 'payment';
+      type: 'shipment' | 'payment' | 'credit' | 'advance' | 'advance_applied';
       description: string;
       shipmentCode?: string;
       costEgp?: string;
       paidEgp?: string;
+      creditEgp?: string;
+      appliedEgp?: string;
       runningBalance: string;
     }> = [];
 
     supplierShipments.forEach(s => {
+      const allocations = allocationsByShipment.get(s.id) ?? [];
+      const allocation = allocations.find(a => a.supplierId === supplierId);
+      if (!allocation) return;
+
       movements.push({
         date: s.purchaseDate || s.createdAt || new Date(),
         type: 'shipment',
-        description: `شحنة: ${s.shipmentName}`,
+        description: allocations.length > 1
+          ? `شحنة: ${s.shipmentName} (حصة المورد)`
+          : `شحنة: ${s.shipmentName}`,
         shipmentCode: s.shipmentCode,
-        costEgp: s.finalTotalCostEgp || "0",
+        costEgp: allocation.totalCostEgp.toFixed(2),
         runningBalance: "0",
       });
     });
 
     supplierPayments.forEach(p => {
-      const shipment = allShipments.find(s => s.id === p.shipmentId);
+      const shares = allocatePaymentToSuppliers(p, allocationsByShipment.get(p.shipmentId) ?? []);
+      const share = shares.find(sh => sh.supplierId === supplierId);
+      if (!share || Math.abs(share.amountEgp) < 0.005) return;
+
+      if (p.supplierAdvanceId) {
+        movements.push({
+          date: p.paymentDate,
+          type: 'advance_applied',
+          description: `تسوية ${ADVANCE_MOVEMENT_TYPE} رقم ${p.supplierAdvanceId} - ${p.costComponent}`,
+          shipmentCode: shipmentMap.get(p.shipmentId)?.shipmentCode,
+          appliedEgp: share.amountEgp.toFixed(2),
+          runningBalance: "0",
+        });
+        return;
+      }
+
       movements.push({
         date: p.paymentDate,
         type: 'payment',
-        description: `دفعة - ${p.costComponent}`,
-        shipmentCode: shipment?.shipmentCode,
-        paidEgp: p.amountEgp || "0",
+        description: p.supplierId || shares.length === 1
+          ? `دفعة - ${p.costComponent}`
+          : `دفعة - ${p.costComponent} (حصة من دفعة مشتركة)`,
+        shipmentCode: shipmentMap.get(p.shipmentId)?.shipmentCode,
+        paidEgp: share.amountEgp.toFixed(2),
+        runningBalance: "0",
+      });
+    });
+
+    supplierCredits.forEach(n => {
+      movements.push({
+        date: n.creditDate,
+        type: 'credit',
+        description: n.reason ? `${CREDIT_NOTE_MOVEMENT_TYPE} - ${n.reason}` : CREDIT_NOTE_MOVEMENT_TYPE,
+        shipmentCode: shipmentMap.get(n.shipmentId)?.shipmentCode,
+        creditEgp: parseAmountOrZero(n.amountEgp).toFixed(2),
+        runningBalance: "0",
+      });
+    });
+
+    advances.forEach(a => {
+      movements.push({
+        date: a.advanceDate,
+        type: 'advance',
+        description: a.note ? `${ADVANCE_MOVEMENT_TYPE} - ${a.note}` : ADVANCE_MOVEMENT_TYPE,
+        paidEgp: parseAmountOrZero(a.amountEgp).toFixed(2),
         runningBalance: "0",
       });
     });
@@ -1547,7 +3824,10 @@ export class DatabaseStorage implements IStorage {
     movements.forEach(m => {
       if (m.type === 'shipment') {
         runningBalance += parseFloat(m.costEgp || "0");
+      } else if (m.type === 'credit') {
+        runningBalance -= parseFloat(m.creditEgp || "0");
       } else {
+        // Applied advances carry no paidEgp: the balance already dropped when the advance was paid
         runningBalance -= parseFloat(m.paidEgp || "0");
       }
       m.runningBalance = runningBalance.toFixed(2);
@@ -1569,55 +3849,26 @@ export class DatabaseStorage implements IStorage {
     paymentStatus?: string;
     includeArchived?: boolean;
   }) {
-    const allShipments = await this.getAllShipments();
-    const allPayments = await this.getAllPayments();
+    const shipmentConditions: SQL[] = [];
+    if (!filters?.includeArchived) shipmentConditions.push(sql`${shipments.status} <> ${ARCHIVED_STATUS}`);
+    if (filters?.shipmentStatus && filters.shipmentStatus !== "all") {
+      shipmentConditions.push(eq(shipments.status, filters.shipmentStatus));
+    }
+    if (filters?.shipmentId) shipmentConditions.push(eq(shipments.id, filters.shipmentId));
+
+    let filteredShipments = await this.getShipmentsByPurchaseDate(filters, shipmentConditions);
+    const allocationsByShipment = await this.loadSupplierAllocations(filteredShipments);
     const allSuppliers = await this.getAllSuppliers();
     const allUsers = await this.getAllUsers();
-    const allItems = await Promise.all(
-      allShipments.map(s => this.getShipmentItems(s.id))
-    );
 
     const supplierMap = new Map(allSuppliers.map(s => [s.id, s.name]));
     const userMap = new Map(allUsers.map(u => [u.id, u.firstName || u.username]));
-
-    let filteredShipments = allShipments;
-    
-    if (!filters?.includeArchived) {
-      filteredShipments = filteredShipments.filter(s => s.status !== "مؤرشفة");
-    }
-
-    if (filters?.shipmentStatus && filters.shipmentStatus !== "all") {
-      filteredShipments = filteredShipments.filter((s) => s.status === filters.shipmentStatus);
-    }
-
-    if (filters?.dateFrom) {
-      const fromDate = new Date(filters.dateFrom);
-      filteredShipments = filteredShipments.filter(s => {
-        const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-        return purchaseDate && purchaseDate >= fromDate;
-      });
-    }
-
-    if (filters?.dateTo) {
-      const toDate = new Date(filters.dateTo);
-      filteredShipments = filteredShipments.filter(s => {
-        const purchaseDate = s.purchaseDate ? new Date(s.purchaseDate) : null;
-        return purchaseDate && purchaseDate <= toDate;
-      });
-    }
-
-    if (filters?.shipmentId) {
-      filteredShipments = filteredShipments.filter(s => s.id === filters.shipmentId);
-    }
+    const shipmentMap = new Map(filteredShipments.map(s => [s.id, s]));
 
     if (filters?.supplierId) {
-      const shipmentIdsWithSupplier = new Set<number>();
-      allItems.forEach((items, idx) => {
-        if (items.some(item => item.supplierId === filters.supplierId)) {
-          shipmentIdsWithSupplier.add(allShipments[idx].id);
-        }
-      });
-      filteredShipments = filteredShipments.filter(s => shipmentIdsWithSupplier.has(s.id));
+      filteredShipments = filteredShipments.filter(s =>
+        (allocationsByShipment.get(s.id) ?? []).some(a => a.supplierId === filters.supplierId)
+      );
     }
 
     if (filters?.paymentStatus && filters.paymentStatus !== "all") {
@@ -1646,98 +3897,179 @@ export class DatabaseStorage implements IStorage {
       originalCurrency?: string;
       amountOriginal?: string;
       amountEgp: string;
-      direction: 'cost' | 'payment';
+      direction: 'cost' | 'payment' | 'credit';
       userName?: string;
     }> = [];
 
-    const shipmentSupplierMap = new Map<number, number | undefined>();
-    allItems.forEach((items, idx) => {
-      const firstSupplier = items.find(i => i.supplierId)?.supplierId;
-      shipmentSupplierMap.set(allShipments[idx].id, firstSupplier ?? undefined);
-    });
-
+    // Multi-supplier shipments produce one row per supplier carrying only that supplier's share
     for (const s of filteredShipments) {
-      const supplierId = shipmentSupplierMap.get(s.id);
-      const supplierName = supplierId ? supplierMap.get(supplierId) : undefined;
+      const allocations = (allocationsByShipment.get(s.id) ?? []).filter(
+        a => !filters?.supplierId || a.supplierId === filters.supplierId
+      );
 
       const costTypes = [
-        { type: "تكلفة بضاعة", rmb: s.purchaseCostRmb, egp: s.purchaseCostEgp },
-        { type: "تكلفة شحن", rmb: s.shippingCostRmb, egp: s.shippingCostEgp },
-        { type: "عمولة", rmb: s.commissionCostRmb, egp: s.commissionCostEgp },
-        { type: "جمرك", rmb: null, egp: s.customsCostEgp },
-        { type: "تخريج", rmb: null, egp: s.takhreegCostEgp },
+        { type: "تكلفة بضاعة", rmb: s.purchaseCostRmb, field: "purchaseCostEgp" as const },
+        { type: "تكلفة شحن", rmb: s.shippingCostRmb, field: "shippingCostEgp" as const },
+        { type: "عمولة", rmb: s.commissionCostRmb, field: "commissionCostEgp" as const },
+        { type: "جمرك", rmb: null, field: "customsCostEgp" as const },
+        { type: "تخريج", rmb: null, field: "takhreegCostEgp" as const },
       ];
 
       for (const ct of costTypes) {
-        const egpAmount = parseFloat(ct.egp || "0");
-        if (egpAmount <= 0) continue;
-
         if (filters?.movementType && filters.movementType !== ct.type && filters.movementType !== 'all') {
           continue;
         }
 
+        const componentEgp = parseFloat(s[ct.field] || "0");
+        const componentRmb = parseFloat(ct.rmb || "0");
+
+        for (const allocation of allocations) {
+          const egpAmount = allocation[ct.field];
+          if (egpAmount <= 0) continue;
+
+          // Keep the RMB figure proportional to the supplier's EGP share of the component
+          const rmbShare = componentRmb > 0 && componentEgp > 0
+            ? roundAmount(componentRmb * (egpAmount / componentEgp))
+            : 0;
+
+          movements.push({
+            date: s.purchaseDate || s.createdAt || new Date(),
+            shipmentCode: s.shipmentCode,
+            shipmentName: s.shipmentName,
+            supplierName: allocation.supplierId ? supplierMap.get(allocation.supplierId) : undefined,
+            supplierId: allocation.supplierId ?? undefined,
+            movementType: ct.type,
+            originalCurrency: rmbShare > 0 ? "RMB" : "EGP",
+            amountOriginal: (rmbShare > 0 ? rmbShare : egpAmount).toFixed(2),
+            amountEgp: egpAmount.toFixed(2),
+            direction: 'cost',
+          });
+        }
+      }
+
+    }
+
+    const filteredPayments = await this.loadScopedPayments(Array.from(filteredShipmentIds), filters);
+
+    for (const p of filteredPayments) {
+      const shipment = shipmentMap.get(p.shipmentId);
+      if (!shipment) continue;
+
+      // Applying an advance moves no money: the cash left when the advance itself was paid, listed below
+      if (p.supplierAdvanceId) continue;
+
+      if (filters?.movementType && filters.movementType !== 'دفعة' && filters.movementType !== 'all') {
+        continue;
+      }
+
+      const userName = p.createdByUserId ? userMap.get(p.createdByUserId) : undefined;
+      const shares = allocatePaymentToSuppliers(p, allocationsByShipment.get(p.shipmentId) ?? []);
+
+      for (const share of shares) {
+        if (filters?.supplierId && share.supplierId !== filters.supplierId) continue;
+        if (shares.length > 1 && Math.abs(share.amountEgp) < 0.005) continue;
+
         movements.push({
-          date: s.purchaseDate || s.createdAt || new Date(),
-          shipmentCode: s.shipmentCode,
-          shipmentName: s.shipmentName,
-          supplierName,
-          supplierId,
-          movementType: ct.type,
-          originalCurrency: ct.rmb ? "RMB" : "EGP",
-          amountOriginal: ct.rmb || ct.egp || "0",
-          amountEgp: ct.egp || "0",
-          direction: 'cost',
+          date: p.paymentDate,
+          shipmentCode: shipment.shipmentCode,
+          shipmentName: shipment.shipmentName,
+          supplierName: share.supplierId ? supplierMap.get(share.supplierId) : undefined,
+          supplierId: share.supplierId ?? undefined,
+          movementType: "دفعة",
+          costComponent: p.costComponent,
+          paymentMethod: p.paymentMethod,
+          originalCurrency: p.paymentCurrency,
+          amountOriginal: share.amountOriginal.toFixed(2),
+          amountEgp: share.amountEgp.toFixed(2),
+          direction: 'payment',
+          userName,
         });
       }
     }
 
-    let filteredPayments = allPayments.filter(p => filteredShipmentIds.has(p.shipmentId));
+    // Credit notes carry no cost component or payment method, so those filters exclude them
+    const includeCredits =
+      (!filters?.movementType || filters.movementType === 'all' || filters.movementType === CREDIT_NOTE_MOVEMENT_TYPE) &&
+      !filters?.costComponent &&
+      !filters?.paymentMethod;
 
-    if (filters?.dateFrom) {
-      const fromDate = new Date(filters.dateFrom);
-      filteredPayments = filteredPayments.filter(p => new Date(p.paymentDate) >= fromDate);
-    }
+    if (includeCredits) {
+      let filteredCredits = (await this.getApprovedCreditNotes()).filter(n =>
+        filteredShipmentIds.has(n.shipmentId) && (!filters?.supplierId || n.supplierId === filters.supplierId)
+      );
 
-    if (filters?.dateTo) {
-      const toDate = new Date(filters.dateTo);
-      filteredPayments = filteredPayments.filter(p => new Date(p.paymentDate) <= toDate);
-    }
+      if (filters?.dateFrom) {
+        const fromDate = new Date(filters.dateFrom);
+        filteredCredits = filteredCredits.filter(n => new Date(n.creditDate) >= fromDate);
+      }
 
-    if (filters?.costComponent) {
-      filteredPayments = filteredPayments.filter(p => p.costComponent === filters.costComponent);
-    }
+      if (filters?.dateTo) {
+        const toDate = new Date(filters.dateTo);
+        filteredCredits = filteredCredits.filter(n => new Date(n.creditDate) <= toDate);
+      }
+
+      for (const n of filteredCredits) {
+        const shipment = shipmentMap.get(n.shipmentId);
+        if (!shipment) continue;
+        const amountRmb = parseAmountOrZero(n.amountRmb);
 
-    if (filters?.paymentMethod) {
-      filteredPayments = filteredPayments.filter(p => p.paymentMethod === filters.paymentMethod);
+        movements.push({
+          date: n.creditDate,
+          shipmentCode: shipment.shipmentCode,
+          shipmentName: shipment.shipmentName,
+          supplierName: supplierMap.get(n.supplierId),
+          supplierId: n.supplierId,
+          movementType: CREDIT_NOTE_MOVEMENT_TYPE,
+          originalCurrency: amountRmb > 0 ? "RMB" : "EGP",
+          amountOriginal: (amountRmb > 0 ? amountRmb : parseAmountOrZero(n.amountEgp)).toFixed(2),
+          amountEgp: parseAmountOrZero(n.amountEgp).toFixed(2),
+          direction: 'credit',
+          userName: n.createdByUserId ? userMap.get(n.createdByUserId) : undefined,
+        });
+      }
     }
 
-    for (const p of filteredPayments) {
-      const shipment = allShipments.find(s => s.id === p.shipmentId);
-      if (!shipment) continue;
+    // Advances belong to no shipment, so shipment and cost component filters exclude them
+    const includeAdvances =
+      (!filters?.movementType || filters.movementType === 'all' || filters.movementType === ADVANCE_MOVEMENT_TYPE) &&
+      !filters?.shipmentId &&
+      !filters?.costComponent &&
+      (!filters?.shipmentStatus || filters.shipmentStatus === 'all') &&
+      (!filters?.paymentStatus || filters.paymentStatus === 'all');
+
+    if (includeAdvances) {
+      let filteredAdvances = await db.select().from(supplierAdvances);
+      filteredAdvances = filteredAdvances.filter(a =>
+        (!filters?.supplierId || a.supplierId === filters.supplierId) &&
+        (!filters?.paymentMethod || a.paymentMethod === filters.paymentMethod)
+      );
 
-      if (filters?.movementType && filters.movementType !== 'دفعة' && filters.movementType !== 'all') {
-        continue;
+      if (filters?.dateFrom) {
+        const fromDate = new Date(filters.dateFrom);
+        filteredAdvances = filteredAdvances.filter(a => new Date(a.advanceDate) >= fromDate);
       }
 
-      const supplierId = shipmentSupplierMap.get(p.shipmentId);
-      const supplierName = supplierId ? supplierMap.get(supplierId) : undefined;
-      const userName = p.createdByUserId ? userMap.get(p.createdByUserId) : undefined;
+      if (filters?.dateTo) {
+        const toDate = new Date(filters.dateTo);
+        filteredAdvances = filteredAdvances.filter(a => new Date(a.advanceDate) <= toDate);
+      }
 
-      movements.push({
-        date: p.paymentDate,
-        shipmentCode: shipment.shipmentCode,
-        shipmentName: shipment.shipmentName,
-        supplierName,
-        supplierId,
-        movementType: "دفعة",
-        costComponent: p.costComponent,
-        paymentMethod: p.paymentMethod,
-        originalCurrency: p.paymentCurrency,
-        amountOriginal: p.amountOriginal || "0",
-        amountEgp: p.amountEgp || "0",
-        direction: 'payment',
-        userName,
-      });
+      for (const a of filteredAdvances) {
+        movements.push({
+          date: a.advanceDate,
+          shipmentCode: `${ADVANCE_MOVEMENT_TYPE} رقم ${a.id}`,
+          shipmentName: a.note ?? ADVANCE_MOVEMENT_TYPE,
+          supplierName: supplierMap.get(a.supplierId),
+          supplierId: a.supplierId,
+          movementType: ADVANCE_MOVEMENT_TYPE,
+          paymentMethod: a.paymentMethod,
+          originalCurrency: a.paymentCurrency,
+          amountOriginal: parseAmountOrZero(a.amountOriginal).toFixed(2),
+          amountEgp: parseAmountOrZero(a.amountEgp).toFixed(2),
+          direction: 'payment',
+          userName: a.createdByUserId ? userMap.get(a.createdByUserId) : undefined,
+        });
+      }
     }
 
     movements.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -1750,12 +4082,228 @@ export class DatabaseStorage implements IStorage {
       .filter(m => m.direction === 'payment')
       .reduce((sum, m) => sum + parseFloat(m.amountEgp), 0);
 
+    const totalCreditEgp = movements
+      .filter(m => m.direction === 'credit')
+      .reduce((sum, m) => sum + parseFloat(m.amountEgp), 0);
+
     return {
       movements,
       totalCostEgp: totalCostEgp.toFixed(2),
       totalPaidEgp: totalPaidEgp.toFixed(2),
-      netMovement: (totalCostEgp - totalPaidEgp).toFixed(2),
+      totalCreditEgp: totalCreditEgp.toFixed(2),
+      netMovement: (totalCostEgp - totalPaidEgp - totalCreditEgp).toFixed(2),
+    };
+  }
+
+  // Payment Accounts
+  async getPaymentAccounts(): Promise<PaymentAccountWithBalance[]> {
+    const accounts = await db.select().from(paymentAccounts).orderBy(asc(paymentAccounts.name));
+    const movements = await this.loadAccountMovements(accounts);
+
+    return accounts.map((account) => {
+      const balance = (movements.get(account.id) ?? []).reduce(
+        (sum, movement) => sum + movement.amount,
+        parseAmountOrZero(account.openingBalance),
+      );
+      return { ...account, balance: roundAmount(balance).toFixed(2) };
+    });
+  }
+
+  async getPaymentAccount(id: number): Promise<PaymentAccount | undefined> {
+    const [account] = await db.select().from(paymentAccounts).where(eq(paymentAccounts.id, id));
+    return account;
+  }
+
+  private async assertAccountNameFree(name: string, exceptId?: number) {
+    const [existing] = await db
+      .select({ id: paymentAccounts.id })
+      .from(paymentAccounts)
+      .where(eq(paymentAccounts.name, name));
+    if (existing && existing.id !== exceptId) {
+      throw new ApiError("PAYMENT_ACCOUNT_INVALID", "يوجد حساب آخر بنفس الاسم.", 409, { field: "name", reason: "duplicate" });
+    }
+  }
+
+  async createPaymentAccount(input: PaymentAccountInput): Promise<PaymentAccount> {
+    await this.assertAccountNameFree(input.name);
+    const [account] = await db
+      .insert(paymentAccounts)
+      .values({ ...input, openingBalance: input.openingBalance.toFixed(2) })
+      .returning();
+    return account;
+  }
+
+  async updatePaymentAccount(id: number, input: PaymentAccountUpdate): Promise<PaymentAccount | undefined> {
+    if (input.name) await this.assertAccountNameFree(input.name, id);
+    const { openingBalance, ...rest } = input;
+    const [account] = await db
+      .update(paymentAccounts)
+      .set({
+        ...rest,
+        ...(openingBalance !== undefined ? { openingBalance: openingBalance.toFixed(2) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(paymentAccounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async getPaymentAccountTransfers(filters?: { accountId?: number }): Promise<PaymentAccountTransferWithNames[]> {
+    const [transfers, accounts] = await Promise.all([
+      db
+        .select()
+        .from(paymentAccountTransfers)
+        .where(
+          filters?.accountId
+            ? or(
+                eq(paymentAccountTransfers.fromAccountId, filters.accountId),
+                eq(paymentAccountTransfers.toAccountId, filters.accountId),
+              )
+            : undefined,
+        )
+        .orderBy(desc(paymentAccountTransfers.transferDate), desc(paymentAccountTransfers.id)),
+      db.select({ id: paymentAccounts.id, name: paymentAccounts.name }).from(paymentAccounts),
+    ]);
+    const names = new Map(accounts.map((account) => [account.id, account.name]));
+
+    return transfers.map((transfer) => ({
+      ...transfer,
+      fromAccountName: transfer.fromAccountId ? names.get(transfer.fromAccountId) ?? null : null,
+      toAccountName: names.get(transfer.toAccountId) ?? "",
+    }));
+  }
+
+  async createPaymentAccountTransfer(input: AccountTransferInput, userId?: string | null): Promise<PaymentAccountTransfer> {
+    const accountIds = input.fromAccountId ? [input.fromAccountId, input.toAccountId] : [input.toAccountId];
+    const accounts = await db.select().from(paymentAccounts).where(inArray(paymentAccounts.id, accountIds));
+
+    const findActive = (id: number) => {
+      const account = accounts.find((row) => row.id === id);
+      if (!account) throw new ApiError("PAYMENT_ACCOUNT_NOT_FOUND", undefined, 404, { paymentAccountId: id });
+      if (!account.isActive) throw new ApiError("PAYMENT_ACCOUNT_INACTIVE", undefined, 409, { paymentAccountId: id });
+      return account;
     };
+    const to = findActive(input.toAccountId);
+    const from = input.fromAccountId ? findActive(input.fromAccountId) : null;
+    const amountFrom = resolveTransferAmountFrom(input, from, to);
+    await assertAccountingPeriodsOpen([input.transferDate]);
+
+    const [transfer] = await db
+      .insert(paymentAccountTransfers)
+      .values({
+        transferDate: input.transferDate,
+        fromAccountId: input.fromAccountId,
+        toAccountId: input.toAccountId,
+        amountFrom: amountFrom === null ? null : amountFrom.toFixed(2),
+        amountTo: input.amountTo.toFixed(2),
+        referenceNumber: input.referenceNumber,
+        note: input.note,
+        createdByUserId: userId ?? null,
+      })
+      .returning();
+    return transfer;
+  }
+
+  async getPaymentAccountStatement(
+    id: number,
+    filters?: { dateFrom?: string; dateTo?: string; bankBalance?: number },
+  ): Promise<PaymentAccountStatement | undefined> {
+    const account = await this.getPaymentAccount(id);
+    if (!account) return undefined;
+
+    const movements = await this.loadAccountMovements([account]);
+    const statement = buildAccountStatement(account, movements.get(account.id) ?? [], filters);
+    return {
+      account,
+      ...statement,
+      reconciliation:
+        filters?.bankBalance !== undefined ? reconcileAccount(statement.closingBalance, filters.bankBalance) : null,
+    };
+  }
+
+  /**
+   * Every movement that touched the given accounts, in each account's own currency.
+   * Advance applications carry no account: the money left when the advance was paid.
+   */
+  private async loadAccountMovements(accounts: PaymentAccount[]): Promise<Map<number, AccountMovement[]>> {
+    const byAccount = new Map<number, AccountMovement[]>(accounts.map((account) => [account.id, []]));
+    if (accounts.length === 0) return byAccount;
+    const accountIds = accounts.map((account) => account.id);
+    const accountById = new Map(accounts.map((account) => [account.id, account]));
+
+    const [payments, advances, transfers, allAccounts] = await Promise.all([
+      db
+        .select({ payment: shipmentPayments, shipmentCode: shipments.shipmentCode })
+        .from(shipmentPayments)
+        .innerJoin(shipments, eq(shipmentPayments.shipmentId, shipments.id))
+        .where(inArray(shipmentPayments.paymentAccountId, accountIds)),
+      db
+        .select({ advance: supplierAdvances, supplierName: suppliers.name })
+        .from(supplierAdvances)
+        .innerJoin(suppliers, eq(supplierAdvances.supplierId, suppliers.id))
+        .where(inArray(supplierAdvances.paymentAccountId, accountIds)),
+      db
+        .select()
+        .from(paymentAccountTransfers)
+        .where(
+          or(
+            inArray(paymentAccountTransfers.fromAccountId, accountIds),
+            inArray(paymentAccountTransfers.toAccountId, accountIds),
+          ),
+        ),
+      db.select({ id: paymentAccounts.id, name: paymentAccounts.name }).from(paymentAccounts),
+    ]);
+    const names = new Map(allAccounts.map((account) => [account.id, account.name]));
+
+    for (const { payment, shipmentCode } of payments) {
+      const account = accountById.get(payment.paymentAccountId!)!;
+      const isReversal = payment.reversalOfPaymentId !== null;
+      byAccount.get(account.id)!.push({
+        date: new Date(payment.paymentDate),
+        kind: isReversal ? "payment_reversal" : "payment",
+        description: `${isReversal ? "عكس سداد" : "سداد"} ${payment.costComponent} - شحنة ${shipmentCode}`,
+        referenceNumber: payment.referenceNumber,
+        // Reversal rows are negative, so they come back in
+        amount: -amountInAccountCurrency(account, payment),
+      });
+    }
+
+    for (const { advance, supplierName } of advances) {
+      const account = accountById.get(advance.paymentAccountId!)!;
+      byAccount.get(account.id)!.push({
+        date: new Date(advance.advanceDate),
+        kind: "advance",
+        description: `${ADVANCE_MOVEMENT_TYPE} للمورد ${supplierName}`,
+        referenceNumber: advance.referenceNumber,
+        amount: -amountInAccountCurrency(account, advance),
+      });
+    }
+
+    for (const transfer of transfers) {
+      const date = new Date(transfer.transferDate);
+      if (transfer.fromAccountId && byAccount.has(transfer.fromAccountId)) {
+        byAccount.get(transfer.fromAccountId)!.push({
+          date,
+          kind: "transfer_out",
+          description: `تحويل إلى ${names.get(transfer.toAccountId) ?? ""}`,
+          referenceNumber: transfer.referenceNumber,
+          amount: -parseAmountOrZero(transfer.amountFrom),
+        });
+      }
+      if (byAccount.has(transfer.toAccountId)) {
+        byAccount.get(transfer.toAccountId)!.push({
+          date,
+          kind: transfer.fromAccountId ? "transfer_in" : "top_up",
+          description: transfer.fromAccountId
+            ? `تحويل من ${names.get(transfer.fromAccountId) ?? ""}`
+            : "تغذية الحساب",
+          referenceNumber: transfer.referenceNumber,
+          amount: parseAmountOrZero(transfer.amountTo),
+        });
+      }
+    }
+
+    return byAccount;
   }
 
   // Payment Methods Report
@@ -1775,18 +4323,43 @@ export class DatabaseStorage implements IStorage {
       allPayments = allPayments.filter(p => new Date(p.paymentDate) <= toDate);
     }
 
-    const methodStats = new Map<string, { count: number; total: number }>();
+    const accountNames = new Map(
+      (await db.select({ id: paymentAccounts.id, name: paymentAccounts.name }).from(paymentAccounts)).map(
+        (account) => [account.id, account.name],
+      ),
+    );
+
+    // Advances are paid out on their own date; applying them later moves no money
+    let advances = await db.select().from(supplierAdvances);
+    if (filters?.dateFrom) {
+      const fromDate = new Date(filters.dateFrom);
+      advances = advances.filter(a => new Date(a.advanceDate) >= fromDate);
+    }
+    if (filters?.dateTo) {
+      const toDate = new Date(filters.dateTo);
+      advances = advances.filter(a => new Date(a.advanceDate) <= toDate);
+    }
+    const cashOut = [
+      ...allPayments.filter(p => !p.supplierAdvanceId),
+      ...advances,
+    ];
+
+    // Payments made from a managed account are grouped by account; older ones still by their method label
+    const methodStats = new Map<string, { method: string; accountId: number | null; count: number; total: number }>();
 
-    for (const p of allPayments) {
+    for (const p of cashOut) {
       const method = p.paymentMethod || "أخرى";
-      const current = methodStats.get(method) || { count: 0, total: 0 };
+      const key = p.paymentAccountId ? `account:${p.paymentAccountId}` : `method:${method}`;
+      const current = methodStats.get(key) || { method, accountId: p.paymentAccountId, count: 0, total: 0 };
       current.count += 1;
       current.total += parseFloat(p.amountEgp || "0");
-      methodStats.set(method, current);
+      methodStats.set(key, current);
     }
 
-    return Array.from(methodStats.entries()).map(([method, stats]) => ({
-      paymentMethod: method,
+    return Array.from(methodStats.values()).map((stats) => ({
+      paymentMethod: stats.method,
+      paymentAccountId: stats.accountId,
+      accountName: stats.accountId ? accountNames.get(stats.accountId) ?? null : null,
       paymentCount: stats.count,
       totalAmountEgp: stats.total.toFixed(2),
     }));
@@ -2,6 +2,7 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -11,6 +12,7 @@ import {
   decimal,
   boolean,
   date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -97,35 +99,129 @@ export const shipments = pgTable("shipments", {
   balanceEgp: decimal("balance_egp", { precision: 15, scale: 2 }).default("0"),
   partialDiscountRmb: decimal("partial_discount_rmb", { precision: 15, scale: 2 }).default("0"),
   discountNotes: text("discount_notes"),
+  // How shared costs (commission, shipping, customs, takhreeg) are split across items and suppliers: purchase_value, pieces, cartons, cbm
+  costAllocationBasis: varchar("cost_allocation_basis", { length: 20 }).default("purchase_value").notNull(),
   lastPaymentDate: timestamp("last_payment_date"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Shipment Items table (بنود الشحنة)
-export const shipmentItems = pgTable("shipment_items", {
+export const shipmentItems = pgTable(
+  "shipment_items",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    shipmentId: integer("shipment_id").references(() => shipments.id).notNull(),
+    supplierId: integer("supplier_id").references(() => suppliers.id),
+    productId: integer("product_id").references(() => products.id),
+    productTypeId: integer("product_type_id").references(() => productTypes.id),
+    productName: varchar("product_name", { length: 255 }).notNull(),
+    description: text("description"),
+    countryOfOrigin: varchar("country_of_origin", { length: 100 }).default("الصين"),
+    imageUrl: varchar("image_url"),
+    cartonsCtn: integer("cartons_ctn").default(0).notNull(),
+    piecesPerCartonPcs: integer("pieces_per_carton_pcs").default(0).notNull(),
+    totalPiecesCou: integer("total_pieces_cou").default(0).notNull(),
+    purchasePricePerPiecePriRmb: decimal("purchase_price_per_piece_pri_rmb", { precision: 10, scale: 4 }).default("0"),
+    totalPurchaseCostRmb: decimal("total_purchase_cost_rmb", { precision: 15, scale: 2 }).default("0"),
+    customsCostPerCartonEgp: decimal("customs_cost_per_carton_egp", { precision: 10, scale: 2 }),
+    totalCustomsCostEgp: decimal("total_customs_cost_egp", { precision: 15, scale: 2 }),
+    takhreegCostPerCartonEgp: decimal("takhreeg_cost_per_carton_egp", { precision: 10, scale: 2 }),
+    totalTakhreegCostEgp: decimal("total_takhreeg_cost_egp", { precision: 15, scale: 2 }),
+    declaredCbm: decimal("declared_cbm", { precision: 10, scale: 3 }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_shipment_items_shipment").on(table.shipmentId)],
+);
+
+// Landed Cost table (تكلفة الوصول لكل بند) - derived from the shipment, rebuilt whenever it is saved
+export const shipmentItemLandedCosts = pgTable("shipment_item_landed_costs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "cascade" }).notNull(),
+  shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id, { onDelete: "cascade" }).unique().notNull(),
+  allocationBasis: varchar("allocation_basis", { length: 20 }).notNull(),
+  pieces: integer("pieces").default(0).notNull(),
+  purchaseCostEgp: decimal("purchase_cost_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  commissionShareEgp: decimal("commission_share_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  shippingShareEgp: decimal("shipping_share_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  customsShareEgp: decimal("customs_share_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  takhreegShareEgp: decimal("takhreeg_share_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  totalLandedCostEgp: decimal("total_landed_cost_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  unitLandedCostEgp: decimal("unit_landed_cost_egp", { precision: 15, scale: 4 }).default("0").notNull(),
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+});
+
+// Supplier Claims table (مطالبات الموردين) - raised for pieces that arrived short or damaged
+export const supplierClaims = pgTable("supplier_claims", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "cascade" }).notNull(),
+  status: varchar("status", { length: 30 }).default("مفتوحة").notNull(), // مفتوحة
+  pieces: integer("pieces").default(0).notNull(),
+  amountRmb: decimal("amount_rmb", { precision: 15, scale: 2 }).default("0").notNull(),
+  amountEgp: decimal("amount_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+  reason: text("reason"),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Supplier Credit Notes table (إشعارات دائنة من الموردين) - negotiated credits that reduce what we owe
+export const supplierCreditNotes = pgTable("supplier_credit_notes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "cascade" }).notNull(),
+  // Items are re-inserted whenever the shipment is saved, so the link is dropped rather than blocking the save
+  shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id, { onDelete: "set null" }),
+  claimId: integer("claim_id").references(() => supplierClaims.id),
+  creditDate: date("credit_date").notNull(),
+  amountRmb: decimal("amount_rmb", { precision: 15, scale: 2 }).default("0").notNull(),
+  exchangeRate: decimal("exchange_rate", { precision: 10, scale: 4 }),
+  amountEgp: decimal("amount_egp", { precision: 15, scale: 2 }).notNull(),
+  reason: text("reason"),
+  // بانتظار الاعتماد, معتمد, مرفوض - only approved notes reduce the supplier balance
+  status: varchar("status", { length: 30 }).default("بانتظار الاعتماد").notNull(),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id),
+  decidedByUserId: varchar("decided_by_user_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shipment Item Receipts table (استلام بنود الشحنة) - what actually arrived for each item
+export const shipmentItemReceipts = pgTable("shipment_item_receipts", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  shipmentId: integer("shipment_id").references(() => shipments.id).notNull(),
+  shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "cascade" }).notNull(),
+  shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id, { onDelete: "cascade" }).unique().notNull(),
   supplierId: integer("supplier_id").references(() => suppliers.id),
-  productId: integer("product_id").references(() => products.id),
-  productTypeId: integer("product_type_id").references(() => productTypes.id),
-  productName: varchar("product_name", { length: 255 }).notNull(),
-  description: text("description"),
-  countryOfOrigin: varchar("country_of_origin", { length: 100 }).default("الصين"),
-  imageUrl: varchar("image_url"),
-  cartonsCtn: integer("cartons_ctn").default(0).notNull(),
-  piecesPerCartonPcs: integer("pieces_per_carton_pcs").default(0).notNull(),
-  totalPiecesCou: integer("total_pieces_cou").default(0).notNull(),
-  purchasePricePerPiecePriRmb: decimal("purchase_price_per_piece_pri_rmb", { precision: 10, scale: 4 }).default("0"),
-  totalPurchaseCostRmb: decimal("total_purchase_cost_rmb", { precision: 15, scale: 2 }).default("0"),
-  customsCostPerCartonEgp: decimal("customs_cost_per_carton_egp", { precision: 10, scale: 2 }),
-  totalCustomsCostEgp: decimal("total_customs_cost_egp", { precision: 15, scale: 2 }),
-  takhreegCostPerCartonEgp: decimal("takhreeg_cost_per_carton_egp", { precision: 10, scale: 2 }),
-  totalTakhreegCostEgp: decimal("total_takhreeg_cost_egp", { precision: 15, scale: 2 }),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
+  orderedPieces: integer("ordered_pieces").default(0).notNull(),
+  // Only received pieces are booked into inventory; short and damaged ones are discrepancies
+  receivedPieces: integer("received_pieces").default(0).notNull(),
+  shortPieces: integer("short_pieces").default(0).notNull(),
+  damagedPieces: integer("damaged_pieces").default(0).notNull(),
+  unitPriceRmb: decimal("unit_price_rmb", { precision: 10, scale: 4 }).default("0").notNull(),
+  unitCostEgp: decimal("unit_cost_egp", { precision: 15, scale: 4 }).default("0").notNull(),
+  notes: text("notes"),
+  claimId: integer("claim_id").references(() => supplierClaims.id),
+  receivedByUserId: varchar("received_by_user_id").references(() => users.id),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
 });
 
+// Status History table (سجل حالات الشحنة) - one row per status change, used to time each stage
+export const shipmentStatusHistory = pgTable(
+  "shipment_status_history",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "cascade" }).notNull(),
+    fromStatus: varchar("from_status", { length: 50 }), // null for the status a shipment was created with
+    toStatus: varchar("to_status", { length: 50 }).notNull(),
+    changedByUserId: varchar("changed_by_user_id").references(() => users.id),
+    // Set when an admin forced the change past a guard (e.g. archiving with an open balance)
+    overrideReason: text("override_reason"),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_shipment_status_history_shipment").on(table.shipmentId, table.changedAt)],
+);
+
 // Shipping Details table (بيانات الشحن)
 export const shipmentShippingDetails = pgTable("shipment_shipping_details", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -170,40 +266,285 @@ export const exchangeRates = pgTable("exchange_rates", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Shipment Payments table (سداد الشحنات)
-export const shipmentPayments = pgTable("shipment_payments", {
+// Payment Accounts table (الخزن والحسابات) - cash boxes, bank accounts and wallets payments are paid from.
+// The balance is never stored: it is the opening balance plus transfers in, minus payments, advances and transfers out.
+export const paymentAccounts = pgTable("payment_accounts", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: varchar("name", { length: 255 }).unique().notNull(),
+  accountType: varchar("account_type", { length: 20 }).notNull(), // cash, bank, wallet
+  currency: varchar("currency", { length: 10 }).notNull(), // RMB or EGP
+  // The method label stamped on payments made from this account (نقدي, فودافون كاش, ...)
+  paymentMethod: varchar("payment_method", { length: 50 }).notNull(),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }).default("0").notNull(),
+  openingBalanceDate: date("opening_balance_date").notNull(),
+  bankName: varchar("bank_name", { length: 255 }),
+  accountNumber: varchar("account_number", { length: 100 }),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payment Account Transfers table (تحويلات بين الحسابات) - money moved between two accounts, or a top-up
+// from outside when there is no source account. Cross-currency transfers record the amount on each side.
+export const paymentAccountTransfers = pgTable(
+  "payment_account_transfers",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    transferDate: timestamp("transfer_date").notNull(),
+    fromAccountId: integer("from_account_id").references(() => paymentAccounts.id),
+    toAccountId: integer("to_account_id").references(() => paymentAccounts.id).notNull(),
+    amountFrom: decimal("amount_from", { precision: 15, scale: 2 }), // in the source account's currency
+    amountTo: decimal("amount_to", { precision: 15, scale: 2 }).notNull(), // in the destination account's currency
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    note: text("note"),
+    createdByUserId: varchar("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_payment_account_transfers_from").on(table.fromAccountId, table.transferDate),
+    index("IDX_payment_account_transfers_to").on(table.toAccountId, table.transferDate),
+  ],
+);
+
+// Payment Remittances table (التحويلات المجمعة) - one lump sum sent to an agent and split across
+// several shipments; each share is recorded as an ordinary shipment payment pointing back here
+export const paymentRemittances = pgTable("payment_remittances", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  shipmentId: integer("shipment_id").references(() => shipments.id).notNull(),
   paymentDate: timestamp("payment_date").notNull(),
   paymentCurrency: varchar("payment_currency", { length: 10 }).notNull(), // RMB or EGP
   amountOriginal: decimal("amount_original", { precision: 15, scale: 2 }).notNull(),
   exchangeRateToEgp: decimal("exchange_rate_to_egp", { precision: 10, scale: 4 }),
   amountEgp: decimal("amount_egp", { precision: 15, scale: 2 }).notNull(),
+  allocationMethod: varchar("allocation_method", { length: 20 }).notNull(), // manual, oldest_first, proportional
   costComponent: varchar("cost_component", { length: 50 }).notNull(),
-  paymentMethod: varchar("payment_method", { length: 50 }).notNull(), // نقدي, فودافون كاش, إنستاباي, تحويل بنكي, أخرى
+  paymentMethod: varchar("payment_method", { length: 50 }).notNull(),
   cashReceiverName: varchar("cash_receiver_name", { length: 255 }),
   referenceNumber: varchar("reference_number", { length: 100 }),
   note: text("note"),
-  attachmentUrl: varchar("attachment_url"),
   createdByUserId: varchar("created_by_user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Supplier Advances table (دفعات مقدمة للموردين) - deposits paid before the shipment exists; they sit as
+// credit on the supplier until applied, and each application is a shipment payment pointing back here
+export const supplierAdvances = pgTable("supplier_advances", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  advanceDate: timestamp("advance_date").notNull(),
+  paymentCurrency: varchar("payment_currency", { length: 10 }).notNull(), // RMB or EGP
+  amountOriginal: decimal("amount_original", { precision: 15, scale: 2 }).notNull(),
+  exchangeRateToEgp: decimal("exchange_rate_to_egp", { precision: 10, scale: 4 }),
+  amountEgp: decimal("amount_egp", { precision: 15, scale: 2 }).notNull(),
+  paymentMethod: varchar("payment_method", { length: 50 }).notNull(),
+  paymentAccountId: integer("payment_account_id").references(() => paymentAccounts.id),
+  cashReceiverName: varchar("cash_receiver_name", { length: 255 }),
+  referenceNumber: varchar("reference_number", { length: 100 }),
+  note: text("note"),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Shipment Payments table (سداد الشحنات)
+export const shipmentPayments = pgTable(
+  "shipment_payments",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    shipmentId: integer("shipment_id").references(() => shipments.id).notNull(),
+    // Optional: settle a single supplier's share of a multi-supplier shipment
+    supplierId: integer("supplier_id").references(() => suppliers.id),
+    // Set when the payment is one shipment's share of a batch remittance
+    remittanceId: integer("remittance_id").references(() => paymentRemittances.id),
+    // Set when the payment applies part of a supplier advance; the money left when the advance was paid
+    supplierAdvanceId: integer("supplier_advance_id").references(() => supplierAdvances.id),
+    paymentDate: timestamp("payment_date").notNull(),
+    paymentCurrency: varchar("payment_currency", { length: 10 }).notNull(), // RMB or EGP
+    amountOriginal: decimal("amount_original", { precision: 15, scale: 2 }).notNull(),
+    exchangeRateToEgp: decimal("exchange_rate_to_egp", { precision: 10, scale: 4 }),
+    amountEgp: decimal("amount_egp", { precision: 15, scale: 2 }).notNull(),
+    costComponent: varchar("cost_component", { length: 50 }).notNull(),
+    paymentMethod: varchar("payment_method", { length: 50 }).notNull(), // نقدي, فودافون كاش, إنستاباي, تحويل بنكي, أخرى
+    // The cash box, bank account or wallet the money left from; null for payments recorded before accounts existed
+    paymentAccountId: integer("payment_account_id").references(() => paymentAccounts.id),
+    cashReceiverName: varchar("cash_receiver_name", { length: 255 }),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    note: text("note"),
+    attachmentUrl: varchar("attachment_url"), // Unused by uploads; proofs are stored in payment_attachments
+    // Voiding never deletes: the original row is flagged and a negative compensating row points back to it
+    reversalOfPaymentId: integer("reversal_of_payment_id").references((): AnyPgColumn => shipmentPayments.id),
+    voidedAt: timestamp("voided_at"),
+    voidedByUserId: varchar("voided_by_user_id").references(() => users.id),
+    voidReason: text("void_reason"),
+    createdByUserId: varchar("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_shipment_payments_shipment").on(table.shipmentId, table.paymentDate),
+    index("IDX_shipment_payments_remittance").on(table.remittanceId),
+    index("IDX_shipment_payments_supplier_advance").on(table.supplierAdvanceId),
+    index("IDX_shipment_payments_account").on(table.paymentAccountId, table.paymentDate),
+  ],
+);
+
+// Payment Attachments table (مرفقات الدفعات) - proof-of-payment files kept outside the public uploads
+// folder and only served through an authenticated route
+export const paymentAttachments = pgTable(
+  "payment_attachments",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    paymentId: integer("payment_id").references(() => shipmentPayments.id, { onDelete: "cascade" }).notNull(),
+    originalName: varchar("original_name", { length: 255 }).notNull(),
+    storedName: varchar("stored_name", { length: 255 }).notNull().unique(),
+    mimeType: varchar("mime_type", { length: 100 }).notNull(), // application/pdf, image/jpeg, image/png
+    sizeBytes: integer("size_bytes").notNull(),
+    uploadedByUserId: varchar("uploaded_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_payment_attachments_payment").on(table.paymentId)],
+);
+
+// Shipment Ledger table (دفتر قيود الشحنة) - append-only journal every shipment total is derived from.
+// Cost changes post the difference against what is already booked; payments and their reversals post one line each.
+export const shipmentLedgerEntries = pgTable(
+  "shipment_ledger_entries",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    // Restrict: a shipment with booked entries cannot be deleted out from under its ledger
+    shipmentId: integer("shipment_id").references(() => shipments.id, { onDelete: "restrict" }).notNull(),
+    entryType: varchar("entry_type", { length: 30 }).notNull(), // قيد تكلفة, سداد, عكس سداد
+    account: varchar("account", { length: 50 }).notNull(), // تكلفة البضاعة, العمولة, الشحن, الجمرك, التخريج
+    // Debits raise what is owed on the shipment, credits settle it
+    debitEgp: decimal("debit_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+    creditEgp: decimal("credit_egp", { precision: 15, scale: 2 }).default("0").notNull(),
+    paymentId: integer("payment_id").references(() => shipmentPayments.id),
+    description: text("description"),
+    createdByUserId: varchar("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_shipment_ledger_entries_shipment").on(table.shipmentId, table.account)],
+);
+
+// Warehouses table (المخازن) - physical locations stock is received into and moved between
+export const warehouses = pgTable("warehouses", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: varchar("name", { length: 255 }).unique().notNull(),
+  location: text("location"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Inventory Movements table (حركات المخزون)
-export const inventoryMovements = pgTable("inventory_movements", {
+export const inventoryMovements = pgTable(
+  "inventory_movements",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    shipmentId: integer("shipment_id").references(() => shipments.id),
+    shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id),
+    productId: integer("product_id").references(() => products.id),
+    movementType: varchar("movement_type", { length: 30 }).default("استلام").notNull(), // استلام, بيع, مرتجع للمورد, تالف, عينة, تحويل صادر, تحويل وارد
+    // Null for movements recorded before warehouses existed
+    warehouseId: integer("warehouse_id").references(() => warehouses.id),
+    totalPiecesIn: integer("total_pieces_in").default(0),
+    totalPiecesOut: integer("total_pieces_out").default(0),
+    reason: text("reason"),
+    unitCostRmb: decimal("unit_cost_rmb", { precision: 10, scale: 4 }),
+    unitCostEgp: decimal("unit_cost_egp", { precision: 10, scale: 4 }).notNull(),
+    totalCostEgp: decimal("total_cost_egp", { precision: 15, scale: 2 }).notNull(),
+    movementDate: date("movement_date").notNull(),
+    createdByUserId: varchar("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_inventory_movements_shipment").on(table.shipmentId, table.shipmentItemId)],
+);
+
+// Inventory Transfers table (تحويلات المخزون) - stock leaves the source when sent and reaches the destination when received
+export const inventoryTransfers = pgTable("inventory_transfers", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  shipmentId: integer("shipment_id").references(() => shipments.id),
-  shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id),
   productId: integer("product_id").references(() => products.id),
-  totalPiecesIn: integer("total_pieces_in").default(0),
-  unitCostRmb: decimal("unit_cost_rmb", { precision: 10, scale: 4 }),
-  unitCostEgp: decimal("unit_cost_egp", { precision: 10, scale: 4 }).notNull(),
+  shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id),
+  fromWarehouseId: integer("from_warehouse_id").references(() => warehouses.id).notNull(),
+  toWarehouseId: integer("to_warehouse_id").references(() => warehouses.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  status: varchar("status", { length: 30 }).default("في الطريق").notNull(), // في الطريق, مستلم
+  note: text("note"),
+  outMovementId: integer("out_movement_id").references(() => inventoryMovements.id),
+  inMovementId: integer("in_movement_id").references(() => inventoryMovements.id),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+  receivedAt: timestamp("received_at"),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id),
+  receivedByUserId: varchar("received_by_user_id").references(() => users.id),
+});
+
+// Inventory Cost Layers table (طبقات تكلفة المخزون) - one layer per receipt, consumed by outbound movements
+export const inventoryCostLayers = pgTable(
+  "inventory_cost_layers",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    productId: integer("product_id").references(() => products.id),
+    // Set only for items received without a linked product, which are costed on their own
+    shipmentItemId: integer("shipment_item_id").references(() => shipmentItems.id),
+    receiptMovementId: integer("receipt_movement_id").references(() => inventoryMovements.id).unique().notNull(),
+    layerDate: date("layer_date").notNull(),
+    originalQuantity: integer("original_quantity").notNull(),
+    remainingQuantity: integer("remaining_quantity").notNull(),
+    unitCostEgp: decimal("unit_cost_egp", { precision: 15, scale: 4 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_inventory_cost_layers_product").on(table.productId, table.layerDate)],
+);
+
+// Layer Consumptions table - which layers an outbound movement drew from, and at what cost (COGS)
+export const inventoryLayerConsumptions = pgTable("inventory_layer_consumptions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  movementId: integer("movement_id").references(() => inventoryMovements.id).notNull(),
+  layerId: integer("layer_id").references(() => inventoryCostLayers.id).notNull(),
+  costingMethod: varchar("costing_method", { length: 20 }).notNull(), // weighted_average, fifo
+  quantity: integer("quantity").notNull(),
+  unitCostEgp: decimal("unit_cost_egp", { precision: 15, scale: 4 }).notNull(),
   totalCostEgp: decimal("total_cost_egp", { precision: 15, scale: 2 }).notNull(),
-  movementDate: date("movement_date").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// App Settings table (الإعدادات) - one row per setting key
+export const appSettings = pgTable("app_settings", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: varchar("value", { length: 255 }).notNull(),
+  updatedByUserId: varchar("updated_by_user_id").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Account Mappings table (دليل الحسابات) - general-ledger accounts the journal export posts each cost component,
+// payment method and supplier payable to. Keys without a row fall back to the built-in chart.
+export const accountMappings = pgTable(
+  "account_mappings",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    mappingType: varchar("mapping_type", { length: 30 }).notNull(), // cost_component, payment_method, supplier_payable
+    // The cost component or payment method label, a supplier id, or "default" for the shared payables account
+    sourceKey: varchar("source_key", { length: 100 }).notNull(),
+    accountCode: varchar("account_code", { length: 50 }).notNull(),
+    accountName: varchar("account_name", { length: 255 }).notNull(),
+    updatedByUserId: varchar("updated_by_user_id").references(() => users.id),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_account_mappings_source").on(table.mappingType, table.sourceKey)],
+);
+
+// Accounting Periods table (الفترات المحاسبية) - one row per month that has ever been closed.
+// Payments, shipment cost edits and exchange rates dated inside a closed month are refused.
+export const accountingPeriods = pgTable("accounting_periods", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  periodMonth: varchar("period_month", { length: 7 }).notNull().unique(), // YYYY-MM
+  status: varchar("status", { length: 20 }).notNull().default("مفتوحة"), // مفتوحة, مغلقة
+  closedByUserId: varchar("closed_by_user_id").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  reopenedByUserId: varchar("reopened_by_user_id").references(() => users.id),
+  reopenedAt: timestamp("reopened_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Audit Logs table (سجل التغييرات)
 export const auditLogs = pgTable("audit_logs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -225,6 +566,8 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const suppliersRelations = relations(suppliers, ({ many }) => ({
   products: many(products),
   shipmentItems: many(shipmentItems),
+  payments: many(shipmentPayments),
+  advances: many(supplierAdvances),
 }));
 
 export const productTypesRelations = relations(productTypes, ({ many }) => ({
@@ -248,6 +591,7 @@ export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
   items: many(shipmentItems),
   shippingDetails: one(shipmentShippingDetails),
   customsDetails: one(shipmentCustomsDetails),
+  statusHistory: many(shipmentStatusHistory),
   payments: many(shipmentPayments),
   inventoryMovements: many(inventoryMovements),
 }));
@@ -271,6 +615,63 @@ export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
   }),
 }));
 
+export const shipmentItemLandedCostsRelations = relations(shipmentItemLandedCosts, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItemLandedCosts.shipmentId],
+    references: [shipments.id],
+  }),
+  shipmentItem: one(shipmentItems, {
+    fields: [shipmentItemLandedCosts.shipmentItemId],
+    references: [shipmentItems.id],
+  }),
+}));
+
+export const supplierClaimsRelations = relations(supplierClaims, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierClaims.supplierId],
+    references: [suppliers.id],
+  }),
+  shipment: one(shipments, {
+    fields: [supplierClaims.shipmentId],
+    references: [shipments.id],
+  }),
+  receipts: many(shipmentItemReceipts),
+}));
+
+export const supplierCreditNotesRelations = relations(supplierCreditNotes, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierCreditNotes.supplierId],
+    references: [suppliers.id],
+  }),
+  shipment: one(shipments, {
+    fields: [supplierCreditNotes.shipmentId],
+    references: [shipments.id],
+  }),
+  shipmentItem: one(shipmentItems, {
+    fields: [supplierCreditNotes.shipmentItemId],
+    references: [shipmentItems.id],
+  }),
+  claim: one(supplierClaims, {
+    fields: [supplierCreditNotes.claimId],
+    references: [supplierClaims.id],
+  }),
+}));
+
+export const shipmentItemReceiptsRelations = relations(shipmentItemReceipts, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItemReceipts.shipmentId],
+    references: [shipments.id],
+  }),
+  shipmentItem: one(shipmentItems, {
+    fields: [shipmentItemReceipts.shipmentItemId],
+    references: [shipmentItems.id],
+  }),
+  claim: one(supplierClaims, {
+    fields: [shipmentItemReceipts.claimId],
+    references: [supplierClaims.id],
+  }),
+}));
+
 export const shipmentShippingDetailsRelations = relations(shipmentShippingDetails, ({ one }) => ({
   shipment: one(shipments, {
     fields: [shipmentShippingDetails.shipmentId],
@@ -278,6 +679,17 @@ export const shipmentShippingDetailsRelations = relations(shipmentShippingDetail
   }),
 }));
 
+export const shipmentStatusHistoryRelations = relations(shipmentStatusHistory, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentStatusHistory.shipmentId],
+    references: [shipments.id],
+  }),
+  changedBy: one(users, {
+    fields: [shipmentStatusHistory.changedByUserId],
+    references: [users.id],
+  }),
+}));
+
 export const shipmentCustomsDetailsRelations = relations(shipmentCustomsDetails, ({ one }) => ({
   shipment: one(shipments, {
     fields: [shipmentCustomsDetails.shipmentId],
@@ -290,12 +702,82 @@ export const shipmentPaymentsRelations = relations(shipmentPayments, ({ one }) =
     fields: [shipmentPayments.shipmentId],
     references: [shipments.id],
   }),
+  supplier: one(suppliers, {
+    fields: [shipmentPayments.supplierId],
+    references: [suppliers.id],
+  }),
+  remittance: one(paymentRemittances, {
+    fields: [shipmentPayments.remittanceId],
+    references: [paymentRemittances.id],
+  }),
+  supplierAdvance: one(supplierAdvances, {
+    fields: [shipmentPayments.supplierAdvanceId],
+    references: [supplierAdvances.id],
+  }),
+  paymentAccount: one(paymentAccounts, {
+    fields: [shipmentPayments.paymentAccountId],
+    references: [paymentAccounts.id],
+  }),
   createdBy: one(users, {
     fields: [shipmentPayments.createdByUserId],
     references: [users.id],
   }),
 }));
 
+export const paymentAttachmentsRelations = relations(paymentAttachments, ({ one }) => ({
+  payment: one(shipmentPayments, {
+    fields: [paymentAttachments.paymentId],
+    references: [shipmentPayments.id],
+  }),
+}));
+
+export const paymentRemittancesRelations = relations(paymentRemittances, ({ many }) => ({
+  payments: many(shipmentPayments),
+}));
+
+export const supplierAdvancesRelations = relations(supplierAdvances, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierAdvances.supplierId],
+    references: [suppliers.id],
+  }),
+  paymentAccount: one(paymentAccounts, {
+    fields: [supplierAdvances.paymentAccountId],
+    references: [paymentAccounts.id],
+  }),
+  applications: many(shipmentPayments),
+}));
+
+export const paymentAccountsRelations = relations(paymentAccounts, ({ many }) => ({
+  payments: many(shipmentPayments),
+  advances: many(supplierAdvances),
+  transfersOut: many(paymentAccountTransfers, { relationName: "transferSource" }),
+  transfersIn: many(paymentAccountTransfers, { relationName: "transferDestination" }),
+}));
+
+export const paymentAccountTransfersRelations = relations(paymentAccountTransfers, ({ one }) => ({
+  fromAccount: one(paymentAccounts, {
+    fields: [paymentAccountTransfers.fromAccountId],
+    references: [paymentAccounts.id],
+    relationName: "transferSource",
+  }),
+  toAccount: one(paymentAccounts, {
+    fields: [paymentAccountTransfers.toAccountId],
+    references: [paymentAccounts.id],
+    relationName: "transferDestination",
+  }),
+}));
+
+export const shipmentLedgerEntriesRelations = relations(shipmentLedgerEntries, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentLedgerEntries.shipmentId],
+    references: [shipments.id],
+  }),
+  payment: one(shipmentPayments, {
+    fields: [shipmentLedgerEntries.paymentId],
+    references: [shipmentPayments.id],
+  }),
+}));
+
 export const inventoryMovementsRelations = relations(inventoryMovements, ({ one }) => ({
   shipment: one(shipments, {
     fields: [inventoryMovements.shipmentId],
@@ -309,6 +791,37 @@ export const inventoryMovementsRelations = relations(inventoryMovements, ({ one
     fields: [inventoryMovements.productId],
     references: [products.id],
   }),
+  warehouse: one(warehouses, {
+    fields: [inventoryMovements.warehouseId],
+    references: [warehouses.id],
+  }),
+}));
+
+export const warehousesRelations = relations(warehouses, ({ many }) => ({
+  inventoryMovements: many(inventoryMovements),
+}));
+
+export const inventoryCostLayersRelations = relations(inventoryCostLayers, ({ one, many }) => ({
+  product: one(products, {
+    fields: [inventoryCostLayers.productId],
+    references: [products.id],
+  }),
+  receiptMovement: one(inventoryMovements, {
+    fields: [inventoryCostLayers.receiptMovementId],
+    references: [inventoryMovements.id],
+  }),
+  consumptions: many(inventoryLayerConsumptions),
+}));
+
+export const inventoryLayerConsumptionsRelations = relations(inventoryLayerConsumptions, ({ one }) => ({
+  movement: one(inventoryMovements, {
+    fields: [inventoryLayerConsumptions.movementId],
+    references: [inventoryMovements.id],
+  }),
+  layer: one(inventoryCostLayers, {
+    fields: [inventoryLayerConsumptions.layerId],
+    references: [inventoryCostLayers.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -325,11 +838,28 @@ export const insertProductTypeSchema = createInsertSchema(productTypes).omit({ c
 export const insertProductSchema = createInsertSchema(products).omit({ createdAt: true, updatedAt: true });
 export const insertShipmentSchema = createInsertSchema(shipments).omit({ createdAt: true, updatedAt: true });
 export const insertShipmentItemSchema = createInsertSchema(shipmentItems).omit({ createdAt: true, updatedAt: true });
+export const insertShipmentItemLandedCostSchema = createInsertSchema(shipmentItemLandedCosts).omit({ computedAt: true });
+export const insertSupplierClaimSchema = createInsertSchema(supplierClaims).omit({ createdAt: true });
+export const insertSupplierCreditNoteSchema = createInsertSchema(supplierCreditNotes).omit({ status: true, decidedByUserId: true, decidedAt: true, createdAt: true });
+export const insertShipmentItemReceiptSchema = createInsertSchema(shipmentItemReceipts).omit({ receivedAt: true });
 export const insertShipmentShippingDetailsSchema = createInsertSchema(shipmentShippingDetails).omit({ createdAt: true, updatedAt: true });
 export const insertShipmentCustomsDetailsSchema = createInsertSchema(shipmentCustomsDetails).omit({ createdAt: true, updatedAt: true });
+export const insertShipmentStatusHistorySchema = createInsertSchema(shipmentStatusHistory).omit({ changedAt: true });
 export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({ createdAt: true });
 export const insertShipmentPaymentSchema = createInsertSchema(shipmentPayments).omit({ createdAt: true, updatedAt: true });
+export const insertPaymentAccountSchema = createInsertSchema(paymentAccounts).omit({ createdAt: true, updatedAt: true });
+export const insertPaymentAccountTransferSchema = createInsertSchema(paymentAccountTransfers).omit({ createdAt: true });
+export const insertPaymentRemittanceSchema = createInsertSchema(paymentRemittances).omit({ createdAt: true });
+export const insertSupplierAdvanceSchema = createInsertSchema(supplierAdvances).omit({ createdAt: true });
+export const insertPaymentAttachmentSchema = createInsertSchema(paymentAttachments).omit({ createdAt: true });
+export const insertShipmentLedgerEntrySchema = createInsertSchema(shipmentLedgerEntries).omit({ createdAt: true });
 export const insertInventoryMovementSchema = createInsertSchema(inventoryMovements).omit({ createdAt: true });
+export const insertWarehouseSchema = createInsertSchema(warehouses).omit({ createdAt: true, updatedAt: true });
+export const insertInventoryTransferSchema = createInsertSchema(inventoryTransfers).omit({ sentAt: true });
+export const insertInventoryCostLayerSchema = createInsertSchema(inventoryCostLayers).omit({ createdAt: true });
+export const insertInventoryLayerConsumptionSchema = createInsertSchema(inventoryLayerConsumptions).omit({ createdAt: true });
+export const insertAccountMappingSchema = createInsertSchema(accountMappings).omit({ updatedAt: true });
+export const insertAccountingPeriodSchema = createInsertSchema(accountingPeriods).omit({ createdAt: true, updatedAt: true });
 export const insertAuditLogSchema = createInsertSchema(auditLogs);
 
 // Types
@@ -345,15 +875,50 @@ export type InsertShipment = z.infer<typeof insertShipmentSchema>;
 export type Shipment = typeof shipments.$inferSelect;
 export type InsertShipmentItem = z.infer<typeof insertShipmentItemSchema>;
 export type ShipmentItem = typeof shipmentItems.$inferSelect;
+export type InsertShipmentItemLandedCost = z.infer<typeof insertShipmentItemLandedCostSchema>;
+export type ShipmentItemLandedCost = typeof shipmentItemLandedCosts.$inferSelect;
+export type InsertSupplierClaim = z.infer<typeof insertSupplierClaimSchema>;
+export type SupplierClaim = typeof supplierClaims.$inferSelect;
+export type InsertSupplierCreditNote = z.infer<typeof insertSupplierCreditNoteSchema>;
+export type SupplierCreditNote = typeof supplierCreditNotes.$inferSelect;
+export type InsertShipmentItemReceipt = z.infer<typeof insertShipmentItemReceiptSchema>;
+export type ShipmentItemReceipt = typeof shipmentItemReceipts.$inferSelect;
 export type InsertShipmentShippingDetails = z.infer<typeof insertShipmentShippingDetailsSchema>;
 export type ShipmentShippingDetails = typeof shipmentShippingDetails.$inferSelect;
 export type InsertShipmentCustomsDetails = z.infer<typeof insertShipmentCustomsDetailsSchema>;
 export type ShipmentCustomsDetails = typeof shipmentCustomsDetails.$inferSelect;
+export type InsertShipmentStatusHistory = z.infer<typeof insertShipmentStatusHistorySchema>;
+export type ShipmentStatusHistory = typeof shipmentStatusHistory.$inferSelect;
 export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertShipmentPayment = z.infer<typeof insertShipmentPaymentSchema>;
 export type ShipmentPayment = typeof shipmentPayments.$inferSelect;
+export type InsertPaymentAccount = z.infer<typeof insertPaymentAccountSchema>;
+export type PaymentAccount = typeof paymentAccounts.$inferSelect;
+export type InsertPaymentAccountTransfer = z.infer<typeof insertPaymentAccountTransferSchema>;
+export type PaymentAccountTransfer = typeof paymentAccountTransfers.$inferSelect;
+export type InsertPaymentRemittance = z.infer<typeof insertPaymentRemittanceSchema>;
+export type PaymentRemittance = typeof paymentRemittances.$inferSelect;
+export type InsertSupplierAdvance = z.infer<typeof insertSupplierAdvanceSchema>;
+export type SupplierAdvance = typeof supplierAdvances.$inferSelect;
+export type InsertPaymentAttachment = z.infer<typeof insertPaymentAttachmentSchema>;
+export type PaymentAttachment = typeof paymentAttachments.$inferSelect;
+export type InsertShipmentLedgerEntry = z.infer<typeof insertShipmentLedgerEntrySchema>;
+export type ShipmentLedgerEntry = typeof shipmentLedgerEntries.$inferSelect;
 export type InsertInventoryMovement = z.infer<typeof insertInventoryMovementSchema>;
 export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
+export type Warehouse = typeof warehouses.$inferSelect;
+export type InsertInventoryTransfer = z.infer<typeof insertInventoryTransferSchema>;
+export type InventoryTransfer = typeof inventoryTransfers.$inferSelect;
+export type InsertInventoryCostLayer = z.infer<typeof insertInventoryCostLayerSchema>;
+export type InventoryCostLayer = typeof inventoryCostLayers.$inferSelect;
+export type InsertInventoryLayerConsumption = z.infer<typeof insertInventoryLayerConsumptionSchema>;
+export type InventoryLayerConsumption = typeof inventoryLayerConsumptions.$inferSelect;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type InsertAccountMapping = z.infer<typeof insertAccountMappingSchema>;
+export type AccountMapping = typeof accountMappings.$inferSelect;
+export type InsertAccountingPeriod = z.infer<typeof insertAccountingPeriodSchema>;
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;